@@ -0,0 +1,104 @@
+// Edge middleware for the site's host. Link previews (WhatsApp, Instagram, Slack...) don't
+// run the SPA's JavaScript, so crawlers asking for a public artist page get its Open Graph
+// tags from here; everyone else falls through to the app.
+export const config = {
+  matcher: "/a/:slug",
+};
+
+const CRAWLER_AGENTS =
+  /facebookexternalhit|facebot|twitterbot|whatsapp|slackbot|linkedinbot|telegrambot|discordbot|pinterest|redditbot|skypeuripreview|applebot|googlebot|bingbot|embedly|iframely/i;
+
+interface PublicProfileRow {
+  full_name: string;
+  bio: string | null;
+  avatar_url: string | null;
+  cover_url: string | null;
+  location: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const describe = (profile: PublicProfileRow) => {
+  const bio = profile.bio?.replace(/\s+/g, " ").trim();
+  if (bio) return bio.length > 200 ? `${bio.slice(0, 197)}...` : bio;
+  return profile.location
+    ? `Artista em ${profile.location} no EchoArachna`
+    : "Artista no EchoArachna";
+};
+
+const fetchPublicProfile = async (slug: string) => {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL;
+  const supabaseKey = process.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  if (!supabaseUrl || !supabaseKey) return null;
+
+  // The publishable key is enough: get_public_profile only returns pages the artist made public
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/get_public_profile`, {
+    method: "POST",
+    headers: {
+      apikey: supabaseKey,
+      Authorization: `Bearer ${supabaseKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ _slug: slug }),
+  });
+  if (!response.ok) return null;
+
+  const rows = (await response.json()) as PublicProfileRow[];
+  return rows[0] ?? null;
+};
+
+export default async function middleware(request: Request) {
+  if (!CRAWLER_AGENTS.test(request.headers.get("user-agent") ?? "")) return;
+
+  const url = new URL(request.url);
+  let slug: string;
+  let profile: PublicProfileRow | null;
+  try {
+    slug = decodeURIComponent(url.pathname.split("/")[2] ?? "").toLowerCase();
+    profile = await fetchPublicProfile(slug);
+  } catch (error) {
+    console.error("Error loading public profile:", error);
+    return;
+  }
+  // Unknown or private pages get the app's generic tags
+  if (!profile) return;
+
+  const title = escapeHtml(`${profile.full_name} | EchoArachna`);
+  const description = escapeHtml(describe(profile));
+  const image = profile.cover_url || profile.avatar_url;
+  const pageUrl = escapeHtml(`${url.origin}/a/${encodeURIComponent(slug)}`);
+
+  const html = `<!doctype html>
+<html lang="pt-BR">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${title}</title>
+    <meta name="description" content="${description}" />
+    <meta property="og:title" content="${title}" />
+    <meta property="og:description" content="${description}" />
+    <meta property="og:type" content="profile" />
+    <meta property="og:url" content="${pageUrl}" />
+    ${image ? `<meta property="og:image" content="${escapeHtml(image)}" />` : ""}
+    <meta name="twitter:card" content="${image ? "summary_large_image" : "summary"}" />
+    <link rel="canonical" href="${pageUrl}" />
+  </head>
+  <body>
+    <a href="${pageUrl}">${title}</a>
+  </body>
+</html>
+`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+}
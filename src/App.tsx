@@ -11,8 +11,15 @@ import Onboarding from "./pages/Onboarding";
 import Feed from "./pages/Feed";
 import Profile from "./pages/Profile";
 import PublicProfile from "./pages/PublicProfile";
+import PublicArtist from "./pages/PublicArtist";
 import Messages from "./pages/Messages";
 import Admin from "./pages/Admin";
+import Gigs from "./pages/Gigs";
+import GigForm from "./pages/GigForm";
+import GigDetail from "./pages/GigDetail";
+import Bookings from "./pages/Bookings";
+import Favorites from "./pages/Favorites";
+import Compare from "./pages/Compare";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -32,7 +39,15 @@ const App = () => (
             <Route path="/feed" element={<Feed />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/profile/:id" element={<PublicProfile />} />
+            <Route path="/a/:slug" element={<PublicArtist />} />
             <Route path="/messages" element={<Messages />} />
+            <Route path="/gigs" element={<Gigs />} />
+            <Route path="/gigs/new" element={<GigForm />} />
+            <Route path="/gigs/:id" element={<GigDetail />} />
+            <Route path="/gigs/:id/edit" element={<GigForm />} />
+            <Route path="/bookings" element={<Bookings />} />
+            <Route path="/favorites" element={<Favorites />} />
+            <Route path="/compare" element={<Compare />} />
             <Route path="/admin" element={<Admin />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Heart, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import type { Tables } from "@/integrations/supabase/types";
+
+const listNameSchema = z.string().trim().min(1, "Dê um nome para a lista").max(80, "Nome deve ter no máximo 80 caracteres");
+
+interface AddToListPopoverProps {
+  userId: string;
+  profileId: string;
+  isFavorite: boolean;
+  onFavoriteChange: (isFavorite: boolean) => void;
+  variant?: ButtonProps["variant"];
+  size?: ButtonProps["size"];
+}
+
+export const AddToListPopover = ({
+  userId,
+  profileId,
+  isFavorite,
+  onFavoriteChange,
+  variant = "ghost",
+  size = "icon",
+}: AddToListPopoverProps) => {
+  const [lists, setLists] = useState<Tables<"favorite_lists">[]>([]);
+  const [favoriteId, setFavoriteId] = useState<string | null>(null);
+  const [listIds, setListIds] = useState<Set<string>>(new Set());
+  const [newListName, setNewListName] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const fetchLists = async () => {
+    try {
+      const [{ data: listsData, error: listsError }, { data: favorite, error: favoriteError }] = await Promise.all([
+        supabase
+          .from("favorite_lists")
+          .select("*")
+          .eq("user_id", userId)
+          .order("name"),
+        supabase
+          .from("favorites")
+          .select("id, entries:favorite_list_entries(list_id)")
+          .eq("user_id", userId)
+          .eq("favorited_user_id", profileId)
+          .maybeSingle(),
+      ]);
+
+      if (listsError) throw listsError;
+      if (favoriteError) throw favoriteError;
+
+      setLists(listsData || []);
+      setFavoriteId(favorite?.id ?? null);
+      setListIds(new Set(favorite?.entries.map((entry) => entry.list_id) ?? []));
+    } catch (error) {
+      console.error("Error fetching favorite lists:", error);
+    }
+  };
+
+  // Lists hang off the favorite row, so create it on first use
+  const ensureFavorite = async () => {
+    if (favoriteId) return favoriteId;
+
+    const { data, error } = await supabase
+      .from("favorites")
+      .upsert(
+        { user_id: userId, favorited_user_id: profileId },
+        { onConflict: "user_id,favorited_user_id" }
+      )
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    setFavoriteId(data.id);
+    onFavoriteChange(true);
+    return data.id;
+  };
+
+  const toggleFavorite = async () => {
+    setWorking(true);
+    try {
+      if (isFavorite) {
+        const { error } = await supabase
+          .from("favorites")
+          .delete()
+          .eq("user_id", userId)
+          .eq("favorited_user_id", profileId);
+
+        if (error) throw error;
+
+        setFavoriteId(null);
+        setListIds(new Set());
+        onFavoriteChange(false);
+        toast.success("Removido dos favoritos");
+      } else {
+        await ensureFavorite();
+        toast.success("Adicionado aos favoritos!");
+      }
+    } catch (error) {
+      console.error("Error toggling favorite:", error);
+      toast.error("Erro ao atualizar favoritos");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleList = async (list: Tables<"favorite_lists">) => {
+    setWorking(true);
+    try {
+      if (listIds.has(list.id) && favoriteId) {
+        const { error } = await supabase
+          .from("favorite_list_entries")
+          .delete()
+          .eq("list_id", list.id)
+          .eq("favorite_id", favoriteId);
+
+        if (error) throw error;
+
+        setListIds(prev => {
+          const next = new Set(prev);
+          next.delete(list.id);
+          return next;
+        });
+      } else {
+        const id = await ensureFavorite();
+        const { error } = await supabase
+          .from("favorite_list_entries")
+          .insert({ list_id: list.id, favorite_id: id });
+
+        if (error) throw error;
+
+        setListIds(prev => new Set(prev).add(list.id));
+        toast.success(`Adicionado a "${list.name}"`);
+      }
+    } catch (error) {
+      console.error("Error updating favorite list:", error);
+      toast.error("Erro ao atualizar lista");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const createList = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const name = listNameSchema.parse(newListName);
+
+      setWorking(true);
+
+      const { data: list, error } = await supabase
+        .from("favorite_lists")
+        .insert({ user_id: userId, name })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const id = await ensureFavorite();
+      const { error: entryError } = await supabase
+        .from("favorite_list_entries")
+        .insert({ list_id: list.id, favorite_id: id });
+
+      if (entryError) throw entryError;
+
+      setLists(prev => [...prev, list].sort((a, b) => a.name.localeCompare(b.name)));
+      setListIds(prev => new Set(prev).add(list.id));
+      setNewListName("");
+      toast.success(`Adicionado a "${list.name}"`);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error creating favorite list:", error);
+        toast.error("Erro ao criar lista");
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={(open) => open && fetchLists()}>
+      <PopoverTrigger asChild>
+        <Button variant={variant} size={size} title="Adicionar a uma lista">
+          <Heart className={`h-5 w-5 ${isFavorite ? "fill-artist text-artist" : ""}`} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="end">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`favorite-${profileId}`}
+              checked={isFavorite}
+              onCheckedChange={toggleFavorite}
+              disabled={working}
+            />
+            <Label htmlFor={`favorite-${profileId}`} className="cursor-pointer font-semibold">
+              Favoritos
+            </Label>
+          </div>
+
+          {lists.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {lists.map((list) => (
+                  <div key={list.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`list-${profileId}-${list.id}`}
+                      checked={listIds.has(list.id)}
+                      onCheckedChange={() => toggleList(list)}
+                      disabled={working}
+                    />
+                    <Label htmlFor={`list-${profileId}-${list.id}`} className="cursor-pointer truncate">
+                      {list.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <Separator />
+          <form onSubmit={createList} className="flex gap-2">
+            <Input
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="Nova lista..."
+              className="h-8"
+              maxLength={80}
+            />
+            <Button type="submit" size="icon" className="h-8 w-8 shrink-0" disabled={working}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
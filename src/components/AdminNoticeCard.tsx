@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Megaphone } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const ALL_USERS = "all";
+
+const noticeSchema = z.object({
+  title: z.string().trim().min(1, "Informe um título").max(200, "Título muito longo"),
+  body: z.string().trim().max(1000, "Mensagem muito longa"),
+  link: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || (value.startsWith("/") && !value.startsWith("//")), {
+      message: "O link deve ser um caminho do site, como /gigs",
+    }),
+});
+
+interface AdminNoticeCardProps {
+  profiles: { id: string; full_name: string }[];
+}
+
+export const AdminNoticeCard = ({ profiles }: AdminNoticeCardProps) => {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [link, setLink] = useState("");
+  const [recipient, setRecipient] = useState(ALL_USERS);
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validated = noticeSchema.parse({ title, body, link });
+
+      setSending(true);
+
+      const { data, error } = await supabase.rpc("send_admin_notice", {
+        _title: validated.title,
+        _body: validated.body || undefined,
+        _link: validated.link || undefined,
+        _user_id: recipient === ALL_USERS ? undefined : recipient,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Aviso enviado para ${data} ${data === 1 ? "usuário" : "usuários"}`);
+      setTitle("");
+      setBody("");
+      setLink("");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error sending notice:", error);
+        toast.error("Erro ao enviar aviso");
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Enviar aviso
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="notice-title">Título</Label>
+              <Input id="notice-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="notice-recipient">Destinatário</Label>
+              <Select value={recipient} onValueChange={setRecipient}>
+                <SelectTrigger id="notice-recipient">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_USERS}>Todos os usuários</SelectItem>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notice-body">Mensagem</Label>
+            <Textarea id="notice-body" value={body} onChange={(e) => setBody(e.target.value)} maxLength={1000} rows={3} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notice-link">Link (opcional)</Label>
+            <Input id="notice-link" value={link} onChange={(e) => setLink(e.target.value)} placeholder="/gigs" />
+          </div>
+          <Button type="submit" disabled={sending}>
+            {sending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enviar aviso
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,75 @@
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useUnreadMessages } from "@/hooks/useUnreadMessages";
+import { Button } from "@/components/ui/button";
+import { NotificationBell } from "@/components/NotificationBell";
+import { Briefcase, CalendarCheck, Heart, LogOut, MessageCircle, User } from "lucide-react";
+
+export const AppHeader = () => {
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+  const unreadMessages = useUnreadMessages();
+
+  return (
+    <header className="border-b border-border/50 backdrop-blur-sm bg-card/50 sticky top-0 z-20">
+      <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+        <button onClick={() => navigate("/feed")}>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-artist-glow to-organizer-glow bg-clip-text text-transparent">
+            EchoArachna
+          </h1>
+        </button>
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/gigs")}
+          >
+            <Briefcase className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/favorites")}
+          >
+            <Heart className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/bookings")}
+          >
+            <CalendarCheck className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative"
+            onClick={() => navigate("/messages")}
+          >
+            <MessageCircle className="w-5 h-5" />
+            {unreadMessages > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-artist text-artist-foreground text-xs font-semibold flex items-center justify-center">
+                {unreadMessages > 99 ? "99+" : unreadMessages}
+              </span>
+            )}
+          </Button>
+          <NotificationBell />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/profile")}
+          >
+            <User className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={signOut}
+          >
+            <LogOut className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+};
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { supabase } from "@/integrations/supabase/client";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Database } from "@/integrations/supabase/types";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { calendarStatusLabels } from "@/lib/constants";
+import { formatDate } from "@/lib/format";
+
+type CalendarRange = Database["public"]["Functions"]["get_artist_calendar"]["Returns"][number];
+type AvailabilityStatus = Database["public"]["Enums"]["availability_status"];
+
+const statusClasses: Record<string, string> = {
+  available: "bg-artist/20 text-artist-foreground",
+  blocked: "bg-muted text-muted-foreground line-through",
+  booked: "bg-organizer/30 text-organizer-foreground",
+};
+
+interface AvailabilityCalendarProps {
+  artistId: string;
+  editable?: boolean;
+}
+
+export const AvailabilityCalendar = ({ artistId, editable = false }: AvailabilityCalendarProps) => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [ranges, setRanges] = useState<CalendarRange[]>([]);
+  const [selected, setSelected] = useState<DateRange | undefined>();
+  const [status, setStatus] = useState<AvailabilityStatus>("blocked");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRanges();
+  }, [artistId, month]);
+
+  const fetchRanges = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_artist_calendar", {
+        _artist_id: artistId,
+        _from: format(month, "yyyy-MM-dd"),
+        _to: format(endOfMonth(month), "yyyy-MM-dd"),
+      });
+
+      if (error) throw error;
+      setRanges(data || []);
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selected?.from) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("artist_availability")
+        .insert({
+          artist_id: artistId,
+          start_date: format(selected.from, "yyyy-MM-dd"),
+          end_date: format(selected.to ?? selected.from, "yyyy-MM-dd"),
+          status,
+          note: note.trim() || null,
+        });
+
+      if (error) throw error;
+
+      setSelected(undefined);
+      setNote("");
+      fetchRanges();
+      toast.success("Agenda atualizada");
+    } catch (error) {
+      // 23P01: exclusion violation, the period touches a range already marked
+      if ((error as { code?: string }).code === "23P01") {
+        toast.error("Esse período se sobrepõe a outro já marcado");
+      } else {
+        console.error("Error saving availability:", error);
+        toast.error("Erro ao atualizar agenda");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (rangeId: string) => {
+    try {
+      const { error } = await supabase
+        .from("artist_availability")
+        .delete()
+        .eq("id", rangeId);
+
+      if (error) throw error;
+      setRanges(prev => prev.filter(r => r.id !== rangeId));
+    } catch (error) {
+      console.error("Error removing availability:", error);
+      toast.error("Erro ao atualizar agenda");
+    }
+  };
+
+  const rangesWithStatus = (value: string) =>
+    ranges
+      .filter(r => r.status === value)
+      .map(r => ({ from: parseISO(r.start_date), to: parseISO(r.end_date) }));
+
+  const modifiers = {
+    available: rangesWithStatus("available"),
+    blocked: rangesWithStatus("blocked"),
+    booked: rangesWithStatus("booked"),
+  };
+
+  const editableRanges = ranges.filter(r => r.status !== "booked");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="rounded-lg border border-border/50 bg-background/50 w-fit">
+          {editable ? (
+            <Calendar
+              mode="range"
+              selected={selected}
+              onSelect={setSelected}
+              month={month}
+              onMonthChange={setMonth}
+              locale={ptBR}
+              disabled={[{ before: new Date() }, ...modifiers.booked]}
+              modifiers={modifiers}
+              modifiersClassNames={statusClasses}
+            />
+          ) : (
+            <Calendar
+              month={month}
+              onMonthChange={setMonth}
+              locale={ptBR}
+              modifiers={modifiers}
+              modifiersClassNames={statusClasses}
+            />
+          )}
+        </div>
+
+        <div className="flex-1 space-y-4">
+          <div className="flex flex-wrap gap-3 text-xs">
+            {Object.entries(calendarStatusLabels).map(([value, label]) => (
+              <span key={value} className="flex items-center gap-1.5">
+                <span className={`inline-block w-3 h-3 rounded-sm ${statusClasses[value]}`} />
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {editable && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {selected?.from
+                  ? `${format(selected.from, "dd/MM")}${selected.to ? ` a ${format(selected.to, "dd/MM")}` : ""}`
+                  : "Selecione um dia ou período no calendário"}
+              </p>
+              <Select value={status} onValueChange={(value) => setStatus(value as AvailabilityStatus)}>
+                <SelectTrigger className="bg-background/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="available">{calendarStatusLabels.available}</SelectItem>
+                  <SelectItem value="blocked">{calendarStatusLabels.blocked}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Observação (opcional)"
+                className="bg-background/50"
+                maxLength={200}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleAdd}
+                disabled={!selected?.from || saving}
+              >
+                {saving ? "Salvando..." : "Marcar período"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {editable && editableRanges.length > 0 && (
+        <div className="space-y-2">
+          {editableRanges.map((range) => (
+            <div
+              key={range.id}
+              className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border/50 text-sm"
+            >
+              <span className="flex items-center gap-2">
+                <span className={`inline-block w-3 h-3 rounded-sm ${statusClasses[range.status]}`} />
+                {formatDate(range.start_date, "dd/MM")}
+                {range.end_date !== range.start_date && ` a ${formatDate(range.end_date, "dd/MM")}`}
+                {" · "}
+                {calendarStatusLabels[range.status]}
+                {range.note && <span className="text-muted-foreground">— {range.note}</span>}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(range.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Upload } from "lucide-react";
 import { toast } from "sonner";
+import { processImage } from "@/lib/images";
 
 interface AvatarUploadProps {
   userId: string;
@@ -15,6 +16,9 @@ export const AvatarUpload = ({ userId, currentAvatarUrl, onUploadComplete }: Ava
   const [uploading, setUploading] = useState(false);
 
   const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    // Set while the unprocessed original, EXIF and all, sits in the public bucket
+    let originalPath: string | null = null;
+
     try {
       setUploading(true);
 
@@ -23,31 +27,43 @@ export const AvatarUpload = ({ userId, currentAvatarUrl, onUploadComplete }: Ava
       }
 
       const file = event.target.files[0];
+      if (!file.type.startsWith('image/')) {
+        toast.error("Escolha um arquivo de imagem");
+        return;
+      }
       const fileExt = file.name.split('.').pop();
-      const filePath = `${userId}/avatar.${fileExt}`;
+      // Never the live avatar.webp, which a failed upload would otherwise take down
+      const filePath = `${userId}/upload-${crypto.randomUUID()}.${fileExt}`;
 
       const { error: uploadError } = await supabase.storage
         .from('avatars')
-        .upload(filePath, file, { upsert: true });
+        .upload(filePath, file);
 
       if (uploadError) throw uploadError;
+      originalPath = filePath;
+
+      // Replaces the original with a 512px WebP crop
+      const { url } = await processImage('avatars', filePath);
+      originalPath = null;
 
-      const { data } = supabase.storage.from('avatars').getPublicUrl(filePath);
-      
       const { error: updateError } = await supabase
         .from('profiles')
-        .update({ avatar_url: data.publicUrl })
+        .update({ avatar_url: url })
         .eq('id', userId);
 
       if (updateError) throw updateError;
 
-      onUploadComplete(data.publicUrl);
+      onUploadComplete(url);
       toast.success("Avatar atualizado!");
     } catch (error) {
       console.error('Error uploading avatar:', error);
       toast.error("Erro ao fazer upload do avatar");
+      if (originalPath) {
+        await supabase.storage.from('avatars').remove([originalPath]);
+      }
     } finally {
       setUploading(false);
+      event.target.value = "";
     }
   };
 
@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { Tables } from "@/integrations/supabase/types";
+import { Calendar, Clock, MapPin, DollarSign, FileSignature } from "lucide-react";
+import { proposalStatusLabels } from "@/lib/constants";
+import { formatCurrency, formatDate, formatTime } from "@/lib/format";
+
+interface BookingProposalCardProps {
+  proposal: Tables<"booking_proposals">;
+  isReceiver: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+  onCounter: () => void;
+}
+
+export const BookingProposalCard = ({
+  proposal,
+  isReceiver,
+  onAccept,
+  onDecline,
+  onCounter,
+}: BookingProposalCardProps) => {
+  return (
+    <div className="w-80 max-w-full rounded-lg border border-border/50 bg-card text-card-foreground p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-semibold">
+          <FileSignature className="w-4 h-4" />
+          {proposal.counter_of ? "Contraproposta" : "Proposta de contratação"}
+        </span>
+        <Badge variant="outline">{proposalStatusLabels[proposal.status]}</Badge>
+      </div>
+
+      <div className="space-y-1 text-sm text-muted-foreground">
+        <p className="flex items-center gap-2">
+          <Calendar className="w-4 h-4" />
+          {formatDate(proposal.event_date)}
+        </p>
+        <p className="flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          {formatTime(proposal.start_time)} – {formatTime(proposal.end_time)}
+        </p>
+        {proposal.location && (
+          <p className="flex items-center gap-2">
+            <MapPin className="w-4 h-4" />
+            {proposal.location}
+          </p>
+        )}
+        <p className="flex items-center gap-2 text-foreground font-medium">
+          <DollarSign className="w-4 h-4" />
+          {formatCurrency(proposal.fee)}
+        </p>
+      </div>
+
+      {proposal.notes && (
+        <p className="text-sm whitespace-pre-line">{proposal.notes}</p>
+      )}
+
+      {isReceiver && proposal.status === "pending" && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={onAccept}>
+            Aceitar
+          </Button>
+          <Button size="sm" variant="outline" onClick={onCounter}>
+            Contrapropor
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onDecline}>
+            Recusar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
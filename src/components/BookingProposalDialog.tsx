@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { formatTime } from "@/lib/format";
+import { z } from "zod";
+
+const proposalSchema = z.object({
+  event_date: z.string().min(1, "Informe a data do evento"),
+  start_time: z.string().min(1, "Informe o horário de início"),
+  end_time: z.string().min(1, "Informe o horário de término"),
+  location: z.string().trim().max(200).optional(),
+  fee: z.string().trim().refine(
+    (value) => value !== "" && !isNaN(Number(value)) && Number(value) >= 0,
+    "Informe um cachê válido"
+  ),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+interface BookingProposalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  senderId: string;
+  receiverId: string;
+  counterOf?: Tables<"booking_proposals"> | null;
+  onSent: () => void;
+}
+
+export const BookingProposalDialog = ({
+  open,
+  onOpenChange,
+  senderId,
+  receiverId,
+  counterOf,
+  onSent,
+}: BookingProposalDialogProps) => {
+  const [eventDate, setEventDate] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [location, setLocation] = useState("");
+  const [fee, setFee] = useState("");
+  const [notes, setNotes] = useState("");
+  const [sending, setSending] = useState(false);
+
+  // Counter-proposals start from the terms being answered
+  useEffect(() => {
+    if (!open) return;
+
+    setEventDate(counterOf?.event_date ?? "");
+    setStartTime(counterOf ? formatTime(counterOf.start_time) : "");
+    setEndTime(counterOf ? formatTime(counterOf.end_time) : "");
+    setLocation(counterOf?.location ?? "");
+    setFee(counterOf ? String(counterOf.fee) : "");
+    setNotes(counterOf?.notes ?? "");
+  }, [open, counterOf]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validatedData = proposalSchema.parse({
+        event_date: eventDate,
+        start_time: startTime,
+        end_time: endTime,
+        location,
+        fee,
+        notes,
+      });
+
+      setSending(true);
+
+      const { error } = await supabase
+        .from("booking_proposals")
+        .insert({
+          sender_id: senderId,
+          receiver_id: receiverId,
+          event_date: validatedData.event_date,
+          start_time: validatedData.start_time,
+          end_time: validatedData.end_time,
+          location: validatedData.location || null,
+          fee: Number(validatedData.fee),
+          notes: validatedData.notes || null,
+          counter_of: counterOf?.id ?? null,
+        });
+
+      if (error) throw error;
+
+      toast.success(counterOf ? "Contraproposta enviada!" : "Proposta enviada!");
+      onOpenChange(false);
+      onSent();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error sending proposal:", error);
+        toast.error("Erro ao enviar proposta");
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{counterOf ? "Contraproposta" : "Proposta de contratação"}</DialogTitle>
+          <DialogDescription>
+            Data, horário, local e cachê ficam registrados na conversa
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-date">Data</Label>
+              <Input
+                id="proposal-date"
+                type="date"
+                value={eventDate}
+                onChange={(e) => setEventDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-start">Início</Label>
+              <Input
+                id="proposal-start"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-end">Término</Label>
+              <Input
+                id="proposal-end"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-location">Local (opcional)</Label>
+              <Input
+                id="proposal-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Espaço Villa Lobos, São Paulo"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-fee">Cachê em R$</Label>
+              <Input
+                id="proposal-fee"
+                type="number"
+                min={0}
+                step="0.01"
+                value={fee}
+                onChange={(e) => setFee(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="proposal-notes">Observações (opcional)</Label>
+            <Textarea
+              id="proposal-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Rider técnico, forma de pagamento, deslocamento..."
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={sending}>
+              {sending ? "Enviando..." : "Enviar Proposta"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
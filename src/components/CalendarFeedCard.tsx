@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Copy, RefreshCw, CalendarPlus } from "lucide-react";
+import { toast } from "sonner";
+import { calendarFeedUrl } from "@/lib/ics";
+
+interface CalendarFeedCardProps {
+  userId: string;
+}
+
+export const CalendarFeedCard = ({ userId }: CalendarFeedCardProps) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const fetchToken = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("calendar_feeds")
+          .select("token")
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) throw error;
+        setToken(data?.token ?? null);
+      } catch (error) {
+        console.error("Error fetching calendar feed:", error);
+      }
+    };
+
+    fetchToken();
+  }, [userId]);
+
+  const regenerate = async () => {
+    setWorking(true);
+    try {
+      const { data, error } = await supabase.rpc("regenerate_calendar_feed_token");
+
+      if (error) throw error;
+
+      setToken(data);
+      toast.success(token ? "Novo link gerado. O anterior deixou de funcionar." : "Link da agenda gerado!");
+    } catch (error) {
+      console.error("Error generating calendar feed:", error);
+      toast.error("Erro ao gerar link da agenda");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const disable = async () => {
+    setWorking(true);
+    try {
+      const { error } = await supabase
+        .from("calendar_feeds")
+        .delete()
+        .eq("user_id", userId);
+
+      if (error) throw error;
+
+      setToken(null);
+      toast.success("Link da agenda desativado");
+    } catch (error) {
+      console.error("Error disabling calendar feed:", error);
+      toast.error("Erro ao desativar link da agenda");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const feedUrl = token ? calendarFeedUrl(token) : "";
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast.success("Link copiado!");
+  };
+
+  return (
+    <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+      <CardHeader>
+        <CardTitle className="text-lg">Assinar no calendário do celular</CardTitle>
+        <CardDescription>
+          Contratações confirmadas e datas bloqueadas aparecem no Google Agenda, Apple Calendário ou Outlook.
+          Não compartilhe este link.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {token ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="bg-background/50" />
+              <Button variant="outline" size="icon" onClick={copyUrl}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Abrir no calendário
+                </a>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={regenerate} disabled={working}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Gerar novo link
+              </Button>
+              <Button variant="ghost" size="sm" onClick={disable} disabled={working}>
+                Desativar
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button variant="outline" onClick={regenerate} disabled={working}>
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            {working ? "Gerando..." : "Gerar link da agenda"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown, MapPin, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface City {
+  id: number;
+  name: string;
+  state: string;
+}
+
+interface CityComboboxProps {
+  value: City | null;
+  onChange: (city: City | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Same normalization as br_cities.search_name
+const normalize = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+export const CityCombobox = ({ value, onChange, placeholder = "Cidade", className }: CityComboboxProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [cities, setCities] = useState<City[]>([]);
+
+  useEffect(() => {
+    const term = normalize(query);
+    if (term.length < 2) {
+      setCities([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const { data, error } = await supabase
+          .from("br_cities")
+          .select("id, name, state")
+          .ilike("search_name", `%${term}%`)
+          .order("population", { ascending: false })
+          .limit(10);
+
+        if (error) throw error;
+        setCities(data || []);
+      } catch (error) {
+        console.error("Error searching cities:", error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("justify-between font-normal bg-background/50", className)}
+        >
+          <span className="flex items-center gap-2 truncate">
+            <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
+            {value ? `${value.name} - ${value.state}` : <span className="text-muted-foreground">{placeholder}</span>}
+          </span>
+          {value ? (
+            <X
+              className="h-4 w-4 opacity-50 hover:opacity-100"
+              onClick={(e) => {
+                e.stopPropagation();
+                onChange(null);
+              }}
+            />
+          ) : (
+            <ChevronsUpDown className="h-4 w-4 opacity-50" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Digite o nome da cidade..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList>
+            <CommandEmpty>
+              {normalize(query).length < 2 ? "Digite ao menos 2 letras" : "Nenhuma cidade encontrada"}
+            </CommandEmpty>
+            <CommandGroup>
+              {cities.map((city) => (
+                <CommandItem
+                  key={city.id}
+                  value={String(city.id)}
+                  onSelect={() => {
+                    onChange(city);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value?.id === city.id ? "opacity-100" : "opacity-0")} />
+                  {city.name} - {city.state}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
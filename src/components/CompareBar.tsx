@@ -0,0 +1,35 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Columns3, X } from "lucide-react";
+import { MAX_COMPARE_PROFILES, compareUrl } from "@/lib/compare";
+
+interface CompareBarProps {
+  profileIds: string[];
+  date?: string;
+  onClear: () => void;
+}
+
+export const CompareBar = ({ profileIds, date, onClear }: CompareBarProps) => {
+  const navigate = useNavigate();
+
+  if (profileIds.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 rounded-full border border-border/50 bg-card/95 backdrop-blur-sm px-4 py-2 shadow-lg">
+      <span className="text-sm text-muted-foreground">
+        {profileIds.length}/{MAX_COMPARE_PROFILES} selecionados
+      </span>
+      <Button
+        size="sm"
+        disabled={profileIds.length < 2}
+        onClick={() => navigate(compareUrl(profileIds, date))}
+      >
+        <Columns3 className="h-4 w-4 mr-2" />
+        Comparar
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClear}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { FileDown } from "lucide-react";
+import { toast } from "sonner";
+import { buildEpk, epkFileName, epkTemplates, MAX_EPK_IMAGES, type EpkData, type EpkTemplate } from "@/lib/epk";
+import { toPortfolioItems, type PortfolioItem } from "@/lib/portfolio";
+
+interface EpkDialogProps {
+  artistId: string;
+  variant?: ButtonProps["variant"];
+}
+
+export const EpkDialog = ({ artistId, variant = "outline" }: EpkDialogProps) => {
+  const [data, setData] = useState<Omit<EpkData, "imageUrls"> | null>(null);
+  const [images, setImages] = useState<PortfolioItem[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [template, setTemplate] = useState<EpkTemplate>("classic");
+  const [generating, setGenerating] = useState(false);
+
+  const fetchData = async () => {
+    try {
+      const [profileResult, artistResult, rateCardResult, packagesResult, ratingResult] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select("full_name, pronouns, bio, email, phone, avatar_url")
+          .eq("id", artistId)
+          .single(),
+        supabase
+          .from("artist_profiles")
+          .select("artistic_branches, skills, experience_years, location, travel_radius_km, portfolio_items")
+          .eq("profile_id", artistId)
+          .maybeSingle(),
+        supabase
+          .from("artist_rate_cards")
+          .select("*")
+          .eq("artist_id", artistId)
+          .maybeSingle(),
+        supabase
+          .from("artist_packages")
+          .select("*")
+          .eq("artist_id", artistId)
+          .order("position")
+          .order("created_at"),
+        supabase
+          .from("profile_ratings")
+          .select("average_rating, review_count")
+          .eq("profile_id", artistId)
+          .maybeSingle(),
+      ]);
+
+      for (const { error } of [profileResult, artistResult, rateCardResult, packagesResult, ratingResult]) {
+        if (error) throw error;
+      }
+
+      let artist: EpkData["artist"] = null;
+      let portfolioImages: PortfolioItem[] = [];
+      if (artistResult.data) {
+        const { portfolio_items, ...rest } = artistResult.data;
+        artist = rest;
+        portfolioImages = toPortfolioItems(portfolio_items).filter((item) => item.type === "image");
+      }
+      // The cover goes first, then portfolio order
+      const defaults = [...portfolioImages].sort((a, b) => Number(!!b.cover) - Number(!!a.cover));
+
+      setData({
+        profile: profileResult.data!,
+        artist,
+        rateCard: rateCardResult.data,
+        packages: packagesResult.data || [],
+        rating: ratingResult.data,
+      });
+      setImages(portfolioImages);
+      setSelected(defaults.slice(0, MAX_EPK_IMAGES).map((item) => item.url));
+    } catch (error) {
+      console.error("Error fetching press kit data:", error);
+      toast.error("Erro ao carregar dados do press kit");
+    }
+  };
+
+  const toggleImage = (url: string) => {
+    if (!selected.includes(url) && selected.length >= MAX_EPK_IMAGES) {
+      toast.error(`Escolha no máximo ${MAX_EPK_IMAGES} imagens`);
+      return;
+    }
+    setSelected((prev) => (prev.includes(url) ? prev.filter((item) => item !== url) : [...prev, url]));
+  };
+
+  const handleDownload = async () => {
+    if (!data) return;
+
+    setGenerating(true);
+    try {
+      // Keep portfolio order rather than click order
+      const imageUrls = images.filter((item) => selected.includes(item.url)).map((item) => item.url);
+      const doc = await buildEpk({ ...data, imageUrls }, template);
+      doc.save(epkFileName(data.profile.full_name));
+    } catch (error) {
+      console.error("Error generating press kit:", error);
+      toast.error("Erro ao gerar o PDF");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchData()}>
+      <DialogTrigger asChild>
+        <Button type="button" variant={variant}>
+          <FileDown className="mr-2 h-4 w-4" />
+          Press kit (PDF)
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Press kit</DialogTitle>
+          <DialogDescription>
+            Um PDF com foto, bio, especialidades, portfólio, valores e contato, pronto para enviar a casas e produtores.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!data ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Carregando...</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Modelo</Label>
+              <RadioGroup value={template} onValueChange={(value) => setTemplate(value as EpkTemplate)}>
+                {epkTemplates.map((option) => (
+                  <div key={option.id} className="flex items-start gap-2">
+                    <RadioGroupItem value={option.id} id={`epk-${option.id}`} className="mt-0.5" />
+                    <Label htmlFor={`epk-${option.id}`} className="cursor-pointer font-normal">
+                      <span className="font-medium">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            {images.length > 0 && (
+              <div className="space-y-2">
+                <Label>
+                  Imagens do portfólio ({selected.length}/{MAX_EPK_IMAGES})
+                </Label>
+                <div className="grid grid-cols-4 gap-2 max-h-56 overflow-y-auto">
+                  {images.map((item, index) => (
+                    <label
+                      key={item.url}
+                      className={`relative aspect-square rounded-md overflow-hidden cursor-pointer border-2 transition-colors ${
+                        selected.includes(item.url) ? "border-artist" : "border-transparent"
+                      }`}
+                    >
+                      <img
+                        src={item.thumb_url ?? item.url}
+                        alt={item.title || `Portfolio ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                      <Checkbox
+                        checked={selected.includes(item.url)}
+                        onCheckedChange={() => toggleImage(item.url)}
+                        className="absolute top-1 left-1 bg-background"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="artist" onClick={handleDownload} disabled={!data || generating}>
+            {generating ? "Gerando..." : "Baixar PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, MapPin, DollarSign } from "lucide-react";
+import { branchLabels, eventTypeLabels } from "@/lib/constants";
+import { formatCurrency, formatDate } from "@/lib/format";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface GigCardProps {
+  gig: Tables<"gigs">;
+  organizerName?: string;
+  onClick?: () => void;
+  actions?: React.ReactNode;
+}
+
+export const GigCard = ({ gig, organizerName, onClick, actions }: GigCardProps) => {
+  return (
+    <Card
+      className={`border-border/50 backdrop-blur-sm bg-card/90 transition-all ${
+        onClick ? "hover:border-accent cursor-pointer" : ""
+      }`}
+      onClick={onClick}
+    >
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            <CardTitle className="text-lg">{gig.title}</CardTitle>
+            <CardDescription>
+              {eventTypeLabels[gig.event_type] || gig.event_type}
+              {organizerName && ` · ${organizerName}`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+            {gig.status === "closed" && (
+              <Badge variant="outline">Encerrada</Badge>
+            )}
+            {actions}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Calendar className="w-4 h-4" />
+            {formatDate(gig.event_date)}
+          </span>
+          {(gig.venue || gig.location) && (
+            <span className="flex items-center gap-1">
+              <MapPin className="w-4 h-4" />
+              {[gig.venue, gig.location].filter(Boolean).join(" · ")}
+            </span>
+          )}
+          {gig.budget !== null && (
+            <span className="flex items-center gap-1">
+              <DollarSign className="w-4 h-4" />
+              {formatCurrency(gig.budget)}
+            </span>
+          )}
+        </div>
+        {gig.description && (
+          <p className="text-sm text-muted-foreground line-clamp-3">{gig.description}</p>
+        )}
+        {gig.required_branches.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {gig.required_branches.map((branch) => (
+              <Badge
+                key={branch}
+                variant="secondary"
+                className="bg-artist/20 text-artist-foreground"
+              >
+                {branchLabels[branch] || branch}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
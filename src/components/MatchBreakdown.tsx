@@ -0,0 +1,73 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Sparkles } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+
+// Shape of the jsonb returned by match_scores(); factors are 0-1 or null when unknown
+export interface MatchFactors {
+  score: number;
+  branch: number | null;
+  location: number | null;
+  distance_km: number | null;
+  budget: number | null;
+  availability: number | null;
+}
+
+interface MatchBreakdownProps {
+  breakdown: Json;
+}
+
+const factorLabels: { key: keyof Omit<MatchFactors, "score" | "distance_km">; label: string; missing: string }[] = [
+  { key: "branch", label: "Ramos artísticos", missing: "Contratante sem ramos preferidos" },
+  { key: "location", label: "Localização", missing: "Cidade não informada" },
+  { key: "budget", label: "Orçamento x cachê", missing: "Orçamento ou cachê não informado" },
+  { key: "availability", label: "Agenda nos próximos 30 dias", missing: "Sem dados de agenda" },
+];
+
+export const MatchBreakdown = ({ breakdown }: MatchBreakdownProps) => {
+  if (!breakdown || typeof breakdown !== "object" || Array.isArray(breakdown)) return null;
+
+  const factors = breakdown as unknown as MatchFactors;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild onClick={(e) => e.stopPropagation()}>
+        <button type="button">
+          <Badge variant="outline" className="gap-1 border-accent/50 text-accent hover:bg-accent/10">
+            <Sparkles className="h-3 w-3" />
+            {factors.score}% compatível
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="start" onClick={(e) => e.stopPropagation()}>
+        <div className="space-y-3">
+          <p className="text-sm font-semibold">Por que esse match?</p>
+          {factorLabels.map(({ key, label, missing }) => {
+            const value = factors[key];
+            return (
+              <div key={key} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>{label}</span>
+                  <span className="text-muted-foreground">
+                    {value != null ? `${Math.round(value * 100)}%` : "—"}
+                  </span>
+                </div>
+                {value != null ? (
+                  <Progress value={value * 100} className="h-1.5" />
+                ) : (
+                  <p className="text-xs text-muted-foreground">{missing}</p>
+                )}
+                {key === "location" && factors.distance_km != null && (
+                  <p className="text-xs text-muted-foreground">
+                    {Math.round(factors.distance_km)} km entre as cidades
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, ImageIcon } from "lucide-react";
+import { toast } from "sonner";
+import { attachmentUrl, isImageAttachment, type MessageAttachment } from "@/lib/attachments";
+import { formatFileSize } from "@/lib/format";
+
+interface MessageAttachmentViewProps {
+  attachment: MessageAttachment;
+}
+
+export const MessageAttachmentView = ({ attachment }: MessageAttachmentViewProps) => {
+  const isImage = isImageAttachment(attachment.attachment_type);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isImage) return;
+
+    let cancelled = false;
+    attachmentUrl(attachment.attachment_path)
+      .then((url) => {
+        if (!cancelled) setPreviewUrl(url);
+      })
+      .catch((error) => console.error("Error signing attachment URL:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.attachment_path, isImage]);
+
+  const download = async () => {
+    try {
+      window.location.assign(await attachmentUrl(attachment.attachment_path, attachment.attachment_name));
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      toast.error("Erro ao baixar arquivo");
+    }
+  };
+
+  if (isImage) {
+    return previewUrl ? (
+      <a href={previewUrl} target="_blank" rel="noopener noreferrer" className="block">
+        <img
+          src={previewUrl}
+          alt={attachment.attachment_name}
+          className="max-h-64 max-w-full rounded-md object-contain"
+        />
+      </a>
+    ) : (
+      <div className="flex h-40 w-56 items-center justify-center rounded-md bg-background/20">
+        <ImageIcon className="h-8 w-8 opacity-50" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 rounded-md bg-background/20 p-2">
+      <FileText className="h-8 w-8 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{attachment.attachment_name}</p>
+        <p className="text-xs opacity-70">{formatFileSize(attachment.attachment_size)}</p>
+      </div>
+      <Button type="button" variant="ghost" size="icon" onClick={download} title="Baixar">
+        <Download className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, CalendarCheck, Heart, Megaphone, MessageCircle, type LucideIcon } from "lucide-react";
+import { useNotifications, type Notification } from "@/hooks/useNotifications";
+
+const typeIcons: Record<Notification["type"], LucideIcon> = {
+  new_message: MessageCircle,
+  favorited: Heart,
+  booking_update: CalendarCheck,
+  admin_notice: Megaphone,
+};
+
+export const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.read_at) markAsRead([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notificações">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-artist text-artist-foreground text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <p className="font-semibold">Notificações</p>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => markAsRead()}>
+              Marcar todas como lidas
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nenhuma notificação por enquanto</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = typeIcons[notification.type];
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-accent transition-colors ${
+                    notification.read_at ? "" : "bg-artist/10"
+                  }`}
+                >
+                  <Icon className="h-4 w-4 mt-1 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className={`text-sm ${notification.read_at ? "" : "font-semibold"}`}>{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: ptBR })}
+                    </p>
+                  </div>
+                  {!notification.read_at && <span className="h-2 w-2 mt-2 rounded-full bg-artist shrink-0" />}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
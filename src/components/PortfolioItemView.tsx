@@ -0,0 +1,113 @@
+import { Music, PlayCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/format";
+import { embedProviderLabels, getEmbed, isWebUrl, type PortfolioItem } from "@/lib/portfolio";
+
+interface PortfolioItemViewProps {
+  item: PortfolioItem;
+  index: number;
+  // "tile" is a square, non-interactive preview for grids and pickers
+  variant?: "player" | "tile";
+  className?: string;
+}
+
+export const PortfolioItemView = ({ item, index, variant = "player", className }: PortfolioItemViewProps) => {
+  const media = <PortfolioMedia item={item} index={index} variant={variant} className={className} />;
+  const meta = [item.event, item.date && formatDate(item.date, "MMM 'de' yyyy")].filter(Boolean).join(" · ");
+
+  if (variant === "tile" || !(item.title || item.description || meta)) return media;
+
+  return (
+    <figure className="space-y-1.5">
+      {media}
+      <figcaption className="space-y-0.5">
+        {item.title && <p className="text-sm font-medium">{item.title}</p>}
+        {meta && <p className="text-xs text-muted-foreground">{meta}</p>}
+        {item.description && (
+          <p className="text-xs text-muted-foreground whitespace-pre-line">{item.description}</p>
+        )}
+      </figcaption>
+    </figure>
+  );
+};
+
+const PortfolioMedia = ({ item, index, variant = "player", className }: PortfolioItemViewProps) => {
+  const alt = item.title || `Portfolio ${index + 1}`;
+  const embed = item.type === "embed" ? getEmbed(item.url) : null;
+
+  if (item.type === "image") {
+    const image = (
+      <img
+        src={item.thumb_url ?? item.url}
+        alt={alt}
+        loading="lazy"
+        className={cn("w-full object-cover", variant === "tile" ? "h-full" : "aspect-square rounded-lg", className)}
+      />
+    );
+
+    return variant === "tile" || !isWebUrl(item.url) ? image : (
+      <a href={item.url} target="_blank" rel="noopener noreferrer" className="block">
+        {image}
+      </a>
+    );
+  }
+
+  if (variant === "tile") {
+    if (item.type === "video") {
+      return <video src={item.url} muted preload="metadata" className={cn("w-full h-full object-cover bg-muted", className)} />;
+    }
+
+    const Icon = item.type === "audio" ? Music : PlayCircle;
+    return (
+      <div className={cn("w-full h-full flex flex-col items-center justify-center gap-1 bg-muted text-muted-foreground", className)}>
+        <Icon className="h-8 w-8" />
+        <span className="text-xs">{embed ? embedProviderLabels[embed.provider] : "Áudio"}</span>
+      </div>
+    );
+  }
+
+  if (item.type === "audio") {
+    return (
+      <div className={cn("flex items-center gap-3 rounded-lg border border-border/50 bg-muted/50 p-3", className)}>
+        <Music className="h-5 w-5 shrink-0 text-muted-foreground" />
+        <audio src={item.url} controls preload="metadata" className="w-full" />
+      </div>
+    );
+  }
+
+  if (item.type === "video") {
+    return (
+      <video src={item.url} controls preload="metadata" className={cn("w-full aspect-video rounded-lg bg-black", className)} />
+    );
+  }
+
+  if (!embed) {
+    if (!isWebUrl(item.url)) return null;
+
+    return (
+      <a
+        href={item.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={cn("block truncate rounded-lg border border-border/50 p-3 text-sm text-primary hover:underline", className)}
+      >
+        {item.url}
+      </a>
+    );
+  }
+
+  return (
+    <iframe
+      src={embed.src}
+      title={`${embedProviderLabels[embed.provider]} - ${alt}`}
+      loading="lazy"
+      allow="autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture"
+      allowFullScreen
+      className={cn(
+        "w-full rounded-lg border-0",
+        embed.provider === "youtube" ? "aspect-video" : embed.provider === "spotify" ? "h-[152px]" : "h-[166px]",
+        className
+      )}
+    />
+  );
+};
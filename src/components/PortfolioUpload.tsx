@@ -1,17 +1,66 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { Upload, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PortfolioItemView } from "@/components/PortfolioItemView";
+import { GripVertical, Link2, Pencil, Star, Upload, X } from "lucide-react";
 import { toast } from "sonner";
+import { z } from "zod";
+import {
+  getEmbed,
+  PORTFOLIO_ACCEPT,
+  PORTFOLIO_MAX_BYTES,
+  portfolioStoragePaths,
+  portfolioTypeFromMime,
+  toPortfolioJson,
+  type PortfolioItem,
+} from "@/lib/portfolio";
+import { processImage } from "@/lib/images";
+
+const detailsSchema = z.object({
+  title: z.string().trim().max(100, "Título deve ter no máximo 100 caracteres"),
+  event: z.string().trim().max(100, "Evento deve ter no máximo 100 caracteres"),
+  date: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, "Data inválida"),
+  description: z.string().trim().max(500, "Descrição deve ter no máximo 500 caracteres"),
+});
+
+type ItemDetails = z.infer<typeof detailsSchema>;
 
 interface PortfolioUploadProps {
   userId: string;
-  currentItems: string[];
-  onUploadComplete: (items: string[]) => void;
+  currentItems: PortfolioItem[];
+  onUploadComplete: (items: PortfolioItem[]) => void;
 }
 
 export const PortfolioUpload = ({ userId, currentItems, onUploadComplete }: PortfolioUploadProps) => {
   const [uploading, setUploading] = useState(false);
+  const [link, setLink] = useState("");
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [details, setDetails] = useState<ItemDetails>({ title: "", event: "", date: "", description: "" });
+
+  const saveItems = async (updatedItems: PortfolioItem[]) => {
+    const { error } = await supabase
+      .from('artist_profiles')
+      .update({
+        portfolio_items: toPortfolioJson(updatedItems)
+      })
+      .eq('profile_id', userId);
+
+    if (error) throw error;
+
+    onUploadComplete(updatedItems);
+  };
 
   const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     try {
@@ -22,84 +71,232 @@ export const PortfolioUpload = ({ userId, currentItems, onUploadComplete }: Port
       }
 
       const files = Array.from(event.target.files);
-      const uploadPromises = files.map(async (file) => {
+      for (const file of files) {
+        const type = portfolioTypeFromMime(file.type);
+        if (!type) {
+          toast.error(`Formato não suportado: ${file.name}`);
+          return;
+        }
+        if (file.size > PORTFOLIO_MAX_BYTES[type]) {
+          toast.error(`${file.name} excede ${PORTFOLIO_MAX_BYTES[type] / 1024 / 1024} MB`);
+          return;
+        }
+      }
+
+      const uploadPromises = files.map(async (file): Promise<PortfolioItem> => {
         const fileExt = file.name.split('.').pop();
         const fileName = `${Date.now()}-${Math.random()}.${fileExt}`;
         const filePath = `${userId}/${fileName}`;
 
         const { error: uploadError } = await supabase.storage
           .from('portfolio')
-          .upload(filePath, file);
+          .upload(filePath, file, { contentType: file.type });
 
         if (uploadError) throw uploadError;
 
+        const type = portfolioTypeFromMime(file.type)!;
+        if (type === 'image') {
+          try {
+            const { url, thumbUrl } = await processImage('portfolio', filePath);
+            return { url, type, thumb_url: thumbUrl ?? undefined };
+          } catch (error) {
+            // Don't leave the unprocessed original, EXIF and all, in the public bucket
+            await supabase.storage.from('portfolio').remove([filePath]);
+            throw error;
+          }
+        }
+
         const { data } = supabase.storage.from('portfolio').getPublicUrl(filePath);
-        return data.publicUrl;
+        return { url: data.publicUrl, type };
       });
 
-      const newUrls = await Promise.all(uploadPromises);
-      const updatedItems = [...currentItems, ...newUrls];
+      const results = await Promise.allSettled(uploadPromises);
+      const newItems = results.flatMap((result) => result.status === 'fulfilled' ? [result.value] : []);
+      const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
 
-      const { error: updateError } = await supabase
-        .from('artist_profiles')
-        .update({ 
-          portfolio_items: updatedItems.map(url => ({ url, type: 'image' }))
-        })
-        .eq('profile_id', userId);
+      // All or nothing, so files from the uploads that did finish aren't left orphaned
+      if (failed) {
+        const orphans = newItems.flatMap(portfolioStoragePaths);
+        if (orphans.length > 0) await supabase.storage.from('portfolio').remove(orphans);
+        throw failed.reason;
+      }
 
-      if (updateError) throw updateError;
+      await saveItems([...currentItems, ...newItems]);
 
-      onUploadComplete(updatedItems);
-      toast.success("Imagens adicionadas ao portfólio!");
+      toast.success("Arquivos adicionados ao portfólio!");
     } catch (error) {
       console.error('Error uploading portfolio:', error);
       toast.error("Erro ao fazer upload");
     } finally {
       setUploading(false);
+      event.target.value = "";
+    }
+  };
+
+  const handleAddLink = async () => {
+    if (!getEmbed(link)) {
+      toast.error("Use um link do YouTube, SoundCloud ou Spotify");
+      return;
+    }
+    if (currentItems.some(item => item.url === link.trim())) {
+      toast.error("Esse link já está no portfólio");
+      return;
+    }
+
+    try {
+      setUploading(true);
+      await saveItems([...currentItems, { url: link.trim(), type: 'embed' }]);
+      setLink("");
+      toast.success("Link adicionado ao portfólio!");
+    } catch (error) {
+      console.error('Error adding portfolio link:', error);
+      toast.error("Erro ao adicionar link");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async (itemToRemove: PortfolioItem) => {
+    try {
+      await saveItems(currentItems.filter(item => item.url !== itemToRemove.url));
+      toast.success("Item removido!");
+    } catch (error) {
+      console.error('Error removing portfolio item:', error);
+      toast.error("Erro ao remover item");
+      return;
+    }
+
+    // The item is already off the profile, so a failure here only leaves orphaned files
+    const paths = portfolioStoragePaths(itemToRemove);
+    if (paths.length > 0) {
+      const { error } = await supabase.storage.from('portfolio').remove(paths);
+      if (error) console.error('Error deleting portfolio files:', error);
+    }
+  };
+
+  const handleDrop = async (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+
+    const reordered = [...currentItems];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    setDragIndex(null);
+
+    try {
+      await saveItems(reordered);
+    } catch (error) {
+      console.error('Error reordering portfolio:', error);
+      toast.error("Erro ao reordenar portfólio");
     }
   };
 
-  const handleRemove = async (urlToRemove: string) => {
+  const handleToggleCover = async (index: number) => {
+    const makeCover = !currentItems[index].cover;
+
     try {
-      const updatedItems = currentItems.filter(url => url !== urlToRemove);
+      await saveItems(currentItems.map((item, i) => ({ ...item, cover: makeCover && i === index })));
+      toast.success(makeCover ? "Capa definida!" : "Capa removida");
+    } catch (error) {
+      console.error('Error setting portfolio cover:', error);
+      toast.error("Erro ao definir capa");
+    }
+  };
 
-      const { error } = await supabase
-        .from('artist_profiles')
-        .update({ 
-          portfolio_items: updatedItems.map(url => ({ url, type: 'image' }))
-        })
-        .eq('profile_id', userId);
+  const openEditor = (index: number) => {
+    const item = currentItems[index];
+    setDetails({
+      title: item.title ?? "",
+      event: item.event ?? "",
+      date: item.date ?? "",
+      description: item.description ?? "",
+    });
+    setEditingIndex(index);
+  };
 
-      if (error) throw error;
+  const handleSaveDetails = async () => {
+    if (editingIndex === null) return;
 
-      onUploadComplete(updatedItems);
-      toast.success("Imagem removida!");
+    try {
+      const validated = detailsSchema.parse(details);
+
+      setUploading(true);
+      await saveItems(
+        currentItems.map((item, i) => (i === editingIndex ? { ...item, ...validated } : item))
+      );
+
+      setEditingIndex(null);
+      toast.success("Detalhes salvos!");
     } catch (error) {
-      console.error('Error removing image:', error);
-      toast.error("Erro ao remover imagem");
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving portfolio details:', error);
+        toast.error("Erro ao salvar detalhes");
+      }
+    } finally {
+      setUploading(false);
     }
   };
 
   return (
     <div className="space-y-4">
+      {currentItems.length > 1 && (
+        <p className="text-xs text-muted-foreground">Arraste os itens para mudar a ordem.</p>
+      )}
       <div className="grid grid-cols-3 gap-4">
-        {currentItems.map((url, index) => (
-          <div key={index} className="relative group aspect-square">
-            <img 
-              src={url} 
-              alt={`Portfolio ${index + 1}`}
-              className="w-full h-full object-cover rounded-lg"
-            />
+        {currentItems.map((item, index) => (
+          <div
+            key={item.url}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragEnd={() => setDragIndex(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            className={`relative group aspect-square rounded-lg overflow-hidden cursor-move border-2 ${
+              item.cover ? "border-artist" : "border-transparent"
+            } ${dragIndex === index ? "opacity-50" : ""}`}
+          >
+            <PortfolioItemView item={item} index={index} variant="tile" />
+            <GripVertical className="absolute top-2 left-2 h-4 w-4 text-white drop-shadow opacity-0 group-hover:opacity-100 transition-opacity" />
             <button
-              onClick={() => handleRemove(url)}
+              type="button"
+              onClick={() => handleRemove(item)}
               className="absolute top-2 right-2 bg-destructive text-destructive-foreground rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
             >
               <X className="h-4 w-4" />
             </button>
+            <div className="absolute bottom-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {item.type === "image" && (
+                <button
+                  type="button"
+                  title={item.cover ? "Remover capa" : "Usar como capa"}
+                  onClick={() => handleToggleCover(index)}
+                  className="bg-background/90 rounded-full p-1"
+                >
+                  <Star className={`h-4 w-4 ${item.cover ? "fill-artist text-artist" : ""}`} />
+                </button>
+              )}
+              <button
+                type="button"
+                title="Editar detalhes"
+                onClick={() => openEditor(index)}
+                className="bg-background/90 rounded-full p-1"
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+            </div>
+            {item.title && (
+              <p className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs px-2 py-1 truncate group-hover:opacity-0 transition-opacity">
+                {item.title}
+              </p>
+            )}
           </div>
         ))}
       </div>
-      
+
       <label htmlFor="portfolio-upload">
         <Button
           type="button"
@@ -109,18 +306,102 @@ export const PortfolioUpload = ({ userId, currentItems, onUploadComplete }: Port
           onClick={() => document.getElementById('portfolio-upload')?.click()}
         >
           <Upload className="mr-2 h-4 w-4" />
-          {uploading ? "Enviando..." : "Adicionar Imagens"}
+          {uploading ? "Enviando..." : "Adicionar imagens, áudios ou vídeos"}
         </Button>
         <input
           id="portfolio-upload"
           type="file"
-          accept="image/*"
+          accept={PORTFOLIO_ACCEPT}
           multiple
           onChange={handleUpload}
           className="hidden"
           disabled={uploading}
         />
       </label>
+      <p className="text-xs text-muted-foreground">
+        Imagens até 10 MB, áudios (MP3, OGG, WAV) até 20 MB e vídeos curtos (MP4, WebM) até 50 MB.
+      </p>
+
+      {/* Rendered inside the profile form, so no nested <form> here */}
+      <div className="flex gap-2">
+        <Input
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAddLink();
+            }
+          }}
+          placeholder="Link do YouTube, SoundCloud ou Spotify"
+          inputMode="url"
+        />
+        <Button type="button" variant="outline" onClick={handleAddLink} disabled={uploading || !link.trim()}>
+          <Link2 className="mr-2 h-4 w-4" />
+          Adicionar
+        </Button>
+      </div>
+
+      <Dialog open={editingIndex !== null} onOpenChange={(open) => !open && setEditingIndex(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Detalhes do item</DialogTitle>
+            <DialogDescription>
+              Essas informações aparecem junto ao item no seu perfil público.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-title">Título</Label>
+              <Input
+                id="portfolio-title"
+                value={details.title}
+                onChange={(e) => setDetails({ ...details, title: e.target.value })}
+                maxLength={100}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="portfolio-event">Evento</Label>
+                <Input
+                  id="portfolio-event"
+                  value={details.event}
+                  onChange={(e) => setDetails({ ...details, event: e.target.value })}
+                  placeholder="Ex: Festival de Inverno"
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="portfolio-date">Data</Label>
+                <Input
+                  id="portfolio-date"
+                  type="date"
+                  value={details.date}
+                  onChange={(e) => setDetails({ ...details, date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portfolio-description">Descrição</Label>
+              <Textarea
+                id="portfolio-description"
+                value={details.description}
+                onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                rows={3}
+                maxLength={500}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setEditingIndex(null)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSaveDetails} disabled={uploading}>
+              {uploading ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
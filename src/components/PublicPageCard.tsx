@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Copy, ExternalLink } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { PUBLIC_SLUG_PATTERN, publicProfileUrl, slugify } from "@/lib/share";
+
+const slugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(PUBLIC_SLUG_PATTERN, "Use de 3 a 40 letras minúsculas, números ou hífens, sem hífen no começo ou no fim");
+
+interface PublicPageCardProps {
+  artistId: string;
+  fullName: string;
+}
+
+export const PublicPageCard = ({ artistId, fullName }: PublicPageCardProps) => {
+  const [savedSlug, setSavedSlug] = useState<string | null>(null);
+  const [slug, setSlug] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("artist_profiles")
+          .select("public_slug, is_public")
+          .eq("profile_id", artistId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        setSavedSlug(data?.public_slug ?? null);
+        setSlug(data?.public_slug ?? "");
+        setIsPublic(data?.is_public ?? false);
+      } catch (error) {
+        console.error("Error fetching public page settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, [artistId]);
+
+  const suggestedSlug = slugify(fullName).slice(0, 40);
+
+  const save = async (nextPublic: boolean) => {
+    try {
+      const validatedSlug = slugSchema.parse(slug || suggestedSlug);
+
+      setWorking(true);
+
+      const { error } = await supabase
+        .from("artist_profiles")
+        .update({ public_slug: validatedSlug, is_public: nextPublic })
+        .eq("profile_id", artistId);
+
+      if (error) {
+        if (error.code === "23505") {
+          toast.error("Esse endereço já está em uso. Escolha outro.");
+          return;
+        }
+        throw error;
+      }
+
+      setSlug(validatedSlug);
+      setSavedSlug(validatedSlug);
+      setIsPublic(nextPublic);
+      toast.success(nextPublic ? "Página pública ativada!" : "Página pública desativada");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error saving public page settings:", error);
+        toast.error("Erro ao salvar página pública");
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const pageUrl = savedSlug ? publicProfileUrl(savedSlug) : "";
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(pageUrl);
+    toast.success("Link copiado!");
+  };
+
+  return (
+    <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+      <CardHeader>
+        <CardTitle className="text-lg">Página pública</CardTitle>
+        <CardDescription>
+          Um link para divulgar no Instagram ou onde quiser. Quem abrir vê sua bio, portfólio e valores sem precisar
+          de conta; email e telefone ficam de fora.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="public-page"
+            checked={isPublic}
+            onCheckedChange={save}
+            disabled={working}
+          />
+          <Label htmlFor="public-page" className="cursor-pointer">
+            {isPublic ? "Página visível para qualquer pessoa" : "Página desativada"}
+          </Label>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            save(isPublic);
+          }}
+          className="space-y-2"
+        >
+          <Label htmlFor="public-slug">Endereço</Label>
+          <div className="flex gap-2">
+            <div className="flex flex-1 items-center rounded-md border border-input bg-background/50 pl-3 text-sm">
+              <span className="text-muted-foreground whitespace-nowrap">{window.location.host}/a/</span>
+              <Input
+                id="public-slug"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value.toLowerCase())}
+                placeholder={suggestedSlug}
+                maxLength={40}
+                className="border-0 bg-transparent pl-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={working || slug === savedSlug}>
+              Salvar
+            </Button>
+          </div>
+        </form>
+
+        {isPublic && savedSlug && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={copyUrl}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar link
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={pageUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Ver como visitante
+              </a>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
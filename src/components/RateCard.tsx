@@ -0,0 +1,441 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Tables } from "@/integrations/supabase/types";
+import { Clock, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { currencies } from "@/lib/constants";
+import { formatCurrency, formatDuration, formatTravelRule } from "@/lib/format";
+
+type RateCardRow = Tables<"artist_rate_cards">;
+type ArtistPackage = Tables<"artist_packages">;
+
+const optionalAmount = z.number().min(0, "Valores não podem ser negativos").max(10000000).nullable();
+
+const rateCardSchema = z.object({
+  currency: z.string().length(3),
+  base_fee: optionalAmount,
+  hourly_rate: optionalAmount,
+  free_travel_km: z.number().int("Distância deve ser um número inteiro").min(0).max(5000).nullable(),
+  travel_fee_per_km: optionalAmount,
+  travel_notes: z.string().trim().max(500).optional(),
+});
+
+const packageSchema = z.object({
+  name: z.string().trim().min(1, "Dê um nome para o pacote").max(100),
+  description: z.string().trim().max(1000).optional(),
+  price: z.number({ invalid_type_error: "Informe o preço do pacote" }).min(0).max(10000000),
+  duration_minutes: z.number().int().positive("Duração deve ser positiva").nullable(),
+});
+
+const toNumber = (value: string) => (value === "" ? null : Number(value));
+
+interface RateCardProps {
+  artistId: string;
+  editable?: boolean;
+}
+
+export const RateCard = ({ artistId, editable = false }: RateCardProps) => {
+  const [rateCard, setRateCard] = useState<RateCardRow | null>(null);
+  const [packages, setPackages] = useState<ArtistPackage[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Rate card form
+  const [currency, setCurrency] = useState("BRL");
+  const [baseFee, setBaseFee] = useState("");
+  const [hourlyRate, setHourlyRate] = useState("");
+  const [freeTravelKm, setFreeTravelKm] = useState("");
+  const [travelFeePerKm, setTravelFeePerKm] = useState("");
+  const [travelNotes, setTravelNotes] = useState("");
+
+  // Package form; editingPackageId is null when adding a new one
+  const [editingPackageId, setEditingPackageId] = useState<string | null>(null);
+  const [packageName, setPackageName] = useState("");
+  const [packageDescription, setPackageDescription] = useState("");
+  const [packagePrice, setPackagePrice] = useState("");
+  const [packageDuration, setPackageDuration] = useState("");
+
+  useEffect(() => {
+    fetchRateCard();
+  }, [artistId]);
+
+  const fetchRateCard = async () => {
+    try {
+      const [{ data: card, error: cardError }, { data: packagesData, error: packagesError }] = await Promise.all([
+        supabase
+          .from("artist_rate_cards")
+          .select("*")
+          .eq("artist_id", artistId)
+          .maybeSingle(),
+        supabase
+          .from("artist_packages")
+          .select("*")
+          .eq("artist_id", artistId)
+          .order("position")
+          .order("created_at"),
+      ]);
+
+      if (cardError) throw cardError;
+      if (packagesError) throw packagesError;
+
+      setRateCard(card);
+      setPackages(packagesData || []);
+
+      if (card) {
+        setCurrency(card.currency);
+        setBaseFee(card.base_fee?.toString() ?? "");
+        setHourlyRate(card.hourly_rate?.toString() ?? "");
+        setFreeTravelKm(card.free_travel_km?.toString() ?? "");
+        setTravelFeePerKm(card.travel_fee_per_km?.toString() ?? "");
+        setTravelNotes(card.travel_notes ?? "");
+      }
+    } catch (error) {
+      console.error("Error fetching rate card:", error);
+    }
+  };
+
+  const handleSaveRateCard = async () => {
+    try {
+      const validatedData = rateCardSchema.parse({
+        currency,
+        base_fee: toNumber(baseFee),
+        hourly_rate: toNumber(hourlyRate),
+        free_travel_km: toNumber(freeTravelKm),
+        travel_fee_per_km: toNumber(travelFeePerKm),
+        travel_notes: travelNotes,
+      });
+
+      setSaving(true);
+
+      const { data, error } = await supabase
+        .from("artist_rate_cards")
+        .upsert({
+          artist_id: artistId,
+          currency: validatedData.currency,
+          base_fee: validatedData.base_fee,
+          hourly_rate: validatedData.hourly_rate,
+          free_travel_km: validatedData.free_travel_km,
+          travel_fee_per_km: validatedData.travel_fee_per_km,
+          travel_notes: validatedData.travel_notes || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setRateCard(data);
+      toast.success("Valores atualizados!");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error saving rate card:", error);
+        toast.error("Erro ao salvar valores");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetPackageForm = () => {
+    setEditingPackageId(null);
+    setPackageName("");
+    setPackageDescription("");
+    setPackagePrice("");
+    setPackageDuration("");
+  };
+
+  const startEditingPackage = (pkg: ArtistPackage) => {
+    setEditingPackageId(pkg.id);
+    setPackageName(pkg.name);
+    setPackageDescription(pkg.description ?? "");
+    setPackagePrice(pkg.price.toString());
+    setPackageDuration(pkg.duration_minutes?.toString() ?? "");
+  };
+
+  const handleSavePackage = async () => {
+    try {
+      const validatedData = packageSchema.parse({
+        name: packageName,
+        description: packageDescription,
+        price: packagePrice === "" ? undefined : Number(packagePrice),
+        duration_minutes: toNumber(packageDuration),
+      });
+
+      setSaving(true);
+
+      const values = {
+        name: validatedData.name,
+        description: validatedData.description || null,
+        price: validatedData.price,
+        duration_minutes: validatedData.duration_minutes,
+      };
+
+      if (editingPackageId) {
+        const { data, error } = await supabase
+          .from("artist_packages")
+          .update(values)
+          .eq("id", editingPackageId)
+          .select()
+          .single();
+
+        if (error) throw error;
+        setPackages(prev => prev.map(pkg => pkg.id === data.id ? data : pkg));
+      } else {
+        const { data, error } = await supabase
+          .from("artist_packages")
+          .insert({ ...values, artist_id: artistId, position: packages.length })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setPackages(prev => [...prev, data]);
+      }
+
+      resetPackageForm();
+      toast.success("Pacote salvo!");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error saving package:", error);
+        toast.error("Erro ao salvar pacote");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePackage = async (packageId: string) => {
+    try {
+      const { error } = await supabase
+        .from("artist_packages")
+        .delete()
+        .eq("id", packageId);
+
+      if (error) throw error;
+
+      setPackages(prev => prev.filter(pkg => pkg.id !== packageId));
+      if (editingPackageId === packageId) resetPackageForm();
+    } catch (error) {
+      console.error("Error deleting package:", error);
+      toast.error("Erro ao remover pacote");
+    }
+  };
+
+  const displayCurrency = rateCard?.currency ?? "BRL";
+
+  const travelRule = () => (rateCard ? formatTravelRule(rateCard) : null);
+
+  const packageList = (
+    <div className="space-y-2">
+      {packages.map((pkg) => (
+        <div key={pkg.id} className="flex items-start justify-between gap-2 p-3 rounded-lg bg-muted/20 border border-border/30">
+          <div className="min-w-0">
+            <p className="font-medium">{pkg.name}</p>
+            {pkg.description && <p className="text-sm text-muted-foreground">{pkg.description}</p>}
+            {pkg.duration_minutes != null && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                <Clock className="h-3 w-3" />
+                {formatDuration(pkg.duration_minutes)}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <span className="font-semibold">{formatCurrency(pkg.price, displayCurrency)}</span>
+            {editable && (
+              <>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditingPackage(pkg)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDeletePackage(pkg.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (!editable) {
+    if (!rateCard && packages.length === 0) {
+      return <p className="text-sm text-muted-foreground">Valores sob consulta</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+          {rateCard?.base_fee != null && (
+            <p>Cachê a partir de <span className="font-semibold">{formatCurrency(rateCard.base_fee, displayCurrency)}</span></p>
+          )}
+          {rateCard?.hourly_rate != null && (
+            <p><span className="font-semibold">{formatCurrency(rateCard.hourly_rate, displayCurrency)}</span> por hora</p>
+          )}
+        </div>
+        {travelRule() && <p className="text-sm text-muted-foreground">{travelRule()}</p>}
+        {rateCard?.travel_notes && <p className="text-sm text-muted-foreground">{rateCard.travel_notes}</p>}
+        {packageList}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Moeda</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="bg-background/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {currencies.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="baseFee">Cachê base</Label>
+            <Input
+              id="baseFee"
+              type="number"
+              min={0}
+              step="0.01"
+              value={baseFee}
+              onChange={(e) => setBaseFee(e.target.value)}
+              placeholder="Ex: 1500"
+              className="bg-background/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hourlyRate">Valor por hora</Label>
+            <Input
+              id="hourlyRate"
+              type="number"
+              min={0}
+              step="0.01"
+              value={hourlyRate}
+              onChange={(e) => setHourlyRate(e.target.value)}
+              placeholder="Ex: 400"
+              className="bg-background/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="freeTravelKm">Deslocamento incluso até (km)</Label>
+            <Input
+              id="freeTravelKm"
+              type="number"
+              min={0}
+              value={freeTravelKm}
+              onChange={(e) => setFreeTravelKm(e.target.value)}
+              placeholder="Ex: 30"
+              className="bg-background/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="travelFeePerKm">Taxa de deslocamento por km</Label>
+            <Input
+              id="travelFeePerKm"
+              type="number"
+              min={0}
+              step="0.01"
+              value={travelFeePerKm}
+              onChange={(e) => setTravelFeePerKm(e.target.value)}
+              placeholder="Ex: 2.50"
+              className="bg-background/50"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="travelNotes">Observações sobre deslocamento (opcional)</Label>
+          <Textarea
+            id="travelNotes"
+            value={travelNotes}
+            onChange={(e) => setTravelNotes(e.target.value)}
+            placeholder="Ex: hospedagem por conta do contratante acima de 300 km"
+            className="bg-background/50"
+            maxLength={500}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          O menor valor entre o cachê base e os pacotes é comparado ao orçamento dos contratantes (apenas em reais).
+        </p>
+        <Button onClick={handleSaveRateCard} disabled={saving}>
+          {saving ? "Salvando..." : "Salvar valores"}
+        </Button>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-4">
+        <Label>Pacotes</Label>
+        {packages.length > 0 ? packageList : (
+          <p className="text-sm text-muted-foreground">Nenhum pacote cadastrado</p>
+        )}
+
+        <div className="space-y-2 p-3 rounded-lg border border-border/50">
+          <Input
+            value={packageName}
+            onChange={(e) => setPackageName(e.target.value)}
+            placeholder='Nome do pacote, ex: "Show 1h acústico"'
+            className="bg-background/50"
+            maxLength={100}
+          />
+          <Textarea
+            value={packageDescription}
+            onChange={(e) => setPackageDescription(e.target.value)}
+            placeholder="O que está incluso (opcional)"
+            className="bg-background/50 min-h-[60px]"
+            maxLength={1000}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={packagePrice}
+              onChange={(e) => setPackagePrice(e.target.value)}
+              placeholder="Preço"
+              className="bg-background/50"
+            />
+            <Input
+              type="number"
+              min={1}
+              value={packageDuration}
+              onChange={(e) => setPackageDuration(e.target.value)}
+              placeholder="Duração (min)"
+              className="bg-background/50"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleSavePackage} disabled={saving}>
+              {editingPackageId ? (
+                "Salvar pacote"
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar pacote
+                </>
+              )}
+            </Button>
+            {editingPackageId && (
+              <Button variant="ghost" onClick={resetPackageForm}>
+                Cancelar
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { StarRating } from "@/components/StarRating";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const reviewSchema = z.object({
+  rating: z.number().int().min(1, "Escolha de 1 a 5 estrelas").max(5),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bookingId: string;
+  reviewerId: string;
+  revieweeId: string;
+  revieweeName: string;
+  onSaved: () => void;
+}
+
+export const ReviewDialog = ({
+  open,
+  onOpenChange,
+  bookingId,
+  reviewerId,
+  revieweeId,
+  revieweeName,
+  onSaved,
+}: ReviewDialogProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validatedData = reviewSchema.parse({ rating, comment });
+
+      setSaving(true);
+
+      const { error } = await supabase
+        .from("reviews")
+        .insert({
+          booking_id: bookingId,
+          reviewer_id: reviewerId,
+          reviewee_id: revieweeId,
+          rating: validatedData.rating,
+          comment: validatedData.comment || null,
+        });
+
+      if (error) throw error;
+
+      toast.success("Avaliação enviada!");
+      setRating(0);
+      setComment("");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error saving review:", error);
+        toast.error("Erro ao enviar avaliação");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Avaliar {revieweeName}</DialogTitle>
+          <DialogDescription>
+            Sua avaliação aparece no perfil público e ajuda outras pessoas a contratar com confiança
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Nota</Label>
+            <StarRating value={rating} onChange={setRating} size="md" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comentário (opcional)</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Como foi trabalhar juntos?"
+              maxLength={1000}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Enviando..." : "Enviar Avaliação"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Bookmark, Check, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { branchLabels } from "@/lib/constants";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+type SavedSearchAlert = Database["public"]["Enums"]["saved_search_alert"];
+
+type SavedSearch = Tables<"saved_searches"> & {
+  matches: {
+    id: string;
+    profile: { id: string; full_name: string; avatar_url: string | null } | null;
+  }[];
+};
+
+const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Dê um nome para a busca").max(80, "Nome deve ter no máximo 80 caracteres"),
+});
+
+const alertLabels: Record<SavedSearchAlert, string> = {
+  instant: "Avisar na hora",
+  daily: "Resumo diário",
+  off: "Sem alertas",
+};
+
+interface SavedSearchesPanelProps {
+  userId: string;
+  currentFilters: Record<string, string>;
+  onApply: (filters: Record<string, string>) => void;
+  onOpenProfile: (profileId: string) => void;
+}
+
+const describeFilters = (filters: Record<string, string>) => {
+  const parts: string[] = [];
+  if (filters.q) parts.push(`"${filters.q}"`);
+  if (filters.cityName) parts.push(`até ${filters.radius || 50} km de ${filters.cityName}`);
+  if (filters.branch && filters.branch !== "all") parts.push(branchLabels[filters.branch] || filters.branch);
+  if (filters.rating && filters.rating !== "any") parts.push(`${filters.rating.replace(".", ",")}+ estrelas`);
+  if (filters.budget === "1") parts.push("no meu orçamento");
+  return parts.length > 0 ? parts.join(" · ") : "Todos os perfis";
+};
+
+export const SavedSearchesPanel = ({ userId, currentFilters, onApply, onOpenProfile }: SavedSearchesPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [name, setName] = useState("");
+  const [alert, setAlert] = useState<SavedSearchAlert>("instant");
+  const [saving, setSaving] = useState(false);
+
+  const fetchSearches = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*, matches:saved_search_matches(id, profile:profiles(id, full_name, avatar_url))")
+        .eq("user_id", userId)
+        .is("matches.seen_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setSearches(data || []);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSearches();
+  }, [userId]);
+
+  const unseenCount = searches.reduce((total, search) => total + search.matches.length, 0);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const validatedData = savedSearchSchema.parse({ name });
+
+      setSaving(true);
+
+      const { error } = await supabase
+        .from("saved_searches")
+        .insert({
+          user_id: userId,
+          name: validatedData.name,
+          filters: currentFilters,
+          alert,
+        });
+
+      if (error) throw error;
+
+      toast.success("Busca salva!");
+      setName("");
+      fetchSearches();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error saving search:", error);
+        toast.error("Erro ao salvar busca");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateAlert = async (searchId: string, value: SavedSearchAlert) => {
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update({ alert: value })
+        .eq("id", searchId);
+
+      if (error) throw error;
+      setSearches(prev => prev.map(search => search.id === searchId ? { ...search, alert: value } : search));
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      toast.error("Erro ao atualizar alertas");
+    }
+  };
+
+  const deleteSearch = async (searchId: string) => {
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", searchId);
+
+      if (error) throw error;
+      setSearches(prev => prev.filter(search => search.id !== searchId));
+      toast.success("Busca removida");
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      toast.error("Erro ao remover busca");
+    }
+  };
+
+  const markSeen = async (matchIds: string[]) => {
+    try {
+      const { error } = await supabase
+        .from("saved_search_matches")
+        .update({ seen_at: new Date().toISOString() })
+        .in("id", matchIds);
+
+      if (error) throw error;
+      setSearches(prev => prev.map(search => ({
+        ...search,
+        matches: search.matches.filter(match => !matchIds.includes(match.id)),
+      })));
+    } catch (error) {
+      console.error("Error marking matches as seen:", error);
+    }
+  };
+
+  const openMatch = async (matchId: string, profileId: string) => {
+    await markSeen([matchId]);
+    setOpen(false);
+    onOpenProfile(profileId);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Bookmark className="h-4 w-4" />
+          Buscas salvas
+          {unseenCount > 0 && (
+            <Badge className="bg-artist hover:bg-artist px-1.5">{unseenCount}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Buscas salvas</SheetTitle>
+          <SheetDescription>
+            Salve os filtros atuais e receba um aviso quando surgirem novos perfis.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSave} className="space-y-2 mt-6">
+          <p className="text-xs text-muted-foreground">{describeFilters(currentFilters)}</p>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome da busca"
+            maxLength={80}
+          />
+          <div className="flex gap-2">
+            <Select value={alert} onValueChange={(value) => setAlert(value as SavedSearchAlert)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {Object.entries(alertLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Salvando..." : "Salvar busca"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-4 mt-8">
+          {searches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Nenhuma busca salva ainda
+            </p>
+          ) : (
+            searches.map((search) => {
+              const filters = search.filters as Record<string, string>;
+              return (
+                <div key={search.id} className="rounded-lg border border-border/50 p-3 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{search.name}</p>
+                      <p className="text-xs text-muted-foreground">{describeFilters(filters)}</p>
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Aplicar busca"
+                        onClick={() => {
+                          onApply(filters);
+                          setOpen(false);
+                        }}
+                      >
+                        <Search className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remover busca"
+                        onClick={() => deleteSearch(search.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Select
+                    value={search.alert}
+                    onValueChange={(value) => updateAlert(search.id, value as SavedSearchAlert)}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover z-50">
+                      {Object.entries(alertLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {search.matches.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs font-semibold">
+                          {search.matches.length} {search.matches.length === 1 ? "perfil novo" : "perfis novos"}
+                        </p>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => markSeen(search.matches.map(match => match.id))}
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          Marcar como vistos
+                        </Button>
+                      </div>
+                      {search.matches.map(({ id, profile }) => profile && (
+                        <button
+                          key={id}
+                          type="button"
+                          className="flex w-full items-center gap-2 rounded-md p-1.5 text-left hover:bg-muted/50"
+                          onClick={() => openMatch(id, profile.id)}
+                        >
+                          <Avatar className="h-7 w-7">
+                            <AvatarImage src={profile.avatar_url || undefined} />
+                            <AvatarFallback className="text-xs">
+                              {profile.full_name.substring(0, 2).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          <span className="text-sm truncate">{profile.full_name}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
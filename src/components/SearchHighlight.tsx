@@ -0,0 +1,33 @@
+// search_profiles wraps matched terms in these control characters instead of HTML tags
+const START_SEL = "\u0002";
+const STOP_SEL = "\u0003";
+
+interface SearchHighlightProps {
+  text: string | null;
+  fallback?: string | null;
+}
+
+export const SearchHighlight = ({ text, fallback }: SearchHighlightProps) => {
+  // Headlines without a highlighted term add nothing over the plain text
+  if (!text || !text.includes(START_SEL)) {
+    return <>{fallback}</>;
+  }
+
+  const parts = text.split(START_SEL);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return part;
+
+        const [match, rest] = part.split(STOP_SEL);
+        return (
+          <span key={index}>
+            <mark className="bg-artist/30 text-foreground rounded-sm px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+};
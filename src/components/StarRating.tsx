@@ -0,0 +1,40 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "md";
+}
+
+export const StarRating = ({ value, onChange, size = "sm" }: StarRatingProps) => {
+  const iconClass = size === "sm" ? "w-4 h-4" : "w-6 h-6";
+
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              iconClass,
+              star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40"
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            aria-label={`${star} de 5`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
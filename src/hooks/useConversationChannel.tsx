@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface ConversationChannelHandlers {
+  onInsert: (message: Tables<"messages">) => void;
+  onUpdate: (message: Tables<"messages">) => void;
+}
+
+interface PresenceState {
+  typing: boolean;
+}
+
+// Clears "typing…" when someone stops mid-sentence without sending
+const TYPING_IDLE_MS = 4000;
+
+/**
+ * Live layer for one open thread: message inserts and read-receipt updates for
+ * both participants, plus presence for "online" and "typing…". Handlers may
+ * change on every render; the channel is only rebuilt when the conversation does.
+ */
+export const useConversationChannel = (
+  conversationId: string | null,
+  userId: string | undefined,
+  handlers: ConversationChannelHandlers
+) => {
+  const handlersRef = useRef(handlers);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingRef = useRef(false);
+  const typingTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [otherOnline, setOtherOnline] = useState(false);
+  const [otherTyping, setOtherTyping] = useState(false);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!conversationId || !userId) return;
+
+    const channel = supabase.channel(`conversation:${conversationId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages", filter: `conversation_id=eq.${conversationId}` },
+        (payload) => handlersRef.current.onInsert(payload.new as Tables<"messages">)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "messages", filter: `conversation_id=eq.${conversationId}` },
+        (payload) => handlersRef.current.onUpdate(payload.new as Tables<"messages">)
+      )
+      .on("presence", { event: "sync" }, () => {
+        const others = Object.entries(channel.presenceState<PresenceState>())
+          .filter(([key]) => key !== userId)
+          .flatMap(([, metas]) => metas);
+        setOtherOnline(others.length > 0);
+        setOtherTyping(others.some((meta) => meta.typing));
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") channel.track({ typing: false });
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimer.current);
+      typingRef.current = false;
+      channelRef.current = null;
+      setOtherOnline(false);
+      setOtherTyping(false);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, userId]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    typingRef.current = typing;
+    channelRef.current?.track({ typing });
+  }, []);
+
+  // Call on every keystroke; presence is only re-tracked when the state flips
+  const notifyTyping = useCallback(() => {
+    if (!typingRef.current) setTyping(true);
+    clearTimeout(typingTimer.current);
+    typingTimer.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+  }, [setTyping]);
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(typingTimer.current);
+    if (typingRef.current) setTyping(false);
+  }, [setTyping]);
+
+  return { otherOnline, otherTyping, notifyTyping, stopTyping };
+};
@@ -0,0 +1,61 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type FeedProfile = Database["public"]["Functions"]["search_profiles"]["Returns"][number];
+
+export interface FeedFilters {
+  search: string;
+  nearCityId?: number;
+  radiusKm?: number;
+  branch?: Database["public"]["Enums"]["artistic_branch"];
+  favoritesOnly: boolean;
+  availableOn?: string;
+  minRating?: number;
+  withinBudget?: boolean;
+  sort: string;
+}
+
+interface FeedCursor {
+  sortKey: number;
+  createdAt: string;
+  id: string;
+}
+
+export const FEED_PAGE_SIZE = 20;
+
+export const useFeedProfiles = (userId: string | undefined, filters: FeedFilters) => {
+  return useInfiniteQuery({
+    queryKey: ["feed-profiles", userId, filters],
+    enabled: !!userId,
+    // Keep loaded pages around so returning from a profile doesn't refetch them
+    staleTime: 5 * 60 * 1000,
+    initialPageParam: null as FeedCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc("search_profiles", {
+        _search: filters.search.trim() || undefined,
+        _near_city_id: filters.nearCityId,
+        _radius_km: filters.radiusKm,
+        _branch: filters.branch,
+        _favorites_only: filters.favoritesOnly,
+        _available_on: filters.availableOn,
+        _min_rating: filters.minRating,
+        _within_budget: filters.withinBudget,
+        _sort: filters.sort,
+        _limit: FEED_PAGE_SIZE,
+        _cursor_sort_key: pageParam?.sortKey,
+        _cursor_created_at: pageParam?.createdAt,
+        _cursor_id: pageParam?.id,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    getNextPageParam: (lastPage): FeedCursor | null => {
+      if (lastPage.length < FEED_PAGE_SIZE) return null;
+
+      const last = lastPage[lastPage.length - 1];
+      return { sortKey: last.sort_key, createdAt: last.created_at, id: last.id };
+    },
+  });
+};
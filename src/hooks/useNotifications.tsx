@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+
+export type Notification = Tables<"notifications">;
+
+const NOTIFICATIONS_LIMIT = 20;
+
+/** The current user's latest notifications and unread count, kept live over realtime. */
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [listResult, countResult] = await Promise.all([
+        supabase
+          .from("notifications")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .limit(NOTIFICATIONS_LIMIT),
+        supabase
+          .from("notifications")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", user.id)
+          .is("read_at", null),
+      ]);
+
+      if (listResult.error) throw listResult.error;
+      if (countResult.error) throw countResult.error;
+
+      setNotifications(listResult.data || []);
+      setUnreadCount(countResult.count ?? 0);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchNotifications]);
+
+  // Pass no ids to mark everything as read
+  const markAsRead = async (ids?: string[]) => {
+    const { error } = await supabase.rpc("mark_notifications_read", { _ids: ids });
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+      return;
+    }
+
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((item) => (!item.read_at && (!ids || ids.includes(item.id)) ? { ...item, read_at: readAt } : item))
+    );
+    setUnreadCount((prev) => (ids ? Math.max(0, prev - ids.length) : 0));
+  };
+
+  return { notifications, unreadCount, markAsRead };
+};
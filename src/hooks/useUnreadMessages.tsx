@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+
+/** Unread messages across all of the current user's conversations, kept live over realtime. */
+export const useUnreadMessages = () => {
+  const { user } = useAuth();
+  const [unreadMessages, setUnreadMessages] = useState(0);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadMessages(0);
+      return;
+    }
+
+    const fetchUnread = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("conversation_participants")
+          .select("unread_count")
+          .eq("user_id", user.id)
+          .gt("unread_count", 0);
+
+        if (error) throw error;
+        setUnreadMessages((data || []).reduce((sum, row) => sum + row.unread_count, 0));
+      } catch (error) {
+        console.error("Error fetching unread messages:", error);
+      }
+    };
+
+    fetchUnread();
+
+    const channel = supabase
+      .channel(`unread-messages:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "conversation_participants", filter: `user_id=eq.${user.id}` },
+        () => fetchUnread()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return unreadMessages;
+};
@@ -14,83 +14,700 @@ export type Database = {
   }
   public: {
     Tables: {
+      artist_availability: {
+        Row: {
+          artist_id: string
+          created_at: string
+          end_date: string
+          id: string
+          note: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["availability_status"]
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          end_date: string
+          id?: string
+          note?: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["availability_status"]
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          note?: string | null
+          start_date?: string
+          status?: Database["public"]["Enums"]["availability_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_availability_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      artist_packages: {
+        Row: {
+          artist_id: string
+          created_at: string
+          description: string | null
+          duration_minutes: number | null
+          id: string
+          name: string
+          position: number
+          price: number
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          name: string
+          position?: number
+          price: number
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          id?: string
+          name?: string
+          position?: number
+          price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_packages_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       artist_profiles: {
         Row: {
           artistic_branches: Database["public"]["Enums"]["artistic_branch"][]
           availability: string | null
+          city_id: number | null
           created_at: string
           experience_years: number | null
           id: string
+          is_public: boolean
           location: string | null
           portfolio_items: Json | null
           profile_id: string
+          public_slug: string | null
           skills: string[] | null
+          travel_radius_km: number | null
           updated_at: string
         }
         Insert: {
           artistic_branches?: Database["public"]["Enums"]["artistic_branch"][]
           availability?: string | null
+          city_id?: number | null
           created_at?: string
           experience_years?: number | null
           id?: string
+          is_public?: boolean
           location?: string | null
           portfolio_items?: Json | null
           profile_id: string
+          public_slug?: string | null
+          skills?: string[] | null
+          travel_radius_km?: number | null
+          updated_at?: string
+        }
+        Update: {
+          artistic_branches?: Database["public"]["Enums"]["artistic_branch"][]
+          availability?: string | null
+          city_id?: number | null
+          created_at?: string
+          experience_years?: number | null
+          id?: string
+          is_public?: boolean
+          location?: string | null
+          portfolio_items?: Json | null
+          profile_id?: string
+          public_slug?: string | null
           skills?: string[] | null
+          travel_radius_km?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_profiles_city_id_fkey"
+            columns: ["city_id"]
+            isOneToOne: false
+            referencedRelation: "br_cities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "artist_profiles_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      artist_rate_cards: {
+        Row: {
+          artist_id: string
+          base_fee: number | null
+          created_at: string
+          currency: string
+          free_travel_km: number | null
+          hourly_rate: number | null
+          travel_fee_per_km: number | null
+          travel_notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          base_fee?: number | null
+          created_at?: string
+          currency?: string
+          free_travel_km?: number | null
+          hourly_rate?: number | null
+          travel_fee_per_km?: number | null
+          travel_notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          base_fee?: number | null
+          created_at?: string
+          currency?: string
+          free_travel_km?: number | null
+          hourly_rate?: number | null
+          travel_fee_per_km?: number | null
+          travel_notes?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_rate_cards_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_proposals: {
+        Row: {
+          counter_of: string | null
+          created_at: string
+          end_time: string
+          event_date: string
+          fee: number
+          id: string
+          location: string | null
+          notes: string | null
+          receiver_id: string
+          responded_at: string | null
+          sender_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["proposal_status"]
+        }
+        Insert: {
+          counter_of?: string | null
+          created_at?: string
+          end_time: string
+          event_date: string
+          fee: number
+          id?: string
+          location?: string | null
+          notes?: string | null
+          receiver_id: string
+          responded_at?: string | null
+          sender_id: string
+          start_time: string
+          status?: Database["public"]["Enums"]["proposal_status"]
+        }
+        Update: {
+          counter_of?: string | null
+          created_at?: string
+          end_time?: string
+          event_date?: string
+          fee?: number
+          id?: string
+          location?: string | null
+          notes?: string | null
+          receiver_id?: string
+          responded_at?: string | null
+          sender_id?: string
+          start_time?: string
+          status?: Database["public"]["Enums"]["proposal_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_proposals_counter_of_fkey"
+            columns: ["counter_of"]
+            isOneToOne: false
+            referencedRelation: "booking_proposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_proposals_receiver_id_fkey"
+            columns: ["receiver_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_proposals_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bookings: {
+        Row: {
+          artist_id: string
+          created_at: string
+          end_time: string
+          event_date: string
+          fee: number
+          id: string
+          location: string | null
+          notes: string | null
+          organizer_id: string
+          proposal_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["booking_status"]
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          end_time: string
+          event_date: string
+          fee: number
+          id?: string
+          location?: string | null
+          notes?: string | null
+          organizer_id: string
+          proposal_id: string
+          start_time: string
+          status?: Database["public"]["Enums"]["booking_status"]
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          end_time?: string
+          event_date?: string
+          fee?: number
+          id?: string
+          location?: string | null
+          notes?: string | null
+          organizer_id?: string
+          proposal_id?: string
+          start_time?: string
+          status?: Database["public"]["Enums"]["booking_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_organizer_id_fkey"
+            columns: ["organizer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: true
+            referencedRelation: "booking_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      br_cities: {
+        Row: {
+          id: number
+          latitude: number
+          longitude: number
+          name: string
+          population: number
+          search_name: string
+          state: string
+        }
+        Insert: {
+          id: number
+          latitude: number
+          longitude: number
+          name: string
+          population?: number
+          search_name: string
+          state: string
+        }
+        Update: {
+          id?: number
+          latitude?: number
+          longitude?: number
+          name?: string
+          population?: number
+          search_name?: string
+          state?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_participants: {
+        Row: {
+          conversation_id: string
+          last_read_at: string | null
+          last_read_message_id: string | null
+          unread_count: number
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
+          unread_count?: number
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
+          unread_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          last_message_at: string
+          last_message_id: string | null
+          user_high: string
+          user_low: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          last_message_id?: string | null
+          user_high: string
+          user_low: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          last_message_id?: string | null
+          user_high?: string
+          user_low?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_last_message_id_fkey"
+            columns: ["last_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_user_high_fkey"
+            columns: ["user_high"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_user_low_fkey"
+            columns: ["user_low"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorite_list_entries: {
+        Row: {
+          created_at: string
+          favorite_id: string
+          id: string
+          list_id: string
+        }
+        Insert: {
+          created_at?: string
+          favorite_id: string
+          id?: string
+          list_id: string
+        }
+        Update: {
+          created_at?: string
+          favorite_id?: string
+          id?: string
+          list_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorite_list_entries_favorite_id_fkey"
+            columns: ["favorite_id"]
+            isOneToOne: false
+            referencedRelation: "favorites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "favorite_list_entries_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "favorite_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorite_lists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorite_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      favorites: {
+        Row: {
+          created_at: string
+          favorited_user_id: string
+          id: string
+          notes: string | null
+          tags: string[]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          favorited_user_id: string
+          id?: string
+          notes?: string | null
+          tags?: string[]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          favorited_user_id?: string
+          id?: string
+          notes?: string | null
+          tags?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "favorites_favorited_user_id_fkey"
+            columns: ["favorited_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "favorites_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gig_applications: {
+        Row: {
+          artist_id: string
+          created_at: string
+          gig_id: string
+          id: string
+          pitch: string
+          portfolio_items: Json
+          status: Database["public"]["Enums"]["application_status"]
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          gig_id: string
+          id?: string
+          pitch: string
+          portfolio_items?: Json
+          status?: Database["public"]["Enums"]["application_status"]
           updated_at?: string
         }
         Update: {
-          artistic_branches?: Database["public"]["Enums"]["artistic_branch"][]
-          availability?: string | null
+          artist_id?: string
           created_at?: string
-          experience_years?: number | null
+          gig_id?: string
           id?: string
-          location?: string | null
-          portfolio_items?: Json | null
-          profile_id?: string
-          skills?: string[] | null
+          pitch?: string
+          portfolio_items?: Json
+          status?: Database["public"]["Enums"]["application_status"]
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "artist_profiles_profile_id_fkey"
-            columns: ["profile_id"]
-            isOneToOne: true
+            foreignKeyName: "gig_applications_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "gig_applications_gig_id_fkey"
+            columns: ["gig_id"]
+            isOneToOne: false
+            referencedRelation: "gigs"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      favorites: {
+      gigs: {
         Row: {
+          budget: number | null
           created_at: string
-          favorited_user_id: string
+          description: string | null
+          event_date: string
+          event_type: string
           id: string
-          user_id: string
+          location: string | null
+          organizer_id: string
+          required_branches: Database["public"]["Enums"]["artistic_branch"][]
+          status: Database["public"]["Enums"]["gig_status"]
+          title: string
+          updated_at: string
+          venue: string | null
         }
         Insert: {
+          budget?: number | null
           created_at?: string
-          favorited_user_id: string
+          description?: string | null
+          event_date: string
+          event_type: string
           id?: string
-          user_id: string
+          location?: string | null
+          organizer_id: string
+          required_branches?: Database["public"]["Enums"]["artistic_branch"][]
+          status?: Database["public"]["Enums"]["gig_status"]
+          title: string
+          updated_at?: string
+          venue?: string | null
         }
         Update: {
+          budget?: number | null
           created_at?: string
-          favorited_user_id?: string
+          description?: string | null
+          event_date?: string
+          event_type?: string
           id?: string
-          user_id?: string
+          location?: string | null
+          organizer_id?: string
+          required_branches?: Database["public"]["Enums"]["artistic_branch"][]
+          status?: Database["public"]["Enums"]["gig_status"]
+          title?: string
+          updated_at?: string
+          venue?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "favorites_favorited_user_id_fkey"
-            columns: ["favorited_user_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "favorites_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "gigs_organizer_id_fkey"
+            columns: ["organizer_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
@@ -99,30 +716,68 @@ export type Database = {
       }
       messages: {
         Row: {
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          attachment_type: string | null
           content: string
+          conversation_id: string | null
           created_at: string
           id: string
+          message_type: string
+          proposal_id: string | null
           read: boolean
+          read_at: string | null
           receiver_id: string
           sender_id: string
         }
         Insert: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
           content: string
+          conversation_id?: string | null
           created_at?: string
           id?: string
+          message_type?: string
+          proposal_id?: string | null
           read?: boolean
+          read_at?: string | null
           receiver_id: string
           sender_id: string
         }
         Update: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_type?: string | null
           content?: string
+          conversation_id?: string | null
           created_at?: string
           id?: string
+          message_type?: string
+          proposal_id?: string | null
           read?: boolean
+          read_at?: string | null
           receiver_id?: string
           sender_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "booking_proposals"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -139,9 +794,64 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          source_id: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          source_id?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          source_id?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organizer_profiles: {
         Row: {
           budget_range: string | null
+          city_id: number | null
           company_name: string | null
           created_at: string
           event_frequency: string | null
@@ -156,6 +866,7 @@ export type Database = {
         }
         Insert: {
           budget_range?: string | null
+          city_id?: number | null
           company_name?: string | null
           created_at?: string
           event_frequency?: string | null
@@ -170,6 +881,7 @@ export type Database = {
         }
         Update: {
           budget_range?: string | null
+          city_id?: number | null
           company_name?: string | null
           created_at?: string
           event_frequency?: string | null
@@ -183,6 +895,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "organizer_profiles_city_id_fkey"
+            columns: ["city_id"]
+            isOneToOne: false
+            referencedRelation: "br_cities"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "organizer_profiles_profile_id_fkey"
             columns: ["profile_id"]
@@ -202,6 +921,7 @@ export type Database = {
           id: string
           phone: string | null
           pronouns: string | null
+          search_document: unknown | null
           updated_at: string
           user_type: Database["public"]["Enums"]["user_type"]
         }
@@ -214,6 +934,7 @@ export type Database = {
           id: string
           phone?: string | null
           pronouns?: string | null
+          search_document?: unknown | null
           updated_at?: string
           user_type: Database["public"]["Enums"]["user_type"]
         }
@@ -226,11 +947,147 @@ export type Database = {
           id?: string
           phone?: string | null
           pronouns?: string | null
+          search_document?: unknown | null
           updated_at?: string
           user_type?: Database["public"]["Enums"]["user_type"]
         }
         Relationships: []
       }
+      reviews: {
+        Row: {
+          booking_id: string
+          comment: string | null
+          created_at: string
+          id: string
+          rating: number
+          reviewee_id: string
+          reviewer_id: string
+          updated_at: string
+        }
+        Insert: {
+          booking_id: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          rating: number
+          reviewee_id: string
+          reviewer_id: string
+          updated_at?: string
+        }
+        Update: {
+          booking_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          rating?: number
+          reviewee_id?: string
+          reviewer_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_reviewee_id_fkey"
+            columns: ["reviewee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_search_matches: {
+        Row: {
+          id: string
+          matched_at: string
+          profile_id: string
+          saved_search_id: string
+          seen_at: string | null
+        }
+        Insert: {
+          id?: string
+          matched_at?: string
+          profile_id: string
+          saved_search_id: string
+          seen_at?: string | null
+        }
+        Update: {
+          id?: string
+          matched_at?: string
+          profile_id?: string
+          saved_search_id?: string
+          seen_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_matches_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_search_matches_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          alert: Database["public"]["Enums"]["saved_search_alert"]
+          created_at: string
+          filters: Json
+          id: string
+          last_checked_at: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert?: Database["public"]["Enums"]["saved_search_alert"]
+          created_at?: string
+          filters?: Json
+          id?: string
+          last_checked_at?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert?: Database["public"]["Enums"]["saved_search_alert"]
+          created_at?: string
+          filters?: Json
+          id?: string
+          last_checked_at?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -254,9 +1111,126 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      profile_ratings: {
+        Row: {
+          average_rating: number | null
+          profile_id: string | null
+          review_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_reviewee_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      artist_starting_price: {
+        Args: {
+          _artist_id: string
+        }
+        Returns: number
+      }
+      budget_range_max: {
+        Args: {
+          _budget_range: string
+        }
+        Returns: number
+      }
+      build_profile_search_document: {
+        Args: {
+          _bio: string
+          _full_name: string
+          _profile_id: string
+        }
+        Returns: unknown
+      }
+      distance_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lon1: number
+          _lon2: number
+        }
+        Returns: number
+      }
+      evaluate_saved_searches: {
+        Args: {
+          _alert: Database["public"]["Enums"]["saved_search_alert"]
+        }
+        Returns: number
+      }
+      get_artist_calendar: {
+        Args: {
+          _artist_id: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          end_date: string
+          id: string
+          note: string
+          start_date: string
+          status: string
+        }[]
+      }
+      get_conversations: {
+        Args: never
+        Returns: {
+          id: string
+          last_message_at: string
+          last_message_content: string | null
+          last_message_id: string | null
+          last_message_sender_id: string | null
+          last_message_type: string | null
+          last_read_at: string | null
+          other_avatar_url: string | null
+          other_full_name: string
+          other_user_id: string
+          unread_count: number
+        }[]
+      }
+      get_public_profile: {
+        Args: {
+          _slug: string
+        }
+        Returns: {
+          artistic_branches: Database["public"]["Enums"]["artistic_branch"][]
+          avatar_url: string
+          average_rating: number
+          bio: string
+          cover_url: string
+          currency: string
+          experience_years: number
+          full_name: string
+          id: string
+          location: string
+          portfolio_items: Json
+          pronouns: string
+          public_slug: string
+          review_count: number
+          skills: string[]
+          starting_price: number
+          travel_radius_km: number
+        }[]
+      }
+      get_unavailable_artists: {
+        Args: {
+          _date: string
+        }
+        Returns: string[]
+      }
+      has_applied_to_gig: {
+        Args: {
+          _gig_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -264,9 +1238,124 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_gig_organizer: {
+        Args: {
+          _gig_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_own_portfolio_selection: {
+        Args: {
+          _artist_id: string
+          _items: Json
+        }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: {
+          _conversation_id: string
+        }
+        Returns: undefined
+      }
+      mark_notifications_read: {
+        Args: {
+          _ids?: string[]
+        }
+        Returns: undefined
+      }
+      match_scores: {
+        Args: {
+          _profile_ids: string[]
+        }
+        Returns: {
+          breakdown: Json
+          profile_id: string
+        }[]
+      }
+      portfolio_cover_url: {
+        Args: {
+          _items: Json
+        }
+        Returns: string
+      }
+      portfolio_urls_valid: {
+        Args: {
+          _items: Json
+        }
+        Returns: boolean
+      }
+      regenerate_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
+      respond_to_booking_proposal: {
+        Args: {
+          _proposal_id: string
+          _response: Database["public"]["Enums"]["proposal_status"]
+        }
+        Returns: string
+      }
+      saved_search_filters_valid: {
+        Args: {
+          _filters: Json
+        }
+        Returns: boolean
+      }
+      search_profiles: {
+        Args: {
+          _available_on?: string
+          _branch?: Database["public"]["Enums"]["artistic_branch"]
+          _created_after?: string
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _cursor_sort_key?: number
+          _favorites_only?: boolean
+          _limit?: number
+          _min_rating?: number
+          _near_city_id?: number
+          _radius_km?: number
+          _search?: string
+          _sort?: string
+          _within_budget?: boolean
+        }
+        Returns: {
+          artistic_branches: Database["public"]["Enums"]["artistic_branch"][]
+          avatar_url: string
+          average_rating: number
+          bio: string
+          company_name: string
+          cover_url: string
+          created_at: string
+          currency: string
+          distance_km: number
+          full_name: string
+          headline: string
+          id: string
+          location: string
+          match_breakdown: Json
+          match_score: number
+          preferred_branches: Database["public"]["Enums"]["artistic_branch"][]
+          review_count: number
+          sort_key: number
+          starting_price: number
+          total_count: number
+          user_type: Database["public"]["Enums"]["user_type"]
+        }[]
+      }
+      send_admin_notice: {
+        Args: {
+          _body?: string
+          _link?: string
+          _title: string
+          _user_id?: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "user"
+      application_status: "applied" | "shortlisted" | "hired" | "rejected"
       artistic_branch:
         | "music"
         | "dance"
@@ -279,6 +1368,16 @@ export type Database = {
         | "live_painting"
         | "performance"
         | "other"
+      availability_status: "available" | "blocked"
+      booking_status: "confirmed" | "cancelled"
+      gig_status: "open" | "closed"
+      notification_type:
+        | "new_message"
+        | "favorited"
+        | "booking_update"
+        | "admin_notice"
+      proposal_status: "pending" | "accepted" | "declined" | "countered"
+      saved_search_alert: "off" | "instant" | "daily"
       user_type: "artist" | "organizer"
     }
     CompositeTypes: {
@@ -408,6 +1507,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      application_status: ["applied", "shortlisted", "hired", "rejected"],
       artistic_branch: [
         "music",
         "dance",
@@ -421,6 +1521,17 @@ export const Constants = {
         "performance",
         "other",
       ],
+      availability_status: ["available", "blocked"],
+      booking_status: ["confirmed", "cancelled"],
+      gig_status: ["open", "closed"],
+      notification_type: [
+        "new_message",
+        "favorited",
+        "booking_update",
+        "admin_notice",
+      ],
+      proposal_status: ["pending", "accepted", "declined", "countered"],
+      saved_search_alert: ["off", "instant", "daily"],
       user_type: ["artist", "organizer"],
     },
   },
@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const ATTACHMENTS_BUCKET = "message-attachments";
+
+// Must match the allowed_mime_types of the message-attachments bucket
+export const ATTACHMENT_ACCEPT = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "application/pdf",
+].join(",");
+
+export const ATTACHMENT_MAX_BYTES = 20 * 1024 * 1024;
+
+// Signed URLs are created when a bubble renders, so an hour outlasts any open chat
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface MessageAttachment {
+  attachment_path: string;
+  attachment_name: string;
+  attachment_type: string;
+  attachment_size: number;
+}
+
+export const isImageAttachment = (type: string) => type.startsWith("image/");
+
+export const validateAttachment = (file: File) => {
+  if (!ATTACHMENT_ACCEPT.split(",").includes(file.type)) {
+    return "Envie imagens (JPG, PNG, WebP, GIF) ou PDF";
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `O arquivo excede ${ATTACHMENT_MAX_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+// Objects live under the conversation's folder; storage policies check membership from it
+export const attachmentPath = (conversationId: string, file: File) => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  return `${conversationId}/${crypto.randomUUID()}${extension ? `.${extension}` : ""}`;
+};
+
+/** Short-lived URL for a private attachment; `download` makes the browser save it under its original name. */
+export async function attachmentUrl(path: string, download?: string) {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, download ? { download } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,9 @@
+export const MAX_COMPARE_PROFILES = 4;
+
+// The compare page reads the profile IDs (and optionally a date to check
+// availability on) from the query string so it can be linked and reloaded
+export function compareUrl(profileIds: string[], date?: string) {
+  const params = new URLSearchParams({ ids: profileIds.join(",") });
+  if (date) params.set("date", date);
+  return `/compare?${params.toString()}`;
+}
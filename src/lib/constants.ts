@@ -0,0 +1,98 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type ArtisticBranch = Database["public"]["Enums"]["artistic_branch"];
+
+export const artisticBranches: { id: ArtisticBranch; label: string }[] = [
+  { id: "music", label: "Música" },
+  { id: "dance", label: "Dança" },
+  { id: "theater", label: "Teatro" },
+  { id: "visual_arts", label: "Artes Visuais" },
+  { id: "circus", label: "Circo" },
+  { id: "magic", label: "Mágica" },
+  { id: "comedy", label: "Comédia" },
+  { id: "dj", label: "DJ" },
+  { id: "live_painting", label: "Pintura ao Vivo" },
+  { id: "performance", label: "Performance" },
+  { id: "other", label: "Outro" },
+];
+
+export const eventTypes = [
+  { id: "corporate", label: "Eventos Corporativos" },
+  { id: "wedding", label: "Casamentos" },
+  { id: "birthday", label: "Aniversários" },
+  { id: "festival", label: "Festivais" },
+  { id: "concert", label: "Shows/Concertos" },
+  { id: "private_party", label: "Festas Privadas" },
+  { id: "cultural", label: "Eventos Culturais" },
+  { id: "sports", label: "Eventos Esportivos" },
+  { id: "conference", label: "Conferências" },
+  { id: "other", label: "Outro" },
+];
+
+export const budgetRanges = [
+  { id: "up_to_1k", label: "Até R$ 1.000" },
+  { id: "1k_5k", label: "R$ 1.000 - R$ 5.000" },
+  { id: "5k_10k", label: "R$ 5.000 - R$ 10.000" },
+  { id: "10k_25k", label: "R$ 10.000 - R$ 25.000" },
+  { id: "25k_50k", label: "R$ 25.000 - R$ 50.000" },
+  { id: "above_50k", label: "Acima de R$ 50.000" },
+];
+
+// Budgets are compared in reais; rate cards in other currencies are display-only
+export const currencies = [
+  { id: "BRL", label: "Real (R$)" },
+  { id: "USD", label: "Dólar (US$)" },
+  { id: "EUR", label: "Euro (€)" },
+];
+
+export const eventFrequencies = [
+  { id: "weekly", label: "Semanalmente" },
+  { id: "monthly", label: "Mensalmente" },
+  { id: "quarterly", label: "Trimestralmente" },
+  { id: "yearly", label: "Anualmente" },
+  { id: "occasional", label: "Ocasionalmente" },
+];
+
+export const branchLabels: Record<string, string> = Object.fromEntries(
+  artisticBranches.map((branch) => [branch.id, branch.label])
+);
+
+export const eventTypeLabels: Record<string, string> = Object.fromEntries(
+  eventTypes.map((event) => [event.id, event.label])
+);
+
+export const applicationStatuses = [
+  { id: "applied", label: "Candidatura enviada" },
+  { id: "shortlisted", label: "Pré-selecionado" },
+  { id: "hired", label: "Contratado" },
+  { id: "rejected", label: "Não selecionado" },
+] as const;
+
+export const applicationStatusLabels: Record<string, string> = Object.fromEntries(
+  applicationStatuses.map((status) => [status.id, status.label])
+);
+
+export const applicationStatusClasses: Record<string, string> = {
+  applied: "bg-muted text-foreground",
+  shortlisted: "bg-organizer/20 text-organizer-foreground",
+  hired: "bg-artist/20 text-artist-foreground",
+  rejected: "bg-destructive/20 text-destructive",
+};
+
+export const proposalStatusLabels: Record<string, string> = {
+  pending: "Aguardando resposta",
+  accepted: "Aceita",
+  declined: "Recusada",
+  countered: "Contraproposta enviada",
+};
+
+export const bookingStatusLabels: Record<string, string> = {
+  confirmed: "Confirmada",
+  cancelled: "Cancelada",
+};
+
+export const calendarStatusLabels: Record<string, string> = {
+  available: "Disponível",
+  blocked: "Bloqueado",
+  booked: "Contratado",
+};
@@ -0,0 +1,356 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { branchLabels } from "@/lib/constants";
+import { formatCurrency, formatDuration, formatTravelRule } from "@/lib/format";
+import { slugify } from "@/lib/share";
+
+export type EpkTemplate = "classic" | "spotlight";
+
+export const epkTemplates: { id: EpkTemplate; label: string; description: string }[] = [
+  { id: "classic", label: "Clássico", description: "Fundo branco, uma coluna, fácil de imprimir" },
+  { id: "spotlight", label: "Destaque", description: "Faixa colorida com foto grande e barra lateral" },
+];
+
+export const MAX_EPK_IMAGES = 6;
+
+export interface EpkData {
+  profile: Pick<Tables<"profiles">, "full_name" | "pronouns" | "bio" | "email" | "phone" | "avatar_url">;
+  artist: Pick<
+    Tables<"artist_profiles">,
+    "artistic_branches" | "skills" | "experience_years" | "location" | "travel_radius_km"
+  > | null;
+  rateCard: Tables<"artist_rate_cards"> | null;
+  packages: Tables<"artist_packages">[];
+  rating: Pick<Tables<"profile_ratings">, "average_rating" | "review_count"> | null;
+  imageUrls: string[];
+}
+
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 16;
+const INK: Rgb = [33, 33, 33];
+const MUTED: Rgb = [110, 110, 110];
+// --artist in index.css
+const ACCENT: Rgb = [135, 13, 40];
+const WHITE: Rgb = [255, 255, 255];
+const PT_TO_MM = 0.3528;
+
+interface LoadedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// jsPDF only embeds JPEG/PNG reliably, so every image goes through a canvas.
+// Storage serves CORS headers; anything that fails to load is left out.
+const loadImage = (url: string, maxSize: number, square = false) =>
+  new Promise<LoadedImage | null>((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      try {
+        const side = Math.min(img.naturalWidth, img.naturalHeight);
+        const sourceWidth = square ? side : img.naturalWidth;
+        const sourceHeight = square ? side : img.naturalHeight;
+        const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(sourceWidth * scale);
+        canvas.height = Math.round(sourceHeight * scale);
+
+        const context = canvas.getContext("2d")!;
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(
+          img,
+          (img.naturalWidth - sourceWidth) / 2,
+          (img.naturalHeight - sourceHeight) / 2,
+          sourceWidth,
+          sourceHeight,
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+
+        resolve({ dataUrl: canvas.toDataURL("image/jpeg", 0.85), width: canvas.width, height: canvas.height });
+      } catch {
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+
+interface TextOptions {
+  size?: number;
+  style?: "normal" | "bold" | "italic";
+  color?: Rgb;
+}
+
+interface Frame {
+  x: number;
+  width: number;
+  top: number;
+  // Paints backgrounds on pages this column creates
+  decoratePage?: () => void;
+}
+
+/**
+ * Flows text and images down a column. Each column keeps its own page and
+ * continues at the same x on the next page, so side-by-side columns can
+ * overflow independently without overlapping.
+ */
+const createWriter = (doc: jsPDF, { x, width, top, decoratePage }: Frame) => {
+  let page = doc.getCurrentPageInfo().pageNumber;
+  let y = top;
+
+  const ensure = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    page += 1;
+    if (page > doc.getNumberOfPages()) {
+      doc.addPage();
+      decoratePage?.();
+    }
+    y = MARGIN;
+  };
+
+  const text = (value: string, { size = 10, style = "normal", color = INK }: TextOptions = {}) => {
+    doc.setFont("helvetica", style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lineHeight = size * PT_TO_MM * 1.45;
+
+    for (const line of doc.splitTextToSize(value, width) as string[]) {
+      ensure(lineHeight);
+      doc.setPage(page);
+      doc.text(line, x, y + size * PT_TO_MM);
+      y += lineHeight;
+    }
+  };
+
+  const heading = (title: string, color = ACCENT) => {
+    y += 5;
+    // Keep headings with at least a couple of lines of their section
+    ensure(16);
+    text(title.toUpperCase(), { size: 9, style: "bold", color });
+    doc.setPage(page);
+    doc.setDrawColor(...color);
+    doc.setLineWidth(0.4);
+    doc.line(x, y, x + width, y);
+    y += 3;
+  };
+
+  const images = (list: LoadedImage[], columns: number) => {
+    const gap = 3;
+    const cell = (width - gap * (columns - 1)) / columns;
+
+    list.forEach((image, index) => {
+      const column = index % columns;
+      if (column === 0) {
+        if (index > 0) y += cell + gap;
+        ensure(cell);
+      }
+      const scale = Math.min(cell / image.width, cell / image.height);
+      doc.setPage(page);
+      const w = image.width * scale;
+      const h = image.height * scale;
+      doc.addImage(image.dataUrl, "JPEG", x + column * (cell + gap) + (cell - w) / 2, y + (cell - h) / 2, w, h);
+    });
+
+    if (list.length > 0) y += cell;
+  };
+
+  return {
+    text,
+    heading,
+    images,
+    gap: (height: number) => {
+      y += height;
+    },
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+const branchesLine = (data: EpkData) =>
+  (data.artist?.artistic_branches ?? []).map((branch) => branchLabels[branch] || branch).join(" · ");
+
+const writeAbout = (writer: Writer, data: EpkData) => {
+  if (data.profile.bio) {
+    writer.heading("Sobre");
+    writer.text(data.profile.bio);
+  }
+
+  const skills = data.artist?.skills ?? [];
+  if (skills.length > 0) {
+    writer.heading("Especialidades");
+    writer.text(skills.join(" · "));
+  }
+
+  const experience = data.artist?.experience_years;
+  const rating = data.rating?.average_rating;
+  if (experience != null || rating != null) {
+    writer.heading("Trajetória");
+    if (experience != null) {
+      writer.text(`${experience} ${experience === 1 ? "ano" : "anos"} de experiência`);
+    }
+    if (rating != null) {
+      writer.text(
+        `Avaliação ${rating.toFixed(1)} de 5 em ${data.rating?.review_count} contratações pela plataforma`
+      );
+    }
+  }
+};
+
+const writeRates = (writer: Writer, data: EpkData, color: Rgb) => {
+  const { rateCard, packages } = data;
+  const currency = rateCard?.currency ?? "BRL";
+
+  writer.heading("Valores", color);
+  if (!rateCard && packages.length === 0) {
+    writer.text("Sob consulta", { color: MUTED });
+    return;
+  }
+
+  if (rateCard?.base_fee != null) {
+    writer.text(`Cachê a partir de ${formatCurrency(rateCard.base_fee, currency)}`, { style: "bold" });
+  }
+  if (rateCard?.hourly_rate != null) {
+    writer.text(`${formatCurrency(rateCard.hourly_rate, currency)} por hora`);
+  }
+  const travel = rateCard ? formatTravelRule(rateCard) : null;
+  if (travel) writer.text(travel, { size: 9, color: MUTED });
+  if (rateCard?.travel_notes) writer.text(rateCard.travel_notes, { size: 9, color: MUTED });
+
+  for (const pkg of packages) {
+    writer.gap(2);
+    const duration = pkg.duration_minutes != null ? ` (${formatDuration(pkg.duration_minutes)})` : "";
+    writer.text(`${pkg.name}: ${formatCurrency(pkg.price, currency)}${duration}`, { style: "bold" });
+    if (pkg.description) writer.text(pkg.description, { size: 9, color: MUTED });
+  }
+};
+
+const writeContact = (writer: Writer, data: EpkData, color: Rgb) => {
+  writer.heading("Contato", color);
+  writer.text(data.profile.email);
+  if (data.profile.phone) writer.text(data.profile.phone);
+  if (data.artist?.location) writer.text(data.artist.location);
+  if (data.artist?.travel_radius_km) {
+    writer.text(`Atende até ${data.artist.travel_radius_km} km de distância`, { size: 9, color: MUTED });
+  }
+};
+
+const writeFooters = (doc: jsPDF) => {
+  const generated = `Press kit gerado em ${format(new Date(), "dd/MM/yyyy")} · EchoArachna`;
+  const pages = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(generated, MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`${page}/${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: "right" });
+  }
+};
+
+const buildClassic = (doc: jsPDF, data: EpkData, avatar: LoadedImage | null, images: LoadedImage[]) => {
+  const avatarSize = 36;
+  const textX = avatar ? MARGIN + avatarSize + 8 : MARGIN;
+
+  if (avatar) doc.addImage(avatar.dataUrl, "JPEG", MARGIN, MARGIN, avatarSize, avatarSize);
+
+  const header = createWriter(doc, { x: textX, width: PAGE_WIDTH - MARGIN - textX, top: MARGIN + 4 });
+  header.text(data.profile.full_name, { size: 24, style: "bold" });
+  if (data.profile.pronouns) header.text(data.profile.pronouns, { size: 10, color: MUTED });
+  header.gap(2);
+  const branches = branchesLine(data);
+  if (branches) header.text(branches, { size: 11, color: ACCENT });
+  if (data.artist?.location) header.text(data.artist.location, { size: 10, color: MUTED });
+
+  const body = createWriter(doc, { x: MARGIN, width: PAGE_WIDTH - MARGIN * 2, top: MARGIN + avatarSize + 4 });
+  writeAbout(body, data);
+  if (images.length > 0) {
+    body.heading("Portfólio");
+    body.images(images, 3);
+  }
+  writeRates(body, data, ACCENT);
+  writeContact(body, data, ACCENT);
+};
+
+const buildSpotlight = (doc: jsPDF, data: EpkData, avatar: LoadedImage | null, images: LoadedImage[]) => {
+  const bannerHeight = 62;
+  const avatarSize = 46;
+  const sidebarWidth = 58;
+
+  doc.setFillColor(...ACCENT);
+  doc.rect(0, 0, PAGE_WIDTH, bannerHeight, "F");
+
+  if (avatar) {
+    doc.setFillColor(...WHITE);
+    doc.rect(MARGIN - 1.5, MARGIN - 1.5, avatarSize + 3, avatarSize + 3, "F");
+    doc.addImage(avatar.dataUrl, "JPEG", MARGIN, MARGIN, avatarSize, avatarSize);
+  }
+
+  const textX = avatar ? MARGIN + avatarSize + 10 : MARGIN;
+  const header = createWriter(doc, { x: textX, width: PAGE_WIDTH - MARGIN - textX, top: MARGIN + 6 });
+  header.text(data.profile.full_name, { size: 26, style: "bold", color: WHITE });
+  if (data.profile.pronouns) header.text(data.profile.pronouns, { size: 10, color: WHITE });
+  header.gap(3);
+  const branches = branchesLine(data);
+  if (branches) header.text(branches, { size: 12, color: WHITE });
+
+  const paintSidebar = (top: number) => {
+    doc.setFillColor(246, 242, 243);
+    doc.rect(0, top, MARGIN + sidebarWidth + 4, PAGE_HEIGHT - top, "F");
+  };
+  paintSidebar(bannerHeight);
+
+  const decoratePage = () => paintSidebar(0);
+  const sidebar = createWriter(doc, { x: MARGIN, width: sidebarWidth - 4, top: bannerHeight + 2, decoratePage });
+  writeContact(sidebar, data, INK);
+  writeRates(sidebar, data, INK);
+
+  doc.setPage(1);
+  const mainX = MARGIN + sidebarWidth + 10;
+  const main = createWriter(doc, {
+    x: mainX,
+    width: PAGE_WIDTH - MARGIN - mainX,
+    top: bannerHeight + 2,
+    decoratePage,
+  });
+  writeAbout(main, data);
+  if (images.length > 0) {
+    main.heading("Portfólio");
+    main.images(images, 2);
+  }
+};
+
+/**
+ * Lays out an artist's press kit as an A4 PDF. Images are fetched and
+ * re-encoded in the browser, so this has to run client-side.
+ */
+export async function buildEpk(data: EpkData, template: EpkTemplate) {
+  const [avatar, ...images] = await Promise.all([
+    data.profile.avatar_url ? loadImage(data.profile.avatar_url, 600, true) : Promise.resolve(null),
+    ...data.imageUrls.slice(0, MAX_EPK_IMAGES).map((url) => loadImage(url, 1000)),
+  ]);
+  const loaded = images.filter((image): image is LoadedImage => !!image);
+
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  doc.setProperties({ title: `${data.profile.full_name} - Press kit`, author: data.profile.full_name });
+
+  if (template === "spotlight") {
+    buildSpotlight(doc, data, avatar, loaded);
+  } else {
+    buildClassic(doc, data, avatar, loaded);
+  }
+  writeFooters(doc);
+
+  return doc;
+}
+
+export const epkFileName = (fullName: string) => `press-kit-${slugify(fullName)}.pdf`;
@@ -0,0 +1,49 @@
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Tables } from "@/integrations/supabase/types";
+
+const currencyFormatters = new Map<string, Intl.NumberFormat>();
+
+export function formatCurrency(value: number, currency = "BRL") {
+  let formatter = currencyFormatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat("pt-BR", { style: "currency", currency });
+    currencyFormatters.set(currency, formatter);
+  }
+  return formatter.format(value);
+}
+
+// Postgres DATE columns arrive as "yyyy-MM-dd"; parseISO keeps them in local time
+export function formatDate(value: string, pattern = "dd 'de' MMMM 'de' yyyy") {
+  return format(parseISO(value), pattern, { locale: ptBR });
+}
+
+export function formatDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours}h` : `${hours}h${String(rest).padStart(2, "0")}`;
+}
+
+export function formatTravelRule({
+  free_travel_km,
+  travel_fee_per_km,
+  currency,
+}: Pick<Tables<"artist_rate_cards">, "free_travel_km" | "travel_fee_per_km" | "currency">) {
+  if (travel_fee_per_km == null) {
+    return free_travel_km != null ? `Deslocamento incluso até ${free_travel_km} km` : null;
+  }
+  const fee = `${formatCurrency(travel_fee_per_km, currency)}/km`;
+  return free_travel_km ? `Deslocamento incluso até ${free_travel_km} km, depois ${fee}` : `Deslocamento: ${fee}`;
+}
+
+// Postgres TIME columns arrive as "HH:mm:ss"
+export function formatTime(value: string) {
+  return value.slice(0, 5);
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1).replace(".", ",")} MB`;
+}
@@ -0,0 +1,106 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/format";
+
+const TIMEZONE = "America/Sao_Paulo";
+
+// São Paulo has had no daylight saving time since 2019, so one STANDARD rule
+// covers every booking for clients that don't resolve the TZID by name
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:-0300",
+  "TZOFFSETTO:-0300",
+  "TZNAME:-03",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// Mirrors the event layout served by the calendar-feed edge function, so a
+// downloaded booking and its subscribed copy share the same UID
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 lines are limited to 75 octets; continuation lines start with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function compactDateTime(date: string, time: string) {
+  return `${date.replace(/-/g, "")}T${time.slice(0, 8).replace(/:/g, "")}`;
+}
+
+export function buildBookingIcs(
+  booking: Tables<"bookings">,
+  counterpartName: string,
+  isArtist: boolean
+) {
+  // Shows that end at or before their start time run past midnight
+  const endDate = booking.end_time <= booking.start_time
+    ? format(addDays(parseISO(booking.event_date), 1), "yyyy-MM-dd")
+    : booking.event_date;
+  const description = [
+    `${isArtist ? "Organizador" : "Artista"}: ${counterpartName}`,
+    `Cachê: ${formatCurrency(booking.fee)}`,
+    booking.notes,
+  ].filter(Boolean).join("\n");
+  const stamp = new Date(booking.updated_at).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//EchoArachna//Agenda//PT-BR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...VTIMEZONE,
+    "BEGIN:VEVENT",
+    `UID:booking-${booking.id}@echoarachna`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${TIMEZONE}:${compactDateTime(booking.event_date, booking.start_time)}`,
+    `DTEND;TZID=${TIMEZONE}:${compactDateTime(endDate, booking.end_time)}`,
+    `SUMMARY:${escapeText(`Show — ${counterpartName}`)}`,
+    ...(booking.location ? [`LOCATION:${escapeText(booking.location)}`] : []),
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${booking.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function downloadIcs(filename: string, content: string) {
+  const blob = new Blob([content], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function calendarFeedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
@@ -0,0 +1,22 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ProcessedImage {
+  url: string;
+  thumbUrl: string | null;
+}
+
+/**
+ * Has the process-image edge function replace an uploaded original with
+ * resized, metadata-free WebP variants. Rejects when the file isn't a
+ * decodable image, after deleting the original; if the call fails any other
+ * way the original may still be there, so callers remove it themselves.
+ */
+export async function processImage(bucket: "avatars" | "portfolio", path: string) {
+  const { data, error } = await supabase.functions.invoke<ProcessedImage>("process-image", {
+    body: { bucket, path },
+  });
+
+  if (error) throw error;
+  if (!data) throw new Error("Empty response from process-image");
+  return data;
+}
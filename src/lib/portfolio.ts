@@ -0,0 +1,157 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type PortfolioItemType = "image" | "audio" | "video" | "embed";
+
+export interface PortfolioItem {
+  url: string;
+  type: PortfolioItemType;
+  // Small WebP variant of uploaded images, for grids and cards
+  thumb_url?: string;
+  title?: string;
+  description?: string;
+  // "yyyy-MM-dd"
+  date?: string;
+  event?: string;
+  // Only images can be the cover shown on Feed cards
+  cover?: boolean;
+}
+
+export type EmbedProvider = "youtube" | "soundcloud" | "spotify";
+
+export const embedProviderLabels: Record<EmbedProvider, string> = {
+  youtube: "YouTube",
+  soundcloud: "SoundCloud",
+  spotify: "Spotify",
+};
+
+// Must match the allowed_mime_types of the portfolio bucket
+export const PORTFOLIO_ACCEPT = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "audio/x-wav",
+  "video/mp4",
+  "video/webm",
+].join(",");
+
+// The bucket caps everything at 50 MB; images and audio don't need that much
+export const PORTFOLIO_MAX_BYTES: Record<Exclude<PortfolioItemType, "embed">, number> = {
+  image: 10 * 1024 * 1024,
+  audio: 20 * 1024 * 1024,
+  video: 50 * 1024 * 1024,
+};
+
+export const portfolioTypeFromMime = (mime: string): Exclude<PortfolioItemType, "embed"> | null => {
+  if (!PORTFOLIO_ACCEPT.split(",").includes(mime)) return null;
+  if (mime.startsWith("image/")) return "image";
+  if (mime.startsWith("audio/")) return "audio";
+  return "video";
+};
+
+// Older rows stored bare image URLs
+// Artists write portfolio_items directly, so only http(s) URLs are ever used as links
+export const isWebUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+// Items with other URL schemes are dropped, and so disappear on the next save
+export const toPortfolioItems = (items: Json | null | undefined): PortfolioItem[] =>
+  Array.isArray(items)
+    ? items.flatMap((item): PortfolioItem[] => {
+        if (typeof item === "string") return isWebUrl(item) ? [{ url: item, type: "image" }] : [];
+        const { url, type, ...details } = (item ?? {}) as Partial<PortfolioItem>;
+        if (typeof url !== "string" || !isWebUrl(url)) return [];
+        return [{ ...details, url, type: type ?? "image" }];
+      })
+    : [];
+
+// Drops empty details so the stored JSON stays small
+export const toPortfolioJson = (items: PortfolioItem[]): Json =>
+  items.map(({ url, type, thumb_url, title, description, date, event, cover }) => ({
+    url,
+    type,
+    ...(thumb_url ? { thumb_url } : {}),
+    ...(title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(date ? { date } : {}),
+    ...(event ? { event } : {}),
+    ...(cover && type === "image" ? { cover } : {}),
+  }));
+
+const PUBLIC_OBJECT_PREFIX = "/storage/v1/object/public/portfolio/";
+
+const storagePath = (url: string) => {
+  try {
+    const { pathname } = new URL(url);
+    return pathname.startsWith(PUBLIC_OBJECT_PREFIX)
+      ? decodeURIComponent(pathname.slice(PUBLIC_OBJECT_PREFIX.length))
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Objects in the portfolio bucket behind an item; none for embeds and external URLs
+export const portfolioStoragePaths = (item: PortfolioItem) =>
+  item.type === "embed"
+    ? []
+    : [item.url, item.thumb_url]
+        .map((url) => (url ? storagePath(url) : null))
+        .filter((path): path is string => !!path);
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+/**
+ * Turns a share link from a supported platform into the URL of its embeddable
+ * player, or null when the link isn't recognised.
+ */
+export const getEmbed = (link: string): { provider: EmbedProvider; src: string } | null => {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+
+  const host = url.hostname.replace(/^(www\.|m\.)/, "");
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (host === "youtube.com" || host === "music.youtube.com" || host === "youtu.be") {
+    const id =
+      host === "youtu.be"
+        ? segments[0]
+        : ["shorts", "embed", "live"].includes(segments[0])
+          ? segments[1]
+          : url.searchParams.get("v");
+    if (!id || !YOUTUBE_ID.test(id)) return null;
+    return { provider: "youtube", src: `https://www.youtube-nocookie.com/embed/${id}` };
+  }
+
+  if (host === "soundcloud.com" && segments.length >= 2) {
+    const track = `https://soundcloud.com/${segments.join("/")}`;
+    return {
+      provider: "soundcloud",
+      src: `https://w.soundcloud.com/player/?url=${encodeURIComponent(track)}&color=%23ff5500&visual=false`,
+    };
+  }
+
+  if (host === "open.spotify.com") {
+    // Localised links look like /intl-pt/track/<id>
+    const parts = segments[0]?.startsWith("intl-") ? segments.slice(1) : segments;
+    const [kind, id] = parts;
+    if (!["track", "album", "playlist", "artist", "episode", "show"].includes(kind) || !id) return null;
+    return { provider: "spotify", src: `https://open.spotify.com/embed/${kind}/${id}` };
+  }
+
+  return null;
+};
@@ -0,0 +1,20 @@
+// Same rule as the public_slug CHECK constraint
+export const PUBLIC_SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$/;
+
+export const slugify = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export const publicProfileUrl = (slug: string) => `${window.location.origin}/a/${slug}`;
+
+// Only same-site paths, so a crafted ?next= can't bounce users to another origin.
+// Browsers read both "//host" and "/\host" as protocol-relative URLs.
+export const safeNext = (value: string | null) =>
+  value && value[0] === "/" && value[1] !== "/" && value[1] !== "\\" ? value : null;
+
+export const withNext = (path: string, next: string | null) =>
+  next ? `${path}${path.includes("?") ? "&" : "?"}next=${encodeURIComponent(next)}` : path;
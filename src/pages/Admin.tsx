@@ -25,6 +25,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
+import { AdminNoticeCard } from "@/components/AdminNoticeCard";
 import { toast } from "sonner";
 import { ArrowLeft, Trash2, Users, Shield, Loader2 } from "lucide-react";
 
@@ -206,6 +207,8 @@ const Admin = () => {
           </Card>
         </div>
 
+        <AdminNoticeCard profiles={profiles} />
+
         <Card>
           <CardHeader>
             <CardTitle>Usuários Cadastrados</CardTitle>
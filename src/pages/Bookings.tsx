@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import type { Tables } from "@/integrations/supabase/types";
+import { ArrowLeft, Calendar, Clock, MapPin, DollarSign, MessageCircle, CalendarPlus, Star } from "lucide-react";
+import { toast } from "sonner";
+import webPattern from "@/assets/web-pattern.jpg";
+import { bookingStatusLabels } from "@/lib/constants";
+import { formatCurrency, formatDate, formatTime } from "@/lib/format";
+import { buildBookingIcs, downloadIcs } from "@/lib/ics";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
+import { ReviewDialog } from "@/components/ReviewDialog";
+import { AppHeader } from "@/components/AppHeader";
+import { format } from "date-fns";
+
+interface Participant {
+  full_name: string;
+  avatar_url: string | null;
+}
+
+type Booking = Tables<"bookings"> & {
+  artist: Participant | null;
+  organizer: Participant | null;
+};
+
+const Bookings = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewedBookings, setReviewedBookings] = useState<Set<string>>(new Set());
+  const [reviewTarget, setReviewTarget] = useState<Booking | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchBookings();
+      fetchReviewedBookings();
+    }
+  }, [user]);
+
+  const fetchBookings = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select("*, artist:profiles!artist_id(full_name, avatar_url), organizer:profiles!organizer_id(full_name, avatar_url)")
+        .or(`artist_id.eq.${user.id},organizer_id.eq.${user.id}`)
+        .order("event_date", { ascending: true });
+
+      if (error) throw error;
+      setBookings(data || []);
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
+      toast.error("Erro ao carregar contratações");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchReviewedBookings = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("booking_id")
+        .eq("reviewer_id", user.id);
+
+      if (error) throw error;
+      setReviewedBookings(new Set(data?.map(r => r.booking_id)));
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    }
+  };
+
+  const cancelBooking = async (bookingId: string) => {
+    try {
+      const { error } = await supabase
+        .from("bookings")
+        .update({ status: "cancelled" })
+        .eq("id", bookingId);
+
+      if (error) throw error;
+
+      setBookings(prev => prev.map(b => b.id === bookingId ? { ...b, status: "cancelled" } : b));
+      toast.success("Contratação cancelada");
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      toast.error("Erro ao cancelar contratação");
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcoming = bookings.filter(b => b.event_date >= today);
+  const past = bookings.filter(b => b.event_date < today).reverse();
+
+  const renderBooking = (booking: Booking) => {
+    const isArtist = booking.artist_id === user?.id;
+    const otherUserId = isArtist ? booking.organizer_id : booking.artist_id;
+    const otherUser = isArtist ? booking.organizer : booking.artist;
+
+    return (
+      <Card key={booking.id} className="border-border/50 backdrop-blur-sm bg-card/90">
+        <CardHeader>
+          <div className="flex items-start gap-4">
+            <Avatar
+              className="w-12 h-12 cursor-pointer"
+              onClick={() => navigate(`/profile/${otherUserId}`)}
+            >
+              <AvatarImage src={otherUser?.avatar_url || undefined} />
+              <AvatarFallback>
+                {otherUser?.full_name.substring(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+              <CardTitle className="text-lg">{otherUser?.full_name}</CardTitle>
+              <CardDescription>{isArtist ? "Organizador" : "Artista"}</CardDescription>
+            </div>
+            <Badge variant={booking.status === "cancelled" ? "outline" : "secondary"}>
+              {bookingStatusLabels[booking.status]}
+            </Badge>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Adicionar ao calendário"
+              onClick={() => downloadIcs(
+                `contratacao-${booking.event_date}.ics`,
+                buildBookingIcs(booking, otherUser?.full_name ?? "EchoArachna", isArtist)
+              )}
+            >
+              <CalendarPlus className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/messages", { state: { userId: otherUserId } })}
+            >
+              <MessageCircle className="h-5 w-5" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Calendar className="w-4 h-4" />
+              {formatDate(booking.event_date)}
+            </span>
+            <span className="flex items-center gap-1">
+              <Clock className="w-4 h-4" />
+              {formatTime(booking.start_time)} – {formatTime(booking.end_time)}
+            </span>
+            {booking.location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="w-4 h-4" />
+                {booking.location}
+              </span>
+            )}
+            <span className="flex items-center gap-1">
+              <DollarSign className="w-4 h-4" />
+              {formatCurrency(booking.fee)}
+            </span>
+          </div>
+          {booking.notes && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{booking.notes}</p>
+          )}
+          {booking.status === "confirmed" && booking.event_date < today && (
+            reviewedBookings.has(booking.id) ? (
+              <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                Você já avaliou esta contratação
+              </p>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => setReviewTarget(booking)}>
+                <Star className="w-4 h-4 mr-2" />
+                Avaliar {otherUser?.full_name}
+              </Button>
+            )
+          )}
+          {booking.status === "confirmed" && booking.event_date >= today && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  Cancelar contratação
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Cancelar contratação</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Tem certeza que deseja cancelar esta contratação? Avise a outra parte pela conversa.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Voltar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => cancelBooking(booking.id)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Cancelar contratação
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-5"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <AppHeader />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" onClick={() => navigate("/feed")} className="mb-6">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Voltar
+        </Button>
+
+        <h2 className="text-xl font-semibold mb-6">Minhas contratações</h2>
+
+        <div className="mb-6">
+          <CalendarFeedCard userId={user!.id} />
+        </div>
+
+        <Tabs defaultValue="upcoming">
+          <TabsList className="mb-6">
+            <TabsTrigger value="upcoming">Próximas ({upcoming.length})</TabsTrigger>
+            <TabsTrigger value="past">Anteriores ({past.length})</TabsTrigger>
+          </TabsList>
+
+          {[
+            { value: "upcoming", items: upcoming, empty: "Nenhuma contratação agendada" },
+            { value: "past", items: past, empty: "Nenhuma contratação anterior" },
+          ].map((tab) => (
+            <TabsContent key={tab.value} value={tab.value} className="space-y-4">
+              {tab.items.length === 0 ? (
+                <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+                  <CardContent className="py-12 text-center">
+                    <p className="text-muted-foreground">{tab.empty}</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                tab.items.map(renderBooking)
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+
+      {reviewTarget && (
+        <ReviewDialog
+          open={!!reviewTarget}
+          onOpenChange={(open) => !open && setReviewTarget(null)}
+          bookingId={reviewTarget.id}
+          reviewerId={user!.id}
+          revieweeId={reviewTarget.artist_id === user?.id ? reviewTarget.organizer_id : reviewTarget.artist_id}
+          revieweeName={(reviewTarget.artist_id === user?.id ? reviewTarget.organizer : reviewTarget.artist)?.full_name ?? ""}
+          onSaved={() => setReviewedBookings(prev => new Set(prev).add(reviewTarget.id))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Bookings;
@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CalendarDays, Check, X } from "lucide-react";
+import { toast } from "sonner";
+import webPattern from "@/assets/web-pattern.jpg";
+import { StarRating } from "@/components/StarRating";
+import { AppHeader } from "@/components/AppHeader";
+import { branchLabels } from "@/lib/constants";
+import { MAX_COMPARE_PROFILES, compareUrl } from "@/lib/compare";
+import { formatCurrency } from "@/lib/format";
+import { toPortfolioItems } from "@/lib/portfolio";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+type ComparedProfile = Pick<Tables<"profiles">, "id" | "full_name" | "avatar_url" | "user_type"> & {
+  artist_profile: Pick<
+    Tables<"artist_profiles">,
+    "artistic_branches" | "skills" | "experience_years" | "location" | "travel_radius_km" | "portfolio_items"
+  > | null;
+  rate_card: Pick<Tables<"artist_rate_cards">, "currency" | "base_fee" | "hourly_rate"> | null;
+  starting_price: number | null;
+  rating: Pick<Tables<"profile_ratings">, "average_rating" | "review_count"> | null;
+};
+
+const portfolioThumbnails = (items: Json | null) =>
+  toPortfolioItems(items)
+    .filter((item) => item.type === "image")
+    .map((item) => item.thumb_url ?? item.url)
+    .slice(0, 4);
+
+const Compare = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [profiles, setProfiles] = useState<ComparedProfile[]>([]);
+  const [unavailable, setUnavailable] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  const ids = (searchParams.get("ids") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .slice(0, MAX_COMPARE_PROFILES);
+  const idsKey = ids.join(",");
+  const dateParam = searchParams.get("date") ?? "";
+  const date = dateParam ? parseISO(dateParam) : undefined;
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      if (!user || ids.length === 0) {
+        setProfiles([]);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const [
+          { data: profilesData, error: profilesError },
+          { data: artistsData, error: artistsError },
+          { data: ratingsData, error: ratingsError },
+          { data: rateCardsData, error: rateCardsError },
+          { data: packagesData, error: packagesError },
+        ] = await Promise.all([
+          supabase.from("profiles").select("id, full_name, avatar_url, user_type").in("id", ids),
+          supabase
+            .from("artist_profiles")
+            .select("profile_id, artistic_branches, skills, experience_years, location, travel_radius_km, portfolio_items")
+            .in("profile_id", ids),
+          supabase.from("profile_ratings").select("profile_id, average_rating, review_count").in("profile_id", ids),
+          supabase.from("artist_rate_cards").select("artist_id, currency, base_fee, hourly_rate").in("artist_id", ids),
+          supabase.from("artist_packages").select("artist_id, price").in("artist_id", ids),
+        ]);
+
+        if (profilesError) throw profilesError;
+        if (artistsError) throw artistsError;
+        if (ratingsError) throw ratingsError;
+        if (rateCardsError) throw rateCardsError;
+        if (packagesError) throw packagesError;
+
+        // Keep the order the profiles were picked in
+        setProfiles(
+          ids
+            .map((id) => profilesData?.find((profile) => profile.id === id))
+            .filter((profile) => !!profile)
+            .map((profile) => {
+              const rateCard = rateCardsData?.find((card) => card.artist_id === profile.id) ?? null;
+              // Same rule as artist_starting_price(): only prices in reais are comparable
+              const prices = (rateCard?.currency ?? "BRL") === "BRL"
+                ? [
+                    rateCard?.base_fee,
+                    ...(packagesData ?? []).filter((pkg) => pkg.artist_id === profile.id).map((pkg) => pkg.price),
+                  ].filter((price): price is number => price != null)
+                : [];
+
+              return {
+                ...profile,
+                artist_profile: artistsData?.find((artist) => artist.profile_id === profile.id) ?? null,
+                rating: ratingsData?.find((rating) => rating.profile_id === profile.id) ?? null,
+                rate_card: rateCard,
+                starting_price: prices.length > 0 ? Math.min(...prices) : null,
+              };
+            })
+        );
+      } catch (error) {
+        console.error("Error fetching profiles to compare:", error);
+        toast.error("Erro ao carregar perfis");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfiles();
+  }, [user, idsKey]);
+
+  useEffect(() => {
+    const fetchAvailability = async () => {
+      if (!dateParam) {
+        setUnavailable(new Set());
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase.rpc("get_unavailable_artists", { _date: dateParam });
+
+        if (error) throw error;
+        setUnavailable(new Set(data || []));
+      } catch (error) {
+        console.error("Error fetching availability:", error);
+      }
+    };
+
+    fetchAvailability();
+  }, [dateParam]);
+
+  const setDate = (value: Date | undefined) => {
+    navigate(compareUrl(ids, value ? format(value, "yyyy-MM-dd") : undefined), { replace: true });
+  };
+
+  const removeProfile = (profileId: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set("ids", ids.filter((id) => id !== profileId).join(","));
+      return next;
+    }, { replace: true });
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  const rows: { label: string; render: (profile: ComparedProfile) => React.ReactNode }[] = [
+    {
+      label: "Ramos artísticos",
+      render: (profile) => (
+        <div className="flex flex-wrap gap-1">
+          {(profile.artist_profile?.artistic_branches ?? []).map((branch) => (
+            <Badge key={branch} variant="secondary" className="bg-artist/20 text-artist-foreground">
+              {branchLabels[branch] || branch}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      label: "Habilidades",
+      render: (profile) => profile.artist_profile?.skills?.join(", ") || "—",
+    },
+    {
+      label: "Experiência",
+      render: (profile) => profile.artist_profile?.experience_years != null
+        ? `${profile.artist_profile.experience_years} ${profile.artist_profile.experience_years === 1 ? "ano" : "anos"}`
+        : "—",
+    },
+    {
+      label: "Localização",
+      render: (profile) => (
+        <>
+          <p>{profile.artist_profile?.location || "—"}</p>
+          {profile.artist_profile?.travel_radius_km != null && (
+            <p className="text-xs text-muted-foreground">Atende até {profile.artist_profile.travel_radius_km} km</p>
+          )}
+        </>
+      ),
+    },
+    {
+      label: "Cachê",
+      render: (profile) => {
+        if (profile.starting_price == null && profile.rate_card?.hourly_rate == null) return "Sob consulta";
+        const currency = profile.rate_card?.currency ?? "BRL";
+        return (
+          <>
+            {profile.starting_price != null && <p>A partir de {formatCurrency(profile.starting_price, currency)}</p>}
+            {profile.rate_card?.hourly_rate != null && (
+              <p className="text-xs text-muted-foreground">{formatCurrency(profile.rate_card.hourly_rate, currency)} por hora</p>
+            )}
+          </>
+        );
+      },
+    },
+    {
+      label: "Avaliação",
+      render: (profile) => profile.rating?.average_rating != null ? (
+        <div className="flex items-center gap-1.5">
+          <StarRating value={profile.rating.average_rating} />
+          <span className="text-xs text-muted-foreground">
+            {profile.rating.average_rating.toFixed(1)} ({profile.rating.review_count})
+          </span>
+        </div>
+      ) : "Sem avaliações",
+    },
+    {
+      label: date ? `Disponível em ${format(date, "dd/MM")}` : "Disponibilidade",
+      render: (profile) => {
+        if (!date) return <span className="text-muted-foreground">Escolha uma data</span>;
+        return unavailable.has(profile.id) ? (
+          <span className="flex items-center gap-1 text-destructive"><X className="h-4 w-4" /> Indisponível</span>
+        ) : (
+          <span className="flex items-center gap-1 text-green-500"><Check className="h-4 w-4" /> Disponível</span>
+        );
+      },
+    },
+    {
+      label: "Portfólio",
+      render: (profile) => {
+        const thumbnails = portfolioThumbnails(profile.artist_profile?.portfolio_items ?? null);
+        if (thumbnails.length === 0) return "—";
+        return (
+          <div className="grid grid-cols-2 gap-1">
+            {thumbnails.map((url, index) => (
+              <img key={index} src={url} alt={`Portfólio ${index + 1}`} className="aspect-square w-full rounded object-cover" />
+            ))}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-5"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <AppHeader />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-5xl">
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => (window.history.state?.idx > 0 ? navigate(-1) : navigate("/feed"))}
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar
+          </Button>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant={date ? "default" : "outline"}>
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {date ? `Livre em ${format(date, "dd/MM")}` : "Disponível em..."}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="single"
+                selected={date}
+                onSelect={setDate}
+                locale={ptBR}
+                disabled={{ before: new Date() }}
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        <h2 className="text-xl font-semibold mb-6">Comparar perfis</h2>
+
+        {profiles.length === 0 ? (
+          <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">
+                Selecione até {MAX_COMPARE_PROFILES} perfis no feed ou nos favoritos para comparar
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-border/50 backdrop-blur-sm bg-card/90 overflow-x-auto">
+            <Table className="table-fixed min-w-[640px]">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-36" />
+                  {profiles.map((profile) => (
+                    <TableHead key={profile.id} className="py-4 align-top">
+                      <div className="flex flex-col items-center gap-2 text-center">
+                        <div className="relative">
+                          <Avatar
+                            className="w-16 h-16 cursor-pointer"
+                            onClick={() => navigate(`/profile/${profile.id}`)}
+                          >
+                            <AvatarImage src={profile.avatar_url || undefined} />
+                            <AvatarFallback>{profile.full_name.substring(0, 2).toUpperCase()}</AvatarFallback>
+                          </Avatar>
+                          <Button
+                            size="icon"
+                            variant="secondary"
+                            className="absolute -top-1 -right-1 h-6 w-6 rounded-full"
+                            title="Remover da comparação"
+                            onClick={() => removeProfile(profile.id)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                        <span
+                          className="font-semibold text-foreground cursor-pointer hover:underline"
+                          onClick={() => navigate(`/profile/${profile.id}`)}
+                        >
+                          {profile.full_name}
+                        </span>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell className="font-medium text-muted-foreground align-top">{row.label}</TableCell>
+                    {profiles.map((profile) => (
+                      <TableCell key={profile.id} className="align-top text-sm">
+                        {row.render(profile)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
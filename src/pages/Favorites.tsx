@@ -0,0 +1,556 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import type { Tables } from "@/integrations/supabase/types";
+import { ArrowLeft, Columns3, MessageCircle, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import webPattern from "@/assets/web-pattern.jpg";
+import { CompareBar } from "@/components/CompareBar";
+import { AppHeader } from "@/components/AppHeader";
+import { MAX_COMPARE_PROFILES, compareUrl } from "@/lib/compare";
+import { z } from "zod";
+
+type FavoriteList = Tables<"favorite_lists">;
+
+type Favorite = Tables<"favorites"> & {
+  profile: {
+    id: string;
+    full_name: string;
+    avatar_url: string | null;
+    user_type: "artist" | "organizer";
+  } | null;
+  entries: { list_id: string }[];
+};
+
+const listNameSchema = z.string().trim().min(1, "Dê um nome para a lista").max(80, "Nome deve ter no máximo 80 caracteres");
+const tagSchema = z.string().trim().min(1).max(30, "Tag deve ter no máximo 30 caracteres");
+
+interface FavoriteCardProps {
+  favorite: Favorite;
+  lists: FavoriteList[];
+  selectedList: FavoriteList | null;
+  comparing: boolean;
+  onToggleCompare: (profileId: string) => void;
+  onUpdate: (favoriteId: string, changes: Pick<Partial<Favorite>, "notes" | "tags">) => void;
+  onRemove: (favorite: Favorite) => void;
+}
+
+const FavoriteCard = ({ favorite, lists, selectedList, comparing, onToggleCompare, onUpdate, onRemove }: FavoriteCardProps) => {
+  const navigate = useNavigate();
+  const [notes, setNotes] = useState(favorite.notes || "");
+  const [newTag, setNewTag] = useState("");
+
+  const saveNotes = () => {
+    if (notes === (favorite.notes || "")) return;
+    onUpdate(favorite.id, { notes: notes.trim() || null });
+  };
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const tag = tagSchema.parse(newTag);
+      if (!favorite.tags.includes(tag)) {
+        onUpdate(favorite.id, { tags: [...favorite.tags, tag] });
+      }
+      setNewTag("");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  if (!favorite.profile) return null;
+  const profile = favorite.profile;
+  const listNames = lists.filter((list) => favorite.entries.some((entry) => entry.list_id === list.id));
+
+  return (
+    <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+      <CardHeader className="pb-3">
+        <div className="flex items-start gap-4">
+          <Avatar
+            className="w-12 h-12 cursor-pointer"
+            onClick={() => navigate(`/profile/${profile.id}`)}
+          >
+            <AvatarImage src={profile.avatar_url || undefined} />
+            <AvatarFallback>{profile.full_name.substring(0, 2).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <CardTitle
+              className="text-lg cursor-pointer hover:underline"
+              onClick={() => navigate(`/profile/${profile.id}`)}
+            >
+              {profile.full_name}
+            </CardTitle>
+            <div className="flex flex-wrap gap-1 mt-1">
+              <Badge variant="secondary" className={profile.user_type === "artist"
+                ? "bg-artist/20 text-artist-foreground"
+                : "bg-organizer/20 text-organizer-foreground"}
+              >
+                {profile.user_type === "artist" ? "Artista" : "Contratante"}
+              </Badge>
+              {listNames.map((list) => (
+                <Badge key={list.id} variant="outline">{list.name}</Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-1">
+            {profile.user_type === "artist" && (
+              <Button
+                variant={comparing ? "secondary" : "ghost"}
+                size="icon"
+                title="Comparar"
+                onClick={() => onToggleCompare(profile.id)}
+              >
+                <Columns3 className="h-5 w-5" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/messages", { state: { userId: profile.id } })}
+            >
+              <MessageCircle className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              title={selectedList ? `Remover de "${selectedList.name}"` : "Remover dos favoritos"}
+              onClick={() => onRemove(favorite)}
+            >
+              <Trash2 className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          placeholder="Notas privadas (só você vê)..."
+          className="bg-background/50 min-h-[60px]"
+          maxLength={2000}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          {favorite.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <X
+                className="h-3 w-3 cursor-pointer"
+                onClick={() => onUpdate(favorite.id, { tags: favorite.tags.filter((t) => t !== tag) })}
+              />
+            </Badge>
+          ))}
+          <form onSubmit={addTag}>
+            <Input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              placeholder="+ tag"
+              className="h-7 w-24 text-xs bg-background/50"
+              maxLength={30}
+            />
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Favorites = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [lists, setLists] = useState<FavoriteList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState("");
+  const [renaming, setRenaming] = useState(false);
+  const [listName, setListName] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchFavorites();
+    }
+  }, [user]);
+
+  const fetchFavorites = async () => {
+    if (!user) return;
+
+    try {
+      const [{ data: favoritesData, error: favoritesError }, { data: listsData, error: listsError }] = await Promise.all([
+        supabase
+          .from("favorites")
+          .select("*, profile:profiles!favorited_user_id(id, full_name, avatar_url, user_type), entries:favorite_list_entries(list_id)")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("favorite_lists")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("name"),
+      ]);
+
+      if (favoritesError) throw favoritesError;
+      if (listsError) throw listsError;
+
+      setFavorites(favoritesData || []);
+      setLists(listsData || []);
+    } catch (error) {
+      console.error("Error fetching favorites:", error);
+      toast.error("Erro ao carregar favoritos");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    try {
+      const name = listNameSchema.parse(newListName);
+
+      const { data, error } = await supabase
+        .from("favorite_lists")
+        .insert({ user_id: user.id, name })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setLists(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedListId(data.id);
+      setNewListName("");
+      toast.success("Lista criada!");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error creating list:", error);
+        toast.error("Erro ao criar lista");
+      }
+    }
+  };
+
+  const renameList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedListId) return;
+
+    try {
+      const name = listNameSchema.parse(listName);
+
+      const { error } = await supabase
+        .from("favorite_lists")
+        .update({ name })
+        .eq("id", selectedListId);
+
+      if (error) throw error;
+
+      setLists(prev => prev
+        .map(list => list.id === selectedListId ? { ...list, name } : list)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setRenaming(false);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error renaming list:", error);
+        toast.error("Erro ao renomear lista");
+      }
+    }
+  };
+
+  const deleteList = async () => {
+    if (!selectedListId) return;
+
+    try {
+      const { error } = await supabase
+        .from("favorite_lists")
+        .delete()
+        .eq("id", selectedListId);
+
+      if (error) throw error;
+
+      setLists(prev => prev.filter(list => list.id !== selectedListId));
+      setFavorites(prev => prev.map(favorite => ({
+        ...favorite,
+        entries: favorite.entries.filter(entry => entry.list_id !== selectedListId),
+      })));
+      setSelectedListId(null);
+      toast.success("Lista excluída");
+    } catch (error) {
+      console.error("Error deleting list:", error);
+      toast.error("Erro ao excluir lista");
+    }
+  };
+
+  const updateFavorite = async (favoriteId: string, changes: Pick<Partial<Favorite>, "notes" | "tags">) => {
+    try {
+      const { error } = await supabase
+        .from("favorites")
+        .update(changes)
+        .eq("id", favoriteId);
+
+      if (error) throw error;
+
+      setFavorites(prev => prev.map(favorite => favorite.id === favoriteId ? { ...favorite, ...changes } : favorite));
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      toast.error("Erro ao salvar alterações");
+    }
+  };
+
+  // Inside a list this only takes the profile out of that list
+  const removeFavorite = async (favorite: Favorite) => {
+    try {
+      if (selectedListId) {
+        const { error } = await supabase
+          .from("favorite_list_entries")
+          .delete()
+          .eq("list_id", selectedListId)
+          .eq("favorite_id", favorite.id);
+
+        if (error) throw error;
+
+        setFavorites(prev => prev.map(f => f.id === favorite.id
+          ? { ...f, entries: f.entries.filter(entry => entry.list_id !== selectedListId) }
+          : f));
+        toast.success("Removido da lista");
+      } else {
+        const { error } = await supabase
+          .from("favorites")
+          .delete()
+          .eq("id", favorite.id);
+
+        if (error) throw error;
+
+        setFavorites(prev => prev.filter(f => f.id !== favorite.id));
+        toast.success("Removido dos favoritos");
+      }
+    } catch (error) {
+      console.error("Error removing favorite:", error);
+      toast.error("Erro ao atualizar favoritos");
+    }
+  };
+
+  const toggleCompare = (profileId: string) => {
+    if (compareIds.includes(profileId)) {
+      setCompareIds(prev => prev.filter(id => id !== profileId));
+    } else if (compareIds.length >= MAX_COMPARE_PROFILES) {
+      toast.error(`Compare até ${MAX_COMPARE_PROFILES} perfis por vez`);
+    } else {
+      setCompareIds(prev => [...prev, profileId]);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  const selectedList = lists.find(list => list.id === selectedListId) ?? null;
+  const allTags = [...new Set(favorites.flatMap(favorite => favorite.tags))].sort();
+  const visibleFavorites = favorites.filter(favorite =>
+    (!selectedListId || favorite.entries.some(entry => entry.list_id === selectedListId))
+    && (!selectedTag || favorite.tags.includes(selectedTag))
+  );
+  const listArtistIds = visibleFavorites
+    .filter(favorite => favorite.profile?.user_type === "artist")
+    .map(favorite => favorite.favorited_user_id);
+  const listCount = (listId: string) =>
+    favorites.filter(favorite => favorite.entries.some(entry => entry.list_id === listId)).length;
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-5"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <AppHeader />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" onClick={() => navigate("/feed")} className="mb-6">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Voltar
+        </Button>
+
+        <h2 className="text-xl font-semibold mb-6">Meus favoritos</h2>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Button
+            size="sm"
+            variant={selectedListId ? "outline" : "default"}
+            onClick={() => setSelectedListId(null)}
+          >
+            Todos ({favorites.length})
+          </Button>
+          {lists.map((list) => (
+            <Button
+              key={list.id}
+              size="sm"
+              variant={selectedListId === list.id ? "default" : "outline"}
+              onClick={() => {
+                setSelectedListId(list.id);
+                setRenaming(false);
+              }}
+            >
+              {list.name} ({listCount(list.id)})
+            </Button>
+          ))}
+          <form onSubmit={createList} className="flex gap-1">
+            <Input
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="Nova lista..."
+              className="h-9 w-40 bg-background/50"
+              maxLength={80}
+            />
+            <Button type="submit" size="icon" variant="outline">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        {selectedList && (
+          <div className="flex items-center gap-2 mb-4">
+            {renaming ? (
+              <form onSubmit={renameList} className="flex gap-2 flex-1">
+                <Input
+                  value={listName}
+                  onChange={(e) => setListName(e.target.value)}
+                  className="h-9 bg-background/50"
+                  maxLength={80}
+                  autoFocus
+                />
+                <Button type="submit" size="sm">Salvar</Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(false)}>
+                  Cancelar
+                </Button>
+              </form>
+            ) : (
+              <>
+                {listArtistIds.length >= 2 && listArtistIds.length <= MAX_COMPARE_PROFILES && (
+                  <Button size="sm" variant="ghost" onClick={() => navigate(compareUrl(listArtistIds))}>
+                    <Columns3 className="h-4 w-4 mr-2" />
+                    Comparar lista
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setListName(selectedList.name);
+                    setRenaming(true);
+                  }}
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Renomear
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="ghost" className="text-destructive">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Excluir lista
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Excluir "{selectedList.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Os perfis continuam nos seus favoritos e em outras listas.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction onClick={deleteList}>Excluir</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </div>
+        )}
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {allTags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={selectedTag === tag ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+              >
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {visibleFavorites.length === 0 ? (
+            <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+              <CardContent className="py-12 text-center">
+                <p className="text-muted-foreground">
+                  {selectedList ? "Nenhum perfil nesta lista" : "Nenhum favorito ainda"}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            visibleFavorites.map((favorite) => (
+              <FavoriteCard
+                key={favorite.id}
+                favorite={favorite}
+                lists={lists}
+                selectedList={selectedList}
+                comparing={compareIds.includes(favorite.favorited_user_id)}
+                onToggleCompare={toggleCompare}
+                onUpdate={updateFavorite}
+                onRemove={removeFavorite}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      <CompareBar profileIds={compareIds} onClear={() => setCompareIds([])} />
+    </div>
+  );
+};
+
+export default Favorites;
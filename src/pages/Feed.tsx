@@ -1,45 +1,201 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { LogOut, User, Heart, MessageCircle, Search, MapPin } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Heart, MessageCircle, Search, MapPin, CalendarDays, Columns3, Wallet } from "lucide-react";
 import { toast } from "sonner";
 import webPattern from "@/assets/web-pattern.jpg";
+import { AppHeader } from "@/components/AppHeader";
+import { GigCard } from "@/components/GigCard";
+import { StarRating } from "@/components/StarRating";
+import { SearchHighlight } from "@/components/SearchHighlight";
+import { CityCombobox, type City } from "@/components/CityCombobox";
+import { MatchBreakdown } from "@/components/MatchBreakdown";
+import { SavedSearchesPanel } from "@/components/SavedSearchesPanel";
+import { AddToListPopover } from "@/components/AddToListPopover";
+import { CompareBar } from "@/components/CompareBar";
+import { MAX_COMPARE_PROFILES } from "@/lib/compare";
+import { formatCurrency } from "@/lib/format";
+import { useFeedProfiles } from "@/hooks/useFeedProfiles";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
 
-interface ProfileData {
-  id: string;
-  full_name: string;
-  bio: string | null;
-  avatar_url: string | null;
-  user_type: "artist" | "organizer";
-  artist_profile?: {
-    artistic_branches: string[];
-    location?: string;
-  };
-  organizer_profile?: {
-    preferred_branches: string[];
-    company_name: string | null;
-    location?: string;
-  };
-}
+type ArtisticBranch = Database["public"]["Enums"]["artistic_branch"];
+
+const SCROLL_POSITION_KEY = "feed-scroll-position";
+
+const radiusOptions = [25, 50, 100, 200, 500];
+const DEFAULT_RADIUS_KM = "50";
+
+// URL filters that can be stored in a saved search
+const SAVED_FILTER_KEYS = ["q", "city", "radius", "branch", "rating", "budget"];
+
+const ProfileCardSkeleton = () => (
+  <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+    <CardHeader>
+      <div className="flex items-start gap-4">
+        <Skeleton className="w-16 h-16 rounded-full" />
+        <div className="flex-1 space-y-2">
+          <Skeleton className="h-5 w-1/2" />
+          <Skeleton className="h-4 w-1/3" />
+        </div>
+      </div>
+    </CardHeader>
+    <CardContent className="space-y-3">
+      <Skeleton className="h-4 w-full" />
+      <div className="flex gap-2">
+        <Skeleton className="h-5 w-16" />
+        <Skeleton className="h-5 w-20" />
+      </div>
+    </CardContent>
+  </Card>
+);
 
 const Feed = () => {
-  const { user, loading: authLoading, signOut } = useAuth();
+  const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
-  const [profiles, setProfiles] = useState<ProfileData[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [currentUserType, setCurrentUserType] = useState<"artist" | "organizer" | null>(null);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const [searchTerm, setSearchTerm] = useState("");
-  const [locationFilter, setLocationFilter] = useState("");
-  const [branchFilter, setBranchFilter] = useState("");
-  const [showOnlyFavorites, setShowOnlyFavorites] = useState(false);
+  const [openGigs, setOpenGigs] = useState<(Tables<"gigs"> & { organizer?: { full_name: string } | null })[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Filters live in the URL so coming back from a profile restores the same query
+  const searchTerm = searchParams.get("q") ?? "";
+  const cityParam = searchParams.get("city") ?? "";
+  const radiusKm = searchParams.get("radius") ?? DEFAULT_RADIUS_KM;
+  const branchFilter = searchParams.get("branch") ?? "";
+  const showOnlyFavorites = searchParams.get("favorites") === "1";
+  const dateParam = searchParams.get("date") ?? "";
+  const dateFilter = dateParam ? parseISO(dateParam) : undefined;
+  const minRating = searchParams.get("rating") ?? "";
+  const withinBudget = searchParams.get("budget") === "1";
+  // Best matches first, unless the user is searching for something specific
+  const sortParam = searchParams.get("sort") ?? (searchTerm ? "relevance" : "match");
+  // Distance sorting needs a reference city
+  const sortBy = sortParam === "distance" && !cityParam ? "relevance" : sortParam;
+
+  const setFilter = (key: string, value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const setSearchTerm = (value: string) => setFilter("q", value);
+  const setRadiusKm = (value: string) => setFilter("radius", value === DEFAULT_RADIUS_KM ? "" : value);
+  const setBranchFilter = (value: string) => setFilter("branch", value);
+  const setShowOnlyFavorites = (value: boolean) => setFilter("favorites", value ? "1" : "");
+  const setDateFilter = (value: Date | undefined) => setFilter("date", value ? format(value, "yyyy-MM-dd") : "");
+  const setMinRating = (value: string) => setFilter("rating", value);
+  const setWithinBudget = (value: boolean) => setFilter("budget", value ? "1" : "");
+  const setSortBy = (value: string) => setFilter("sort", value);
+
+  // Only the city id is kept in the URL; its name is looked up for the combobox
+  const [nearCity, setNearCity] = useState<City | null>(null);
+
+  const handleNearCityChange = (city: City | null) => {
+    setNearCity(city);
+    setFilter("city", city ? String(city.id) : "");
+  };
+
+  useEffect(() => {
+    if (!cityParam) {
+      setNearCity(null);
+      return;
+    }
+    if (nearCity?.id === Number(cityParam)) return;
+
+    const fetchCity = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("br_cities")
+          .select("id, name, state")
+          .eq("id", Number(cityParam))
+          .maybeSingle();
+
+        if (error) throw error;
+        setNearCity(data);
+      } catch (error) {
+        console.error("Error fetching city:", error);
+      }
+    };
+
+    fetchCity();
+  }, [cityParam]);
+
+  // Full-text search runs in the database, so wait for a pause in typing
+  const [searchInput, setSearchInput] = useState(searchTerm);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput !== searchTerm) {
+        setSearchTerm(searchInput);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const savedSearchFilters: Record<string, string> = Object.fromEntries(
+    SAVED_FILTER_KEYS.flatMap((key) => {
+      const value = searchParams.get(key);
+      return value ? [[key, value]] : [];
+    })
+  );
+  if (nearCity) {
+    savedSearchFilters.cityName = `${nearCity.name} - ${nearCity.state}`;
+  }
+
+  const applySavedSearch = (filters: Record<string, string>) => {
+    const next = new URLSearchParams();
+    SAVED_FILTER_KEYS.forEach((key) => {
+      if (filters[key]) next.set(key, filters[key]);
+    });
+    setSearchParams(next, { replace: true });
+    setSearchInput(filters.q ?? "");
+  };
+
+  const isOrganizer = currentUserType === "organizer";
+  const {
+    data,
+    error: profilesError,
+    isLoading: profilesLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useFeedProfiles(currentUserType ? user?.id : undefined, {
+    search: searchTerm,
+    nearCityId: cityParam ? Number(cityParam) : undefined,
+    radiusKm: cityParam ? Number(radiusKm) : undefined,
+    branch: isOrganizer && branchFilter && branchFilter !== "all" ? branchFilter as ArtisticBranch : undefined,
+    favoritesOnly: showOnlyFavorites,
+    availableOn: isOrganizer && dateParam ? dateParam : undefined,
+    minRating: minRating && minRating !== "any" ? Number(minRating) : undefined,
+    withinBudget: isOrganizer && withinBudget,
+    sort: sortBy,
+  });
+
+  const profiles = data?.pages.flat() ?? [];
+  const totalCount = data?.pages[0]?.[0]?.total_count ?? 0;
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -49,10 +205,48 @@ const Feed = () => {
 
   useEffect(() => {
     if (user) {
-      fetchProfiles();
+      fetchCurrentUserType();
       fetchFavorites();
     }
-  }, [user, navigate, searchTerm, locationFilter, branchFilter, showOnlyFavorites]);
+  }, [user, navigate]);
+
+  useEffect(() => {
+    if (profilesError) {
+      console.error("Error fetching profiles:", profilesError);
+      toast.error("Erro ao carregar perfis");
+    }
+  }, [profilesError]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Restore the scroll position saved when leaving for a profile
+  useEffect(() => {
+    if (!data) return;
+
+    const savedPosition = sessionStorage.getItem(SCROLL_POSITION_KEY);
+    if (savedPosition) {
+      sessionStorage.removeItem(SCROLL_POSITION_KEY);
+      window.scrollTo(0, Number(savedPosition));
+    }
+  }, [data]);
+
+  const openProfile = (profileId: string) => {
+    sessionStorage.setItem(SCROLL_POSITION_KEY, String(window.scrollY));
+    navigate(`/profile/${profileId}`);
+  };
 
   const fetchFavorites = async () => {
     if (!user) return;
@@ -71,11 +265,10 @@ const Feed = () => {
     }
   };
 
-  const fetchProfiles = async () => {
+  const fetchCurrentUserType = async () => {
     if (!user) return;
 
     try {
-      // Get current user profile
       const { data: currentProfile } = await supabase
         .from("profiles")
         .select("user_type")
@@ -89,99 +282,56 @@ const Feed = () => {
 
       setCurrentUserType(currentProfile.user_type);
 
-      // Fetch opposite type profiles
-      const targetType = currentProfile.user_type === "artist" ? "organizer" : "artist";
-      
-      let query = supabase
-        .from("profiles")
-        .select(`
-          id,
-          full_name,
-          bio,
-          avatar_url,
-          user_type,
-          artist_profiles (
-            artistic_branches,
-            location
-          ),
-          organizer_profiles (
-            preferred_branches,
-            company_name,
-            location
-          )
-        `)
-        .eq("user_type", targetType)
-        .neq("id", user.id);
-
-      if (searchTerm) {
-        query = query.ilike('full_name', `%${searchTerm}%`);
+      if (currentProfile.user_type === "artist") {
+        fetchOpenGigs();
       }
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      toast.error("Erro ao carregar perfil");
+    }
+  };
 
-      const { data, error } = await query.limit(20);
+  const fetchOpenGigs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("gigs")
+        .select("*, organizer:profiles!organizer_id(full_name)")
+        .eq("status", "open")
+        .gte("event_date", format(new Date(), "yyyy-MM-dd"))
+        .order("event_date", { ascending: true })
+        .limit(3);
 
       if (error) throw error;
-
-      let formattedData = data?.map(profile => ({
-        ...profile,
-        artist_profile: profile.artist_profiles?.[0],
-        organizer_profile: profile.organizer_profiles?.[0],
-      })) || [];
-
-      // Apply filters
-      if (locationFilter) {
-        formattedData = formattedData.filter(p => {
-          const location = p.artist_profile?.location || p.organizer_profile?.location;
-          return location?.toLowerCase().includes(locationFilter.toLowerCase());
-        });
-      }
-
-      if (branchFilter && branchFilter !== 'all' && currentProfile.user_type === 'organizer') {
-        formattedData = formattedData.filter(p =>
-          p.artist_profile?.artistic_branches?.includes(branchFilter)
-        );
-      }
-
-      // Apply favorites filter
-      if (showOnlyFavorites) {
-        formattedData = formattedData.filter(p => favorites.has(p.id));
-      }
-
-      setProfiles(formattedData);
-    } catch (error: any) {
-      toast.error(error.message || "Erro ao carregar perfis");
-    } finally {
-      setLoading(false);
+      setOpenGigs(data || []);
+    } catch (error) {
+      console.error('Error fetching gigs:', error);
     }
   };
 
-  const toggleFavorite = async (profileId: string) => {
+  const handleFavoriteChange = (profileId: string, isFavorite: boolean) => {
     if (!user) return;
 
-    try {
-      if (favorites.has(profileId)) {
-        await supabase
-          .from('favorites')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('favorited_user_id', profileId);
-        
-        setFavorites(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(profileId);
-          return newSet;
-        });
-        toast.success("Removido dos favoritos");
+    setFavorites(prev => {
+      const next = new Set(prev);
+      if (isFavorite) {
+        next.add(profileId);
       } else {
-        await supabase
-          .from('favorites')
-          .insert({ user_id: user.id, favorited_user_id: profileId });
-        
-        setFavorites(prev => new Set(prev).add(profileId));
-        toast.success("Adicionado aos favoritos!");
+        next.delete(profileId);
       }
-    } catch (error) {
-      console.error('Error toggling favorite:', error);
-      toast.error("Erro ao atualizar favoritos");
+      return next;
+    });
+
+    // The favorites-only list is cached, so drop it once its membership changes
+    queryClient.invalidateQueries({ queryKey: ["feed-profiles", user.id, { favoritesOnly: true }] });
+  };
+
+  const toggleCompare = (profileId: string) => {
+    if (compareIds.includes(profileId)) {
+      setCompareIds(prev => prev.filter(id => id !== profileId));
+    } else if (compareIds.length >= MAX_COMPARE_PROFILES) {
+      toast.error(`Compare até ${MAX_COMPARE_PROFILES} perfis por vez`);
+    } else {
+      setCompareIds(prev => [...prev, profileId]);
     }
   };
 
@@ -199,7 +349,7 @@ const Feed = () => {
     other: "Outro",
   };
 
-  if (authLoading || loading) {
+  if (authLoading || !currentUserType) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -221,67 +371,88 @@ const Feed = () => {
       />
 
       <div className="relative z-10">
-        {/* Header */}
-        <header className="border-b border-border/50 backdrop-blur-sm bg-card/50 sticky top-0 z-20">
-          <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-            <h1 className="text-2xl font-bold bg-gradient-to-r from-artist-glow to-organizer-glow bg-clip-text text-transparent">
-              EchoArachna
-            </h1>
-            <div className="flex items-center gap-4">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => navigate("/messages")}
-              >
-                <MessageCircle className="w-5 h-5" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => navigate("/profile")}
-              >
-                <User className="w-5 h-5" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={signOut}
-              >
-                <LogOut className="w-5 h-5" />
-              </Button>
-            </div>
-          </div>
-        </header>
+        <AppHeader />
 
         {/* Feed */}
         <main className="container mx-auto px-4 py-8">
           <div className="max-w-2xl mx-auto">
+            {currentUserType === "artist" && openGigs.length > 0 && (
+              <div className="mb-8 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Oportunidades abertas</h2>
+                  <Button variant="link" onClick={() => navigate("/gigs")}>
+                    Ver todas
+                  </Button>
+                </div>
+                {openGigs.map((gig) => (
+                  <GigCard
+                    key={gig.id}
+                    gig={gig}
+                    organizerName={gig.organizer?.full_name}
+                    onClick={() => navigate(`/gigs/${gig.id}`)}
+                    actions={
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => navigate("/messages", { state: { userId: gig.organizer_id } })}
+                      >
+                        <MessageCircle className="h-5 w-5" />
+                      </Button>
+                    }
+                  />
+                ))}
+              </div>
+            )}
+
             <div className="mb-6 space-y-4">
-              <h2 className="text-xl font-semibold">
-                {currentUserType === "artist" 
-                  ? "Organizadores que podem te contratar" 
-                  : "Artistas disponíveis"}
-              </h2>
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-xl font-semibold">
+                  {currentUserType === "artist" 
+                    ? "Organizadores que podem te contratar" 
+                    : "Artistas disponíveis"}
+                </h2>
+                {user && (
+                  <SavedSearchesPanel
+                    userId={user.id}
+                    currentFilters={savedSearchFilters}
+                    onApply={applySavedSearch}
+                    onOpenProfile={openProfile}
+                  />
+                )}
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {totalCount} {totalCount === 1 ? "perfil encontrado" : "perfis encontrados"}
+              </p>
 
               <div className="flex gap-2 flex-wrap items-center">
                 <div className="relative flex-1 min-w-[200px]">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Buscar por nome..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10"
-                  />
-                </div>
-                <div className="relative w-40">
-                  <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Localização..."
-                    value={locationFilter}
-                    onChange={(e) => setLocationFilter(e.target.value)}
+                    placeholder="Buscar por nome, habilidade, empresa..."
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
                     className="pl-10"
                   />
                 </div>
+                <CityCombobox
+                  value={nearCity}
+                  onChange={handleNearCityChange}
+                  placeholder="Perto de..."
+                  className="w-48"
+                />
+                {cityParam && (
+                  <Select value={radiusKm} onValueChange={setRadiusKm}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover z-50">
+                      {radiusOptions.map((radius) => (
+                        <SelectItem key={radius} value={String(radius)}>Até {radius} km</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 {currentUserType === 'organizer' && (
                   <Select value={branchFilter} onValueChange={setBranchFilter}>
                     <SelectTrigger className="w-48">
@@ -295,6 +466,57 @@ const Feed = () => {
                     </SelectContent>
                   </Select>
                 )}
+                {currentUserType === 'organizer' && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant={dateFilter ? "default" : "outline"}>
+                        <CalendarDays className="h-4 w-4 mr-2" />
+                        {dateFilter ? `Livre em ${format(dateFilter, "dd/MM")}` : "Disponível em..."}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="end">
+                      <Calendar
+                        mode="single"
+                        selected={dateFilter}
+                        onSelect={setDateFilter}
+                        locale={ptBR}
+                        disabled={{ before: new Date() }}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                )}
+                <Select value={minRating} onValueChange={setMinRating}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Avaliação mínima" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover z-50">
+                    <SelectItem value="any">Qualquer nota</SelectItem>
+                    <SelectItem value="3">3+ estrelas</SelectItem>
+                    <SelectItem value="4">4+ estrelas</SelectItem>
+                    <SelectItem value="4.5">4,5+ estrelas</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={sortBy} onValueChange={setSortBy}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover z-50">
+                    <SelectItem value="match">Mais compatíveis</SelectItem>
+                    <SelectItem value="relevance">Relevância</SelectItem>
+                    <SelectItem value="rating">Melhor avaliados</SelectItem>
+                    {cityParam && <SelectItem value="distance">Mais próximos</SelectItem>}
+                  </SelectContent>
+                </Select>
+                {currentUserType === 'organizer' && (
+                  <Button
+                    variant={withinBudget ? "default" : "outline"}
+                    onClick={() => setWithinBudget(!withinBudget)}
+                    title="Artistas cujo menor preço cabe na sua faixa de orçamento"
+                  >
+                    <Wallet className="h-4 w-4 mr-2" />
+                    No meu orçamento
+                  </Button>
+                )}
                 <Button
                   variant={showOnlyFavorites ? "default" : "outline"}
                   onClick={() => setShowOnlyFavorites(!showOnlyFavorites)}
@@ -307,7 +529,13 @@ const Feed = () => {
             </div>
 
             <div className="space-y-4">
-              {profiles.length === 0 ? (
+              {profilesLoading ? (
+                <>
+                  <ProfileCardSkeleton />
+                  <ProfileCardSkeleton />
+                  <ProfileCardSkeleton />
+                </>
+              ) : profiles.length === 0 ? (
                 <Card className="border-border/50 backdrop-blur-sm bg-card/90">
                   <CardContent className="py-12 text-center">
                     <p className="text-muted-foreground">
@@ -320,8 +548,16 @@ const Feed = () => {
                   <Card 
                     key={profile.id} 
                     className="border-border/50 backdrop-blur-sm bg-card/90 hover:border-accent transition-all cursor-pointer"
-                    onClick={() => navigate(`/profile/${profile.id}`)}
+                    onClick={() => openProfile(profile.id)}
                   >
+                    {profile.cover_url && (
+                      <img
+                        src={profile.cover_url}
+                        alt={`Capa de ${profile.full_name}`}
+                        loading="lazy"
+                        className="h-40 w-full object-cover rounded-t-lg"
+                      />
+                    )}
                     <CardHeader>
                       <div className="flex items-start gap-4">
                         <Avatar className="w-16 h-16">
@@ -334,25 +570,46 @@ const Feed = () => {
                           <CardTitle className="text-lg">
                             {profile.full_name}
                           </CardTitle>
-                          {profile.organizer_profile?.company_name && (
+                          {profile.company_name && (
                             <CardDescription>
-                              {profile.organizer_profile.company_name}
+                              {profile.company_name}
                             </CardDescription>
                           )}
+                          {profile.average_rating != null && (
+                            <div className="flex items-center gap-1.5 mt-1">
+                              <StarRating value={profile.average_rating} />
+                              <span className="text-xs text-muted-foreground">
+                                {profile.average_rating.toFixed(1)} ({profile.review_count})
+                              </span>
+                            </div>
+                          )}
+                          {profile.match_breakdown && (
+                            <div className="mt-1.5">
+                              <MatchBreakdown breakdown={profile.match_breakdown} />
+                            </div>
+                          )}
+                          {profile.starting_price != null && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              A partir de {formatCurrency(profile.starting_price, profile.currency ?? "BRL")}
+                            </p>
+                          )}
+                          {profile.location && (
+                            <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                              <MapPin className="h-3 w-3" />
+                              {profile.location}
+                              {profile.distance_km != null && ` · a ${Math.round(profile.distance_km)} km`}
+                            </p>
+                          )}
                         </div>
                         <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleFavorite(profile.id);
-                            }}
-                          >
-                            <Heart
-                              className={`h-5 w-5 ${favorites.has(profile.id) ? 'fill-artist text-artist' : ''}`}
+                          {user && (
+                            <AddToListPopover
+                              userId={user.id}
+                              profileId={profile.id}
+                              isFavorite={favorites.has(profile.id)}
+                              onFavoriteChange={(isFavorite) => handleFavoriteChange(profile.id, isFavorite)}
                             />
-                          </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -363,18 +620,32 @@ const Feed = () => {
                           >
                             <MessageCircle className="h-5 w-5" />
                           </Button>
+                          {isOrganizer && (
+                            <Button
+                              variant={compareIds.includes(profile.id) ? "secondary" : "ghost"}
+                              size="icon"
+                              title="Comparar"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleCompare(profile.id);
+                              }}
+                            >
+                              <Columns3 className="h-5 w-5" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     </CardHeader>
                     <CardContent>
-                      {profile.bio && (
+                      {(profile.bio || profile.headline) && (
                         <p className="text-sm text-muted-foreground mb-3">
-                          {profile.bio}
+                          <SearchHighlight text={profile.headline} fallback={profile.bio} />
                         </p>
                       )}
                       <div className="flex flex-wrap gap-2">
-                        {(profile.artist_profile?.artistic_branches || 
-                          profile.organizer_profile?.preferred_branches || [])
+                        {(profile.user_type === "artist"
+                          ? profile.artistic_branches
+                          : profile.preferred_branches)
                           .map((branch) => (
                           <Badge 
                             key={branch} 
@@ -391,9 +662,23 @@ const Feed = () => {
                   </Card>
                 ))
               )}
+
+              {isFetchingNextPage && (
+                <>
+                  <ProfileCardSkeleton />
+                  <ProfileCardSkeleton />
+                </>
+              )}
+              <div ref={loadMoreRef} />
             </div>
           </div>
         </main>
+
+        <CompareBar
+          profileIds={compareIds}
+          date={isOrganizer && dateParam ? dateParam : undefined}
+          onClear={() => setCompareIds([])}
+        />
       </div>
     </div>
   );
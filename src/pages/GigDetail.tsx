@@ -0,0 +1,436 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GigCard } from "@/components/GigCard";
+import { PortfolioItemView } from "@/components/PortfolioItemView";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { ArrowLeft, MessageCircle, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import webPattern from "@/assets/web-pattern.jpg";
+import { z } from "zod";
+import { applicationStatusClasses, applicationStatuses, applicationStatusLabels } from "@/lib/constants";
+import { toPortfolioItems, toPortfolioJson, type PortfolioItem } from "@/lib/portfolio";
+
+type ApplicationStatus = Database["public"]["Enums"]["application_status"];
+
+type Gig = Tables<"gigs"> & {
+  organizer?: { full_name: string } | null;
+};
+
+type Application = Tables<"gig_applications"> & {
+  artist?: { full_name: string; avatar_url: string | null } | null;
+};
+
+const pitchSchema = z.object({
+  pitch: z.string().trim().min(10, "Conte um pouco mais sobre você (mínimo 10 caracteres)").max(1000),
+});
+
+export default function GigDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [gig, setGig] = useState<Gig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [userType, setUserType] = useState<"artist" | "organizer" | null>(null);
+
+  // Organizer pipeline
+  const [applications, setApplications] = useState<Application[]>([]);
+
+  // Artist application
+  const [myApplication, setMyApplication] = useState<Application | null>(null);
+  const [myPortfolio, setMyPortfolio] = useState<PortfolioItem[]>([]);
+  const [pitch, setPitch] = useState("");
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && id) {
+      fetchGig();
+    }
+  }, [id, user]);
+
+  const fetchGig = async () => {
+    if (!user || !id) return;
+
+    try {
+      const { data: currentProfile } = await supabase
+        .from("profiles")
+        .select("user_type")
+        .eq("id", user.id)
+        .single();
+
+      setUserType(currentProfile?.user_type ?? null);
+
+      const { data: gigData, error } = await supabase
+        .from("gigs")
+        .select("*, organizer:profiles!organizer_id(full_name)")
+        .eq("id", id)
+        .single();
+
+      if (error) throw error;
+      setGig(gigData);
+
+      if (gigData.organizer_id === user.id) {
+        const { data: applicationsData, error: applicationsError } = await supabase
+          .from("gig_applications")
+          .select("*, artist:profiles!artist_id(full_name, avatar_url)")
+          .eq("gig_id", id)
+          .order("created_at", { ascending: true });
+
+        if (applicationsError) throw applicationsError;
+        setApplications(applicationsData || []);
+      } else if (currentProfile?.user_type === "artist") {
+        const { data: applicationData } = await supabase
+          .from("gig_applications")
+          .select("*")
+          .eq("gig_id", id)
+          .eq("artist_id", user.id)
+          .maybeSingle();
+
+        setMyApplication(applicationData);
+
+        const { data: artistProfile } = await supabase
+          .from("artist_profiles")
+          .select("portfolio_items")
+          .eq("profile_id", user.id)
+          .maybeSingle();
+
+        setMyPortfolio(toPortfolioItems(artistProfile?.portfolio_items ?? null));
+      }
+    } catch (error) {
+      console.error("Error fetching gig:", error);
+      toast.error("Erro ao carregar oportunidade");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleItem = (url: string) => {
+    setSelectedItems((prev) =>
+      prev.includes(url)
+        ? prev.filter((item) => item !== url)
+        : [...prev, url]
+    );
+  };
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !id) return;
+
+    try {
+      const validatedData = pitchSchema.parse({ pitch });
+
+      setSubmitting(true);
+
+      const { data, error } = await supabase
+        .from("gig_applications")
+        .insert({
+          gig_id: id,
+          artist_id: user.id,
+          pitch: validatedData.pitch,
+          portfolio_items: toPortfolioJson(myPortfolio.filter((item) => selectedItems.includes(item.url))),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setMyApplication(data);
+      toast.success("Candidatura enviada!");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error("Error applying to gig:", error);
+        toast.error("Erro ao enviar candidatura");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!myApplication) return;
+
+    try {
+      const { error } = await supabase
+        .from("gig_applications")
+        .delete()
+        .eq("id", myApplication.id);
+
+      if (error) throw error;
+
+      setMyApplication(null);
+      toast.success("Candidatura retirada");
+    } catch (error) {
+      console.error("Error withdrawing application:", error);
+      toast.error("Erro ao retirar candidatura");
+    }
+  };
+
+  const updateStatus = async (applicationId: string, status: ApplicationStatus) => {
+    try {
+      const { error } = await supabase
+        .from("gig_applications")
+        .update({ status })
+        .eq("id", applicationId);
+
+      if (error) throw error;
+
+      setApplications(prev => prev.map(a => a.id === applicationId ? { ...a, status } : a));
+      toast.success(`Candidatura movida para "${applicationStatusLabels[status]}"`);
+    } catch (error) {
+      console.error("Error updating application:", error);
+      toast.error("Erro ao atualizar candidatura");
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  if (!gig) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Oportunidade não encontrada</p>
+      </div>
+    );
+  }
+
+  const isOwner = gig.organizer_id === user?.id;
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <Button variant="ghost" onClick={() => navigate("/gigs")}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Voltar
+        </Button>
+
+        <GigCard
+          gig={gig}
+          organizerName={isOwner ? undefined : gig.organizer?.full_name}
+          actions={isOwner ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate(`/gigs/${gig.id}/edit`)}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/messages", { state: { userId: gig.organizer_id } })}
+            >
+              <MessageCircle className="h-5 w-5" />
+            </Button>
+          )}
+        />
+
+        {isOwner && (
+          <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+            <CardHeader>
+              <CardTitle>Candidaturas</CardTitle>
+              <CardDescription>
+                Mova os artistas pelas etapas. Cada mudança é enviada ao artista por mensagem.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="applied">
+                <TabsList className="grid grid-cols-2 sm:grid-cols-4 h-auto">
+                  {applicationStatuses.map((status) => (
+                    <TabsTrigger key={status.id} value={status.id}>
+                      {status.label} ({applications.filter(a => a.status === status.id).length})
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+
+                {applicationStatuses.map((status) => {
+                  const stageApplications = applications.filter(a => a.status === status.id);
+
+                  return (
+                    <TabsContent key={status.id} value={status.id} className="space-y-4">
+                      {stageApplications.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">
+                          Nenhuma candidatura nesta etapa
+                        </p>
+                      ) : (
+                        stageApplications.map((application) => (
+                          <div
+                            key={application.id}
+                            className="p-4 rounded-lg bg-muted/20 border border-border/30 space-y-3"
+                          >
+                            <div className="flex items-center gap-3">
+                              <Avatar
+                                className="cursor-pointer"
+                                onClick={() => navigate(`/profile/${application.artist_id}`)}
+                              >
+                                <AvatarImage src={application.artist?.avatar_url || undefined} />
+                                <AvatarFallback>
+                                  {application.artist?.full_name.substring(0, 2).toUpperCase()}
+                                </AvatarFallback>
+                              </Avatar>
+                              <button
+                                className="flex-1 text-left font-medium hover:underline"
+                                onClick={() => navigate(`/profile/${application.artist_id}`)}
+                              >
+                                {application.artist?.full_name}
+                              </button>
+                              <Select
+                                value={application.status}
+                                onValueChange={(value) => updateStatus(application.id, value as ApplicationStatus)}
+                              >
+                                <SelectTrigger className="w-48">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-popover z-50">
+                                  {applicationStatuses.map((option) => (
+                                    <SelectItem key={option.id} value={option.id}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => navigate("/messages", { state: { userId: application.artist_id } })}
+                              >
+                                <MessageCircle className="h-5 w-5" />
+                              </Button>
+                            </div>
+                            <p className="text-sm text-muted-foreground whitespace-pre-line">
+                              {application.pitch}
+                            </p>
+                            {toPortfolioItems(application.portfolio_items).length > 0 && (
+                              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 items-start">
+                                {toPortfolioItems(application.portfolio_items).map((item, index) => (
+                                  <PortfolioItemView key={index} item={item} index={index} />
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </TabsContent>
+                  );
+                })}
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
+
+        {userType === "artist" && (
+          <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+            <CardHeader>
+              <CardTitle className="text-artist-glow">
+                {myApplication ? "Sua candidatura" : "Candidatar-se"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {myApplication ? (
+                <div className="space-y-4">
+                  <Badge variant="secondary" className={applicationStatusClasses[myApplication.status]}>
+                    {applicationStatusLabels[myApplication.status]}
+                  </Badge>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">
+                    {myApplication.pitch}
+                  </p>
+                  {myApplication.status === "applied" && (
+                    <Button variant="outline" onClick={handleWithdraw}>
+                      Retirar candidatura
+                    </Button>
+                  )}
+                </div>
+              ) : gig.status === "closed" ? (
+                <p className="text-muted-foreground">
+                  Esta oportunidade não está mais recebendo candidaturas
+                </p>
+              ) : (
+                <form onSubmit={handleApply} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="pitch">Apresentação</Label>
+                    <Textarea
+                      id="pitch"
+                      value={pitch}
+                      onChange={(e) => setPitch(e.target.value)}
+                      placeholder="Por que você é a escolha certa para este evento?"
+                      className="bg-background/50 min-h-[120px]"
+                      maxLength={1000}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {pitch.length}/1000 caracteres
+                    </p>
+                  </div>
+
+                  {myPortfolio.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Itens do portfólio para anexar</Label>
+                      <div className="grid grid-cols-3 gap-4">
+                        {myPortfolio.map((item, index) => (
+                          <label
+                            key={item.url}
+                            className={`relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-colors ${
+                              selectedItems.includes(item.url) ? "border-artist" : "border-transparent"
+                            }`}
+                          >
+                            <PortfolioItemView item={item} index={index} variant="tile" />
+                            <Checkbox
+                              checked={selectedItems.includes(item.url)}
+                              onCheckedChange={() => handleToggleItem(item.url)}
+                              className="absolute top-2 left-2 bg-background"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <Button
+                    type="submit"
+                    variant="artist"
+                    className="w-full"
+                    disabled={submitting}
+                  >
+                    {submitting ? "Enviando..." : "Enviar Candidatura"}
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
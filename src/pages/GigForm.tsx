@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Database } from "@/integrations/supabase/types";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "sonner";
+import webPattern from "@/assets/web-pattern.jpg";
+import { z } from "zod";
+import { artisticBranches, eventTypes } from "@/lib/constants";
+
+type ArtisticBranch = Database["public"]["Enums"]["artistic_branch"];
+
+const gigSchema = z.object({
+  title: z.string().trim().min(3, "Título deve ter no mínimo 3 caracteres").max(120),
+  description: z.string().trim().max(2000).optional(),
+  event_type: z.string().min(1, "Selecione o tipo de evento"),
+  event_date: z.string().min(1, "Informe a data do evento"),
+  venue: z.string().trim().max(120).optional(),
+  location: z.string().trim().max(100).optional(),
+  budget: z.string().trim().refine(
+    (value) => value === "" || (!isNaN(Number(value)) && Number(value) >= 0),
+    "Orçamento inválido"
+  ),
+});
+
+const GigForm = () => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = !!id;
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(isEditing);
+  const [saving, setSaving] = useState(false);
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [eventType, setEventType] = useState("");
+  const [eventDate, setEventDate] = useState("");
+  const [venue, setVenue] = useState("");
+  const [location, setLocation] = useState("");
+  const [budget, setBudget] = useState("");
+  const [requiredBranches, setRequiredBranches] = useState<ArtisticBranch[]>([]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    const fetchGig = async () => {
+      if (!user || !id) return;
+
+      try {
+        const { data, error } = await supabase
+          .from("gigs")
+          .select("*")
+          .eq("id", id)
+          .eq("organizer_id", user.id)
+          .single();
+
+        if (error) throw error;
+
+        setTitle(data.title);
+        setDescription(data.description || "");
+        setEventType(data.event_type);
+        setEventDate(data.event_date);
+        setVenue(data.venue || "");
+        setLocation(data.location || "");
+        setBudget(data.budget !== null ? String(data.budget) : "");
+        setRequiredBranches(data.required_branches);
+      } catch (error) {
+        console.error("Error fetching gig:", error);
+        toast.error("Erro ao carregar oportunidade");
+        navigate("/gigs");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchGig();
+  }, [id, user, navigate]);
+
+  const handleToggleBranch = (branchId: ArtisticBranch) => {
+    setRequiredBranches((prev) =>
+      prev.includes(branchId)
+        ? prev.filter((branch) => branch !== branchId)
+        : [...prev, branchId]
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    try {
+      const validatedData = gigSchema.parse({
+        title,
+        description,
+        event_type: eventType,
+        event_date: eventDate,
+        venue,
+        location,
+        budget,
+      });
+
+      setSaving(true);
+
+      const gig = {
+        title: validatedData.title,
+        description: validatedData.description || null,
+        event_type: validatedData.event_type,
+        event_date: validatedData.event_date,
+        venue: validatedData.venue || null,
+        location: validatedData.location || null,
+        budget: validatedData.budget ? Number(validatedData.budget) : null,
+        required_branches: requiredBranches,
+      };
+
+      const { error } = isEditing
+        ? await supabase.from("gigs").update(gig).eq("id", id)
+        : await supabase.from("gigs").insert({ ...gig, organizer_id: user.id });
+
+      if (error) throw error;
+
+      toast.success(isEditing ? "Oportunidade atualizada!" : "Oportunidade publicada!");
+      navigate("/gigs");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao salvar oportunidade");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate("/gigs")}
+          className="mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Voltar
+        </Button>
+
+        <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+          <CardHeader>
+            <CardTitle className="text-organizer-glow">
+              {isEditing ? "Editar Oportunidade" : "Nova Oportunidade"}
+            </CardTitle>
+            <CardDescription>
+              Descreva o evento para que artistas possam encontrar sua oportunidade
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSave}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">Título</Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Banda para festa de casamento"
+                  className="bg-background/50"
+                  maxLength={120}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="eventType">Tipo de Evento</Label>
+                <Select value={eventType || undefined} onValueChange={setEventType}>
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue placeholder="Selecione o tipo de evento" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eventTypes.map((event) => (
+                      <SelectItem key={event.id} value={event.id}>
+                        {event.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="eventDate">Data</Label>
+                  <Input
+                    id="eventDate"
+                    type="date"
+                    value={eventDate}
+                    onChange={(e) => setEventDate(e.target.value)}
+                    className="bg-background/50"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="budget">Orçamento em R$ (opcional)</Label>
+                  <Input
+                    id="budget"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={budget}
+                    onChange={(e) => setBudget(e.target.value)}
+                    placeholder="1500"
+                    className="bg-background/50"
+                  />
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="venue">Local do Evento (opcional)</Label>
+                  <Input
+                    id="venue"
+                    value={venue}
+                    onChange={(e) => setVenue(e.target.value)}
+                    placeholder="Espaço Villa Lobos"
+                    className="bg-background/50"
+                    maxLength={120}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="location">Cidade (opcional)</Label>
+                  <Input
+                    id="location"
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    placeholder="São Paulo, SP"
+                    className="bg-background/50"
+                    maxLength={100}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Descrição (opcional)</Label>
+                <Textarea
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Horários, estrutura disponível, público esperado..."
+                  className="bg-background/50 min-h-[120px]"
+                  maxLength={2000}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Ramos Artísticos Procurados</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {artisticBranches.map((branch) => (
+                    <label
+                      key={branch.id}
+                      htmlFor={`gig-branch-${branch.id}`}
+                      className="flex items-center space-x-2 p-2 rounded-lg border border-border/50 hover:border-organizer-glow/50 transition-colors cursor-pointer"
+                    >
+                      <Checkbox
+                        id={`gig-branch-${branch.id}`}
+                        checked={requiredBranches.includes(branch.id)}
+                        onCheckedChange={() => handleToggleBranch(branch.id)}
+                      />
+                      <span className="flex-1 text-sm">
+                        {branch.label}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                variant="organizer"
+                className="w-full"
+                disabled={saving}
+              >
+                {saving ? "Salvando..." : isEditing ? "Salvar Alterações" : "Publicar Oportunidade"}
+              </Button>
+            </CardContent>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default GigForm;
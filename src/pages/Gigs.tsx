@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { GigCard } from "@/components/GigCard";
+import { AppHeader } from "@/components/AppHeader";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { ArrowLeft, Plus, Pencil, Lock, LockOpen, Trash2, MessageCircle } from "lucide-react";
+import { toast } from "sonner";
+import webPattern from "@/assets/web-pattern.jpg";
+import { applicationStatusClasses, applicationStatusLabels, artisticBranches } from "@/lib/constants";
+import { format } from "date-fns";
+
+type ArtisticBranch = Database["public"]["Enums"]["artistic_branch"];
+
+type Gig = Tables<"gigs"> & {
+  organizer?: { full_name: string } | null;
+  gig_applications?: { count: number }[];
+};
+
+type MyApplication = Tables<"gig_applications"> & {
+  gig: Gig | null;
+};
+
+const Gigs = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [gigs, setGigs] = useState<Gig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userType, setUserType] = useState<"artist" | "organizer" | null>(null);
+  const [branchFilter, setBranchFilter] = useState("");
+  const [myApplications, setMyApplications] = useState<MyApplication[]>([]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchGigs();
+    }
+  }, [user, branchFilter]);
+
+  const fetchGigs = async () => {
+    if (!user) return;
+
+    try {
+      const { data: currentProfile } = await supabase
+        .from("profiles")
+        .select("user_type")
+        .eq("id", user.id)
+        .single();
+
+      if (!currentProfile) {
+        navigate("/");
+        return;
+      }
+
+      setUserType(currentProfile.user_type);
+
+      let query = supabase
+        .from("gigs")
+        .select("*, organizer:profiles!organizer_id(full_name), gig_applications(count)");
+
+      if (currentProfile.user_type === "organizer") {
+        query = query
+          .eq("organizer_id", user.id)
+          .order("event_date", { ascending: false });
+      } else {
+        query = query
+          .eq("status", "open")
+          .gte("event_date", format(new Date(), "yyyy-MM-dd"))
+          .order("event_date", { ascending: true });
+
+        if (branchFilter && branchFilter !== "all") {
+          query = query.contains("required_branches", [branchFilter as ArtisticBranch]);
+        }
+
+        const { data: applicationsData, error: applicationsError } = await supabase
+          .from("gig_applications")
+          .select("*, gig:gigs(*, organizer:profiles!organizer_id(full_name))")
+          .eq("artist_id", user.id)
+          .order("created_at", { ascending: false });
+
+        if (applicationsError) throw applicationsError;
+        setMyApplications(applicationsData || []);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setGigs(data || []);
+    } catch (error) {
+      console.error("Error fetching gigs:", error);
+      toast.error("Erro ao carregar oportunidades");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleStatus = async (gig: Gig) => {
+    const status = gig.status === "open" ? "closed" : "open";
+
+    try {
+      const { error } = await supabase
+        .from("gigs")
+        .update({ status })
+        .eq("id", gig.id);
+
+      if (error) throw error;
+
+      setGigs(prev => prev.map(g => g.id === gig.id ? { ...g, status } : g));
+      toast.success(status === "closed" ? "Oportunidade encerrada" : "Oportunidade reaberta");
+    } catch (error) {
+      console.error("Error updating gig status:", error);
+      toast.error("Erro ao atualizar oportunidade");
+    }
+  };
+
+  const deleteGig = async (gigId: string) => {
+    try {
+      const { error } = await supabase
+        .from("gigs")
+        .delete()
+        .eq("id", gigId);
+
+      if (error) throw error;
+
+      setGigs(prev => prev.filter(g => g.id !== gigId));
+      toast.success("Oportunidade removida");
+    } catch (error) {
+      console.error("Error deleting gig:", error);
+      toast.error("Erro ao remover oportunidade");
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  const isOrganizer = userType === "organizer";
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-5"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <AppHeader />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <Button variant="ghost" onClick={() => navigate("/feed")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Voltar
+          </Button>
+
+          {isOrganizer && (
+            <Button variant="organizer" onClick={() => navigate("/gigs/new")}>
+              <Plus className="w-4 h-4" />
+              Nova Oportunidade
+            </Button>
+          )}
+        </div>
+
+        {isOrganizer ? (
+          <>
+            <h2 className="text-xl font-semibold mb-6">Minhas oportunidades</h2>
+            <div className="space-y-4">
+              {gigs.length === 0 ? (
+                <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+                  <CardContent className="py-12 text-center">
+                    <p className="text-muted-foreground">
+                      Você ainda não publicou nenhuma oportunidade
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                gigs.map((gig) => (
+                  <GigCard
+                    key={gig.id}
+                    gig={gig}
+                    onClick={() => navigate(`/gigs/${gig.id}`)}
+                    actions={
+                      <>
+                        <Badge variant="outline">
+                          {gig.gig_applications?.[0]?.count ?? 0} candidaturas
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => navigate(`/gigs/${gig.id}/edit`)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => toggleStatus(gig)}
+                        >
+                          {gig.status === "open" ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Remover oportunidade</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Tem certeza que deseja remover "{gig.title}"? Esta ação não pode ser desfeita.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteGig(gig.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Remover
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    }
+                  />
+                ))
+              )}
+            </div>
+          </>
+        ) : (
+          <Tabs defaultValue="open">
+            <TabsList className="mb-6">
+              <TabsTrigger value="open">Oportunidades abertas</TabsTrigger>
+              <TabsTrigger value="applications">
+                Minhas candidaturas ({myApplications.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="open" className="space-y-4">
+              <Select value={branchFilter} onValueChange={setBranchFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Ramo artístico" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="all">Todos</SelectItem>
+                  {artisticBranches.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>{branch.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {gigs.length === 0 ? (
+                <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+                  <CardContent className="py-12 text-center">
+                    <p className="text-muted-foreground">
+                      Nenhuma oportunidade aberta no momento
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                gigs.map((gig) => (
+                  <GigCard
+                    key={gig.id}
+                    gig={gig}
+                    organizerName={gig.organizer?.full_name}
+                    onClick={() => navigate(`/gigs/${gig.id}`)}
+                    actions={
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => navigate("/messages", { state: { userId: gig.organizer_id } })}
+                      >
+                        <MessageCircle className="h-5 w-5" />
+                      </Button>
+                    }
+                  />
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="applications" className="space-y-4">
+              {myApplications.length === 0 ? (
+                <Card className="border-border/50 backdrop-blur-sm bg-card/90">
+                  <CardContent className="py-12 text-center">
+                    <p className="text-muted-foreground">
+                      Você ainda não se candidatou a nenhuma oportunidade
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                myApplications.filter((application) => application.gig).map((application) => (
+                  <GigCard
+                    key={application.id}
+                    gig={application.gig!}
+                    organizerName={application.gig!.organizer?.full_name}
+                    onClick={() => navigate(`/gigs/${application.gig_id}`)}
+                    actions={
+                      <Badge variant="secondary" className={applicationStatusClasses[application.status]}>
+                        {applicationStatusLabels[application.status]}
+                      </Badge>
+                    }
+                  />
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Gigs;
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,6 +9,7 @@ import { toast } from "sonner";
 import { ArrowLeft } from "lucide-react";
 import { z } from "zod";
 import webPattern from "@/assets/web-pattern.jpg";
+import { safeNext } from "@/lib/share";
 
 const loginSchema = z.object({
   email: z.string().trim().email({ message: "Email inválido" }).max(255),
@@ -17,6 +18,8 @@ const loginSchema = z.object({
 
 const Login = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const next = safeNext(searchParams.get("next"));
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
@@ -43,7 +46,7 @@ const Login = () => {
       }
 
       toast.success("Login realizado com sucesso!");
-      navigate("/feed");
+      navigate(next ?? "/feed");
     } catch (error) {
       if (error instanceof z.ZodError) {
         toast.error(error.errors[0].message);
@@ -1,13 +1,26 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useConversationChannel } from "@/hooks/useConversationChannel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { ArrowLeft, Send } from "lucide-react";
+import { ArrowLeft, Send, FileSignature, Paperclip, X, Check, CheckCheck } from "lucide-react";
 import { toast } from "sonner";
+import { BookingProposalCard } from "@/components/BookingProposalCard";
+import { BookingProposalDialog } from "@/components/BookingProposalDialog";
+import { MessageAttachmentView } from "@/components/MessageAttachmentView";
+import { AppHeader } from "@/components/AppHeader";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { ATTACHMENT_ACCEPT, ATTACHMENTS_BUCKET, attachmentPath, validateAttachment } from "@/lib/attachments";
+import { formatFileSize } from "@/lib/format";
+
+type ProposalStatus = Database["public"]["Enums"]["proposal_status"];
+
+const MESSAGES_PAGE_SIZE = 30;
+const MESSAGE_SELECT = '*, sender:profiles!sender_id(full_name, avatar_url), proposal:booking_proposals(*)';
 
 interface Message {
   id: string;
@@ -15,14 +28,25 @@ interface Message {
   receiver_id: string;
   content: string;
   read: boolean;
+  read_at?: string | null;
   created_at: string;
+  message_type: string;
+  proposal_id: string | null;
+  proposal?: Tables<"booking_proposals"> | null;
+  attachment_path?: string | null;
+  attachment_name?: string | null;
+  attachment_type?: string | null;
+  attachment_size?: number | null;
   sender?: {
     full_name: string;
     avatar_url?: string;
   };
+  // Set on optimistic messages until the insert comes back
+  pending?: boolean;
 }
 
 interface Conversation {
+  id: string;
   userId: string;
   userName: string;
   userAvatar?: string;
@@ -30,14 +54,36 @@ interface Conversation {
   unreadCount: number;
 }
 
+type Recipient = Pick<Conversation, "userId" | "userName" | "userAvatar">;
+
 export default function Messages() {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+  const [draftRecipient, setDraftRecipient] = useState<Recipient | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [newMessage, setNewMessage] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
   const [loading, setLoading] = useState(true);
+  const [proposalDialogOpen, setProposalDialogOpen] = useState(false);
+  const [counterOf, setCounterOf] = useState<Tables<"booking_proposals"> | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Distance from the bottom to restore after older messages are prepended
+  const scrollAnchor = useRef<number | null>(null);
+  const stickToBottom = useRef(true);
+  // Notifications link to /messages?conversation=<id>; opened once the inbox has loaded
+  const linkedConversationId = useRef(searchParams.get("conversation"));
+  // Message buttons elsewhere navigate here with the other user's id in the route state
+  const linkedUserId = useRef<string | null>((location.state as { userId?: string } | null)?.userId ?? null);
+  // Set while writing the first message to someone; their thread opens once it exists
+  const draftUserId = useRef<string | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -46,37 +92,47 @@ export default function Messages() {
     }
 
     fetchConversations();
-    setupRealtimeSubscription();
+    return subscribeToInbox();
   }, [user, navigate]);
 
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    if (scrollAnchor.current !== null) {
+      container.scrollTop = container.scrollHeight - scrollAnchor.current;
+      scrollAnchor.current = null;
+    } else if (stickToBottom.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [messages]);
+
   const fetchConversations = async () => {
     try {
-      const { data: messagesData, error } = await supabase
-        .from('messages')
-        .select('*, sender:profiles!sender_id(full_name, avatar_url), receiver:profiles!receiver_id(full_name, avatar_url)')
-        .or(`sender_id.eq.${user?.id},receiver_id.eq.${user?.id}`)
-        .order('created_at', { ascending: false });
+      const { data, error } = await supabase.rpc('get_conversations');
 
       if (error) throw error;
 
-      const conversationMap = new Map<string, Conversation>();
-      
-      messagesData?.forEach((msg: any) => {
-        const otherUserId = msg.sender_id === user?.id ? msg.receiver_id : msg.sender_id;
-        const otherUser = msg.sender_id === user?.id ? msg.receiver : msg.sender;
-        
-        if (!conversationMap.has(otherUserId)) {
-          conversationMap.set(otherUserId, {
-            userId: otherUserId,
-            userName: otherUser.full_name,
-            userAvatar: otherUser.avatar_url,
-            lastMessage: msg.content,
-            unreadCount: msg.receiver_id === user?.id && !msg.read ? 1 : 0
-          });
-        }
-      });
+      const inbox = (data || []).map((conv) => ({
+        id: conv.id,
+        userId: conv.other_user_id,
+        userName: conv.other_full_name,
+        userAvatar: conv.other_avatar_url ?? undefined,
+        lastMessage: conv.last_message_content ?? "",
+        unreadCount: conv.unread_count
+      }));
+      setConversations(inbox);
 
-      setConversations(Array.from(conversationMap.values()));
+      const recipientId = draftUserId.current ?? linkedUserId.current;
+      const linked = inbox.find((conv) => conv.id === linkedConversationId.current || conv.userId === recipientId);
+      const newRecipientId = linkedUserId.current;
+      linkedUserId.current = null;
+      if (linked) {
+        linkedConversationId.current = null;
+        openConversation(linked);
+      } else if (newRecipientId) {
+        startConversation(newRecipientId);
+      }
     } catch (error) {
       console.error('Error fetching conversations:', error);
       toast.error("Erro ao carregar conversas");
@@ -85,46 +141,133 @@ export default function Messages() {
     }
   };
 
-  const fetchMessages = async (otherUserId: string) => {
+  const openConversation = (conv: Conversation) => {
+    draftUserId.current = null;
+    setDraftRecipient(null);
+    setSelectedConversation(conv.userId);
+    setSelectedConversationId(conv.id);
+    fetchMessages(conv.id);
+  };
+
+  // No conversation exists yet; the first message sent creates it
+  const startConversation = async (userId: string) => {
+    if (userId === user?.id) return;
+
     try {
       const { data, error } = await supabase
-        .from('messages')
-        .select('*, sender:profiles!sender_id(full_name, avatar_url)')
-        .or(`and(sender_id.eq.${user?.id},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${user?.id})`)
-        .order('created_at', { ascending: true });
+        .from('profiles')
+        .select('full_name, avatar_url')
+        .eq('id', userId)
+        .single();
 
       if (error) throw error;
-      setMessages(data || []);
 
-      // Mark as read
-      await supabase
+      draftUserId.current = userId;
+      setDraftRecipient({ userId, userName: data.full_name, userAvatar: data.avatar_url ?? undefined });
+      setSelectedConversation(userId);
+      setSelectedConversationId(null);
+      setMessages([]);
+      setHasOlder(false);
+    } catch (error) {
+      console.error('Error starting conversation:', error);
+      toast.error("Erro ao abrir conversa");
+    }
+  };
+
+  // Loads the latest page of the thread; older pages come from loadOlderMessages
+  const fetchMessages = async (conversationId: string) => {
+    try {
+      const { data, error } = await supabase
         .from('messages')
-        .update({ read: true })
-        .eq('receiver_id', user?.id)
-        .eq('sender_id', otherUserId);
+        .select(MESSAGE_SELECT)
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(MESSAGES_PAGE_SIZE);
+
+      if (error) throw error;
+      stickToBottom.current = true;
+      setMessages((data || []).reverse());
+      setHasOlder((data || []).length === MESSAGES_PAGE_SIZE);
+
+      // Mark as read; the inbox refreshes from the participant row update
+      const { error: readError } = await supabase.rpc('mark_conversation_read', {
+        _conversation_id: conversationId
+      });
+
+      if (readError) throw readError;
     } catch (error) {
       console.error('Error fetching messages:', error);
     }
   };
 
-  const setupRealtimeSubscription = () => {
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!selectedConversationId || !oldest || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      // Keyset on (created_at, id) so messages sharing a timestamp are neither skipped nor repeated
+      const { data, error } = await supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('conversation_id', selectedConversationId)
+        .or(`created_at.lt."${oldest.created_at}",and(created_at.eq."${oldest.created_at}",id.lt.${oldest.id})`)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(MESSAGES_PAGE_SIZE);
+
+      if (error) throw error;
+
+      const container = scrollRef.current;
+      if (container) scrollAnchor.current = container.scrollHeight - container.scrollTop;
+      setMessages(prev => [...(data || []).reverse(), ...prev]);
+      setHasOlder((data || []).length === MESSAGES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+      toast.error("Erro ao carregar mensagens anteriores");
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const refreshProposal = async (proposalId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('booking_proposals')
+        .select('*')
+        .eq('id', proposalId)
+        .single();
+
+      if (error) throw error;
+
+      setMessages(prev => prev.map(msg => msg.proposal_id === proposalId ? { ...msg, proposal: data } : msg));
+    } catch (error) {
+      console.error('Error fetching proposal:', error);
+    }
+  };
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    stickToBottom.current = container.scrollHeight - container.scrollTop - container.clientHeight < 80;
+    if (container.scrollTop < 80 && hasOlder) loadOlderMessages();
+  };
+
+  // Participant rows change whenever one of the user's threads gets a message or is read
+  const subscribeToInbox = () => {
     const channel = supabase
-      .channel('messages')
+      .channel(`inbox:${user?.id}`)
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
-          table: 'messages',
-          filter: `receiver_id=eq.${user?.id}`
+          table: 'conversation_participants',
+          filter: `user_id=eq.${user?.id}`
         },
-        (payload) => {
-          const newMsg = payload.new as Message;
-          if (selectedConversation === newMsg.sender_id) {
-            setMessages(prev => [...prev, newMsg]);
-          }
-          fetchConversations();
-        }
+        () => fetchConversations()
       )
       .subscribe();
 
@@ -133,25 +276,155 @@ export default function Messages() {
     };
   };
 
+  const handleLiveInsert = async (row: Tables<"messages">) => {
+    try {
+      // Realtime payloads carry no joins, so load the sender and any proposal card
+      const { data, error } = await supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('id', row.id)
+        .single();
+
+      if (error) throw error;
+
+      setMessages(prev => prev.some(msg => msg.id === data.id) ? prev : [...prev, data]);
+
+      if (data.receiver_id === user?.id) {
+        const { error: readError } = await supabase.rpc('mark_conversation_read', {
+          _conversation_id: row.conversation_id!
+        });
+
+        if (readError) throw readError;
+      }
+    } catch (error) {
+      console.error('Error loading new message:', error);
+    }
+  };
+
+  const handleLiveUpdate = (row: Tables<"messages">) => {
+    setMessages(prev => prev.map(msg => msg.id === row.id ? { ...msg, read: row.read, read_at: row.read_at } : msg));
+  };
+
+  const { otherOnline, otherTyping, notifyTyping, stopTyping } = useConversationChannel(
+    selectedConversationId,
+    user?.id,
+    { onInsert: handleLiveInsert, onUpdate: handleLiveUpdate }
+  );
+
+  const respondToProposal = async (proposalId: string, response: ProposalStatus) => {
+    try {
+      const { error } = await supabase.rpc('respond_to_booking_proposal', {
+        _proposal_id: proposalId,
+        _response: response
+      });
+
+      if (error) throw error;
+
+      toast.success(response === 'accepted' ? "Proposta aceita! Contratação confirmada." : "Proposta recusada");
+      refreshProposal(proposalId);
+    } catch (error) {
+      // 23P01: the artist already has a confirmed booking overlapping these hours
+      if ((error as { code?: string }).code === '23P01') {
+        toast.error("O artista já tem uma contratação confirmada nesse horário");
+      } else {
+        console.error('Error responding to proposal:', error);
+        toast.error("Erro ao responder proposta");
+      }
+    }
+  };
+
+  const openProposalDialog = (proposal: Tables<"booking_proposals"> | null) => {
+    setCounterOf(proposal);
+    setProposalDialogOpen(true);
+  };
+
+  const handleAttachmentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const problem = validateAttachment(file);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    setAttachment(file);
+  };
+
   const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedConversation) return;
+    const content = newMessage.trim();
+    const file = attachment;
+    if ((!content && !file) || !selectedConversation || !user) return;
+    // Attachments are stored under the conversation, so a new thread starts with text
+    if (file && !selectedConversationId) return;
 
+    // Show the message right away and swap in the stored row once the insert returns
+    const pendingId = `pending-${crypto.randomUUID()}`;
+    const attachmentFields = file && {
+      attachment_path: attachmentPath(selectedConversationId!, file),
+      attachment_name: file.name.slice(0, 255),
+      attachment_type: file.type,
+      attachment_size: file.size
+    };
+    stickToBottom.current = true;
+    setMessages(prev => [...prev, {
+      id: pendingId,
+      sender_id: user.id,
+      receiver_id: selectedConversation,
+      // Attachments without a caption show their file name in the inbox
+      content: content || file!.name,
+      read: false,
+      created_at: new Date().toISOString(),
+      message_type: file ? 'attachment' : 'text',
+      proposal_id: null,
+      ...attachmentFields,
+      pending: true
+    }]);
+    setNewMessage("");
+    setAttachment(null);
+    stopTyping();
+
+    let uploaded = false;
     try {
-      const { error } = await supabase
+      if (attachmentFields) {
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .upload(attachmentFields.attachment_path, file!, { contentType: file!.type });
+
+        if (uploadError) throw uploadError;
+        uploaded = true;
+      }
+
+      const { data, error } = await supabase
         .from('messages')
         .insert({
-          sender_id: user?.id,
+          sender_id: user.id,
           receiver_id: selectedConversation,
-          content: newMessage.trim()
-        });
+          content: content || file!.name,
+          message_type: file ? 'attachment' : 'text',
+          ...attachmentFields
+        })
+        .select(MESSAGE_SELECT)
+        .single();
 
       if (error) throw error;
 
-      setNewMessage("");
-      fetchMessages(selectedConversation);
+      // The live insert may have landed first
+      setMessages(prev => prev.some(msg => msg.id === data.id)
+        ? prev.filter(msg => msg.id !== pendingId)
+        : prev.map(msg => msg.id === pendingId ? data : msg));
+
+      // The first message created the conversation; switch the draft over to it
+      if (!selectedConversationId) fetchConversations();
     } catch (error) {
       console.error('Error sending message:', error);
       toast.error("Erro ao enviar mensagem");
+      if (uploaded) {
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove([attachmentFields!.attachment_path]);
+      }
+      setMessages(prev => prev.filter(msg => msg.id !== pendingId));
+      setNewMessage(content);
+      setAttachment(file);
     }
   };
 
@@ -161,9 +434,13 @@ export default function Messages() {
     </div>;
   }
 
+  const activeConversation = conversations.find((conv) => conv.id === selectedConversationId) ?? draftRecipient;
+
   return (
-    <div className="min-h-screen bg-background">
-      <div className="container mx-auto p-4 h-screen flex flex-col">
+    <div className="h-screen bg-background flex flex-col">
+      <AppHeader />
+
+      <div className="container mx-auto p-4 flex-1 min-h-0 flex flex-col">
         <div className="flex items-center gap-4 mb-4">
           <Button variant="ghost" onClick={() => navigate("/feed")}>
             <ArrowLeft className="h-5 w-5" />
@@ -176,11 +453,8 @@ export default function Messages() {
             <h2 className="font-semibold mb-4">Conversas</h2>
             {conversations.map((conv) => (
               <button
-                key={conv.userId}
-                onClick={() => {
-                  setSelectedConversation(conv.userId);
-                  fetchMessages(conv.userId);
-                }}
+                key={conv.id}
+                onClick={() => openConversation(conv)}
                 className={`w-full flex items-center gap-3 p-3 rounded-lg hover:bg-accent transition-colors ${
                   selectedConversation === conv.userId ? 'bg-accent' : ''
                 }`}
@@ -205,32 +479,125 @@ export default function Messages() {
           <Card className="md:col-span-2 p-4 flex flex-col">
             {selectedConversation ? (
               <>
-                <div className="flex-1 overflow-y-auto mb-4 space-y-4">
+                <div className="border-b border-border pb-3 mb-3">
+                  <p className="font-semibold">{activeConversation?.userName}</p>
+                  <p className="text-xs text-muted-foreground h-4">
+                    {otherTyping ? "digitando…" : otherOnline ? "online" : ""}
+                  </p>
+                </div>
+
+                <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto mb-4 space-y-4">
+                  {loadingOlder && (
+                    <p className="text-center text-xs text-muted-foreground">Carregando mensagens anteriores...</p>
+                  )}
                   {messages.map((msg) => (
                     <div
                       key={msg.id}
                       className={`flex ${msg.sender_id === user?.id ? 'justify-end' : 'justify-start'}`}
                     >
-                      <div
-                        className={`max-w-[70%] p-3 rounded-lg ${
-                          msg.sender_id === user?.id
-                            ? 'bg-primary text-primary-foreground'
-                            : 'bg-muted'
-                        }`}
-                      >
-                        <p>{msg.content}</p>
-                        <p className="text-xs opacity-70 mt-1">
-                          {new Date(msg.created_at).toLocaleTimeString()}
-                        </p>
-                      </div>
+                      {msg.message_type === 'booking_proposal' && msg.proposal ? (
+                        <BookingProposalCard
+                          proposal={msg.proposal}
+                          isReceiver={msg.proposal.receiver_id === user?.id}
+                          onAccept={() => respondToProposal(msg.proposal!.id, 'accepted')}
+                          onDecline={() => respondToProposal(msg.proposal!.id, 'declined')}
+                          onCounter={() => openProposalDialog(msg.proposal!)}
+                        />
+                      ) : (
+                        <div
+                          className={`max-w-[70%] p-3 rounded-lg ${
+                            msg.sender_id === user?.id
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted'
+                          } ${msg.pending ? 'opacity-60' : ''}`}
+                        >
+                          {msg.message_type === 'attachment' && msg.attachment_path && (
+                            msg.pending ? (
+                              <p className="flex items-center gap-2 text-sm">
+                                <Paperclip className="h-4 w-4" />
+                                {msg.attachment_name}
+                              </p>
+                            ) : (
+                              <MessageAttachmentView
+                                attachment={{
+                                  attachment_path: msg.attachment_path,
+                                  attachment_name: msg.attachment_name!,
+                                  attachment_type: msg.attachment_type!,
+                                  attachment_size: msg.attachment_size!
+                                }}
+                              />
+                            )
+                          )}
+                          {(msg.message_type !== 'attachment' || msg.content !== msg.attachment_name) && (
+                            <p className={msg.message_type === 'attachment' ? 'mt-2' : ''}>{msg.content}</p>
+                          )}
+                          <p className="text-xs opacity-70 mt-1 flex items-center gap-1">
+                            {msg.pending ? "Enviando..." : new Date(msg.created_at).toLocaleTimeString()}
+                            {msg.sender_id === user?.id && !msg.pending && (
+                              msg.read ? (
+                                <span title={msg.read_at ? `Lida às ${new Date(msg.read_at).toLocaleTimeString()}` : "Lida"}>
+                                  <CheckCheck className="h-3.5 w-3.5" />
+                                </span>
+                              ) : (
+                                <span title="Entregue">
+                                  <Check className="h-3.5 w-3.5" />
+                                </span>
+                              )
+                            )}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
 
+                {attachment && (
+                  <div className="flex items-center gap-2 mb-2 p-2 rounded-md bg-muted text-sm">
+                    <Paperclip className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{attachment.name}</span>
+                    <span className="text-muted-foreground shrink-0">{formatFileSize(attachment.size)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 ml-auto shrink-0"
+                      onClick={() => setAttachment(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+
                 <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => openProposalDialog(null)}
+                  >
+                    <FileSignature className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!selectedConversationId}
+                    title={selectedConversationId ? "Anexar arquivo" : "Envie uma mensagem antes de anexar arquivos"}
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ATTACHMENT_ACCEPT}
+                    onChange={handleAttachmentChange}
+                    className="hidden"
+                  />
                   <Input
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => {
+                      setNewMessage(e.target.value);
+                      if (e.target.value) notifyTyping();
+                      else stopTyping();
+                    }}
                     placeholder="Digite sua mensagem..."
                     onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
                   />
@@ -238,6 +605,15 @@ export default function Messages() {
                     <Send className="h-4 w-4" />
                   </Button>
                 </div>
+
+                <BookingProposalDialog
+                  open={proposalDialogOpen}
+                  onOpenChange={setProposalDialogOpen}
+                  senderId={user!.id}
+                  receiverId={selectedConversation}
+                  counterOf={counterOf}
+                  onSent={() => counterOf && refreshProposal(counterOf.id)}
+                />
               </>
             ) : (
               <div className="flex-1 flex items-center justify-center text-muted-foreground">
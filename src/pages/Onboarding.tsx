@@ -9,56 +9,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
+import { artisticBranches, budgetRanges, eventFrequencies, eventTypes } from "@/lib/constants";
+import { safeNext } from "@/lib/share";
 import webPattern from "@/assets/web-pattern.jpg";
 
-const artisticBranches = [
-  { id: "music", label: "Música" },
-  { id: "dance", label: "Dança" },
-  { id: "theater", label: "Teatro" },
-  { id: "visual_arts", label: "Artes Visuais" },
-  { id: "circus", label: "Circo" },
-  { id: "magic", label: "Mágica" },
-  { id: "comedy", label: "Comédia" },
-  { id: "dj", label: "DJ" },
-  { id: "live_painting", label: "Pintura ao Vivo" },
-  { id: "performance", label: "Performance" },
-  { id: "other", label: "Outro" },
-];
-
-const eventTypes = [
-  { id: "corporate", label: "Eventos Corporativos" },
-  { id: "wedding", label: "Casamentos" },
-  { id: "birthday", label: "Aniversários" },
-  { id: "festival", label: "Festivais" },
-  { id: "concert", label: "Shows/Concertos" },
-  { id: "private_party", label: "Festas Privadas" },
-  { id: "cultural", label: "Eventos Culturais" },
-  { id: "sports", label: "Eventos Esportivos" },
-  { id: "conference", label: "Conferências" },
-  { id: "other", label: "Outro" },
-];
-
-const budgetRanges = [
-  { id: "up_to_1k", label: "Até R$ 1.000" },
-  { id: "1k_5k", label: "R$ 1.000 - R$ 5.000" },
-  { id: "5k_10k", label: "R$ 5.000 - R$ 10.000" },
-  { id: "10k_25k", label: "R$ 10.000 - R$ 25.000" },
-  { id: "25k_50k", label: "R$ 25.000 - R$ 50.000" },
-  { id: "above_50k", label: "Acima de R$ 50.000" },
-];
-
-const eventFrequencies = [
-  { id: "weekly", label: "Semanalmente" },
-  { id: "monthly", label: "Mensalmente" },
-  { id: "quarterly", label: "Trimestralmente" },
-  { id: "yearly", label: "Anualmente" },
-  { id: "occasional", label: "Ocasionalmente" },
-];
-
 const Onboarding = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const userType = searchParams.get("type") as "artist" | "organizer" | null;
+  const next = safeNext(searchParams.get("next"));
   const { user, loading: authLoading } = useAuth();
   
   // Artist state
@@ -140,7 +99,7 @@ const Onboarding = () => {
       }
 
       toast.success("Perfil configurado com sucesso!");
-      navigate("/feed");
+      navigate(next ?? "/feed");
     } catch (error: any) {
       toast.error(error.message || "Erro ao configurar perfil");
     } finally {
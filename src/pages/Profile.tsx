@@ -29,58 +29,23 @@ import webPattern from "@/assets/web-pattern.jpg";
 import { z } from "zod";
 import { AvatarUpload } from "@/components/AvatarUpload";
 import { PortfolioUpload } from "@/components/PortfolioUpload";
+import { toPortfolioItems, type PortfolioItem } from "@/lib/portfolio";
+import { AvailabilityCalendar } from "@/components/AvailabilityCalendar";
+import { RateCard } from "@/components/RateCard";
+import { EpkDialog } from "@/components/EpkDialog";
+import { PublicPageCard } from "@/components/PublicPageCard";
+import { CityCombobox, type City } from "@/components/CityCombobox";
+import { AppHeader } from "@/components/AppHeader";
+import { artisticBranches, budgetRanges, eventFrequencies, eventTypes } from "@/lib/constants";
 
 const profileSchema = z.object({
   full_name: z.string().trim().min(2, "Nome deve ter no mínimo 2 caracteres").max(100),
   pronouns: z.string().trim().max(50).optional(),
   bio: z.string().trim().max(500).optional(),
   phone: z.string().trim().max(20).optional(),
+  travel_radius_km: z.number().int("Distância deve ser um número inteiro").min(0).max(5000, "Distância máxima de 5000 km").nullable(),
 });
 
-const artisticBranches: { id: ArtisticBranch; label: string }[] = [
-  { id: "music", label: "Música" },
-  { id: "dance", label: "Dança" },
-  { id: "theater", label: "Teatro" },
-  { id: "visual_arts", label: "Artes Visuais" },
-  { id: "circus", label: "Circo" },
-  { id: "magic", label: "Mágica" },
-  { id: "comedy", label: "Comédia" },
-  { id: "dj", label: "DJ" },
-  { id: "live_painting", label: "Pintura ao Vivo" },
-  { id: "performance", label: "Performance" },
-  { id: "other", label: "Outro" },
-];
-
-const eventTypes = [
-  { id: "corporate", label: "Eventos Corporativos" },
-  { id: "wedding", label: "Casamentos" },
-  { id: "birthday", label: "Aniversários" },
-  { id: "festival", label: "Festivais" },
-  { id: "concert", label: "Shows/Concertos" },
-  { id: "private_party", label: "Festas Privadas" },
-  { id: "cultural", label: "Eventos Culturais" },
-  { id: "sports", label: "Eventos Esportivos" },
-  { id: "conference", label: "Conferências" },
-  { id: "other", label: "Outro" },
-];
-
-const budgetRanges = [
-  { id: "up_to_1k", label: "Até R$ 1.000" },
-  { id: "1k_5k", label: "R$ 1.000 - R$ 5.000" },
-  { id: "5k_10k", label: "R$ 5.000 - R$ 10.000" },
-  { id: "10k_25k", label: "R$ 10.000 - R$ 25.000" },
-  { id: "25k_50k", label: "R$ 25.000 - R$ 50.000" },
-  { id: "above_50k", label: "Acima de R$ 50.000" },
-];
-
-const eventFrequencies = [
-  { id: "weekly", label: "Semanalmente" },
-  { id: "monthly", label: "Mensalmente" },
-  { id: "quarterly", label: "Trimestralmente" },
-  { id: "yearly", label: "Anualmente" },
-  { id: "occasional", label: "Ocasionalmente" },
-];
-
 const Profile = () => {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
@@ -93,11 +58,13 @@ const Profile = () => {
   const [phone, setPhone] = useState("");
   const [userType, setUserType] = useState<"artist" | "organizer" | null>(null);
   const [avatarUrl, setAvatarUrl] = useState<string>("");
-  const [portfolioItems, setPortfolioItems] = useState<string[]>([]);
+  const [portfolioItems, setPortfolioItems] = useState<PortfolioItem[]>([]);
   const [selectedArtisticBranches, setSelectedArtisticBranches] = useState<ArtisticBranch[]>([]);
 
   // Shared fields
   const [location, setLocation] = useState("");
+  const [city, setCity] = useState<City | null>(null);
+  const [travelRadiusKm, setTravelRadiusKm] = useState("");
 
   // Organizer fields
   const [selectedEventTypes, setSelectedEventTypes] = useState<string[]>([]);
@@ -137,27 +104,25 @@ const Profile = () => {
         if (data?.user_type === 'artist') {
           const { data: artistProfile } = await supabase
             .from("artist_profiles")
-            .select("portfolio_items, artistic_branches, location")
+            .select("portfolio_items, artistic_branches, location, travel_radius_km, city:br_cities(id, name, state)")
             .eq("profile_id", user.id)
             .maybeSingle();
 
           if (artistProfile) {
-            if (artistProfile.portfolio_items && Array.isArray(artistProfile.portfolio_items)) {
-              setPortfolioItems(
-                artistProfile.portfolio_items.map((item: any) => item.url || item)
-              );
-            }
+            setPortfolioItems(toPortfolioItems(artistProfile.portfolio_items));
             if (Array.isArray(artistProfile.artistic_branches)) {
               setSelectedArtisticBranches(artistProfile.artistic_branches);
             }
             setLocation(artistProfile.location || "");
+            setCity(artistProfile.city);
+            setTravelRadiusKm(artistProfile.travel_radius_km?.toString() || "");
           }
         }
 
         if (data?.user_type === 'organizer') {
           const { data: organizerProfile } = await supabase
             .from("organizer_profiles")
-            .select("*")
+            .select("*, city:br_cities(id, name, state)")
             .eq("profile_id", user.id)
             .maybeSingle();
 
@@ -167,6 +132,7 @@ const Profile = () => {
             setEventFrequency(typeof organizerProfile.event_frequency === 'string' ? organizerProfile.event_frequency : "");
             setCompanyName(typeof organizerProfile.company_name === 'string' ? organizerProfile.company_name : "");
             setLocation(organizerProfile.location || "");
+            setCity(organizerProfile.city);
           }
         }
       } catch (error: any) {
@@ -204,7 +170,8 @@ const Profile = () => {
         full_name: fullName, 
         pronouns, 
         bio,
-        phone 
+        phone,
+        travel_radius_km: travelRadiusKm ? Number(travelRadiusKm) : null,
       });
 
       setSaving(true);
@@ -221,6 +188,10 @@ const Profile = () => {
 
       if (error) throw error;
 
+      // Keep the display text in sync with the chosen city; profiles that haven't
+      // picked one yet keep their old free-text location
+      const cityLocation = city ? `${city.name} - ${city.state}` : location || null;
+
       // Update organizer profile if applicable
       if (userType === "organizer") {
         const { error: organizerError } = await supabase
@@ -230,7 +201,8 @@ const Profile = () => {
             budget_range: budgetRange || null,
             event_frequency: eventFrequency || null,
             company_name: companyName || null,
-            location: location || null,
+            city_id: city?.id ?? null,
+            location: cityLocation,
           })
           .eq("profile_id", user.id);
 
@@ -243,7 +215,9 @@ const Profile = () => {
           .from("artist_profiles")
           .update({
             artistic_branches: selectedArtisticBranches,
-            location: location || null,
+            city_id: city?.id ?? null,
+            location: cityLocation,
+            travel_radius_km: validatedData.travel_radius_km,
           })
           .eq("profile_id", user.id);
 
@@ -281,6 +255,8 @@ const Profile = () => {
         }}
       />
 
+      <AppHeader />
+
       <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
         <Button
           variant="ghost"
@@ -367,17 +343,40 @@ const Profile = () => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="location">Localização (opcional)</Label>
-                <Input
-                  id="location"
-                  value={location}
-                  onChange={(e) => setLocation(e.target.value)}
-                  placeholder="São Paulo, SP"
-                  className="bg-background/50"
-                  maxLength={100}
+                <Label>Cidade (opcional)</Label>
+                <CityCombobox
+                  value={city}
+                  onChange={setCity}
+                  placeholder="Selecione sua cidade"
+                  className="w-full"
                 />
+                {!city && location && (
+                  <p className="text-xs text-muted-foreground">
+                    Localização atual: {location}. Selecione a cidade para aparecer nas buscas por distância.
+                  </p>
+                )}
               </div>
 
+              {userType === "artist" && (
+                <div className="space-y-2">
+                  <Label htmlFor="travelRadius">Distância máxima de deslocamento em km (opcional)</Label>
+                  <Input
+                    id="travelRadius"
+                    type="number"
+                    min={0}
+                    max={5000}
+                    value={travelRadiusKm}
+                    onChange={(e) => setTravelRadiusKm(e.target.value)}
+                    placeholder="Ex: 200"
+                    className="bg-background/50"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Você aparece para contratantes de cidades até essa distância da sua.
+                  </p>
+                </div>
+              )}
+
+
               <div className="space-y-2">
                 <Label htmlFor="bio">Bio (opcional)</Label>
                 <Textarea
@@ -547,6 +546,54 @@ const Profile = () => {
             </CardContent>
           </form>
         </Card>
+
+        {userType === "artist" && (
+          <Card className="mt-6 border-border/50 backdrop-blur-sm bg-card/90">
+            <CardHeader>
+              <CardTitle className="text-lg">Valores</CardTitle>
+              <CardDescription>
+                Informe quanto cobra e monte pacotes para os contratantes compararem com o orçamento deles.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RateCard artistId={user!.id} editable />
+            </CardContent>
+          </Card>
+        )}
+
+        {userType === "artist" && (
+          <Card className="mt-6 border-border/50 backdrop-blur-sm bg-card/90">
+            <CardHeader>
+              <CardTitle className="text-lg">Press kit</CardTitle>
+              <CardDescription>
+                Baixe um PDF com seu perfil, portfólio e valores para enviar a casas de show e produtores.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EpkDialog artistId={user!.id} />
+            </CardContent>
+          </Card>
+        )}
+
+        {userType === "artist" && (
+          <div className="mt-6">
+            <PublicPageCard artistId={user!.id} fullName={fullName} />
+          </div>
+        )}
+
+        {userType === "artist" && (
+          <Card className="mt-6 border-border/50 backdrop-blur-sm bg-card/90">
+            <CardHeader>
+              <CardTitle className="text-lg">Agenda</CardTitle>
+              <CardDescription>
+                Marque os períodos em que está disponível ou bloqueado. Contratações confirmadas aparecem automaticamente.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AvailabilityCalendar artistId={user!.id} editable />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { StarRating } from "@/components/StarRating";
+import { PortfolioItemView } from "@/components/PortfolioItemView";
+import { Briefcase, MapPin, MessageCircle } from "lucide-react";
+import webPattern from "@/assets/web-pattern.jpg";
+import type { Database } from "@/integrations/supabase/types";
+import { branchLabels } from "@/lib/constants";
+import { formatCurrency } from "@/lib/format";
+import { toPortfolioItems } from "@/lib/portfolio";
+import { withNext } from "@/lib/share";
+
+type PublicProfileRow = Database["public"]["Functions"]["get_public_profile"]["Returns"][number];
+
+// index.html ships site-wide tags; swap them for this artist while the page is open
+const setMetaTag = (attribute: "name" | "property", key: string, content: string) => {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!tag) {
+    tag = document.createElement("meta");
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  const previous = tag.content;
+  tag.content = content;
+  return () => {
+    tag!.content = previous;
+  };
+};
+
+export default function PublicArtist() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<PublicProfileRow | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const { data, error } = await supabase.rpc("get_public_profile", { _slug: slug! });
+
+        if (error) throw error;
+        setProfile(data?.[0] ?? null);
+      } catch (error) {
+        console.error("Error fetching public profile:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [slug]);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const previousTitle = document.title;
+    const title = `${profile.full_name} | EchoArachna`;
+    const description =
+      profile.bio?.slice(0, 200) ||
+      (profile.artistic_branches ?? []).map((branch) => branchLabels[branch] || branch).join(", ");
+    const image = profile.cover_url || profile.avatar_url;
+
+    document.title = title;
+    const restore = [
+      setMetaTag("property", "og:title", title),
+      setMetaTag("property", "og:description", description),
+      setMetaTag("property", "og:type", "profile"),
+      setMetaTag("property", "og:url", window.location.href),
+      setMetaTag("name", "description", description),
+      ...(image ? [setMetaTag("property", "og:image", image), setMetaTag("name", "twitter:image", image)] : []),
+    ];
+
+    return () => {
+      document.title = previousTitle;
+      restore.forEach((undo) => undo());
+    };
+  }, [profile]);
+
+  // Visitors sign up as organizers and land on the full profile, where they can message the artist
+  const profilePath = profile ? `/profile/${profile.id}` : "/feed";
+  const contact = () => navigate(user ? profilePath : withNext("/register?type=organizer", profilePath));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">Este perfil não existe ou não está público</p>
+        <Button variant="outline" onClick={() => navigate("/")}>
+          Conhecer o EchoArachna
+        </Button>
+      </div>
+    );
+  }
+
+  const portfolio = toPortfolioItems(profile.portfolio_items);
+  const images = portfolio.filter((item) => item.type === "image");
+  const media = portfolio.filter((item) => item.type !== "image");
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div
+        className="absolute inset-0 opacity-10"
+        style={{
+          backgroundImage: `url(${webPattern})`,
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={() => navigate("/")}
+            className="text-xl font-bold bg-gradient-to-r from-artist-glow to-organizer-glow bg-clip-text text-transparent"
+          >
+            EchoArachna
+          </button>
+          {!user && (
+            <Button variant="ghost" onClick={() => navigate(withNext("/login", profilePath))}>
+              Entrar
+            </Button>
+          )}
+        </div>
+
+        <Card className="border-border/50 backdrop-blur-sm bg-card/90 overflow-hidden">
+          {profile.cover_url && (
+            <img
+              src={profile.cover_url}
+              alt={`Capa de ${profile.full_name}`}
+              className="h-48 md:h-64 w-full object-cover"
+            />
+          )}
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row items-start gap-6">
+              <Avatar className="w-32 h-32">
+                <AvatarImage src={profile.avatar_url || undefined} />
+                <AvatarFallback className="text-3xl">
+                  {profile.full_name.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 space-y-3">
+                <CardTitle className="text-3xl">
+                  {profile.full_name}
+                  {profile.pronouns && (
+                    <span className="text-lg text-muted-foreground ml-2">({profile.pronouns})</span>
+                  )}
+                </CardTitle>
+
+                {profile.average_rating != null && (
+                  <div className="flex items-center gap-2">
+                    <StarRating value={profile.average_rating} />
+                    <span className="text-sm text-muted-foreground">
+                      {profile.average_rating.toFixed(1)} ({profile.review_count}{" "}
+                      {profile.review_count === 1 ? "avaliação" : "avaliações"})
+                    </span>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  {(profile.artistic_branches ?? []).map((branch) => (
+                    <Badge key={branch} variant="secondary" className="bg-artist/20 text-artist-foreground">
+                      {branchLabels[branch] || branch}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  {profile.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-4 w-4" />
+                      {profile.location}
+                      {profile.travel_radius_km ? ` · atende até ${profile.travel_radius_km} km` : ""}
+                    </span>
+                  )}
+                  {profile.experience_years != null && (
+                    <span className="flex items-center gap-1">
+                      <Briefcase className="h-4 w-4" />
+                      {profile.experience_years} {profile.experience_years === 1 ? "ano" : "anos"} de experiência
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            <div className="p-4 rounded-lg bg-muted/30 border border-border/50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <p className="font-semibold">Quer contratar {profile.full_name.split(" ")[0]}?</p>
+                <p className="text-sm text-muted-foreground">
+                  {profile.starting_price != null
+                    ? `Cachê a partir de ${formatCurrency(profile.starting_price, profile.currency ?? "BRL")}. `
+                    : ""}
+                  Converse e feche a contratação com segurança pela plataforma.
+                </p>
+              </div>
+              <Button variant="organizer" onClick={contact} className="shrink-0">
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Contatar pelo EchoArachna
+              </Button>
+            </div>
+
+            {profile.bio && (
+              <div>
+                <h3 className="font-semibold mb-2">Sobre</h3>
+                <p className="text-muted-foreground whitespace-pre-line">{profile.bio}</p>
+              </div>
+            )}
+
+            {(profile.skills ?? []).length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">Habilidades</h3>
+                <div className="flex flex-wrap gap-2">
+                  {profile.skills.map((skill) => (
+                    <Badge key={skill} variant="outline">
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {portfolio.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-4">Portfólio</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {images.map((item, index) => (
+                    <PortfolioItemView key={item.url} item={item} index={index} />
+                  ))}
+                </div>
+                {media.length > 0 && (
+                  <div className="grid md:grid-cols-2 gap-4 mt-4 items-start">
+                    {media.map((item, index) => (
+                      <PortfolioItemView key={item.url} item={item} index={index} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
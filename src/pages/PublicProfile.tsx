@@ -6,9 +6,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Heart, MessageCircle, Phone, Mail, MapPin, Building2, Calendar, DollarSign, Briefcase } from "lucide-react";
+import { ArrowLeft, MessageCircle, Phone, Mail, MapPin, Building2, Calendar, DollarSign, Briefcase } from "lucide-react";
 import { toast } from "sonner";
 import webPattern from "@/assets/web-pattern.jpg";
+import { AvailabilityCalendar } from "@/components/AvailabilityCalendar";
+import { RateCard } from "@/components/RateCard";
+import { EpkDialog } from "@/components/EpkDialog";
+import { StarRating } from "@/components/StarRating";
+import { AddToListPopover } from "@/components/AddToListPopover";
+import { PortfolioItemView } from "@/components/PortfolioItemView";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatDate } from "@/lib/format";
+import { toPortfolioItems, type PortfolioItem } from "@/lib/portfolio";
 
 interface ProfileData {
   id: string;
@@ -22,7 +31,8 @@ interface ProfileData {
   artist_profile?: {
     artistic_branches: string[];
     location?: string;
-    portfolio_items?: any[];
+    travel_radius_km?: number | null;
+    portfolio_items?: PortfolioItem[];
     skills?: string[];
     experience_years?: number;
     availability?: string;
@@ -37,6 +47,13 @@ interface ProfileData {
   };
 }
 
+type Review = Tables<"reviews"> & {
+  reviewer: {
+    full_name: string;
+    avatar_url: string | null;
+  } | null;
+};
+
 export default function PublicProfile() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -44,6 +61,9 @@ export default function PublicProfile() {
   const [profile, setProfile] = useState<ProfileData | null>(null);
   const [loading, setLoading] = useState(true);
   const [isFavorited, setIsFavorited] = useState(false);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [rating, setRating] = useState<Tables<"profile_ratings"> | null>(null);
+  const [viewerType, setViewerType] = useState<"artist" | "organizer" | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -53,8 +73,22 @@ export default function PublicProfile() {
 
     fetchProfile();
     checkFavorite();
+    fetchReviews();
+    fetchViewerType();
   }, [id, user, navigate]);
 
+  const fetchViewerType = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("profiles")
+      .select("user_type")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    setViewerType(data?.user_type ?? null);
+  };
+
   const fetchProfile = async () => {
     try {
       const { data: profileData, error } = await supabase
@@ -76,9 +110,7 @@ export default function PublicProfile() {
           ...profileData,
           artist_profile: artistProfile ? {
             ...artistProfile,
-            portfolio_items: Array.isArray(artistProfile.portfolio_items) 
-              ? artistProfile.portfolio_items 
-              : []
+            portfolio_items: toPortfolioItems(artistProfile.portfolio_items)
           } : undefined,
         });
       } else {
@@ -101,6 +133,29 @@ export default function PublicProfile() {
     }
   };
 
+  const fetchReviews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("*, reviewer:profiles!reviewer_id(full_name, avatar_url)")
+        .eq("reviewee_id", id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setReviews(data || []);
+
+      const { data: ratingData } = await supabase
+        .from("profile_ratings")
+        .select("*")
+        .eq("profile_id", id)
+        .maybeSingle();
+
+      setRating(ratingData);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    }
+  };
+
   const checkFavorite = async () => {
     if (!user) return;
 
@@ -118,33 +173,6 @@ export default function PublicProfile() {
     }
   };
 
-  const toggleFavorite = async () => {
-    if (!user || !id) return;
-
-    try {
-      if (isFavorited) {
-        await supabase
-          .from("favorites")
-          .delete()
-          .eq("user_id", user.id)
-          .eq("favorited_user_id", id);
-
-        setIsFavorited(false);
-        toast.success("Removido dos favoritos");
-      } else {
-        await supabase
-          .from("favorites")
-          .insert({ user_id: user.id, favorited_user_id: id });
-
-        setIsFavorited(true);
-        toast.success("Adicionado aos favoritos!");
-      }
-    } catch (error) {
-      console.error("Error toggling favorite:", error);
-      toast.error("Erro ao atualizar favoritos");
-    }
-  };
-
   const branchLabels: Record<string, string> = {
     music: "Música",
     dance: "Dança",
@@ -206,17 +234,29 @@ export default function PublicProfile() {
 
       <div className="relative z-10 container mx-auto px-4 py-8 max-w-4xl">
         <div className="flex items-center justify-between mb-6">
-          <Button variant="ghost" onClick={() => navigate("/feed")}>
+          {/* Going back keeps the Feed's filters (in the URL) and scroll position */}
+          <Button
+            variant="ghost"
+            onClick={() => (window.history.state?.idx > 0 ? navigate(-1) : navigate("/feed"))}
+          >
             <ArrowLeft className="w-4 h-4 mr-2" />
             Voltar
           </Button>
 
           <div className="flex gap-2">
-            <Button variant="outline" onClick={toggleFavorite}>
-              <Heart
-                className={`h-5 w-5 ${isFavorited ? "fill-artist text-artist" : ""}`}
+            {id && profile.user_type === "artist" && viewerType === "organizer" && (
+              <EpkDialog artistId={id} />
+            )}
+            {user && id && (
+              <AddToListPopover
+                userId={user.id}
+                profileId={id}
+                isFavorite={isFavorited}
+                onFavoriteChange={setIsFavorited}
+                variant="outline"
+                size="default"
               />
-            </Button>
+            )}
             <Button
               variant="outline"
               onClick={() => navigate("/messages", { state: { userId: id } })}
@@ -250,6 +290,15 @@ export default function PublicProfile() {
                   {profile.user_type === "artist" ? "Artista" : "Organizador"}
                 </p>
 
+                {rating?.average_rating != null && (
+                  <div className="flex items-center gap-2 mb-4">
+                    <StarRating value={rating.average_rating} />
+                    <span className="text-sm text-muted-foreground">
+                      {rating.average_rating.toFixed(1)} ({rating.review_count} {rating.review_count === 1 ? "avaliação" : "avaliações"})
+                    </span>
+                  </div>
+                )}
+
                 {profile.organizer_profile?.company_name && (
                   <p className="text-lg mb-4">
                     {profile.organizer_profile.company_name}
@@ -318,6 +367,11 @@ export default function PublicProfile() {
                   <p className="text-muted-foreground">
                     {profile.artist_profile?.location || profile.organizer_profile?.location}
                   </p>
+                  {profile.artist_profile?.travel_radius_km != null && (
+                    <p className="text-sm text-muted-foreground">
+                      Atende até {profile.artist_profile.travel_radius_km} km de distância
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -346,6 +400,20 @@ export default function PublicProfile() {
               </div>
             )}
 
+            {profile.user_type === "artist" && (
+              <div>
+                <h3 className="font-semibold mb-2">Valores</h3>
+                <RateCard artistId={profile.id} />
+              </div>
+            )}
+
+            {profile.user_type === "artist" && (
+              <div>
+                <h3 className="font-semibold mb-2">Agenda</h3>
+                <AvailabilityCalendar artistId={profile.id} />
+              </div>
+            )}
+
             {profile.artist_profile?.skills &&
               profile.artist_profile.skills.length > 0 && (
                 <div>
@@ -422,23 +490,60 @@ export default function PublicProfile() {
                 <div>
                   <h3 className="font-semibold mb-4">Portfólio</h3>
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                    {profile.artist_profile.portfolio_items.map(
-                      (item: any, index: number) => (
-                        <div
-                          key={index}
-                          className="aspect-square rounded-lg overflow-hidden"
+                    {profile.artist_profile.portfolio_items
+                      .filter((item) => item.type === "image")
+                      .map((item, index) => (
+                        <PortfolioItemView key={item.url} item={item} index={index} />
+                      ))}
+                  </div>
+                  {profile.artist_profile.portfolio_items.some((item) => item.type !== "image") && (
+                    <div className="grid md:grid-cols-2 gap-4 mt-4 items-start">
+                      {profile.artist_profile.portfolio_items
+                        .filter((item) => item.type !== "image")
+                        .map((item, index) => (
+                          <PortfolioItemView key={item.url} item={item} index={index} />
+                        ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+            <div>
+              <h3 className="font-semibold mb-4">Avaliações</h3>
+              {reviews.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Ainda não há avaliações. Elas aparecem depois de contratações concluídas pela plataforma.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {reviews.map((review) => (
+                    <div key={review.id} className="p-4 rounded-lg bg-muted/20 border border-border/30">
+                      <div className="flex items-center gap-3 mb-2">
+                        <Avatar
+                          className="w-8 h-8 cursor-pointer"
+                          onClick={() => navigate(`/profile/${review.reviewer_id}`)}
                         >
-                          <img
-                            src={item.url || item}
-                            alt={`Portfolio ${index + 1}`}
-                            className="w-full h-full object-cover"
-                          />
+                          <AvatarImage src={review.reviewer?.avatar_url || undefined} />
+                          <AvatarFallback>
+                            {review.reviewer?.full_name.substring(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="text-sm font-medium">{review.reviewer?.full_name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(review.created_at.slice(0, 10))}
+                          </p>
                         </div>
-                      )
-                    )}
-                  </div>
+                        <StarRating value={review.rating} />
+                      </div>
+                      {review.comment && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-line">{review.comment}</p>
+                      )}
+                    </div>
+                  ))}
                 </div>
               )}
+            </div>
           </CardContent>
         </Card>
       </div>
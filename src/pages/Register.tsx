@@ -9,6 +9,7 @@ import { toast } from "sonner";
 import { ArrowLeft } from "lucide-react";
 import { z } from "zod";
 import webPattern from "@/assets/web-pattern.jpg";
+import { safeNext, withNext } from "@/lib/share";
 
 const registerSchema = z.object({
   email: z.string().trim().email({ message: "Email inválido" }).max(255),
@@ -20,6 +21,7 @@ const Register = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const userType = searchParams.get("type") as "artist" | "organizer" | null;
+  const next = safeNext(searchParams.get("next"));
   
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -41,7 +43,7 @@ const Register = () => {
       const validatedData = registerSchema.parse({ email, password, fullName });
       setLoading(true);
 
-      const redirectUrl = `${window.location.origin}/onboarding?type=${userType}`;
+      const redirectUrl = `${window.location.origin}${withNext(`/onboarding?type=${userType}`, next)}`;
       
       const { data, error } = await supabase.auth.signUp({
         email: validatedData.email,
@@ -81,7 +83,7 @@ const Register = () => {
         }
 
         toast.success("Conta criada com sucesso!");
-        navigate(`/onboarding?type=${userType}`);
+        navigate(withNext(`/onboarding?type=${userType}`, next));
       }
     } catch (error) {
       if (error instanceof z.ZodError) {
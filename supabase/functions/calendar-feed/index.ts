@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const TIMEZONE = "America/Sao_Paulo";
+
+// Kept in sync with src/lib/ics.ts: a fixed -03:00 offset, as used since 2019
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:-0300",
+  "TZOFFSETTO:-0300",
+  "TZNAME:-03",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+interface Participant {
+  full_name: string;
+}
+
+interface BookingRow {
+  id: string;
+  artist_id: string;
+  event_date: string;
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  fee: number;
+  notes: string | null;
+  updated_at: string;
+  artist: Participant | null;
+  organizer: Participant | null;
+}
+
+interface BlockedRow {
+  id: string;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+  updated_at: string;
+}
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545 lines are limited to 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const compactDate = (date: string) => date.replaceAll("-", "");
+
+const compactDateTime = (date: string, time: string) =>
+  `${compactDate(date)}T${time.slice(0, 8).replaceAll(":", "")}`;
+
+const addDays = (date: string, days: number) => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+};
+
+const utcStamp = (timestamp: string) =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const formatFee = (fee: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(fee);
+
+const bookingEvent = (booking: BookingRow, userId: string) => {
+  const isArtist = booking.artist_id === userId;
+  const counterpart = isArtist ? booking.organizer : booking.artist;
+  // Shows that end at or before their start time run past midnight
+  const endDate = booking.end_time <= booking.start_time ? addDays(booking.event_date, 1) : booking.event_date;
+  const description = [
+    `${isArtist ? "Organizador" : "Artista"}: ${counterpart?.full_name ?? "-"}`,
+    `Cachê: ${formatFee(booking.fee)}`,
+    booking.notes,
+  ].filter(Boolean).join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:booking-${booking.id}@echoarachna`,
+    `DTSTAMP:${utcStamp(booking.updated_at)}`,
+    `DTSTART;TZID=${TIMEZONE}:${compactDateTime(booking.event_date, booking.start_time)}`,
+    `DTEND;TZID=${TIMEZONE}:${compactDateTime(endDate, booking.end_time)}`,
+    `SUMMARY:${escapeText(`Show — ${counterpart?.full_name ?? "EchoArachna"}`)}`,
+    booking.location ? `LOCATION:${escapeText(booking.location)}` : null,
+    `DESCRIPTION:${escapeText(description)}`,
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+  ].filter((line): line is string => line !== null);
+};
+
+const blockedEvent = (range: BlockedRow) => [
+  "BEGIN:VEVENT",
+  `UID:blocked-${range.id}@echoarachna`,
+  `DTSTAMP:${utcStamp(range.updated_at)}`,
+  `DTSTART;VALUE=DATE:${compactDate(range.start_date)}`,
+  `DTEND;VALUE=DATE:${compactDate(addDays(range.end_date, 1))}`,
+  `SUMMARY:${escapeText(range.note ? `Bloqueado — ${range.note}` : "Bloqueado")}`,
+  "TRANSP:OPAQUE",
+  "END:VEVENT",
+];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Calendar apps can't send headers, so the feed is authenticated by its secret token
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) {
+      return new Response(JSON.stringify({ error: "Missing token" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from("calendar_feeds")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+
+    if (!feed) {
+      return new Response(JSON.stringify({ error: "Invalid token" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const userId = feed.user_id;
+
+    const { data: bookings, error: bookingsError } = await supabaseAdmin
+      .from("bookings")
+      .select("id, artist_id, event_date, start_time, end_time, location, fee, notes, updated_at, artist:profiles!artist_id(full_name), organizer:profiles!organizer_id(full_name)")
+      .or(`artist_id.eq.${userId},organizer_id.eq.${userId}`)
+      .eq("status", "confirmed")
+      .order("event_date", { ascending: true });
+
+    if (bookingsError) throw bookingsError;
+
+    const { data: blocked, error: blockedError } = await supabaseAdmin
+      .from("artist_availability")
+      .select("id, start_date, end_date, note, updated_at")
+      .eq("artist_id", userId)
+      .eq("status", "blocked")
+      .order("start_date", { ascending: true });
+
+    if (blockedError) throw blockedError;
+
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//EchoArachna//Agenda//PT-BR",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:EchoArachna",
+      `X-WR-TIMEZONE:${TIMEZONE}`,
+      ...VTIMEZONE,
+      ...((bookings ?? []) as unknown as BookingRow[]).flatMap((booking) => bookingEvent(booking, userId)),
+      ...((blocked ?? []) as BlockedRow[]).flatMap(blockedEvent),
+      "END:VCALENDAR",
+    ];
+
+    return new Response(lines.map(foldLine).join("\r\n") + "\r\n", {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="echoarachna.ics"',
+      },
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decode, Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Longest side of each variant, in pixels. Avatars are square crops.
+const AVATAR_SIZE = 512;
+const PORTFOLIO_MAX = 1600;
+const PORTFOLIO_THUMB_MAX = 640;
+const WEBP_QUALITY = 80;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const fitWithin = (image: Image, max: number) => {
+  if (image.width <= max && image.height <= max) return image;
+  return image.width >= image.height
+    ? image.resize(max, Image.RESIZE_AUTO)
+    : image.resize(Image.RESIZE_AUTO, max);
+};
+
+/**
+ * Re-encodes a freshly uploaded avatar or portfolio image as WebP.
+ * Decoding and re-encoding drops every metadata block, EXIF/GPS included,
+ * and the original upload is deleted once the variants are stored.
+ * Files that don't decode as images are deleted and rejected with 422.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return json({ error: "No authorization header" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+
+    if (userError || !user) {
+      return json({ error: "Invalid user" }, 401);
+    }
+
+    const { bucket, path } = await req.json().catch(() => ({}));
+
+    if ((bucket !== "avatars" && bucket !== "portfolio") || typeof path !== "string") {
+      return json({ error: "Invalid request" }, 400);
+    }
+    // Same rule as the storage policies: users only touch their own folder
+    if (!path.startsWith(`${user.id}/`) || path.includes("..")) {
+      return json({ error: "Forbidden" }, 403);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const storage = supabaseAdmin.storage.from(bucket);
+
+    const { data: original, error: downloadError } = await storage.download(path);
+    if (downloadError || !original) {
+      return json({ error: "File not found" }, 404);
+    }
+
+    let image: Image;
+    try {
+      // Animated GIFs keep only their first frame
+      const decoded = await decode(new Uint8Array(await original.arrayBuffer()), true);
+      if (!(decoded instanceof Image)) throw new Error("Unsupported image");
+      image = decoded;
+    } catch {
+      await storage.remove([path]);
+      return json({ error: "Invalid image" }, 422);
+    }
+
+    const upload = async (target: string, variant: Image) => {
+      const { error } = await storage.upload(target, await variant.encodeWEBP(WEBP_QUALITY), {
+        contentType: "image/webp",
+        upsert: true,
+      });
+      if (error) throw error;
+      return storage.getPublicUrl(target).data.publicUrl;
+    };
+
+    const base = path.replace(/\.[^./]+$/, "");
+    const outputs: string[] = [];
+    let url: string;
+    let thumbUrl: string | null = null;
+
+    if (bucket === "avatars") {
+      const target = `${user.id}/avatar.webp`;
+      // The path never changes, so bust caches when the avatar is replaced
+      url = `${await upload(target, image.cover(AVATAR_SIZE, AVATAR_SIZE))}?v=${Date.now()}`;
+      outputs.push(target);
+    } else {
+      const target = `${base}.webp`;
+      const thumbTarget = `${base}-thumb.webp`;
+      thumbUrl = await upload(thumbTarget, fitWithin(image.clone(), PORTFOLIO_THUMB_MAX));
+      url = await upload(target, fitWithin(image, PORTFOLIO_MAX));
+      outputs.push(target, thumbTarget);
+    }
+
+    if (!outputs.includes(path)) {
+      await storage.remove([path]);
+    }
+
+    return json({ url, thumbUrl });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ error: message }, 500);
+  }
+});
@@ -0,0 +1,60 @@
+-- Create enum for gig status
+CREATE TYPE public.gig_status AS ENUM ('open', 'closed');
+
+-- Create gigs table for opportunities published by organizers
+CREATE TABLE public.gigs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organizer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  event_type TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  venue TEXT,
+  location TEXT,
+  required_branches public.artistic_branch[] NOT NULL DEFAULT '{}',
+  budget NUMERIC(10, 2) CHECK (budget IS NULL OR budget >= 0),
+  status public.gig_status NOT NULL DEFAULT 'open',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.gigs ENABLE ROW LEVEL SECURITY;
+
+-- Artists browse open gigs, organizers always see their own
+CREATE POLICY "Users can view open gigs and their own"
+  ON public.gigs FOR SELECT
+  TO authenticated
+  USING (status = 'open' OR organizer_id = auth.uid());
+
+CREATE POLICY "Organizers can create their own gigs"
+  ON public.gigs FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = organizer_id AND id = auth.uid() AND user_type = 'organizer'
+  ));
+
+CREATE POLICY "Organizers can update their own gigs"
+  ON public.gigs FOR UPDATE
+  TO authenticated
+  USING (organizer_id = auth.uid())
+  WITH CHECK (organizer_id = auth.uid());
+
+CREATE POLICY "Organizers can delete their own gigs"
+  ON public.gigs FOR DELETE
+  TO authenticated
+  USING (organizer_id = auth.uid());
+
+CREATE POLICY "Admins can delete any gig"
+  ON public.gigs FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER set_gigs_updated_at
+  BEFORE UPDATE ON public.gigs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create indexes for gig queries
+CREATE INDEX idx_gigs_organizer ON public.gigs(organizer_id, event_date);
+CREATE INDEX idx_gigs_open ON public.gigs(event_date) WHERE status = 'open';
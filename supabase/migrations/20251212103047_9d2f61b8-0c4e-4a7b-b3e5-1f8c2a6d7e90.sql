@@ -0,0 +1,147 @@
+-- Create enum for the application pipeline
+CREATE TYPE public.application_status AS ENUM ('applied', 'shortlisted', 'hired', 'rejected');
+
+-- Create gig_applications table
+CREATE TABLE public.gig_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gig_id UUID NOT NULL REFERENCES public.gigs(id) ON DELETE CASCADE,
+  artist_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pitch TEXT NOT NULL,
+  portfolio_items JSONB NOT NULL DEFAULT '[]',
+  status public.application_status NOT NULL DEFAULT 'applied',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (gig_id, artist_id)
+);
+
+ALTER TABLE public.gig_applications ENABLE ROW LEVEL SECURITY;
+
+-- Security definer helpers so gigs and gig_applications policies can reference each other without recursion
+CREATE OR REPLACE FUNCTION public.is_gig_organizer(_gig_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.gigs
+    WHERE id = _gig_id
+      AND organizer_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_applied_to_gig(_gig_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.gig_applications
+    WHERE gig_id = _gig_id
+      AND artist_id = _user_id
+  )
+$$;
+
+-- Applicants keep access to gigs that were closed after they applied
+CREATE POLICY "Applicants can view gigs they applied to"
+  ON public.gigs FOR SELECT
+  TO authenticated
+  USING (public.has_applied_to_gig(id, auth.uid()));
+
+CREATE POLICY "Artists and gig owners can view applications"
+  ON public.gig_applications FOR SELECT
+  TO authenticated
+  USING (artist_id = auth.uid() OR public.is_gig_organizer(gig_id, auth.uid()));
+
+CREATE POLICY "Artists can apply to open gigs"
+  ON public.gig_applications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    artist_id = auth.uid()
+    AND status = 'applied'
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND user_type = 'artist'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.gigs
+      WHERE id = gig_id AND status = 'open'
+    )
+  );
+
+CREATE POLICY "Gig owners can move applications through the pipeline"
+  ON public.gig_applications FOR UPDATE
+  TO authenticated
+  USING (public.is_gig_organizer(gig_id, auth.uid()))
+  WITH CHECK (public.is_gig_organizer(gig_id, auth.uid()));
+
+CREATE POLICY "Artists can withdraw pending applications"
+  ON public.gig_applications FOR DELETE
+  TO authenticated
+  USING (artist_id = auth.uid() AND status = 'applied');
+
+-- Organizers only change the status, never the artist's pitch
+REVOKE UPDATE ON public.gig_applications FROM authenticated;
+GRANT UPDATE (status) ON public.gig_applications TO authenticated;
+
+CREATE TRIGGER set_gig_applications_updated_at
+  BEFORE UPDATE ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Continue the negotiation in the existing conversation between artist and organizer
+CREATE OR REPLACE FUNCTION public.handle_gig_application_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gig public.gigs%ROWTYPE;
+BEGIN
+  SELECT * INTO _gig FROM public.gigs WHERE id = NEW.gig_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.messages (sender_id, receiver_id, content)
+    VALUES (
+      NEW.artist_id,
+      _gig.organizer_id,
+      'Candidatura para "' || _gig.title || '": ' || NEW.pitch
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.messages (sender_id, receiver_id, content)
+    VALUES (
+      _gig.organizer_id,
+      NEW.artist_id,
+      'Sua candidatura para "' || _gig.title || '" foi ' ||
+        CASE NEW.status
+          WHEN 'applied' THEN 'movida para em análise'
+          WHEN 'shortlisted' THEN 'pré-selecionada'
+          WHEN 'hired' THEN 'aceita. Você foi contratado(a)!'
+          WHEN 'rejected' THEN 'encerrada. Obrigado pelo interesse!'
+        END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_gig_application_created
+  AFTER INSERT ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_gig_application_message();
+
+CREATE TRIGGER on_gig_application_status_changed
+  AFTER UPDATE OF status ON public.gig_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_gig_application_message();
+
+-- Create indexes for application queries
+CREATE INDEX idx_gig_applications_gig ON public.gig_applications(gig_id, status);
+CREATE INDEX idx_gig_applications_artist ON public.gig_applications(artist_id, created_at DESC);
@@ -0,0 +1,196 @@
+-- Create enums for booking proposals and bookings
+CREATE TYPE public.proposal_status AS ENUM ('pending', 'accepted', 'declined', 'countered');
+CREATE TYPE public.booking_status AS ENUM ('confirmed', 'cancelled');
+
+-- Create booking_proposals table
+CREATE TABLE public.booking_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sender_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  receiver_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  location TEXT,
+  fee NUMERIC(10, 2) NOT NULL CHECK (fee >= 0),
+  notes TEXT,
+  status public.proposal_status NOT NULL DEFAULT 'pending',
+  counter_of UUID REFERENCES public.booking_proposals(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (sender_id <> receiver_id)
+);
+
+ALTER TABLE public.booking_proposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their proposals"
+  ON public.booking_proposals FOR SELECT
+  TO authenticated
+  USING (auth.uid() = sender_id OR auth.uid() = receiver_id);
+
+-- Proposals are always between an artist and an organizer; counters answer a pending proposal
+CREATE POLICY "Users can send proposals"
+  ON public.booking_proposals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND status = 'pending'
+    AND (
+      SELECT COUNT(DISTINCT user_type) FROM public.profiles
+      WHERE id IN (sender_id, receiver_id)
+    ) = 2
+    AND (
+      counter_of IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.booking_proposals original
+        WHERE original.id = counter_of
+          AND original.receiver_id = auth.uid()
+          AND original.sender_id = receiver_id
+          AND original.status = 'pending'
+      )
+    )
+  );
+
+-- Create bookings table for accepted proposals
+CREATE TABLE public.bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL UNIQUE REFERENCES public.booking_proposals(id) ON DELETE CASCADE,
+  artist_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  organizer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  location TEXT,
+  fee NUMERIC(10, 2) NOT NULL,
+  notes TEXT,
+  status public.booking_status NOT NULL DEFAULT 'confirmed',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their bookings"
+  ON public.bookings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = artist_id OR auth.uid() = organizer_id);
+
+CREATE POLICY "Participants can cancel their bookings"
+  ON public.bookings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = artist_id OR auth.uid() = organizer_id)
+  WITH CHECK (auth.uid() = artist_id OR auth.uid() = organizer_id);
+
+-- Booking terms are fixed once accepted; only the status can change
+REVOKE UPDATE ON public.bookings FROM authenticated;
+GRANT UPDATE (status) ON public.bookings TO authenticated;
+
+CREATE TRIGGER set_bookings_updated_at
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Add structured message types
+ALTER TABLE public.messages
+  ADD COLUMN message_type TEXT NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'booking_proposal')),
+  ADD COLUMN proposal_id UUID REFERENCES public.booking_proposals(id) ON DELETE CASCADE;
+
+-- Post every proposal (and counter-proposal) into the conversation as a card
+CREATE OR REPLACE FUNCTION public.handle_booking_proposal_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.counter_of IS NOT NULL THEN
+    UPDATE public.booking_proposals
+    SET status = 'countered', responded_at = NOW()
+    WHERE id = NEW.counter_of AND status = 'pending';
+  END IF;
+
+  INSERT INTO public.messages (sender_id, receiver_id, content, message_type, proposal_id)
+  VALUES (
+    NEW.sender_id,
+    NEW.receiver_id,
+    CASE WHEN NEW.counter_of IS NULL THEN 'Proposta de contratação' ELSE 'Contraproposta de contratação' END,
+    'booking_proposal',
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_booking_proposal_created
+  AFTER INSERT ON public.booking_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_booking_proposal_created();
+
+-- Accept or decline a pending proposal addressed to the current user
+CREATE OR REPLACE FUNCTION public.respond_to_booking_proposal(_proposal_id uuid, _response public.proposal_status)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _proposal public.booking_proposals%ROWTYPE;
+  _sender_type public.user_type;
+  _booking_id uuid;
+BEGIN
+  IF _response NOT IN ('accepted', 'declined') THEN
+    RAISE EXCEPTION 'Invalid response: %', _response;
+  END IF;
+
+  SELECT * INTO _proposal
+  FROM public.booking_proposals
+  WHERE id = _proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _proposal.receiver_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+
+  IF _proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'Proposal has already been answered';
+  END IF;
+
+  UPDATE public.booking_proposals
+  SET status = _response, responded_at = NOW()
+  WHERE id = _proposal_id;
+
+  IF _response = 'accepted' THEN
+    SELECT user_type INTO _sender_type FROM public.profiles WHERE id = _proposal.sender_id;
+
+    INSERT INTO public.bookings (
+      proposal_id, artist_id, organizer_id, event_date, start_time, end_time, location, fee, notes
+    )
+    VALUES (
+      _proposal.id,
+      CASE WHEN _sender_type = 'artist' THEN _proposal.sender_id ELSE _proposal.receiver_id END,
+      CASE WHEN _sender_type = 'artist' THEN _proposal.receiver_id ELSE _proposal.sender_id END,
+      _proposal.event_date,
+      _proposal.start_time,
+      _proposal.end_time,
+      _proposal.location,
+      _proposal.fee,
+      _proposal.notes
+    )
+    RETURNING id INTO _booking_id;
+  END IF;
+
+  INSERT INTO public.messages (sender_id, receiver_id, content)
+  VALUES (
+    _proposal.receiver_id,
+    _proposal.sender_id,
+    CASE WHEN _response = 'accepted' THEN 'Proposta aceita! A contratação foi confirmada.' ELSE 'Proposta recusada.' END
+  );
+
+  RETURN _booking_id;
+END;
+$$;
+
+-- Create indexes for proposal and booking queries
+CREATE INDEX idx_booking_proposals_receiver ON public.booking_proposals(receiver_id, status);
+CREATE INDEX idx_bookings_artist ON public.bookings(artist_id, event_date);
+CREATE INDEX idx_bookings_organizer ON public.bookings(organizer_id, event_date);
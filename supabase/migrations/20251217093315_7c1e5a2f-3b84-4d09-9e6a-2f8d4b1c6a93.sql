@@ -0,0 +1,109 @@
+-- btree_gist lets exclusion constraints combine equality on ids with range overlap
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Create enum for availability ranges
+CREATE TYPE public.availability_status AS ENUM ('available', 'blocked');
+
+-- Create artist_availability table
+CREATE TABLE public.artist_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status public.availability_status NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  CONSTRAINT artist_availability_no_overlap EXCLUDE USING gist (
+    artist_id WITH =,
+    daterange(start_date, end_date, '[]') WITH &&
+  )
+);
+
+ALTER TABLE public.artist_availability ENABLE ROW LEVEL SECURITY;
+
+-- Other users read the calendar through get_artist_calendar, which hides notes
+CREATE POLICY "Artists can view their own availability"
+  ON public.artist_availability FOR SELECT
+  TO authenticated
+  USING (auth.uid() = artist_id);
+
+CREATE POLICY "Artists can add their own availability"
+  ON public.artist_availability FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = artist_id
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND user_type = 'artist'
+    )
+  );
+
+CREATE POLICY "Artists can update their own availability"
+  ON public.artist_availability FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = artist_id)
+  WITH CHECK (auth.uid() = artist_id);
+
+CREATE POLICY "Artists can delete their own availability"
+  ON public.artist_availability FOR DELETE
+  TO authenticated
+  USING (auth.uid() = artist_id);
+
+CREATE TRIGGER set_artist_availability_updated_at
+  BEFORE UPDATE ON public.artist_availability
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- An artist can't hold two confirmed bookings at the same time; shows that end
+-- past midnight run into the next day
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+    artist_id WITH =,
+    tsrange(
+      event_date + start_time,
+      event_date + end_time + CASE WHEN end_time <= start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+    ) WITH &&
+  ) WHERE (status = 'confirmed');
+
+-- Calendar ranges for an artist, with confirmed bookings reported as 'booked'
+CREATE OR REPLACE FUNCTION public.get_artist_calendar(_artist_id uuid, _from date, _to date)
+RETURNS TABLE (id uuid, start_date date, end_date date, status text, note text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.start_date, a.end_date, a.status::text,
+    CASE WHEN a.artist_id = auth.uid() THEN a.note END
+  FROM public.artist_availability a
+  WHERE a.artist_id = _artist_id
+    AND a.start_date <= _to
+    AND a.end_date >= _from
+  UNION ALL
+  SELECT NULL, b.event_date, b.event_date, 'booked', NULL
+  FROM public.bookings b
+  WHERE b.artist_id = _artist_id
+    AND b.status = 'confirmed'
+    AND b.event_date BETWEEN _from AND _to
+  ORDER BY 2
+$$;
+
+-- Artists who are blocked or already booked on a given date
+CREATE OR REPLACE FUNCTION public.get_unavailable_artists(_date date)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT artist_id FROM public.artist_availability
+  WHERE status = 'blocked' AND _date BETWEEN start_date AND end_date
+  UNION
+  SELECT artist_id FROM public.bookings
+  WHERE status = 'confirmed' AND event_date = _date
+$$;
+
+-- Create index for calendar lookups
+CREATE INDEX idx_artist_availability_artist ON public.artist_availability(artist_id, start_date);
@@ -0,0 +1,41 @@
+-- Create calendar_feeds table holding each user's secret iCalendar subscription token
+CREATE TABLE public.calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed"
+  ON public.calendar_feeds FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feed"
+  ON public.calendar_feeds FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Issue a new token for the current user, invalidating any previous subscription URL
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.calendar_feeds (user_id, token)
+  VALUES (auth.uid(), _token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token, created_at = NOW();
+
+  RETURN _token;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Create reviews table, one review per side of a booking
+CREATE TABLE public.reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reviewee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (booking_id, reviewer_id),
+  CHECK (reviewer_id <> reviewee_id)
+);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviews are viewable by authenticated users"
+  ON public.reviews FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Only the two parties of a confirmed booking whose date has passed can review each other
+CREATE POLICY "Booking participants can review each other"
+  ON public.reviews FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = reviewer_id
+    AND EXISTS (
+      SELECT 1 FROM public.bookings b
+      WHERE b.id = booking_id
+        AND b.status = 'confirmed'
+        AND b.event_date < CURRENT_DATE
+        AND (
+          (b.artist_id = reviewer_id AND b.organizer_id = reviewee_id)
+          OR (b.organizer_id = reviewer_id AND b.artist_id = reviewee_id)
+        )
+    )
+  );
+
+CREATE POLICY "Reviewers can update their reviews"
+  ON public.reviews FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = reviewer_id)
+  WITH CHECK (auth.uid() = reviewer_id);
+
+CREATE POLICY "Reviewers can delete their reviews"
+  ON public.reviews FOR DELETE
+  TO authenticated
+  USING (auth.uid() = reviewer_id);
+
+-- Rating and comment can be edited; who reviewed whom for which booking can't
+REVOKE UPDATE ON public.reviews FROM authenticated;
+GRANT UPDATE (rating, comment) ON public.reviews TO authenticated;
+
+CREATE TRIGGER set_reviews_updated_at
+  BEFORE UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Aggregate rating per profile
+CREATE VIEW public.profile_ratings
+WITH (security_invoker = on) AS
+SELECT
+  reviewee_id AS profile_id,
+  ROUND(AVG(rating), 1) AS average_rating,
+  COUNT(*) AS review_count
+FROM public.reviews
+GROUP BY reviewee_id;
+
+-- Create indexes for review queries
+CREATE INDEX idx_reviews_reviewee ON public.reviews(reviewee_id, created_at DESC);
+CREATE INDEX idx_reviews_booking ON public.reviews(booking_id);
@@ -0,0 +1,101 @@
+-- Trigram indexes back the ILIKE name and location searches
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX idx_profiles_full_name_trgm ON public.profiles USING gin (full_name gin_trgm_ops);
+CREATE INDEX idx_artist_profiles_location_trgm ON public.artist_profiles USING gin (location gin_trgm_ops);
+CREATE INDEX idx_organizer_profiles_location_trgm ON public.organizer_profiles USING gin (location gin_trgm_ops);
+CREATE INDEX idx_artist_profiles_branches ON public.artist_profiles USING gin (artistic_branches);
+CREATE INDEX idx_organizer_profiles_branches ON public.organizer_profiles USING gin (preferred_branches);
+CREATE INDEX idx_profiles_user_type ON public.profiles(user_type, created_at DESC);
+
+-- Feed search: profiles of the opposite type to the caller, filtered and paginated in
+-- the database. total_count is the number of matches before LIMIT/OFFSET.
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _location text DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _sort text DEFAULT 'relevance',
+  _limit integer DEFAULT 20,
+  _offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  average_rating numeric,
+  review_count bigint,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      p.user_type,
+      p.created_at,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count
+    FROM public.profiles p
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    WHERE p.id <> auth.uid()
+      AND p.user_type = (
+        SELECT CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+        FROM public.profiles me
+        WHERE me.id = auth.uid()
+      )
+      AND (_search IS NULL OR p.full_name ILIKE '%' || _search || '%')
+      AND (_location IS NULL OR ap.location ILIKE '%' || _location || '%' OR op.location ILIKE '%' || _location || '%')
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+  )
+  SELECT
+    m.id,
+    m.full_name,
+    m.bio,
+    m.avatar_url,
+    m.user_type,
+    m.artistic_branches,
+    m.preferred_branches,
+    m.company_name,
+    m.location,
+    m.average_rating,
+    m.review_count,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY
+    CASE WHEN _sort = 'rating' THEN m.average_rating END DESC NULLS LAST,
+    CASE WHEN _sort = 'rating' THEN m.review_count END DESC,
+    CASE WHEN _search IS NOT NULL THEN similarity(m.full_name, _search) END DESC,
+    m.created_at DESC,
+    m.id
+  LIMIT _limit
+  OFFSET _offset
+$$;
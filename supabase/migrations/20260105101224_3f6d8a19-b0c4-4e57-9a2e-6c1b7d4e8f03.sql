@@ -0,0 +1,108 @@
+-- Replace offset pagination in search_profiles with a keyset cursor.
+-- Rows are ordered by (sort_key, created_at, id) descending, where sort_key is the
+-- average rating when sorting by rating, the name similarity when searching, and 0
+-- otherwise. The next page starts strictly after the last row's triple.
+DROP FUNCTION IF EXISTS public.search_profiles(
+  text, text, public.artistic_branch, boolean, date, numeric, text, integer, integer
+);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _location text DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _sort text DEFAULT 'relevance',
+  _limit integer DEFAULT 20,
+  _cursor_sort_key numeric DEFAULT NULL,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  average_rating numeric,
+  review_count bigint,
+  created_at timestamptz,
+  sort_key numeric,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      p.user_type,
+      p.created_at,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count,
+      CASE
+        WHEN _sort = 'rating' THEN COALESCE(r.average_rating, 0)
+        WHEN _search IS NOT NULL THEN ROUND(similarity(p.full_name, _search)::numeric, 4)
+        ELSE 0
+      END AS sort_key
+    FROM public.profiles p
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    WHERE p.id <> auth.uid()
+      AND p.user_type = (
+        SELECT CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+        FROM public.profiles me
+        WHERE me.id = auth.uid()
+      )
+      AND (_search IS NULL OR p.full_name ILIKE '%' || _search || '%')
+      AND (_location IS NULL OR ap.location ILIKE '%' || _location || '%' OR op.location ILIKE '%' || _location || '%')
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+  ),
+  counted AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+  )
+  SELECT
+    c.id,
+    c.full_name,
+    c.bio,
+    c.avatar_url,
+    c.user_type,
+    c.artistic_branches,
+    c.preferred_branches,
+    c.company_name,
+    c.location,
+    c.average_rating,
+    c.review_count,
+    c.created_at,
+    c.sort_key,
+    c.total_count
+  FROM counted c
+  WHERE _cursor_id IS NULL
+    OR (c.sort_key, c.created_at, c.id) < (_cursor_sort_key, _cursor_created_at, _cursor_id)
+  ORDER BY c.sort_key DESC, c.created_at DESC, c.id DESC
+  LIMIT _limit
+$$;
@@ -0,0 +1,211 @@
+-- Portuguese full-text search that ignores accents ("musica" matches "música",
+-- "sao paulo" matches "São Paulo")
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION public.portuguese_unaccent (COPY = pg_catalog.portuguese);
+ALTER TEXT SEARCH CONFIGURATION public.portuguese_unaccent
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH public.unaccent, portuguese_stem;
+
+-- Searchable text for a profile, weighted name > skills/company > bio > location
+CREATE OR REPLACE FUNCTION public.build_profile_search_document(_profile_id uuid, _full_name text, _bio text)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(_full_name, '')), 'A')
+    || setweight(to_tsvector('public.portuguese_unaccent', COALESCE(array_to_string(ap.skills, ' '), '')), 'B')
+    || setweight(to_tsvector('public.portuguese_unaccent', COALESCE(op.company_name, '')), 'B')
+    || setweight(to_tsvector('public.portuguese_unaccent', COALESCE(_bio, '')), 'C')
+    || setweight(to_tsvector('public.portuguese_unaccent', COALESCE(ap.location, op.location, '')), 'D')
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.artist_profiles ap ON ap.profile_id = _profile_id
+  LEFT JOIN public.organizer_profiles op ON op.profile_id = _profile_id
+$$;
+
+ALTER TABLE public.profiles ADD COLUMN search_document tsvector;
+
+CREATE OR REPLACE FUNCTION public.handle_profile_search_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_document := public.build_profile_search_document(NEW.id, NEW.full_name, NEW.bio);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_profiles_search_document
+  BEFORE INSERT OR UPDATE OF full_name, bio ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_profile_search_document();
+
+-- Skills, company name and location live on the role tables; refresh the parent profile
+CREATE OR REPLACE FUNCTION public.refresh_profile_search_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.profile_id ELSE NEW.profile_id END;
+BEGIN
+  UPDATE public.profiles
+  SET search_document = public.build_profile_search_document(id, full_name, bio)
+  WHERE id = _profile_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_search_document_on_artist_profile
+  AFTER INSERT OR UPDATE OF skills, location OR DELETE ON public.artist_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_profile_search_document();
+
+CREATE TRIGGER refresh_search_document_on_organizer_profile
+  AFTER INSERT OR UPDATE OF company_name, location OR DELETE ON public.organizer_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_profile_search_document();
+
+UPDATE public.profiles
+SET search_document = public.build_profile_search_document(id, full_name, bio);
+
+CREATE INDEX idx_profiles_search_document ON public.profiles USING gin (search_document);
+
+-- search_profiles now matches the search text against the full-text document (falling
+-- back to a name substring for partial names), ranks by it, and returns a headline.
+-- Highlighted terms in the headline are wrapped in chr(2)/chr(3) so the client can
+-- mark them without rendering HTML from the database.
+DROP FUNCTION IF EXISTS public.search_profiles(
+  text, text, public.artistic_branch, boolean, date, numeric, text, integer, numeric, timestamptz, uuid
+);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _location text DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _sort text DEFAULT 'relevance',
+  _limit integer DEFAULT 20,
+  _cursor_sort_key numeric DEFAULT NULL,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  average_rating numeric,
+  review_count bigint,
+  created_at timestamptz,
+  sort_key numeric,
+  headline text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search_query AS (
+    SELECT websearch_to_tsquery('public.portuguese_unaccent', _search) AS tsq
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      p.user_type,
+      p.created_at,
+      ap.skills,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count,
+      CASE
+        WHEN _sort = 'rating' THEN COALESCE(r.average_rating, 0)
+        WHEN _search IS NOT NULL THEN ROUND(
+          (ts_rank_cd(p.search_document, search_query.tsq) + similarity(p.full_name, _search))::numeric, 4
+        )
+        ELSE 0
+      END AS sort_key
+    FROM public.profiles p
+    CROSS JOIN search_query
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    WHERE p.id <> auth.uid()
+      AND p.user_type = (
+        SELECT CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+        FROM public.profiles me
+        WHERE me.id = auth.uid()
+      )
+      AND (
+        _search IS NULL
+        OR p.search_document @@ search_query.tsq
+        OR p.full_name ILIKE '%' || _search || '%'
+      )
+      AND (_location IS NULL OR ap.location ILIKE '%' || _location || '%' OR op.location ILIKE '%' || _location || '%')
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+  ),
+  page AS (
+    SELECT m.*, COUNT(*) OVER () AS total_count
+    FROM matches m
+  ),
+  limited AS (
+    SELECT * FROM page pg
+    WHERE _cursor_id IS NULL
+      OR (pg.sort_key, pg.created_at, pg.id) < (_cursor_sort_key, _cursor_created_at, _cursor_id)
+    ORDER BY pg.sort_key DESC, pg.created_at DESC, pg.id DESC
+    LIMIT _limit
+  )
+  -- Headlines are only built for the rows being returned
+  SELECT
+    l.id,
+    l.full_name,
+    l.bio,
+    l.avatar_url,
+    l.user_type,
+    l.artistic_branches,
+    l.preferred_branches,
+    l.company_name,
+    l.location,
+    l.average_rating,
+    l.review_count,
+    l.created_at,
+    l.sort_key,
+    CASE WHEN _search IS NOT NULL THEN ts_headline(
+      'public.portuguese_unaccent',
+      concat_ws(' · ', l.bio, array_to_string(l.skills, ', '), l.company_name),
+      search_query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+    ) END AS headline,
+    l.total_count
+  FROM limited l
+  CROSS JOIN search_query
+  ORDER BY l.sort_key DESC, l.created_at DESC, l.id DESC
+$$;
@@ -0,0 +1,5619 @@
+-- Brazilian municipalities with coordinates, from IBGE data as packaged in the
+-- municipios-br dataset (CC0). Used for structured locations and radius search.
+CREATE TABLE public.br_cities (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  state CHAR(2) NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  population INTEGER NOT NULL DEFAULT 0,
+  search_name TEXT
+);
+
+ALTER TABLE public.br_cities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Cities are viewable by everyone"
+  ON public.br_cities FOR SELECT
+  USING (true);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (1100015, 'Alta Floresta D''Oeste', 'RO', -11.9283, -61.9953, 21494),
+  (1100023, 'Ariquemes', 'RO', -9.9057, -63.0325, 96833),
+  (1100031, 'Cabixi', 'RO', -13.4945, -60.552, 5351),
+  (1100049, 'Cacoal', 'RO', -11.4343, -61.4562, 86887),
+  (1100056, 'Cerejeiras', 'RO', -13.187, -60.8168, 15890),
+  (1100064, 'Colorado do Oeste', 'RO', -13.1174, -60.5454, 15663),
+  (1100072, 'Corumbiara', 'RO', -12.9551, -60.8947, 7519),
+  (1100080, 'Costa Marques', 'RO', -12.4367, -64.228, 12627),
+  (1100098, 'Espigão D''Oeste', 'RO', -11.5266, -61.0252, 29414),
+  (1100106, 'Guajará-Mirim', 'RO', -10.7889, -65.3296, 39387),
+  (1100114, 'Jaru', 'RO', -10.4318, -62.4788, 50591),
+  (1100122, 'Ji-Paraná', 'RO', -10.8777, -61.9322, 124333),
+  (1100130, 'Machadinho D''Oeste', 'RO', -9.4436, -61.9818, 30707),
+  (1100148, 'Nova Brasilândia D''Oeste', 'RO', -11.7247, -62.3127, 15679),
+  (1100155, 'Ouro Preto do Oeste', 'RO', -10.7167, -62.2565, 35044),
+  (1100189, 'Pimenta Bueno', 'RO', -11.672, -61.198, 35079),
+  (1100205, 'Porto Velho', 'RO', -8.7608, -63.8999, 460434),
+  (1100254, 'Presidente Médici', 'RO', -11.169, -61.8986, 19327),
+  (1100262, 'Rio Crespo', 'RO', -9.6997, -62.9011, 3471),
+  (1100288, 'Rolim de Moura', 'RO', -11.7271, -61.7714, 56406),
+  (1100296, 'Santa Luzia D''Oeste', 'RO', -11.9074, -61.7777, 7419),
+  (1100304, 'Vilhena', 'RO', -12.7502, -60.1488, 95832),
+  (1100320, 'São Miguel do Guaporé', 'RO', -11.6953, -62.7192, 21635),
+  (1100338, 'Nova Mamoré', 'RO', -10.4077, -65.3346, 25444),
+  (1100346, 'Alvorada D''Oeste', 'RO', -11.3463, -62.2847, 13117),
+  (1100379, 'Alto Alegre dos Parecis', 'RO', -12.132, -61.835, 11479),
+  (1100403, 'Alto Paraíso', 'RO', -9.7143, -63.3188, 16320),
+  (1100452, 'Buritis', 'RO', -10.1943, -63.8324, 27992),
+  (1100502, 'Novo Horizonte do Oeste', 'RO', -11.6961, -61.9951, 7667),
+  (1100601, 'Cacaulândia', 'RO', -10.349, -62.9043, 4150),
+  (1100700, 'Campo Novo de Rondônia', 'RO', -10.5712, -63.6266, 8844),
+  (1100809, 'Candeias do Jamari', 'RO', -8.7907, -63.7005, 22310),
+  (1100908, 'Castanheiras', 'RO', -11.4253, -61.9482, 3233),
+  (1100924, 'Chupinguaia', 'RO', -12.5611, -60.8877, 9324),
+  (1100940, 'Cujubim', 'RO', -9.3606, -62.5846, 14863),
+  (1101005, 'Governador Jorge Teixeira', 'RO', -10.61, -62.7371, 8001),
+  (1101104, 'Itapuã do Oeste', 'RO', -9.1969, -63.1809, 8548),
+  (1101203, 'Ministro Andreazza', 'RO', -11.196, -61.5174, 6466),
+  (1101302, 'Mirante da Serra', 'RO', -11.029, -62.6696, 9235),
+  (1101401, 'Monte Negro', 'RO', -10.2458, -63.29, 11548),
+  (1101435, 'Nova União', 'RO', -10.9068, -62.5564, 6200),
+  (1101450, 'Parecis', 'RO', -12.1754, -61.6032, 4125),
+  (1101468, 'Pimenteiras do Oeste', 'RO', -13.4823, -61.0471, 2156),
+  (1101476, 'Primavera de Rondônia', 'RO', -11.8295, -61.3153, 3076),
+  (1101484, 'São Felipe D''Oeste', 'RO', -11.9023, -61.5026, 5258),
+  (1101492, 'São Francisco do Guaporé', 'RO', -12.052, -63.568, 16286),
+  (1101500, 'Seringueiras', 'RO', -11.8055, -63.0182, 11171),
+  (1101559, 'Teixeirópolis', 'RO', -10.9056, -62.242, 4256),
+  (1101609, 'Theobroma', 'RO', -10.2483, -62.3538, 8113),
+  (1101708, 'Urupá', 'RO', -11.1261, -62.3639, 10725),
+  (1101757, 'Vale do Anari', 'RO', -9.8621, -62.1876, 7788),
+  (1101807, 'Vale do Paraíso', 'RO', -10.4465, -62.1352, 6479),
+  (1200013, 'Acrelândia', 'AC', -9.8258, -66.8972, 14021),
+  (1200054, 'Assis Brasil', 'AC', -10.9298, -69.5738, 8100),
+  (1200104, 'Brasiléia', 'AC', -10.995, -68.7497, 26000),
+  (1200138, 'Bujari', 'AC', -9.8153, -67.955, 12917),
+  (1200179, 'Capixaba', 'AC', -10.566, -67.686, 10392),
+  (1200203, 'Cruzeiro do Sul', 'AC', -7.6276, -72.6756, 91888),
+  (1200252, 'Epitaciolândia', 'AC', -11.0188, -68.7341, 18757),
+  (1200302, 'Feijó', 'AC', -8.1705, -70.351, 35426),
+  (1200328, 'Jordão', 'AC', -9.1908, -71.9503, 9222),
+  (1200336, 'Mâncio Lima', 'AC', -7.6166, -72.8997, 19294),
+  (1200344, 'Manoel Urbano', 'AC', -8.8329, -69.2679, 11996),
+  (1200351, 'Marechal Thaumaturgo', 'AC', -8.939, -72.7997, 17093),
+  (1200385, 'Plácido de Castro', 'AC', -10.2806, -67.1371, 16560),
+  (1200393, 'Porto Walter', 'AC', -8.2632, -72.7537, 10735),
+  (1200401, 'Rio Branco', 'AC', -9.975, -67.8243, 364756),
+  (1200427, 'Rodrigues Alves', 'AC', -7.7386, -72.661, 14938),
+  (1200435, 'Santa Rosa do Purus', 'AC', -9.4465, -70.4902, 6723),
+  (1200450, 'Senador Guiomard', 'AC', -10.1497, -67.7362, 21454),
+  (1200500, 'Sena Madureira', 'AC', -9.066, -68.6571, 41343),
+  (1200609, 'Tarauacá', 'AC', -8.157, -70.7722, 43467),
+  (1200708, 'Xapuri', 'AC', -10.6516, -68.4969, 18243),
+  (1200807, 'Porto Acre', 'AC', -9.5814, -67.5478, 16693),
+  (1300029, 'Alvarães', 'AM', -3.2273, -64.8007, 15866),
+  (1300060, 'Amaturá', 'AM', -3.3746, -68.2005, 10819),
+  (1300086, 'Anamã', 'AM', -3.567, -61.3963, 9962),
+  (1300102, 'Anori', 'AM', -3.746, -61.6575, 17194),
+  (1300144, 'Apuí', 'AM', -7.1941, -59.896, 20647),
+  (1300201, 'Atalaia do Norte', 'AM', -4.3705, -70.1967, 15314),
+  (1300300, 'Autazes', 'AM', -3.5857, -59.1256, 41564),
+  (1300409, 'Barcelos', 'AM', -0.9834, -62.9311, 18834),
+  (1300508, 'Barreirinha', 'AM', -2.7989, -57.0679, 31051),
+  (1300607, 'Benjamin Constant', 'AM', -4.3777, -70.0342, 37648),
+  (1300631, 'Beruri', 'AM', -3.8987, -61.3616, 20718),
+  (1300680, 'Boa Vista do Ramos', 'AM', -2.9741, -57.5873, 23785),
+  (1300706, 'Boca do Acre', 'AM', -8.7423, -67.3919, 35447),
+  (1300805, 'Borba', 'AM', -4.3915, -59.5874, 33080),
+  (1300839, 'Caapiranga', 'AM', -3.3154, -61.2206, 13469),
+  (1300904, 'Canutama', 'AM', -6.5258, -64.3953, 16869),
+  (1301001, 'Carauari', 'AM', -4.8816, -66.9086, 28742),
+  (1301100, 'Careiro', 'AM', -3.768, -60.369, 30792),
+  (1301159, 'Careiro da Várzea', 'AM', -3.314, -59.5557, 19637),
+  (1301209, 'Coari', 'AM', -4.0941, -63.1441, 70616),
+  (1301308, 'Codajás', 'AM', -3.8305, -62.0658, 23549),
+  (1301407, 'Eirunepé', 'AM', -6.6568, -69.8662, 33170),
+  (1301506, 'Envira', 'AM', -7.4379, -70.0281, 17186),
+  (1301605, 'Fonte Boa', 'AM', -2.5234, -66.0942, 25871),
+  (1301654, 'Guajará', 'AM', -7.538, -72.5907, 13815),
+  (1301704, 'Humaitá', 'AM', -7.5117, -63.0327, 57473),
+  (1301803, 'Ipixuna', 'AM', -7.0479, -71.6934, 24311),
+  (1301852, 'Iranduba', 'AM', -3.2748, -60.19, 61163),
+  (1301902, 'Itacoatiara', 'AM', -3.1386, -58.4449, 103598),
+  (1301951, 'Itamarati', 'AM', -6.4385, -68.2437, 10937),
+  (1302009, 'Itapiranga', 'AM', -2.7408, -58.0293, 10162),
+  (1302108, 'Japurá', 'AM', -1.8824, -66.9291, 8858),
+  (1302207, 'Juruá', 'AM', -3.4844, -66.0718, 10742),
+  (1302306, 'Jutaí', 'AM', -2.7581, -66.7595, 25172),
+  (1302405, 'Lábrea', 'AM', -7.2641, -64.7948, 45448),
+  (1302504, 'Manacapuru', 'AM', -3.2907, -60.6216, 101883),
+  (1302553, 'Manaquiri', 'AM', -3.4408, -60.4612, 17107),
+  (1302603, 'Manaus', 'AM', -3.1187, -60.0212, 2063689),
+  (1302702, 'Manicoré', 'AM', -5.8046, -61.2895, 53914),
+  (1302801, 'Maraã', 'AM', -1.8531, -65.573, 15529),
+  (1302900, 'Maués', 'AM', -3.3929, -57.7067, 61204),
+  (1303007, 'Nhamundá', 'AM', -2.2079, -56.7112, 20136),
+  (1303106, 'Nova Olinda do Norte', 'AM', -3.9004, -59.094, 27062),
+  (1303205, 'Novo Airão', 'AM', -2.6364, -60.9434, 15761),
+  (1303304, 'Novo Aripuanã', 'AM', -5.1259, -60.3732, 23818),
+  (1303403, 'Parintins', 'AM', -2.6374, -56.729, 96372),
+  (1303502, 'Pauini', 'AM', -7.7131, -66.992, 19373),
+  (1303536, 'Presidente Figueiredo', 'AM', -2.0298, -60.0234, 30668),
+  (1303569, 'Rio Preto da Eva', 'AM', -2.7045, -59.6858, 24936),
+  (1303601, 'Santa Isabel do Rio Negro', 'AM', -0.4108, -65.0092, 14164),
+  (1303700, 'Santo Antônio do Içá', 'AM', -3.0954, -67.9463, 28211),
+  (1303809, 'São Gabriel da Cachoeira', 'AM', -0.1191, -67.084, 51795),
+  (1303908, 'São Paulo de Olivença', 'AM', -3.4729, -68.9646, 32967),
+  (1303957, 'São Sebastião do Uatumã', 'AM', -2.5591, -57.8731, 11670),
+  (1304005, 'Silves', 'AM', -2.8175, -58.248, 11559),
+  (1304062, 'Tabatinga', 'AM', -4.2416, -69.9383, 66764),
+  (1304104, 'Tapauá', 'AM', -5.6208, -63.1808, 19599),
+  (1304203, 'Tefé', 'AM', -3.3682, -64.7193, 73669),
+  (1304237, 'Tonantins', 'AM', -2.8658, -67.7919, 19247),
+  (1304260, 'Uarini', 'AM', -2.9961, -65.1133, 14431),
+  (1304302, 'Urucará', 'AM', -2.5294, -57.7538, 18631),
+  (1304401, 'Urucurituba', 'AM', -3.1284, -58.1496, 23945),
+  (1400027, 'Amajari', 'RR', 3.6457, -61.3692, 13927),
+  (1400050, 'Alto Alegre', 'RR', 2.9886, -61.3072, 21096),
+  (1400100, 'Boa Vista', 'RR', 2.8238, -60.6753, 413486),
+  (1400159, 'Bonfim', 'RR', 3.3616, -59.8333, 13923),
+  (1400175, 'Cantá', 'RR', 2.6099, -60.6058, 18682),
+  (1400209, 'Caracaraí', 'RR', 1.8277, -61.1304, 20957),
+  (1400233, 'Caroebe', 'RR', 0.8842, -59.6959, 10656),
+  (1400282, 'Iracema', 'RR', 2.1831, -61.0415, 10023),
+  (1400308, 'Mucajaí', 'RR', 2.44, -60.9096, 18095),
+  (1400407, 'Normandia', 'RR', 3.8853, -59.6204, 13986),
+  (1400456, 'Pacaraima', 'RR', 4.4799, -61.1477, 19305),
+  (1400472, 'Rorainópolis', 'RR', 0.94, -60.4389, 32647),
+  (1400506, 'São João da Baliza', 'RR', 0.9517, -59.9133, 8858),
+  (1400605, 'São Luiz', 'RR', 1.0102, -60.0419, 7315),
+  (1400704, 'Uiramutã', 'RR', 4.6031, -60.1815, 13751),
+  (1500107, 'Abaetetuba', 'PA', -1.7218, -48.8788, 158188),
+  (1500131, 'Abel Figueiredo', 'PA', -4.9533, -48.3933, 6136),
+  (1500206, 'Acará', 'PA', -1.9538, -48.1985, 59023),
+  (1500305, 'Afuá', 'PA', -0.1549, -50.3861, 37765),
+  (1500347, 'Água Azul do Norte', 'PA', -6.7905, -50.4791, 18080),
+  (1500404, 'Alenquer', 'PA', -1.9462, -54.7384, 69377),
+  (1500503, 'Almeirim', 'PA', -1.529, -52.5788, 34280),
+  (1500602, 'Altamira', 'PA', -3.2041, -52.21, 126279),
+  (1500701, 'Anajás', 'PA', -0.9968, -49.9354, 28011),
+  (1500800, 'Ananindeua', 'PA', -1.3639, -48.3743, 478778),
+  (1500859, 'Anapu', 'PA', -3.4699, -51.2003, 31850),
+  (1500909, 'Augusto Corrêa', 'PA', -1.0511, -46.6147, 44573),
+  (1500958, 'Aurora do Pará', 'PA', -2.149, -47.5677, 23774),
+  (1501006, 'Aveiro', 'PA', -3.6084, -55.3199, 18290),
+  (1501105, 'Bagre', 'PA', -1.9006, -50.1987, 31892),
+  (1501204, 'Baião', 'PA', -2.7902, -49.6694, 51641),
+  (1501253, 'Bannach', 'PA', -7.3478, -50.3959, 4031),
+  (1501303, 'Barcarena', 'PA', -1.5119, -48.6195, 126650),
+  (1501402, 'Belém', 'PA', -1.4554, -48.4898, 1303403),
+  (1501451, 'Belterra', 'PA', -2.6361, -54.9374, 18099),
+  (1501501, 'Benevides', 'PA', -1.3618, -48.2434, 63567),
+  (1501576, 'Bom Jesus do Tocantins', 'PA', -5.0424, -48.6047, 18005),
+  (1501600, 'Bonito', 'PA', -1.3675, -47.3066, 12622),
+  (1501709, 'Bragança', 'PA', -1.0613, -46.7826, 123082),
+  (1501725, 'Brasil Novo', 'PA', -3.2979, -52.534, 24718),
+  (1501758, 'Brejo Grande do Araguaia', 'PA', -5.6982, -48.4103, 6783),
+  (1501782, 'Breu Branco', 'PA', -3.7719, -49.5735, 45712),
+  (1501808, 'Breves', 'PA', -1.6804, -50.4791, 106968),
+  (1501907, 'Bujaru', 'PA', -1.5176, -48.0381, 24383),
+  (1501956, 'Cachoeira do Piriá', 'PA', -1.7597, -46.5459, 19630),
+  (1502004, 'Cachoeira do Arari', 'PA', -1.0123, -48.9503, 23981),
+  (1502103, 'Cametá', 'PA', -2.2429, -49.4979, 134184),
+  (1502152, 'Canaã dos Carajás', 'PA', -6.4966, -49.8776, 77079),
+  (1502202, 'Capanema', 'PA', -1.2053, -47.1778, 70394),
+  (1502301, 'Capitão Poço', 'PA', -1.7478, -47.0629, 56506),
+  (1502400, 'Castanhal', 'PA', -1.298, -47.9167, 192256),
+  (1502509, 'Chaves', 'PA', -0.1642, -49.987, 20757),
+  (1502608, 'Colares', 'PA', -0.9364, -48.2803, 12868),
+  (1502707, 'Conceição do Araguaia', 'PA', -8.2614, -49.2689, 44617),
+  (1502756, 'Concórdia do Pará', 'PA', -1.9924, -47.9422, 26881),
+  (1502764, 'Cumaru do Norte', 'PA', -7.811, -50.7698, 14036),
+  (1502772, 'Curionópolis', 'PA', -6.0996, -49.6068, 19950),
+  (1502806, 'Curralinho', 'PA', -1.8118, -49.7952, 33903),
+  (1502855, 'Curuá', 'PA', -1.8878, -55.1168, 14117),
+  (1502905, 'Curuçá', 'PA', -0.7332, -47.8515, 41262),
+  (1502939, 'Dom Eliseu', 'PA', -4.1994, -47.8245, 58484),
+  (1502954, 'Eldorado do Carajás', 'PA', -6.1039, -49.3553, 28192),
+  (1503002, 'Faro', 'PA', -2.1681, -56.7405, 8728),
+  (1503044, 'Floresta do Araguaia', 'PA', -7.5534, -49.7125, 17898),
+  (1503077, 'Garrafão do Norte', 'PA', -1.9299, -47.0505, 24703),
+  (1503093, 'Goianésia do Pará', 'PA', -3.8434, -49.0974, 26362),
+  (1503101, 'Gurupá', 'PA', -1.4141, -51.6338, 31786),
+  (1503200, 'Igarapé-Açu', 'PA', -1.1254, -47.626, 35797),
+  (1503309, 'Igarapé-Miri', 'PA', -1.9753, -48.9575, 64831),
+  (1503408, 'Inhangapi', 'PA', -1.4349, -47.9114, 10325),
+  (1503457, 'Ipixuna do Pará', 'PA', -2.5599, -47.5059, 30329),
+  (1503507, 'Irituia', 'PA', -1.7698, -47.446, 30955),
+  (1503606, 'Itaituba', 'PA', -4.2667, -55.9926, 123314),
+  (1503705, 'Itupiranga', 'PA', -5.1327, -49.3358, 49754),
+  (1503754, 'Jacareacanga', 'PA', -6.2147, -57.7544, 24042),
+  (1503804, 'Jacundá', 'PA', -4.4462, -49.1153, 37707),
+  (1503903, 'Juruti', 'PA', -2.1635, -56.0889, 50881),
+  (1504000, 'Limoeiro do Ajuru', 'PA', -1.8985, -49.3903, 29569),
+  (1504059, 'Mãe do Rio', 'PA', -2.0568, -47.5601, 34353),
+  (1504109, 'Magalhães Barata', 'PA', -0.8034, -47.6014, 8115),
+  (1504208, 'Marabá', 'PA', -5.3807, -49.1327, 266533),
+  (1504307, 'Maracanã', 'PA', -0.7789, -47.452, 25971),
+  (1504406, 'Marapanim', 'PA', -0.7147, -47.7034, 26573),
+  (1504422, 'Marituba', 'PA', -1.36, -48.3421, 111785),
+  (1504455, 'Medicilândia', 'PA', -3.4464, -52.8875, 27094),
+  (1504505, 'Melgaço', 'PA', -1.8032, -50.7149, 27881),
+  (1504604, 'Mocajuba', 'PA', -2.5831, -49.5042, 27198),
+  (1504703, 'Moju', 'PA', -1.8899, -48.7668, 84094),
+  (1504752, 'Mojuí dos Campos', 'PA', -2.6822, -54.6425, 23501),
+  (1504802, 'Monte Alegre', 'PA', -1.9977, -54.0724, 60012),
+  (1504901, 'Muaná', 'PA', -1.5394, -49.2224, 45368),
+  (1504950, 'Nova Esperança do Piriá', 'PA', -2.2669, -46.9731, 20478),
+  (1504976, 'Nova Ipixuna', 'PA', -4.9162, -49.0822, 13955),
+  (1505007, 'Nova Timboteua', 'PA', -1.2087, -47.3921, 12806),
+  (1505031, 'Novo Progresso', 'PA', -7.1435, -55.3786, 33638),
+  (1505064, 'Novo Repartimento', 'PA', -4.2475, -49.9499, 60732),
+  (1505106, 'Óbidos', 'PA', -1.9011, -55.5208, 52229),
+  (1505205, 'Oeiras do Pará', 'PA', -2.0036, -49.8628, 33844),
+  (1505304, 'Oriximiná', 'PA', -1.7599, -55.8579, 68294),
+  (1505403, 'Ourém', 'PA', -1.5417, -47.1126, 17855),
+  (1505437, 'Ourilândia do Norte', 'PA', -6.7529, -51.0858, 32467),
+  (1505486, 'Pacajá', 'PA', -3.8354, -50.6399, 41097),
+  (1505494, 'Palestina do Pará', 'PA', -5.7403, -48.3181, 6885),
+  (1505502, 'Paragominas', 'PA', -3.0021, -47.3527, 105550),
+  (1505536, 'Parauapebas', 'PA', -6.0678, -49.9037, 267836),
+  (1505551, 'Pau D''Arco', 'PA', -1.5977, -46.9268, 6931),
+  (1505601, 'Peixe-Boi', 'PA', -1.1938, -47.324, 8285),
+  (1505635, 'Piçarra', 'PA', -6.4378, -48.8716, 12832),
+  (1505650, 'Placas', 'PA', -3.8681, -54.2124, 18668),
+  (1505700, 'Ponta de Pedras', 'PA', -1.3959, -48.8661, 24984),
+  (1505809, 'Portel', 'PA', -1.9364, -50.8194, 62503),
+  (1505908, 'Porto de Moz', 'PA', -1.7469, -52.2361, 40597),
+  (1506005, 'Prainha', 'PA', -1.798, -53.4779, 35577),
+  (1506104, 'Primavera', 'PA', -0.9454, -47.1253, 10851),
+  (1506112, 'Quatipuru', 'PA', -0.8996, -47.0134, 11524),
+  (1506138, 'Redenção', 'PA', -8.0253, -50.0317, 85597),
+  (1506161, 'Rio Maria', 'PA', -7.3124, -50.0379, 18384),
+  (1506187, 'Rondon do Pará', 'PA', -4.7779, -48.067, 53143),
+  (1506195, 'Rurópolis', 'PA', -4.1003, -54.9092, 35769),
+  (1506203, 'Salinópolis', 'PA', -0.6308, -47.3465, 44772),
+  (1506302, 'Salvaterra', 'PA', -0.7584, -48.5139, 24129),
+  (1506351, 'Santa Bárbara do Pará', 'PA', -1.1922, -48.238, 21087),
+  (1506401, 'Santa Cruz do Arari', 'PA', -0.661, -49.1771, 7445),
+  (1506500, 'Santa Izabel do Pará', 'PA', -1.2969, -48.1606, 73019),
+  (1506559, 'Santa Luzia do Pará', 'PA', -1.5215, -46.9008, 20370),
+  (1506583, 'Santa Maria das Barreiras', 'PA', -8.8578, -49.7215, 16548),
+  (1506609, 'Santa Maria do Pará', 'PA', -1.3539, -47.5712, 24624),
+  (1506708, 'Santana do Araguaia', 'PA', -9.3281, -50.35, 32413),
+  (1506807, 'Santarém', 'PA', -2.4385, -54.6996, 331942),
+  (1506906, 'Santarém Novo', 'PA', -0.931, -47.3855, 6116),
+  (1507003, 'Santo Antônio do Tauá', 'PA', -1.1522, -48.1314, 27461),
+  (1507102, 'São Caetano de Odivelas', 'PA', -0.7473, -48.0246, 16666),
+  (1507151, 'São Domingos do Araguaia', 'PA', -5.5373, -48.7366, 21092),
+  (1507201, 'São Domingos do Capim', 'PA', -1.6877, -47.7665, 30599),
+  (1507300, 'São Félix do Xingu', 'PA', -6.6425, -51.9904, 65418),
+  (1507409, 'São Francisco do Pará', 'PA', -1.1696, -47.7917, 14894),
+  (1507458, 'São Geraldo do Araguaia', 'PA', -6.3947, -48.5592, 24255),
+  (1507466, 'São João da Ponta', 'PA', -0.8579, -47.918, 4430),
+  (1507474, 'São João de Pirabas', 'PA', -0.7802, -47.181, 20689),
+  (1507508, 'São João do Araguaia', 'PA', -5.3633, -48.7926, 13664),
+  (1507607, 'São Miguel do Guamá', 'PA', -1.6131, -47.4784, 52894),
+  (1507706, 'São Sebastião da Boa Vista', 'PA', -1.716, -49.5249, 25643),
+  (1507755, 'Sapucaia', 'PA', -6.9402, -49.6834, 5847),
+  (1507805, 'Senador José Porfírio', 'PA', -4.3124, -51.5764, 22576),
+  (1507904, 'Soure', 'PA', -0.7303, -48.5015, 24204),
+  (1507953, 'Tailândia', 'PA', -2.9458, -48.9489, 72493),
+  (1507961, 'Terra Alta', 'PA', -1.0296, -47.9004, 10400),
+  (1507979, 'Terra Santa', 'PA', -2.1044, -56.4877, 18782),
+  (1508001, 'Tomé-Açu', 'PA', -2.413, -48.1415, 67585),
+  (1508035, 'Tracuateua', 'PA', -1.0765, -46.9031, 28595),
+  (1508050, 'Trairão', 'PA', -4.5735, -55.9429, 15242),
+  (1508084, 'Tucumã', 'PA', -6.7469, -51.1626, 39550),
+  (1508100, 'Tucuruí', 'PA', -3.7657, -49.6773, 91306),
+  (1508126, 'Ulianópolis', 'PA', -3.7501, -47.4892, 37972),
+  (1508159, 'Uruará', 'PA', -3.7152, -53.7396, 43558),
+  (1508209, 'Vigia', 'PA', -0.8612, -48.1386, 50832),
+  (1508308, 'Viseu', 'PA', -1.1912, -46.1399, 58692),
+  (1508357, 'Vitória do Xingu', 'PA', -2.8792, -52.0088, 15607),
+  (1508407, 'Xinguara', 'PA', -7.0983, -49.9437, 52893),
+  (1600055, 'Serra do Navio', 'AP', 0.9014, -52.0036, 4673),
+  (1600105, 'Amapá', 'AP', 2.0527, -50.7957, 7943),
+  (1600154, 'Pedra Branca do Amapari', 'AP', 0.7774, -51.9503, 12847),
+  (1600204, 'Calçoene', 'AP', 2.5048, -50.9512, 10612),
+  (1600212, 'Cutias', 'AP', 0.9708, -50.8005, 4461),
+  (1600238, 'Ferreira Gomes', 'AP', 0.8573, -51.1795, 6666),
+  (1600253, 'Itaubal', 'AP', 0.6022, -50.6996, 5599),
+  (1600279, 'Laranjal do Jari', 'AP', -0.8049, -52.453, 35114),
+  (1600303, 'Macapá', 'AP', 0.0349, -51.0694, 442933),
+  (1600402, 'Mazagão', 'AP', -0.1134, -51.2891, 21924),
+  (1600501, 'Oiapoque', 'AP', 3.8407, -51.8331, 27482),
+  (1600535, 'Porto Grande', 'AP', 0.7124, -51.4155, 17848),
+  (1600550, 'Pracuúba', 'AP', 1.7454, -50.7892, 3803),
+  (1600600, 'Santana', 'AP', -0.0454, -51.1729, 107618),
+  (1600709, 'Tartarugalzinho', 'AP', 1.5065, -50.9087, 12945),
+  (1600808, 'Vitória do Jari', 'AP', -0.938, -52.424, 11291),
+  (1700251, 'Abreulândia', 'TO', -9.621, -49.1518, 2576),
+  (1700301, 'Aguiarnópolis', 'TO', -6.5541, -47.4702, 4497),
+  (1700350, 'Aliança do Tocantins', 'TO', -11.3056, -48.9361, 5147),
+  (1700400, 'Almas', 'TO', -11.5706, -47.1792, 6499),
+  (1700707, 'Alvorada', 'TO', -12.4785, -49.1249, 8802),
+  (1701002, 'Ananás', 'TO', -6.3644, -48.0735, 10325),
+  (1701051, 'Angico', 'TO', -6.3918, -47.8611, 2876),
+  (1701101, 'Aparecida do Rio Negro', 'TO', -9.9414, -47.9638, 4856),
+  (1701309, 'Aragominas', 'TO', -7.1601, -48.5291, 5290),
+  (1701903, 'Araguacema', 'TO', -8.8076, -49.5569, 5927),
+  (1702000, 'Araguaçu', 'TO', -12.9289, -49.8231, 8133),
+  (1702109, 'Araguaína', 'TO', -7.1924, -48.2044, 171301),
+  (1702158, 'Araguanã', 'TO', -6.5823, -48.6395, 4310),
+  (1702208, 'Araguatins', 'TO', -5.6466, -48.1232, 31918),
+  (1702307, 'Arapoema', 'TO', -7.6546, -49.0637, 5550),
+  (1702406, 'Arraias', 'TO', -12.9287, -46.9359, 10287),
+  (1702554, 'Augustinópolis', 'TO', -5.4686, -47.8863, 17484),
+  (1702703, 'Aurora do Tocantins', 'TO', -12.7105, -46.4076, 3342),
+  (1702901, 'Axixá do Tocantins', 'TO', -5.6128, -47.7701, 10262),
+  (1703008, 'Babaçulândia', 'TO', -7.2092, -47.7613, 7880),
+  (1703057, 'Bandeirantes do Tocantins', 'TO', -7.7561, -48.5836, 3407),
+  (1703073, 'Barra do Ouro', 'TO', -7.6959, -47.6776, 4476),
+  (1703107, 'Barrolândia', 'TO', -9.834, -48.7252, 4846),
+  (1703206, 'Bernardo Sayão', 'TO', -7.8748, -48.8893, 4229),
+  (1703305, 'Bom Jesus do Tocantins', 'TO', -8.9631, -48.165, 4038),
+  (1703602, 'Brasilândia do Tocantins', 'TO', -8.3892, -48.4822, 1974),
+  (1703701, 'Brejinho de Nazaré', 'TO', -11.0058, -48.5683, 4725),
+  (1703800, 'Buriti do Tocantins', 'TO', -5.3145, -48.2271, 10307),
+  (1703826, 'Cachoeirinha', 'TO', -6.1156, -47.9234, 1961),
+  (1703842, 'Campos Lindos', 'TO', -7.9896, -46.8645, 8653),
+  (1703867, 'Cariri do Tocantins', 'TO', -11.8881, -49.1609, 4007),
+  (1703883, 'Carmolândia', 'TO', -7.0326, -48.3978, 2201),
+  (1703891, 'Carrasco Bonito', 'TO', -5.3141, -48.0314, 3318),
+  (1703909, 'Caseara', 'TO', -9.2761, -49.9521, 4847),
+  (1704105, 'Centenário', 'TO', -8.961, -47.3304, 2131),
+  (1704600, 'Chapada de Areia', 'TO', -10.1419, -49.1403, 1501),
+  (1705102, 'Chapada da Natividade', 'TO', -11.6175, -47.7486, 3117),
+  (1705508, 'Colinas do Tocantins', 'TO', -8.0576, -48.4757, 34233),
+  (1705557, 'Combinado', 'TO', -12.7917, -46.5388, 4756),
+  (1705607, 'Conceição do Tocantins', 'TO', -12.2209, -47.2951, 3887),
+  (1706001, 'Couto Magalhães', 'TO', -8.2841, -49.2473, 5331),
+  (1706100, 'Cristalândia', 'TO', -10.5985, -49.1942, 6371),
+  (1706258, 'Crixás do Tocantins', 'TO', -11.0994, -48.9152, 1470),
+  (1706506, 'Darcinópolis', 'TO', -6.7159, -47.7597, 5827),
+  (1707009, 'Dianópolis', 'TO', -11.624, -46.8198, 17739),
+  (1707108, 'Divinópolis do Tocantins', 'TO', -9.8002, -49.2169, 7024),
+  (1707207, 'Dois Irmãos do Tocantins', 'TO', -9.2553, -49.0638, 6327),
+  (1707306, 'Dueré', 'TO', -11.3416, -49.2716, 4248),
+  (1707405, 'Esperantina', 'TO', -5.3659, -48.5378, 7530),
+  (1707553, 'Fátima', 'TO', -10.7603, -48.9076, 3467),
+  (1707652, 'Figueirópolis', 'TO', -12.1312, -49.1748, 5211),
+  (1707702, 'Filadélfia', 'TO', -7.335, -47.4954, 7712),
+  (1708205, 'Formoso do Araguaia', 'TO', -11.7976, -49.5316, 18881),
+  (1708254, 'Tabocão', 'TO', -9.0561, -48.5206, 3455),
+  (1708304, 'Goianorte', 'TO', -8.7741, -48.9313, 4738),
+  (1709005, 'Goiatins', 'TO', -7.7148, -47.3252, 12433),
+  (1709302, 'Guaraí', 'TO', -8.8354, -48.5114, 24775),
+  (1709500, 'Gurupi', 'TO', -11.7279, -49.068, 85125),
+  (1709807, 'Ipueiras', 'TO', -11.2329, -48.46, 1590),
+  (1710508, 'Itacajá', 'TO', -8.3929, -47.7726, 6819),
+  (1710706, 'Itaguatins', 'TO', -5.7727, -47.4864, 5172),
+  (1710904, 'Itapiratins', 'TO', -8.3798, -48.1072, 3577),
+  (1711100, 'Itaporã do Tocantins', 'TO', -8.5717, -48.6895, 2404),
+  (1711506, 'Jaú do Tocantins', 'TO', -12.6509, -48.589, 3334),
+  (1711803, 'Juarina', 'TO', -8.1195, -49.0643, 2243),
+  (1711902, 'Lagoa da Confusão', 'TO', -10.7906, -49.6199, 15288),
+  (1711951, 'Lagoa do Tocantins', 'TO', -10.368, -47.538, 3516),
+  (1712009, 'Lajeado', 'TO', -9.75, -48.3565, 3357),
+  (1712157, 'Lavandeira', 'TO', -12.7847, -46.5099, 1626),
+  (1712405, 'Lizarda', 'TO', -9.59, -46.6738, 2999),
+  (1712454, 'Luzinópolis', 'TO', -6.1779, -47.8582, 2717),
+  (1712504, 'Marianópolis do Tocantins', 'TO', -9.7938, -49.6553, 4615),
+  (1712702, 'Mateiros', 'TO', -10.5464, -46.4168, 2748),
+  (1712801, 'Maurilândia do Tocantins', 'TO', -5.9517, -47.5125, 3095),
+  (1713205, 'Miracema do Tocantins', 'TO', -9.5656, -48.393, 18566),
+  (1713304, 'Miranorte', 'TO', -9.5291, -48.5922, 12701),
+  (1713601, 'Monte do Carmo', 'TO', -10.7611, -48.1114, 5694),
+  (1713700, 'Monte Santo do Tocantins', 'TO', -10.0075, -48.9941, 2396),
+  (1713809, 'Palmeiras do Tocantins', 'TO', -6.6166, -47.5464, 4872),
+  (1713957, 'Muricilândia', 'TO', -7.1467, -48.6091, 3367),
+  (1714203, 'Natividade', 'TO', -11.7034, -47.7223, 8754),
+  (1714302, 'Nazaré', 'TO', -6.375, -47.6643, 4521),
+  (1714880, 'Nova Olinda', 'TO', -7.6317, -48.4252, 10367),
+  (1715002, 'Nova Rosalândia', 'TO', -10.5651, -48.9125, 3362),
+  (1715101, 'Novo Acordo', 'TO', -9.9706, -47.6785, 3969),
+  (1715150, 'Novo Alegre', 'TO', -12.9217, -46.5713, 1846),
+  (1715259, 'Novo Jardim', 'TO', -11.826, -46.6325, 2230),
+  (1715507, 'Oliveira de Fátima', 'TO', -10.707, -48.9086, 1164),
+  (1715705, 'Palmeirante', 'TO', -7.8479, -47.9242, 4798),
+  (1715754, 'Palmeirópolis', 'TO', -13.0447, -48.4026, 6975),
+  (1716109, 'Paraíso do Tocantins', 'TO', -10.175, -48.8823, 52360),
+  (1716208, 'Paranã', 'TO', -12.6167, -47.8734, 10542),
+  (1716307, 'Pau D''Arco', 'TO', -7.5392, -49.367, 4043),
+  (1716505, 'Pedro Afonso', 'TO', -8.9703, -48.1729, 14055),
+  (1716604, 'Peixe', 'TO', -12.0254, -48.5395, 9317),
+  (1716653, 'Pequizeiro', 'TO', -8.5932, -48.9327, 4921),
+  (1716703, 'Colméia', 'TO', -8.7246, -48.7638, 8941),
+  (1717008, 'Pindorama do Tocantins', 'TO', -11.1311, -47.5726, 4478),
+  (1717206, 'Piraquê', 'TO', -6.773, -48.2958, 2282),
+  (1717503, 'Pium', 'TO', -10.442, -49.1876, 7128),
+  (1717800, 'Ponte Alta do Bom Jesus', 'TO', -12.0853, -46.4825, 4220),
+  (1717909, 'Ponte Alta do Tocantins', 'TO', -10.7481, -47.5276, 7586),
+  (1718006, 'Porto Alegre do Tocantins', 'TO', -11.618, -47.0621, 2866),
+  (1718204, 'Porto Nacional', 'TO', -10.7027, -48.408, 64418),
+  (1718303, 'Praia Norte', 'TO', -5.3928, -47.8111, 9044),
+  (1718402, 'Presidente Kennedy', 'TO', -8.5406, -48.5062, 3047),
+  (1718451, 'Pugmil', 'TO', -10.424, -48.8957, 2193),
+  (1718501, 'Recursolândia', 'TO', -8.7227, -47.2421, 3421),
+  (1718550, 'Riachinho', 'TO', -6.4401, -48.1371, 3960),
+  (1718659, 'Rio da Conceição', 'TO', -11.3949, -46.8847, 1768),
+  (1718709, 'Rio dos Bois', 'TO', -9.3443, -48.5245, 2738),
+  (1718758, 'Rio Sono', 'TO', -9.35, -47.888, 4841),
+  (1718808, 'Sampaio', 'TO', -5.3542, -47.8782, 4215),
+  (1718840, 'Sandolândia', 'TO', -12.538, -49.9242, 3723),
+  (1718865, 'Santa Fé do Araguaia', 'TO', -7.158, -48.7165, 7216),
+  (1718881, 'Santa Maria do Tocantins', 'TO', -8.8046, -47.7887, 2680),
+  (1718899, 'Santa Rita do Tocantins', 'TO', -10.8617, -48.9161, 2219),
+  (1718907, 'Santa Rosa do Tocantins', 'TO', -11.4474, -48.1216, 4653),
+  (1719004, 'Santa Tereza do Tocantins', 'TO', -10.2746, -47.8033, 2781),
+  (1720002, 'Santa Terezinha do Tocantins', 'TO', -6.4444, -47.6684, 2406),
+  (1720101, 'São Bento do Tocantins', 'TO', -6.0258, -47.9012, 5654),
+  (1720150, 'São Félix do Tocantins', 'TO', -10.1615, -46.6618, 1783),
+  (1720200, 'São Miguel do Tocantins', 'TO', -5.563, -47.5743, 13241),
+  (1720259, 'São Salvador do Tocantins', 'TO', -12.7458, -48.2352, 2385),
+  (1720309, 'São Sebastião do Tocantins', 'TO', -5.2613, -48.2021, 4100),
+  (1720499, 'São Valério', 'TO', -11.9743, -48.2353, 4422),
+  (1720655, 'Silvanópolis', 'TO', -11.1471, -48.1694, 5108),
+  (1720804, 'Sítio Novo do Tocantins', 'TO', -5.6012, -47.6381, 10830),
+  (1720853, 'Sucupira', 'TO', -11.993, -48.9685, 1577),
+  (1720903, 'Taguatinga', 'TO', -12.4026, -46.437, 14011),
+  (1720937, 'Taipas do Tocantins', 'TO', -12.1873, -46.9797, 2021),
+  (1720978, 'Talismã', 'TO', -12.7949, -49.0896, 2456),
+  (1721000, 'Palmas', 'TO', -10.24, -48.3558, 302692),
+  (1721109, 'Tocantínia', 'TO', -9.5632, -48.3741, 7459),
+  (1721208, 'Tocantinópolis', 'TO', -6.3245, -47.4224, 22615),
+  (1721257, 'Tupirama', 'TO', -8.9717, -48.1883, 1909),
+  (1721307, 'Tupiratins', 'TO', -8.3939, -48.1277, 1874),
+  (1722081, 'Wanderlândia', 'TO', -6.8527, -47.9601, 10522),
+  (1722107, 'Xambioá', 'TO', -6.4141, -48.532, 10517),
+  (2100055, 'Açailândia', 'MA', -4.9471, -47.5004, 106550),
+  (2100105, 'Afonso Cunha', 'MA', -4.1363, -43.3275, 6144),
+  (2100154, 'Água Doce do Maranhão', 'MA', -2.8405, -42.1189, 12142),
+  (2100204, 'Alcântara', 'MA', -2.3957, -44.4062, 18467),
+  (2100303, 'Aldeias Altas', 'MA', -4.6262, -43.4689, 23286),
+  (2100402, 'Altamira do Maranhão', 'MA', -4.166, -45.4706, 6447),
+  (2100436, 'Alto Alegre do Maranhão', 'MA', -4.213, -44.446, 24048),
+  (2100477, 'Alto Alegre do Pindaré', 'MA', -3.6669, -45.8421, 25710),
+  (2100501, 'Alto Parnaíba', 'MA', -9.1027, -45.9303, 11109),
+  (2100550, 'Amapá do Maranhão', 'MA', -1.6752, -46.0024, 7170),
+  (2100600, 'Amarante do Maranhão', 'MA', -5.5691, -46.7473, 37085),
+  (2100709, 'Anajatuba', 'MA', -3.2627, -44.6126, 25322),
+  (2100808, 'Anapurus', 'MA', -3.6758, -43.1014, 13793),
+  (2100832, 'Apicum-Açu', 'MA', -1.4586, -45.0864, 17519),
+  (2100873, 'Araguanã', 'MA', -2.9464, -45.6589, 11181),
+  (2100907, 'Araioses', 'MA', -2.8909, -41.905, 39052),
+  (2100956, 'Arame', 'MA', -4.8835, -46.0032, 25517),
+  (2101004, 'Arari', 'MA', -3.4521, -44.7665, 29472),
+  (2101103, 'Axixá', 'MA', -2.8394, -44.062, 11790),
+  (2101202, 'Bacabal', 'MA', -4.2245, -44.7832, 103711),
+  (2101251, 'Bacabeira', 'MA', -2.9645, -44.3164, 16966),
+  (2101301, 'Bacuri', 'MA', -1.6965, -45.1328, 16290),
+  (2101350, 'Bacurituba', 'MA', -2.71, -44.7329, 5252),
+  (2101400, 'Balsas', 'MA', -7.5321, -46.0372, 101767),
+  (2101509, 'Barão de Grajaú', 'MA', -6.7446, -43.0261, 18984),
+  (2101608, 'Barra do Corda', 'MA', -5.4968, -45.2485, 84532),
+  (2101707, 'Barreirinhas', 'MA', -2.7586, -42.8232, 65589),
+  (2101731, 'Belágua', 'MA', -3.1549, -43.5122, 8460),
+  (2101772, 'Bela Vista do Maranhão', 'MA', -3.7262, -45.3075, 11750),
+  (2101806, 'Benedito Leite', 'MA', -7.2104, -44.5577, 5469),
+  (2101905, 'Bequimão', 'MA', -2.4416, -44.7842, 19584),
+  (2101939, 'Bernardo do Mearim', 'MA', -4.6267, -44.7608, 5840),
+  (2101970, 'Boa Vista do Gurupi', 'MA', -1.7761, -46.3002, 7574),
+  (2102002, 'Bom Jardim', 'MA', -3.5413, -45.606, 33100),
+  (2102036, 'Bom Jesus das Selvas', 'MA', -4.4764, -46.8641, 28599),
+  (2102077, 'Bom Lugar', 'MA', -4.3731, -45.0326, 12212),
+  (2102101, 'Brejo', 'MA', -3.678, -42.7527, 34120),
+  (2102150, 'Brejo de Areia', 'MA', -4.334, -45.581, 9218),
+  (2102200, 'Buriti', 'MA', -3.9417, -42.9179, 29685),
+  (2102309, 'Buriti Bravo', 'MA', -5.8324, -43.8353, 22455),
+  (2102325, 'Buriticupu', 'MA', -4.3238, -46.4409, 55499),
+  (2102358, 'Buritirana', 'MA', -5.5982, -47.0131, 12918),
+  (2102374, 'Cachoeira Grande', 'MA', -2.9307, -44.0528, 9732),
+  (2102408, 'Cajapió', 'MA', -2.8733, -44.6741, 10121),
+  (2102507, 'Cajari', 'MA', -3.3274, -45.0145, 16412),
+  (2102556, 'Campestre do Maranhão', 'MA', -6.1707, -47.3625, 12301),
+  (2102606, 'Cândido Mendes', 'MA', -1.4326, -45.7161, 19932),
+  (2102705, 'Cantanhede', 'MA', -3.6376, -44.383, 24303),
+  (2102754, 'Capinzal do Norte', 'MA', -4.7236, -44.328, 11374),
+  (2102804, 'Carolina', 'MA', -7.3358, -47.4634, 24062);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (2102903, 'Carutapera', 'MA', -1.197, -46.0085, 24238),
+  (2103000, 'Caxias', 'MA', -4.8651, -43.3617, 156973),
+  (2103109, 'Cedral', 'MA', -2.0003, -44.5281, 10208),
+  (2103125, 'Central do Maranhão', 'MA', -2.1983, -44.8254, 7094),
+  (2103158, 'Centro do Guilherme', 'MA', -2.4489, -46.0345, 12342),
+  (2103174, 'Centro Novo do Maranhão', 'MA', -2.127, -46.1228, 16267),
+  (2103208, 'Chapadinha', 'MA', -3.7388, -43.3538, 81386),
+  (2103257, 'Cidelândia', 'MA', -5.1746, -47.7781, 12878),
+  (2103307, 'Codó', 'MA', -4.4556, -43.8924, 114275),
+  (2103406, 'Coelho Neto', 'MA', -4.2524, -43.0108, 41658),
+  (2103505, 'Colinas', 'MA', -6.032, -44.2543, 40316),
+  (2103554, 'Conceição do Lago-Açu', 'MA', -3.8514, -44.8895, 14915),
+  (2103604, 'Coroatá', 'MA', -4.1344, -44.1244, 59566),
+  (2103703, 'Cururupu', 'MA', -1.8148, -44.8644, 31558),
+  (2103752, 'Davinópolis', 'MA', -5.5464, -47.4217, 14404),
+  (2103802, 'Dom Pedro', 'MA', -5.0352, -44.4409, 23053),
+  (2103901, 'Duque Bacelar', 'MA', -4.15, -42.9477, 10223),
+  (2104008, 'Esperantinópolis', 'MA', -4.8794, -44.6926, 18311),
+  (2104057, 'Estreito', 'MA', -6.5608, -47.4431, 33294),
+  (2104073, 'Feira Nova do Maranhão', 'MA', -6.9651, -46.6786, 8048),
+  (2104081, 'Fernando Falcão', 'MA', -6.1621, -44.8979, 10873),
+  (2104099, 'Formosa da Serra Negra', 'MA', -6.4402, -46.1916, 17719),
+  (2104107, 'Fortaleza dos Nogueiras', 'MA', -6.9598, -46.1749, 12640),
+  (2104206, 'Fortuna', 'MA', -5.7279, -44.1565, 16976),
+  (2104305, 'Godofredo Viana', 'MA', -1.4026, -45.7795, 10186),
+  (2104404, 'Gonçalves Dias', 'MA', -5.1475, -44.3013, 17206),
+  (2104503, 'Governador Archer', 'MA', -5.0208, -44.2754, 10231),
+  (2104552, 'Governador Edison Lobão', 'MA', -5.7497, -47.3646, 18411),
+  (2104602, 'Governador Eugênio Barros', 'MA', -5.319, -44.2469, 13930),
+  (2104628, 'Governador Luiz Rocha', 'MA', -5.4783, -44.0774, 7063),
+  (2104651, 'Governador Newton Bello', 'MA', -3.4324, -45.6619, 10713),
+  (2104677, 'Governador Nunes Freire', 'MA', -2.129, -45.8777, 23128),
+  (2104701, 'Graça Aranha', 'MA', -5.4055, -44.3358, 6023),
+  (2104800, 'Grajaú', 'MA', -5.8137, -46.1462, 73872),
+  (2104909, 'Guimarães', 'MA', -2.1275, -44.602, 10290),
+  (2105005, 'Humberto de Campos', 'MA', -2.5983, -43.4649, 25680),
+  (2105104, 'Icatu', 'MA', -2.7721, -44.0501, 24794),
+  (2105153, 'Igarapé do Meio', 'MA', -3.6577, -45.2114, 13974),
+  (2105203, 'Igarapé Grande', 'MA', -4.6625, -44.8558, 10231),
+  (2105302, 'Imperatriz', 'MA', -5.5185, -47.4777, 273110),
+  (2105351, 'Itaipava do Grajaú', 'MA', -5.1425, -45.7877, 13828),
+  (2105401, 'Itapecuru Mirim', 'MA', -3.402, -44.3508, 60440),
+  (2105427, 'Itinga do Maranhão', 'MA', -4.4529, -47.5235, 22513),
+  (2105450, 'Jatobá', 'MA', -5.8228, -44.2153, 7471),
+  (2105476, 'Jenipapo dos Vieiras', 'MA', -5.3624, -45.6356, 17076),
+  (2105500, 'João Lisboa', 'MA', -5.4436, -47.4064, 24709),
+  (2105609, 'Joselândia', 'MA', -4.9861, -44.6958, 14924),
+  (2105658, 'Junco do Maranhão', 'MA', -1.8389, -46.09, 5146),
+  (2105708, 'Lago da Pedra', 'MA', -4.5697, -45.1319, 44403),
+  (2105807, 'Lago do Junco', 'MA', -4.609, -45.049, 9506),
+  (2105906, 'Lago Verde', 'MA', -3.9466, -44.826, 14769),
+  (2105922, 'Lagoa do Mato', 'MA', -6.0502, -43.5333, 10572),
+  (2105948, 'Lago dos Rodrigues', 'MA', -4.6117, -44.9798, 8758),
+  (2105963, 'Lagoa Grande do Maranhão', 'MA', -4.9889, -45.3816, 11411),
+  (2105989, 'Lajeado Novo', 'MA', -6.1854, -47.0293, 7057),
+  (2106003, 'Lima Campos', 'MA', -4.5184, -44.4646, 11297),
+  (2106102, 'Loreto', 'MA', -7.0811, -45.1451, 11597),
+  (2106201, 'Luís Domingues', 'MA', -1.2749, -45.867, 7161),
+  (2106300, 'Magalhães de Almeida', 'MA', -3.3923, -42.2117, 13807),
+  (2106326, 'Maracaçumé', 'MA', -2.0492, -45.9587, 21149),
+  (2106359, 'Marajá do Sena', 'MA', -4.6281, -45.4531, 7027),
+  (2106375, 'Maranhãozinho', 'MA', -2.2408, -45.8507, 13761),
+  (2106409, 'Mata Roma', 'MA', -3.6204, -43.1112, 17090),
+  (2106508, 'Matinha', 'MA', -3.0985, -45.035, 22034),
+  (2106607, 'Matões', 'MA', -5.5136, -43.2018, 32174),
+  (2106631, 'Matões do Norte', 'MA', -3.6244, -44.5468, 17432),
+  (2106672, 'Milagres do Maranhão', 'MA', -3.5744, -42.6131, 8818),
+  (2106706, 'Mirador', 'MA', -6.3745, -44.3683, 21030),
+  (2106755, 'Miranda do Norte', 'MA', -3.5631, -44.5814, 23864),
+  (2106805, 'Mirinzal', 'MA', -2.0709, -44.7787, 13978),
+  (2106904, 'Monção', 'MA', -3.4813, -45.2496, 27751),
+  (2107001, 'Montes Altos', 'MA', -5.8307, -47.0673, 9106),
+  (2107100, 'Morros', 'MA', -2.8538, -44.0357, 18554),
+  (2107209, 'Nina Rodrigues', 'MA', -3.4679, -43.9134, 14176),
+  (2107258, 'Nova Colinas', 'MA', -7.1226, -46.2607, 5021),
+  (2107308, 'Nova Iorque', 'MA', -6.7305, -44.0471, 4320),
+  (2107357, 'Nova Olinda do Maranhão', 'MA', -2.8423, -45.6953, 14314),
+  (2107407, 'Olho d''Água das Cunhãs', 'MA', -4.1342, -45.1163, 17919),
+  (2107456, 'Olinda Nova do Maranhão', 'MA', -2.9929, -44.9897, 13577),
+  (2107506, 'Paço do Lumiar', 'MA', -2.5166, -44.1019, 145643),
+  (2107605, 'Palmeirândia', 'MA', -2.6443, -44.8933, 21059),
+  (2107704, 'Paraibano', 'MA', -6.4264, -43.9792, 18274),
+  (2107803, 'Parnarama', 'MA', -5.6737, -43.1011, 31250),
+  (2107902, 'Passagem Franca', 'MA', -6.1775, -43.7755, 17220),
+  (2108009, 'Pastos Bons', 'MA', -6.603, -44.0745, 18802),
+  (2108058, 'Paulino Neves', 'MA', -2.7209, -42.5258, 17056),
+  (2108108, 'Paulo Ramos', 'MA', -4.4448, -45.2398, 20341),
+  (2108207, 'Pedreiras', 'MA', -4.5648, -44.6006, 37050),
+  (2108256, 'Pedro do Rosário', 'MA', -2.9727, -45.3493, 24320),
+  (2108306, 'Penalva', 'MA', -3.2767, -45.1768, 32511),
+  (2108405, 'Peri Mirim', 'MA', -2.5768, -44.8504, 11108),
+  (2108454, 'Peritoró', 'MA', -4.3746, -44.3369, 20479),
+  (2108504, 'Pindaré-Mirim', 'MA', -3.6098, -45.342, 31429),
+  (2108603, 'Pinheiro', 'MA', -2.5222, -45.0788, 84621),
+  (2108702, 'Pio XII', 'MA', -3.8931, -45.1759, 21886),
+  (2108801, 'Pirapemas', 'MA', -3.7204, -44.2216, 17714),
+  (2108900, 'Poção de Pedras', 'MA', -4.7463, -44.9432, 17161),
+  (2109007, 'Porto Franco', 'MA', -6.3415, -47.3962, 23903),
+  (2109056, 'Porto Rico do Maranhão', 'MA', -1.8593, -44.5842, 5954),
+  (2109106, 'Presidente Dutra', 'MA', -5.2898, -44.495, 45155),
+  (2109205, 'Presidente Juscelino', 'MA', -2.9187, -44.0715, 11356),
+  (2109239, 'Presidente Médici', 'MA', -2.3899, -45.82, 4696),
+  (2109270, 'Presidente Sarney', 'MA', -2.588, -45.3595, 17511),
+  (2109304, 'Presidente Vargas', 'MA', -3.4079, -44.0234, 10549),
+  (2109403, 'Primeira Cruz', 'MA', -2.5057, -43.4232, 13614),
+  (2109452, 'Raposa', 'MA', -2.4254, -44.0973, 30839),
+  (2109502, 'Riachão', 'MA', -7.3582, -46.6225, 22145),
+  (2109551, 'Ribamar Fiquene', 'MA', -5.9307, -47.3888, 7420),
+  (2109601, 'Rosário', 'MA', -2.9344, -44.2531, 38475),
+  (2109700, 'Sambaíba', 'MA', -7.1345, -45.3515, 5568),
+  (2109759, 'Santa Filomena do Maranhão', 'MA', -5.4967, -44.5638, 6697),
+  (2109809, 'Santa Helena', 'MA', -2.2443, -45.29, 41561),
+  (2109908, 'Santa Inês', 'MA', -3.6511, -45.3774, 85014),
+  (2110005, 'Santa Luzia', 'MA', -4.0687, -45.69, 57635),
+  (2110039, 'Santa Luzia do Paruá', 'MA', -2.5112, -45.7801, 24307),
+  (2110104, 'Santa Quitéria do Maranhão', 'MA', -3.4931, -42.5688, 23957),
+  (2110203, 'Santa Rita', 'MA', -3.1424, -44.3211, 37035),
+  (2110237, 'Santana do Maranhão', 'MA', -3.109, -42.4064, 10567),
+  (2110278, 'Santo Amaro do Maranhão', 'MA', -2.5007, -43.238, 13949),
+  (2110302, 'Santo Antônio dos Lopes', 'MA', -4.8661, -44.3653, 14304),
+  (2110401, 'São Benedito do Rio Preto', 'MA', -3.3352, -43.5287, 18364),
+  (2110500, 'São Bento', 'MA', -2.6978, -44.8289, 46395),
+  (2110609, 'São Bernardo', 'MA', -3.3722, -42.4191, 26943),
+  (2110658, 'São Domingos do Azeitão', 'MA', -6.8147, -44.6509, 7992),
+  (2110708, 'São Domingos do Maranhão', 'MA', -5.5809, -44.3822, 34034),
+  (2110807, 'São Félix de Balsas', 'MA', -7.0754, -44.8092, 4402),
+  (2110856, 'São Francisco do Brejão', 'MA', -5.1258, -47.389, 9051),
+  (2110906, 'São Francisco do Maranhão', 'MA', -6.2516, -42.8668, 12064),
+  (2111003, 'São João Batista', 'MA', -2.954, -44.7953, 18544),
+  (2111029, 'São João do Carú', 'MA', -3.5503, -46.2507, 12251),
+  (2111052, 'São João do Paraíso', 'MA', -6.4563, -47.0594, 9904),
+  (2111078, 'São João do Soter', 'MA', -5.1082, -43.8163, 16889),
+  (2111102, 'São João dos Patos', 'MA', -6.4934, -43.7036, 25020),
+  (2111201, 'São José de Ribamar', 'MA', -2.547, -44.0597, 244579),
+  (2111250, 'São José dos Basílios', 'MA', -5.0549, -44.5809, 6957),
+  (2111300, 'São Luís', 'MA', -2.5387, -44.2825, 1037775),
+  (2111409, 'São Luís Gonzaga do Maranhão', 'MA', -4.3854, -44.6654, 17818),
+  (2111508, 'São Mateus do Maranhão', 'MA', -4.0374, -44.4707, 38829),
+  (2111532, 'São Pedro da Água Branca', 'MA', -5.0847, -48.4291, 14338),
+  (2111573, 'São Pedro dos Crentes', 'MA', -6.8239, -46.5319, 5783),
+  (2111607, 'São Raimundo das Mangabeiras', 'MA', -7.0218, -45.4809, 18672),
+  (2111631, 'São Raimundo do Doca Bezerra', 'MA', -5.1105, -45.0696, 5650),
+  (2111672, 'São Roberto', 'MA', -5.0231, -45.001, 4544),
+  (2111706, 'São Vicente Ferrer', 'MA', -2.8949, -44.8681, 19498),
+  (2111722, 'Satubinha', 'MA', -4.0491, -45.2457, 8784),
+  (2111748, 'Senador Alexandre Costa', 'MA', -5.251, -44.0533, 10207),
+  (2111763, 'Senador La Rocque', 'MA', -5.4461, -47.2959, 14700),
+  (2111789, 'Serrano do Maranhão', 'MA', -1.8523, -45.1207, 10202),
+  (2111805, 'Sítio Novo', 'MA', -5.876, -46.7033, 17074),
+  (2111904, 'Sucupira do Norte', 'MA', -6.4784, -44.1919, 10238),
+  (2111953, 'Sucupira do Riachão', 'MA', -6.4086, -43.5455, 4985),
+  (2112001, 'Tasso Fragoso', 'MA', -8.4662, -45.7536, 8862),
+  (2112100, 'Timbiras', 'MA', -4.256, -43.932, 26484),
+  (2112209, 'Timon', 'MA', -5.0977, -42.8329, 174465),
+  (2112233, 'Trizidela do Vale', 'MA', -4.538, -44.628, 22484),
+  (2112274, 'Tufilândia', 'MA', -3.6736, -45.6238, 5507),
+  (2112308, 'Tuntum', 'MA', -5.2548, -44.6444, 36251),
+  (2112407, 'Turiaçu', 'MA', -1.6589, -45.3798, 37491),
+  (2112456, 'Turilândia', 'MA', -2.2164, -45.3044, 31638),
+  (2112506, 'Tutóia', 'MA', -2.7614, -42.2755, 53356),
+  (2112605, 'Urbano Santos', 'MA', -3.2064, -43.3878, 32812),
+  (2112704, 'Vargem Grande', 'MA', -3.5364, -43.917, 43261),
+  (2112803, 'Viana', 'MA', -3.2045, -44.9912, 51442),
+  (2112852, 'Vila Nova dos Martírios', 'MA', -5.1889, -48.1336, 10362),
+  (2112902, 'Vitória do Mearim', 'MA', -3.4512, -44.8643, 30805),
+  (2113009, 'Vitorino Freire', 'MA', -4.2818, -45.2505, 30845),
+  (2114007, 'Zé Doca', 'MA', -3.2701, -45.6553, 40801),
+  (2200053, 'Acauã', 'PI', -8.2195, -41.0831, 6420),
+  (2200103, 'Agricolândia', 'PI', -5.7968, -42.6664, 4940),
+  (2200202, 'Água Branca', 'PI', -5.8886, -42.637, 17573),
+  (2200251, 'Alagoinha do Piauí', 'PI', -7.0004, -40.9282, 6819),
+  (2200277, 'Alegrete do Piauí', 'PI', -7.242, -40.8566, 4634),
+  (2200301, 'Alto Longá', 'PI', -5.2563, -42.2096, 13479),
+  (2200400, 'Altos', 'PI', -5.0389, -42.4612, 47453),
+  (2200459, 'Alvorada do Gurguéia', 'PI', -8.4242, -43.777, 5322),
+  (2200509, 'Amarante', 'PI', -6.243, -42.8433, 17234),
+  (2200608, 'Angical do Piauí', 'PI', -6.0879, -42.74, 6827),
+  (2200707, 'Anísio de Abreu', 'PI', -9.1856, -43.0494, 9407),
+  (2200806, 'Antônio Almeida', 'PI', -7.2128, -44.1889, 3152),
+  (2200905, 'Aroazes', 'PI', -6.1102, -41.7822, 5369),
+  (2200954, 'Aroeiras do Itaim', 'PI', -7.245, -41.5325, 2690),
+  (2201002, 'Arraial', 'PI', -6.6508, -42.5418, 4520),
+  (2201051, 'Assunção do Piauí', 'PI', -5.865, -41.0389, 7452),
+  (2201101, 'Avelino Lopes', 'PI', -10.1345, -43.9563, 10866),
+  (2201150, 'Baixa Grande do Ribeiro', 'PI', -7.849, -45.219, 13272),
+  (2201176, 'Barra D''Alcântara', 'PI', -6.5164, -42.1146, 3995),
+  (2201200, 'Barras', 'PI', -4.2447, -42.2922, 47938),
+  (2201309, 'Barreiras do Piauí', 'PI', -9.9296, -45.4702, 3264),
+  (2201408, 'Barro Duro', 'PI', -5.8167, -42.5147, 6640),
+  (2201507, 'Batalha', 'PI', -4.0223, -42.0787, 26300),
+  (2201556, 'Bela Vista do Piauí', 'PI', -7.9881, -41.8675, 4091),
+  (2201572, 'Belém do Piauí', 'PI', -7.3665, -40.9688, 3423),
+  (2201606, 'Beneditinos', 'PI', -5.4568, -42.3638, 9929),
+  (2201705, 'Bertolínia', 'PI', -7.6334, -43.9498, 5562),
+  (2201739, 'Betânia do Piauí', 'PI', -8.1438, -40.7989, 6220),
+  (2201770, 'Boa Hora', 'PI', -4.414, -42.1357, 6902),
+  (2201804, 'Bocaina', 'PI', -6.9412, -41.3168, 4078),
+  (2201903, 'Bom Jesus', 'PI', -9.0712, -44.359, 28796),
+  (2201919, 'Bom Princípio do Piauí', 'PI', -3.1963, -41.6403, 5636),
+  (2201929, 'Bonfim do Piauí', 'PI', -9.1605, -42.8865, 5913),
+  (2201945, 'Boqueirão do Piauí', 'PI', -4.4818, -42.1212, 6545),
+  (2201960, 'Brasileira', 'PI', -4.1337, -41.7859, 8436),
+  (2201988, 'Brejo do Piauí', 'PI', -8.2031, -42.8229, 3904),
+  (2202000, 'Buriti dos Lopes', 'PI', -3.1826, -41.8695, 19654),
+  (2202026, 'Buriti dos Montes', 'PI', -5.3058, -41.0933, 7434),
+  (2202059, 'Cabeceiras do Piauí', 'PI', -4.4773, -42.3069, 10212),
+  (2202075, 'Cajazeiras do Piauí', 'PI', -6.7967, -42.3903, 3108),
+  (2202083, 'Cajueiro da Praia', 'PI', -2.9311, -41.3408, 7957),
+  (2202091, 'Caldeirão Grande do Piauí', 'PI', -7.3314, -40.6366, 5503),
+  (2202109, 'Campinas do Piauí', 'PI', -7.6593, -41.8775, 4938),
+  (2202117, 'Campo Alegre do Fidalgo', 'PI', -8.3824, -41.8344, 4616),
+  (2202133, 'Campo Grande do Piauí', 'PI', -7.1283, -41.0315, 6020),
+  (2202174, 'Campo Largo do Piauí', 'PI', -3.8044, -42.64, 7419),
+  (2202208, 'Campo Maior', 'PI', -4.8217, -42.1641, 45793),
+  (2202251, 'Canavieira', 'PI', -7.6882, -43.7233, 3414),
+  (2202307, 'Canto do Buriti', 'PI', -8.1111, -42.9517, 19365),
+  (2202406, 'Capitão de Campos', 'PI', -4.457, -41.944, 11100),
+  (2202455, 'Capitão Gervásio Oliveira', 'PI', -8.4965, -41.814, 3974),
+  (2202505, 'Caracol', 'PI', -9.2793, -43.329, 10318),
+  (2202539, 'Caraúbas do Piauí', 'PI', -3.4752, -41.8425, 5630),
+  (2202554, 'Caridade do Piauí', 'PI', -7.7344, -40.9848, 5033),
+  (2202604, 'Castelo do Piauí', 'PI', -5.3187, -41.5499, 19288),
+  (2202653, 'Caxingó', 'PI', -3.419, -41.8955, 5496),
+  (2202703, 'Cocal', 'PI', -3.4728, -41.5546, 28212),
+  (2202711, 'Cocal de Telha', 'PI', -4.5571, -41.9587, 4911),
+  (2202729, 'Cocal dos Alves', 'PI', -3.6205, -41.4402, 6386),
+  (2202737, 'Coivaras', 'PI', -5.0922, -42.208, 4117),
+  (2202752, 'Colônia do Gurguéia', 'PI', -8.1837, -43.794, 6150),
+  (2202778, 'Colônia do Piauí', 'PI', -7.2265, -42.1756, 6994),
+  (2202802, 'Conceição do Canindé', 'PI', -7.8764, -41.5942, 4932),
+  (2202851, 'Coronel José Dias', 'PI', -8.814, -42.5232, 4250),
+  (2202901, 'Corrente', 'PI', -10.4333, -45.1633, 27278),
+  (2203008, 'Cristalândia do Piauí', 'PI', -10.6443, -45.1893, 7356),
+  (2203107, 'Cristino Castro', 'PI', -8.8227, -44.223, 10503),
+  (2203206, 'Curimatá', 'PI', -10.0326, -44.3002, 11270),
+  (2203230, 'Currais', 'PI', -9.0117, -44.4062, 4854),
+  (2203255, 'Curralinhos', 'PI', -5.6082, -42.8376, 4413),
+  (2203271, 'Curral Novo do Piauí', 'PI', -7.8313, -40.8957, 5073),
+  (2203305, 'Demerval Lobão', 'PI', -5.3587, -42.6776, 16352),
+  (2203354, 'Dirceu Arcoverde', 'PI', -9.3394, -42.4348, 7054),
+  (2203404, 'Dom Expedito Lopes', 'PI', -6.9533, -41.6396, 6320),
+  (2203420, 'Domingos Mourão', 'PI', -4.2495, -41.2683, 4075),
+  (2203453, 'Dom Inocêncio', 'PI', -9.0052, -41.9697, 9159),
+  (2203503, 'Elesbão Veloso', 'PI', -6.1995, -42.1355, 13607),
+  (2203602, 'Eliseu Martins', 'PI', -8.0963, -43.6705, 4377),
+  (2203701, 'Esperantina', 'PI', -3.8886, -42.2324, 40970),
+  (2203750, 'Fartura do Piauí', 'PI', -9.4834, -42.7912, 5284),
+  (2203800, 'Flores do Piauí', 'PI', -7.7879, -42.918, 4414),
+  (2203859, 'Floresta do Piauí', 'PI', -7.4668, -41.7883, 2333),
+  (2203909, 'Floriano', 'PI', -6.7718, -43.0241, 62036),
+  (2204006, 'Francinópolis', 'PI', -6.3933, -42.2591, 4505),
+  (2204105, 'Francisco Ayres', 'PI', -6.6261, -42.6881, 4412),
+  (2204154, 'Francisco Macedo', 'PI', -7.331, -40.788, 2929),
+  (2204204, 'Francisco Santos', 'PI', -6.9949, -41.1288, 8237),
+  (2204303, 'Fronteiras', 'PI', -7.0817, -40.6146, 10259),
+  (2204352, 'Geminiano', 'PI', -7.1548, -41.3409, 5445),
+  (2204402, 'Gilbués', 'PI', -9.83, -45.3423, 10892),
+  (2204501, 'Guadalupe', 'PI', -6.7828, -43.5594, 10270),
+  (2204550, 'Guaribas', 'PI', -9.3865, -43.6943, 4276),
+  (2204600, 'Hugo Napoleão', 'PI', -5.9886, -42.5598, 3518),
+  (2204659, 'Ilha Grande', 'PI', -2.8577, -41.8186, 9274),
+  (2204709, 'Inhuma', 'PI', -6.665, -41.7041, 14958),
+  (2204808, 'Ipiranga do Piauí', 'PI', -6.8242, -41.7381, 9420),
+  (2204907, 'Isaías Coelho', 'PI', -7.736, -41.6735, 7774),
+  (2205003, 'Itainópolis', 'PI', -7.4434, -41.4687, 10790),
+  (2205102, 'Itaueira', 'PI', -7.5999, -43.0249, 10323),
+  (2205151, 'Jacobina do Piauí', 'PI', -7.9306, -41.2075, 5613),
+  (2205201, 'Jaicós', 'PI', -7.3623, -41.1371, 17527),
+  (2205250, 'Jardim do Mulato', 'PI', -6.099, -42.63, 4180),
+  (2205276, 'Jatobá do Piauí', 'PI', -4.7702, -41.817, 4494),
+  (2205300, 'Jerumenha', 'PI', -7.0913, -43.5033, 4497),
+  (2205359, 'João Costa', 'PI', -8.5074, -42.4264, 2970),
+  (2205409, 'Joaquim Pires', 'PI', -3.5016, -42.1865, 13886),
+  (2205458, 'Joca Marques', 'PI', -3.4804, -42.4255, 5394),
+  (2205508, 'José de Freitas', 'PI', -4.7515, -42.5746, 42559),
+  (2205516, 'Juazeiro do Piauí', 'PI', -5.1746, -41.6976, 5214),
+  (2205524, 'Júlio Borges', 'PI', -10.3225, -44.2381, 5388),
+  (2205532, 'Jurema', 'PI', -9.2199, -43.1337, 4425),
+  (2205540, 'Lagoinha do Piauí', 'PI', -5.8307, -42.6223, 2939),
+  (2205557, 'Lagoa Alegre', 'PI', -4.5154, -42.6309, 8256),
+  (2205565, 'Lagoa do Barro do Piauí', 'PI', -8.4767, -41.5342, 4995),
+  (2205573, 'Lagoa de São Francisco', 'PI', -4.385, -41.5969, 6331),
+  (2205581, 'Lagoa do Piauí', 'PI', -5.4186, -42.6437, 4810),
+  (2205599, 'Lagoa do Sítio', 'PI', -6.5077, -41.5653, 4520),
+  (2205607, 'Landri Sales', 'PI', -7.2592, -43.9364, 5213),
+  (2205706, 'Luís Correia', 'PI', -2.8844, -41.6641, 30641),
+  (2205805, 'Luzilândia', 'PI', -3.4683, -42.3718, 25375),
+  (2205854, 'Madeiro', 'PI', -3.4862, -42.4981, 8032),
+  (2205904, 'Manoel Emídio', 'PI', -8.0123, -43.8755, 5209),
+  (2205953, 'Marcolândia', 'PI', -7.4417, -40.6602, 8533),
+  (2206001, 'Marcos Parente', 'PI', -7.1156, -43.8926, 4724),
+  (2206050, 'Massapê do Piauí', 'PI', -7.4747, -41.1103, 5218),
+  (2206100, 'Matias Olímpio', 'PI', -3.7149, -42.5507, 10641),
+  (2206209, 'Miguel Alves', 'PI', -4.1686, -42.8963, 32150),
+  (2206308, 'Miguel Leão', 'PI', -5.6808, -42.7436, 1318),
+  (2206357, 'Milton Brandão', 'PI', -4.6829, -41.4173, 6542),
+  (2206407, 'Monsenhor Gil', 'PI', -5.562, -42.6075, 10255),
+  (2206506, 'Monsenhor Hipólito', 'PI', -6.9928, -41.026, 7577),
+  (2206605, 'Monte Alegre do Piauí', 'PI', -9.7536, -45.3037, 10660),
+  (2206654, 'Morro Cabeça no Tempo', 'PI', -9.7189, -43.9072, 4377),
+  (2206670, 'Morro do Chapéu do Piauí', 'PI', -3.7334, -42.3024, 6425),
+  (2206696, 'Murici dos Portelas', 'PI', -3.319, -42.094, 9797),
+  (2206704, 'Nazaré do Piauí', 'PI', -6.9702, -42.6773, 6665),
+  (2206720, 'Nazária', 'PI', -5.3513, -42.8153, 10262),
+  (2206753, 'Nossa Senhora de Nazaré', 'PI', -4.6302, -42.173, 5228),
+  (2206803, 'Nossa Senhora dos Remédios', 'PI', -3.9757, -42.6184, 8525),
+  (2206902, 'Novo Oriente do Piauí', 'PI', -6.449, -41.9261, 6097),
+  (2206951, 'Novo Santo Antônio', 'PI', -5.2875, -41.9325, 2827),
+  (2207009, 'Oeiras', 'PI', -7.0191, -42.1283, 38161),
+  (2207108, 'Olho D''Água do Piauí', 'PI', -5.8412, -42.5594, 2637),
+  (2207207, 'Padre Marcos', 'PI', -7.351, -40.8997, 6382),
+  (2207306, 'Paes Landim', 'PI', -7.7737, -42.2474, 4088),
+  (2207355, 'Pajeú do Piauí', 'PI', -7.8551, -42.8248, 3000),
+  (2207405, 'Palmeira do Piauí', 'PI', -8.7308, -44.2466, 4952),
+  (2207504, 'Palmeirais', 'PI', -5.9709, -43.056, 13264),
+  (2207553, 'Paquetá', 'PI', -7.103, -41.7, 3813),
+  (2207603, 'Parnaguá', 'PI', -10.2166, -44.63, 10103),
+  (2207702, 'Parnaíba', 'PI', -2.9059, -41.7754, 162159),
+  (2207751, 'Passagem Franca do Piauí', 'PI', -5.8604, -42.4436, 4135),
+  (2207777, 'Patos do Piauí', 'PI', -7.6723, -41.2408, 5425),
+  (2207793, 'Pau D''Arco do Piauí', 'PI', -5.2607, -42.3908, 3880),
+  (2207801, 'Paulistana', 'PI', -8.1344, -41.1431, 21055),
+  (2207850, 'Pavussu', 'PI', -7.9606, -43.2284, 3628),
+  (2207900, 'Pedro II', 'PI', -4.4258, -41.4482, 37894),
+  (2207934, 'Pedro Laurentino', 'PI', -8.0681, -42.2847, 2458),
+  (2207959, 'Nova Santa Rita', 'PI', -8.0971, -42.0471, 4076),
+  (2208007, 'Picos', 'PI', -7.0772, -41.467, 83090),
+  (2208106, 'Pimenteiras', 'PI', -6.2384, -41.4113, 11341),
+  (2208205, 'Pio IX', 'PI', -6.83, -40.6083, 17613),
+  (2208304, 'Piracuruca', 'PI', -3.9333, -41.7088, 28846),
+  (2208403, 'Piripiri', 'PI', -4.2716, -41.7716, 65538),
+  (2208502, 'Porto', 'PI', -3.8881, -42.6998, 12052),
+  (2208551, 'Porto Alegre do Piauí', 'PI', -6.9642, -44.1837, 2364),
+  (2208601, 'Prata do Piauí', 'PI', -5.6726, -42.2046, 3042),
+  (2208650, 'Queimada Nova', 'PI', -8.5706, -41.4106, 8738),
+  (2208700, 'Redenção do Gurguéia', 'PI', -9.4794, -44.5811, 8394),
+  (2208809, 'Regeneração', 'PI', -6.2312, -42.6842, 17133),
+  (2208858, 'Riacho Frio', 'PI', -10.1244, -44.9503, 4165),
+  (2208874, 'Ribeira do Piauí', 'PI', -7.6903, -42.7128, 4055),
+  (2208908, 'Ribeiro Gonçalves', 'PI', -7.5565, -45.2447, 6164),
+  (2209005, 'Rio Grande do Piauí', 'PI', -7.7803, -43.1369, 5801),
+  (2209104, 'Santa Cruz do Piauí', 'PI', -7.1785, -41.7609, 5831),
+  (2209153, 'Santa Cruz dos Milagres', 'PI', -5.8058, -41.9506, 3435),
+  (2209203, 'Santa Filomena', 'PI', -9.1123, -45.9116, 6087),
+  (2209302, 'Santa Luz', 'PI', -8.9488, -44.1296, 5336),
+  (2209351, 'Santana do Piauí', 'PI', -6.947, -41.5178, 4125),
+  (2209377, 'Santa Rosa do Piauí', 'PI', -6.7958, -42.2814, 4650),
+  (2209401, 'Santo Antônio de Lisboa', 'PI', -6.9868, -41.2252, 5839),
+  (2209450, 'Santo Antônio dos Milagres', 'PI', -6.0465, -42.7123, 2138),
+  (2209500, 'Santo Inácio do Piauí', 'PI', -7.4207, -41.9063, 3646),
+  (2209559, 'São Braz do Piauí', 'PI', -9.058, -43.0076, 4358),
+  (2209609, 'São Félix do Piauí', 'PI', -5.9348, -42.1172, 2842),
+  (2209658, 'São Francisco de Assis do Piauí', 'PI', -8.236, -41.6873, 5572),
+  (2209708, 'São Francisco do Piauí', 'PI', -7.2463, -42.541, 5392),
+  (2209757, 'São Gonçalo do Gurguéia', 'PI', -10.0319, -45.3092, 2947),
+  (2209807, 'São Gonçalo do Piauí', 'PI', -5.9939, -42.7095, 4837),
+  (2209856, 'São João da Canabrava', 'PI', -6.812, -41.3415, 4242),
+  (2209872, 'São João da Fronteira', 'PI', -3.955, -41.2569, 5522),
+  (2209906, 'São João da Serra', 'PI', -5.5108, -41.8923, 6114),
+  (2209955, 'São João da Varjota', 'PI', -6.9408, -41.8889, 4383),
+  (2209971, 'São João do Arraial', 'PI', -3.8186, -42.4459, 8186),
+  (2210003, 'São João do Piauí', 'PI', -8.3547, -42.2559, 21421),
+  (2210052, 'São José do Divino', 'PI', -3.8141, -41.8308, 4841),
+  (2210102, 'São José do Peixe', 'PI', -7.4855, -42.5672, 3297),
+  (2210201, 'São José do Piauí', 'PI', -6.8719, -41.4731, 6597),
+  (2210300, 'São Julião', 'PI', -7.0839, -40.8246, 6025),
+  (2210359, 'São Lourenço do Piauí', 'PI', -9.1646, -42.5496, 4410),
+  (2210375, 'São Luis do Piauí', 'PI', -6.8194, -41.3175, 2309),
+  (2210383, 'São Miguel da Baixa Grande', 'PI', -5.8565, -42.1934, 2269),
+  (2210391, 'São Miguel do Fidalgo', 'PI', -7.5971, -42.3676, 2829),
+  (2210409, 'São Miguel do Tapuio', 'PI', -5.4973, -41.3165, 17554),
+  (2210508, 'São Pedro do Piauí', 'PI', -5.9208, -42.7192, 13755),
+  (2210607, 'São Raimundo Nonato', 'PI', -9.0124, -42.6987, 38934),
+  (2210623, 'Sebastião Barros', 'PI', -10.817, -44.8337, 3202),
+  (2210631, 'Sebastião Leal', 'PI', -7.568, -44.06, 4446),
+  (2210656, 'Sigefredo Pacheco', 'PI', -4.9166, -41.7311, 9460),
+  (2210706, 'Simões', 'PI', -7.5911, -40.8137, 14350),
+  (2210805, 'Simplício Mendes', 'PI', -7.8529, -41.9075, 13870),
+  (2210904, 'Socorro do Piauí', 'PI', -7.8677, -42.4922, 4141),
+  (2210938, 'Sussuapara', 'PI', -7.0369, -41.3767, 6220),
+  (2210953, 'Tamboril do Piauí', 'PI', -8.4094, -42.9211, 2949),
+  (2210979, 'Tanque do Piauí', 'PI', -6.5979, -42.2795, 2316),
+  (2211001, 'Teresina', 'PI', -5.0919, -42.8034, 866300),
+  (2211100, 'União', 'PI', -4.5857, -42.8583, 46119),
+  (2211209, 'Uruçuí', 'PI', -7.2394, -44.5577, 25203),
+  (2211308, 'Valença do Piauí', 'PI', -6.403, -41.7375, 22279),
+  (2211357, 'Várzea Branca', 'PI', -9.238, -42.9692, 5055),
+  (2211407, 'Várzea Grande', 'PI', -6.549, -42.248, 4417),
+  (2211506, 'Vera Mendes', 'PI', -7.5975, -41.4673, 3185),
+  (2211605, 'Vila Nova do Piauí', 'PI', -7.1327, -40.9345, 2935),
+  (2211704, 'Wall Ferraz', 'PI', -7.2315, -41.905, 4059),
+  (2300101, 'Abaiara', 'CE', -7.3459, -39.0416, 10038),
+  (2300150, 'Acarape', 'CE', -4.2208, -38.7055, 14027),
+  (2300200, 'Acaraú', 'CE', -2.8877, -40.1183, 65264),
+  (2300309, 'Acopiara', 'CE', -6.0891, -39.448, 44962),
+  (2300408, 'Aiuaba', 'CE', -6.5712, -40.1178, 14076),
+  (2300507, 'Alcântaras', 'CE', -3.5854, -40.5479, 11369),
+  (2300606, 'Altaneira', 'CE', -6.9984, -39.7356, 6782),
+  (2300705, 'Alto Santo', 'CE', -5.5089, -38.2743, 14155),
+  (2300754, 'Amontada', 'CE', -3.3602, -39.8288, 42156),
+  (2300804, 'Antonina do Norte', 'CE', -6.7692, -39.987, 7245),
+  (2300903, 'Apuiarés', 'CE', -3.9451, -39.4359, 12928),
+  (2301000, 'Aquiraz', 'CE', -3.8993, -38.3896, 80645),
+  (2301109, 'Aracati', 'CE', -4.5583, -37.7679, 75113),
+  (2301208, 'Aracoiaba', 'CE', -4.3687, -38.8125, 25553),
+  (2301257, 'Ararendá', 'CE', -4.7457, -40.831, 11096),
+  (2301307, 'Araripe', 'CE', -7.2132, -40.1359, 19783),
+  (2301406, 'Aratuba', 'CE', -4.4123, -39.0471, 11224),
+  (2301505, 'Arneiroz', 'CE', -6.3165, -40.1653, 7429),
+  (2301604, 'Assaré', 'CE', -6.8669, -39.8689, 21697),
+  (2301703, 'Aurora', 'CE', -6.9335, -38.9742, 23714),
+  (2301802, 'Baixio', 'CE', -6.7195, -38.7134, 5704),
+  (2301851, 'Banabuiú', 'CE', -5.3045, -38.9132, 17195),
+  (2301901, 'Barbalha', 'CE', -7.2982, -39.3021, 75033),
+  (2301950, 'Barreira', 'CE', -4.2892, -38.6429, 22392),
+  (2302008, 'Barro', 'CE', -7.1719, -38.7741, 19381),
+  (2302057, 'Barroquinha', 'CE', -3.0205, -41.1358, 14567),
+  (2302107, 'Baturité', 'CE', -4.326, -38.8812, 35218),
+  (2302206, 'Beberibe', 'CE', -4.1774, -38.1271, 53114),
+  (2302305, 'Bela Cruz', 'CE', -3.05, -40.1671, 32775),
+  (2302404, 'Boa Viagem', 'CE', -5.1126, -39.7337, 50411),
+  (2302503, 'Brejo Santo', 'CE', -7.4847, -38.9799, 51090),
+  (2302602, 'Camocim', 'CE', -2.9005, -40.8544, 62326),
+  (2302701, 'Campos Sales', 'CE', -7.0676, -40.3687, 25135),
+  (2302800, 'Canindé', 'CE', -4.3516, -39.3155, 74174),
+  (2302909, 'Capistrano', 'CE', -4.4557, -38.9048, 17254),
+  (2303006, 'Caridade', 'CE', -4.2251, -39.1912, 16377),
+  (2303105, 'Cariré', 'CE', -3.9486, -40.476, 17632),
+  (2303204, 'Caririaçu', 'CE', -7.0281, -39.2828, 26320),
+  (2303303, 'Cariús', 'CE', -6.5243, -39.4916, 17015),
+  (2303402, 'Carnaubal', 'CE', -4.1598, -40.9413, 17210),
+  (2303501, 'Cascavel', 'CE', -4.1297, -38.2412, 72720),
+  (2303600, 'Catarina', 'CE', -6.1229, -39.8736, 10243),
+  (2303659, 'Catunda', 'CE', -4.6434, -40.2, 10444),
+  (2303709, 'Caucaia', 'CE', -3.728, -38.6619, 355679),
+  (2303808, 'Cedro', 'CE', -6.6003, -39.0609, 22344),
+  (2303907, 'Chaval', 'CE', -3.0357, -41.2435, 12462),
+  (2303931, 'Choró', 'CE', -4.8391, -39.1344, 12113),
+  (2303956, 'Chorozinho', 'CE', -4.2887, -38.4986, 20163),
+  (2304004, 'Coreaú', 'CE', -3.5415, -40.6587, 20953),
+  (2304103, 'Crateús', 'CE', -5.1677, -40.6536, 76390),
+  (2304202, 'Crato', 'CE', -7.2153, -39.4103, 131050),
+  (2304236, 'Croatá', 'CE', -4.4048, -40.9022, 17481),
+  (2304251, 'Cruz', 'CE', -2.9181, -40.176, 29761),
+  (2304269, 'Deputado Irapuan Pinheiro', 'CE', -5.9149, -39.257, 8932),
+  (2304277, 'Ereré', 'CE', -6.0275, -38.3461, 6474),
+  (2304285, 'Eusébio', 'CE', -3.8925, -38.4559, 74170),
+  (2304301, 'Farias Brito', 'CE', -6.9215, -39.5651, 18217),
+  (2304350, 'Forquilha', 'CE', -3.7995, -40.2634, 24173),
+  (2304400, 'Fortaleza', 'CE', -3.7166, -38.5423, 2428708),
+  (2304459, 'Fortim', 'CE', -4.4513, -37.7981, 17294),
+  (2304509, 'Frecheirinha', 'CE', -3.7556, -40.818, 15657),
+  (2304608, 'General Sampaio', 'CE', -4.0435, -39.454, 6734),
+  (2304657, 'Graça', 'CE', -4.0442, -40.749, 13801),
+  (2304707, 'Granja', 'CE', -3.1279, -40.8372, 53344),
+  (2304806, 'Granjeiro', 'CE', -6.8813, -39.2144, 4841),
+  (2304905, 'Groaíras', 'CE', -3.9179, -40.3852, 10910),
+  (2304954, 'Guaiúba', 'CE', -4.0406, -38.6404, 24325),
+  (2305001, 'Guaraciaba do Norte', 'CE', -4.1581, -40.7476, 42053),
+  (2305100, 'Guaramiranga', 'CE', -4.2625, -38.932, 5654),
+  (2305209, 'Hidrolândia', 'CE', -4.4096, -40.4056, 17855),
+  (2305233, 'Horizonte', 'CE', -4.1209, -38.4707, 74755),
+  (2305266, 'Ibaretama', 'CE', -4.8038, -38.7501, 11956),
+  (2305308, 'Ibiapina', 'CE', -3.924, -40.8911, 23965),
+  (2305332, 'Ibicuitinga', 'CE', -4.97, -38.6362, 11611),
+  (2305357, 'Icapuí', 'CE', -4.7121, -37.3531, 21433),
+  (2305407, 'Icó', 'CE', -6.3963, -38.8554, 62642),
+  (2305506, 'Iguatu', 'CE', -6.3628, -39.2892, 98064),
+  (2305605, 'Independência', 'CE', -5.3879, -40.3085, 24024),
+  (2305654, 'Ipaporanga', 'CE', -4.8976, -40.7537, 11575),
+  (2305704, 'Ipaumirim', 'CE', -6.7827, -38.7179, 12083),
+  (2305803, 'Ipu', 'CE', -4.3175, -40.7059, 41081),
+  (2305902, 'Ipueiras', 'CE', -4.538, -40.7118, 36798),
+  (2306009, 'Iracema', 'CE', -5.8124, -38.2919, 14001),
+  (2306108, 'Irauçuba', 'CE', -3.7474, -39.7843, 23915),
+  (2306207, 'Itaiçaba', 'CE', -4.6715, -37.833, 7536),
+  (2306256, 'Itaitinga', 'CE', -3.9658, -38.5298, 64650),
+  (2306306, 'Itapajé', 'CE', -3.6831, -39.5855, 46426),
+  (2306405, 'Itapipoca', 'CE', -3.4993, -39.5836, 131123),
+  (2306504, 'Itapiúna', 'CE', -4.5552, -38.9281, 17841),
+  (2306553, 'Itarema', 'CE', -2.9248, -39.9167, 42957),
+  (2306603, 'Itatira', 'CE', -4.5261, -39.6202, 20424),
+  (2306702, 'Jaguaretama', 'CE', -5.6051, -38.7639, 17232),
+  (2306801, 'Jaguaribara', 'CE', -5.6776, -38.5359, 10356),
+  (2306900, 'Jaguaribe', 'CE', -5.9021, -38.6227, 33726),
+  (2307007, 'Jaguaruana', 'CE', -4.8315, -37.781, 31701),
+  (2307106, 'Jardim', 'CE', -7.576, -39.2826, 27411),
+  (2307205, 'Jati', 'CE', -7.6797, -39.0029, 7861),
+  (2307254, 'Jijoca de Jericoacoara', 'CE', -2.7933, -40.5127, 25555),
+  (2307304, 'Juazeiro do Norte', 'CE', -7.1962, -39.3076, 286120),
+  (2307403, 'Jucás', 'CE', -6.5152, -39.5187, 23922),
+  (2307502, 'Lavras da Mangabeira', 'CE', -6.7448, -38.9706, 30802),
+  (2307601, 'Limoeiro do Norte', 'CE', -5.1439, -38.0847, 59560),
+  (2307635, 'Madalena', 'CE', -4.846, -39.5725, 16896),
+  (2307650, 'Maracanaú', 'CE', -3.867, -38.6259, 234509),
+  (2307700, 'Maranguape', 'CE', -3.8914, -38.6829, 105093),
+  (2307809, 'Marco', 'CE', -3.1285, -40.1582, 25799),
+  (2307908, 'Martinópole', 'CE', -3.2252, -40.6896, 10846),
+  (2308005, 'Massapê', 'CE', -3.5236, -40.3423, 37697),
+  (2308104, 'Mauriti', 'CE', -7.386, -38.7708, 45561);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (2308203, 'Meruoca', 'CE', -3.5397, -40.4531, 15157),
+  (2308302, 'Milagres', 'CE', -7.2975, -38.9378, 25900),
+  (2308351, 'Milhã', 'CE', -5.6725, -39.1875, 14123),
+  (2308377, 'Miraíma', 'CE', -3.5687, -39.9663, 14196),
+  (2308401, 'Missão Velha', 'CE', -7.2352, -39.143, 36822),
+  (2308500, 'Mombaça', 'CE', -5.7384, -39.63, 37735),
+  (2308609, 'Monsenhor Tabosa', 'CE', -4.791, -40.0646, 17149),
+  (2308708, 'Morada Nova', 'CE', -5.0974, -38.3702, 61443),
+  (2308807, 'Moraújo', 'CE', -3.4631, -40.6776, 8254),
+  (2308906, 'Morrinhos', 'CE', -3.2343, -40.1233, 22753),
+  (2309003, 'Mucambo', 'CE', -3.9027, -40.7452, 13666),
+  (2309102, 'Mulungu', 'CE', -4.3029, -38.9951, 10569),
+  (2309201, 'Nova Olinda', 'CE', -7.0842, -39.6713, 15399),
+  (2309300, 'Nova Russas', 'CE', -4.7058, -40.5621, 30699),
+  (2309409, 'Novo Oriente', 'CE', -5.5255, -40.7713, 27545),
+  (2309458, 'Ocara', 'CE', -4.4852, -38.5933, 24493),
+  (2309508, 'Orós', 'CE', -6.2518, -38.9053, 19675),
+  (2309607, 'Pacajus', 'CE', -4.1711, -38.465, 70983),
+  (2309706, 'Pacatuba', 'CE', -3.9784, -38.6183, 81524),
+  (2309805, 'Pacoti', 'CE', -4.2249, -38.922, 11186),
+  (2309904, 'Pacujá', 'CE', -3.9833, -40.6989, 6175),
+  (2310001, 'Palhano', 'CE', -4.7367, -37.9655, 9346),
+  (2310100, 'Palmácia', 'CE', -4.1383, -38.8446, 10242),
+  (2310209, 'Paracuru', 'CE', -3.4144, -39.03, 38980),
+  (2310258, 'Paraipaba', 'CE', -3.438, -39.1479, 32216),
+  (2310308, 'Parambu', 'CE', -6.2077, -40.6905, 31445),
+  (2310407, 'Paramoti', 'CE', -4.0881, -39.2417, 10384),
+  (2310506, 'Pedra Branca', 'CE', -5.4534, -39.7078, 40187),
+  (2310605, 'Penaforte', 'CE', -7.8216, -39.0707, 8972),
+  (2310704, 'Pentecoste', 'CE', -3.7927, -39.2692, 37813),
+  (2310803, 'Pereiro', 'CE', -6.0358, -38.4624, 15274),
+  (2310852, 'Pindoretama', 'CE', -4.0158, -38.3061, 23391),
+  (2310902, 'Piquet Carneiro', 'CE', -5.8003, -39.417, 16616),
+  (2310951, 'Pires Ferreira', 'CE', -4.2392, -40.6442, 10606),
+  (2311009, 'Poranga', 'CE', -4.7467, -40.9205, 12065),
+  (2311108, 'Porteiras', 'CE', -7.5226, -39.114, 17050),
+  (2311207, 'Potengi', 'CE', -7.0915, -40.0233, 8833),
+  (2311231, 'Potiretama', 'CE', -5.7129, -38.1578, 5974),
+  (2311264, 'Quiterianópolis', 'CE', -5.8425, -40.7002, 20213),
+  (2311306, 'Quixadá', 'CE', -4.9663, -39.0155, 84168),
+  (2311355, 'Quixelô', 'CE', -6.2464, -39.2011, 15910),
+  (2311405, 'Quixeramobim', 'CE', -5.1907, -39.2889, 82177),
+  (2311504, 'Quixeré', 'CE', -5.0715, -37.9802, 20874),
+  (2311603, 'Redenção', 'CE', -4.2159, -38.7277, 27214),
+  (2311702, 'Reriutaba', 'CE', -4.1419, -40.5759, 18606),
+  (2311801, 'Russas', 'CE', -4.9267, -37.9721, 72928),
+  (2311900, 'Saboeiro', 'CE', -6.5346, -39.9017, 13854),
+  (2311959, 'Salitre', 'CE', -7.284, -40.45, 16633),
+  (2312007, 'Santana do Acaraú', 'CE', -3.4614, -40.2118, 30628),
+  (2312106, 'Santana do Cariri', 'CE', -7.1761, -39.7302, 16954),
+  (2312205, 'Santa Quitéria', 'CE', -4.3261, -40.1523, 40183),
+  (2312304, 'São Benedito', 'CE', -4.0471, -40.8596, 47640),
+  (2312403, 'São Gonçalo do Amarante', 'CE', -3.6052, -38.9726, 54143),
+  (2312502, 'São João do Jaguaribe', 'CE', -5.2752, -38.2694, 5855),
+  (2312601, 'São Luís do Curu', 'CE', -3.6698, -39.2391, 10822),
+  (2312700, 'Senador Pompeu', 'CE', -5.5824, -39.3704, 24266),
+  (2312809, 'Senador Sá', 'CE', -3.3531, -40.4662, 7262),
+  (2312908, 'Sobral', 'CE', -3.6891, -40.3482, 203023),
+  (2313005, 'Solonópole', 'CE', -5.7189, -39.0107, 18179),
+  (2313104, 'Tabuleiro do Norte', 'CE', -5.2435, -38.1282, 30652),
+  (2313203, 'Tamboril', 'CE', -4.8314, -40.3196, 24815),
+  (2313252, 'Tarrafas', 'CE', -6.6784, -39.753, 7529),
+  (2313302, 'Tauá', 'CE', -5.9859, -40.2968, 61227),
+  (2313351, 'Tejuçuoca', 'CE', -3.9883, -39.5799, 17154),
+  (2313401, 'Tianguá', 'CE', -3.7296, -40.9923, 81506),
+  (2313500, 'Trairi', 'CE', -3.2693, -39.2681, 58415),
+  (2313559, 'Tururu', 'CE', -3.5841, -39.4297, 15412),
+  (2313609, 'Ubajara', 'CE', -3.8545, -40.9204, 32767),
+  (2313708, 'Umari', 'CE', -6.6389, -38.7008, 6871),
+  (2313757, 'Umirim', 'CE', -3.6765, -39.3465, 17470),
+  (2313807, 'Uruburetama', 'CE', -3.6232, -39.5107, 20189),
+  (2313906, 'Uruoca', 'CE', -3.3082, -40.5628, 13746),
+  (2313955, 'Varjota', 'CE', -4.1939, -40.4741, 18105),
+  (2314003, 'Várzea Alegre', 'CE', -6.7826, -39.2942, 38984),
+  (2314102, 'Viçosa do Ceará', 'CE', -3.5667, -41.0916, 59712),
+  (2400109, 'Acari', 'RN', -6.4282, -36.6347, 10597),
+  (2400208, 'Açu', 'RN', -5.5836, -36.914, 56496),
+  (2400307, 'Afonso Bezerra', 'RN', -5.4923, -36.5075, 10839),
+  (2400406, 'Água Nova', 'RN', -6.2035, -38.2941, 2946),
+  (2400505, 'Alexandria', 'RN', -6.4053, -38.0142, 13640),
+  (2400604, 'Almino Afonso', 'RN', -6.1475, -37.7636, 4687),
+  (2400703, 'Alto do Rodrigues', 'RN', -5.2819, -36.75, 12484),
+  (2400802, 'Angicos', 'RN', -5.6579, -36.6094, 11632),
+  (2400901, 'Antônio Martins', 'RN', -6.2137, -37.8834, 6577),
+  (2401008, 'Apodi', 'RN', -5.6535, -37.7946, 36093),
+  (2401107, 'Areia Branca', 'RN', -4.9525, -37.1252, 24093),
+  (2401206, 'Arês', 'RN', -6.1883, -35.1608, 13251),
+  (2401305, 'Campo Grande', 'RN', -5.8621, -37.3135, 9730),
+  (2401404, 'Baía Formosa', 'RN', -6.3716, -35.0033, 8825),
+  (2401453, 'Baraúna', 'RN', -5.0698, -37.6129, 26913),
+  (2401503, 'Barcelona', 'RN', -5.9428, -35.9247, 3986),
+  (2401602, 'Bento Fernandes', 'RN', -5.6991, -35.813, 4807),
+  (2401651, 'Bodó', 'RN', -5.9803, -36.4167, 2306),
+  (2401701, 'Bom Jesus', 'RN', -5.9865, -35.5792, 9952),
+  (2401800, 'Brejinho', 'RN', -6.1857, -35.3591, 12202),
+  (2401859, 'Caiçara do Norte', 'RN', -5.0709, -36.0717, 6293),
+  (2401909, 'Caiçara do Rio do Vento', 'RN', -5.7654, -35.9938, 3268),
+  (2402006, 'Caicó', 'RN', -6.4544, -37.1067, 61146),
+  (2402105, 'Campo Redondo', 'RN', -6.2383, -36.1888, 10215),
+  (2402204, 'Canguaretama', 'RN', -6.3719, -35.1281, 29668),
+  (2402303, 'Caraúbas', 'RN', -5.7839, -37.5586, 19727),
+  (2402402, 'Carnaúba dos Dantas', 'RN', -6.5502, -36.5868, 7992),
+  (2402501, 'Carnaubais', 'RN', -5.3418, -36.8335, 9714),
+  (2402600, 'Ceará-Mirim', 'RN', -5.6432, -35.4247, 79115),
+  (2402709, 'Cerro Corá', 'RN', -6.035, -36.3503, 11000),
+  (2402808, 'Coronel Ezequiel', 'RN', -6.3748, -36.2223, 5117),
+  (2402907, 'Coronel João Pessoa', 'RN', -6.2497, -38.4441, 4237),
+  (2403004, 'Cruzeta', 'RN', -6.4089, -36.7782, 8005),
+  (2403103, 'Currais Novos', 'RN', -6.2548, -36.5146, 41313),
+  (2403202, 'Doutor Severiano', 'RN', -6.0808, -38.3794, 7044),
+  (2403251, 'Parnamirim', 'RN', -5.9112, -35.271, 252716),
+  (2403301, 'Encanto', 'RN', -6.1069, -38.3033, 6016),
+  (2403400, 'Equador', 'RN', -6.9383, -36.717, 5360),
+  (2403509, 'Espírito Santo', 'RN', -6.3356, -35.3052, 10620),
+  (2403608, 'Extremoz', 'RN', -5.7014, -35.3048, 61635),
+  (2403707, 'Felipe Guerra', 'RN', -5.5927, -37.6875, 5944),
+  (2403756, 'Fernando Pedroza', 'RN', -5.691, -36.5282, 2938),
+  (2403806, 'Florânia', 'RN', -6.1226, -36.8226, 10196),
+  (2403905, 'Francisco Dantas', 'RN', -6.0723, -38.1212, 2700),
+  (2404002, 'Frutuoso Gomes', 'RN', -6.1567, -37.8375, 4122),
+  (2404101, 'Galinhos', 'RN', -5.0909, -36.2754, 2104),
+  (2404200, 'Goianinha', 'RN', -6.2649, -35.1943, 26741),
+  (2404309, 'Governador Dix-Sept Rosado', 'RN', -5.4489, -37.5183, 11938),
+  (2404408, 'Grossos', 'RN', -4.9807, -37.1621, 9924),
+  (2404507, 'Guamaré', 'RN', -5.1062, -36.3222, 15295),
+  (2404606, 'Ielmo Marinho', 'RN', -5.8245, -35.55, 11615),
+  (2404705, 'Ipanguaçu', 'RN', -5.4898, -36.8501, 14131),
+  (2404804, 'Ipueira', 'RN', -6.806, -37.2045, 2035),
+  (2404853, 'Itajá', 'RN', -5.6389, -36.8712, 7292),
+  (2404903, 'Itaú', 'RN', -5.8363, -37.9912, 5320),
+  (2405009, 'Jaçanã', 'RN', -6.4186, -36.2031, 7834),
+  (2405108, 'Jandaíra', 'RN', -5.3521, -36.1278, 6562),
+  (2405207, 'Janduís', 'RN', -6.0147, -37.4048, 4746),
+  (2405306, 'Januário Cicco', 'RN', -6.1657, -35.6219, 9051),
+  (2405405, 'Japi', 'RN', -6.4654, -35.9346, 5117),
+  (2405504, 'Jardim de Angicos', 'RN', -5.65, -35.9713, 2437),
+  (2405603, 'Jardim de Piranhas', 'RN', -6.3766, -37.3496, 13977),
+  (2405702, 'Jardim do Seridó', 'RN', -6.5805, -36.7736, 11655),
+  (2405801, 'João Câmara', 'RN', -5.5409, -35.8122, 33290),
+  (2405900, 'João Dias', 'RN', -6.2721, -37.7885, 2076),
+  (2406007, 'José da Penha', 'RN', -6.311, -38.2823, 5803),
+  (2406106, 'Jucurutu', 'RN', -6.0306, -37.009, 17793),
+  (2406155, 'Jundiá', 'RN', -6.2687, -35.3495, 3739),
+  (2406205, 'Lagoa d''Anta', 'RN', -6.3949, -35.5949, 6654),
+  (2406304, 'Lagoa de Pedras', 'RN', -6.1508, -35.4299, 7338),
+  (2406403, 'Lagoa de Velhos', 'RN', -6.0119, -35.8729, 2567),
+  (2406502, 'Lagoa Nova', 'RN', -6.0934, -36.4703, 15573),
+  (2406601, 'Lagoa Salgada', 'RN', -6.123, -35.4724, 8319),
+  (2406700, 'Lajes', 'RN', -5.6932, -36.247, 9866),
+  (2406809, 'Lajes Pintadas', 'RN', -6.1494, -36.1171, 4787),
+  (2406908, 'Lucrécia', 'RN', -6.1052, -37.8134, 3490),
+  (2407005, 'Luís Gomes', 'RN', -6.4059, -38.3899, 9070),
+  (2407104, 'Macaíba', 'RN', -5.8523, -35.3552, 82249),
+  (2407203, 'Macau', 'RN', -5.1079, -36.6318, 27369),
+  (2407252, 'Major Sales', 'RN', -6.3995, -38.324, 3924),
+  (2407302, 'Marcelino Vieira', 'RN', -6.2846, -38.1642, 7896),
+  (2407401, 'Martins', 'RN', -6.0828, -37.908, 8179),
+  (2407500, 'Maxaranguape', 'RN', -5.5218, -35.2631, 10255),
+  (2407609, 'Messias Targino', 'RN', -6.0719, -37.5158, 4274),
+  (2407708, 'Montanhas', 'RN', -6.4852, -35.2842, 11444),
+  (2407807, 'Monte Alegre', 'RN', -6.0706, -35.3253, 23031),
+  (2407906, 'Monte das Gameleiras', 'RN', -6.437, -35.7831, 2276),
+  (2408003, 'Mossoró', 'RN', -5.1837, -37.3474, 264577),
+  (2408102, 'Natal', 'RN', -5.7936, -35.1986, 751300),
+  (2408201, 'Nísia Floresta', 'RN', -6.0933, -35.1991, 31942),
+  (2408300, 'Nova Cruz', 'RN', -6.4751, -35.4286, 34269),
+  (2408409, 'Olho d''Água do Borges', 'RN', -5.9486, -37.7047, 3905),
+  (2408508, 'Ouro Branco', 'RN', -6.6958, -36.9428, 4913),
+  (2408607, 'Paraná', 'RN', -6.4756, -38.3057, 3934),
+  (2408706, 'Paraú', 'RN', -5.7689, -37.1032, 3579),
+  (2408805, 'Parazinho', 'RN', -5.2228, -35.8398, 4801),
+  (2408904, 'Parelhas', 'RN', -6.6849, -36.6566, 21499),
+  (2408953, 'Rio do Fogo', 'RN', -5.2765, -35.3794, 10351),
+  (2409100, 'Passa e Fica', 'RN', -6.4302, -35.6442, 10896),
+  (2409209, 'Passagem', 'RN', -6.2727, -35.37, 3115),
+  (2409308, 'Patu', 'RN', -6.1066, -37.6356, 11007),
+  (2409332, 'Santa Maria', 'RN', -5.838, -35.6914, 4847),
+  (2409407, 'Pau dos Ferros', 'RN', -6.105, -38.2077, 30479),
+  (2409506, 'Pedra Grande', 'RN', -5.1499, -35.876, 3618),
+  (2409605, 'Pedra Preta', 'RN', -5.5735, -36.1084, 2441),
+  (2409704, 'Pedro Avelino', 'RN', -5.5161, -36.3867, 6242),
+  (2409803, 'Pedro Velho', 'RN', -6.4356, -35.2195, 13824),
+  (2409902, 'Pendências', 'RN', -5.2564, -36.7095, 12278),
+  (2410009, 'Pilões', 'RN', -6.2636, -38.0461, 2965),
+  (2410108, 'Poço Branco', 'RN', -5.6223, -35.6635, 12390),
+  (2410207, 'Portalegre', 'RN', -6.0206, -37.9865, 7601),
+  (2410256, 'Porto do Mangue', 'RN', -5.0544, -36.7887, 5228),
+  (2410306, 'Serra Caiada', 'RN', -6.1048, -35.7113, 10125),
+  (2410405, 'Pureza', 'RN', -5.4639, -35.5554, 9362),
+  (2410504, 'Rafael Fernandes', 'RN', -6.1899, -38.2211, 5432),
+  (2410603, 'Rafael Godeiro', 'RN', -6.0724, -37.716, 2934),
+  (2410702, 'Riacho da Cruz', 'RN', -5.9265, -37.949, 2701),
+  (2410801, 'Riacho de Santana', 'RN', -6.2514, -38.3116, 4127),
+  (2410900, 'Riachuelo', 'RN', -5.8216, -35.8215, 7389),
+  (2411007, 'Rodolfo Fernandes', 'RN', -5.7839, -38.0579, 4242),
+  (2411056, 'Tibau', 'RN', -4.8373, -37.2554, 5382),
+  (2411106, 'Ruy Barbosa', 'RN', -5.8875, -35.933, 3206),
+  (2411205, 'Santa Cruz', 'RN', -6.2248, -36.0193, 37313),
+  (2411403, 'Santana do Matos', 'RN', -5.946, -36.6578, 12456),
+  (2411429, 'Santana do Seridó', 'RN', -6.7664, -36.7312, 2696),
+  (2411502, 'Santo Antônio', 'RN', -6.312, -35.4739, 22177),
+  (2411601, 'São Bento do Norte', 'RN', -5.0926, -35.9587, 3304),
+  (2411700, 'São Bento do Trairí', 'RN', -6.338, -36.0863, 3792),
+  (2411809, 'São Fernando', 'RN', -6.3797, -37.1864, 3492),
+  (2411908, 'São Francisco do Oeste', 'RN', -5.9747, -38.1519, 4161),
+  (2412005, 'São Gonçalo do Amarante', 'RN', -5.7907, -35.3257, 115838),
+  (2412104, 'São João do Sabugi', 'RN', -6.7139, -37.2027, 5956),
+  (2412203, 'São José de Mipibu', 'RN', -6.0773, -35.2417, 47286),
+  (2412302, 'São José do Campestre', 'RN', -6.3109, -35.7067, 11121),
+  (2412401, 'São José do Seridó', 'RN', -6.44, -36.8746, 4558),
+  (2412500, 'São Miguel', 'RN', -6.2028, -38.4947, 23537),
+  (2412559, 'São Miguel do Gostoso', 'RN', -5.123, -35.6354, 10221),
+  (2412609, 'São Paulo do Potengi', 'RN', -5.8994, -35.7642, 16786),
+  (2412708, 'São Pedro', 'RN', -5.9056, -35.6317, 5776),
+  (2412807, 'São Rafael', 'RN', -5.7979, -36.8778, 7711),
+  (2412906, 'São Tomé', 'RN', -5.964, -36.0798, 9972),
+  (2413003, 'São Vicente', 'RN', -6.2189, -36.6827, 6310),
+  (2413102, 'Senador Elói de Souza', 'RN', -6.0333, -35.6978, 5965),
+  (2413201, 'Senador Georgino Avelino', 'RN', -6.1576, -35.1299, 4065),
+  (2413300, 'Serra de São Bento', 'RN', -6.4176, -35.7033, 5703),
+  (2413359, 'Serra do Mel', 'RN', -5.1772, -37.0242, 13091),
+  (2413409, 'Serra Negra do Norte', 'RN', -6.6603, -37.3996, 7597),
+  (2413508, 'Serrinha', 'RN', -6.2818, -35.5, 6436),
+  (2413557, 'Serrinha dos Pintos', 'RN', -6.1109, -37.9548, 4659),
+  (2413607, 'Severiano Melo', 'RN', -5.7767, -37.957, 5487),
+  (2413706, 'Sítio Novo', 'RN', -6.1113, -35.909, 4654),
+  (2413805, 'Taboleiro Grande', 'RN', -5.9195, -38.0367, 2338),
+  (2413904, 'Taipu', 'RN', -5.6306, -35.5918, 11422),
+  (2414001, 'Tangará', 'RN', -6.1965, -35.7989, 13281),
+  (2414100, 'Tenente Ananias', 'RN', -6.4582, -38.182, 10262),
+  (2414159, 'Tenente Laurentino Cruz', 'RN', -6.1378, -36.7135, 5891),
+  (2414209, 'Tibau do Sul', 'RN', -6.1918, -35.0866, 16929),
+  (2414308, 'Timbaúba dos Batistas', 'RN', -6.4577, -37.2745, 2348),
+  (2414407, 'Touros', 'RN', -5.2018, -35.4621, 33035),
+  (2414456, 'Triunfo Potiguar', 'RN', -5.8541, -37.1786, 3376),
+  (2414506, 'Umarizal', 'RN', -5.9824, -37.818, 10078),
+  (2414605, 'Upanema', 'RN', -5.6376, -37.2635, 13577),
+  (2414704, 'Várzea', 'RN', -6.3464, -35.3732, 5233),
+  (2414753, 'Venha-Ver', 'RN', -6.3202, -38.4896, 3014),
+  (2414803, 'Vera Cruz', 'RN', -6.044, -35.428, 10735),
+  (2414902, 'Viçosa', 'RN', -5.9825, -37.9462, 1822),
+  (2415008, 'Vila Flor', 'RN', -6.3129, -35.067, 3174),
+  (2500106, 'Água Branca', 'PB', -7.5114, -37.6357, 9335),
+  (2500205, 'Aguiar', 'PB', -7.0918, -38.1681, 5003),
+  (2500304, 'Alagoa Grande', 'PB', -7.0394, -35.6206, 26062),
+  (2500403, 'Alagoa Nova', 'PB', -7.0538, -35.7591, 21013),
+  (2500502, 'Alagoinha', 'PB', -6.9466, -35.5332, 13725),
+  (2500536, 'Alcantil', 'PB', -7.7367, -36.0511, 5578),
+  (2500577, 'Algodão de Jandaíra', 'PB', -6.8929, -36.0129, 2953),
+  (2500601, 'Alhandra', 'PB', -7.4298, -34.9057, 21730),
+  (2500700, 'São João do Rio do Peixe', 'PB', -6.7219, -38.4468, 17964),
+  (2500734, 'Amparo', 'PB', -7.555, -37.0628, 2234),
+  (2500775, 'Aparecida', 'PB', -6.7847, -38.0803, 7960),
+  (2500809, 'Araçagi', 'PB', -6.8437, -35.3737, 16646),
+  (2500908, 'Arara', 'PB', -6.8281, -35.7552, 12212),
+  (2501005, 'Araruna', 'PB', -6.5485, -35.7498, 17189),
+  (2501104, 'Areia', 'PB', -6.964, -35.6977, 22633),
+  (2501153, 'Areia de Baraúnas', 'PB', -7.117, -36.9404, 2005),
+  (2501203, 'Areial', 'PB', -7.0479, -35.9313, 7128),
+  (2501302, 'Aroeiras', 'PB', -7.5447, -35.7066, 18705),
+  (2501351, 'Assunção', 'PB', -7.0723, -36.725, 4152),
+  (2501401, 'Baía da Traição', 'PB', -6.6921, -34.9381, 9224),
+  (2501500, 'Bananeiras', 'PB', -6.7477, -35.6246, 23134),
+  (2501534, 'Baraúna', 'PB', -6.6348, -36.2601, 4762),
+  (2501575, 'Barra de Santana', 'PB', -7.5181, -35.9913, 8059),
+  (2501609, 'Barra de Santa Rosa', 'PB', -6.7182, -36.0671, 12904),
+  (2501708, 'Barra de São Miguel', 'PB', -7.746, -36.3209, 5906),
+  (2501807, 'Bayeux', 'PB', -7.1238, -34.9293, 82742),
+  (2501906, 'Belém', 'PB', -6.7426, -35.5166, 16401),
+  (2502003, 'Belém do Brejo do Cruz', 'PB', -6.1852, -37.5348, 6268),
+  (2502052, 'Bernardino Batista', 'PB', -6.4457, -38.5521, 3504),
+  (2502102, 'Boa Ventura', 'PB', -7.4098, -38.2113, 5207),
+  (2502151, 'Boa Vista', 'PB', -7.2637, -36.2357, 6377),
+  (2502201, 'Bom Jesus', 'PB', -6.816, -38.6453, 2286),
+  (2502300, 'Bom Sucesso', 'PB', -6.4418, -37.9234, 4661),
+  (2502409, 'Bonito de Santa Fé', 'PB', -7.3134, -38.5133, 10252),
+  (2502508, 'Boqueirão', 'PB', -7.487, -36.1309, 17598),
+  (2502607, 'Igaracy', 'PB', -7.1718, -38.1478, 5648),
+  (2502706, 'Borborema', 'PB', -6.802, -35.6187, 4214),
+  (2502805, 'Brejo do Cruz', 'PB', -6.3418, -37.4943, 13613),
+  (2502904, 'Brejo dos Santos', 'PB', -6.3707, -37.8253, 5742),
+  (2503001, 'Caaporã', 'PB', -7.5135, -34.9055, 21193),
+  (2503100, 'Cabaceiras', 'PB', -7.489, -36.287, 5335),
+  (2503209, 'Cabedelo', 'PB', -6.9873, -34.8284, 66519),
+  (2503308, 'Cachoeira dos Índios', 'PB', -6.9135, -38.676, 9151),
+  (2503407, 'Cacimba de Areia', 'PB', -7.1213, -37.1563, 3291),
+  (2503506, 'Cacimba de Dentro', 'PB', -6.6386, -35.7778, 16064),
+  (2503555, 'Cacimbas', 'PB', -7.2072, -37.0604, 7223),
+  (2503605, 'Caiçara', 'PB', -6.6212, -35.4581, 6602),
+  (2503704, 'Cajazeiras', 'PB', -6.88, -38.5577, 63239),
+  (2503753, 'Cajazeirinhas', 'PB', -6.9602, -37.8009, 2740),
+  (2503803, 'Caldas Brandão', 'PB', -7.1025, -35.3272, 5753),
+  (2503902, 'Camalaú', 'PB', -7.885, -36.8242, 6085),
+  (2504009, 'Campina Grande', 'PB', -7.222, -35.8731, 419379),
+  (2504033, 'Capim', 'PB', -6.9162, -35.1673, 6970),
+  (2504074, 'Caraúbas', 'PB', -7.7205, -36.492, 3944),
+  (2504108, 'Carrapateira', 'PB', -7.0341, -38.3399, 2312),
+  (2504157, 'Casserengue', 'PB', -6.7795, -35.8179, 6889),
+  (2504207, 'Catingueira', 'PB', -7.1201, -37.6064, 4491),
+  (2504306, 'Catolé do Rocha', 'PB', -6.3406, -37.747, 30661),
+  (2504355, 'Caturité', 'PB', -7.4166, -36.0306, 5254),
+  (2504405, 'Conceição', 'PB', -7.5511, -38.5014, 18260),
+  (2504504, 'Condado', 'PB', -6.8983, -37.606, 6451),
+  (2504603, 'Conde', 'PB', -7.2575, -34.8999, 27605),
+  (2504702, 'Congo', 'PB', -7.7908, -36.6581, 4933),
+  (2504801, 'Coremas', 'PB', -7.0071, -37.9346, 14683),
+  (2504850, 'Coxixola', 'PB', -7.6236, -36.6064, 1824),
+  (2504900, 'Cruz do Espírito Santo', 'PB', -7.139, -35.0857, 17095),
+  (2505006, 'Cubati', 'PB', -6.8669, -36.3619, 7580),
+  (2505105, 'Cuité', 'PB', -6.4765, -36.1515, 19719),
+  (2505204, 'Cuitegi', 'PB', -6.8906, -35.5215, 6730),
+  (2505238, 'Cuité de Mamanguape', 'PB', -6.9129, -35.2502, 6251),
+  (2505279, 'Curral de Cima', 'PB', -6.7233, -35.2639, 5254),
+  (2505303, 'Curral Velho', 'PB', -7.5308, -38.1962, 2292),
+  (2505352, 'Damião', 'PB', -6.6316, -35.9101, 4982),
+  (2505402, 'Desterro', 'PB', -7.287, -37.0925, 8067),
+  (2505501, 'Vista Serrana', 'PB', -6.7303, -37.5704, 3641),
+  (2505600, 'Diamante', 'PB', -7.4174, -38.2615, 6299),
+  (2505709, 'Dona Inês', 'PB', -6.6157, -35.6205, 10380),
+  (2505808, 'Duas Estradas', 'PB', -6.685, -35.418, 3327),
+  (2505907, 'Emas', 'PB', -7.0996, -37.7163, 3011),
+  (2506004, 'Esperança', 'PB', -7.0228, -35.8597, 31231),
+  (2506103, 'Fagundes', 'PB', -7.3445, -35.7931, 11049),
+  (2506202, 'Frei Martinho', 'PB', -6.3976, -36.4526, 2846),
+  (2506251, 'Gado Bravo', 'PB', -7.5828, -35.7899, 8179),
+  (2506301, 'Guarabira', 'PB', -6.8506, -35.485, 57484),
+  (2506400, 'Gurinhém', 'PB', -7.1233, -35.4222, 13766),
+  (2506509, 'Gurjão', 'PB', -7.2483, -36.4923, 3242),
+  (2506608, 'Ibiara', 'PB', -7.4796, -38.4059, 5631),
+  (2506707, 'Imaculada', 'PB', -7.3889, -37.5079, 10392),
+  (2506806, 'Ingá', 'PB', -7.2814, -35.605, 17692),
+  (2506905, 'Itabaiana', 'PB', -7.3317, -35.3317, 23182),
+  (2507002, 'Itaporanga', 'PB', -7.302, -38.1504, 23940),
+  (2507101, 'Itapororoca', 'PB', -6.8237, -35.2406, 18382),
+  (2507200, 'Itatuba', 'PB', -7.3811, -35.638, 10499),
+  (2507309, 'Jacaraú', 'PB', -6.6145, -35.289, 14477),
+  (2507408, 'Jericó', 'PB', -6.5458, -37.8036, 7516),
+  (2507507, 'João Pessoa', 'PB', -7.1151, -34.8641, 833932),
+  (2507606, 'Juarez Távora', 'PB', -7.1713, -35.5686, 7796),
+  (2507705, 'Juazeirinho', 'PB', -7.0609, -36.5793, 17007),
+  (2507804, 'Junco do Seridó', 'PB', -6.9927, -36.7166, 6793),
+  (2507903, 'Juripiranga', 'PB', -7.3618, -35.2321, 10012),
+  (2508000, 'Juru', 'PB', -7.5298, -37.815, 9234),
+  (2508109, 'Lagoa', 'PB', -6.5857, -37.9127, 4415),
+  (2508208, 'Lagoa de Dentro', 'PB', -6.6721, -35.3706, 7819),
+  (2508307, 'Lagoa Seca', 'PB', -7.1554, -35.8491, 27730),
+  (2508406, 'Lastro', 'PB', -6.506, -38.1742, 3162),
+  (2508505, 'Livramento', 'PB', -7.3711, -36.9491, 6877),
+  (2508554, 'Logradouro', 'PB', -6.6119, -35.4384, 4797),
+  (2508604, 'Lucena', 'PB', -6.9026, -34.8748, 12560),
+  (2508703, 'Mãe d''Água', 'PB', -7.252, -37.4322, 3583),
+  (2508802, 'Malta', 'PB', -6.8972, -37.5221, 6046),
+  (2508901, 'Mamanguape', 'PB', -6.8337, -35.1213, 44599),
+  (2509008, 'Manaíra', 'PB', -7.7033, -38.1523, 10434),
+  (2509057, 'Marcação', 'PB', -6.7653, -35.0087, 8999),
+  (2509107, 'Mari', 'PB', -7.0594, -35.318, 21512),
+  (2509156, 'Marizópolis', 'PB', -6.8275, -38.3528, 6705),
+  (2509206, 'Massaranduba', 'PB', -7.1899, -35.7848, 14139),
+  (2509305, 'Mataraca', 'PB', -6.5967, -35.0531, 8244),
+  (2509339, 'Matinhas', 'PB', -7.1249, -35.7669, 4571),
+  (2509370, 'Mato Grosso', 'PB', -6.5402, -37.7279, 2543),
+  (2509396, 'Maturéia', 'PB', -7.2619, -37.351, 6433),
+  (2509404, 'Mogeiro', 'PB', -7.2852, -35.4832, 13899),
+  (2509503, 'Montadas', 'PB', -7.0885, -35.9592, 5812),
+  (2509602, 'Monte Horebe', 'PB', -7.204, -38.5838, 4338),
+  (2509701, 'Monteiro', 'PB', -7.8836, -37.1184, 32277),
+  (2509800, 'Mulungu', 'PB', -7.0252, -35.46, 8791),
+  (2509909, 'Natuba', 'PB', -7.6351, -35.5586, 8945),
+  (2510006, 'Nazarezinho', 'PB', -6.9114, -38.322, 7203),
+  (2510105, 'Nova Floresta', 'PB', -6.4506, -36.2057, 9724),
+  (2510204, 'Nova Olinda', 'PB', -7.4723, -38.0382, 5787),
+  (2510303, 'Nova Palmeira', 'PB', -6.6712, -36.422, 4259),
+  (2510402, 'Olho d''Água', 'PB', -7.2212, -37.7406, 6060),
+  (2510501, 'Olivedos', 'PB', -6.9843, -36.241, 3580),
+  (2510600, 'Ouro Velho', 'PB', -7.616, -37.1519, 2918),
+  (2510659, 'Parari', 'PB', -7.3098, -36.6522, 1720),
+  (2510709, 'Passagem', 'PB', -7.1347, -37.0433, 2463),
+  (2510808, 'Patos', 'PB', -7.0174, -37.2747, 103165),
+  (2510907, 'Paulista', 'PB', -6.5914, -37.6185, 11834),
+  (2511004, 'Pedra Branca', 'PB', -7.4217, -38.0689, 3739),
+  (2511103, 'Pedra Lavrada', 'PB', -6.75, -36.4758, 6859),
+  (2511202, 'Pedras de Fogo', 'PB', -7.3911, -35.1065, 29662),
+  (2511301, 'Piancó', 'PB', -7.1928, -37.9289, 16441),
+  (2511400, 'Picuí', 'PB', -6.5084, -36.3497, 18333),
+  (2511509, 'Pilar', 'PB', -7.264, -35.2523, 12311),
+  (2511608, 'Pilões', 'PB', -6.8683, -35.613, 6815),
+  (2511707, 'Pilõezinhos', 'PB', -6.8428, -35.531, 5329),
+  (2511806, 'Pirpirituba', 'PB', -6.7792, -35.4906, 9340),
+  (2511905, 'Pitimbu', 'PB', -7.4664, -34.8151, 16751),
+  (2512002, 'Pocinhos', 'PB', -7.0666, -36.0668, 17469),
+  (2512036, 'Poço Dantas', 'PB', -6.3988, -38.4909, 3830),
+  (2512077, 'Poço de José de Moura', 'PB', -6.564, -38.5111, 4006),
+  (2512101, 'Pombal', 'PB', -6.7661, -37.8003, 32473),
+  (2512200, 'Prata', 'PB', -7.6883, -37.0801, 3915),
+  (2512309, 'Princesa Isabel', 'PB', -7.7317, -37.9886, 21114),
+  (2512408, 'Puxinanã', 'PB', -7.1548, -35.9543, 14277),
+  (2512507, 'Queimadas', 'PB', -7.3503, -35.9031, 47658),
+  (2512606, 'Quixaba', 'PB', -7.0224, -37.1458, 1743),
+  (2512705, 'Remígio', 'PB', -6.9499, -35.8011, 17885),
+  (2512721, 'Pedro Régis', 'PB', -6.6332, -35.2966, 5766),
+  (2512747, 'Riachão', 'PB', -6.5427, -35.661, 2927),
+  (2512754, 'Riachão do Bacamarte', 'PB', -7.2535, -35.6693, 4690),
+  (2512762, 'Riachão do Poço', 'PB', -7.1417, -35.2914, 4738),
+  (2512788, 'Riacho de Santo Antônio', 'PB', -7.6802, -36.157, 1955),
+  (2512804, 'Riacho dos Cavalos', 'PB', -6.4407, -37.6483, 8493),
+  (2512903, 'Rio Tinto', 'PB', -6.8038, -35.0776, 24581),
+  (2513000, 'Salgadinho', 'PB', -7.101, -36.8458, 3355),
+  (2513109, 'Salgado de São Félix', 'PB', -7.3534, -35.4305, 11505),
+  (2513158, 'Santa Cecília', 'PB', -7.7389, -35.8764, 7670),
+  (2513208, 'Santa Cruz', 'PB', -6.5237, -38.0617, 5947),
+  (2513307, 'Santa Helena', 'PB', -6.7176, -38.6427, 5865),
+  (2513356, 'Santa Inês', 'PB', -7.621, -38.554, 3227),
+  (2513406, 'Santa Luzia', 'PB', -6.8609, -36.9178, 14959),
+  (2513505, 'Santana de Mangueira', 'PB', -7.547, -38.3236, 5010),
+  (2513604, 'Santana dos Garrotes', 'PB', -7.3816, -37.9819, 6569),
+  (2513653, 'Joca Claudino', 'PB', -6.4836, -38.4764, 2539),
+  (2513703, 'Santa Rita', 'PB', -7.1172, -34.9753, 149910),
+  (2513802, 'Santa Teresinha', 'PB', -7.0796, -37.4435, 4402),
+  (2513851, 'Santo André', 'PB', -7.2202, -36.6213, 2622),
+  (2513901, 'São Bento', 'PB', -6.4853, -37.4488, 32235),
+  (2513927, 'São Bentinho', 'PB', -6.886, -37.7243, 4327),
+  (2513943, 'São Domingos do Cariri', 'PB', -7.6327, -36.4374, 2585),
+  (2513968, 'São Domingos', 'PB', -6.8031, -37.9488, 2595),
+  (2513984, 'São Francisco', 'PB', -6.6077, -38.0968, 3137),
+  (2514008, 'São João do Cariri', 'PB', -7.3817, -36.5345, 4226),
+  (2514107, 'São João do Tigre', 'PB', -8.077, -36.8547, 4263),
+  (2514206, 'São José da Lagoa Tapada', 'PB', -6.9365, -38.1622, 7126),
+  (2514305, 'São José de Caiana', 'PB', -7.2464, -38.2989, 5034),
+  (2514404, 'São José de Espinharas', 'PB', -6.8397, -37.3214, 4083),
+  (2514453, 'São José dos Ramos', 'PB', -7.2524, -35.3725, 5891),
+  (2514503, 'São José de Piranhas', 'PB', -7.1187, -38.502, 19067),
+  (2514552, 'São José de Princesa', 'PB', -7.7363, -38.0894, 3416),
+  (2514602, 'São José do Bonfim', 'PB', -7.1607, -37.3036, 3242),
+  (2514651, 'São José do Brejo do Cruz', 'PB', -6.2105, -37.3601, 1699),
+  (2514701, 'São José do Sabugi', 'PB', -6.763, -36.7972, 4138),
+  (2514800, 'São José dos Cordeiros', 'PB', -7.3877, -36.8085, 3411),
+  (2514909, 'São Mamede', 'PB', -6.9239, -37.0954, 7470),
+  (2515005, 'São Miguel de Taipu', 'PB', -7.2476, -35.2016, 7066),
+  (2515104, 'São Sebastião de Lagoa de Roça', 'PB', -7.1103, -35.8678, 11040),
+  (2515203, 'São Sebastião do Umbuzeiro', 'PB', -8.1529, -37.0138, 3279),
+  (2515302, 'Sapé', 'PB', -7.0936, -35.228, 51306),
+  (2515401, 'São Vicente do Seridó', 'PB', -6.8543, -36.4122, 10291),
+  (2515500, 'Serra Branca', 'PB', -7.4803, -36.666, 13614),
+  (2515609, 'Serra da Raiz', 'PB', -6.6853, -35.4379, 3094),
+  (2515708, 'Serra Grande', 'PB', -7.2096, -38.3647, 2942),
+  (2515807, 'Serra Redonda', 'PB', -7.1862, -35.6842, 6828),
+  (2515906, 'Serraria', 'PB', -6.8157, -35.6282, 4885),
+  (2515930, 'Sertãozinho', 'PB', -6.7513, -35.4372, 5054),
+  (2515971, 'Sobrado', 'PB', -7.1443, -35.2357, 8236),
+  (2516003, 'Solânea', 'PB', -6.7516, -35.6636, 26774),
+  (2516102, 'Soledade', 'PB', -7.0583, -36.3668, 13968),
+  (2516151, 'Sossêgo', 'PB', -6.7707, -36.2538, 3345),
+  (2516201, 'Sousa', 'PB', -6.7515, -38.2311, 67259),
+  (2516300, 'Sumé', 'PB', -7.6621, -36.884, 17166),
+  (2516409, 'Tacima', 'PB', -6.4876, -35.6367, 8010),
+  (2516508, 'Taperoá', 'PB', -7.2063, -36.8245, 14068),
+  (2516607, 'Tavares', 'PB', -7.627, -37.8712, 14101),
+  (2516706, 'Teixeira', 'PB', -7.221, -37.2525, 14631),
+  (2516755, 'Tenório', 'PB', -6.9386, -36.6273, 2966),
+  (2516805, 'Triunfo', 'PB', -6.5713, -38.5986, 9892),
+  (2516904, 'Uiraúna', 'PB', -6.515, -38.4128, 14930),
+  (2517001, 'Umbuzeiro', 'PB', -7.692, -35.6582, 9124),
+  (2517100, 'Várzea', 'PB', -6.7619, -36.9913, 2668),
+  (2517209, 'Vieirópolis', 'PB', -6.5068, -38.2567, 4864),
+  (2517407, 'Zabelê', 'PB', -8.079, -37.1057, 2228),
+  (2600054, 'Abreu e Lima', 'PE', -7.9007, -34.8984, 98462),
+  (2600104, 'Afogados da Ingazeira', 'PE', -7.7431, -37.631, 40241),
+  (2600203, 'Afrânio', 'PE', -8.5114, -41.0095, 18674),
+  (2600302, 'Agrestina', 'PE', -8.4597, -35.9447, 23779),
+  (2600401, 'Água Preta', 'PE', -8.7061, -35.5263, 26461),
+  (2600500, 'Águas Belas', 'PE', -9.1113, -37.1226, 41548),
+  (2600609, 'Alagoinha', 'PE', -8.4665, -36.7788, 13542),
+  (2600708, 'Aliança', 'PE', -7.604, -35.2227, 35741),
+  (2600807, 'Altinho', 'PE', -8.4848, -36.0644, 20674),
+  (2600906, 'Amaraji', 'PE', -8.3769, -35.4501, 18205),
+  (2601003, 'Angelim', 'PE', -8.8843, -36.2902, 10241),
+  (2601052, 'Araçoiaba', 'PE', -7.7839, -35.0809, 19243),
+  (2601102, 'Araripina', 'PE', -7.5707, -40.494, 85088),
+  (2601201, 'Arcoverde', 'PE', -8.4152, -37.0577, 77742),
+  (2601300, 'Barra de Guabiraba', 'PE', -8.4207, -35.6585, 12263),
+  (2601409, 'Barreiros', 'PE', -8.8161, -35.1832, 40121),
+  (2601508, 'Belém de Maria', 'PE', -8.625, -35.8335, 10378),
+  (2601607, 'Belém do São Francisco', 'PE', -8.7505, -38.9623, 18301),
+  (2601706, 'Belo Jardim', 'PE', -8.3313, -36.4258, 79507),
+  (2601805, 'Betânia', 'PE', -8.2679, -38.0345, 11232),
+  (2601904, 'Bezerros', 'PE', -8.2328, -35.796, 61694),
+  (2602001, 'Bodocó', 'PE', -7.7776, -39.9338, 34478),
+  (2602100, 'Bom Conselho', 'PE', -9.1692, -36.6857, 44294),
+  (2602209, 'Bom Jardim', 'PE', -7.7969, -35.5784, 37629),
+  (2602308, 'Bonito', 'PE', -8.4716, -35.7292, 37474),
+  (2602407, 'Brejão', 'PE', -9.0291, -36.566, 9079),
+  (2602506, 'Brejinho', 'PE', -7.3469, -37.2865, 7720),
+  (2602605, 'Brejo da Madre de Deus', 'PE', -8.1493, -36.3741, 48648),
+  (2602704, 'Buenos Aires', 'PE', -7.7245, -35.3182, 12808),
+  (2602803, 'Buíque', 'PE', -8.6195, -37.1606, 52097),
+  (2602902, 'Cabo de Santo Agostinho', 'PE', -8.2822, -35.0253, 203440),
+  (2603009, 'Cabrobó', 'PE', -8.5055, -39.3094, 30294),
+  (2603108, 'Cachoeirinha', 'PE', -8.4867, -36.2402, 19899),
+  (2603207, 'Caetés', 'PE', -8.7803, -36.6268, 28827),
+  (2603306, 'Calçado', 'PE', -8.7311, -36.3366, 11093);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (2603405, 'Calumbi', 'PE', -7.9355, -38.1482, 5228),
+  (2603454, 'Camaragibe', 'PE', -8.0235, -34.9782, 147771),
+  (2603504, 'Camocim de São Félix', 'PE', -8.3587, -35.7653, 17419),
+  (2603603, 'Camutanga', 'PE', -7.4055, -35.2664, 7750),
+  (2603702, 'Canhotinho', 'PE', -8.8765, -36.1979, 24329),
+  (2603801, 'Capoeiras', 'PE', -8.7342, -36.6306, 18338),
+  (2603900, 'Carnaíba', 'PE', -7.7934, -37.7946, 18644),
+  (2603926, 'Carnaubeira da Penha', 'PE', -8.318, -38.7512, 12239),
+  (2604007, 'Carpina', 'PE', -7.8457, -35.2514, 79293),
+  (2604106, 'Caruaru', 'PE', -8.2845, -35.9699, 378048),
+  (2604155, 'Casinhas', 'PE', -7.7408, -35.7206, 12967),
+  (2604205, 'Catende', 'PE', -8.6751, -35.7024, 32156),
+  (2604304, 'Cedro', 'PE', -7.7118, -39.2367, 10518),
+  (2604403, 'Chã de Alegria', 'PE', -8.0068, -35.204, 12984),
+  (2604502, 'Chã Grande', 'PE', -8.2383, -35.4571, 20546),
+  (2604601, 'Condado', 'PE', -7.5879, -35.0999, 24587),
+  (2604700, 'Correntes', 'PE', -9.1212, -36.3244, 17131),
+  (2604809, 'Cortês', 'PE', -8.4744, -35.5468, 10198),
+  (2604908, 'Cumaru', 'PE', -8.0083, -35.6957, 15920),
+  (2605004, 'Cupira', 'PE', -8.6243, -35.9518, 23518),
+  (2605103, 'Custódia', 'PE', -8.0855, -37.6443, 37699),
+  (2605152, 'Dormentes', 'PE', -8.4412, -40.7662, 17188),
+  (2605202, 'Escada', 'PE', -8.3567, -35.2241, 59891),
+  (2605301, 'Exu', 'PE', -7.5036, -39.7238, 31843),
+  (2605400, 'Feira Nova', 'PE', -7.947, -35.3801, 21427),
+  (2605459, 'Fernando de Noronha', 'PE', -3.8396, -32.4107, 3167),
+  (2605509, 'Ferreiros', 'PE', -7.4467, -35.2373, 15026),
+  (2605608, 'Flores', 'PE', -7.8584, -37.9715, 20347),
+  (2605707, 'Floresta', 'PE', -8.6031, -38.5687, 30137),
+  (2605806, 'Frei Miguelinho', 'PE', -7.9392, -35.9113, 13636),
+  (2605905, 'Gameleira', 'PE', -8.5798, -35.3846, 18214),
+  (2606002, 'Garanhuns', 'PE', -8.8824, -36.4966, 142506),
+  (2606101, 'Glória do Goitá', 'PE', -8.0057, -35.2904, 29347),
+  (2606200, 'Goiana', 'PE', -7.5606, -34.9959, 81055),
+  (2606309, 'Granito', 'PE', -7.7071, -39.615, 6967),
+  (2606408, 'Gravatá', 'PE', -8.2112, -35.5675, 86516),
+  (2606507, 'Iati', 'PE', -9.0456, -36.8498, 17165),
+  (2606606, 'Ibimirim', 'PE', -8.5403, -37.7032, 26593),
+  (2606705, 'Ibirajuba', 'PE', -8.5763, -36.1812, 7140),
+  (2606804, 'Igarassu', 'PE', -7.8288, -34.9013, 115196),
+  (2606903, 'Iguaracy', 'PE', -7.8322, -37.5082, 11081),
+  (2607000, 'Inajá', 'PE', -8.9021, -37.8351, 25603),
+  (2607109, 'Ingazeira', 'PE', -7.6691, -37.4576, 4765),
+  (2607208, 'Ipojuca', 'PE', -8.393, -35.0609, 98932),
+  (2607307, 'Ipubi', 'PE', -7.6451, -40.1476, 29009),
+  (2607406, 'Itacuruba', 'PE', -8.8223, -38.6975, 4284),
+  (2607505, 'Itaíba', 'PE', -8.9457, -37.4173, 32650),
+  (2607604, 'Ilha de Itamaracá', 'PE', -7.7477, -34.8303, 24540),
+  (2607653, 'Itambé', 'PE', -7.414, -35.0963, 34935),
+  (2607703, 'Itapetim', 'PE', -7.3718, -37.1863, 13791),
+  (2607752, 'Itapissuma', 'PE', -7.768, -34.8971, 27749),
+  (2607802, 'Itaquitinga', 'PE', -7.6637, -35.1002, 16554),
+  (2607901, 'Jaboatão dos Guararapes', 'PE', -8.113, -35.015, 644037),
+  (2607950, 'Jaqueira', 'PE', -8.7262, -35.7942, 10247),
+  (2608008, 'Jataúba', 'PE', -7.9767, -36.4943, 15843),
+  (2608057, 'Jatobá', 'PE', -9.1748, -38.2607, 14020),
+  (2608107, 'João Alfredo', 'PE', -7.8656, -35.5787, 27725),
+  (2608206, 'Joaquim Nabuco', 'PE', -8.6228, -35.5288, 13269),
+  (2608255, 'Jucati', 'PE', -8.702, -36.4871, 11517),
+  (2608305, 'Jupi', 'PE', -8.709, -36.4126, 15329),
+  (2608404, 'Jurema', 'PE', -8.7071, -36.1347, 13648),
+  (2608453, 'Lagoa do Carro', 'PE', -7.8438, -35.3108, 17981),
+  (2608503, 'Lagoa de Itaenga', 'PE', -7.93, -35.2874, 19003),
+  (2608602, 'Lagoa do Ouro', 'PE', -9.1257, -36.4584, 11933),
+  (2608701, 'Lagoa dos Gatos', 'PE', -8.6602, -35.904, 14076),
+  (2608750, 'Lagoa Grande', 'PE', -8.9945, -40.2767, 24088),
+  (2608800, 'Lajedo', 'PE', -8.6579, -36.3293, 39582),
+  (2608909, 'Limoeiro', 'PE', -7.8726, -35.4402, 56510),
+  (2609006, 'Macaparana', 'PE', -7.5556, -35.4425, 23879),
+  (2609105, 'Machados', 'PE', -7.6883, -35.5114, 11333),
+  (2609154, 'Manari', 'PE', -8.9649, -37.6313, 23763),
+  (2609204, 'Maraial', 'PE', -8.7906, -35.8266, 9359),
+  (2609303, 'Mirandiba', 'PE', -8.1211, -38.7388, 14166),
+  (2609402, 'Moreno', 'PE', -8.1087, -35.0835, 55292),
+  (2609501, 'Nazaré da Mata', 'PE', -7.7415, -35.2193, 30648),
+  (2609600, 'Olinda', 'PE', -8.0102, -34.8545, 349976),
+  (2609709, 'Orobó', 'PE', -7.7455, -35.5956, 21808),
+  (2609808, 'Orocó', 'PE', -8.6103, -39.6026, 13613),
+  (2609907, 'Ouricuri', 'PE', -7.8792, -40.08, 65245),
+  (2610004, 'Palmares', 'PE', -8.6842, -35.589, 54584),
+  (2610103, 'Palmeirina', 'PE', -9.0109, -36.3242, 7031),
+  (2610202, 'Panelas', 'PE', -8.6612, -36.0125, 22991),
+  (2610301, 'Paranatama', 'PE', -8.9187, -36.6549, 12199),
+  (2610400, 'Parnamirim', 'PE', -8.0873, -39.5795, 18612),
+  (2610509, 'Passira', 'PE', -7.9971, -35.5813, 28340),
+  (2610608, 'Paudalho', 'PE', -7.9029, -35.1716, 56665),
+  (2610707, 'Paulista', 'PE', -7.934, -34.8684, 342167),
+  (2610806, 'Pedra', 'PE', -8.4964, -36.94, 22795),
+  (2610905, 'Pesqueira', 'PE', -8.358, -36.6978, 62722),
+  (2611002, 'Petrolândia', 'PE', -9.0686, -38.3027, 34161),
+  (2611101, 'Petrolina', 'PE', -9.3887, -40.5027, 386791),
+  (2611200, 'Poção', 'PE', -8.1873, -36.7111, 10500),
+  (2611309, 'Pombos', 'PE', -8.1398, -35.3967, 27552),
+  (2611408, 'Primavera', 'PE', -8.33, -35.3544, 13838),
+  (2611507, 'Quipapá', 'PE', -8.8117, -36.0137, 17928),
+  (2611533, 'Quixaba', 'PE', -7.7073, -37.8446, 6554),
+  (2611606, 'Recife', 'PE', -8.0467, -34.8771, 1488920),
+  (2611705, 'Riacho das Almas', 'PE', -8.1374, -35.8648, 20639),
+  (2611804, 'Ribeirão', 'PE', -8.5096, -35.3698, 33507),
+  (2611903, 'Rio Formoso', 'PE', -8.6592, -35.1532, 20009),
+  (2612000, 'Sairé', 'PE', -8.3286, -35.6967, 10887),
+  (2612109, 'Salgadinho', 'PE', -7.9269, -35.6503, 5727),
+  (2612208, 'Salgueiro', 'PE', -8.0737, -39.1247, 62372),
+  (2612307, 'Saloá', 'PE', -8.9723, -36.691, 13836),
+  (2612406, 'Sanharó', 'PE', -8.361, -36.5696, 18624),
+  (2612455, 'Santa Cruz', 'PE', -8.2415, -40.3434, 13841),
+  (2612471, 'Santa Cruz da Baixa Verde', 'PE', -7.8134, -38.1476, 11567),
+  (2612505, 'Santa Cruz do Capibaribe', 'PE', -7.948, -36.2061, 98254),
+  (2612554, 'Santa Filomena', 'PE', -8.1669, -40.6079, 12106),
+  (2612604, 'Santa Maria da Boa Vista', 'PE', -8.7977, -39.8241, 40578),
+  (2612703, 'Santa Maria do Cambucá', 'PE', -7.8368, -35.8941, 14013),
+  (2612802, 'Santa Terezinha', 'PE', -7.377, -37.4787, 10244),
+  (2612901, 'São Benedito do Sul', 'PE', -8.8166, -35.9453, 13113),
+  (2613008, 'São Bento do Una', 'PE', -8.5264, -36.4465, 49449),
+  (2613107, 'São Caitano', 'PE', -8.3376, -36.2869, 37126),
+  (2613206, 'São João', 'PE', -8.8758, -36.3653, 23837),
+  (2613305, 'São Joaquim do Monte', 'PE', -8.432, -35.8035, 20037),
+  (2613404, 'São José da Coroa Grande', 'PE', -8.8894, -35.1515, 18825),
+  (2613503, 'São José do Belmonte', 'PE', -7.8572, -38.7577, 34843),
+  (2613602, 'São José do Egito', 'PE', -7.4695, -37.274, 31004),
+  (2613701, 'São Lourenço da Mata', 'PE', -8.0068, -35.0124, 111249),
+  (2613800, 'São Vicente Férrer', 'PE', -7.5897, -35.4808, 16677),
+  (2613909, 'Serra Talhada', 'PE', -7.9818, -38.289, 92228),
+  (2614006, 'Serrita', 'PE', -7.9404, -39.2951, 18207),
+  (2614105, 'Sertânia', 'PE', -8.0685, -37.2684, 32811),
+  (2614204, 'Sirinhaém', 'PE', -8.5878, -35.1126, 37596),
+  (2614303, 'Moreilândia', 'PE', -7.6193, -39.546, 10540),
+  (2614402, 'Solidão', 'PE', -7.5947, -37.6445, 5210),
+  (2614501, 'Surubim', 'PE', -7.8475, -35.7481, 64120),
+  (2614600, 'Tabira', 'PE', -7.5837, -37.5377, 27681),
+  (2614709, 'Tacaimbó', 'PE', -8.3087, -36.3, 13738),
+  (2614808, 'Tacaratu', 'PE', -9.098, -38.1504, 23902),
+  (2614857, 'Tamandaré', 'PE', -8.7567, -35.1033, 23561),
+  (2615003, 'Taquaritinga do Norte', 'PE', -7.8945, -36.0423, 24736),
+  (2615102, 'Terezinha', 'PE', -9.0562, -36.6272, 6513),
+  (2615201, 'Terra Nova', 'PE', -8.2224, -39.3825, 8920),
+  (2615300, 'Timbaúba', 'PE', -7.5048, -35.3119, 46147),
+  (2615409, 'Toritama', 'PE', -8.0096, -36.0637, 41137),
+  (2615508, 'Tracunhaém', 'PE', -7.8023, -35.2314, 13867),
+  (2615607, 'Trindade', 'PE', -7.759, -40.2647, 30321),
+  (2615706, 'Triunfo', 'PE', -7.8327, -38.0978, 14705),
+  (2615805, 'Tupanatinga', 'PE', -8.748, -37.3445, 26937),
+  (2615904, 'Tuparetama', 'PE', -7.6003, -37.3165, 8005),
+  (2616001, 'Venturosa', 'PE', -8.5788, -36.8742, 17251),
+  (2616100, 'Verdejante', 'PE', -7.9223, -38.9701, 9169),
+  (2616183, 'Vertente do Lério', 'PE', -7.7708, -35.8491, 7558),
+  (2616209, 'Vertentes', 'PE', -7.9016, -35.9681, 21959),
+  (2616308, 'Vicência', 'PE', -7.6566, -35.3139, 26359),
+  (2616407, 'Vitória de Santo Antão', 'PE', -8.1282, -35.2976, 134084),
+  (2616506, 'Xexéu', 'PE', -8.8046, -35.6212, 11611),
+  (2700102, 'Água Branca', 'AL', -9.262, -37.938, 19008),
+  (2700201, 'Anadia', 'AL', -9.6849, -36.3078, 13966),
+  (2700300, 'Arapiraca', 'AL', -9.7549, -36.6615, 234696),
+  (2700409, 'Atalaia', 'AL', -9.5119, -36.0086, 37512),
+  (2700508, 'Barra de Santo Antônio', 'AL', -9.4023, -35.5101, 16365),
+  (2700607, 'Barra de São Miguel', 'AL', -9.8384, -35.9057, 7944),
+  (2700706, 'Batalha', 'AL', -9.6742, -37.133, 16448),
+  (2700805, 'Belém', 'AL', -9.5705, -36.4904, 4722),
+  (2700904, 'Belo Monte', 'AL', -9.8227, -37.277, 5936),
+  (2701001, 'Boca da Mata', 'AL', -9.6431, -36.2125, 21187),
+  (2701100, 'Branquinha', 'AL', -9.2334, -36.0162, 9603),
+  (2701209, 'Cacimbinhas', 'AL', -9.4012, -36.9911, 10482),
+  (2701308, 'Cajueiro', 'AL', -9.3994, -36.1559, 16024),
+  (2701357, 'Campestre', 'AL', -8.8472, -35.5685, 6665),
+  (2701407, 'Campo Alegre', 'AL', -9.7845, -36.3525, 32106),
+  (2701506, 'Campo Grande', 'AL', -9.9554, -36.7926, 8143),
+  (2701605, 'Canapi', 'AL', -9.1193, -37.5967, 15559),
+  (2701704, 'Capela', 'AL', -9.415, -36.0826, 15032),
+  (2701803, 'Carneiros', 'AL', -9.4848, -37.3773, 8999),
+  (2701902, 'Chã Preta', 'AL', -9.2556, -36.2983, 5910),
+  (2702009, 'Coité do Nóia', 'AL', -9.6335, -36.5845, 10810),
+  (2702108, 'Colônia Leopoldina', 'AL', -8.9181, -35.7214, 15816),
+  (2702207, 'Coqueiro Seco', 'AL', -9.6372, -35.7994, 5581),
+  (2702306, 'Coruripe', 'AL', -10.1276, -36.1717, 50414),
+  (2702355, 'Craíbas', 'AL', -9.6178, -36.7697, 25397),
+  (2702405, 'Delmiro Gouveia', 'AL', -9.3853, -37.9987, 51318),
+  (2702504, 'Dois Riachos', 'AL', -9.3847, -37.0965, 9805),
+  (2702553, 'Estrela de Alagoas', 'AL', -9.3909, -36.7644, 15429),
+  (2702603, 'Feira Grande', 'AL', -9.8986, -36.6815, 22712),
+  (2702702, 'Feliz Deserto', 'AL', -10.2935, -36.3028, 3963),
+  (2702801, 'Flexeiras', 'AL', -9.2728, -35.7139, 9618),
+  (2702900, 'Girau do Ponciano', 'AL', -9.884, -36.8316, 36102),
+  (2703007, 'Ibateguara', 'AL', -8.9782, -35.9373, 13731),
+  (2703106, 'Igaci', 'AL', -9.5377, -36.6372, 23995),
+  (2703205, 'Igreja Nova', 'AL', -10.1235, -36.6597, 21372),
+  (2703304, 'Inhapi', 'AL', -9.2259, -37.7509, 15167),
+  (2703403, 'Jacaré dos Homens', 'AL', -9.6355, -37.2076, 5083),
+  (2703502, 'Jacuípe', 'AL', -8.8395, -35.4591, 5352),
+  (2703601, 'Japaratinga', 'AL', -9.0875, -35.2634, 9219),
+  (2703700, 'Jaramataia', 'AL', -9.6622, -37.0046, 4985),
+  (2703759, 'Jequiá da Praia', 'AL', -10.0133, -36.0142, 9470),
+  (2703809, 'Joaquim Gomes', 'AL', -9.1328, -35.7474, 17150),
+  (2703908, 'Jundiá', 'AL', -8.933, -35.5669, 4092),
+  (2704005, 'Junqueiro', 'AL', -9.907, -36.4803, 23907),
+  (2704104, 'Lagoa da Canoa', 'AL', -9.8329, -36.7413, 18457),
+  (2704203, 'Limoeiro de Anadia', 'AL', -9.741, -36.5121, 24740),
+  (2704302, 'Maceió', 'AL', -9.666, -35.735, 957916),
+  (2704401, 'Major Isidoro', 'AL', -9.5301, -36.992, 17700),
+  (2704500, 'Maragogi', 'AL', -9.0074, -35.2267, 32174),
+  (2704609, 'Maravilha', 'AL', -9.2304, -37.3524, 9534),
+  (2704708, 'Marechal Deodoro', 'AL', -9.7097, -35.8967, 60370),
+  (2704807, 'Maribondo', 'AL', -9.5835, -36.3045, 13679),
+  (2704906, 'Mar Vermelho', 'AL', -9.4474, -36.3881, 3155),
+  (2705002, 'Mata Grande', 'AL', -9.1182, -37.7323, 21844),
+  (2705101, 'Matriz de Camaragibe', 'AL', -9.1544, -35.5243, 23857),
+  (2705200, 'Messias', 'AL', -9.3938, -35.8392, 15405),
+  (2705309, 'Minador do Negrão', 'AL', -9.3124, -36.8696, 4845),
+  (2705408, 'Monteirópolis', 'AL', -9.6036, -37.2505, 7184),
+  (2705507, 'Murici', 'AL', -9.3068, -35.9428, 25187),
+  (2705606, 'Novo Lino', 'AL', -8.9419, -35.664, 10020),
+  (2705705, 'Olho d''Água das Flores', 'AL', -9.5369, -37.2971, 20695),
+  (2705804, 'Olho d''Água do Casado', 'AL', -9.5036, -37.8301, 8349),
+  (2705903, 'Olho d''Água Grande', 'AL', -10.0572, -36.8101, 4330),
+  (2706000, 'Olivença', 'AL', -9.5195, -37.1954, 10812),
+  (2706109, 'Ouro Branco', 'AL', -9.1588, -37.3556, 11446),
+  (2706208, 'Palestina', 'AL', -9.6749, -37.339, 4325),
+  (2706307, 'Palmeira dos Índios', 'AL', -9.4057, -36.6328, 71574),
+  (2706406, 'Pão de Açúcar', 'AL', -9.7403, -37.4403, 23823),
+  (2706422, 'Pariconha', 'AL', -9.2563, -37.9988, 10573),
+  (2706448, 'Paripueira', 'AL', -9.4631, -35.552, 13835),
+  (2706505, 'Passo de Camaragibe', 'AL', -9.2451, -35.4745, 13804),
+  (2706604, 'Paulo Jacinto', 'AL', -9.3679, -36.3672, 6576),
+  (2706703, 'Penedo', 'AL', -10.2874, -36.5819, 58650),
+  (2706802, 'Piaçabuçu', 'AL', -10.406, -36.434, 15908),
+  (2706901, 'Pilar', 'AL', -9.6014, -35.9543, 35370),
+  (2707008, 'Pindoba', 'AL', -9.4738, -36.2918, 2731),
+  (2707107, 'Piranhas', 'AL', -9.624, -37.757, 22609),
+  (2707206, 'Poço das Trincheiras', 'AL', -9.3074, -37.2889, 12518),
+  (2707305, 'Porto Calvo', 'AL', -9.0519, -35.3987, 24071),
+  (2707404, 'Porto de Pedras', 'AL', -9.1601, -35.3049, 9295),
+  (2707503, 'Porto Real do Colégio', 'AL', -10.1849, -36.8376, 20082),
+  (2707602, 'Quebrangulo', 'AL', -9.32, -36.4692, 11080),
+  (2707701, 'Rio Largo', 'AL', -9.4778, -35.8394, 93927),
+  (2707800, 'Roteiro', 'AL', -9.835, -35.9782, 6474),
+  (2707909, 'Santa Luzia do Norte', 'AL', -9.6037, -35.8232, 6919),
+  (2708006, 'Santana do Ipanema', 'AL', -9.37, -37.248, 46220),
+  (2708105, 'Santana do Mundaú', 'AL', -9.1714, -36.2176, 11323),
+  (2708204, 'São Brás', 'AL', -10.1141, -36.8522, 6555),
+  (2708303, 'São José da Laje', 'AL', -9.0128, -36.0515, 20813),
+  (2708402, 'São José da Tapera', 'AL', -9.5577, -37.3831, 30604),
+  (2708501, 'São Luís do Quitunde', 'AL', -9.3182, -35.5606, 30873),
+  (2708600, 'São Miguel dos Campos', 'AL', -9.783, -36.0971, 51990),
+  (2708709, 'São Miguel dos Milagres', 'AL', -9.2649, -35.3763, 8482),
+  (2708808, 'São Sebastião', 'AL', -9.9304, -36.559, 31786),
+  (2708907, 'Satuba', 'AL', -9.5691, -35.8227, 24278),
+  (2708956, 'Senador Rui Palmeira', 'AL', -9.4699, -37.4576, 12303),
+  (2709004, 'Tanque d''Arca', 'AL', -9.5338, -36.4366, 5796),
+  (2709103, 'Taquarana', 'AL', -9.6453, -36.4928, 19032),
+  (2709152, 'Teotônio Vilela', 'AL', -9.9166, -36.3492, 38053),
+  (2709202, 'Traipu', 'AL', -9.9626, -37.0071, 23565),
+  (2709301, 'União dos Palmares', 'AL', -9.1592, -36.0223, 59280),
+  (2709400, 'Viçosa', 'AL', -9.3676, -36.2431, 24092),
+  (2800100, 'Amparo do São Francisco', 'SE', -10.1348, -36.935, 2170),
+  (2800209, 'Aquidabã', 'SE', -10.278, -37.0148, 20131),
+  (2800308, 'Aracaju', 'SE', -10.9091, -37.0677, 602757),
+  (2800407, 'Arauá', 'SE', -11.2614, -37.6201, 10318),
+  (2800506, 'Areia Branca', 'SE', -10.758, -37.3251, 18081),
+  (2800605, 'Barra dos Coqueiros', 'SE', -10.8996, -37.0323, 41511),
+  (2800670, 'Boquim', 'SE', -11.1397, -37.6195, 24636),
+  (2800704, 'Brejo Grande', 'SE', -10.4297, -36.4611, 7841),
+  (2801009, 'Campo do Brito', 'SE', -10.7392, -37.4954, 18149),
+  (2801108, 'Canhoba', 'SE', -10.1365, -36.9806, 3791),
+  (2801207, 'Canindé de São Francisco', 'SE', -9.6488, -37.7923, 26834),
+  (2801306, 'Capela', 'SE', -10.5069, -37.0628, 31645),
+  (2801405, 'Carira', 'SE', -10.3524, -37.7002, 19939),
+  (2801504, 'Carmópolis', 'SE', -10.6449, -36.9887, 13853),
+  (2801603, 'Cedro de São João', 'SE', -10.2534, -36.8856, 5391),
+  (2801702, 'Cristinápolis', 'SE', -11.4668, -37.7585, 17100),
+  (2801900, 'Cumbe', 'SE', -10.352, -37.1846, 3824),
+  (2802007, 'Divina Pastora', 'SE', -10.6782, -37.1506, 4340),
+  (2802106, 'Estância', 'SE', -11.2659, -37.4484, 65078),
+  (2802205, 'Feira Nova', 'SE', -10.2616, -37.3147, 5975),
+  (2802304, 'Frei Paulo', 'SE', -10.5513, -37.5279, 14530),
+  (2802403, 'Gararu', 'SE', -9.9722, -37.0869, 11096),
+  (2802502, 'General Maynard', 'SE', -10.6835, -36.9838, 3037),
+  (2802601, 'Graccho Cardoso', 'SE', -10.2252, -37.2006, 5834),
+  (2802700, 'Ilha das Flores', 'SE', -10.4425, -36.5479, 8321),
+  (2802809, 'Indiaroba', 'SE', -11.5157, -37.515, 16549),
+  (2802908, 'Itabaiana', 'SE', -10.6826, -37.4273, 103440),
+  (2803005, 'Itabaianinha', 'SE', -11.2693, -37.7875, 40678),
+  (2803104, 'Itabi', 'SE', -10.1248, -37.1056, 4745),
+  (2803203, 'Itaporanga d''Ajuda', 'SE', -10.99, -37.3078, 34411),
+  (2803302, 'Japaratuba', 'SE', -10.5849, -36.9418, 16209),
+  (2803401, 'Japoatã', 'SE', -10.3477, -36.8045, 13407),
+  (2803500, 'Lagarto', 'SE', -10.9136, -37.6689, 101579),
+  (2803609, 'Laranjeiras', 'SE', -10.7981, -37.1731, 23975),
+  (2803708, 'Macambira', 'SE', -10.6619, -37.5413, 6838),
+  (2803807, 'Malhada dos Bois', 'SE', -10.3418, -36.9252, 3579),
+  (2803906, 'Malhador', 'SE', -10.6649, -37.3004, 11533),
+  (2804003, 'Maruim', 'SE', -10.7308, -37.0856, 15719),
+  (2804102, 'Moita Bonita', 'SE', -10.5769, -37.3512, 11050),
+  (2804201, 'Monte Alegre de Sergipe', 'SE', -10.0256, -37.5616, 14336),
+  (2804300, 'Muribeca', 'SE', -10.4271, -36.9588, 7822),
+  (2804409, 'Neópolis', 'SE', -10.3215, -36.585, 16426),
+  (2804458, 'Nossa Senhora Aparecida', 'SE', -10.3944, -37.4517, 9232),
+  (2804508, 'Nossa Senhora da Glória', 'SE', -10.2158, -37.4211, 41212),
+  (2804607, 'Nossa Senhora das Dores', 'SE', -10.4854, -37.1963, 24996),
+  (2804706, 'Nossa Senhora de Lourdes', 'SE', -10.0772, -37.0615, 6268),
+  (2804805, 'Nossa Senhora do Socorro', 'SE', -10.8468, -37.1231, 192330),
+  (2804904, 'Pacatuba', 'SE', -10.4538, -36.6531, 12502),
+  (2805000, 'Pedra Mole', 'SE', -10.6134, -37.6922, 2778),
+  (2805109, 'Pedrinhas', 'SE', -11.1902, -37.6775, 7396),
+  (2805208, 'Pinhão', 'SE', -10.5677, -37.7242, 5677),
+  (2805307, 'Pirambu', 'SE', -10.7215, -36.8544, 7913),
+  (2805406, 'Poço Redondo', 'SE', -9.8062, -37.6833, 33439),
+  (2805505, 'Poço Verde', 'SE', -10.7151, -38.1813, 21794),
+  (2805604, 'Porto da Folha', 'SE', -9.9163, -37.2842, 26576),
+  (2805703, 'Propriá', 'SE', -10.2138, -36.8442, 26618),
+  (2805802, 'Riachão do Dantas', 'SE', -11.0729, -37.731, 18313),
+  (2805901, 'Riachuelo', 'SE', -10.735, -37.1966, 8748),
+  (2806008, 'Ribeirópolis', 'SE', -10.5357, -37.438, 17033),
+  (2806107, 'Rosário do Catete', 'SE', -10.6904, -37.0357, 9295),
+  (2806206, 'Salgado', 'SE', -11.0288, -37.4804, 20279),
+  (2806305, 'Santa Luzia do Itanhy', 'SE', -11.3536, -37.4586, 13616),
+  (2806404, 'Santana do São Francisco', 'SE', -10.2922, -36.6105, 7346),
+  (2806503, 'Santa Rosa de Lima', 'SE', -10.6434, -37.1931, 3937),
+  (2806602, 'Santo Amaro das Brotas', 'SE', -10.7892, -37.0564, 11092),
+  (2806701, 'São Cristóvão', 'SE', -11.0084, -37.2044, 95612),
+  (2806800, 'São Domingos', 'SE', -10.7916, -37.5685, 10327),
+  (2806909, 'São Francisco', 'SE', -10.3442, -36.8869, 3243),
+  (2807006, 'São Miguel do Aleixo', 'SE', -10.3847, -37.3836, 3434),
+  (2807105, 'Simão Dias', 'SE', -10.7387, -37.8097, 42578),
+  (2807204, 'Siriri', 'SE', -10.5965, -37.1131, 7834),
+  (2807303, 'Telha', 'SE', -10.2064, -36.8818, 3274),
+  (2807402, 'Tobias Barreto', 'SE', -11.1798, -37.9995, 50905),
+  (2807501, 'Tomar do Geru', 'SE', -11.3694, -37.8433, 12012),
+  (2807600, 'Umbaúba', 'SE', -11.3809, -37.6623, 23917),
+  (2900108, 'Abaíra', 'BA', -13.2488, -41.6619, 7301),
+  (2900207, 'Abaré', 'BA', -8.7207, -39.1162, 17639),
+  (2900306, 'Acajutiba', 'BA', -11.6575, -38.0197, 13795),
+  (2900355, 'Adustina', 'BA', -10.5437, -38.1113, 14201),
+  (2900405, 'Água Fria', 'BA', -11.8618, -38.7639, 14497),
+  (2900504, 'Érico Cardoso', 'BA', -13.4215, -42.1352, 10604),
+  (2900603, 'Aiquara', 'BA', -14.1269, -39.8937, 4447),
+  (2900702, 'Alagoinhas', 'BA', -12.1335, -38.4208, 151055),
+  (2900801, 'Alcobaça', 'BA', -17.5195, -39.2036, 24530),
+  (2900900, 'Almadina', 'BA', -14.7089, -39.6415, 5218),
+  (2901007, 'Amargosa', 'BA', -13.0215, -39.602, 36521),
+  (2901106, 'Amélia Rodrigues', 'BA', -12.3914, -38.7563, 24138),
+  (2901155, 'América Dourada', 'BA', -11.4429, -41.439, 15137),
+  (2901205, 'Anagé', 'BA', -14.6151, -41.1356, 25438),
+  (2901304, 'Andaraí', 'BA', -12.8049, -41.3297, 13080),
+  (2901353, 'Andorinha', 'BA', -10.3482, -39.8391, 15012),
+  (2901403, 'Angical', 'BA', -12.0063, -44.7003, 13732),
+  (2901502, 'Anguera', 'BA', -12.1462, -39.2462, 11031),
+  (2901601, 'Antas', 'BA', -10.3856, -38.3401, 14206),
+  (2901700, 'Antônio Cardoso', 'BA', -12.4335, -39.1176, 11146),
+  (2901809, 'Antônio Gonçalves', 'BA', -10.5767, -40.2785, 10862),
+  (2901908, 'Aporá', 'BA', -11.6577, -38.0814, 15922),
+  (2901957, 'Apuarema', 'BA', -13.8542, -39.7501, 6913),
+  (2902005, 'Aracatu', 'BA', -14.428, -41.4648, 13936),
+  (2902054, 'Araçás', 'BA', -12.22, -38.2027, 11557),
+  (2902104, 'Araci', 'BA', -11.3253, -38.9584, 48294),
+  (2902203, 'Aramari', 'BA', -12.0884, -38.4969, 9833),
+  (2902252, 'Arataca', 'BA', -15.2651, -39.419, 10191),
+  (2902302, 'Aratuípe', 'BA', -13.0716, -39.0038, 8677),
+  (2902401, 'Aurelino Leal', 'BA', -14.321, -39.329, 11179),
+  (2902500, 'Baianópolis', 'BA', -12.3016, -44.5388, 13614),
+  (2902609, 'Baixa Grande', 'BA', -11.9519, -40.169, 18220),
+  (2902658, 'Banzaê', 'BA', -10.5788, -38.6212, 11958),
+  (2902708, 'Barra', 'BA', -11.0859, -43.1459, 51092),
+  (2902807, 'Barra da Estiva', 'BA', -13.6237, -41.3347, 26026),
+  (2902906, 'Barra do Choça', 'BA', -14.8654, -40.5791, 36539),
+  (2903003, 'Barra do Mendes', 'BA', -11.81, -42.059, 13836),
+  (2903102, 'Barra do Rocha', 'BA', -14.2, -39.5991, 5775),
+  (2903201, 'Barreiras', 'BA', -12.1439, -44.9968, 159734),
+  (2903235, 'Barro Alto', 'BA', -11.7605, -41.9054, 13453),
+  (2903276, 'Barrocas', 'BA', -11.5272, -39.0776, 15203),
+  (2903300, 'Barro Preto', 'BA', -14.7948, -39.476, 5833),
+  (2903409, 'Belmonte', 'BA', -15.8608, -38.8758, 20121),
+  (2903508, 'Belo Campo', 'BA', -15.0334, -41.2652, 18412),
+  (2903607, 'Biritinga', 'BA', -11.6072, -38.8051, 15146),
+  (2903706, 'Boa Nova', 'BA', -14.3598, -40.2064, 13690),
+  (2903805, 'Boa Vista do Tupim', 'BA', -12.6498, -40.6064, 16873),
+  (2903904, 'Bom Jesus da Lapa', 'BA', -13.2506, -43.4108, 65550),
+  (2903953, 'Bom Jesus da Serra', 'BA', -14.3663, -40.5126, 9730),
+  (2904001, 'Boninal', 'BA', -12.7069, -41.8286, 13622),
+  (2904050, 'Bonito', 'BA', -11.9668, -41.2647, 15844),
+  (2904100, 'Boquira', 'BA', -12.8205, -42.7324, 19322),
+  (2904209, 'Botuporã', 'BA', -13.3772, -42.5163, 11024),
+  (2904308, 'Brejões', 'BA', -13.1039, -39.7988, 12943),
+  (2904407, 'Brejolândia', 'BA', -12.4815, -43.9679, 9108),
+  (2904506, 'Brotas de Macaúbas', 'BA', -11.9915, -42.6326, 11765),
+  (2904605, 'Brumado', 'BA', -14.2021, -41.6696, 70510),
+  (2904704, 'Buerarema', 'BA', -14.9595, -39.3028, 14804),
+  (2904753, 'Buritirama', 'BA', -10.7171, -43.6302, 19589),
+  (2904803, 'Caatiba', 'BA', -14.9699, -40.4092, 6205),
+  (2904852, 'Cabaceiras do Paraguaçu', 'BA', -12.5317, -39.1902, 16559),
+  (2904902, 'Cachoeira', 'BA', -12.5994, -38.9587, 29250),
+  (2905008, 'Caculé', 'BA', -14.5003, -42.2229, 22462),
+  (2905107, 'Caém', 'BA', -11.0677, -40.432, 10384),
+  (2905156, 'Caetanos', 'BA', -14.3347, -40.9175, 11266),
+  (2905206, 'Caetité', 'BA', -14.0684, -42.4861, 52012),
+  (2905305, 'Cafarnaum', 'BA', -11.6914, -41.4688, 17466),
+  (2905404, 'Cairu', 'BA', -13.4904, -39.0465, 17761),
+  (2905503, 'Caldeirão Grande', 'BA', -11.0208, -40.2956, 13080),
+  (2905602, 'Camacan', 'BA', -15.4142, -39.4919, 22579),
+  (2905701, 'Camaçari', 'BA', -12.6996, -38.3263, 300372),
+  (2905800, 'Camamu', 'BA', -13.9398, -39.1071, 30469),
+  (2905909, 'Campo Alegre de Lourdes', 'BA', -9.5222, -43.0126, 30671),
+  (2906006, 'Campo Formoso', 'BA', -10.5105, -40.32, 71377),
+  (2906105, 'Canápolis', 'BA', -13.0725, -44.201, 10225),
+  (2906204, 'Canarana', 'BA', -11.6858, -41.7677, 24206),
+  (2906303, 'Canavieiras', 'BA', -15.6722, -38.9536, 32683),
+  (2906402, 'Candeal', 'BA', -11.8049, -39.1203, 7772),
+  (2906501, 'Candeias', 'BA', -12.6716, -38.5472, 72382),
+  (2906600, 'Candiba', 'BA', -14.4097, -42.8667, 13016),
+  (2906709, 'Cândido Sales', 'BA', -15.4993, -41.2414, 25247),
+  (2906808, 'Cansanção', 'BA', -10.6647, -39.4944, 37439),
+  (2906824, 'Canudos', 'BA', -9.9001, -39.1471, 16105),
+  (2906857, 'Capela do Alto Alegre', 'BA', -11.6658, -39.8349, 10744),
+  (2906873, 'Capim Grosso', 'BA', -11.3797, -40.0089, 33235),
+  (2906899, 'Caraíbas', 'BA', -14.7177, -41.2603, 9940),
+  (2906907, 'Caravelas', 'BA', -17.7268, -39.2597, 20580),
+  (2907004, 'Cardeal da Silva', 'BA', -11.9472, -37.9469, 8365),
+  (2907103, 'Carinhanha', 'BA', -14.2985, -43.7724, 28869),
+  (2907202, 'Casa Nova', 'BA', -9.1641, -40.974, 72086),
+  (2907301, 'Castro Alves', 'BA', -12.7579, -39.4248, 24712),
+  (2907400, 'Catolândia', 'BA', -12.31, -44.8648, 3434),
+  (2907509, 'Catu', 'BA', -12.3513, -38.3791, 48148),
+  (2907558, 'Caturama', 'BA', -13.3239, -42.2904, 8841),
+  (2907608, 'Central', 'BA', -11.1376, -42.1116, 16348),
+  (2907707, 'Chorrochó', 'BA', -8.9695, -39.0979, 10579),
+  (2907806, 'Cícero Dantas', 'BA', -10.5897, -38.3794, 30907),
+  (2907905, 'Cipó', 'BA', -11.1032, -38.5179, 17230),
+  (2908002, 'Coaraci', 'BA', -14.637, -39.5556, 17333),
+  (2908101, 'Cocos', 'BA', -14.1814, -44.5352, 19151),
+  (2908200, 'Conceição da Feira', 'BA', -12.5078, -38.9978, 20800),
+  (2908309, 'Conceição do Almeida', 'BA', -12.7836, -39.1715, 15794),
+  (2908408, 'Conceição do Coité', 'BA', -11.56, -39.2808, 67825),
+  (2908507, 'Conceição do Jacuípe', 'BA', -12.3268, -38.7684, 35308),
+  (2908606, 'Conde', 'BA', -11.8179, -37.6131, 23654),
+  (2908705, 'Condeúba', 'BA', -14.9022, -41.9718, 17053),
+  (2908804, 'Contendas do Sincorá', 'BA', -13.7537, -41.048, 4333),
+  (2908903, 'Coração de Maria', 'BA', -12.2333, -38.7487, 26692),
+  (2909000, 'Cordeiros', 'BA', -15.0356, -41.9308, 7546),
+  (2909109, 'Coribe', 'BA', -13.8232, -44.4586, 13990),
+  (2909208, 'Coronel João Sá', 'BA', -10.2847, -37.9198, 17056),
+  (2909307, 'Correntina', 'BA', -13.3477, -44.6333, 32457),
+  (2909406, 'Cotegipe', 'BA', -12.0228, -44.2566, 13063),
+  (2909505, 'Cravolândia', 'BA', -13.3531, -39.8031, 4415),
+  (2909604, 'Crisópolis', 'BA', -11.5059, -38.1515, 19729),
+  (2909703, 'Cristópolis', 'BA', -12.2249, -44.4214, 13993),
+  (2909802, 'Cruz das Almas', 'BA', -12.6675, -39.1008, 60348),
+  (2909901, 'Curaçá', 'BA', -8.9846, -39.8997, 34180),
+  (2910008, 'Dário Meira', 'BA', -14.4229, -39.9031, 10820),
+  (2910057, 'Dias d''Ávila', 'BA', -12.6187, -38.2926, 71485),
+  (2910107, 'Dom Basílio', 'BA', -13.7565, -41.7677, 11884),
+  (2910206, 'Dom Macedo Costa', 'BA', -12.9016, -39.1923, 4407),
+  (2910305, 'Elísio Medrado', 'BA', -12.9417, -39.5191, 7808),
+  (2910404, 'Encruzilhada', 'BA', -15.5302, -40.9124, 19107),
+  (2910503, 'Entre Rios', 'BA', -11.9392, -38.0871, 38098),
+  (2910602, 'Esplanada', 'BA', -11.7942, -37.9432, 32554),
+  (2910701, 'Euclides da Cunha', 'BA', -10.5078, -39.0153, 61456),
+  (2910727, 'Eunápolis', 'BA', -16.3715, -39.5821, 113710),
+  (2910750, 'Fátima', 'BA', -10.616, -38.2239, 17895),
+  (2910776, 'Feira da Mata', 'BA', -14.2044, -44.2744, 5631),
+  (2910800, 'Feira de Santana', 'BA', -12.2664, -38.9663, 616272),
+  (2910859, 'Filadélfia', 'BA', -10.7405, -40.1437, 17897),
+  (2910909, 'Firmino Alves', 'BA', -14.9823, -39.9269, 4873),
+  (2911006, 'Floresta Azul', 'BA', -14.8629, -39.6579, 11059),
+  (2911105, 'Formosa do Rio Preto', 'BA', -11.0328, -45.193, 25899),
+  (2911204, 'Gandu', 'BA', -13.7441, -39.4747, 32178),
+  (2911253, 'Gavião', 'BA', -11.4688, -39.7757, 4360),
+  (2911303, 'Gentio do Ouro', 'BA', -11.4342, -42.5077, 10884),
+  (2911402, 'Glória', 'BA', -9.3438, -38.2544, 15524),
+  (2911501, 'Gongogi', 'BA', -14.3195, -39.469, 5555),
+  (2911600, 'Governador Mangabeira', 'BA', -12.5994, -39.0412, 20605),
+  (2911659, 'Guajeru', 'BA', -14.5467, -41.9381, 8050),
+  (2911709, 'Guanambi', 'BA', -14.2231, -42.7799, 87817),
+  (2911808, 'Guaratinga', 'BA', -16.5833, -39.7847, 19049),
+  (2911857, 'Heliópolis', 'BA', -10.6825, -38.2907, 12309),
+  (2911907, 'Iaçu', 'BA', -12.7666, -40.2056, 24607),
+  (2912004, 'Ibiassucê', 'BA', -14.2711, -42.257, 10429),
+  (2912103, 'Ibicaraí', 'BA', -14.8579, -39.5914, 21665),
+  (2912202, 'Ibicoara', 'BA', -13.4059, -41.284, 20785),
+  (2912301, 'Ibicuí', 'BA', -14.845, -39.9879, 13934),
+  (2912400, 'Ibipeba', 'BA', -11.6438, -42.0195, 16603),
+  (2912509, 'Ibipitanga', 'BA', -12.8804, -42.4856, 13863),
+  (2912608, 'Ibiquera', 'BA', -12.6444, -40.9338, 3725),
+  (2912707, 'Ibirapitanga', 'BA', -14.1649, -39.3787, 25344),
+  (2912806, 'Ibirapuã', 'BA', -17.6832, -40.1129, 8896),
+  (2912905, 'Ibirataia', 'BA', -14.0643, -39.6459, 18792),
+  (2913002, 'Ibitiara', 'BA', -12.6502, -42.2179, 14637),
+  (2913101, 'Ibititá', 'BA', -11.5414, -41.9748, 16969),
+  (2913200, 'Ibotirama', 'BA', -12.1779, -43.2167, 26309),
+  (2913309, 'Ichu', 'BA', -11.7431, -39.1905, 6190),
+  (2913408, 'Igaporã', 'BA', -13.774, -42.7155, 15527),
+  (2913457, 'Igrapiúna', 'BA', -13.8295, -39.1361, 13151),
+  (2913507, 'Iguaí', 'BA', -14.7528, -40.0894, 21491),
+  (2913606, 'Ilhéus', 'BA', -14.793, -39.046, 178649),
+  (2913705, 'Inhambupe', 'BA', -11.781, -38.355, 33790),
+  (2913804, 'Ipecaetá', 'BA', -12.3028, -39.3069, 13709),
+  (2913903, 'Ipiaú', 'BA', -14.1226, -39.7353, 40706),
+  (2914000, 'Ipirá', 'BA', -12.1561, -39.7359, 56876),
+  (2914109, 'Ipupiara', 'BA', -11.8219, -42.6179, 9935),
+  (2914208, 'Irajuba', 'BA', -13.2563, -40.0848, 6101),
+  (2914307, 'Iramaia', 'BA', -13.2902, -40.9595, 10752),
+  (2914406, 'Iraquara', 'BA', -12.2429, -41.6155, 23879),
+  (2914505, 'Irará', 'BA', -12.0504, -38.7631, 28043);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (2914604, 'Irecê', 'BA', -11.3033, -41.8535, 74507),
+  (2914653, 'Itabela', 'BA', -16.5732, -39.5593, 28165),
+  (2914703, 'Itaberaba', 'BA', -12.5242, -40.3059, 65073),
+  (2914802, 'Itabuna', 'BA', -14.7876, -39.2781, 186708),
+  (2914901, 'Itacaré', 'BA', -14.2784, -38.9959, 27704),
+  (2915007, 'Itaeté', 'BA', -12.9831, -40.9677, 13472),
+  (2915106, 'Itagi', 'BA', -14.1615, -40.0131, 13803),
+  (2915205, 'Itagibá', 'BA', -14.2782, -39.8449, 15310),
+  (2915304, 'Itagimirim', 'BA', -16.0819, -39.6133, 6347),
+  (2915353, 'Itaguaçu da Bahia', 'BA', -11.0147, -42.3997, 12311),
+  (2915403, 'Itaju do Colônia', 'BA', -15.1366, -39.7283, 6037),
+  (2915502, 'Itajuípe', 'BA', -14.6788, -39.3698, 18781),
+  (2915601, 'Itamaraju', 'BA', -17.0378, -39.5386, 59605),
+  (2915700, 'Itamari', 'BA', -13.7782, -39.683, 7051),
+  (2915809, 'Itambé', 'BA', -15.2429, -40.63, 24394),
+  (2915908, 'Itanagra', 'BA', -12.2614, -38.0436, 5914),
+  (2916005, 'Itanhém', 'BA', -17.1642, -40.3321, 17813),
+  (2916104, 'Itaparica', 'BA', -12.8932, -38.68, 19789),
+  (2916203, 'Itapé', 'BA', -14.8876, -39.4239, 10341),
+  (2916302, 'Itapebi', 'BA', -15.9551, -39.5329, 9174),
+  (2916401, 'Itapetinga', 'BA', -15.2475, -40.2482, 65897),
+  (2916500, 'Itapicuru', 'BA', -11.3088, -38.2262, 31679),
+  (2916609, 'Itapitanga', 'BA', -14.4139, -39.5657, 10279),
+  (2916708, 'Itaquara', 'BA', -13.4459, -39.9378, 8153),
+  (2916807, 'Itarantim', 'BA', -15.6528, -40.065, 17052),
+  (2916856, 'Itatim', 'BA', -12.7099, -39.6952, 15737),
+  (2916906, 'Itiruçu', 'BA', -13.529, -40.1472, 10999),
+  (2917003, 'Itiúba', 'BA', -10.6948, -39.8446, 33872),
+  (2917102, 'Itororó', 'BA', -15.11, -40.0684, 16617),
+  (2917201, 'Ituaçu', 'BA', -13.8107, -41.3003, 17914),
+  (2917300, 'Ituberá', 'BA', -13.7249, -39.1481, 21902),
+  (2917334, 'Iuiu', 'BA', -14.4054, -43.5595, 11118),
+  (2917359, 'Jaborandi', 'BA', -13.6071, -44.4255, 9275),
+  (2917409, 'Jacaraci', 'BA', -14.8541, -42.4329, 14436),
+  (2917508, 'Jacobina', 'BA', -11.1812, -40.5117, 82590),
+  (2917607, 'Jaguaquara', 'BA', -13.5248, -39.964, 45964),
+  (2917706, 'Jaguarari', 'BA', -10.2569, -40.1999, 32703),
+  (2917805, 'Jaguaripe', 'BA', -13.1109, -38.8939, 17659),
+  (2917904, 'Jandaíra', 'BA', -11.5616, -37.7853, 9285),
+  (2918001, 'Jequié', 'BA', -13.8509, -40.0877, 158813),
+  (2918100, 'Jeremoabo', 'BA', -10.0685, -38.3471, 37626),
+  (2918209, 'Jiquiriçá', 'BA', -13.2621, -39.5737, 13629),
+  (2918308, 'Jitaúna', 'BA', -14.0131, -39.8969, 14355),
+  (2918357, 'João Dourado', 'BA', -11.3486, -41.6548, 24854),
+  (2918407, 'Juazeiro', 'BA', -9.4162, -40.5033, 237821),
+  (2918456, 'Jucuruçu', 'BA', -16.8488, -40.1641, 9655),
+  (2918506, 'Jussara', 'BA', -11.0431, -41.9702, 16354),
+  (2918555, 'Jussari', 'BA', -15.192, -39.491, 5888),
+  (2918605, 'Jussiape', 'BA', -13.5155, -41.5882, 7379),
+  (2918704, 'Lafaiete Coutinho', 'BA', -13.6541, -40.2119, 4075),
+  (2918753, 'Lagoa Real', 'BA', -14.0334, -42.1328, 14105),
+  (2918803, 'Laje', 'BA', -13.1673, -39.4213, 21052),
+  (2918902, 'Lajedão', 'BA', -17.6056, -40.3383, 3845),
+  (2919009, 'Lajedinho', 'BA', -12.3529, -40.9048, 3527),
+  (2919058, 'Lajedo do Tabocal', 'BA', -13.4663, -40.2204, 7494),
+  (2919108, 'Lamarão', 'BA', -11.773, -38.887, 9015),
+  (2919157, 'Lapão', 'BA', -11.3851, -41.8286, 25736),
+  (2919207, 'Lauro de Freitas', 'BA', -12.8978, -38.321, 203331),
+  (2919306, 'Lençóis', 'BA', -12.5616, -41.3928, 10774),
+  (2919405, 'Licínio de Almeida', 'BA', -14.6842, -42.5095, 11834),
+  (2919504, 'Livramento de Nossa Senhora', 'BA', -13.6369, -41.8432, 43903),
+  (2919553, 'Luís Eduardo Magalhães', 'BA', -12.0956, -45.7866, 107909),
+  (2919603, 'Macajuba', 'BA', -12.1326, -40.3571, 10454),
+  (2919702, 'Macarani', 'BA', -15.5646, -40.4209, 21599),
+  (2919801, 'Macaúbas', 'BA', -13.0186, -42.6945, 41859),
+  (2919900, 'Macururé', 'BA', -9.1623, -39.0518, 7256),
+  (2919926, 'Madre de Deus', 'BA', -12.7446, -38.6153, 18504),
+  (2919959, 'Maetinga', 'BA', -14.6623, -41.4915, 6973),
+  (2920007, 'Maiquinique', 'BA', -15.624, -40.2587, 8731),
+  (2920106, 'Mairi', 'BA', -11.7107, -40.1437, 17674),
+  (2920205, 'Malhada', 'BA', -14.3371, -43.7686, 15398),
+  (2920304, 'Malhada de Pedras', 'BA', -14.3847, -41.8842, 8670),
+  (2920403, 'Manoel Vitorino', 'BA', -14.1476, -40.2399, 13860),
+  (2920452, 'Mansidão', 'BA', -10.7227, -44.0428, 13919),
+  (2920502, 'Maracás', 'BA', -13.4355, -40.4323, 27620),
+  (2920601, 'Maragogipe', 'BA', -12.776, -38.9175, 35859),
+  (2920700, 'Maraú', 'BA', -14.1035, -39.0137, 24527),
+  (2920809, 'Marcionílio Souza', 'BA', -13.0064, -40.5295, 9267),
+  (2920908, 'Mascote', 'BA', -15.5542, -39.3016, 13544),
+  (2921005, 'Mata de São João', 'BA', -12.5307, -38.3009, 42566),
+  (2921054, 'Matina', 'BA', -13.9109, -42.8439, 10330),
+  (2921104, 'Medeiros Neto', 'BA', -17.3707, -40.2238, 22194),
+  (2921203, 'Miguel Calmon', 'BA', -11.4299, -40.6031, 24661),
+  (2921302, 'Milagres', 'BA', -12.8646, -39.8611, 11071),
+  (2921401, 'Mirangaba', 'BA', -10.961, -40.574, 15734),
+  (2921450, 'Mirante', 'BA', -14.2385, -40.7718, 10187),
+  (2921500, 'Monte Santo', 'BA', -10.4374, -39.3321, 47780),
+  (2921609, 'Morpará', 'BA', -11.5569, -43.2766, 7996),
+  (2921708, 'Morro do Chapéu', 'BA', -11.5488, -41.1565, 33594),
+  (2921807, 'Mortugaba', 'BA', -15.0225, -42.3727, 11143),
+  (2921906, 'Mucugê', 'BA', -13.0053, -41.3703, 12137),
+  (2922003, 'Mucuri', 'BA', -18.0754, -39.5565, 37977),
+  (2922052, 'Mulungu do Morro', 'BA', -11.9648, -41.6374, 13152),
+  (2922102, 'Mundo Novo', 'BA', -11.8541, -40.4714, 17305),
+  (2922201, 'Muniz Ferreira', 'BA', -13.0092, -39.1092, 7190),
+  (2922250, 'Muquém do São Francisco', 'BA', -12.065, -43.5497, 10443),
+  (2922300, 'Muritiba', 'BA', -12.6329, -38.9921, 28707),
+  (2922409, 'Mutuípe', 'BA', -13.2284, -39.5044, 20037),
+  (2922508, 'Nazaré', 'BA', -13.0235, -39.0108, 27060),
+  (2922607, 'Nilo Peçanha', 'BA', -13.604, -39.1091, 12063),
+  (2922656, 'Nordestina', 'BA', -10.8192, -39.4297, 18523),
+  (2922706, 'Nova Canaã', 'BA', -14.7912, -40.1458, 13715),
+  (2922730, 'Nova Fátima', 'BA', -11.6031, -39.6302, 7967),
+  (2922755, 'Nova Ibiá', 'BA', -13.812, -39.6182, 6501),
+  (2922805, 'Nova Itarana', 'BA', -13.0241, -40.0653, 7780),
+  (2922854, 'Nova Redenção', 'BA', -12.815, -41.0748, 7538),
+  (2922904, 'Nova Soure', 'BA', -11.2329, -38.4871, 24236),
+  (2923001, 'Nova Viçosa', 'BA', -17.8926, -39.3743, 39509),
+  (2923035, 'Novo Horizonte', 'BA', -12.8083, -42.1682, 11162),
+  (2923050, 'Novo Triunfo', 'BA', -10.3182, -38.4014, 10660),
+  (2923100, 'Olindina', 'BA', -11.3497, -38.3379, 22633),
+  (2923209, 'Oliveira dos Brejinhos', 'BA', -12.3132, -42.8969, 20715),
+  (2923308, 'Ouriçangas', 'BA', -12.0175, -38.6166, 7716),
+  (2923357, 'Ourolândia', 'BA', -10.9578, -41.0756, 19243),
+  (2923407, 'Palmas de Monte Alto', 'BA', -14.2676, -43.1609, 20078),
+  (2923506, 'Palmeiras', 'BA', -12.5059, -41.5809, 10339),
+  (2923605, 'Paramirim', 'BA', -13.4388, -42.2395, 20351),
+  (2923704, 'Paratinga', 'BA', -12.687, -43.1798, 29252),
+  (2923803, 'Paripiranga', 'BA', -10.6859, -37.8626, 26604),
+  (2923902, 'Pau Brasil', 'BA', -15.4572, -39.6458, 9370),
+  (2924009, 'Paulo Afonso', 'BA', -9.3983, -38.2216, 112870),
+  (2924058, 'Pé de Serra', 'BA', -11.8313, -39.611, 13243),
+  (2924108, 'Pedrão', 'BA', -12.1491, -38.6487, 6235),
+  (2924207, 'Pedro Alexandre', 'BA', -10.012, -37.8932, 13954),
+  (2924306, 'Piatã', 'BA', -13.1465, -41.7702, 20086),
+  (2924405, 'Pilão Arcado', 'BA', -10.0051, -42.4936, 35357),
+  (2924504, 'Pindaí', 'BA', -14.4921, -42.686, 14731),
+  (2924603, 'Pindobaçu', 'BA', -10.7433, -40.3675, 19083),
+  (2924652, 'Pintadas', 'BA', -11.8117, -39.9009, 10325),
+  (2924678, 'Piraí do Norte', 'BA', -13.759, -39.3836, 10974),
+  (2924702, 'Piripá', 'BA', -14.9444, -41.7168, 9152),
+  (2924801, 'Piritiba', 'BA', -11.73, -40.5587, 17566),
+  (2924900, 'Planaltino', 'BA', -13.2618, -40.3695, 8022),
+  (2925006, 'Planalto', 'BA', -14.6654, -40.4718, 23334),
+  (2925105, 'Poções', 'BA', -14.5234, -40.3634, 48293),
+  (2925204, 'Pojuca', 'BA', -12.4303, -38.3374, 32136),
+  (2925253, 'Ponto Novo', 'BA', -10.8653, -40.1311, 17938),
+  (2925303, 'Porto Seguro', 'BA', -16.4435, -39.0643, 168326),
+  (2925402, 'Potiraguá', 'BA', -15.5943, -39.8638, 10274),
+  (2925501, 'Prado', 'BA', -17.3364, -39.2227, 35003),
+  (2925600, 'Presidente Dutra', 'BA', -11.2923, -41.9843, 15130),
+  (2925709, 'Presidente Jânio Quadros', 'BA', -14.6885, -41.6798, 12621),
+  (2925758, 'Presidente Tancredo Neves', 'BA', -13.4471, -39.4203, 27734),
+  (2925808, 'Queimadas', 'BA', -10.9736, -39.6293, 25988),
+  (2925907, 'Quijingue', 'BA', -10.7505, -39.2137, 25272),
+  (2925931, 'Quixabeira', 'BA', -11.4031, -40.12, 9461),
+  (2925956, 'Rafael Jambeiro', 'BA', -12.4053, -39.5007, 19662),
+  (2926004, 'Remanso', 'BA', -9.6194, -42.0848, 40586),
+  (2926103, 'Retirolândia', 'BA', -11.4832, -39.4234, 13651),
+  (2926202, 'Riachão das Neves', 'BA', -11.7508, -44.9143, 21642),
+  (2926301, 'Riachão do Jacuípe', 'BA', -11.8067, -39.3818, 33386),
+  (2926400, 'Riacho de Santana', 'BA', -13.6059, -42.9397, 30711),
+  (2926509, 'Ribeira do Amparo', 'BA', -11.0421, -38.4242, 13841),
+  (2926608, 'Ribeira do Pombal', 'BA', -10.8373, -38.5382, 54010),
+  (2926657, 'Ribeirão do Largo', 'BA', -15.4508, -40.7441, 9740),
+  (2926707, 'Rio de Contas', 'BA', -13.5852, -41.8048, 13184),
+  (2926806, 'Rio do Antônio', 'BA', -14.4071, -42.0721, 13146),
+  (2926905, 'Rio do Pires', 'BA', -13.1185, -42.2902, 10497),
+  (2927002, 'Rio Real', 'BA', -11.4814, -37.9332, 35362),
+  (2927101, 'Rodelas', 'BA', -8.8502, -38.78, 10308),
+  (2927200, 'Ruy Barbosa', 'BA', -12.2816, -40.4931, 28282),
+  (2927309, 'Salinas da Margarida', 'BA', -12.873, -38.7562, 14987),
+  (2927408, 'Salvador', 'BA', -12.9718, -38.5011, 2417678),
+  (2927507, 'Santa Bárbara', 'BA', -11.9515, -38.9681, 20952),
+  (2927606, 'Santa Brígida', 'BA', -9.7323, -38.1209, 14965),
+  (2927705, 'Santa Cruz Cabrália', 'BA', -16.2825, -39.0295, 29185),
+  (2927804, 'Santa Cruz da Vitória', 'BA', -14.964, -39.8115, 4681),
+  (2927903, 'Santa Inês', 'BA', -13.2793, -39.814, 10300),
+  (2928000, 'Santaluz', 'BA', -11.2508, -39.375, 37834),
+  (2928059, 'Santa Luzia', 'BA', -15.4342, -39.3287, 13896),
+  (2928109, 'Santa Maria da Vitória', 'BA', -13.3859, -44.2011, 38604),
+  (2928208, 'Santana', 'BA', -12.9792, -44.0506, 24755),
+  (2928307, 'Santanópolis', 'BA', -12.0311, -38.8694, 8716),
+  (2928406, 'Santa Rita de Cássia', 'BA', -11.0063, -44.5255, 27390),
+  (2928505, 'Santa Terezinha', 'BA', -12.7697, -39.5215, 10441),
+  (2928604, 'Santo Amaro', 'BA', -12.5472, -38.7137, 56012),
+  (2928703, 'Santo Antônio de Jesus', 'BA', -12.9614, -39.2584, 103055),
+  (2928802, 'Santo Estêvão', 'BA', -12.428, -39.2505, 52276),
+  (2928901, 'São Desidério', 'BA', -12.3572, -44.9769, 32828),
+  (2928950, 'São Domingos', 'BA', -11.4649, -39.5268, 8426),
+  (2929008, 'São Félix', 'BA', -12.6104, -38.9727, 11026),
+  (2929057, 'São Félix do Coribe', 'BA', -13.4019, -44.1837, 15194),
+  (2929107, 'São Felipe', 'BA', -12.8394, -39.0893, 20283),
+  (2929206, 'São Francisco do Conde', 'BA', -12.6183, -38.6786, 38733),
+  (2929255, 'São Gabriel', 'BA', -11.2175, -41.8843, 18600),
+  (2929305, 'São Gonçalo dos Campos', 'BA', -12.4331, -38.9663, 39513),
+  (2929354, 'São José da Vitória', 'BA', -15.0787, -39.3437, 5315),
+  (2929370, 'São José do Jacuípe', 'BA', -11.4137, -39.8669, 10187),
+  (2929404, 'São Miguel das Matas', 'BA', -13.0434, -39.4578, 10334),
+  (2929503, 'São Sebastião do Passé', 'BA', -12.5123, -38.4905, 40958),
+  (2929602, 'Sapeaçu', 'BA', -12.7208, -39.1824, 17963),
+  (2929701, 'Sátiro Dias', 'BA', -11.5929, -38.5938, 16008),
+  (2929750, 'Saubara', 'BA', -12.7387, -38.7625, 11438),
+  (2929800, 'Saúde', 'BA', -10.9428, -40.4155, 10478),
+  (2929909, 'Seabra', 'BA', -12.4169, -41.7722, 46160),
+  (2930006, 'Sebastião Laranjeiras', 'BA', -14.571, -42.9434, 9360),
+  (2930105, 'Senhor do Bonfim', 'BA', -10.4594, -40.1865, 74523),
+  (2930154, 'Serra do Ramalho', 'BA', -13.5659, -43.5929, 34222),
+  (2930204, 'Sento Sé', 'BA', -9.7414, -41.8786, 38154),
+  (2930303, 'Serra Dourada', 'BA', -12.759, -43.9504, 17066),
+  (2930402, 'Serra Preta', 'BA', -12.156, -39.3305, 17996),
+  (2930501, 'Serrinha', 'BA', -11.6584, -39.01, 80435),
+  (2930600, 'Serrolândia', 'BA', -11.4085, -40.2983, 13335),
+  (2930709, 'Simões Filho', 'BA', -12.7866, -38.4029, 114559),
+  (2930758, 'Sítio do Mato', 'BA', -13.0801, -43.4689, 13408),
+  (2930766, 'Sítio do Quinto', 'BA', -10.3545, -38.2213, 14773),
+  (2930774, 'Sobradinho', 'BA', -9.4502, -40.8145, 25475),
+  (2930808, 'Souto Soares', 'BA', -12.088, -41.6427, 17054),
+  (2930907, 'Tabocas do Brejo Velho', 'BA', -12.7026, -44.0075, 11979),
+  (2931004, 'Tanhaçu', 'BA', -14.0197, -41.2473, 21006),
+  (2931053, 'Tanque Novo', 'BA', -13.5485, -42.4934, 17158),
+  (2931103, 'Tanquinho', 'BA', -11.968, -39.1033, 7717),
+  (2931202, 'Taperoá', 'BA', -13.5321, -39.1009, 18044),
+  (2931301, 'Tapiramutá', 'BA', -11.8475, -40.7927, 15818),
+  (2931350, 'Teixeira de Freitas', 'BA', -17.5399, -39.74, 145216),
+  (2931400, 'Teodoro Sampaio', 'BA', -12.295, -38.6347, 7110),
+  (2931509, 'Teofilândia', 'BA', -11.4827, -38.9913, 21176),
+  (2931608, 'Teolândia', 'BA', -13.5896, -39.484, 15332),
+  (2931707, 'Terra Nova', 'BA', -12.3888, -38.6238, 10798),
+  (2931806, 'Tremedal', 'BA', -14.9736, -41.4142, 16296),
+  (2931905, 'Tucano', 'BA', -10.9584, -38.7894, 48736),
+  (2932002, 'Uauá', 'BA', -9.8332, -39.4794, 24665),
+  (2932101, 'Ubaíra', 'BA', -13.2714, -39.666, 18626),
+  (2932200, 'Ubaitaba', 'BA', -14.303, -39.3222, 17596),
+  (2932309, 'Ubatã', 'BA', -14.2063, -39.5207, 16094),
+  (2932408, 'Uibaí', 'BA', -11.3394, -42.1354, 13432),
+  (2932457, 'Umburanas', 'BA', -10.7339, -41.3234, 13642),
+  (2932507, 'Una', 'BA', -15.2791, -39.0765, 18131),
+  (2932606, 'Urandi', 'BA', -14.7678, -42.6498, 15355),
+  (2932705, 'Uruçuca', 'BA', -14.5963, -39.2851, 21420),
+  (2932804, 'Utinga', 'BA', -12.0783, -41.0954, 16277),
+  (2932903, 'Valença', 'BA', -13.3669, -39.073, 85655),
+  (2933000, 'Valente', 'BA', -11.4062, -39.457, 24362),
+  (2933059, 'Várzea da Roça', 'BA', -11.6005, -40.1328, 13800),
+  (2933109, 'Várzea do Poço', 'BA', -11.5273, -40.3149, 8101),
+  (2933158, 'Várzea Nova', 'BA', -11.2557, -40.9432, 13377),
+  (2933174, 'Varzedo', 'BA', -12.9672, -39.3919, 9913),
+  (2933208, 'Vera Cruz', 'BA', -12.9568, -38.6153, 42529),
+  (2933257, 'Vereda', 'BA', -17.2183, -40.0974, 6003),
+  (2933307, 'Vitória da Conquista', 'BA', -14.8615, -40.8442, 370879),
+  (2933406, 'Wagner', 'BA', -12.2819, -41.1715, 9503),
+  (2933455, 'Wanderley', 'BA', -12.1144, -43.8958, 12968),
+  (2933505, 'Wenceslau Guimarães', 'BA', -13.6908, -39.4762, 24474),
+  (2933604, 'Xique-Xique', 'BA', -10.823, -42.7245, 44757),
+  (3100104, 'Abadia dos Dourados', 'MG', -18.4831, -47.3916, 6272),
+  (3100203, 'Abaeté', 'MG', -19.1551, -45.4444, 22675),
+  (3100302, 'Abre Campo', 'MG', -20.2996, -42.4743, 13927),
+  (3100401, 'Acaiaca', 'MG', -20.359, -43.1439, 3909),
+  (3100500, 'Açucena', 'MG', -19.0671, -42.5419, 8943),
+  (3100609, 'Água Boa', 'MG', -17.9914, -42.3806, 12589),
+  (3100708, 'Água Comprida', 'MG', -20.0576, -48.1069, 2108),
+  (3100807, 'Aguanil', 'MG', -20.9439, -45.3915, 4357),
+  (3100906, 'Águas Formosas', 'MG', -17.0802, -40.9384, 18448),
+  (3101003, 'Águas Vermelhas', 'MG', -15.7431, -41.4571, 14037),
+  (3101102, 'Aimorés', 'MG', -19.5007, -41.0746, 25269),
+  (3101201, 'Aiuruoca', 'MG', -21.9736, -44.6042, 6233),
+  (3101300, 'Alagoa', 'MG', -22.171, -44.6413, 2749),
+  (3101409, 'Albertina', 'MG', -22.2018, -46.6139, 2952),
+  (3101508, 'Além Paraíba', 'MG', -21.8797, -42.7176, 30717),
+  (3101607, 'Alfenas', 'MG', -21.4256, -45.9477, 78970),
+  (3101631, 'Alfredo Vasconcelos', 'MG', -21.1535, -43.7718, 6931),
+  (3101706, 'Almenara', 'MG', -16.1785, -40.6942, 40364),
+  (3101805, 'Alpercata', 'MG', -18.974, -41.97, 6903),
+  (3101904, 'Alpinópolis', 'MG', -20.8631, -46.3878, 18300),
+  (3102001, 'Alterosa', 'MG', -21.2488, -46.1387, 13915),
+  (3102050, 'Alto Caparaó', 'MG', -20.431, -41.8738, 5795),
+  (3102100, 'Alto Rio Doce', 'MG', -21.0281, -43.4067, 10891),
+  (3102209, 'Alvarenga', 'MG', -19.4174, -41.7317, 3975),
+  (3102308, 'Alvinópolis', 'MG', -20.1098, -43.0535, 15059),
+  (3102407, 'Alvorada de Minas', 'MG', -18.7334, -43.3638, 4159),
+  (3102506, 'Amparo do Serra', 'MG', -20.5051, -42.8009, 4541),
+  (3102605, 'Andradas', 'MG', -22.0695, -46.5724, 40553),
+  (3102704, 'Cachoeira de Pajeú', 'MG', -15.9688, -41.4948, 9110),
+  (3102803, 'Andrelândia', 'MG', -21.7411, -44.3117, 11927),
+  (3102852, 'Angelândia', 'MG', -17.7279, -42.2641, 7718),
+  (3102902, 'Antônio Carlos', 'MG', -21.321, -43.7451, 11095),
+  (3103009, 'Antônio Dias', 'MG', -19.6491, -42.8732, 9219),
+  (3103108, 'Antônio Prado de Minas', 'MG', -21.0192, -42.1109, 1538),
+  (3103207, 'Araçaí', 'MG', -19.1955, -44.2493, 2181),
+  (3103306, 'Aracitaba', 'MG', -21.3446, -43.3736, 2049),
+  (3103405, 'Araçuaí', 'MG', -16.8523, -42.0637, 34297),
+  (3103504, 'Araguari', 'MG', -18.6456, -48.1934, 117808),
+  (3103603, 'Arantina', 'MG', -21.9102, -44.2555, 2915),
+  (3103702, 'Araponga', 'MG', -20.6686, -42.5178, 8048),
+  (3103751, 'Araporã', 'MG', -18.4357, -49.1847, 8479),
+  (3103801, 'Arapuá', 'MG', -19.0268, -46.1484, 2631),
+  (3103900, 'Araújos', 'MG', -19.9405, -45.1671, 9199),
+  (3104007, 'Araxá', 'MG', -19.5902, -46.9438, 111691),
+  (3104106, 'Arceburgo', 'MG', -21.359, -46.9401, 9177),
+  (3104205, 'Arcos', 'MG', -20.2863, -45.5373, 41416),
+  (3104304, 'Areado', 'MG', -21.3572, -46.1421, 13881),
+  (3104403, 'Argirita', 'MG', -21.6083, -42.8292, 2688),
+  (3104452, 'Aricanduva', 'MG', -17.8666, -42.5533, 4719),
+  (3104502, 'Arinos', 'MG', -15.9187, -46.1043, 17272),
+  (3104601, 'Astolfo Dutra', 'MG', -21.3184, -42.8572, 14138),
+  (3104700, 'Ataléia', 'MG', -18.0438, -41.1149, 13736),
+  (3104809, 'Augusto de Lima', 'MG', -18.0997, -44.2655, 4538),
+  (3104908, 'Baependi', 'MG', -21.957, -44.8874, 18366),
+  (3105004, 'Baldim', 'MG', -19.2832, -43.9613, 7492),
+  (3105103, 'Bambuí', 'MG', -20.0166, -45.9754, 23546),
+  (3105202, 'Bandeira', 'MG', -15.8783, -40.5622, 4741),
+  (3105301, 'Bandeira do Sul', 'MG', -21.7308, -46.3833, 5943),
+  (3105400, 'Barão de Cocais', 'MG', -19.9389, -43.4755, 30778),
+  (3105509, 'Barão do Monte Alto', 'MG', -21.2444, -42.2372, 4964),
+  (3105608, 'Barbacena', 'MG', -21.2214, -43.7703, 125317),
+  (3105707, 'Barra Longa', 'MG', -20.2869, -43.0402, 5666),
+  (3105905, 'Barroso', 'MG', -21.1907, -43.972, 20080),
+  (3106002, 'Bela Vista de Minas', 'MG', -19.8302, -43.0922, 10167),
+  (3106101, 'Belmiro Braga', 'MG', -21.944, -43.4084, 3244),
+  (3106200, 'Belo Horizonte', 'MG', -19.9102, -43.9266, 2315560),
+  (3106309, 'Belo Oriente', 'MG', -19.2199, -42.4828, 23928),
+  (3106408, 'Belo Vale', 'MG', -20.4077, -44.0275, 8627),
+  (3106507, 'Berilo', 'MG', -16.9567, -42.4606, 9826),
+  (3106606, 'Bertópolis', 'MG', -17.059, -40.58, 4451),
+  (3106655, 'Berizal', 'MG', -15.61, -41.7432, 4201),
+  (3106705, 'Betim', 'MG', -19.9668, -44.2008, 411846),
+  (3106804, 'Bias Fortes', 'MG', -21.602, -43.7574, 3361),
+  (3106903, 'Bicas', 'MG', -21.7232, -43.056, 13978),
+  (3107000, 'Biquinhas', 'MG', -18.7754, -45.4974, 2383),
+  (3107109, 'Boa Esperança', 'MG', -21.0927, -45.5612, 39848),
+  (3107208, 'Bocaina de Minas', 'MG', -22.1697, -44.3972, 5348),
+  (3107307, 'Bocaiúva', 'MG', -17.1135, -43.8104, 48032),
+  (3107406, 'Bom Despacho', 'MG', -19.7386, -45.2622, 51737),
+  (3107505, 'Bom Jardim de Minas', 'MG', -21.9479, -44.1885, 6783),
+  (3107604, 'Bom Jesus da Penha', 'MG', -21.0148, -46.5174, 4474),
+  (3107703, 'Bom Jesus do Amparo', 'MG', -19.7054, -43.4782, 5631),
+  (3107802, 'Bom Jesus do Galho', 'MG', -19.836, -42.3165, 14536),
+  (3107901, 'Bom Repouso', 'MG', -22.4675, -46.144, 12649),
+  (3108008, 'Bom Sucesso', 'MG', -21.0329, -44.7537, 17151),
+  (3108107, 'Bonfim', 'MG', -20.3302, -44.2366, 7434),
+  (3108206, 'Bonfinópolis de Minas', 'MG', -16.568, -45.9839, 5528),
+  (3108255, 'Bonito de Minas', 'MG', -15.3231, -44.7543, 10204),
+  (3108305, 'Borda da Mata', 'MG', -22.2707, -46.1653, 17404),
+  (3108404, 'Botelhos', 'MG', -21.6412, -46.391, 14828),
+  (3108503, 'Botumirim', 'MG', -16.8657, -43.0086, 5790),
+  (3108552, 'Brasilândia de Minas', 'MG', -16.9999, -46.0081, 15020),
+  (3108602, 'Brasília de Minas', 'MG', -16.2104, -44.4299, 32025),
+  (3108701, 'Brás Pires', 'MG', -20.8419, -43.2406, 4260),
+  (3108800, 'Braúnas', 'MG', -19.0562, -42.7099, 4441),
+  (3108909, 'Brazópolis', 'MG', -22.4743, -45.6166, 14246),
+  (3109006, 'Brumadinho', 'MG', -20.151, -44.2007, 38915),
+  (3109105, 'Bueno Brandão', 'MG', -22.4383, -46.3491, 10911),
+  (3109204, 'Buenópolis', 'MG', -17.8744, -44.1775, 9150),
+  (3109253, 'Bugre', 'MG', -19.4231, -42.2552, 4041),
+  (3109303, 'Buritis', 'MG', -15.6218, -46.4221, 24030),
+  (3109402, 'Buritizeiro', 'MG', -17.3656, -44.9606, 23910),
+  (3109451, 'Cabeceira Grande', 'MG', -16.0335, -47.0862, 6627),
+  (3109501, 'Cabo Verde', 'MG', -21.4699, -46.3919, 11410),
+  (3109600, 'Cachoeira da Prata', 'MG', -19.521, -44.4544, 3693),
+  (3109709, 'Cachoeira de Minas', 'MG', -22.3511, -45.7809, 11883),
+  (3109808, 'Cachoeira Dourada', 'MG', -18.5161, -49.5039, 2315),
+  (3109907, 'Caetanópolis', 'MG', -19.2971, -44.4189, 11435),
+  (3110004, 'Caeté', 'MG', -19.8826, -43.6704, 38776),
+  (3110103, 'Caiana', 'MG', -20.6956, -41.9292, 5304),
+  (3110202, 'Cajuri', 'MG', -20.7903, -42.7925, 4088),
+  (3110301, 'Caldas', 'MG', -21.9183, -46.3843, 14217),
+  (3110400, 'Camacho', 'MG', -20.6294, -45.1593, 2838),
+  (3110509, 'Camanducaia', 'MG', -22.7515, -46.1494, 26097),
+  (3110608, 'Cambuí', 'MG', -22.6115, -46.0572, 29536),
+  (3110707, 'Cambuquira', 'MG', -21.854, -45.2896, 12313),
+  (3110806, 'Campanário', 'MG', -18.2427, -41.7355, 2923),
+  (3110905, 'Campanha', 'MG', -21.836, -45.4004, 15935),
+  (3111002, 'Campestre', 'MG', -21.7079, -46.2381, 20696),
+  (3111101, 'Campina Verde', 'MG', -19.5382, -49.4862, 18011),
+  (3111150, 'Campo Azul', 'MG', -16.5028, -44.8096, 3714),
+  (3111200, 'Campo Belo', 'MG', -20.8932, -45.2699, 52277),
+  (3111309, 'Campo do Meio', 'MG', -21.1127, -45.8273, 11377),
+  (3111408, 'Campo Florido', 'MG', -19.7631, -48.5716, 8466),
+  (3111507, 'Campos Altos', 'MG', -19.6914, -46.1725, 12979),
+  (3111606, 'Campos Gerais', 'MG', -21.237, -45.7569, 26105),
+  (3111705, 'Canaã', 'MG', -20.6869, -42.6167, 4715),
+  (3111804, 'Canápolis', 'MG', -18.7212, -49.2035, 10608),
+  (3111903, 'Cana Verde', 'MG', -21.0232, -45.1801, 5272),
+  (3112000, 'Candeias', 'MG', -20.7692, -45.2765, 14001),
+  (3112059, 'Cantagalo', 'MG', -18.5248, -42.6223, 3974),
+  (3112109, 'Caparaó', 'MG', -20.5289, -41.9061, 5048),
+  (3112208, 'Capela Nova', 'MG', -20.9179, -43.622, 4362),
+  (3112307, 'Capelinha', 'MG', -17.6888, -42.5147, 39626),
+  (3112406, 'Capetinga', 'MG', -20.6163, -47.0571, 6562),
+  (3112505, 'Capim Branco', 'MG', -19.5471, -44.1304, 10663),
+  (3112604, 'Capinópolis', 'MG', -18.6862, -49.5706, 14655),
+  (3112653, 'Capitão Andrade', 'MG', -19.0748, -41.8614, 4585),
+  (3112703, 'Capitão Enéas', 'MG', -16.3265, -43.7084, 14108),
+  (3112802, 'Capitólio', 'MG', -20.6164, -46.0493, 10380),
+  (3112901, 'Caputira', 'MG', -20.1703, -42.2683, 8936),
+  (3113008, 'Caraí', 'MG', -17.1862, -41.7004, 19548),
+  (3113107, 'Caranaíba', 'MG', -20.8707, -43.7417, 2933),
+  (3113206, 'Carandaí', 'MG', -20.9566, -43.811, 23812),
+  (3113305, 'Carangola', 'MG', -20.7343, -42.0313, 31240),
+  (3113404, 'Caratinga', 'MG', -19.7868, -42.1292, 87360),
+  (3113503, 'Carbonita', 'MG', -17.5255, -43.0137, 8512),
+  (3113602, 'Careaçu', 'MG', -22.0424, -45.696, 6816),
+  (3113701, 'Carlos Chagas', 'MG', -17.6973, -40.7723, 18615),
+  (3113800, 'Carmésia', 'MG', -19.0877, -43.1382, 2605),
+  (3113909, 'Carmo da Cachoeira', 'MG', -21.4633, -45.2201, 11547),
+  (3114006, 'Carmo da Mata', 'MG', -20.5575, -44.8735, 11019),
+  (3114105, 'Carmo de Minas', 'MG', -22.1204, -45.1307, 13797),
+  (3114204, 'Carmo do Cajuru', 'MG', -20.1912, -44.7664, 23479),
+  (3114303, 'Carmo do Paranaíba', 'MG', -18.991, -46.3167, 29011),
+  (3114402, 'Carmo do Rio Claro', 'MG', -20.9736, -46.1149, 20954),
+  (3114501, 'Carmópolis de Minas', 'MG', -20.5396, -44.6336, 18003),
+  (3114550, 'Carneirinho', 'MG', -19.6987, -50.6894, 9422),
+  (3114600, 'Carrancas', 'MG', -21.4898, -44.6446, 4049),
+  (3114709, 'Carvalhópolis', 'MG', -21.7735, -45.8421, 3341),
+  (3114808, 'Carvalhos', 'MG', -22.0, -44.4632, 4422),
+  (3114907, 'Casa Grande', 'MG', -20.7925, -43.9343, 2214),
+  (3115003, 'Cascalho Rico', 'MG', -18.5772, -47.8716, 2712),
+  (3115102, 'Cássia', 'MG', -20.5831, -46.9201, 17155),
+  (3115201, 'Conceição da Barra de Minas', 'MG', -21.1316, -44.4729, 3560),
+  (3115300, 'Cataguases', 'MG', -21.3924, -42.6896, 66261),
+  (3115359, 'Catas Altas', 'MG', -20.0734, -43.4061, 5473),
+  (3115409, 'Catas Altas da Noruega', 'MG', -20.6901, -43.4939, 3110),
+  (3115458, 'Catuji', 'MG', -17.3018, -41.5276, 7030),
+  (3115474, 'Catuti', 'MG', -15.3616, -42.9627, 4739),
+  (3115508, 'Caxambu', 'MG', -21.9753, -44.9319, 21056),
+  (3115607, 'Cedro do Abaeté', 'MG', -19.1458, -45.712, 1081),
+  (3115706, 'Central de Minas', 'MG', -18.7612, -41.3143, 6171),
+  (3115805, 'Centralina', 'MG', -18.5852, -49.2014, 10207),
+  (3115904, 'Chácara', 'MG', -21.6733, -43.215, 3075),
+  (3116001, 'Chalé', 'MG', -20.0453, -41.6897, 6075),
+  (3116100, 'Chapada do Norte', 'MG', -17.0881, -42.5392, 10337),
+  (3116159, 'Chapada Gaúcha', 'MG', -15.3014, -45.6116, 12355),
+  (3116209, 'Chiador', 'MG', -21.9996, -43.0617, 2800),
+  (3116308, 'Cipotânea', 'MG', -20.9026, -43.3629, 5581),
+  (3116407, 'Claraval', 'MG', -20.397, -47.2768, 4658),
+  (3116506, 'Claro dos Poções', 'MG', -17.082, -44.2061, 7166),
+  (3116605, 'Cláudio', 'MG', -20.4437, -44.7673, 30159),
+  (3116704, 'Coimbra', 'MG', -20.8535, -42.8008, 7117),
+  (3116803, 'Coluna', 'MG', -18.2311, -42.8352, 8163),
+  (3116902, 'Comendador Gomes', 'MG', -19.6973, -49.0789, 2773),
+  (3117009, 'Comercinho', 'MG', -16.2963, -41.7945, 6660),
+  (3117108, 'Conceição da Aparecida', 'MG', -21.096, -46.2049, 10371),
+  (3117207, 'Conceição das Pedras', 'MG', -22.1576, -45.4562, 2772),
+  (3117306, 'Conceição das Alagoas', 'MG', -19.9172, -48.3839, 28381),
+  (3117405, 'Conceição de Ipanema', 'MG', -19.9326, -41.6908, 4409),
+  (3117504, 'Conceição do Mato Dentro', 'MG', -19.0344, -43.4221, 23163),
+  (3117603, 'Conceição do Pará', 'MG', -19.7456, -44.8945, 5415),
+  (3117702, 'Conceição do Rio Verde', 'MG', -21.8778, -45.087, 12541),
+  (3117801, 'Conceição dos Ouros', 'MG', -22.4078, -45.7996, 10880),
+  (3117836, 'Cônego Marinho', 'MG', -15.2892, -44.4181, 7237),
+  (3117876, 'Confins', 'MG', -19.6282, -43.9931, 7350),
+  (3117900, 'Congonhal', 'MG', -22.1488, -46.043, 11083),
+  (3118007, 'Congonhas', 'MG', -20.4958, -43.851, 52890),
+  (3118106, 'Congonhas do Norte', 'MG', -18.8021, -43.6767, 4831),
+  (3118205, 'Conquista', 'MG', -19.9312, -47.5492, 6694),
+  (3118304, 'Conselheiro Lafaiete', 'MG', -20.6634, -43.7846, 131621),
+  (3118403, 'Conselheiro Pena', 'MG', -19.1789, -41.4736, 20824),
+  (3118502, 'Consolação', 'MG', -22.5493, -45.9255, 1563),
+  (3118601, 'Contagem', 'MG', -19.9321, -44.0539, 621863),
+  (3118700, 'Coqueiral', 'MG', -21.1858, -45.4366, 9023),
+  (3118809, 'Coração de Jesus', 'MG', -16.6841, -44.3635, 25377),
+  (3118908, 'Cordisburgo', 'MG', -19.1224, -44.3224, 7547),
+  (3119005, 'Cordislândia', 'MG', -21.7891, -45.6999, 3200),
+  (3119104, 'Corinto', 'MG', -18.369, -44.4542, 23532),
+  (3119203, 'Coroaci', 'MG', -18.6156, -42.2791, 10884),
+  (3119302, 'Coromandel', 'MG', -18.4734, -47.1933, 28894),
+  (3119401, 'Coronel Fabriciano', 'MG', -19.5179, -42.6276, 104736),
+  (3119500, 'Coronel Murta', 'MG', -16.6148, -42.184, 8200),
+  (3119609, 'Coronel Pacheco', 'MG', -21.5898, -43.256, 2762),
+  (3119708, 'Coronel Xavier Chaves', 'MG', -21.0277, -44.2206, 3486),
+  (3119807, 'Córrego Danta', 'MG', -19.8198, -45.9032, 2960),
+  (3119906, 'Córrego do Bom Jesus', 'MG', -22.6269, -46.0241, 4272),
+  (3119955, 'Córrego Fundo', 'MG', -20.4474, -45.5617, 6133),
+  (3120003, 'Córrego Novo', 'MG', -19.8361, -42.3988, 2875),
+  (3120102, 'Couto de Magalhães de Minas', 'MG', -18.0727, -43.4648, 4245),
+  (3120151, 'Crisólita', 'MG', -17.2381, -40.9184, 5265),
+  (3120201, 'Cristais', 'MG', -20.8733, -45.5167, 12197),
+  (3120300, 'Cristália', 'MG', -16.716, -42.8571, 5121),
+  (3120409, 'Cristiano Otoni', 'MG', -20.8324, -43.8166, 4667),
+  (3120508, 'Cristina', 'MG', -22.208, -45.2673, 10374),
+  (3120607, 'Crucilândia', 'MG', -20.3923, -44.3334, 5434),
+  (3120706, 'Cruzeiro da Fortaleza', 'MG', -18.944, -46.6669, 3521),
+  (3120805, 'Cruzília', 'MG', -21.84, -44.8067, 15362),
+  (3120839, 'Cuparaque', 'MG', -18.9648, -41.0986, 3983),
+  (3120870, 'Curral de Dentro', 'MG', -15.9327, -41.8557, 7406),
+  (3120904, 'Curvelo', 'MG', -18.7527, -44.4303, 80665),
+  (3121001, 'Datas', 'MG', -18.4478, -43.6591, 5465),
+  (3121100, 'Delfim Moreira', 'MG', -22.5036, -45.2792, 7952),
+  (3121209, 'Delfinópolis', 'MG', -20.3468, -46.8456, 8393),
+  (3121258, 'Delta', 'MG', -19.9721, -47.7841, 10494),
+  (3121308, 'Descoberto', 'MG', -21.46, -42.9618, 4928),
+  (3121407, 'Desterro de Entre Rios', 'MG', -20.665, -44.3334, 7653),
+  (3121506, 'Desterro do Melo', 'MG', -21.143, -43.5178, 2994),
+  (3121605, 'Diamantina', 'MG', -18.2413, -43.6031, 47702),
+  (3121704, 'Diogo de Vasconcelos', 'MG', -20.4879, -43.1953, 3549),
+  (3121803, 'Dionísio', 'MG', -19.8433, -42.7701, 6847),
+  (3121902, 'Divinésia', 'MG', -20.9917, -43.0003, 4226),
+  (3122009, 'Divino', 'MG', -20.6134, -42.1438, 20706),
+  (3122108, 'Divino das Laranjeiras', 'MG', -18.7755, -41.4781, 4178),
+  (3122207, 'Divinolândia de Minas', 'MG', -18.8004, -42.6103, 6516),
+  (3122306, 'Divinópolis', 'MG', -20.1446, -44.8912, 231091),
+  (3122355, 'Divisa Alegre', 'MG', -15.7221, -41.3463, 6321),
+  (3122405, 'Divisa Nova', 'MG', -21.5092, -46.1904, 5851),
+  (3122454, 'Divisópolis', 'MG', -15.7254, -40.9997, 10213),
+  (3122470, 'Dom Bosco', 'MG', -16.652, -46.2597, 3697),
+  (3122504, 'Dom Cavati', 'MG', -19.3735, -42.1121, 4904),
+  (3122603, 'Dom Joaquim', 'MG', -18.961, -43.2544, 4899),
+  (3122702, 'Dom Silvério', 'MG', -20.1627, -42.9627, 5228),
+  (3122801, 'Dom Viçoso', 'MG', -22.2511, -45.1643, 3095),
+  (3122900, 'Dona Euzébia', 'MG', -21.319, -42.807, 6093);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (3123007, 'Dores de Campos', 'MG', -21.1139, -44.0207, 10007),
+  (3123106, 'Dores de Guanhães', 'MG', -19.0516, -42.9254, 5029),
+  (3123205, 'Dores do Indaiá', 'MG', -19.4628, -45.5927, 12630),
+  (3123304, 'Dores do Turvo', 'MG', -20.9785, -43.1834, 4987),
+  (3123403, 'Doresópolis', 'MG', -20.2868, -45.9007, 1461),
+  (3123502, 'Douradoquara', 'MG', -18.4338, -47.5993, 1829),
+  (3123528, 'Durandé', 'MG', -20.2058, -41.7977, 7817),
+  (3123601, 'Elói Mendes', 'MG', -21.6088, -45.5691, 26336),
+  (3123700, 'Engenheiro Caldas', 'MG', -19.2065, -42.0503, 13622),
+  (3123809, 'Engenheiro Navarro', 'MG', -17.2831, -43.947, 6354),
+  (3123858, 'Entre Folhas', 'MG', -19.6218, -42.2306, 5179),
+  (3123908, 'Entre Rios de Minas', 'MG', -20.6706, -44.0654, 14746),
+  (3124005, 'Ervália', 'MG', -20.8403, -42.6544, 20255),
+  (3124104, 'Esmeraldas', 'MG', -19.764, -44.3065, 85598),
+  (3124203, 'Espera Feliz', 'MG', -20.6508, -41.9119, 24102),
+  (3124302, 'Espinosa', 'MG', -14.9249, -42.809, 30443),
+  (3124401, 'Espírito Santo do Dourado', 'MG', -22.0454, -45.9548, 6611),
+  (3124500, 'Estiva', 'MG', -22.4577, -46.0191, 11502),
+  (3124609, 'Estrela Dalva', 'MG', -21.7412, -42.4574, 2186),
+  (3124708, 'Estrela do Indaiá', 'MG', -19.5169, -45.7859, 2772),
+  (3124807, 'Estrela do Sul', 'MG', -18.7399, -47.6956, 6840),
+  (3124906, 'Eugenópolis', 'MG', -21.1002, -42.1878, 10801),
+  (3125002, 'Ewbank da Câmara', 'MG', -21.5498, -43.5068, 3875),
+  (3125101, 'Extrema', 'MG', -22.854, -46.3178, 53482),
+  (3125200, 'Fama', 'MG', -21.4089, -45.8286, 2578),
+  (3125309, 'Faria Lemos', 'MG', -20.8097, -42.0213, 3188),
+  (3125408, 'Felício dos Santos', 'MG', -18.0755, -43.2422, 5133),
+  (3125507, 'São Gonçalo do Rio Preto', 'MG', -18.0025, -43.3854, 3032),
+  (3125606, 'Felisburgo', 'MG', -16.6348, -40.7605, 6489),
+  (3125705, 'Felixlândia', 'MG', -18.7507, -44.9004, 13978),
+  (3125804, 'Fernandes Tourinho', 'MG', -19.1541, -42.0803, 2789),
+  (3125903, 'Ferros', 'MG', -19.2343, -43.0192, 9590),
+  (3125952, 'Fervedouro', 'MG', -20.726, -42.279, 10445),
+  (3126000, 'Florestal', 'MG', -19.888, -44.4318, 8045),
+  (3126109, 'Formiga', 'MG', -20.4618, -45.4268, 68248),
+  (3126208, 'Formoso', 'MG', -14.9446, -46.2371, 7949),
+  (3126307, 'Fortaleza de Minas', 'MG', -20.8508, -46.712, 3477),
+  (3126406, 'Fortuna de Minas', 'MG', -19.5578, -44.4472, 3093),
+  (3126505, 'Francisco Badaró', 'MG', -16.9883, -42.3568, 7366),
+  (3126604, 'Francisco Dumont', 'MG', -17.3107, -44.2317, 4503),
+  (3126703, 'Francisco Sá', 'MG', -16.4827, -43.4896, 23476),
+  (3126752, 'Franciscópolis', 'MG', -17.9578, -42.0094, 5034),
+  (3126802, 'Frei Gaspar', 'MG', -18.0709, -41.4325, 5640),
+  (3126901, 'Frei Inocêncio', 'MG', -18.5556, -41.9121, 8226),
+  (3126950, 'Frei Lagonegro', 'MG', -18.1751, -42.7617, 3391),
+  (3127008, 'Fronteira', 'MG', -20.2748, -49.1984, 14540),
+  (3127057, 'Fronteira dos Vales', 'MG', -16.8898, -40.923, 4345),
+  (3127073, 'Fruta de Leite', 'MG', -16.1225, -42.5288, 4647),
+  (3127107, 'Frutal', 'MG', -20.0259, -48.9355, 58588),
+  (3127206, 'Funilândia', 'MG', -19.3661, -44.061, 4686),
+  (3127305, 'Galiléia', 'MG', -19.0005, -41.5387, 6222),
+  (3127339, 'Gameleiras', 'MG', -15.0829, -43.125, 4793),
+  (3127354, 'Glaucilândia', 'MG', -16.8481, -43.692, 2928),
+  (3127370, 'Goiabeira', 'MG', -18.9807, -41.2235, 2830),
+  (3127388, 'Goianá', 'MG', -21.536, -43.1957, 4053),
+  (3127404, 'Gonçalves', 'MG', -22.6545, -45.8556, 4727),
+  (3127503, 'Gonzaga', 'MG', -18.8196, -42.4769, 5230),
+  (3127602, 'Gouveia', 'MG', -18.4519, -43.7423, 11331),
+  (3127701, 'Governador Valadares', 'MG', -18.8545, -41.9555, 257171),
+  (3127800, 'Grão Mogol', 'MG', -16.5662, -42.8923, 13901),
+  (3127909, 'Grupiara', 'MG', -18.5003, -47.7318, 1392),
+  (3128006, 'Guanhães', 'MG', -18.7713, -42.9312, 32244),
+  (3128105, 'Guapé', 'MG', -20.7631, -45.9152, 13772),
+  (3128204, 'Guaraciaba', 'MG', -20.5716, -43.0094, 9753),
+  (3128253, 'Guaraciama', 'MG', -17.0142, -43.6675, 5051),
+  (3128303, 'Guaranésia', 'MG', -21.3009, -46.7964, 19150),
+  (3128402, 'Guarani', 'MG', -21.3563, -43.0328, 7714),
+  (3128501, 'Guarará', 'MG', -21.7304, -43.0334, 3149),
+  (3128600, 'Guarda-Mor', 'MG', -17.7673, -47.0998, 6539),
+  (3128709, 'Guaxupé', 'MG', -21.305, -46.7081, 50911),
+  (3128808, 'Guidoval', 'MG', -21.155, -42.7887, 7131),
+  (3128907, 'Guimarânia', 'MG', -18.8425, -46.7901, 8478),
+  (3129004, 'Guiricema', 'MG', -21.0098, -42.7207, 7778),
+  (3129103, 'Gurinhatã', 'MG', -19.2143, -49.7876, 5192),
+  (3129202, 'Heliodora', 'MG', -22.0644, -45.5453, 6134),
+  (3129301, 'Iapu', 'MG', -19.4387, -42.2147, 12030),
+  (3129400, 'Ibertioga', 'MG', -21.433, -43.9639, 5198),
+  (3129509, 'Ibiá', 'MG', -19.4749, -46.5474, 22229),
+  (3129608, 'Ibiaí', 'MG', -16.8591, -44.9046, 6286),
+  (3129657, 'Ibiracatu', 'MG', -15.6605, -44.1667, 5081),
+  (3129707, 'Ibiraci', 'MG', -20.4611, -47.1222, 10948),
+  (3129806, 'Ibirité', 'MG', -20.0252, -44.0569, 170537),
+  (3129905, 'Ibitiúra de Minas', 'MG', -22.0604, -46.4368, 3365),
+  (3130002, 'Ibituruna', 'MG', -21.1541, -44.7479, 2698),
+  (3130051, 'Icaraí de Minas', 'MG', -16.214, -44.9034, 10677),
+  (3130101, 'Igarapé', 'MG', -20.0707, -44.2994, 45847),
+  (3130200, 'Igaratinga', 'MG', -19.9476, -44.7063, 10830),
+  (3130309, 'Iguatama', 'MG', -20.1776, -45.7111, 6826),
+  (3130408, 'Ijaci', 'MG', -21.1738, -44.9233, 7003),
+  (3130507, 'Ilicínea', 'MG', -20.9402, -45.8308, 12741),
+  (3130556, 'Imbé de Minas', 'MG', -19.6017, -41.9695, 6986),
+  (3130606, 'Inconfidentes', 'MG', -22.3136, -46.3264, 7301),
+  (3130655, 'Indaiabira', 'MG', -15.4911, -42.2005, 6346),
+  (3130705, 'Indianópolis', 'MG', -19.0341, -47.9155, 6171),
+  (3130804, 'Ingaí', 'MG', -21.4024, -44.9152, 2580),
+  (3130903, 'Inhapim', 'MG', -19.5476, -42.1147, 22692),
+  (3131000, 'Inhaúma', 'MG', -19.4898, -44.3934, 6239),
+  (3131109, 'Inimutaba', 'MG', -18.7271, -44.3584, 7371),
+  (3131158, 'Ipaba', 'MG', -19.4158, -42.4139, 17136),
+  (3131208, 'Ipanema', 'MG', -19.7992, -41.7164, 19522),
+  (3131307, 'Ipatinga', 'MG', -19.4703, -42.5476, 227731),
+  (3131406, 'Ipiaçu', 'MG', -18.6927, -49.9436, 3775),
+  (3131505, 'Ipuiúna', 'MG', -22.1013, -46.1915, 9135),
+  (3131604, 'Iraí de Minas', 'MG', -18.9819, -47.461, 7180),
+  (3131703, 'Itabira', 'MG', -19.6239, -43.2312, 113343),
+  (3131802, 'Itabirinha', 'MG', -18.5712, -41.234, 10362),
+  (3131901, 'Itabirito', 'MG', -20.2501, -43.8038, 53365),
+  (3132008, 'Itacambira', 'MG', -17.0625, -43.3069, 4252),
+  (3132107, 'Itacarambi', 'MG', -15.089, -44.095, 17208),
+  (3132206, 'Itaguara', 'MG', -20.3947, -44.4875, 13846),
+  (3132305, 'Itaipé', 'MG', -17.4014, -41.6697, 10463),
+  (3132404, 'Itajubá', 'MG', -22.4225, -45.4598, 93073),
+  (3132503, 'Itamarandiba', 'MG', -17.8552, -42.8561, 32948),
+  (3132602, 'Itamarati de Minas', 'MG', -21.4179, -42.813, 3690),
+  (3132701, 'Itambacuri', 'MG', -18.035, -41.683, 21042),
+  (3132800, 'Itambé do Mato Dentro', 'MG', -19.4158, -43.3182, 2142),
+  (3132909, 'Itamogi', 'MG', -21.0758, -47.046, 10770),
+  (3133006, 'Itamonte', 'MG', -22.2859, -44.868, 14786),
+  (3133105, 'Itanhandu', 'MG', -22.2942, -44.9382, 15236),
+  (3133204, 'Itanhomi', 'MG', -19.1736, -41.863, 11128),
+  (3133303, 'Itaobim', 'MG', -16.5571, -41.5017, 19151),
+  (3133402, 'Itapagipe', 'MG', -19.9062, -49.3781, 13690),
+  (3133501, 'Itapecerica', 'MG', -20.4704, -45.127, 21046),
+  (3133600, 'Itapeva', 'MG', -22.7665, -46.2241, 12692),
+  (3133709, 'Itatiaiuçu', 'MG', -20.1983, -44.4211, 12966),
+  (3133758, 'Itaú de Minas', 'MG', -20.7375, -46.7525, 14406),
+  (3133808, 'Itaúna', 'MG', -20.0818, -44.5801, 97669),
+  (3133907, 'Itaverava', 'MG', -20.6769, -43.6141, 5642),
+  (3134004, 'Itinga', 'MG', -16.61, -41.7672, 13745),
+  (3134103, 'Itueta', 'MG', -19.3999, -41.1746, 6055),
+  (3134202, 'Ituiutaba', 'MG', -18.9772, -49.4639, 102217),
+  (3134301, 'Itumirim', 'MG', -21.3171, -44.8724, 6638),
+  (3134400, 'Iturama', 'MG', -19.7276, -50.1966, 38295),
+  (3134509, 'Itutinga', 'MG', -21.3, -44.6567, 4217),
+  (3134608, 'Jaboticatubas', 'MG', -19.5119, -43.7373, 20406),
+  (3134707, 'Jacinto', 'MG', -16.1428, -40.295, 11042),
+  (3134806, 'Jacuí', 'MG', -21.0137, -46.7359, 7495),
+  (3134905, 'Jacutinga', 'MG', -22.286, -46.6166, 25525),
+  (3135001, 'Jaguaraçu', 'MG', -19.647, -42.7498, 3092),
+  (3135050, 'Jaíba', 'MG', -15.3432, -43.6688, 37660),
+  (3135076, 'Jampruca', 'MG', -18.461, -41.809, 4296),
+  (3135100, 'Janaúba', 'MG', -15.8022, -43.3132, 70699),
+  (3135209, 'Januária', 'MG', -15.4802, -44.3639, 65150),
+  (3135308, 'Japaraíba', 'MG', -20.1442, -45.5015, 4506),
+  (3135357, 'Japonvar', 'MG', -15.9891, -44.2758, 8127),
+  (3135407, 'Jeceaba', 'MG', -20.5339, -43.9894, 6197),
+  (3135456, 'Jenipapo de Minas', 'MG', -17.0831, -42.2589, 6100),
+  (3135506, 'Jequeri', 'MG', -20.4542, -42.6651, 12419),
+  (3135605, 'Jequitaí', 'MG', -17.229, -44.4376, 6484),
+  (3135704, 'Jequitibá', 'MG', -19.2345, -44.0304, 5883),
+  (3135803, 'Jequitinhonha', 'MG', -16.4375, -41.0117, 24007),
+  (3135902, 'Jesuânia', 'MG', -21.9887, -45.2911, 5138),
+  (3136009, 'Joaíma', 'MG', -16.6522, -41.0229, 13888),
+  (3136108, 'Joanésia', 'MG', -19.1729, -42.6775, 4329),
+  (3136207, 'João Monlevade', 'MG', -19.8126, -43.1735, 80187),
+  (3136306, 'João Pinheiro', 'MG', -17.7398, -46.1715, 46801),
+  (3136405, 'Joaquim Felício', 'MG', -17.758, -44.1643, 3854),
+  (3136504, 'Jordânia', 'MG', -15.9009, -40.1841, 10304),
+  (3136520, 'José Gonçalves de Minas', 'MG', -16.9053, -42.6014, 3969),
+  (3136553, 'José Raydan', 'MG', -18.2195, -42.4946, 4268),
+  (3136579, 'Josenópolis', 'MG', -16.5417, -42.5151, 3630),
+  (3136603, 'Nova União', 'MG', -19.6876, -43.583, 5909),
+  (3136652, 'Juatuba', 'MG', -19.9448, -44.3451, 30716),
+  (3136702, 'Juiz de Fora', 'MG', -21.7595, -43.3398, 540756),
+  (3136801, 'Juramento', 'MG', -16.8473, -43.5865, 3768),
+  (3136900, 'Juruaia', 'MG', -21.2493, -46.5735, 11084),
+  (3136959, 'Juvenília', 'MG', -14.2662, -44.1597, 5789),
+  (3137007, 'Ladainha', 'MG', -17.6279, -41.7488, 14383),
+  (3137106, 'Lagamar', 'MG', -18.1759, -46.8063, 6631),
+  (3137205, 'Lagoa da Prata', 'MG', -20.0237, -45.5401, 51412),
+  (3137304, 'Lagoa dos Patos', 'MG', -16.978, -44.5754, 3313),
+  (3137403, 'Lagoa Dourada', 'MG', -20.9139, -44.0797, 12769),
+  (3137502, 'Lagoa Formosa', 'MG', -18.7715, -46.4012, 18904),
+  (3137536, 'Lagoa Grande', 'MG', -17.8323, -46.5165, 8969),
+  (3137601, 'Lagoa Santa', 'MG', -19.6397, -43.8932, 75145),
+  (3137700, 'Lajinha', 'MG', -20.1539, -41.6228, 20835),
+  (3137809, 'Lambari', 'MG', -21.9671, -45.3498, 20414),
+  (3137908, 'Lamim', 'MG', -20.79, -43.4706, 3184),
+  (3138005, 'Laranjal', 'MG', -21.3715, -42.4732, 5963),
+  (3138104, 'Lassance', 'MG', -17.887, -44.5735, 7124),
+  (3138203, 'Lavras', 'MG', -21.248, -45.0009, 104761),
+  (3138302, 'Leandro Ferreira', 'MG', -19.7193, -45.0279, 3199),
+  (3138351, 'Leme do Prado', 'MG', -17.0793, -42.6936, 4341),
+  (3138401, 'Leopoldina', 'MG', -21.5296, -42.6421, 51145),
+  (3138500, 'Liberdade', 'MG', -22.0275, -44.3208, 4737),
+  (3138609, 'Lima Duarte', 'MG', -21.8386, -43.7934, 17221),
+  (3138625, 'Limeira do Oeste', 'MG', -19.5512, -50.5815, 8687),
+  (3138658, 'Lontra', 'MG', -15.9013, -44.306, 8790),
+  (3138674, 'Luisburgo', 'MG', -20.4468, -42.0976, 6956),
+  (3138682, 'Luislândia', 'MG', -16.1095, -44.5886, 6210),
+  (3138708, 'Luminárias', 'MG', -21.5145, -44.9034, 5586),
+  (3138807, 'Luz', 'MG', -19.7911, -45.6794, 17875),
+  (3138906, 'Machacalis', 'MG', -17.0723, -40.7245, 6487),
+  (3139003, 'Machado', 'MG', -21.6778, -45.9219, 37684),
+  (3139102, 'Madre de Deus de Minas', 'MG', -21.483, -44.3287, 5191),
+  (3139201, 'Malacacheta', 'MG', -17.8456, -42.0769, 17516),
+  (3139250, 'Mamonas', 'MG', -15.0479, -42.9469, 5997),
+  (3139300, 'Manga', 'MG', -14.7529, -43.9391, 18886),
+  (3139409, 'Manhuaçu', 'MG', -20.2572, -42.028, 91886),
+  (3139508, 'Manhumirim', 'MG', -20.3591, -41.9589, 20613),
+  (3139607, 'Mantena', 'MG', -18.7761, -40.9874, 26535),
+  (3139706, 'Maravilhas', 'MG', -19.5076, -44.6779, 7333),
+  (3139805, 'Mar de Espanha', 'MG', -21.8707, -43.0062, 12721),
+  (3139904, 'Maria da Fé', 'MG', -22.3044, -45.3773, 14247),
+  (3140001, 'Mariana', 'MG', -20.3765, -43.414, 61387),
+  (3140100, 'Marilac', 'MG', -18.5079, -42.0822, 4224),
+  (3140159, 'Mário Campos', 'MG', -20.0582, -44.1883, 15900),
+  (3140209, 'Maripá de Minas', 'MG', -21.6979, -42.9546, 3387),
+  (3140308, 'Marliéria', 'MG', -19.7096, -42.7327, 4592),
+  (3140407, 'Marmelópolis', 'MG', -22.447, -45.1645, 3200),
+  (3140506, 'Martinho Campos', 'MG', -19.3306, -45.2434, 14003),
+  (3140530, 'Martins Soares', 'MG', -20.2546, -41.8786, 8396),
+  (3140555, 'Mata Verde', 'MG', -15.6869, -40.7366, 9112),
+  (3140605, 'Materlândia', 'MG', -18.4699, -43.0579, 3963),
+  (3140704, 'Mateus Leme', 'MG', -19.9794, -44.4318, 37841),
+  (3140803, 'Matias Barbosa', 'MG', -21.869, -43.3135, 14121),
+  (3140852, 'Matias Cardoso', 'MG', -14.8563, -43.9146, 8895),
+  (3140902, 'Matipó', 'MG', -20.2873, -42.3401, 18552),
+  (3141009, 'Mato Verde', 'MG', -15.3944, -42.86, 12038),
+  (3141108, 'Matozinhos', 'MG', -19.5543, -44.0868, 37618),
+  (3141207, 'Matutina', 'MG', -19.2179, -45.9664, 3814),
+  (3141306, 'Medeiros', 'MG', -19.9865, -46.2181, 3900),
+  (3141405, 'Medina', 'MG', -16.2245, -41.4728, 20156),
+  (3141504, 'Mendes Pimentel', 'MG', -18.6631, -41.4052, 5606),
+  (3141603, 'Mercês', 'MG', -21.1976, -43.3337, 10373),
+  (3141702, 'Mesquita', 'MG', -19.224, -42.6079, 5040),
+  (3141801, 'Minas Novas', 'MG', -17.2156, -42.5884, 24405),
+  (3141900, 'Minduri', 'MG', -21.6797, -44.6051, 3741),
+  (3142007, 'Mirabela', 'MG', -16.256, -44.1602, 13651),
+  (3142106, 'Miradouro', 'MG', -20.8899, -42.3458, 8968),
+  (3142205, 'Miraí', 'MG', -21.2021, -42.6122, 13633),
+  (3142254, 'Miravânia', 'MG', -14.7348, -44.4092, 3985),
+  (3142304, 'Moeda', 'MG', -20.3399, -44.0509, 5125),
+  (3142403, 'Moema', 'MG', -19.8387, -45.4127, 7548),
+  (3142502, 'Monjolos', 'MG', -18.3245, -44.118, 2169),
+  (3142601, 'Monsenhor Paulo', 'MG', -21.7579, -45.5391, 8340),
+  (3142700, 'Montalvânia', 'MG', -14.4197, -44.3719, 14060),
+  (3142809, 'Monte Alegre de Minas', 'MG', -18.869, -48.881, 20170),
+  (3142908, 'Monte Azul', 'MG', -15.1514, -42.8718, 20328),
+  (3143005, 'Monte Belo', 'MG', -21.3271, -46.3635, 13046),
+  (3143104, 'Monte Carmelo', 'MG', -18.7302, -47.4912, 47692),
+  (3143153, 'Monte Formoso', 'MG', -16.8691, -41.2473, 4381),
+  (3143203, 'Monte Santo de Minas', 'MG', -21.1873, -46.9753, 20890),
+  (3143302, 'Montes Claros', 'MG', -16.7282, -43.8578, 414240),
+  (3143401, 'Monte Sião', 'MG', -22.4335, -46.573, 24089),
+  (3143450, 'Montezuma', 'MG', -15.1702, -42.4941, 6888),
+  (3143500, 'Morada Nova de Minas', 'MG', -18.5998, -45.3584, 9067),
+  (3143609, 'Morro da Garça', 'MG', -18.5356, -44.601, 2411),
+  (3143708, 'Morro do Pilar', 'MG', -19.2236, -43.3795, 3133),
+  (3143807, 'Munhoz', 'MG', -22.6092, -46.362, 7451),
+  (3143906, 'Muriaé', 'MG', -21.13, -42.3693, 104108),
+  (3144003, 'Mutum', 'MG', -19.8121, -41.4407, 27635),
+  (3144102, 'Muzambinho', 'MG', -21.3692, -46.5213, 21891),
+  (3144201, 'Nacip Raydan', 'MG', -18.4544, -42.2481, 2459),
+  (3144300, 'Nanuque', 'MG', -17.8481, -40.3533, 35038),
+  (3144359, 'Naque', 'MG', -19.2291, -42.3312, 6303),
+  (3144375, 'Natalândia', 'MG', -16.5021, -46.4874, 3520),
+  (3144409, 'Natércia', 'MG', -22.1158, -45.5123, 4691),
+  (3144508, 'Nazareno', 'MG', -21.2168, -44.6138, 8179),
+  (3144607, 'Nepomuceno', 'MG', -21.2324, -45.235, 25018),
+  (3144656, 'Ninheira', 'MG', -15.3148, -41.7564, 10588),
+  (3144672, 'Nova Belém', 'MG', -18.4925, -41.1107, 3151),
+  (3144706, 'Nova Era', 'MG', -19.7577, -43.0333, 17438),
+  (3144805, 'Nova Lima', 'MG', -19.9758, -43.8509, 111697),
+  (3144904, 'Nova Módica', 'MG', -18.4417, -41.4984, 3663),
+  (3145000, 'Nova Ponte', 'MG', -19.1461, -47.6779, 14598),
+  (3145059, 'Nova Porteirinha', 'MG', -15.7993, -43.2941, 6706),
+  (3145109, 'Nova Resende', 'MG', -21.1286, -46.4157, 16387),
+  (3145208, 'Nova Serrana', 'MG', -19.8713, -44.9847, 105552),
+  (3145307, 'Novo Cruzeiro', 'MG', -17.4654, -41.8826, 26975),
+  (3145356, 'Novo Oriente de Minas', 'MG', -17.4089, -41.2194, 10275),
+  (3145372, 'Novorizonte', 'MG', -16.0162, -42.4044, 4571),
+  (3145406, 'Olaria', 'MG', -21.8598, -43.9356, 1945),
+  (3145455, 'Olhos-d''Água', 'MG', -17.3982, -43.5719, 5385),
+  (3145505, 'Olímpio Noronha', 'MG', -22.0685, -45.2657, 2555),
+  (3145604, 'Oliveira', 'MG', -20.6982, -44.829, 39262),
+  (3145703, 'Oliveira Fortes', 'MG', -21.3401, -43.4499, 2027),
+  (3145802, 'Onça de Pitangui', 'MG', -19.7276, -44.8058, 2969),
+  (3145851, 'Oratórios', 'MG', -20.4298, -42.7977, 4917),
+  (3145877, 'Orizânia', 'MG', -20.5142, -42.1991, 8437),
+  (3145901, 'Ouro Branco', 'MG', -20.5263, -43.6962, 38724),
+  (3146008, 'Ouro Fino', 'MG', -22.2779, -46.3716, 32094),
+  (3146107, 'Ouro Preto', 'MG', -20.3796, -43.512, 74821),
+  (3146206, 'Ouro Verde de Minas', 'MG', -18.0719, -41.2734, 5757),
+  (3146255, 'Padre Carvalho', 'MG', -16.3646, -42.5088, 5058),
+  (3146305, 'Padre Paraíso', 'MG', -17.0758, -41.4821, 17334),
+  (3146404, 'Paineiras', 'MG', -18.8993, -45.5321, 4224),
+  (3146503, 'Pains', 'MG', -20.3705, -45.6627, 8142),
+  (3146552, 'Pai Pedro', 'MG', -15.5271, -43.07, 5551),
+  (3146602, 'Paiva', 'MG', -21.2913, -43.4088, 1474),
+  (3146701, 'Palma', 'MG', -21.3748, -42.3123, 5707),
+  (3146750, 'Palmópolis', 'MG', -16.7364, -40.4296, 6301),
+  (3146909, 'Papagaios', 'MG', -19.4419, -44.7468, 13920),
+  (3147006, 'Paracatu', 'MG', -17.2252, -46.8711, 94023),
+  (3147105, 'Pará de Minas', 'MG', -19.8534, -44.6114, 97139),
+  (3147204, 'Paraguaçu', 'MG', -21.5465, -45.7374, 21723),
+  (3147303, 'Paraisópolis', 'MG', -22.5539, -45.7803, 20445),
+  (3147402, 'Paraopeba', 'MG', -19.2732, -44.4044, 24107),
+  (3147501, 'Passabém', 'MG', -19.3509, -43.1383, 1600),
+  (3147600, 'Passa Quatro', 'MG', -22.3871, -44.9709, 15515),
+  (3147709, 'Passa Tempo', 'MG', -20.6539, -44.4926, 8473),
+  (3147808, 'Passa Vinte', 'MG', -22.2097, -44.2344, 2233),
+  (3147907, 'Passos', 'MG', -20.7193, -46.609, 111939),
+  (3147956, 'Patis', 'MG', -16.0773, -44.0787, 4837),
+  (3148004, 'Patos de Minas', 'MG', -18.5699, -46.5013, 159235),
+  (3148103, 'Patrocínio', 'MG', -18.9379, -46.9934, 89826),
+  (3148202, 'Patrocínio do Muriaé', 'MG', -21.1544, -42.2125, 5576),
+  (3148301, 'Paula Cândido', 'MG', -20.8754, -42.9752, 8659),
+  (3148400, 'Paulistas', 'MG', -18.4276, -42.8628, 4389),
+  (3148509, 'Pavão', 'MG', -17.4267, -41.0035, 8047),
+  (3148608, 'Peçanha', 'MG', -18.5441, -42.5583, 17446),
+  (3148707, 'Pedra Azul', 'MG', -16.0086, -41.2909, 24410),
+  (3148756, 'Pedra Bonita', 'MG', -20.5219, -42.3304, 7320),
+  (3148806, 'Pedra do Anta', 'MG', -20.5968, -42.7123, 3311),
+  (3148905, 'Pedra do Indaiá', 'MG', -20.2563, -45.2107, 4112),
+  (3149002, 'Pedra Dourada', 'MG', -20.8266, -42.1515, 2757),
+  (3149101, 'Pedralva', 'MG', -22.2386, -45.4654, 10760),
+  (3149150, 'Pedras de Maria da Cruz', 'MG', -15.6032, -44.391, 10433),
+  (3149200, 'Pedrinópolis', 'MG', -19.2241, -47.4579, 3344),
+  (3149309, 'Pedro Leopoldo', 'MG', -19.6308, -44.0383, 62580),
+  (3149408, 'Pedro Teixeira', 'MG', -21.7076, -43.743, 1810),
+  (3149507, 'Pequeri', 'MG', -21.8341, -43.1145, 3351),
+  (3149606, 'Pequi', 'MG', -19.6284, -44.6604, 4155),
+  (3149705, 'Perdigão', 'MG', -19.9411, -45.078, 12268),
+  (3149804, 'Perdizes', 'MG', -19.3434, -47.2963, 17151),
+  (3149903, 'Perdões', 'MG', -21.0932, -45.0896, 21384),
+  (3149952, 'Periquito', 'MG', -19.1573, -42.2333, 6553),
+  (3150000, 'Pescador', 'MG', -18.357, -41.6006, 3570),
+  (3150109, 'Piau', 'MG', -21.5096, -43.313, 2796),
+  (3150158, 'Piedade de Caratinga', 'MG', -19.7593, -42.0756, 8529),
+  (3150208, 'Piedade de Ponte Nova', 'MG', -20.2438, -42.7379, 3976),
+  (3150307, 'Piedade do Rio Grande', 'MG', -21.469, -44.1938, 4604),
+  (3150406, 'Piedade dos Gerais', 'MG', -20.4715, -44.2243, 5019),
+  (3150505, 'Pimenta', 'MG', -20.4827, -45.8049, 8563),
+  (3150539, 'Pingo-d''Água', 'MG', -19.7287, -42.4095, 4706),
+  (3150570, 'Pintópolis', 'MG', -16.0572, -45.1402, 7084),
+  (3150604, 'Piracema', 'MG', -20.5089, -44.4783, 6700),
+  (3150703, 'Pirajuba', 'MG', -19.9092, -48.7027, 5537),
+  (3150802, 'Piranga', 'MG', -20.6834, -43.2967, 17018),
+  (3150901, 'Piranguçu', 'MG', -22.5249, -45.4945, 6041),
+  (3151008, 'Piranguinho', 'MG', -22.395, -45.5324, 9120),
+  (3151107, 'Pirapetinga', 'MG', -21.6554, -42.3434, 11077),
+  (3151206, 'Pirapora', 'MG', -17.3392, -44.934, 55606),
+  (3151305, 'Piraúba', 'MG', -21.2825, -43.0172, 11610),
+  (3151404, 'Pitangui', 'MG', -19.6741, -44.8964, 26685),
+  (3151503, 'Piumhi', 'MG', -20.4762, -45.9589, 36062),
+  (3151602, 'Planura', 'MG', -20.1376, -48.7, 11145),
+  (3151701, 'Poço Fundo', 'MG', -21.78, -45.9658, 16390),
+  (3151800, 'Poços de Caldas', 'MG', -21.78, -46.5692, 163742),
+  (3151909, 'Pocrane', 'MG', -19.6208, -41.6334, 8350),
+  (3152006, 'Pompéu', 'MG', -19.2257, -45.0141, 31047),
+  (3152105, 'Ponte Nova', 'MG', -20.4111, -42.8978, 57776),
+  (3152131, 'Ponto Chique', 'MG', -16.6282, -45.0588, 3747),
+  (3152170, 'Ponto dos Volantes', 'MG', -16.7473, -41.5025, 10883),
+  (3152204, 'Porteirinha', 'MG', -15.7404, -43.0281, 37438),
+  (3152303, 'Porto Firme', 'MG', -20.6642, -43.0834, 10569),
+  (3152402, 'Poté', 'MG', -17.8077, -41.786, 13666),
+  (3152501, 'Pouso Alegre', 'MG', -22.2266, -45.9389, 152217),
+  (3152600, 'Pouso Alto', 'MG', -22.1964, -44.9748, 6566),
+  (3152709, 'Prados', 'MG', -21.0597, -44.0778, 9048),
+  (3152808, 'Prata', 'MG', -19.3086, -48.9276, 28342),
+  (3152907, 'Pratápolis', 'MG', -20.7411, -46.8624, 8406),
+  (3153004, 'Pratinha', 'MG', -19.739, -46.3755, 3559),
+  (3153103, 'Presidente Bernardes', 'MG', -20.7656, -43.1895, 4850),
+  (3153202, 'Presidente Juscelino', 'MG', -18.6401, -44.06, 3465),
+  (3153301, 'Presidente Kubitschek', 'MG', -18.6193, -43.5628, 3071),
+  (3153400, 'Presidente Olegário', 'MG', -18.4096, -46.4165, 18765),
+  (3153509, 'Alto Jequitibá', 'MG', -20.4208, -41.967, 8397),
+  (3153608, 'Prudente de Morais', 'MG', -19.4742, -44.1591, 11466),
+  (3153707, 'Quartel Geral', 'MG', -19.2703, -45.5569, 3179),
+  (3153806, 'Queluzito', 'MG', -20.7416, -43.8851, 1770),
+  (3153905, 'Raposos', 'MG', -19.9636, -43.8079, 16279),
+  (3154002, 'Raul Soares', 'MG', -20.1061, -42.4502, 23423),
+  (3154101, 'Recreio', 'MG', -21.5289, -42.4676, 11007),
+  (3154150, 'Reduto', 'MG', -20.2401, -41.9848, 7848),
+  (3154200, 'Resende Costa', 'MG', -20.9171, -44.2407, 11230),
+  (3154309, 'Resplendor', 'MG', -19.3194, -41.2462, 17226),
+  (3154408, 'Ressaquinha', 'MG', -21.0642, -43.7598, 4548),
+  (3154457, 'Riachinho', 'MG', -16.2258, -45.9888, 6863),
+  (3154507, 'Riacho dos Machados', 'MG', -16.0091, -43.0488, 8756),
+  (3154606, 'Ribeirão das Neves', 'MG', -19.7621, -44.0844, 329794),
+  (3154705, 'Ribeirão Vermelho', 'MG', -21.1879, -45.0637, 4080),
+  (3154804, 'Rio Acima', 'MG', -20.0876, -43.7878, 10261),
+  (3154903, 'Rio Casca', 'MG', -20.2285, -42.6462, 12789),
+  (3155009, 'Rio Doce', 'MG', -20.2412, -42.8995, 2484),
+  (3155108, 'Rio do Prado', 'MG', -16.6056, -40.5714, 4639),
+  (3155207, 'Rio Espera', 'MG', -20.855, -43.4721, 5429),
+  (3155306, 'Rio Manso', 'MG', -20.2666, -44.3069, 5568),
+  (3155405, 'Rio Novo', 'MG', -21.4649, -43.1168, 8518),
+  (3155504, 'Rio Paranaíba', 'MG', -19.1861, -46.2455, 14532),
+  (3155603, 'Rio Pardo de Minas', 'MG', -15.616, -42.5405, 28271),
+  (3155702, 'Rio Piracicaba', 'MG', -19.9284, -43.1829, 14631),
+  (3155801, 'Rio Pomba', 'MG', -21.2712, -43.1696, 17443),
+  (3155900, 'Rio Preto', 'MG', -22.0861, -43.8293, 5141),
+  (3156007, 'Rio Vermelho', 'MG', -18.2922, -43.0018, 12641),
+  (3156106, 'Ritápolis', 'MG', -21.0276, -44.3204, 4994),
+  (3156205, 'Rochedo de Minas', 'MG', -21.6284, -43.0165, 2291),
+  (3156304, 'Rodeiro', 'MG', -21.2035, -42.8586, 8664),
+  (3156403, 'Romaria', 'MG', -18.8838, -47.5782, 3386),
+  (3156452, 'Rosário da Limeira', 'MG', -20.9812, -42.5112, 4734),
+  (3156502, 'Rubelita', 'MG', -16.4053, -42.261, 5679),
+  (3156601, 'Rubim', 'MG', -16.3775, -40.5397, 10298),
+  (3156700, 'Sabará', 'MG', -19.884, -43.8263, 129380),
+  (3156809, 'Sabinópolis', 'MG', -18.6653, -43.0752, 14240),
+  (3156908, 'Sacramento', 'MG', -19.8622, -47.4508, 26670),
+  (3157005, 'Salinas', 'MG', -16.1753, -42.2964, 40178),
+  (3157104, 'Salto da Divisa', 'MG', -16.0063, -39.9391, 6110),
+  (3157203, 'Santa Bárbara', 'MG', -19.9604, -43.4101, 30466),
+  (3157252, 'Santa Bárbara do Leste', 'MG', -19.9753, -42.1457, 8458),
+  (3157278, 'Santa Bárbara do Monte Verde', 'MG', -21.9592, -43.7027, 3095),
+  (3157302, 'Santa Bárbara do Tugúrio', 'MG', -21.2431, -43.5607, 4208),
+  (3157336, 'Santa Cruz de Minas', 'MG', -21.1241, -44.2202, 8109),
+  (3157377, 'Santa Cruz de Salinas', 'MG', -16.0967, -41.7418, 3910),
+  (3157401, 'Santa Cruz do Escalvado', 'MG', -20.2372, -42.8169, 4673),
+  (3157500, 'Santa Efigênia de Minas', 'MG', -18.8235, -42.4388, 4039),
+  (3157609, 'Santa Fé de Minas', 'MG', -16.6859, -45.4102, 3522),
+  (3157658, 'Santa Helena de Minas', 'MG', -16.9707, -40.6727, 5938),
+  (3157708, 'Santa Juliana', 'MG', -19.3108, -47.5322, 15734),
+  (3157807, 'Santa Luzia', 'MG', -19.7548, -43.8497, 219132),
+  (3157906, 'Santa Margarida', 'MG', -20.3839, -42.2519, 16395),
+  (3158003, 'Santa Maria de Itabira', 'MG', -19.4431, -43.1064, 10485),
+  (3158102, 'Santa Maria do Salto', 'MG', -16.2479, -40.1512, 4755),
+  (3158201, 'Santa Maria do Suaçuí', 'MG', -18.1896, -42.4139, 12788),
+  (3158300, 'Santana da Vargem', 'MG', -21.2449, -45.5005, 6691),
+  (3158409, 'Santana de Cataguases', 'MG', -21.2893, -42.5524, 3489),
+  (3158508, 'Santana de Pirapama', 'MG', -18.9962, -44.0409, 7030),
+  (3158607, 'Santana do Deserto', 'MG', -21.9512, -43.1583, 3747),
+  (3158706, 'Santana do Garambéu', 'MG', -21.5983, -44.105, 2137),
+  (3158805, 'Santana do Jacaré', 'MG', -20.9007, -45.1285, 4214),
+  (3158904, 'Santana do Manhuaçu', 'MG', -20.1031, -41.9278, 8987),
+  (3158953, 'Santana do Paraíso', 'MG', -19.3661, -42.5446, 44800),
+  (3159001, 'Santana do Riacho', 'MG', -19.1662, -43.722, 5313),
+  (3159100, 'Santana dos Montes', 'MG', -20.7868, -43.6949, 3469),
+  (3159209, 'Santa Rita de Caldas', 'MG', -22.0292, -46.3385, 8460),
+  (3159308, 'Santa Rita de Jacutinga', 'MG', -22.1474, -44.0977, 4755),
+  (3159357, 'Santa Rita de Minas', 'MG', -19.876, -42.1363, 6773),
+  (3159407, 'Santa Rita de Ibitipoca', 'MG', -21.5658, -43.9163, 3301),
+  (3159506, 'Santa Rita do Itueto', 'MG', -19.3576, -41.3821, 5826),
+  (3159605, 'Santa Rita do Sapucaí', 'MG', -22.2461, -45.7034, 40635),
+  (3159704, 'Santa Rosa da Serra', 'MG', -19.5186, -45.9611, 3382),
+  (3159803, 'Santa Vitória', 'MG', -18.8414, -50.1208, 20973),
+  (3159902, 'Santo Antônio do Amparo', 'MG', -20.943, -44.9176, 17285),
+  (3160009, 'Santo Antônio do Aventureiro', 'MG', -21.7606, -42.8115, 3769),
+  (3160108, 'Santo Antônio do Grama', 'MG', -20.3185, -42.6047, 4229),
+  (3160207, 'Santo Antônio do Itambé', 'MG', -18.4609, -43.3006, 3915),
+  (3160306, 'Santo Antônio do Jacinto', 'MG', -16.5332, -40.1817, 10327),
+  (3160405, 'Santo Antônio do Monte', 'MG', -20.085, -45.2947, 27295),
+  (3160454, 'Santo Antônio do Retiro', 'MG', -15.3393, -42.6171, 6629),
+  (3160504, 'Santo Antônio do Rio Abaixo', 'MG', -19.2374, -43.2604, 1808),
+  (3160603, 'Santo Hipólito', 'MG', -18.2968, -44.2229, 2717),
+  (3160702, 'Santos Dumont', 'MG', -21.4634, -43.5499, 42406),
+  (3160801, 'São Bento Abade', 'MG', -21.5839, -45.0699, 4713),
+  (3160900, 'São Brás do Suaçuí', 'MG', -20.6242, -43.9515, 3989),
+  (3160959, 'São Domingos das Dores', 'MG', -19.5246, -42.0106, 5626),
+  (3161007, 'São Domingos do Prata', 'MG', -19.8678, -42.971, 17392),
+  (3161056, 'São Félix de Minas', 'MG', -18.5959, -41.4889, 3200),
+  (3161106, 'São Francisco', 'MG', -15.9514, -44.8593, 52762),
+  (3161205, 'São Francisco de Paula', 'MG', -20.7036, -44.9838, 6187),
+  (3161304, 'São Francisco de Sales', 'MG', -19.8611, -49.7727, 5732),
+  (3161403, 'São Francisco do Glória', 'MG', -20.7923, -42.2673, 4800),
+  (3161502, 'São Geraldo', 'MG', -20.9252, -42.8364, 10282),
+  (3161601, 'São Geraldo da Piedade', 'MG', -18.8411, -42.2867, 3305),
+  (3161650, 'São Geraldo do Baixio', 'MG', -18.9097, -41.363, 3143),
+  (3161700, 'São Gonçalo do Abaeté', 'MG', -18.3315, -45.8265, 7375),
+  (3161809, 'São Gonçalo do Pará', 'MG', -19.9822, -44.8593, 11770),
+  (3161908, 'São Gonçalo do Rio Abaixo', 'MG', -19.8221, -43.366, 11850),
+  (3162005, 'São Gonçalo do Sapucaí', 'MG', -21.8932, -45.5893, 23959),
+  (3162104, 'São Gotardo', 'MG', -19.3087, -46.0465, 40910),
+  (3162203, 'São João Batista do Glória', 'MG', -20.635, -46.508, 7652),
+  (3162252, 'São João da Lagoa', 'MG', -16.8455, -44.3507, 4822),
+  (3162302, 'São João da Mata', 'MG', -21.928, -45.9297, 2914),
+  (3162401, 'São João da Ponte', 'MG', -15.9271, -44.0096, 23930),
+  (3162450, 'São João das Missões', 'MG', -14.8859, -44.0922, 13024),
+  (3162500, 'São João del Rei', 'MG', -21.1311, -44.2526, 90225),
+  (3162559, 'São João do Manhuaçu', 'MG', -20.3933, -42.1533, 11246),
+  (3162575, 'São João do Manteninha', 'MG', -18.723, -41.1628, 5331),
+  (3162609, 'São João do Oriente', 'MG', -19.3384, -42.1575, 7070),
+  (3162658, 'São João do Pacuí', 'MG', -16.5373, -44.5134, 3972),
+  (3162708, 'São João do Paraíso', 'MG', -15.3168, -42.0213, 23910),
+  (3162807, 'São João Evangelista', 'MG', -18.548, -42.7655, 15315),
+  (3162906, 'São João Nepomuceno', 'MG', -21.5381, -43.0069, 25565),
+  (3162922, 'São Joaquim de Bicas', 'MG', -20.048, -44.2749, 34348),
+  (3162948, 'São José da Barra', 'MG', -20.7178, -46.313, 7793),
+  (3162955, 'São José da Lapa', 'MG', -19.6971, -43.9586, 26090),
+  (3163003, 'São José da Safira', 'MG', -18.3243, -42.1431, 3806),
+  (3163102, 'São José da Varginha', 'MG', -19.7006, -44.556, 4536),
+  (3163201, 'São José do Alegre', 'MG', -22.3243, -45.5258, 4133),
+  (3163300, 'São José do Divino', 'MG', -18.4793, -41.3907, 3464),
+  (3163409, 'São José do Goiabal', 'MG', -19.9214, -42.7035, 5396),
+  (3163508, 'São José do Jacuri', 'MG', -18.281, -42.6729, 6197),
+  (3163607, 'São José do Mantimento', 'MG', -20.0058, -41.7486, 2753),
+  (3163706, 'São Lourenço', 'MG', -22.1166, -45.0506, 44798),
+  (3163805, 'São Miguel do Anta', 'MG', -20.7067, -42.7174, 6334),
+  (3163904, 'São Pedro da União', 'MG', -21.131, -46.6123, 4885),
+  (3164001, 'São Pedro dos Ferros', 'MG', -20.1732, -42.5251, 7166),
+  (3164100, 'São Pedro do Suaçuí', 'MG', -18.3609, -42.5981, 5103),
+  (3164209, 'São Romão', 'MG', -16.3641, -45.0749, 10315),
+  (3164308, 'São Roque de Minas', 'MG', -20.249, -46.3639, 7129),
+  (3164407, 'São Sebastião da Bela Vista', 'MG', -22.1583, -45.7546, 6387),
+  (3164431, 'São Sebastião da Vargem Alegre', 'MG', -19.7477, -43.3679, 3113);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (3164472, 'São Sebastião do Anta', 'MG', -19.5064, -41.985, 6194),
+  (3164506, 'São Sebastião do Maranhão', 'MG', -18.0873, -42.5659, 10079),
+  (3164605, 'São Sebastião do Oeste', 'MG', -20.2758, -45.0063, 8815),
+  (3164704, 'São Sebastião do Paraíso', 'MG', -20.9167, -46.9837, 71796),
+  (3164803, 'São Sebastião do Rio Preto', 'MG', -19.2959, -43.1757, 1259),
+  (3164902, 'São Sebastião do Rio Verde', 'MG', -22.2183, -44.9761, 2300),
+  (3165008, 'São Tiago', 'MG', -20.9075, -44.5098, 11192),
+  (3165107, 'São Tomás de Aquino', 'MG', -20.7791, -47.0962, 6740),
+  (3165206, 'São Tomé das Letras', 'MG', -21.7218, -44.9849, 6904),
+  (3165305, 'São Vicente de Minas', 'MG', -21.7042, -44.4431, 6804),
+  (3165404, 'Sapucaí-Mirim', 'MG', -22.7409, -45.738, 6311),
+  (3165503, 'Sardoá', 'MG', -18.7828, -42.3629, 5104),
+  (3165537, 'Sarzedo', 'MG', -20.0367, -44.1446, 36844),
+  (3165552, 'Setubinha', 'MG', -17.6002, -42.1587, 9917),
+  (3165560, 'Sem-Peixe', 'MG', -20.1008, -42.8483, 2433),
+  (3165578, 'Senador Amaral', 'MG', -22.5869, -46.1763, 6206),
+  (3165602, 'Senador Cortes', 'MG', -21.7986, -42.9424, 2240),
+  (3165701, 'Senador Firmino', 'MG', -20.9158, -43.0904, 7716),
+  (3165800, 'Senador José Bento', 'MG', -22.1633, -46.1792, 2068),
+  (3165909, 'Senador Modestino Gonçalves', 'MG', -17.9465, -43.2172, 4008),
+  (3166006, 'Senhora de Oliveira', 'MG', -20.7972, -43.3394, 5483),
+  (3166105, 'Senhora do Porto', 'MG', -18.8909, -43.0799, 3067),
+  (3166204, 'Senhora dos Remédios', 'MG', -21.0351, -43.5812, 10384),
+  (3166303, 'Sericita', 'MG', -20.4748, -42.4828, 7345),
+  (3166402, 'Seritinga', 'MG', -21.9134, -44.518, 1819),
+  (3166501, 'Serra Azul de Minas', 'MG', -18.3602, -43.1675, 3792),
+  (3166600, 'Serra da Saudade', 'MG', -19.4447, -45.795, 833),
+  (3166709, 'Serra dos Aimorés', 'MG', -17.7872, -40.2453, 6944),
+  (3166808, 'Serra do Salitre', 'MG', -19.1083, -46.6961, 11801),
+  (3166907, 'Serrania', 'MG', -21.5441, -46.0417, 7621),
+  (3166956, 'Serranópolis de Minas', 'MG', -15.8176, -42.8732, 4399),
+  (3167004, 'Serranos', 'MG', -21.8857, -44.5125, 1990),
+  (3167103, 'Serro', 'MG', -18.5991, -43.3744, 21952),
+  (3167202, 'Sete Lagoas', 'MG', -19.4569, -44.2413, 227397),
+  (3167301, 'Silveirânia', 'MG', -21.1615, -43.2128, 2323),
+  (3167400, 'Silvianópolis', 'MG', -22.0274, -45.8385, 6179),
+  (3167509, 'Simão Pereira', 'MG', -21.964, -43.3088, 2947),
+  (3167608, 'Simonésia', 'MG', -20.1341, -42.0091, 19750),
+  (3167707, 'Sobrália', 'MG', -19.2345, -42.0998, 5137),
+  (3167806, 'Soledade de Minas', 'MG', -22.0554, -45.0464, 5613),
+  (3167905, 'Tabuleiro', 'MG', -21.3632, -43.2381, 4014),
+  (3168002, 'Taiobeiras', 'MG', -15.8106, -42.2259, 33050),
+  (3168051, 'Taparuba', 'MG', -19.7621, -41.608, 3387),
+  (3168101, 'Tapira', 'MG', -19.9166, -46.8264, 4118),
+  (3168200, 'Tapiraí', 'MG', -19.8936, -46.0221, 1690),
+  (3168309, 'Taquaraçu de Minas', 'MG', -19.6652, -43.6922, 4224),
+  (3168408, 'Tarumirim', 'MG', -19.2835, -42.0097, 14709),
+  (3168507, 'Teixeiras', 'MG', -20.6561, -42.8564, 12255),
+  (3168606, 'Teófilo Otoni', 'MG', -17.8595, -41.5087, 137418),
+  (3168705, 'Timóteo', 'MG', -19.5811, -42.6471, 81579),
+  (3168804, 'Tiradentes', 'MG', -21.1102, -44.1744, 7744),
+  (3168903, 'Tiros', 'MG', -19.0037, -45.9626, 7883),
+  (3169000, 'Tocantins', 'MG', -21.1774, -43.0127, 16185),
+  (3169059, 'Tocos do Moji', 'MG', -22.3698, -46.0971, 3826),
+  (3169109, 'Toledo', 'MG', -22.7421, -46.3728, 7214),
+  (3169208, 'Tombos', 'MG', -20.9086, -42.0228, 8609),
+  (3169307, 'Três Corações', 'MG', -21.6921, -45.2511, 75485),
+  (3169356, 'Três Marias', 'MG', -18.2048, -45.2473, 28895),
+  (3169406, 'Três Pontas', 'MG', -21.3694, -45.5109, 55255),
+  (3169505, 'Tumiritinga', 'MG', -18.9844, -41.6527, 5886),
+  (3169604, 'Tupaciguara', 'MG', -18.5866, -48.6985, 25470),
+  (3169703, 'Turmalina', 'MG', -17.2828, -42.7285, 20000),
+  (3169802, 'Turvolândia', 'MG', -21.8733, -45.7859, 4935),
+  (3169901, 'Ubá', 'MG', -21.1204, -42.9359, 103365),
+  (3170008, 'Ubaí', 'MG', -16.2885, -44.7783, 11708),
+  (3170057, 'Ubaporanga', 'MG', -19.6351, -42.1059, 13017),
+  (3170107, 'Uberaba', 'MG', -19.7472, -47.9381, 337836),
+  (3170206, 'Uberlândia', 'MG', -18.9141, -48.2749, 713224),
+  (3170305, 'Umburatiba', 'MG', -17.2548, -40.5779, 2684),
+  (3170404, 'Unaí', 'MG', -16.3592, -46.9022, 86619),
+  (3170438, 'União de Minas', 'MG', -19.5299, -50.338, 3828),
+  (3170479, 'Uruana de Minas', 'MG', -16.0634, -46.2443, 3282),
+  (3170503, 'Urucânia', 'MG', -20.3521, -42.737, 10600),
+  (3170529, 'Urucuia', 'MG', -16.1244, -45.7352, 17479),
+  (3170578, 'Vargem Alegre', 'MG', -19.5988, -42.2949, 5780),
+  (3170602, 'Vargem Bonita', 'MG', -20.3333, -46.3688, 2158),
+  (3170651, 'Vargem Grande do Rio Pardo', 'MG', -15.3987, -42.3085, 4633),
+  (3170701, 'Varginha', 'MG', -21.5556, -45.4364, 136467),
+  (3170750, 'Varjão de Minas', 'MG', -18.3741, -46.0313, 6969),
+  (3170800, 'Várzea da Palma', 'MG', -17.5944, -44.7226, 33744),
+  (3170909, 'Varzelândia', 'MG', -15.6992, -44.0278, 18840),
+  (3171006, 'Vazante', 'MG', -17.9827, -46.9088, 19975),
+  (3171030, 'Verdelândia', 'MG', -15.5845, -43.6121, 7672),
+  (3171071, 'Veredinha', 'MG', -17.3974, -42.7307, 5181),
+  (3171105, 'Veríssimo', 'MG', -19.6657, -48.3118, 3411),
+  (3171154, 'Vermelho Novo', 'MG', -20.0406, -42.2688, 4899),
+  (3171204, 'Vespasiano', 'MG', -19.6883, -43.9239, 129246),
+  (3171303, 'Viçosa', 'MG', -20.7559, -42.8742, 76430),
+  (3171402, 'Vieiras', 'MG', -20.867, -42.2401, 3700),
+  (3171501, 'Mathias Lobato', 'MG', -18.59, -41.9166, 3038),
+  (3171600, 'Virgem da Lapa', 'MG', -16.807, -42.3431, 11804),
+  (3171709, 'Virgínia', 'MG', -22.3264, -45.0965, 8908),
+  (3171808, 'Virginópolis', 'MG', -18.8154, -42.7015, 10314),
+  (3171907, 'Virgolândia', 'MG', -18.4738, -42.3067, 4552),
+  (3172004, 'Visconde do Rio Branco', 'MG', -21.0127, -42.8361, 39160),
+  (3172103, 'Volta Grande', 'MG', -21.7671, -42.5375, 4443),
+  (3172202, 'Wenceslau Braz', 'MG', -22.5368, -45.3626, 2356),
+  (3200102, 'Afonso Cláudio', 'ES', -20.0778, -41.1261, 30684),
+  (3200136, 'Águia Branca', 'ES', -18.9846, -40.7437, 9711),
+  (3200169, 'Água Doce do Norte', 'ES', -18.5482, -40.9854, 12042),
+  (3200201, 'Alegre', 'ES', -20.758, -41.5382, 29177),
+  (3200300, 'Alfredo Chaves', 'ES', -20.6396, -40.7543, 13836),
+  (3200359, 'Alto Rio Novo', 'ES', -19.0618, -41.0209, 7434),
+  (3200409, 'Anchieta', 'ES', -20.7955, -40.6425, 29984),
+  (3200508, 'Apiacá', 'ES', -21.1523, -41.5693, 7223),
+  (3200607, 'Aracruz', 'ES', -19.82, -40.2764, 94765),
+  (3200706, 'Atílio Vivácqua', 'ES', -20.913, -41.1986, 10540),
+  (3200805, 'Baixo Guandu', 'ES', -19.5213, -41.0109, 30674),
+  (3200904, 'Barra de São Francisco', 'ES', -18.7548, -40.8965, 42498),
+  (3201001, 'Boa Esperança', 'ES', -18.5395, -40.3025, 13608),
+  (3201100, 'Bom Jesus do Norte', 'ES', -21.1173, -41.6731, 10254),
+  (3201159, 'Brejetuba', 'ES', -20.1395, -41.2954, 12985),
+  (3201209, 'Cachoeiro de Itapemirim', 'ES', -20.8462, -41.1198, 185786),
+  (3201308, 'Cariacica', 'ES', -20.2632, -40.4165, 353491),
+  (3201407, 'Castelo', 'ES', -20.6033, -41.2031, 36930),
+  (3201506, 'Colatina', 'ES', -19.5493, -40.6269, 120033),
+  (3201605, 'Conceição da Barra', 'ES', -18.5883, -39.7362, 27458),
+  (3201704, 'Conceição do Castelo', 'ES', -20.3639, -41.2417, 11937),
+  (3201803, 'Divino de São Lourenço', 'ES', -20.6229, -41.6937, 5083),
+  (3201902, 'Domingos Martins', 'ES', -20.3603, -40.6594, 35416),
+  (3202009, 'Dores do Rio Preto', 'ES', -20.6931, -41.8405, 6596),
+  (3202108, 'Ecoporanga', 'ES', -18.3702, -40.836, 21992),
+  (3202207, 'Fundão', 'ES', -19.937, -40.4078, 18014),
+  (3202256, 'Governador Lindenberg', 'ES', -19.1864, -40.4473, 11009),
+  (3202306, 'Guaçuí', 'ES', -20.7668, -41.6734, 29358),
+  (3202405, 'Guarapari', 'ES', -20.6772, -40.5093, 124656),
+  (3202454, 'Ibatiba', 'ES', -20.2347, -41.5087, 25380),
+  (3202504, 'Ibiraçu', 'ES', -19.8366, -40.3732, 11723),
+  (3202553, 'Ibitirama', 'ES', -20.5466, -41.6667, 9520),
+  (3202603, 'Iconha', 'ES', -20.7913, -40.8132, 12326),
+  (3202652, 'Irupi', 'ES', -20.3501, -41.6444, 13710),
+  (3202702, 'Itaguaçu', 'ES', -19.8018, -40.8601, 13589),
+  (3202801, 'Itapemirim', 'ES', -21.0095, -40.8307, 39832),
+  (3202900, 'Itarana', 'ES', -19.875, -40.8753, 10597),
+  (3203007, 'Iúna', 'ES', -20.3531, -41.5334, 28590),
+  (3203056, 'Jaguaré', 'ES', -18.907, -40.0759, 28931),
+  (3203106, 'Jerônimo Monteiro', 'ES', -20.7994, -41.3948, 11575),
+  (3203130, 'João Neiva', 'ES', -19.7577, -40.386, 14079),
+  (3203163, 'Laranja da Terra', 'ES', -19.8994, -41.0621, 11094),
+  (3203205, 'Linhares', 'ES', -19.3946, -40.0643, 166786),
+  (3203304, 'Mantenópolis', 'ES', -18.8594, -41.124, 12770),
+  (3203320, 'Marataízes', 'ES', -21.0398, -40.8384, 41929),
+  (3203346, 'Marechal Floriano', 'ES', -20.4159, -40.67, 17641),
+  (3203353, 'Marilândia', 'ES', -19.4114, -40.5456, 12387),
+  (3203403, 'Mimoso do Sul', 'ES', -21.0628, -41.3615, 24475),
+  (3203502, 'Montanha', 'ES', -18.1303, -40.3668, 18900),
+  (3203601, 'Mucurici', 'ES', -18.0965, -40.52, 5466),
+  (3203700, 'Muniz Freire', 'ES', -20.4652, -41.4156, 18153),
+  (3203809, 'Muqui', 'ES', -20.9509, -41.346, 13745),
+  (3203908, 'Nova Venécia', 'ES', -18.715, -40.4053, 49065),
+  (3204005, 'Pancas', 'ES', -19.2229, -40.8534, 18893),
+  (3204054, 'Pedro Canário', 'ES', -18.3004, -39.9574, 21522),
+  (3204104, 'Pinheiros', 'ES', -18.4141, -40.2171, 23915),
+  (3204203, 'Piúma', 'ES', -20.8334, -40.7268, 22300),
+  (3204252, 'Ponto Belo', 'ES', -18.1253, -40.5458, 6497),
+  (3204302, 'Presidente Kennedy', 'ES', -21.0964, -41.0468, 13696),
+  (3204351, 'Rio Bananal', 'ES', -19.2719, -40.3366, 19274),
+  (3204401, 'Rio Novo do Sul', 'ES', -20.8556, -40.9388, 11069),
+  (3204500, 'Santa Leopoldina', 'ES', -20.0999, -40.527, 13106),
+  (3204559, 'Santa Maria de Jetibá', 'ES', -20.0253, -40.7439, 41636),
+  (3204609, 'Santa Teresa', 'ES', -19.9363, -40.5979, 22808),
+  (3204658, 'São Domingos do Norte', 'ES', -19.1452, -40.6281, 8589),
+  (3204708, 'São Gabriel da Palha', 'ES', -19.0182, -40.5365, 32252),
+  (3204807, 'São José do Calçado', 'ES', -21.0274, -41.6636, 10878),
+  (3204906, 'São Mateus', 'ES', -18.7214, -39.8579, 123752),
+  (3204955, 'São Roque do Canaã', 'ES', -19.7411, -40.6526, 10886),
+  (3205002, 'Serra', 'ES', -20.121, -40.3074, 520653),
+  (3205010, 'Sooretama', 'ES', -19.1897, -40.0974, 26502),
+  (3205036, 'Vargem Alta', 'ES', -20.669, -41.0179, 19563),
+  (3205069, 'Venda Nova do Imigrante', 'ES', -20.327, -41.1355, 23831),
+  (3205101, 'Viana', 'ES', -20.3825, -40.4933, 73423),
+  (3205150, 'Vila Pavão', 'ES', -18.6091, -40.609, 8911),
+  (3205176, 'Vila Valério', 'ES', -18.9958, -40.3849, 13728),
+  (3205200, 'Vila Velha', 'ES', -20.3417, -40.2875, 467722),
+  (3205309, 'Vitória', 'ES', -20.3155, -40.3128, 322869),
+  (3300100, 'Angra dos Reis', 'RJ', -23.0011, -44.3196, 167434),
+  (3300159, 'Aperibé', 'RJ', -21.6252, -42.1017, 11034),
+  (3300209, 'Araruama', 'RJ', -22.8697, -42.3326, 129671),
+  (3300225, 'Areal', 'RJ', -22.2283, -43.1118, 11828),
+  (3300233, 'Armação dos Búzios', 'RJ', -22.7528, -41.8846, 40006),
+  (3300258, 'Arraial do Cabo', 'RJ', -22.9774, -42.0267, 30986),
+  (3300308, 'Barra do Piraí', 'RJ', -22.4715, -43.8269, 92883),
+  (3300407, 'Barra Mansa', 'RJ', -22.5481, -44.1752, 169894),
+  (3300456, 'Belford Roxo', 'RJ', -22.764, -43.3992, 483087),
+  (3300506, 'Bom Jardim', 'RJ', -22.1545, -42.4251, 28102),
+  (3300605, 'Bom Jesus do Itabapoana', 'RJ', -21.1449, -41.6822, 35173),
+  (3300704, 'Cabo Frio', 'RJ', -22.8894, -42.0286, 222161),
+  (3300803, 'Cachoeiras de Macacu', 'RJ', -22.4658, -42.6523, 56943),
+  (3300902, 'Cambuci', 'RJ', -21.5691, -41.9187, 14616),
+  (3300936, 'Carapebus', 'RJ', -22.1821, -41.663, 13847),
+  (3300951, 'Comendador Levy Gasparian', 'RJ', -22.0404, -43.214, 8741),
+  (3301009, 'Campos dos Goytacazes', 'RJ', -21.7622, -41.3181, 483540),
+  (3301108, 'Cantagalo', 'RJ', -21.9797, -42.3664, 19390),
+  (3301157, 'Cardoso Moreira', 'RJ', -21.4846, -41.6165, 12958),
+  (3301207, 'Carmo', 'RJ', -21.931, -42.6046, 17198),
+  (3301306, 'Casimiro de Abreu', 'RJ', -22.4812, -42.2066, 46110),
+  (3301405, 'Conceição de Macabu', 'RJ', -22.0834, -41.8719, 21104),
+  (3301504, 'Cordeiro', 'RJ', -22.0267, -42.3648, 20783),
+  (3301603, 'Duas Barras', 'RJ', -22.0536, -42.5232, 10980),
+  (3301702, 'Duque de Caxias', 'RJ', -22.7858, -43.3049, 808161),
+  (3301801, 'Engenheiro Paulo de Frontin', 'RJ', -22.5498, -43.6827, 12242),
+  (3301850, 'Guapimirim', 'RJ', -22.5347, -42.9895, 51696),
+  (3301876, 'Iguaba Grande', 'RJ', -22.8495, -42.2299, 27920),
+  (3301900, 'Itaboraí', 'RJ', -22.7565, -42.8639, 224267),
+  (3302007, 'Itaguaí', 'RJ', -22.8636, -43.7798, 116841),
+  (3302056, 'Italva', 'RJ', -21.4296, -41.7014, 14073),
+  (3302106, 'Itaocara', 'RJ', -21.6748, -42.0758, 22919),
+  (3302205, 'Itaperuna', 'RJ', -21.1997, -41.8799, 101041),
+  (3302254, 'Itatiaia', 'RJ', -22.4897, -44.5675, 30908),
+  (3302270, 'Japeri', 'RJ', -22.6435, -43.6602, 96289),
+  (3302304, 'Laje do Muriaé', 'RJ', -21.2091, -42.1271, 7336),
+  (3302403, 'Macaé', 'RJ', -22.3768, -41.7848, 246391),
+  (3302452, 'Macuco', 'RJ', -21.9813, -42.2533, 5415),
+  (3302502, 'Magé', 'RJ', -22.6632, -43.0315, 228127),
+  (3302601, 'Mangaratiba', 'RJ', -22.9594, -44.0409, 41220),
+  (3302700, 'Maricá', 'RJ', -22.9354, -42.8246, 197277),
+  (3302809, 'Mendes', 'RJ', -22.5245, -43.7312, 17502),
+  (3302858, 'Mesquita', 'RJ', -22.8028, -43.4601, 167127),
+  (3302908, 'Miguel Pereira', 'RJ', -22.4572, -43.4803, 26582),
+  (3303005, 'Miracema', 'RJ', -21.4148, -42.1938, 26881),
+  (3303104, 'Natividade', 'RJ', -21.039, -41.9697, 15074),
+  (3303203, 'Nilópolis', 'RJ', -22.8057, -43.4233, 146774),
+  (3303302, 'Niterói', 'RJ', -22.8832, -43.1034, 481749),
+  (3303401, 'Nova Friburgo', 'RJ', -22.2932, -42.5377, 189939),
+  (3303500, 'Nova Iguaçu', 'RJ', -22.7556, -43.4603, 785867),
+  (3303609, 'Paracambi', 'RJ', -22.6078, -43.7108, 41375),
+  (3303708, 'Paraíba do Sul', 'RJ', -22.1585, -43.304, 42063),
+  (3303807, 'Paraty', 'RJ', -23.2221, -44.7175, 45243),
+  (3303856, 'Paty do Alferes', 'RJ', -22.4309, -43.4285, 29619),
+  (3303906, 'Petrópolis', 'RJ', -22.52, -43.1926, 278881),
+  (3303955, 'Pinheiral', 'RJ', -22.5172, -44.0022, 24298),
+  (3304003, 'Piraí', 'RJ', -22.6215, -43.9081, 27474),
+  (3304102, 'Porciúncula', 'RJ', -20.9632, -42.0465, 17288),
+  (3304110, 'Porto Real', 'RJ', -22.4175, -44.2952, 20373),
+  (3304128, 'Quatis', 'RJ', -22.4045, -44.2597, 13682),
+  (3304144, 'Queimados', 'RJ', -22.7102, -43.5518, 140523),
+  (3304151, 'Quissamã', 'RJ', -22.1031, -41.4693, 22393),
+  (3304201, 'Resende', 'RJ', -22.4705, -44.4509, 129612),
+  (3304300, 'Rio Bonito', 'RJ', -22.7181, -42.6276, 56276),
+  (3304409, 'Rio Claro', 'RJ', -22.72, -44.1419, 17401),
+  (3304508, 'Rio das Flores', 'RJ', -22.1692, -43.5856, 8954),
+  (3304524, 'Rio das Ostras', 'RJ', -22.5174, -41.9475, 156491),
+  (3304557, 'Rio de Janeiro', 'RJ', -22.9129, -43.2003, 6211223),
+  (3304607, 'Santa Maria Madalena', 'RJ', -21.9547, -42.0098, 10232),
+  (3304706, 'Santo Antônio de Pádua', 'RJ', -21.541, -42.1832, 41325),
+  (3304755, 'São Francisco de Itabapoana', 'RJ', -21.4702, -41.1091, 45059),
+  (3304805, 'São Fidélis', 'RJ', -21.6551, -41.756, 38961),
+  (3304904, 'São Gonçalo', 'RJ', -22.8268, -43.0634, 896744),
+  (3305000, 'São João da Barra', 'RJ', -21.638, -41.0446, 36573),
+  (3305109, 'São João de Meriti', 'RJ', -22.8058, -43.3729, 440962),
+  (3305133, 'São José de Ubá', 'RJ', -21.3661, -41.9511, 7070),
+  (3305158, 'São José do Vale do Rio Preto', 'RJ', -22.1525, -42.9327, 22080),
+  (3305208, 'São Pedro da Aldeia', 'RJ', -22.8429, -42.1026, 104029),
+  (3305307, 'São Sebastião do Alto', 'RJ', -21.9578, -42.1328, 7750),
+  (3305406, 'Sapucaia', 'RJ', -21.9949, -42.9142, 17729),
+  (3305505, 'Saquarema', 'RJ', -22.9292, -42.5099, 89559),
+  (3305554, 'Seropédica', 'RJ', -22.7526, -43.7155, 80596),
+  (3305604, 'Silva Jardim', 'RJ', -22.6574, -42.3961, 21352),
+  (3305703, 'Sumidouro', 'RJ', -22.0485, -42.6761, 15206),
+  (3305752, 'Tanguá', 'RJ', -22.7423, -42.7202, 31086),
+  (3305802, 'Teresópolis', 'RJ', -22.4165, -42.9752, 165123),
+  (3305901, 'Trajano de Moraes', 'RJ', -22.0638, -42.0643, 10302),
+  (3306008, 'Três Rios', 'RJ', -22.1165, -43.2185, 78346),
+  (3306107, 'Valença', 'RJ', -22.2445, -43.7129, 68088),
+  (3306156, 'Varre-Sai', 'RJ', -20.9276, -41.8701, 10207),
+  (3306206, 'Vassouras', 'RJ', -22.4059, -43.6686, 33976),
+  (3306305, 'Volta Redonda', 'RJ', -22.5202, -44.0996, 261563),
+  (3500105, 'Adamantina', 'SP', -21.682, -51.0737, 34687),
+  (3500204, 'Adolfo', 'SP', -21.2325, -49.6451, 4351),
+  (3500303, 'Aguaí', 'SP', -22.0572, -46.9735, 32072),
+  (3500402, 'Águas da Prata', 'SP', -21.9319, -46.7176, 7369),
+  (3500501, 'Águas de Lindóia', 'SP', -22.4733, -46.6314, 17930),
+  (3500550, 'Águas de Santa Bárbara', 'SP', -22.8812, -49.2421, 7177),
+  (3500600, 'Águas de São Pedro', 'SP', -22.5977, -47.8734, 2780),
+  (3500709, 'Agudos', 'SP', -22.4694, -48.9863, 37680),
+  (3500758, 'Alambari', 'SP', -23.5503, -47.898, 6141),
+  (3500808, 'Alfredo Marcondes', 'SP', -21.9527, -51.414, 4445),
+  (3500907, 'Altair', 'SP', -20.5242, -49.0571, 3451),
+  (3501004, 'Altinópolis', 'SP', -21.0214, -47.3712, 16818),
+  (3501103, 'Alto Alegre', 'SP', -21.5811, -50.168, 3841),
+  (3501152, 'Alumínio', 'SP', -23.5306, -47.2546, 17301),
+  (3501202, 'Álvares Florence', 'SP', -20.3203, -49.9141, 3915),
+  (3501301, 'Álvares Machado', 'SP', -22.0764, -51.4722, 27255),
+  (3501400, 'Álvaro de Carvalho', 'SP', -22.0841, -49.719, 4808),
+  (3501509, 'Alvinlândia', 'SP', -22.4435, -49.7623, 2885),
+  (3501608, 'Americana', 'SP', -22.7374, -47.3331, 237240),
+  (3501707, 'Américo Brasiliense', 'SP', -21.7288, -48.1147, 33019),
+  (3501806, 'Américo de Campos', 'SP', -20.2985, -49.7359, 5870),
+  (3501905, 'Amparo', 'SP', -22.7088, -46.772, 68008),
+  (3502002, 'Analândia', 'SP', -22.1289, -47.6619, 4589),
+  (3502101, 'Andradina', 'SP', -20.8948, -51.3786, 59783),
+  (3502200, 'Angatuba', 'SP', -23.4917, -48.4139, 24022),
+  (3502309, 'Anhembi', 'SP', -22.793, -48.1336, 5674),
+  (3502408, 'Anhumas', 'SP', -22.2934, -51.3895, 4023),
+  (3502507, 'Aparecida', 'SP', -22.8495, -45.2325, 32569),
+  (3502606, 'Aparecida d''Oeste', 'SP', -20.4487, -50.8835, 4086),
+  (3502705, 'Apiaí', 'SP', -24.5108, -48.8443, 24585),
+  (3502754, 'Araçariguama', 'SP', -23.4366, -47.0608, 21522),
+  (3502804, 'Araçatuba', 'SP', -21.2076, -50.4401, 200124),
+  (3502903, 'Araçoiaba da Serra', 'SP', -23.5029, -47.6166, 32443),
+  (3503000, 'Aramina', 'SP', -20.0882, -47.7873, 5420),
+  (3503109, 'Arandu', 'SP', -23.1386, -49.0487, 6885),
+  (3503158, 'Arapeí', 'SP', -22.6717, -44.4441, 2330),
+  (3503208, 'Araraquara', 'SP', -21.7845, -48.178, 242228),
+  (3503307, 'Araras', 'SP', -22.3572, -47.3842, 130866),
+  (3503356, 'Arco-Íris', 'SP', -21.7728, -50.466, 2044),
+  (3503406, 'Arealva', 'SP', -22.031, -48.9135, 8130),
+  (3503505, 'Areias', 'SP', -22.5786, -44.6992, 3577),
+  (3503604, 'Areiópolis', 'SP', -22.6672, -48.6681, 10130),
+  (3503703, 'Ariranha', 'SP', -21.1872, -48.7904, 7602),
+  (3503802, 'Artur Nogueira', 'SP', -22.5727, -47.1727, 51456),
+  (3503901, 'Arujá', 'SP', -23.3965, -46.32, 86678),
+  (3503950, 'Aspásia', 'SP', -20.16, -50.728, 1842),
+  (3504008, 'Assis', 'SP', -22.66, -50.4183, 101409),
+  (3504107, 'Atibaia', 'SP', -23.1171, -46.5563, 158647),
+  (3504206, 'Auriflama', 'SP', -20.6836, -50.5572, 13692),
+  (3504305, 'Avaí', 'SP', -22.1514, -49.3356, 4483),
+  (3504404, 'Avanhandava', 'SP', -21.4584, -49.9509, 11263),
+  (3504503, 'Avaré', 'SP', -23.1067, -48.9251, 92805),
+  (3504602, 'Bady Bassitt', 'SP', -20.9197, -49.4385, 27260),
+  (3504701, 'Balbinos', 'SP', -21.8963, -49.3619, 3887),
+  (3504800, 'Bálsamo', 'SP', -20.7348, -49.5865, 9596),
+  (3504909, 'Bananal', 'SP', -22.6819, -44.3281, 9969),
+  (3505005, 'Barão de Antonina', 'SP', -23.6284, -49.5634, 3531),
+  (3505104, 'Barbosa', 'SP', -21.2657, -49.9518, 5640),
+  (3505203, 'Bariri', 'SP', -22.073, -48.7438, 31595),
+  (3505302, 'Barra Bonita', 'SP', -22.4909, -48.5583, 34346),
+  (3505351, 'Barra do Chapéu', 'SP', -24.4722, -49.0238, 5179),
+  (3505401, 'Barra do Turvo', 'SP', -24.759, -48.5013, 6876),
+  (3505500, 'Barretos', 'SP', -20.5531, -48.5698, 122485),
+  (3505609, 'Barrinha', 'SP', -21.1864, -48.1636, 32092),
+  (3505708, 'Barueri', 'SP', -23.5057, -46.879, 316473),
+  (3505807, 'Bastos', 'SP', -21.921, -50.7357, 21503),
+  (3505906, 'Batatais', 'SP', -20.8929, -47.5921, 58402),
+  (3506003, 'Bauru', 'SP', -22.3246, -49.0871, 379146),
+  (3506102, 'Bebedouro', 'SP', -20.9491, -48.4791, 76373),
+  (3506201, 'Bento de Abreu', 'SP', -21.2686, -50.814, 2606),
+  (3506300, 'Bernardino de Campos', 'SP', -23.0164, -49.4679, 11607),
+  (3506359, 'Bertioga', 'SP', -23.8486, -46.1396, 64188),
+  (3506409, 'Bilac', 'SP', -21.404, -50.4746, 7319),
+  (3506508, 'Birigui', 'SP', -21.291, -50.3432, 118979),
+  (3506607, 'Biritiba Mirim', 'SP', -23.5698, -46.0407, 29683),
+  (3506706, 'Boa Esperança do Sul', 'SP', -21.9918, -48.3906, 12978),
+  (3506805, 'Bocaina', 'SP', -22.1365, -48.523, 11259),
+  (3506904, 'Bofete', 'SP', -23.1055, -48.2582, 10460),
+  (3507001, 'Boituva', 'SP', -23.2855, -47.6786, 61081),
+  (3507100, 'Bom Jesus dos Perdões', 'SP', -23.1356, -46.4675, 22006),
+  (3507159, 'Bom Sucesso de Itararé', 'SP', -24.3155, -49.1451, 3555),
+  (3507209, 'Borá', 'SP', -22.2696, -50.5409, 907),
+  (3507308, 'Boracéia', 'SP', -22.1926, -48.7808, 4715),
+  (3507407, 'Borborema', 'SP', -21.6214, -49.0741, 14226),
+  (3507456, 'Borebi', 'SP', -22.5728, -48.9707, 2713),
+  (3507506, 'Botucatu', 'SP', -22.8837, -48.4437, 145155),
+  (3507605, 'Bragança Paulista', 'SP', -22.9527, -46.5419, 176811),
+  (3507704, 'Braúna', 'SP', -21.499, -50.3175, 5356),
+  (3507753, 'Brejo Alegre', 'SP', -21.1651, -50.1861, 2565),
+  (3507803, 'Brodowski', 'SP', -20.9845, -47.6572, 25201),
+  (3507902, 'Brotas', 'SP', -22.2795, -48.1251, 23898),
+  (3508009, 'Buri', 'SP', -23.7977, -48.5958, 20250),
+  (3508108, 'Buritama', 'SP', -21.0661, -50.1475, 17210),
+  (3508207, 'Buritizal', 'SP', -20.1911, -47.7096, 4356),
+  (3508306, 'Cabrália Paulista', 'SP', -22.4576, -49.3393, 4299),
+  (3508405, 'Cabreúva', 'SP', -23.3053, -47.1362, 47011),
+  (3508504, 'Caçapava', 'SP', -23.0992, -45.7076, 96202),
+  (3508603, 'Cachoeira Paulista', 'SP', -22.6665, -45.0154, 31564),
+  (3508702, 'Caconde', 'SP', -21.528, -46.6437, 17101),
+  (3508801, 'Cafelândia', 'SP', -21.8031, -49.6092, 16654),
+  (3508900, 'Caiabu', 'SP', -22.0127, -51.2394, 3712),
+  (3509007, 'Caieiras', 'SP', -23.3607, -46.7397, 95032),
+  (3509106, 'Caiuá', 'SP', -21.8322, -51.9969, 5466),
+  (3509205, 'Cajamar', 'SP', -23.355, -46.8781, 92689),
+  (3509254, 'Cajati', 'SP', -24.7324, -48.1223, 28515),
+  (3509304, 'Cajobi', 'SP', -20.8773, -48.8063, 9133),
+  (3509403, 'Cajuru', 'SP', -21.2749, -47.303, 23830),
+  (3509452, 'Campina do Monte Alegre', 'SP', -23.5895, -48.4758, 5954),
+  (3509502, 'Campinas', 'SP', -22.9053, -47.0659, 1139047),
+  (3509601, 'Campo Limpo Paulista', 'SP', -23.2078, -46.7889, 77632),
+  (3509700, 'Campos do Jordão', 'SP', -22.7296, -45.5833, 46974),
+  (3509809, 'Campos Novos Paulista', 'SP', -22.602, -49.9987, 4888),
+  (3509908, 'Cananéia', 'SP', -25.0144, -47.9341, 12289),
+  (3509957, 'Canas', 'SP', -22.7003, -45.0521, 4931),
+  (3510005, 'Cândido Mota', 'SP', -22.7471, -50.3873, 29449),
+  (3510104, 'Cândido Rodrigues', 'SP', -21.3275, -48.6327, 2889),
+  (3510153, 'Canitar', 'SP', -23.004, -49.7839, 6283),
+  (3510203, 'Capão Bonito', 'SP', -24.0113, -48.3482, 46337),
+  (3510302, 'Capela do Alto', 'SP', -23.4685, -47.7388, 22866),
+  (3510401, 'Capivari', 'SP', -22.9951, -47.5071, 50068),
+  (3510500, 'Caraguatatuba', 'SP', -23.6125, -45.4125, 134873),
+  (3510609, 'Carapicuíba', 'SP', -23.5235, -46.8407, 386984),
+  (3510708, 'Cardoso', 'SP', -20.08, -49.9183, 11345),
+  (3510807, 'Casa Branca', 'SP', -21.7708, -47.0852, 28083),
+  (3510906, 'Cássia dos Coqueiros', 'SP', -21.2801, -47.1643, 2799),
+  (3511003, 'Castilho', 'SP', -20.8689, -51.4884, 19977),
+  (3511102, 'Catanduva', 'SP', -21.1314, -48.977, 115791),
+  (3511201, 'Catiguá', 'SP', -21.0519, -49.0616, 7003),
+  (3511300, 'Cedral', 'SP', -20.9009, -49.2664, 12618),
+  (3511409, 'Cerqueira César', 'SP', -23.038, -49.1655, 21469),
+  (3511508, 'Cerquilho', 'SP', -23.1665, -47.7459, 44695),
+  (3511607, 'Cesário Lange', 'SP', -23.226, -47.9545, 19048),
+  (3511706, 'Charqueada', 'SP', -22.5096, -47.7755, 15535),
+  (3511904, 'Clementina', 'SP', -21.5604, -50.4525, 6982),
+  (3512001, 'Colina', 'SP', -20.7114, -48.5387, 18486),
+  (3512100, 'Colômbia', 'SP', -20.1768, -48.6865, 6629),
+  (3512209, 'Conchal', 'SP', -22.3375, -47.1729, 28101),
+  (3512308, 'Conchas', 'SP', -23.0154, -48.0134, 15232),
+  (3512407, 'Cordeirópolis', 'SP', -22.4778, -47.4519, 24514),
+  (3512506, 'Coroados', 'SP', -21.3521, -50.2859, 5400),
+  (3512605, 'Coronel Macedo', 'SP', -23.6261, -49.31, 4280),
+  (3512704, 'Corumbataí', 'SP', -22.2213, -47.6215, 4195),
+  (3512803, 'Cosmópolis', 'SP', -22.6419, -47.1926, 59773),
+  (3512902, 'Cosmorama', 'SP', -20.4755, -49.7827, 8719),
+  (3513009, 'Cotia', 'SP', -23.6022, -46.919, 274413),
+  (3513108, 'Cravinhos', 'SP', -21.338, -47.7324, 33281),
+  (3513207, 'Cristais Paulista', 'SP', -20.4036, -47.4209, 9272),
+  (3513306, 'Cruzália', 'SP', -22.7373, -50.7909, 2108),
+  (3513405, 'Cruzeiro', 'SP', -22.5728, -44.969, 74961),
+  (3513504, 'Cubatão', 'SP', -23.8911, -46.424, 112476),
+  (3513603, 'Cunha', 'SP', -23.0731, -44.9576, 22110),
+  (3513702, 'Descalvado', 'SP', -21.9002, -47.6181, 31756),
+  (3513801, 'Diadema', 'SP', -23.6813, -46.6205, 393237),
+  (3513850, 'Dirce Reis', 'SP', -20.4642, -50.6073, 1620),
+  (3513900, 'Divinolândia', 'SP', -21.6637, -46.7361, 11158),
+  (3514007, 'Dobrada', 'SP', -21.5155, -48.3935, 8759),
+  (3514106, 'Dois Córregos', 'SP', -22.3673, -48.3819, 24510),
+  (3514205, 'Dolcinópolis', 'SP', -20.124, -50.5149, 2207),
+  (3514304, 'Dourado', 'SP', -22.1044, -48.3178, 8096),
+  (3514403, 'Dracena', 'SP', -21.4843, -51.535, 45474),
+  (3514502, 'Duartina', 'SP', -22.4146, -49.4084, 12328),
+  (3514601, 'Dumont', 'SP', -21.2324, -47.9756, 9471),
+  (3514700, 'Echaporã', 'SP', -22.4326, -50.2038, 6205),
+  (3514809, 'Eldorado', 'SP', -24.5281, -48.1141, 13069),
+  (3514908, 'Elias Fausto', 'SP', -23.0428, -47.3682, 17699),
+  (3514924, 'Elisiário', 'SP', -21.1678, -49.1146, 3138),
+  (3514957, 'Embaúba', 'SP', -20.9796, -48.8325, 2323),
+  (3515004, 'Embu das Artes', 'SP', -23.6437, -46.8579, 250691),
+  (3515103, 'Embu-Guaçu', 'SP', -23.8297, -46.8136, 66970),
+  (3515129, 'Emilianópolis', 'SP', -21.8314, -51.4832, 3014),
+  (3515152, 'Engenheiro Coelho', 'SP', -22.4836, -47.211, 19566),
+  (3515186, 'Espírito Santo do Pinhal', 'SP', -22.1909, -46.7477, 39816),
+  (3515194, 'Espírito Santo do Turvo', 'SP', -22.6925, -49.4341, 4157),
+  (3515202, 'Estrela d''Oeste', 'SP', -20.2875, -50.4049, 9417),
+  (3515301, 'Estrela do Norte', 'SP', -22.4859, -51.6632, 2703),
+  (3515350, 'Euclides da Cunha Paulista', 'SP', -22.5545, -52.5928, 7924),
+  (3515400, 'Fartura', 'SP', -23.3916, -49.5124, 16641),
+  (3515509, 'Fernandópolis', 'SP', -20.2806, -50.2471, 71186),
+  (3515608, 'Fernando Prestes', 'SP', -21.2661, -48.6874, 5942),
+  (3515657, 'Fernão', 'SP', -22.3607, -49.5187, 1656),
+  (3515707, 'Ferraz de Vasconcelos', 'SP', -23.5411, -46.371, 179198),
+  (3515806, 'Flora Rica', 'SP', -21.6727, -51.3821, 1487),
+  (3515905, 'Floreal', 'SP', -20.6752, -50.1513, 2733),
+  (3516002, 'Flórida Paulista', 'SP', -21.6127, -51.1724, 12958),
+  (3516101, 'Florínea', 'SP', -22.868, -50.6814, 3851),
+  (3516200, 'Franca', 'SP', -20.5352, -47.4039, 352536),
+  (3516309, 'Francisco Morato', 'SP', -23.2792, -46.7448, 165139),
+  (3516408, 'Franco da Rocha', 'SP', -23.3229, -46.729, 144849),
+  (3516507, 'Gabriel Monteiro', 'SP', -21.5294, -50.5573, 2763),
+  (3516606, 'Gália', 'SP', -22.2918, -49.5504, 6380),
+  (3516705, 'Garça', 'SP', -22.2125, -49.6546, 42110),
+  (3516804, 'Gastão Vidigal', 'SP', -20.7948, -50.1912, 3252),
+  (3516853, 'Gavião Peixoto', 'SP', -21.8367, -48.4957, 4702),
+  (3516903, 'General Salgado', 'SP', -20.6485, -50.364, 10312),
+  (3517000, 'Getulina', 'SP', -21.7961, -49.9312, 10232),
+  (3517109, 'Glicério', 'SP', -21.3812, -50.2123, 4138),
+  (3517208, 'Guaiçara', 'SP', -21.6195, -49.8013, 11239),
+  (3517307, 'Guaimbê', 'SP', -21.9091, -49.8986, 5512),
+  (3517406, 'Guaíra', 'SP', -20.3196, -48.312, 39279),
+  (3517505, 'Guapiaçu', 'SP', -20.7959, -49.2172, 21711),
+  (3517604, 'Guapiara', 'SP', -24.1892, -48.5295, 17071),
+  (3517703, 'Guará', 'SP', -20.4302, -47.8236, 18606),
+  (3517802, 'Guaraçaí', 'SP', -21.0292, -51.2119, 7441),
+  (3517901, 'Guaraci', 'SP', -20.4977, -48.9391, 10350),
+  (3518008, 'Guarani d''Oeste', 'SP', -20.0746, -50.3411, 1968),
+  (3518107, 'Guarantã', 'SP', -21.8942, -49.5914, 6427),
+  (3518206, 'Guararapes', 'SP', -21.2544, -50.6453, 31043),
+  (3518305, 'Guararema', 'SP', -23.4112, -46.0369, 31236),
+  (3518404, 'Guaratinguetá', 'SP', -22.8075, -45.1938, 118044),
+  (3518503, 'Guareí', 'SP', -23.3714, -48.1837, 15013),
+  (3518602, 'Guariba', 'SP', -21.3594, -48.2316, 37498),
+  (3518701, 'Guarujá', 'SP', -23.9888, -46.258, 287634),
+  (3518800, 'Guarulhos', 'SP', -23.4538, -46.5333, 1291771),
+  (3518859, 'Guatapará', 'SP', -21.4944, -48.0356, 7320),
+  (3518909, 'Guzolândia', 'SP', -20.6467, -50.6645, 4246),
+  (3519006, 'Herculândia', 'SP', -22.0038, -50.3907, 9125),
+  (3519055, 'Holambra', 'SP', -22.6405, -47.0487, 15094),
+  (3519071, 'Hortolândia', 'SP', -22.8529, -47.2143, 236641),
+  (3519105, 'Iacanga', 'SP', -21.8896, -49.031, 10437),
+  (3519204, 'Iacri', 'SP', -21.8572, -50.6932, 6131),
+  (3519253, 'Iaras', 'SP', -22.8682, -49.1634, 8010),
+  (3519303, 'Ibaté', 'SP', -21.9584, -47.9882, 32178),
+  (3519402, 'Ibirá', 'SP', -21.083, -49.2448, 11690),
+  (3519501, 'Ibirarema', 'SP', -22.8185, -50.0739, 6385),
+  (3519600, 'Ibitinga', 'SP', -21.7562, -48.8319, 60033),
+  (3519709, 'Ibiúna', 'SP', -23.6596, -47.223, 75605),
+  (3519808, 'Icém', 'SP', -20.3391, -49.1915, 7819),
+  (3519907, 'Iepê', 'SP', -22.6602, -51.0779, 7619),
+  (3520004, 'Igaraçu do Tietê', 'SP', -22.509, -48.5597, 23106),
+  (3520103, 'Igarapava', 'SP', -20.0407, -47.7466, 26212),
+  (3520202, 'Igaratá', 'SP', -23.2037, -46.157, 10605),
+  (3520301, 'Iguape', 'SP', -24.699, -47.5537, 29115),
+  (3520400, 'Ilhabela', 'SP', -23.7785, -45.3552, 34934);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (3520426, 'Ilha Comprida', 'SP', -24.7307, -47.5383, 13419),
+  (3520442, 'Ilha Solteira', 'SP', -20.4326, -51.3426, 25549),
+  (3520509, 'Indaiatuba', 'SP', -23.0816, -47.2101, 255748),
+  (3520608, 'Indiana', 'SP', -22.1738, -51.2555, 5090),
+  (3520707, 'Indiaporã', 'SP', -19.979, -50.2909, 4035),
+  (3520806, 'Inúbia Paulista', 'SP', -21.7695, -50.9633, 3615),
+  (3520905, 'Ipaussu', 'SP', -23.0575, -49.6279, 13712),
+  (3521002, 'Iperó', 'SP', -23.3513, -47.6927, 36459),
+  (3521101, 'Ipeúna', 'SP', -22.4355, -47.7151, 6831),
+  (3521150, 'Ipiguá', 'SP', -20.6557, -49.3842, 6761),
+  (3521200, 'Iporanga', 'SP', -24.5847, -48.5971, 4046),
+  (3521309, 'Ipuã', 'SP', -20.4438, -48.0129, 14454),
+  (3521408, 'Iracemápolis', 'SP', -22.5832, -47.523, 21967),
+  (3521507, 'Irapuã', 'SP', -21.2768, -49.4164, 6867),
+  (3521606, 'Irapuru', 'SP', -21.5684, -51.3472, 7085),
+  (3521705, 'Itaberá', 'SP', -23.8638, -49.14, 17983),
+  (3521804, 'Itaí', 'SP', -23.4213, -49.092, 25180),
+  (3521903, 'Itajobi', 'SP', -21.3123, -49.0629, 16989),
+  (3522000, 'Itaju', 'SP', -21.9857, -48.8116, 3618),
+  (3522109, 'Itanhaém', 'SP', -24.1736, -46.788, 112476),
+  (3522158, 'Itaoca', 'SP', -24.6393, -48.8413, 3422),
+  (3522208, 'Itapecerica da Serra', 'SP', -23.7161, -46.8572, 158522),
+  (3522307, 'Itapetininga', 'SP', -23.5886, -48.0483, 157790),
+  (3522406, 'Itapeva', 'SP', -23.9788, -48.8764, 89728),
+  (3522505, 'Itapevi', 'SP', -23.5488, -46.9327, 232297),
+  (3522604, 'Itapira', 'SP', -22.4357, -46.8224, 72022),
+  (3522653, 'Itapirapuã Paulista', 'SP', -24.572, -49.1661, 4306),
+  (3522703, 'Itápolis', 'SP', -21.5942, -48.8149, 39493),
+  (3522802, 'Itaporanga', 'SP', -23.7043, -49.4819, 14085),
+  (3522901, 'Itapuí', 'SP', -22.2324, -48.7197, 13659),
+  (3523008, 'Itapura', 'SP', -20.6419, -51.5063, 3979),
+  (3523107, 'Itaquaquecetuba', 'SP', -23.4835, -46.3457, 369275),
+  (3523206, 'Itararé', 'SP', -24.1085, -49.3352, 44438),
+  (3523305, 'Itariri', 'SP', -24.2834, -47.1736, 15528),
+  (3523404, 'Itatiba', 'SP', -23.0035, -46.8464, 121590),
+  (3523503, 'Itatinga', 'SP', -23.1047, -48.6157, 19070),
+  (3523602, 'Itirapina', 'SP', -22.2562, -47.8166, 16148),
+  (3523701, 'Itirapuã', 'SP', -20.6416, -47.2194, 5779),
+  (3523800, 'Itobi', 'SP', -21.7309, -46.9743, 8046),
+  (3523909, 'Itu', 'SP', -23.2544, -47.2927, 168240),
+  (3524006, 'Itupeva', 'SP', -23.1526, -47.0593, 70616),
+  (3524105, 'Ituverava', 'SP', -20.3355, -47.7902, 37571),
+  (3524204, 'Jaborandi', 'SP', -20.6884, -48.4112, 6221),
+  (3524303, 'Jaboticabal', 'SP', -21.252, -48.3252, 71821),
+  (3524402, 'Jacareí', 'SP', -23.2983, -45.9658, 240275),
+  (3524501, 'Jaci', 'SP', -20.8805, -49.5797, 7613),
+  (3524600, 'Jacupiranga', 'SP', -24.6963, -48.0064, 16097),
+  (3524709, 'Jaguariúna', 'SP', -22.7037, -46.9851, 59347),
+  (3524808, 'Jales', 'SP', -20.2672, -50.5494, 48776),
+  (3524907, 'Jambeiro', 'SP', -23.2522, -45.6942, 6397),
+  (3525003, 'Jandira', 'SP', -23.5275, -46.9023, 118045),
+  (3525102, 'Jardinópolis', 'SP', -21.0176, -47.7606, 45282),
+  (3525201, 'Jarinu', 'SP', -23.1039, -46.728, 37535),
+  (3525300, 'Jaú', 'SP', -22.2936, -48.5592, 133497),
+  (3525409, 'Jeriquara', 'SP', -20.3116, -47.5918, 3863),
+  (3525508, 'Joanópolis', 'SP', -22.927, -46.2741, 12815),
+  (3525607, 'João Ramalho', 'SP', -22.2473, -50.7694, 4371),
+  (3525706, 'José Bonifácio', 'SP', -21.0551, -49.6892, 36633),
+  (3525805, 'Júlio Mesquita', 'SP', -22.0112, -49.7873, 4254),
+  (3525854, 'Jumirim', 'SP', -23.0884, -47.7868, 3056),
+  (3525904, 'Jundiaí', 'SP', -23.1852, -46.8974, 443221),
+  (3526001, 'Junqueirópolis', 'SP', -21.5103, -51.4342, 20448),
+  (3526100, 'Juquiá', 'SP', -24.3101, -47.6426, 17154),
+  (3526209, 'Juquitiba', 'SP', -23.9244, -47.0653, 27404),
+  (3526308, 'Lagoinha', 'SP', -23.0846, -45.1944, 5083),
+  (3526407, 'Laranjal Paulista', 'SP', -23.0506, -47.8375, 26261),
+  (3526506, 'Lavínia', 'SP', -21.1639, -51.0412, 9689),
+  (3526605, 'Lavrinhas', 'SP', -22.57, -44.9024, 7171),
+  (3526704, 'Leme', 'SP', -22.1809, -47.3841, 98161),
+  (3526803, 'Lençóis Paulista', 'SP', -22.6027, -48.8037, 66505),
+  (3526902, 'Limeira', 'SP', -22.566, -47.397, 291869),
+  (3527009, 'Lindóia', 'SP', -22.5226, -46.65, 7014),
+  (3527108, 'Lins', 'SP', -21.6718, -49.7526, 74779),
+  (3527207, 'Lorena', 'SP', -22.7334, -45.1197, 84855),
+  (3527256, 'Lourdes', 'SP', -20.966, -50.2263, 1950),
+  (3527306, 'Louveira', 'SP', -23.0856, -46.9484, 51847),
+  (3527405, 'Lucélia', 'SP', -21.7182, -51.0215, 20061),
+  (3527504, 'Lucianópolis', 'SP', -22.4294, -49.522, 2372),
+  (3527603, 'Luís Antônio', 'SP', -21.55, -47.7801, 12265),
+  (3527702, 'Luiziânia', 'SP', -21.6737, -50.3294, 4701),
+  (3527801, 'Lupércio', 'SP', -22.4146, -49.818, 3981),
+  (3527900, 'Lutécia', 'SP', -22.3384, -50.394, 2661),
+  (3528007, 'Macatuba', 'SP', -22.5002, -48.7102, 16829),
+  (3528106, 'Macaubal', 'SP', -20.8022, -49.9687, 7481),
+  (3528205, 'Macedônia', 'SP', -20.1444, -50.1973, 3963),
+  (3528304, 'Magda', 'SP', -20.6445, -50.2305, 3165),
+  (3528403, 'Mairinque', 'SP', -23.5398, -47.185, 50027),
+  (3528502, 'Mairiporã', 'SP', -23.3171, -46.5897, 93853),
+  (3528601, 'Manduri', 'SP', -23.0056, -49.3202, 9871),
+  (3528700, 'Marabá Paulista', 'SP', -22.1068, -51.9617, 4573),
+  (3528809, 'Maracaí', 'SP', -22.6149, -50.6713, 12673),
+  (3528858, 'Marapoama', 'SP', -21.2587, -49.13, 3292),
+  (3528908, 'Mariápolis', 'SP', -21.7959, -51.1824, 3513),
+  (3529005, 'Marília', 'SP', -22.2171, -49.9501, 237627),
+  (3529104, 'Marinópolis', 'SP', -20.4389, -50.8254, 1860),
+  (3529203, 'Martinópolis', 'SP', -22.1462, -51.1709, 24881),
+  (3529302, 'Matão', 'SP', -21.6025, -48.364, 79033),
+  (3529401, 'Mauá', 'SP', -23.6677, -46.4613, 418261),
+  (3529500, 'Mendonça', 'SP', -21.1757, -49.5791, 6159),
+  (3529609, 'Meridiano', 'SP', -20.3579, -50.1811, 4572),
+  (3529658, 'Mesópolis', 'SP', -19.9684, -50.6326, 1952),
+  (3529708, 'Miguelópolis', 'SP', -20.1796, -48.031, 19441),
+  (3529807, 'Mineiros do Tietê', 'SP', -22.412, -48.451, 11230),
+  (3529906, 'Miracatu', 'SP', -24.2766, -47.4625, 18553),
+  (3530003, 'Mira Estrela', 'SP', -19.9789, -50.139, 3126),
+  (3530102, 'Mirandópolis', 'SP', -21.1313, -51.1035, 27983),
+  (3530201, 'Mirante do Paranapanema', 'SP', -22.2904, -51.9084, 15917),
+  (3530300, 'Mirassol', 'SP', -20.8169, -49.5206, 63337),
+  (3530409, 'Mirassolândia', 'SP', -20.6179, -49.4617, 4669),
+  (3530508, 'Mococa', 'SP', -21.4647, -47.0024, 67681),
+  (3530607, 'Mogi das Cruzes', 'SP', -23.5208, -46.1854, 451505),
+  (3530706, 'Mogi Guaçu', 'SP', -22.3675, -46.9428, 153658),
+  (3530805, 'Mogi Mirim', 'SP', -22.4332, -46.9532, 92558),
+  (3530904, 'Mombuca', 'SP', -22.9285, -47.559, 3722),
+  (3531001, 'Monções', 'SP', -20.8509, -50.0975, 1937),
+  (3531100, 'Mongaguá', 'SP', -24.0809, -46.6265, 61951),
+  (3531209, 'Monte Alegre do Sul', 'SP', -22.6817, -46.681, 8627),
+  (3531308, 'Monte Alto', 'SP', -21.2655, -48.4971, 47574),
+  (3531407, 'Monte Aprazível', 'SP', -20.768, -49.7184, 22280),
+  (3531506, 'Monte Azul Paulista', 'SP', -20.9065, -48.6387, 18151),
+  (3531605, 'Monte Castelo', 'SP', -21.2981, -51.5679, 4222),
+  (3531704, 'Monteiro Lobato', 'SP', -22.9544, -45.8407, 4138),
+  (3531803, 'Monte Mor', 'SP', -22.945, -47.3122, 64662),
+  (3531902, 'Morro Agudo', 'SP', -20.7288, -48.0581, 27933),
+  (3532009, 'Morungaba', 'SP', -22.8811, -46.7896, 13720),
+  (3532058, 'Motuca', 'SP', -21.5103, -48.1538, 4034),
+  (3532108, 'Murutinga do Sul', 'SP', -20.9908, -51.2774, 3737),
+  (3532157, 'Nantes', 'SP', -22.6156, -51.24, 2660),
+  (3532207, 'Narandiba', 'SP', -22.4057, -51.5274, 5713),
+  (3532306, 'Natividade da Serra', 'SP', -23.3707, -45.4468, 6999),
+  (3532405, 'Nazaré Paulista', 'SP', -23.1747, -46.3983, 18217),
+  (3532504, 'Neves Paulista', 'SP', -20.843, -49.6358, 9699),
+  (3532603, 'Nhandeara', 'SP', -20.6945, -50.0436, 9852),
+  (3532702, 'Nipoã', 'SP', -20.9114, -49.7833, 4750),
+  (3532801, 'Nova Aliança', 'SP', -21.0156, -49.4986, 6693),
+  (3532827, 'Nova Campina', 'SP', -24.1224, -48.9022, 8497),
+  (3532843, 'Nova Canaã Paulista', 'SP', -20.3836, -50.9483, 2032),
+  (3532868, 'Nova Castilho', 'SP', -20.7615, -50.3477, 1062),
+  (3532900, 'Nova Europa', 'SP', -21.7765, -48.5705, 9311),
+  (3533007, 'Nova Granada', 'SP', -20.5321, -49.3123, 19419),
+  (3533106, 'Nova Guataporanga', 'SP', -21.332, -51.6447, 2156),
+  (3533205, 'Nova Independência', 'SP', -21.1026, -51.4905, 4609),
+  (3533254, 'Novais', 'SP', -20.9893, -48.9141, 4412),
+  (3533304, 'Nova Luzitânia', 'SP', -20.856, -50.2617, 2837),
+  (3533403, 'Nova Odessa', 'SP', -22.7832, -47.2941, 62019),
+  (3533502, 'Novo Horizonte', 'SP', -21.4651, -49.2234, 38324),
+  (3533601, 'Nuporanga', 'SP', -20.7296, -47.7429, 7391),
+  (3533700, 'Ocauçu', 'SP', -22.438, -49.922, 4331),
+  (3533809, 'Óleo', 'SP', -22.9435, -49.3419, 2512),
+  (3533908, 'Olímpia', 'SP', -20.7366, -48.9106, 55074),
+  (3534005, 'Onda Verde', 'SP', -20.6042, -49.2929, 4771),
+  (3534104, 'Oriente', 'SP', -22.1549, -50.0971, 6085),
+  (3534203, 'Orindiúva', 'SP', -20.1861, -49.3464, 6024),
+  (3534302, 'Orlândia', 'SP', -20.7169, -47.8852, 38319),
+  (3534401, 'Osasco', 'SP', -23.5324, -46.7916, 728615),
+  (3534500, 'Oscar Bressane', 'SP', -22.3149, -50.2811, 2470),
+  (3534609, 'Osvaldo Cruz', 'SP', -21.7968, -50.8793, 31272),
+  (3534708, 'Ourinhos', 'SP', -22.9797, -49.8697, 103970),
+  (3534757, 'Ouroeste', 'SP', -20.0061, -50.3768, 10294),
+  (3534807, 'Ouro Verde', 'SP', -21.4872, -51.7024, 7779),
+  (3534906, 'Pacaembu', 'SP', -21.5627, -51.2654, 14877),
+  (3535002, 'Palestina', 'SP', -20.39, -49.4309, 11476),
+  (3535101, 'Palmares Paulista', 'SP', -21.0854, -48.8037, 9650),
+  (3535200, 'Palmeira d''Oeste', 'SP', -20.4148, -50.7632, 8903),
+  (3535309, 'Palmital', 'SP', -22.7858, -50.218, 19594),
+  (3535408, 'Panorama', 'SP', -21.354, -51.8562, 14964),
+  (3535507, 'Paraguaçu Paulista', 'SP', -22.4114, -50.5732, 41120),
+  (3535606, 'Paraibuna', 'SP', -23.3872, -45.6639, 17667),
+  (3535705, 'Paraíso', 'SP', -21.0159, -48.7761, 6099),
+  (3535804, 'Paranapanema', 'SP', -23.3862, -48.7214, 19395),
+  (3535903, 'Paranapuã', 'SP', -20.1048, -50.5886, 4031),
+  (3536000, 'Parapuã', 'SP', -21.7792, -50.7949, 10580),
+  (3536109, 'Pardinho', 'SP', -23.0841, -48.3679, 7153),
+  (3536208, 'Pariquera-Açu', 'SP', -24.7147, -47.8742, 19233),
+  (3536257, 'Parisi', 'SP', -20.3034, -50.0163, 2892),
+  (3536307, 'Patrocínio Paulista', 'SP', -20.6384, -47.2801, 14512),
+  (3536406, 'Paulicéia', 'SP', -21.3153, -51.8321, 7955),
+  (3536505, 'Paulínia', 'SP', -22.7542, -47.1488, 110537),
+  (3536570, 'Paulistânia', 'SP', -22.5768, -49.4008, 2090),
+  (3536604, 'Paulo de Faria', 'SP', -20.0296, -49.4, 7400),
+  (3536703, 'Pederneiras', 'SP', -22.3511, -48.7781, 44827),
+  (3536802, 'Pedra Bela', 'SP', -22.7902, -46.4455, 6557),
+  (3536901, 'Pedranópolis', 'SP', -20.2474, -50.1129, 2787),
+  (3537008, 'Pedregulho', 'SP', -20.2535, -47.4775, 15525),
+  (3537107, 'Pedreira', 'SP', -22.7413, -46.8948, 43112),
+  (3537156, 'Pedrinhas Paulista', 'SP', -22.8174, -50.7933, 2804),
+  (3537206, 'Pedro de Toledo', 'SP', -24.2764, -47.2354, 11281),
+  (3537305, 'Penápolis', 'SP', -21.4148, -50.0769, 61679),
+  (3537404, 'Pereira Barreto', 'SP', -20.6368, -51.1123, 24095),
+  (3537503, 'Pereiras', 'SP', -23.0804, -47.972, 8737),
+  (3537602, 'Peruíbe', 'SP', -24.312, -47.0012, 68352),
+  (3537701, 'Piacatu', 'SP', -21.5921, -50.6003, 5519),
+  (3537800, 'Piedade', 'SP', -23.7139, -47.4256, 52970),
+  (3537909, 'Pilar do Sul', 'SP', -23.8077, -47.7222, 27619),
+  (3538006, 'Pindamonhangaba', 'SP', -22.9246, -45.4613, 165428),
+  (3538105, 'Pindorama', 'SP', -21.1853, -48.9086, 14542),
+  (3538204, 'Pinhalzinho', 'SP', -22.7811, -46.5897, 15224),
+  (3538303, 'Piquerobi', 'SP', -21.8747, -51.7282, 3264),
+  (3538501, 'Piquete', 'SP', -22.6069, -45.1869, 12490),
+  (3538600, 'Piracaia', 'SP', -23.0525, -46.3594, 26029),
+  (3538709, 'Piracicaba', 'SP', -22.7338, -47.6476, 423323),
+  (3538808, 'Piraju', 'SP', -23.1981, -49.3803, 29436),
+  (3538907, 'Pirajuí', 'SP', -21.999, -49.4608, 22431),
+  (3539004, 'Pirangi', 'SP', -21.0886, -48.6607, 10885),
+  (3539103, 'Pirapora do Bom Jesus', 'SP', -23.3965, -46.9991, 18370),
+  (3539202, 'Pirapozinho', 'SP', -22.2711, -51.4976, 25348),
+  (3539301, 'Pirassununga', 'SP', -21.996, -47.4257, 73545),
+  (3539400, 'Piratininga', 'SP', -22.4142, -49.1339, 15108),
+  (3539509, 'Pitangueiras', 'SP', -21.0132, -48.221, 33674),
+  (3539608, 'Planalto', 'SP', -21.0342, -49.933, 4389),
+  (3539707, 'Platina', 'SP', -22.6371, -50.2104, 3025),
+  (3539806, 'Poá', 'SP', -23.5333, -46.3473, 103765),
+  (3539905, 'Poloni', 'SP', -20.7829, -49.8258, 5592),
+  (3540002, 'Pompéia', 'SP', -22.107, -50.176, 20196),
+  (3540101, 'Pongaí', 'SP', -21.7396, -49.3604, 3395),
+  (3540200, 'Pontal', 'SP', -21.0216, -48.0423, 37607),
+  (3540259, 'Pontalinda', 'SP', -20.4396, -50.5258, 4127),
+  (3540309, 'Pontes Gestal', 'SP', -20.1727, -49.7064, 2387),
+  (3540408, 'Populina', 'SP', -19.9453, -50.538, 4127),
+  (3540507, 'Porangaba', 'SP', -23.1761, -48.1195, 10451),
+  (3540606, 'Porto Feliz', 'SP', -23.2093, -47.5251, 56497),
+  (3540705, 'Porto Ferreira', 'SP', -21.8498, -47.487, 52649),
+  (3540754, 'Potim', 'SP', -22.8343, -45.2552, 20392),
+  (3540804, 'Potirendaba', 'SP', -21.0428, -49.3815, 18496),
+  (3540853, 'Pracinha', 'SP', -21.8496, -51.0868, 2578),
+  (3540903, 'Pradópolis', 'SP', -21.3626, -48.0679, 17078),
+  (3541000, 'Praia Grande', 'SP', -24.0084, -46.4121, 349935),
+  (3541059, 'Pratânia', 'SP', -22.8112, -48.6636, 5126),
+  (3541109, 'Presidente Alves', 'SP', -22.0999, -49.4381, 3804),
+  (3541208, 'Presidente Bernardes', 'SP', -22.0082, -51.5565, 14490),
+  (3541307, 'Presidente Epitácio', 'SP', -21.7651, -52.1111, 39505),
+  (3541406, 'Presidente Prudente', 'SP', -22.1207, -51.3925, 225668),
+  (3541505, 'Presidente Venceslau', 'SP', -21.8732, -51.8447, 35201),
+  (3541604, 'Promissão', 'SP', -21.5356, -49.8599, 35131),
+  (3541653, 'Quadra', 'SP', -23.2993, -48.0547, 3405),
+  (3541703, 'Quatá', 'SP', -22.2456, -50.6966, 13163),
+  (3541802, 'Queiroz', 'SP', -21.7969, -50.2415, 3265),
+  (3541901, 'Queluz', 'SP', -22.5312, -44.7781, 9159),
+  (3542008, 'Quintana', 'SP', -22.0692, -50.307, 7038),
+  (3542107, 'Rafard', 'SP', -23.0105, -47.5318, 8965),
+  (3542206, 'Rancharia', 'SP', -22.2269, -50.893, 28588),
+  (3542305, 'Redenção da Serra', 'SP', -23.2638, -45.5422, 4494),
+  (3542404, 'Regente Feijó', 'SP', -22.2181, -51.3055, 20145),
+  (3542503, 'Reginópolis', 'SP', -21.8914, -49.2268, 7662),
+  (3542602, 'Registro', 'SP', -24.4979, -47.8449, 59947),
+  (3542701, 'Restinga', 'SP', -20.6056, -47.4833, 6404),
+  (3542800, 'Ribeira', 'SP', -24.6517, -49.0044, 3132),
+  (3542909, 'Ribeirão Bonito', 'SP', -22.0685, -48.182, 10989),
+  (3543006, 'Ribeirão Branco', 'SP', -24.2206, -48.7635, 18627),
+  (3543105, 'Ribeirão Corrente', 'SP', -20.4579, -47.5904, 4608),
+  (3543204, 'Ribeirão do Sul', 'SP', -22.789, -49.933, 4677),
+  (3543238, 'Ribeirão dos Índios', 'SP', -21.8382, -51.6103, 2025),
+  (3543253, 'Ribeirão Grande', 'SP', -24.1011, -48.3679, 7450),
+  (3543303, 'Ribeirão Pires', 'SP', -23.7067, -46.4058, 115559),
+  (3543402, 'Ribeirão Preto', 'SP', -21.1699, -47.8099, 698642),
+  (3543501, 'Riversul', 'SP', -23.829, -49.429, 5599),
+  (3543600, 'Rifaina', 'SP', -20.0803, -47.4291, 4049),
+  (3543709, 'Rincão', 'SP', -21.5894, -48.0728, 9098),
+  (3543808, 'Rinópolis', 'SP', -21.7284, -50.7239, 9259),
+  (3543907, 'Rio Claro', 'SP', -22.3984, -47.5546, 201418),
+  (3544004, 'Rio das Pedras', 'SP', -22.8417, -47.6047, 31328),
+  (3544103, 'Rio Grande da Serra', 'SP', -23.7437, -46.3971, 44170),
+  (3544202, 'Riolândia', 'SP', -19.9868, -49.6836, 10309),
+  (3544251, 'Rosana', 'SP', -22.5782, -53.0603, 17440),
+  (3544301, 'Roseira', 'SP', -22.8938, -45.307, 10832),
+  (3544400, 'Rubiácea', 'SP', -21.3006, -50.7296, 2700),
+  (3544509, 'Rubinéia', 'SP', -20.1759, -51.007, 3833),
+  (3544608, 'Sabino', 'SP', -21.4593, -49.5755, 5112),
+  (3544707, 'Sagres', 'SP', -21.8823, -50.9594, 2474),
+  (3544806, 'Sales', 'SP', -21.3427, -49.4897, 6437),
+  (3544905, 'Sales Oliveira', 'SP', -20.7696, -47.8369, 11411),
+  (3545001, 'Salesópolis', 'SP', -23.5288, -45.8465, 15202),
+  (3545100, 'Salmourão', 'SP', -21.6267, -50.8614, 4808),
+  (3545159, 'Saltinho', 'SP', -22.8442, -47.6754, 8161),
+  (3545209, 'Salto', 'SP', -23.1996, -47.2931, 134319),
+  (3545308, 'Salto de Pirapora', 'SP', -23.6474, -47.5743, 43748),
+  (3545407, 'Salto Grande', 'SP', -22.8894, -49.9831, 9050),
+  (3545506, 'Sandovalina', 'SP', -22.4551, -51.7648, 3645),
+  (3545605, 'Santa Adélia', 'SP', -21.2427, -48.8063, 14018),
+  (3545704, 'Santa Albertina', 'SP', -20.0311, -50.7297, 6393),
+  (3545803, 'Santa Bárbara d''Oeste', 'SP', -22.7553, -47.4143, 183347),
+  (3546009, 'Santa Branca', 'SP', -23.3933, -45.8875, 13975),
+  (3546108, 'Santa Clara d''Oeste', 'SP', -20.09, -50.9491, 2598),
+  (3546207, 'Santa Cruz da Conceição', 'SP', -22.1405, -47.4512, 4277),
+  (3546256, 'Santa Cruz da Esperança', 'SP', -21.2951, -47.4304, 2116),
+  (3546306, 'Santa Cruz das Palmeiras', 'SP', -21.8235, -47.248, 28864),
+  (3546405, 'Santa Cruz do Rio Pardo', 'SP', -22.8988, -49.6354, 46442),
+  (3546504, 'Santa Ernestina', 'SP', -21.4618, -48.3953, 6118),
+  (3546603, 'Santa Fé do Sul', 'SP', -20.2083, -50.932, 34794),
+  (3546702, 'Santa Gertrudes', 'SP', -22.4572, -47.5272, 23611),
+  (3546801, 'Santa Isabel', 'SP', -23.3172, -46.2237, 53174),
+  (3546900, 'Santa Lúcia', 'SP', -21.685, -48.0885, 7149),
+  (3547007, 'Santa Maria da Serra', 'SP', -22.5661, -48.1593, 5243),
+  (3547106, 'Santa Mercedes', 'SP', -21.3495, -51.7564, 2956),
+  (3547205, 'Santana da Ponte Pensa', 'SP', -20.2523, -50.8014, 1670),
+  (3547304, 'Santana de Parnaíba', 'SP', -23.4439, -46.9178, 154105),
+  (3547403, 'Santa Rita d''Oeste', 'SP', -20.1414, -50.8358, 2733),
+  (3547502, 'Santa Rita do Passa Quatro', 'SP', -21.7083, -47.478, 24833),
+  (3547601, 'Santa Rosa de Viterbo', 'SP', -21.4776, -47.3622, 23411),
+  (3547650, 'Santa Salete', 'SP', -20.2429, -50.6887, 1645),
+  (3547700, 'Santo Anastácio', 'SP', -21.9747, -51.6527, 17963),
+  (3547809, 'Santo André', 'SP', -23.6737, -46.5432, 748919),
+  (3547908, 'Santo Antônio da Alegria', 'SP', -21.0864, -47.1464, 6775),
+  (3548005, 'Santo Antônio de Posse', 'SP', -22.6029, -46.9192, 23244),
+  (3548054, 'Santo Antônio do Aracanguá', 'SP', -20.9331, -50.498, 8379),
+  (3548104, 'Santo Antônio do Jardim', 'SP', -22.1121, -46.6845, 6126),
+  (3548203, 'Santo Antônio do Pinhal', 'SP', -22.827, -45.663, 7133),
+  (3548302, 'Santo Expedito', 'SP', -21.8467, -51.3929, 3000),
+  (3548401, 'Santópolis do Aguapeí', 'SP', -21.6376, -50.5044, 3899),
+  (3548500, 'Santos', 'SP', -23.9535, -46.335, 418608),
+  (3548609, 'São Bento do Sapucaí', 'SP', -22.6837, -45.7287, 11674),
+  (3548708, 'São Bernardo do Campo', 'SP', -23.6914, -46.5646, 810729),
+  (3548807, 'São Caetano do Sul', 'SP', -23.6229, -46.5548, 165655),
+  (3548906, 'São Carlos', 'SP', -22.0174, -47.886, 254857),
+  (3549003, 'São Francisco', 'SP', -20.3623, -50.6952, 2602),
+  (3549102, 'São João da Boa Vista', 'SP', -21.9707, -46.7944, 92547),
+  (3549201, 'São João das Duas Pontes', 'SP', -20.3879, -50.3792, 2580),
+  (3549250, 'São João de Iracema', 'SP', -20.5111, -50.3561, 1846),
+  (3549300, 'São João do Pau d''Alho', 'SP', -21.2662, -51.6672, 2242),
+  (3549409, 'São Joaquim da Barra', 'SP', -20.5812, -47.8593, 48558),
+  (3549508, 'São José da Bela Vista', 'SP', -20.5935, -47.6424, 7626),
+  (3549607, 'São José do Barreiro', 'SP', -22.6414, -44.5774, 3853),
+  (3549706, 'São José do Rio Pardo', 'SP', -21.5953, -46.8873, 52205),
+  (3549805, 'São José do Rio Preto', 'SP', -20.8113, -49.3758, 480393),
+  (3549904, 'São José dos Campos', 'SP', -23.1896, -45.8841, 697054),
+  (3549953, 'São Lourenço da Serra', 'SP', -23.8491, -46.9432, 16067),
+  (3550001, 'São Luiz do Paraitinga', 'SP', -23.222, -45.3109, 10337),
+  (3550100, 'São Manuel', 'SP', -22.7321, -48.5723, 37289),
+  (3550209, 'São Miguel Arcanjo', 'SP', -23.8782, -47.9935, 32039),
+  (3550308, 'São Paulo', 'SP', -23.5329, -46.6395, 11451999),
+  (3550407, 'São Pedro', 'SP', -22.5483, -47.9096, 38256),
+  (3550506, 'São Pedro do Turvo', 'SP', -22.7453, -49.7428, 7217),
+  (3550605, 'São Roque', 'SP', -23.5226, -47.1357, 79484),
+  (3550704, 'São Sebastião', 'SP', -23.7951, -45.4143, 81595),
+  (3550803, 'São Sebastião da Grama', 'SP', -21.7041, -46.8208, 10441),
+  (3550902, 'São Simão', 'SP', -21.4732, -47.5518, 13442),
+  (3551009, 'São Vicente', 'SP', -23.9574, -46.3883, 329911),
+  (3551108, 'Sarapuí', 'SP', -23.6397, -47.8249, 10369),
+  (3551207, 'Sarutaiá', 'SP', -23.2721, -49.4763, 3704),
+  (3551306, 'Sebastianópolis do Sul', 'SP', -20.6523, -49.925, 3130),
+  (3551405, 'Serra Azul', 'SP', -21.3074, -47.5602, 12746),
+  (3551504, 'Serrana', 'SP', -21.2043, -47.5952, 43909),
+  (3551603, 'Serra Negra', 'SP', -22.6139, -46.7033, 29894),
+  (3551702, 'Sertãozinho', 'SP', -21.1316, -47.9875, 126887),
+  (3551801, 'Sete Barras', 'SP', -24.382, -47.9279, 12730),
+  (3551900, 'Severínia', 'SP', -20.8108, -48.8054, 14576),
+  (3552007, 'Silveiras', 'SP', -22.6638, -44.8522, 6186),
+  (3552106, 'Socorro', 'SP', -22.5903, -46.5251, 40122),
+  (3552205, 'Sorocaba', 'SP', -23.4969, -47.4451, 723682),
+  (3552304, 'Sud Mennucci', 'SP', -20.6872, -50.9238, 7355),
+  (3552403, 'Sumaré', 'SP', -22.8204, -47.2728, 279545),
+  (3552502, 'Suzano', 'SP', -23.5448, -46.3112, 307429),
+  (3552551, 'Suzanápolis', 'SP', -20.4981, -51.0268, 3408),
+  (3552601, 'Tabapuã', 'SP', -20.9602, -49.0307, 11323),
+  (3552700, 'Tabatinga', 'SP', -21.7239, -48.6896, 14769),
+  (3552809, 'Taboão da Serra', 'SP', -23.6019, -46.7526, 273542),
+  (3552908, 'Taciba', 'SP', -22.3866, -51.2882, 6260),
+  (3553005, 'Taguaí', 'SP', -23.4452, -49.4024, 12669),
+  (3553104, 'Taiaçu', 'SP', -21.1431, -48.5112, 5677),
+  (3553203, 'Taiúva', 'SP', -21.1223, -48.4528, 6548),
+  (3553302, 'Tambaú', 'SP', -21.7029, -47.2703, 21435),
+  (3553401, 'Tanabi', 'SP', -20.6228, -49.6563, 25265),
+  (3553500, 'Tapiraí', 'SP', -23.9612, -47.5062, 7996),
+  (3553609, 'Tapiratiba', 'SP', -21.4713, -46.7448, 11816),
+  (3553658, 'Taquaral', 'SP', -21.0737, -48.4126, 2619),
+  (3553708, 'Taquaritinga', 'SP', -21.4049, -48.5103, 52260),
+  (3553807, 'Taquarituba', 'SP', -23.5307, -49.241, 24350),
+  (3553856, 'Taquarivaí', 'SP', -23.9211, -48.6948, 6876),
+  (3553906, 'Tarabai', 'SP', -22.3016, -51.5621, 6536),
+  (3553955, 'Tarumã', 'SP', -22.7429, -50.5786, 14882),
+  (3554003, 'Tatuí', 'SP', -23.3487, -47.8461, 123942),
+  (3554102, 'Taubaté', 'SP', -23.0104, -45.5593, 310739),
+  (3554201, 'Tejupá', 'SP', -23.3425, -49.3722, 4127),
+  (3554300, 'Teodoro Sampaio', 'SP', -22.5299, -52.1682, 22173),
+  (3554409, 'Terra Roxa', 'SP', -20.787, -48.3314, 7904),
+  (3554508, 'Tietê', 'SP', -23.1101, -47.7164, 37663),
+  (3554607, 'Timburi', 'SP', -23.2057, -49.6096, 2464),
+  (3554656, 'Torre de Pedra', 'SP', -23.2462, -48.1955, 2046),
+  (3554706, 'Torrinha', 'SP', -22.4237, -48.1731, 9335),
+  (3554755, 'Trabiju', 'SP', -22.0388, -48.3342, 1682),
+  (3554805, 'Tremembé', 'SP', -22.9571, -45.5475, 51173),
+  (3554904, 'Três Fronteiras', 'SP', -20.2344, -50.8905, 6804),
+  (3554953, 'Tuiuti', 'SP', -22.8193, -46.6937, 6778),
+  (3555000, 'Tupã', 'SP', -21.9335, -50.5191, 63928),
+  (3555109, 'Tupi Paulista', 'SP', -21.3825, -51.575, 15854),
+  (3555208, 'Turiúba', 'SP', -20.9428, -50.1135, 1818),
+  (3555307, 'Turmalina', 'SP', -20.0486, -50.4792, 1669),
+  (3555356, 'Ubarana', 'SP', -21.165, -49.7198, 5365),
+  (3555406, 'Ubatuba', 'SP', -23.4332, -45.0834, 92981),
+  (3555505, 'Ubirajara', 'SP', -22.5272, -49.6613, 5132),
+  (3555604, 'Uchoa', 'SP', -20.9511, -49.1713, 10394),
+  (3555703, 'União Paulista', 'SP', -20.8862, -49.9025, 1603),
+  (3555802, 'Urânia', 'SP', -20.2455, -50.6455, 8833),
+  (3555901, 'Uru', 'SP', -21.7866, -49.2848, 1387),
+  (3556008, 'Urupês', 'SP', -21.2032, -49.2931, 13744),
+  (3556107, 'Valentim Gentil', 'SP', -20.4217, -50.0889, 14098),
+  (3556206, 'Valinhos', 'SP', -22.9698, -46.9974, 126373),
+  (3556305, 'Valparaíso', 'SP', -21.2229, -50.8699, 24241),
+  (3556354, 'Vargem', 'SP', -22.887, -46.4124, 10512),
+  (3556404, 'Vargem Grande do Sul', 'SP', -21.8322, -46.8913, 40133),
+  (3556453, 'Vargem Grande Paulista', 'SP', -23.5993, -47.022, 50415),
+  (3556503, 'Várzea Paulista', 'SP', -23.2136, -46.8234, 115771),
+  (3556602, 'Vera Cruz', 'SP', -22.2183, -49.8207, 10176),
+  (3556701, 'Vinhedo', 'SP', -23.0302, -46.9833, 76540),
+  (3556800, 'Viradouro', 'SP', -20.8734, -48.293, 17414),
+  (3556909, 'Vista Alegre do Alto', 'SP', -21.1692, -48.6284, 8109),
+  (3556958, 'Vitória Brasil', 'SP', -20.1956, -50.4875, 1794),
+  (3557006, 'Votorantim', 'SP', -23.5446, -47.4388, 127923),
+  (3557105, 'Votuporanga', 'SP', -20.4237, -49.9781, 96634),
+  (3557154, 'Zacarias', 'SP', -21.0506, -50.0552, 2692),
+  (3557204, 'Chavantes', 'SP', -23.0366, -49.7096, 12211),
+  (3557303, 'Estiva Gerbi', 'SP', -22.2713, -46.9481, 11295),
+  (4100103, 'Abatiá', 'PR', -23.3049, -50.3133, 7241),
+  (4100202, 'Adrianópolis', 'PR', -24.6606, -48.9922, 6256),
+  (4100301, 'Agudos do Sul', 'PR', -25.9899, -49.3343, 10233),
+  (4100400, 'Almirante Tamandaré', 'PR', -25.3188, -49.3037, 119825),
+  (4100459, 'Altamira do Paraná', 'PR', -24.7983, -52.7128, 3590),
+  (4100509, 'Altônia', 'PR', -23.8759, -53.8958, 18742),
+  (4100608, 'Alto Paraná', 'PR', -23.1312, -52.3189, 13909),
+  (4100707, 'Alto Piquiri', 'PR', -24.0224, -53.44, 9727),
+  (4100806, 'Alvorada do Sul', 'PR', -22.7813, -51.2297, 10326),
+  (4100905, 'Amaporã', 'PR', -23.0943, -52.7866, 4762),
+  (4101002, 'Ampére', 'PR', -25.9168, -53.4686, 19620),
+  (4101051, 'Anahy', 'PR', -24.6449, -53.1332, 2918),
+  (4101101, 'Andirá', 'PR', -23.0533, -50.2304, 19878),
+  (4101150, 'Ângulo', 'PR', -23.1946, -51.9154, 3235),
+  (4101200, 'Antonina', 'PR', -25.4386, -48.7191, 18091),
+  (4101309, 'Antônio Olinto', 'PR', -25.9804, -50.1972, 7018),
+  (4101408, 'Apucarana', 'PR', -23.55, -51.4635, 130134),
+  (4101507, 'Arapongas', 'PR', -23.4153, -51.4259, 119138),
+  (4101606, 'Arapoti', 'PR', -24.1548, -49.8285, 25777),
+  (4101655, 'Arapuã', 'PR', -24.3132, -51.7856, 3527),
+  (4101705, 'Araruna', 'PR', -23.9315, -52.5021, 14485),
+  (4101804, 'Araucária', 'PR', -25.5859, -49.4047, 151666),
+  (4101853, 'Ariranha do Ivaí', 'PR', -24.3857, -51.5839, 2329),
+  (4101903, 'Assaí', 'PR', -23.3697, -50.8459, 13797),
+  (4102000, 'Assis Chateaubriand', 'PR', -24.4168, -53.5213, 36808),
+  (4102109, 'Astorga', 'PR', -23.2318, -51.6668, 25475),
+  (4102208, 'Atalaia', 'PR', -23.1517, -52.0551, 3980),
+  (4102307, 'Balsa Nova', 'PR', -25.5804, -49.6291, 13395),
+  (4102406, 'Bandeirantes', 'PR', -23.1078, -50.3704, 31273),
+  (4102505, 'Barbosa Ferraz', 'PR', -24.0334, -52.004, 10795),
+  (4102604, 'Barracão', 'PR', -26.2502, -53.6324, 9759),
+  (4102703, 'Barra do Jacaré', 'PR', -23.116, -50.1842, 2814),
+  (4102752, 'Bela Vista da Caroba', 'PR', -25.8842, -53.6725, 4031),
+  (4102802, 'Bela Vista do Paraíso', 'PR', -22.9937, -51.1927, 14833),
+  (4102901, 'Bituruna', 'PR', -26.1607, -51.5518, 15533),
+  (4103008, 'Boa Esperança', 'PR', -24.2467, -52.7876, 4558),
+  (4103024, 'Boa Esperança do Iguaçu', 'PR', -25.6324, -53.2108, 2455),
+  (4103040, 'Boa Ventura de São Roque', 'PR', -24.8688, -51.6276, 6378),
+  (4103057, 'Boa Vista da Aparecida', 'PR', -25.4308, -53.4117, 7924),
+  (4103107, 'Bocaiúva do Sul', 'PR', -25.2066, -49.1141, 13299),
+  (4103156, 'Bom Jesus do Sul', 'PR', -26.1958, -53.5955, 3980),
+  (4103206, 'Bom Sucesso', 'PR', -23.7063, -51.7671, 6581),
+  (4103222, 'Bom Sucesso do Sul', 'PR', -26.0731, -52.8353, 3202),
+  (4103305, 'Borrazópolis', 'PR', -23.9366, -51.5875, 7735),
+  (4103354, 'Braganey', 'PR', -24.8173, -53.1218, 4854),
+  (4103370, 'Brasilândia do Sul', 'PR', -24.1978, -53.5275, 3708),
+  (4103404, 'Cafeara', 'PR', -22.789, -51.7142, 2627),
+  (4103453, 'Cafelândia', 'PR', -24.6189, -53.3207, 18997),
+  (4103479, 'Cafezal do Sul', 'PR', -23.9005, -53.5124, 4473),
+  (4103503, 'Califórnia', 'PR', -23.6566, -51.3574, 8710),
+  (4103602, 'Cambará', 'PR', -23.0423, -50.0753, 23212),
+  (4103701, 'Cambé', 'PR', -23.2766, -51.2798, 107208),
+  (4103800, 'Cambira', 'PR', -23.589, -51.5792, 9460),
+  (4103909, 'Campina da Lagoa', 'PR', -24.5893, -52.7976, 15723),
+  (4103958, 'Campina do Simão', 'PR', -25.0802, -51.8237, 3936),
+  (4104006, 'Campina Grande do Sul', 'PR', -25.3044, -49.0551, 47825),
+  (4104055, 'Campo Bonito', 'PR', -25.0294, -52.9939, 4027),
+  (4104105, 'Campo do Tenente', 'PR', -25.98, -49.6844, 7508),
+  (4104204, 'Campo Largo', 'PR', -25.4525, -49.529, 136327),
+  (4104253, 'Campo Magro', 'PR', -25.3687, -49.4501, 30160),
+  (4104303, 'Campo Mourão', 'PR', -24.0463, -52.378, 99432),
+  (4104402, 'Cândido de Abreu', 'PR', -24.5649, -51.3372, 15244),
+  (4104428, 'Candói', 'PR', -25.5758, -52.0409, 14973),
+  (4104451, 'Cantagalo', 'PR', -25.3734, -52.1198, 10933),
+  (4104501, 'Capanema', 'PR', -25.6691, -53.8055, 20481),
+  (4104600, 'Capitão Leônidas Marques', 'PR', -25.4816, -53.6112, 14648),
+  (4104659, 'Carambeí', 'PR', -24.9152, -50.0986, 23283),
+  (4104709, 'Carlópolis', 'PR', -23.4269, -49.7235, 16905),
+  (4104808, 'Cascavel', 'PR', -24.9573, -53.459, 348051),
+  (4104907, 'Castro', 'PR', -24.7891, -50.0108, 73075),
+  (4105003, 'Catanduvas', 'PR', -25.2044, -53.1548, 10446),
+  (4105102, 'Centenário do Sul', 'PR', -22.8188, -51.5973, 10832),
+  (4105201, 'Cerro Azul', 'PR', -26.0891, -52.8691, 16134),
+  (4105300, 'Céu Azul', 'PR', -25.1489, -53.8415, 11087),
+  (4105409, 'Chopinzinho', 'PR', -25.8515, -52.5173, 21085),
+  (4105508, 'Cianorte', 'PR', -23.6599, -52.6054, 79527),
+  (4105607, 'Cidade Gaúcha', 'PR', -23.3772, -52.9436, 11467),
+  (4105706, 'Clevelândia', 'PR', -26.4043, -52.3508, 15070),
+  (4105805, 'Colombo', 'PR', -25.2925, -49.2262, 232212),
+  (4105904, 'Colorado', 'PR', -22.8374, -51.9743, 22896),
+  (4106001, 'Congonhinhas', 'PR', -23.5493, -50.5569, 8320),
+  (4106100, 'Conselheiro Mairinck', 'PR', -23.623, -50.1707, 3461),
+  (4106209, 'Contenda', 'PR', -25.6788, -49.535, 19128),
+  (4106308, 'Corbélia', 'PR', -24.7971, -53.3006, 17470),
+  (4106407, 'Cornélio Procópio', 'PR', -23.1829, -50.6498, 45206),
+  (4106456, 'Coronel Domingos Soares', 'PR', -26.2277, -52.0356, 5649),
+  (4106506, 'Coronel Vivida', 'PR', -25.9767, -52.5641, 23331),
+  (4106555, 'Corumbataí do Sul', 'PR', -24.101, -52.1177, 3760);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (4106571, 'Cruzeiro do Iguaçu', 'PR', -25.6192, -53.1285, 4133),
+  (4106605, 'Cruzeiro do Oeste', 'PR', -23.7799, -53.0774, 23831),
+  (4106704, 'Cruzeiro do Sul', 'PR', -22.9624, -52.1622, 4494),
+  (4106803, 'Cruz Machado', 'PR', -26.0166, -51.343, 15978),
+  (4106852, 'Cruzmaltina', 'PR', -24.0132, -51.4563, 2892),
+  (4106902, 'Curitiba', 'PR', -25.4195, -49.2646, 1773718),
+  (4107009, 'Curiúva', 'PR', -24.0362, -50.4576, 13647),
+  (4107108, 'Diamante do Norte', 'PR', -22.655, -52.8617, 5142),
+  (4107124, 'Diamante do Sul', 'PR', -25.035, -52.6768, 3171),
+  (4107157, 'Diamante D''Oeste', 'PR', -24.9419, -54.1052, 4557),
+  (4107207, 'Dois Vizinhos', 'PR', -25.7407, -53.057, 44869),
+  (4107256, 'Douradina', 'PR', -23.3807, -53.2918, 9161),
+  (4107306, 'Doutor Camargo', 'PR', -23.5582, -52.2178, 6327),
+  (4107405, 'Enéas Marques', 'PR', -25.9445, -53.1659, 5999),
+  (4107504, 'Engenheiro Beltrão', 'PR', -23.797, -52.2659, 12454),
+  (4107520, 'Esperança Nova', 'PR', -23.7238, -53.811, 1849),
+  (4107538, 'Entre Rios do Oeste', 'PR', -24.7042, -54.2385, 4575),
+  (4107546, 'Espigão Alto do Iguaçu', 'PR', -25.4216, -52.8348, 4797),
+  (4107553, 'Farol', 'PR', -24.0958, -52.6217, 3039),
+  (4107603, 'Faxinal', 'PR', -24.0077, -51.3227, 16389),
+  (4107652, 'Fazenda Rio Grande', 'PR', -25.6624, -49.3073, 148873),
+  (4107702, 'Fênix', 'PR', -23.9135, -51.9805, 4492),
+  (4107736, 'Fernandes Pinheiro', 'PR', -25.4107, -50.5456, 6255),
+  (4107751, 'Figueira', 'PR', -23.8455, -50.4031, 8062),
+  (4107801, 'Floraí', 'PR', -23.3178, -52.3029, 4792),
+  (4107850, 'Flor da Serra do Sul', 'PR', -26.2523, -53.3092, 4364),
+  (4107900, 'Floresta', 'PR', -23.6031, -52.0807, 10458),
+  (4108007, 'Florestópolis', 'PR', -22.8623, -51.3882, 11446),
+  (4108106, 'Flórida', 'PR', -23.0847, -51.9546, 2652),
+  (4108205, 'Formosa do Oeste', 'PR', -24.2951, -53.3114, 7635),
+  (4108304, 'Foz do Iguaçu', 'PR', -25.5427, -54.5827, 285415),
+  (4108320, 'Francisco Alves', 'PR', -24.0667, -53.8461, 8116),
+  (4108403, 'Francisco Beltrão', 'PR', -26.0817, -53.0535, 96666),
+  (4108452, 'Foz do Jordão', 'PR', -25.7371, -52.1188, 4926),
+  (4108502, 'General Carneiro', 'PR', -26.425, -51.3172, 11062),
+  (4108551, 'Godoy Moreira', 'PR', -24.173, -51.9246, 2977),
+  (4108601, 'Goioerê', 'PR', -24.1835, -53.0248, 28437),
+  (4108650, 'Goioxim', 'PR', -25.1927, -51.9911, 6566),
+  (4108700, 'Grandes Rios', 'PR', -24.1466, -51.5094, 5641),
+  (4108809, 'Guaíra', 'PR', -24.085, -54.2573, 32097),
+  (4108908, 'Guairaçá', 'PR', -22.932, -52.6906, 6587),
+  (4108957, 'Guamiranga', 'PR', -25.1912, -50.8021, 7856),
+  (4109005, 'Guapirama', 'PR', -23.5203, -50.0407, 4626),
+  (4109104, 'Guaporema', 'PR', -23.3402, -52.7786, 2191),
+  (4109203, 'Guaraci', 'PR', -22.9694, -51.6504, 4748),
+  (4109302, 'Guaraniaçu', 'PR', -25.0968, -52.8755, 13735),
+  (4109401, 'Guarapuava', 'PR', -25.3902, -51.4623, 182093),
+  (4109500, 'Guaraqueçaba', 'PR', -25.3071, -48.3204, 7430),
+  (4109609, 'Guaratuba', 'PR', -25.8817, -48.5752, 42062),
+  (4109658, 'Honório Serpa', 'PR', -26.139, -52.3848, 4941),
+  (4109708, 'Ibaiti', 'PR', -23.8478, -50.1932, 28830),
+  (4109757, 'Ibema', 'PR', -25.1193, -53.0072, 6218),
+  (4109807, 'Ibiporã', 'PR', -23.2659, -51.0522, 51603),
+  (4109906, 'Icaraíma', 'PR', -23.3944, -53.615, 8991),
+  (4110003, 'Iguaraçu', 'PR', -23.1949, -51.8256, 5338),
+  (4110052, 'Iguatu', 'PR', -24.7153, -53.0827, 2144),
+  (4110078, 'Imbaú', 'PR', -24.448, -50.7533, 14249),
+  (4110102, 'Imbituva', 'PR', -25.2285, -50.5989, 29924),
+  (4110201, 'Inácio Martins', 'PR', -25.5704, -51.0769, 9670),
+  (4110300, 'Inajá', 'PR', -22.7509, -52.1995, 2536),
+  (4110409, 'Indianópolis', 'PR', -23.4762, -52.6989, 4448),
+  (4110508, 'Ipiranga', 'PR', -25.0238, -50.5794, 14142),
+  (4110607, 'Iporã', 'PR', -24.0083, -53.706, 15746),
+  (4110656, 'Iracema do Oeste', 'PR', -24.4262, -53.3528, 2343),
+  (4110706, 'Irati', 'PR', -25.4697, -50.6493, 59250),
+  (4110805, 'Iretama', 'PR', -24.4253, -52.1012, 10684),
+  (4110904, 'Itaguajé', 'PR', -22.6183, -51.9674, 4481),
+  (4110953, 'Itaipulândia', 'PR', -25.1366, -54.3001, 11485),
+  (4111001, 'Itambaracá', 'PR', -23.0181, -50.4097, 5908),
+  (4111100, 'Itambé', 'PR', -23.6601, -51.9912, 6111),
+  (4111209, 'Itapejara d''Oeste', 'PR', -25.9619, -52.8152, 12344),
+  (4111258, 'Itaperuçu', 'PR', -25.2193, -49.3454, 31217),
+  (4111308, 'Itaúna do Sul', 'PR', -22.7289, -52.8874, 3572),
+  (4111407, 'Ivaí', 'PR', -25.0067, -50.857, 13229),
+  (4111506, 'Ivaiporã', 'PR', -24.2485, -51.6754, 32720),
+  (4111555, 'Ivaté', 'PR', -23.4072, -53.3687, 6831),
+  (4111605, 'Ivatuba', 'PR', -23.6187, -52.2203, 2708),
+  (4111704, 'Jaboti', 'PR', -23.7435, -50.0729, 5427),
+  (4111803, 'Jacarezinho', 'PR', -23.1591, -49.9739, 40375),
+  (4111902, 'Jaguapitã', 'PR', -23.1104, -51.5342, 15122),
+  (4112009, 'Jaguariaíva', 'PR', -24.2439, -49.7066, 35141),
+  (4112108, 'Jandaia do Sul', 'PR', -23.6011, -51.6448, 21408),
+  (4112207, 'Janiópolis', 'PR', -24.1401, -52.7784, 5870),
+  (4112306, 'Japira', 'PR', -23.8142, -50.1422, 4972),
+  (4112405, 'Japurá', 'PR', -23.4693, -52.5557, 9144),
+  (4112504, 'Jardim Alegre', 'PR', -24.1809, -51.6902, 12004),
+  (4112603, 'Jardim Olinda', 'PR', -22.5523, -52.0503, 1343),
+  (4112702, 'Jataizinho', 'PR', -23.2578, -50.9777, 11813),
+  (4112751, 'Jesuítas', 'PR', -24.3839, -53.3849, 10506),
+  (4112801, 'Joaquim Távora', 'PR', -23.4987, -49.909, 11945),
+  (4112900, 'Jundiaí do Sul', 'PR', -23.4357, -50.2496, 3333),
+  (4112959, 'Juranda', 'PR', -24.4209, -52.8413, 7771),
+  (4113007, 'Jussara', 'PR', -23.6219, -52.4693, 6690),
+  (4113106, 'Kaloré', 'PR', -23.8188, -51.6687, 4582),
+  (4113205, 'Lapa', 'PR', -25.7671, -49.7168, 45003),
+  (4113254, 'Laranjal', 'PR', -24.8862, -52.47, 5600),
+  (4113304, 'Laranjeiras do Sul', 'PR', -25.4077, -52.4109, 32227),
+  (4113403, 'Leópolis', 'PR', -23.0818, -50.7511, 3752),
+  (4113429, 'Lidianópolis', 'PR', -24.11, -51.6506, 3938),
+  (4113452, 'Lindoeste', 'PR', -25.2596, -53.5733, 5175),
+  (4113502, 'Loanda', 'PR', -22.9232, -53.1362, 23225),
+  (4113601, 'Lobato', 'PR', -23.0058, -51.9524, 4601),
+  (4113700, 'Londrina', 'PR', -23.304, -51.1691, 555965),
+  (4113734, 'Luiziana', 'PR', -24.2853, -52.269, 6690),
+  (4113759, 'Lunardelli', 'PR', -24.0821, -51.7368, 4872),
+  (4113809, 'Lupionópolis', 'PR', -22.755, -51.6601, 4813),
+  (4113908, 'Mallet', 'PR', -25.8806, -50.8173, 13428),
+  (4114005, 'Mamborê', 'PR', -24.317, -52.5271, 13452),
+  (4114104, 'Mandaguaçu', 'PR', -23.3458, -52.0944, 31457),
+  (4114203, 'Mandaguari', 'PR', -23.5446, -51.671, 36716),
+  (4114302, 'Mandirituba', 'PR', -25.777, -49.3282, 27439),
+  (4114351, 'Manfrinópolis', 'PR', -26.1441, -53.3113, 2770),
+  (4114401, 'Mangueirinha', 'PR', -25.9421, -52.1743, 16603),
+  (4114500, 'Manoel Ribas', 'PR', -24.5144, -51.6658, 14240),
+  (4114609, 'Marechal Cândido Rondon', 'PR', -24.557, -54.0571, 55836),
+  (4114708, 'Maria Helena', 'PR', -23.6158, -53.2053, 5865),
+  (4114807, 'Marialva', 'PR', -23.4843, -51.7928, 41851),
+  (4114906, 'Marilândia do Sul', 'PR', -23.7425, -51.3137, 8677),
+  (4115002, 'Marilena', 'PR', -22.7336, -53.0402, 7253),
+  (4115101, 'Mariluz', 'PR', -24.0089, -53.1432, 9847),
+  (4115200, 'Maringá', 'PR', -23.4205, -51.9333, 409657),
+  (4115309, 'Mariópolis', 'PR', -26.355, -52.5532, 6371),
+  (4115358, 'Maripá', 'PR', -24.42, -53.8286, 6555),
+  (4115408, 'Marmeleiro', 'PR', -26.1472, -53.0267, 15901),
+  (4115457, 'Marquinho', 'PR', -25.112, -52.2497, 4504),
+  (4115507, 'Marumbi', 'PR', -23.7058, -51.6404, 4699),
+  (4115606, 'Matelândia', 'PR', -25.2496, -53.9935, 18450),
+  (4115705, 'Matinhos', 'PR', -25.8237, -48.549, 39259),
+  (4115739, 'Mato Rico', 'PR', -24.6995, -52.1454, 3267),
+  (4115754, 'Mauá da Serra', 'PR', -23.8988, -51.2277, 9383),
+  (4115804, 'Medianeira', 'PR', -25.2977, -54.0943, 54369),
+  (4115853, 'Mercedes', 'PR', -24.4538, -54.1618, 5931),
+  (4115903, 'Mirador', 'PR', -23.255, -52.7761, 2238),
+  (4116000, 'Miraselva', 'PR', -22.9657, -51.4846, 1966),
+  (4116059, 'Missal', 'PR', -25.0919, -54.2477, 11064),
+  (4116109, 'Moreira Sales', 'PR', -24.0509, -53.0102, 11175),
+  (4116208, 'Morretes', 'PR', -25.4744, -48.8345, 18309),
+  (4116307, 'Munhoz de Melo', 'PR', -23.1487, -51.7737, 3951),
+  (4116406, 'Nossa Senhora das Graças', 'PR', -22.9129, -51.7978, 3669),
+  (4116505, 'Nova Aliança do Ivaí', 'PR', -23.1763, -52.6032, 1323),
+  (4116604, 'Nova América da Colina', 'PR', -23.3308, -50.7168, 3280),
+  (4116703, 'Nova Aurora', 'PR', -24.5289, -53.2575, 13765),
+  (4116802, 'Nova Cantu', 'PR', -24.6723, -52.5661, 6790),
+  (4116901, 'Nova Esperança', 'PR', -23.182, -52.2031, 26585),
+  (4116950, 'Nova Esperança do Sudoeste', 'PR', -25.9004, -53.2618, 5597),
+  (4117008, 'Nova Fátima', 'PR', -23.4324, -50.5665, 7225),
+  (4117057, 'Nova Laranjeiras', 'PR', -25.3054, -52.5447, 12074),
+  (4117107, 'Nova Londrina', 'PR', -22.7639, -52.9868, 12923),
+  (4117206, 'Nova Olímpia', 'PR', -23.4703, -53.0898, 5833),
+  (4117214, 'Nova Santa Bárbara', 'PR', -23.5865, -50.7598, 4184),
+  (4117222, 'Nova Santa Rosa', 'PR', -24.4693, -53.9552, 8322),
+  (4117255, 'Nova Prata do Iguaçu', 'PR', -25.6309, -53.3469, 12699),
+  (4117271, 'Nova Tebas', 'PR', -24.438, -51.9454, 6848),
+  (4117297, 'Novo Itacolomi', 'PR', -23.7631, -51.5079, 3125),
+  (4117305, 'Ortigueira', 'PR', -24.2058, -50.9185, 24192),
+  (4117404, 'Ourizona', 'PR', -23.4053, -52.1964, 3187),
+  (4117453, 'Ouro Verde do Oeste', 'PR', -24.7933, -53.9043, 6785),
+  (4117503, 'Paiçandu', 'PR', -23.4555, -52.046, 45962),
+  (4117602, 'Palmas', 'PR', -26.4839, -51.9888, 48247),
+  (4117701, 'Palmeira', 'PR', -25.4257, -50.007, 33855),
+  (4117800, 'Palmital', 'PR', -24.8853, -52.2029, 13033),
+  (4117909, 'Palotina', 'PR', -24.2868, -53.8404, 35011),
+  (4118006, 'Paraíso do Norte', 'PR', -23.2824, -52.6054, 13245),
+  (4118105, 'Paranacity', 'PR', -22.9297, -52.1549, 9557),
+  (4118204, 'Paranaguá', 'PR', -25.5161, -48.5225, 145829),
+  (4118303, 'Paranapoema', 'PR', -22.6412, -52.0905, 2398),
+  (4118402, 'Paranavaí', 'PR', -23.0816, -52.4617, 92001),
+  (4118451, 'Pato Bragado', 'PR', -24.6271, -54.2265, 5733),
+  (4118501, 'Pato Branco', 'PR', -26.2292, -52.6706, 91836),
+  (4118600, 'Paula Freitas', 'PR', -26.2105, -50.931, 5666),
+  (4118709, 'Paulo Frontin', 'PR', -26.0466, -50.8304, 6343),
+  (4118808, 'Peabiru', 'PR', -23.914, -52.3431, 13346),
+  (4118857, 'Perobal', 'PR', -23.8949, -53.4098, 7189),
+  (4118907, 'Pérola', 'PR', -23.8039, -53.6834, 11878),
+  (4119004, 'Pérola d''Oeste', 'PR', -25.8278, -53.7433, 6221),
+  (4119103, 'Piên', 'PR', -26.0965, -49.4336, 13655),
+  (4119152, 'Pinhais', 'PR', -25.4429, -49.1927, 127019),
+  (4119202, 'Pinhalão', 'PR', -23.7982, -50.0536, 6566),
+  (4119251, 'Pinhal de São Bento', 'PR', -26.0324, -53.482, 2761),
+  (4119301, 'Pinhão', 'PR', -25.6944, -51.6536, 29886),
+  (4119400, 'Piraí do Sul', 'PR', -24.5306, -49.9433, 23651),
+  (4119509, 'Piraquara', 'PR', -25.4422, -49.0624, 118730),
+  (4119608, 'Pitanga', 'PR', -24.7588, -51.7596, 33567),
+  (4119657, 'Pitangueiras', 'PR', -23.2281, -51.5873, 3046),
+  (4119707, 'Planaltina do Paraná', 'PR', -23.0101, -52.9162, 4070),
+  (4119806, 'Planalto', 'PR', -25.7211, -53.7642, 14374),
+  (4119905, 'Ponta Grossa', 'PR', -25.0916, -50.1668, 358371),
+  (4119954, 'Pontal do Paraná', 'PR', -25.6735, -48.5111, 30425),
+  (4120002, 'Porecatu', 'PR', -22.7537, -51.3795, 11624),
+  (4120101, 'Porto Amazonas', 'PR', -25.54, -49.8946, 4098),
+  (4120150, 'Porto Barreiro', 'PR', -25.5477, -52.4067, 3110),
+  (4120200, 'Porto Rico', 'PR', -22.7747, -53.2677, 3182),
+  (4120309, 'Porto Vitória', 'PR', -26.1674, -51.231, 3562),
+  (4120333, 'Prado Ferreira', 'PR', -23.0357, -51.4429, 3709),
+  (4120358, 'Pranchita', 'PR', -26.0209, -53.7397, 5737),
+  (4120408, 'Presidente Castelo Branco', 'PR', -23.2782, -52.1536, 4336),
+  (4120507, 'Primeiro de Maio', 'PR', -22.8517, -51.0293, 10082),
+  (4120606, 'Prudentópolis', 'PR', -25.2111, -50.9754, 49393),
+  (4120655, 'Quarto Centenário', 'PR', -24.2775, -53.0759, 4201),
+  (4120705, 'Quatiguá', 'PR', -23.5671, -49.916, 8099),
+  (4120804, 'Quatro Barras', 'PR', -25.3673, -49.0763, 24191),
+  (4120853, 'Quatro Pontes', 'PR', -24.5752, -53.9759, 4480),
+  (4120903, 'Quedas do Iguaçu', 'PR', -25.4492, -52.9102, 30738),
+  (4121000, 'Querência do Norte', 'PR', -23.0838, -53.483, 10685),
+  (4121109, 'Quinta do Sol', 'PR', -23.8533, -52.1309, 5001),
+  (4121208, 'Quitandinha', 'PR', -25.8734, -49.4973, 18398),
+  (4121257, 'Ramilândia', 'PR', -25.1195, -54.023, 4221),
+  (4121307, 'Rancho Alegre', 'PR', -23.0676, -50.9145, 3512),
+  (4121356, 'Rancho Alegre D''Oeste', 'PR', -24.3065, -52.9552, 2618),
+  (4121406, 'Realeza', 'PR', -25.7711, -53.526, 19247),
+  (4121505, 'Rebouças', 'PR', -25.6232, -50.6877, 14514),
+  (4121604, 'Renascença', 'PR', -26.1588, -52.9703, 6845),
+  (4121703, 'Reserva', 'PR', -24.6492, -50.8466, 24573),
+  (4121752, 'Reserva do Iguaçu', 'PR', -25.8319, -52.0272, 6553),
+  (4121802, 'Ribeirão Claro', 'PR', -23.1941, -49.7597, 12364),
+  (4121901, 'Ribeirão do Pinhal', 'PR', -23.4091, -50.3601, 13060),
+  (4122008, 'Rio Azul', 'PR', -25.7306, -50.7985, 14025),
+  (4122107, 'Rio Bom', 'PR', -23.7606, -51.4122, 3197),
+  (4122156, 'Rio Bonito do Iguaçu', 'PR', -25.4874, -52.5292, 13929),
+  (4122172, 'Rio Branco do Ivaí', 'PR', -24.3244, -51.3187, 3808),
+  (4122206, 'Rio Branco do Sul', 'PR', -25.1892, -49.3115, 37558),
+  (4122305, 'Rio Negro', 'PR', -26.095, -49.7982, 31324),
+  (4122404, 'Rolândia', 'PR', -23.3101, -51.3659, 71670),
+  (4122503, 'Roncador', 'PR', -24.5958, -52.2716, 11251),
+  (4122602, 'Rondon', 'PR', -23.412, -52.7659, 9097),
+  (4122651, 'Rosário do Ivaí', 'PR', -24.2682, -51.272, 5435),
+  (4122701, 'Sabáudia', 'PR', -23.3155, -51.555, 8822),
+  (4122800, 'Salgado Filho', 'PR', -26.1777, -53.3631, 4075),
+  (4122909, 'Salto do Itararé', 'PR', -23.6074, -49.6354, 5192),
+  (4123006, 'Salto do Lontra', 'PR', -25.7813, -53.3135, 15223),
+  (4123105, 'Santa Amélia', 'PR', -23.2654, -50.4288, 3394),
+  (4123204, 'Santa Cecília do Pavão', 'PR', -23.5201, -50.7835, 3365),
+  (4123303, 'Santa Cruz de Monte Castelo', 'PR', -22.9582, -53.2949, 8613),
+  (4123402, 'Santa Fé', 'PR', -23.04, -51.808, 11378),
+  (4123501, 'Santa Helena', 'PR', -24.8585, -54.336, 25492),
+  (4123600, 'Santa Inês', 'PR', -22.6376, -51.9024, 1748),
+  (4123709, 'Santa Isabel do Ivaí', 'PR', -23.0025, -53.1989, 8912),
+  (4123808, 'Santa Izabel do Oeste', 'PR', -25.8217, -53.4801, 14070),
+  (4123824, 'Santa Lúcia', 'PR', -25.4104, -53.5638, 3644),
+  (4123857, 'Santa Maria do Oeste', 'PR', -24.9377, -51.8696, 9934),
+  (4123907, 'Santa Mariana', 'PR', -23.1465, -50.5167, 11066),
+  (4123956, 'Santa Mônica', 'PR', -23.108, -53.1103, 3356),
+  (4124004, 'Santana do Itararé', 'PR', -23.7587, -49.6293, 5514),
+  (4124020, 'Santa Tereza do Oeste', 'PR', -25.0543, -53.6274, 13174),
+  (4124053, 'Santa Terezinha de Itaipu', 'PR', -25.4391, -54.402, 24262),
+  (4124103, 'Santo Antônio da Platina', 'PR', -23.2959, -50.0815, 44369),
+  (4124202, 'Santo Antônio do Caiuá', 'PR', -22.7351, -52.344, 2493),
+  (4124301, 'Santo Antônio do Paraíso', 'PR', -23.4969, -50.6455, 2125),
+  (4124400, 'Santo Antônio do Sudoeste', 'PR', -26.0737, -53.7251, 23673),
+  (4124509, 'Santo Inácio', 'PR', -22.6957, -51.7969, 6181),
+  (4124608, 'São Carlos do Ivaí', 'PR', -23.3158, -52.4761, 6587),
+  (4124707, 'São Jerônimo da Serra', 'PR', -23.7218, -50.7475, 10830),
+  (4124806, 'São João', 'PR', -25.8214, -52.7252, 11886),
+  (4124905, 'São João do Caiuá', 'PR', -22.8535, -52.3411, 5586),
+  (4125001, 'São João do Ivaí', 'PR', -23.9833, -51.8215, 10667),
+  (4125100, 'São João do Triunfo', 'PR', -25.683, -50.2949, 13726),
+  (4125209, 'São Jorge d''Oeste', 'PR', -25.7085, -52.9204, 9378),
+  (4125308, 'São Jorge do Ivaí', 'PR', -23.4336, -52.2929, 5168),
+  (4125357, 'São Jorge do Patrocínio', 'PR', -23.7647, -53.8823, 6504),
+  (4125407, 'São José da Boa Vista', 'PR', -23.9122, -49.6577, 6040),
+  (4125456, 'São José das Palmeiras', 'PR', -24.8369, -54.0572, 3957),
+  (4125506, 'São José dos Pinhais', 'PR', -25.5313, -49.2031, 329628),
+  (4125555, 'São Manoel do Paraná', 'PR', -23.3941, -52.6454, 2138),
+  (4125605, 'São Mateus do Sul', 'PR', -25.8677, -50.384, 42366),
+  (4125704, 'São Miguel do Iguaçu', 'PR', -25.3492, -54.2405, 29122),
+  (4125753, 'São Pedro do Iguaçu', 'PR', -24.9373, -53.8521, 5784),
+  (4125803, 'São Pedro do Ivaí', 'PR', -23.8634, -51.8568, 8690),
+  (4125902, 'São Pedro do Paraná', 'PR', -22.8239, -53.2241, 2661),
+  (4126009, 'São Sebastião da Amoreira', 'PR', -23.4656, -50.7625, 8063),
+  (4126108, 'São Tomé', 'PR', -23.5349, -52.5901, 5232),
+  (4126207, 'Sapopema', 'PR', -23.9078, -50.5801, 6695),
+  (4126256, 'Sarandi', 'PR', -23.4441, -51.876, 118455),
+  (4126272, 'Saudade do Iguaçu', 'PR', -25.6917, -52.6184, 6108),
+  (4126306, 'Sengés', 'PR', -24.1129, -49.4616, 17270),
+  (4126355, 'Serranópolis do Iguaçu', 'PR', -25.3799, -54.0518, 5007),
+  (4126405, 'Sertaneja', 'PR', -23.0361, -50.8317, 5616),
+  (4126504, 'Sertanópolis', 'PR', -23.0571, -51.0399, 15930),
+  (4126603, 'Siqueira Campos', 'PR', -23.6875, -49.8304, 22811),
+  (4126652, 'Sulina', 'PR', -25.7066, -52.7299, 3440),
+  (4126678, 'Tamarana', 'PR', -23.7204, -51.0991, 10707),
+  (4126702, 'Tamboara', 'PR', -23.2036, -52.4743, 4880),
+  (4126801, 'Tapejara', 'PR', -23.7315, -52.8735, 15869),
+  (4126900, 'Tapira', 'PR', -23.3193, -53.0684, 5745),
+  (4127007, 'Teixeira Soares', 'PR', -25.3701, -50.4571, 9547),
+  (4127106, 'Telêmaco Borba', 'PR', -24.3245, -50.6176, 75042),
+  (4127205, 'Terra Boa', 'PR', -23.7683, -52.447, 17568),
+  (4127304, 'Terra Rica', 'PR', -22.7111, -52.6188, 14842),
+  (4127403, 'Terra Roxa', 'PR', -24.1575, -54.0988, 18119),
+  (4127502, 'Tibagi', 'PR', -24.5153, -50.4176, 19961),
+  (4127601, 'Tijucas do Sul', 'PR', -25.9311, -49.195, 17621),
+  (4127700, 'Toledo', 'PR', -24.7246, -53.7412, 150470),
+  (4127809, 'Tomazina', 'PR', -23.7796, -49.9499, 8426),
+  (4127858, 'Três Barras do Paraná', 'PR', -25.4185, -53.1833, 11135),
+  (4127882, 'Tunas do Paraná', 'PR', -24.9731, -49.0879, 6219),
+  (4127908, 'Tuneiras do Oeste', 'PR', -23.8648, -52.8769, 8067),
+  (4127957, 'Tupãssi', 'PR', -24.5879, -53.5105, 8077),
+  (4127965, 'Turvo', 'PR', -25.0437, -51.5282, 14231),
+  (4128005, 'Ubiratã', 'PR', -24.5393, -52.9865, 24749),
+  (4128104, 'Umuarama', 'PR', -23.7656, -53.3201, 117095),
+  (4128203, 'União da Vitória', 'PR', -26.2273, -51.0873, 55033),
+  (4128302, 'Uniflor', 'PR', -23.0868, -52.1573, 2136),
+  (4128401, 'Uraí', 'PR', -23.2, -50.7939, 10406),
+  (4128500, 'Wenceslau Braz', 'PR', -23.8742, -49.8032, 19188),
+  (4128534, 'Ventania', 'PR', -24.2458, -50.2376, 9681),
+  (4128559, 'Vera Cruz do Oeste', 'PR', -25.0577, -53.8771, 8215),
+  (4128609, 'Verê', 'PR', -25.8772, -52.9051, 7932),
+  (4128625, 'Alto Paraíso', 'PR', -26.1146, -52.7469, 3055),
+  (4128633, 'Doutor Ulysses', 'PR', -24.5665, -49.4219, 5697),
+  (4128658, 'Virmond', 'PR', -25.3829, -52.1987, 3811),
+  (4128708, 'Vitorino', 'PR', -26.2683, -52.7843, 9706),
+  (4128807, 'Xambrê', 'PR', -23.7364, -53.4884, 5798),
+  (4200051, 'Abdon Batista', 'SC', -27.6126, -51.0233, 2598),
+  (4200101, 'Abelardo Luz', 'SC', -26.5716, -52.3229, 17392),
+  (4200200, 'Agrolândia', 'SC', -27.4087, -49.822, 10990),
+  (4200309, 'Agronômica', 'SC', -27.2662, -49.708, 6055),
+  (4200408, 'Água Doce', 'SC', -26.9985, -51.5528, 6508),
+  (4200507, 'Águas de Chapecó', 'SC', -27.0754, -52.9808, 6036),
+  (4200556, 'Águas Frias', 'SC', -26.8794, -52.8568, 2839),
+  (4200606, 'Águas Mornas', 'SC', -27.6963, -48.8243, 6743),
+  (4200705, 'Alfredo Wagner', 'SC', -27.7001, -49.3273, 10481),
+  (4200754, 'Alto Bela Vista', 'SC', -27.4333, -51.9044, 1856),
+  (4200804, 'Anchieta', 'SC', -26.5382, -53.3319, 5943),
+  (4200903, 'Angelina', 'SC', -27.5704, -48.9879, 5358),
+  (4201000, 'Anita Garibaldi', 'SC', -27.6897, -51.1271, 8285),
+  (4201109, 'Anitápolis', 'SC', -27.9012, -49.1316, 3593),
+  (4201208, 'Antônio Carlos', 'SC', -27.5191, -48.766, 11224),
+  (4201257, 'Apiúna', 'SC', -27.0375, -49.3885, 9811),
+  (4201273, 'Arabutã', 'SC', -27.1587, -52.1423, 4378),
+  (4201307, 'Araquari', 'SC', -26.3754, -48.7188, 45283),
+  (4201406, 'Araranguá', 'SC', -28.9356, -49.4918, 71922),
+  (4201505, 'Armazém', 'SC', -28.2448, -49.0215, 8834),
+  (4201604, 'Arroio Trinta', 'SC', -26.9257, -51.3407, 3556),
+  (4201653, 'Arvoredo', 'SC', -27.0748, -52.4543, 2510),
+  (4201703, 'Ascurra', 'SC', -26.9548, -49.3783, 8319),
+  (4201802, 'Atalanta', 'SC', -27.4219, -49.7789, 3227),
+  (4201901, 'Aurora', 'SC', -27.3098, -49.6295, 6780),
+  (4201950, 'Balneário Arroio do Silva', 'SC', -28.9806, -49.4237, 15820),
+  (4202008, 'Balneário Camboriú', 'SC', -26.9926, -48.6352, 139155),
+  (4202057, 'Balneário Barra do Sul', 'SC', -26.4597, -48.6123, 14912),
+  (4202073, 'Balneário Gaivota', 'SC', -29.1527, -49.5841, 15669),
+  (4202081, 'Bandeirante', 'SC', -26.7705, -53.6413, 3144),
+  (4202099, 'Barra Bonita', 'SC', -26.654, -53.44, 1668),
+  (4202107, 'Barra Velha', 'SC', -26.637, -48.6933, 45369),
+  (4202131, 'Bela Vista do Toldo', 'SC', -26.2746, -50.4664, 5872),
+  (4202156, 'Belmonte', 'SC', -26.843, -53.5758, 2658),
+  (4202206, 'Benedito Novo', 'SC', -26.781, -49.3593, 10520),
+  (4202305, 'Biguaçu', 'SC', -27.496, -48.6598, 76773),
+  (4202404, 'Blumenau', 'SC', -26.9155, -49.0709, 361261),
+  (4202438, 'Bocaina do Sul', 'SC', -27.7455, -49.9423, 3515),
+  (4202453, 'Bombinhas', 'SC', -27.1382, -48.5146, 25058),
+  (4202503, 'Bom Jardim da Serra', 'SC', -28.3377, -49.6373, 4026),
+  (4202537, 'Bom Jesus', 'SC', -26.7326, -52.3919, 2777),
+  (4202578, 'Bom Jesus do Oeste', 'SC', -26.6927, -53.0967, 2187),
+  (4202602, 'Bom Retiro', 'SC', -27.799, -49.487, 8418),
+  (4202701, 'Botuverá', 'SC', -27.2007, -49.0689, 5363),
+  (4202800, 'Braço do Norte', 'SC', -28.2681, -49.1701, 33773),
+  (4202859, 'Braço do Trombudo', 'SC', -27.3586, -49.8821, 4026),
+  (4202875, 'Brunópolis', 'SC', -27.3058, -50.8684, 2489),
+  (4202909, 'Brusque', 'SC', -27.0977, -48.9107, 141385),
+  (4203006, 'Caçador', 'SC', -26.7757, -51.012, 73720),
+  (4203105, 'Caibi', 'SC', -27.0741, -53.2458, 6304),
+  (4203154, 'Calmon', 'SC', -26.5942, -51.095, 3443),
+  (4203204, 'Camboriú', 'SC', -27.0241, -48.6503, 103074),
+  (4203253, 'Capão Alto', 'SC', -27.9389, -50.5098, 2625),
+  (4203303, 'Campo Alegre', 'SC', -26.195, -49.2676, 12501),
+  (4203402, 'Campo Belo do Sul', 'SC', -27.8975, -50.7595, 7257),
+  (4203501, 'Campo Erê', 'SC', -26.3931, -53.0856, 9623),
+  (4203600, 'Campos Novos', 'SC', -27.4002, -51.2276, 36932),
+  (4203709, 'Canelinha', 'SC', -27.2616, -48.7658, 12821),
+  (4203808, 'Canoinhas', 'SC', -26.1766, -50.395, 55016),
+  (4203907, 'Capinzal', 'SC', -27.3473, -51.6057, 23314),
+  (4203956, 'Capivari de Baixo', 'SC', -28.4498, -48.9631, 23975),
+  (4204004, 'Catanduvas', 'SC', -27.069, -51.6602, 10566),
+  (4204103, 'Caxambu do Sul', 'SC', -27.1624, -52.8807, 4614),
+  (4204152, 'Celso Ramos', 'SC', -27.6327, -51.335, 2805),
+  (4204178, 'Cerro Negro', 'SC', -27.7942, -50.8673, 3317),
+  (4204194, 'Chapadão do Lageado', 'SC', -27.5905, -49.5539, 2950),
+  (4204202, 'Chapecó', 'SC', -27.1004, -52.6152, 254785),
+  (4204251, 'Cocal do Sul', 'SC', -28.5986, -49.3335, 17240),
+  (4204301, 'Concórdia', 'SC', -27.2335, -52.026, 81646),
+  (4204350, 'Cordilheira Alta', 'SC', -26.9844, -52.6056, 4781),
+  (4204400, 'Coronel Freitas', 'SC', -26.9057, -52.7011, 10388),
+  (4204459, 'Coronel Martins', 'SC', -26.511, -52.6694, 2065),
+  (4204509, 'Corupá', 'SC', -26.4246, -49.246, 15267),
+  (4204558, 'Correia Pinto', 'SC', -27.5877, -50.3614, 15727),
+  (4204608, 'Criciúma', 'SC', -28.6723, -49.3729, 214493),
+  (4204707, 'Cunha Porã', 'SC', -26.895, -53.1662, 10953),
+  (4204756, 'Cunhataí', 'SC', -26.9709, -53.0895, 1968),
+  (4204806, 'Curitibanos', 'SC', -27.2824, -50.5816, 40045),
+  (4204905, 'Descanso', 'SC', -26.827, -53.5034, 8530),
+  (4205001, 'Dionísio Cerqueira', 'SC', -26.2648, -53.6351, 15008),
+  (4205100, 'Dona Emma', 'SC', -26.981, -49.7261, 4221),
+  (4205159, 'Doutor Pedrinho', 'SC', -26.7174, -49.4795, 3637),
+  (4205175, 'Entre Rios', 'SC', -26.7225, -52.5585, 3402),
+  (4205191, 'Ermo', 'SC', -28.9869, -49.643, 2269),
+  (4205209, 'Erval Velho', 'SC', -27.2743, -51.443, 4885),
+  (4205308, 'Faxinal dos Guedes', 'SC', -26.8451, -52.2596, 11192),
+  (4205357, 'Flor do Sertão', 'SC', -26.7811, -53.3505, 1783),
+  (4205407, 'Florianópolis', 'SC', -27.5945, -48.5477, 537211),
+  (4205431, 'Formosa do Sul', 'SC', -26.6453, -52.7946, 2682),
+  (4205456, 'Forquilhinha', 'SC', -28.7454, -49.4785, 31431),
+  (4205506, 'Fraiburgo', 'SC', -27.0233, -50.92, 33481),
+  (4205555, 'Frei Rogério', 'SC', -27.175, -50.8076, 2411),
+  (4205605, 'Galvão', 'SC', -26.4549, -52.6875, 3210),
+  (4205704, 'Garopaba', 'SC', -28.0275, -48.6192, 29959),
+  (4205803, 'Garuva', 'SC', -26.0292, -48.852, 18545),
+  (4205902, 'Gaspar', 'SC', -26.9336, -48.9534, 72570),
+  (4206009, 'Governador Celso Ramos', 'SC', -27.3172, -48.5576, 16915),
+  (4206108, 'Grão-Pará', 'SC', -28.1809, -49.2252, 6277),
+  (4206207, 'Gravatal', 'SC', -28.3208, -49.0427, 12435),
+  (4206306, 'Guabiruba', 'SC', -27.0808, -48.9804, 24543),
+  (4206405, 'Guaraciaba', 'SC', -26.6042, -53.5243, 10796),
+  (4206504, 'Guaramirim', 'SC', -26.4688, -49.0026, 46711),
+  (4206603, 'Guarujá do Sul', 'SC', -26.3858, -53.5296, 4829),
+  (4206652, 'Guatambú', 'SC', -27.1341, -52.7887, 8425),
+  (4206702, 'Herval d''Oeste', 'SC', -27.1903, -51.4917, 21724),
+  (4206751, 'Ibiam', 'SC', -27.1847, -51.2352, 2008),
+  (4206801, 'Ibicaré', 'SC', -27.0881, -51.3681, 3269),
+  (4206900, 'Ibirama', 'SC', -27.0547, -49.5193, 19862),
+  (4207007, 'Içara', 'SC', -28.7132, -49.3087, 59035),
+  (4207106, 'Ilhota', 'SC', -26.9023, -48.8251, 17046),
+  (4207205, 'Imaruí', 'SC', -28.3339, -48.817, 11881),
+  (4207304, 'Imbituba', 'SC', -28.2284, -48.6659, 52579),
+  (4207403, 'Imbuia', 'SC', -27.4908, -49.4218, 5982),
+  (4207502, 'Indaial', 'SC', -26.8992, -49.2354, 71549),
+  (4207577, 'Iomerê', 'SC', -27.0019, -51.2442, 2877),
+  (4207601, 'Ipira', 'SC', -27.4038, -51.7758, 4578),
+  (4207650, 'Iporã do Oeste', 'SC', -26.9854, -53.5355, 9335),
+  (4207684, 'Ipuaçu', 'SC', -26.635, -52.4556, 7730),
+  (4207700, 'Ipumirim', 'SC', -27.0772, -52.1289, 7816),
+  (4207759, 'Iraceminha', 'SC', -26.8215, -53.2767, 3986),
+  (4207809, 'Irani', 'SC', -27.0287, -51.9012, 10195),
+  (4207858, 'Irati', 'SC', -26.6539, -52.8955, 2069),
+  (4207908, 'Irineópolis', 'SC', -26.242, -50.7957, 10285),
+  (4208005, 'Itá', 'SC', -27.2907, -52.3212, 7067),
+  (4208104, 'Itaiópolis', 'SC', -26.339, -49.9092, 22051),
+  (4208203, 'Itajaí', 'SC', -26.9101, -48.6705, 264054),
+  (4208302, 'Itapema', 'SC', -27.0861, -48.616, 75940),
+  (4208401, 'Itapiranga', 'SC', -27.1659, -53.7166, 16638),
+  (4208450, 'Itapoá', 'SC', -26.1158, -48.6182, 30750),
+  (4208500, 'Ituporanga', 'SC', -27.4101, -49.5963, 26525),
+  (4208609, 'Jaborá', 'SC', -27.1782, -51.7279, 4310),
+  (4208708, 'Jacinto Machado', 'SC', -28.9961, -49.7623, 10624),
+  (4208807, 'Jaguaruna', 'SC', -28.6146, -49.0296, 20375),
+  (4208906, 'Jaraguá do Sul', 'SC', -26.4851, -49.0713, 182660),
+  (4208955, 'Jardinópolis', 'SC', -26.7191, -52.8625, 1776),
+  (4209003, 'Joaçaba', 'SC', -27.1721, -51.5108, 30146),
+  (4209102, 'Joinville', 'SC', -26.3045, -48.8487, 616317),
+  (4209151, 'José Boiteux', 'SC', -26.9566, -49.6286, 5985),
+  (4209177, 'Jupiá', 'SC', -26.395, -52.7298, 2555),
+  (4209201, 'Lacerdópolis', 'SC', -27.2579, -51.5577, 2248),
+  (4209300, 'Lages', 'SC', -27.815, -50.3259, 164981),
+  (4209409, 'Laguna', 'SC', -28.4843, -48.7772, 42785),
+  (4209458, 'Lajeado Grande', 'SC', -26.8576, -52.5648, 1702),
+  (4209508, 'Laurentino', 'SC', -27.2173, -49.7331, 7932),
+  (4209607, 'Lauro Müller', 'SC', -28.3859, -49.4035, 14381),
+  (4209706, 'Lebon Régis', 'SC', -26.928, -50.6921, 11472),
+  (4209805, 'Leoberto Leal', 'SC', -27.5081, -49.2789, 3330),
+  (4209854, 'Lindóia do Sul', 'SC', -27.0545, -52.069, 4549),
+  (4209904, 'Lontras', 'SC', -27.1684, -49.535, 12873),
+  (4210001, 'Luiz Alves', 'SC', -26.7151, -48.9322, 11684),
+  (4210035, 'Luzerna', 'SC', -27.1304, -51.4682, 5794),
+  (4210050, 'Macieira', 'SC', -26.8552, -51.3705, 1778),
+  (4210100, 'Mafra', 'SC', -26.1159, -49.8086, 55286),
+  (4210209, 'Major Gercino', 'SC', -27.4192, -48.9488, 3214),
+  (4210308, 'Major Vieira', 'SC', -26.3709, -50.3266, 7425),
+  (4210407, 'Maracajá', 'SC', -28.8463, -49.4605, 7815),
+  (4210506, 'Maravilha', 'SC', -26.7665, -53.1737, 28251),
+  (4210555, 'Marema', 'SC', -26.8024, -52.6264, 2184),
+  (4210605, 'Massaranduba', 'SC', -26.6109, -49.0054, 17162),
+  (4210704, 'Matos Costa', 'SC', -26.4709, -51.1501, 2761),
+  (4210803, 'Meleiro', 'SC', -28.8244, -49.6378, 7006),
+  (4210852, 'Mirim Doce', 'SC', -27.197, -50.0786, 2511),
+  (4210902, 'Modelo', 'SC', -26.7729, -53.04, 4080),
+  (4211009, 'Mondaí', 'SC', -27.1008, -53.4032, 10066),
+  (4211058, 'Monte Carlo', 'SC', -27.2239, -50.9808, 9117),
+  (4211108, 'Monte Castelo', 'SC', -26.461, -50.2327, 7736),
+  (4211207, 'Morro da Fumaça', 'SC', -28.6511, -49.2169, 18537),
+  (4211256, 'Morro Grande', 'SC', -28.8006, -49.7214, 3010),
+  (4211306, 'Navegantes', 'SC', -26.8943, -48.6546, 86401),
+  (4211405, 'Nova Erechim', 'SC', -26.8982, -52.9066, 5155),
+  (4211454, 'Nova Itaberaba', 'SC', -26.9428, -52.8141, 4536),
+  (4211504, 'Nova Trento', 'SC', -27.278, -48.9298, 13727),
+  (4211603, 'Nova Veneza', 'SC', -28.6338, -49.5055, 13664),
+  (4211652, 'Novo Horizonte', 'SC', -26.4442, -52.8281, 2643),
+  (4211702, 'Orleans', 'SC', -28.3487, -49.2986, 23661),
+  (4211751, 'Otacílio Costa', 'SC', -27.4789, -50.1231, 17312),
+  (4211801, 'Ouro', 'SC', -27.3379, -51.6194, 7032),
+  (4211850, 'Ouro Verde', 'SC', -26.692, -52.3108, 2181),
+  (4211876, 'Paial', 'SC', -27.2541, -52.4975, 1927),
+  (4211892, 'Painel', 'SC', -27.9234, -50.0972, 2215),
+  (4211900, 'Palhoça', 'SC', -27.6455, -48.6697, 222598),
+  (4212007, 'Palma Sola', 'SC', -26.3471, -53.2771, 7605),
+  (4212056, 'Palmeira', 'SC', -27.583, -50.1577, 2561),
+  (4212106, 'Palmitos', 'SC', -27.0702, -53.1586, 15626),
+  (4212205, 'Papanduva', 'SC', -26.3777, -50.1419, 19150),
+  (4212239, 'Paraíso', 'SC', -26.62, -53.6716, 4267),
+  (4212254, 'Passo de Torres', 'SC', -29.3099, -49.722, 12897),
+  (4212270, 'Passos Maia', 'SC', -26.7829, -52.0568, 4034),
+  (4212304, 'Paulo Lopes', 'SC', -27.9607, -48.6864, 9063);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (4212403, 'Pedras Grandes', 'SC', -28.4339, -49.1949, 4245),
+  (4212502, 'Penha', 'SC', -26.7754, -48.6465, 33663),
+  (4212601, 'Peritiba', 'SC', -27.3754, -51.9018, 2992),
+  (4212650, 'Pescaria Brava', 'SC', -28.3966, -48.8864, 10190),
+  (4212700, 'Petrolândia', 'SC', -27.5346, -49.6937, 6716),
+  (4212809, 'Balneário Piçarras', 'SC', -26.7639, -48.6717, 27127),
+  (4212908, 'Pinhalzinho', 'SC', -26.8495, -52.9913, 21972),
+  (4213005, 'Pinheiro Preto', 'SC', -27.0483, -51.2243, 3473),
+  (4213104, 'Piratuba', 'SC', -27.4242, -51.7668, 5769),
+  (4213153, 'Planalto Alegre', 'SC', -27.0704, -52.867, 2946),
+  (4213203, 'Pomerode', 'SC', -26.7384, -49.1785, 34289),
+  (4213302, 'Ponte Alta', 'SC', -27.4835, -50.3764, 4437),
+  (4213351, 'Ponte Alta do Norte', 'SC', -27.1591, -50.4659, 3210),
+  (4213401, 'Ponte Serrada', 'SC', -26.8733, -52.0112, 10649),
+  (4213500, 'Porto Belo', 'SC', -27.1586, -48.5469, 27688),
+  (4213609, 'Porto União', 'SC', -26.2451, -51.0759, 32970),
+  (4213708, 'Pouso Redondo', 'SC', -27.2567, -49.9301, 17123),
+  (4213807, 'Praia Grande', 'SC', -29.1918, -49.9525, 8270),
+  (4213906, 'Presidente Castello Branco', 'SC', -27.2218, -51.8089, 1689),
+  (4214003, 'Presidente Getúlio', 'SC', -27.0474, -49.6246, 20010),
+  (4214102, 'Presidente Nereu', 'SC', -27.2768, -49.3889, 2301),
+  (4214151, 'Princesa', 'SC', -26.4441, -53.5994, 2964),
+  (4214201, 'Quilombo', 'SC', -26.7264, -52.724, 11022),
+  (4214300, 'Rancho Queimado', 'SC', -27.6727, -49.0191, 3279),
+  (4214409, 'Rio das Antas', 'SC', -26.8946, -51.0674, 6253),
+  (4214508, 'Rio do Campo', 'SC', -26.9452, -50.136, 6452),
+  (4214607, 'Rio do Oeste', 'SC', -27.1952, -49.7989, 7747),
+  (4214706, 'Rio dos Cedros', 'SC', -26.7398, -49.2718, 10865),
+  (4214805, 'Rio do Sul', 'SC', -27.2156, -49.643, 72587),
+  (4214904, 'Rio Fortuna', 'SC', -28.1244, -49.1068, 4847),
+  (4215000, 'Rio Negrinho', 'SC', -26.2591, -49.5177, 39261),
+  (4215059, 'Rio Rufino', 'SC', -27.8592, -49.7754, 2397),
+  (4215075, 'Riqueza', 'SC', -27.0653, -53.3265, 4768),
+  (4215109, 'Rodeio', 'SC', -26.9243, -49.3649, 12757),
+  (4215208, 'Romelândia', 'SC', -26.6809, -53.3172, 4823),
+  (4215307, 'Salete', 'SC', -26.9798, -49.9988, 7489),
+  (4215356, 'Saltinho', 'SC', -26.6049, -53.0578, 3632),
+  (4215406, 'Salto Veloso', 'SC', -26.903, -51.4043, 4390),
+  (4215455, 'Sangão', 'SC', -28.6326, -49.1322, 12882),
+  (4215505, 'Santa Cecília', 'SC', -26.9592, -50.4252, 15546),
+  (4215554, 'Santa Helena', 'SC', -26.937, -53.6214, 2425),
+  (4215604, 'Santa Rosa de Lima', 'SC', -28.0331, -49.133, 2088),
+  (4215653, 'Santa Rosa do Sul', 'SC', -29.1313, -49.7109, 9792),
+  (4215679, 'Santa Terezinha', 'SC', -26.7813, -50.009, 8066),
+  (4215687, 'Santa Terezinha do Progresso', 'SC', -26.624, -53.1997, 2576),
+  (4215695, 'Santiago do Sul', 'SC', -26.6388, -52.6799, 1651),
+  (4215703, 'Santo Amaro da Imperatriz', 'SC', -27.6852, -48.7813, 27272),
+  (4215752, 'São Bernardino', 'SC', -26.4739, -52.9687, 2684),
+  (4215802, 'São Bento do Sul', 'SC', -26.2495, -49.3831, 83277),
+  (4215901, 'São Bonifácio', 'SC', -27.9009, -48.9326, 2946),
+  (4216008, 'São Carlos', 'SC', -27.0798, -53.0037, 10282),
+  (4216057, 'São Cristóvão do Sul', 'SC', -27.2666, -50.4388, 6084),
+  (4216107, 'São Domingos', 'SC', -26.5548, -52.5313, 9226),
+  (4216206, 'São Francisco do Sul', 'SC', -26.2579, -48.6344, 52674),
+  (4216255, 'São João do Oeste', 'SC', -27.0984, -53.5977, 6295),
+  (4216305, 'São João Batista', 'SC', -27.2772, -48.8474, 32687),
+  (4216354, 'São João do Itaperiú', 'SC', -26.6213, -48.7683, 4463),
+  (4216404, 'São João do Sul', 'SC', -29.2154, -49.8094, 8668),
+  (4216503, 'São Joaquim', 'SC', -28.2887, -49.9457, 25939),
+  (4216602, 'São José', 'SC', -27.6136, -48.6366, 270299),
+  (4216701, 'São José do Cedro', 'SC', -26.4561, -53.4955, 14167),
+  (4216800, 'São José do Cerrito', 'SC', -27.6602, -50.5733, 8708),
+  (4216909, 'São Lourenço do Oeste', 'SC', -26.3557, -52.8498, 24791),
+  (4217006, 'São Ludgero', 'SC', -28.3144, -49.1806, 13509),
+  (4217105, 'São Martinho', 'SC', -28.1609, -48.9867, 3405),
+  (4217154, 'São Miguel da Boa Vista', 'SC', -26.687, -53.2511, 1781),
+  (4217204, 'São Miguel do Oeste', 'SC', -26.7242, -53.5163, 44330),
+  (4217253, 'São Pedro de Alcântara', 'SC', -27.5665, -48.8048, 5776),
+  (4217303, 'Saudades', 'SC', -26.9317, -53.0021, 10265),
+  (4217402, 'Schroeder', 'SC', -26.4116, -49.074, 20061),
+  (4217501, 'Seara', 'SC', -27.1564, -52.299, 18620),
+  (4217550, 'Serra Alta', 'SC', -26.7229, -53.0409, 3303),
+  (4217600, 'Siderópolis', 'SC', -28.5955, -49.4314, 13714),
+  (4217709, 'Sombrio', 'SC', -29.108, -49.6328, 29991),
+  (4217758, 'Sul Brasil', 'SC', -26.7351, -52.964, 2832),
+  (4217808, 'Taió', 'SC', -27.121, -49.9942, 18310),
+  (4217907, 'Tangará', 'SC', -27.0996, -51.2473, 8143),
+  (4217956, 'Tigrinhos', 'SC', -26.6876, -53.1545, 2329),
+  (4218004, 'Tijucas', 'SC', -27.2354, -48.6322, 51592),
+  (4218103, 'Timbé do Sul', 'SC', -28.8287, -49.842, 5386),
+  (4218202, 'Timbó', 'SC', -26.8246, -49.269, 46099),
+  (4218251, 'Timbó Grande', 'SC', -26.6127, -50.6607, 7342),
+  (4218301, 'Três Barras', 'SC', -26.1056, -50.3197, 19746),
+  (4218350, 'Treviso', 'SC', -28.5097, -49.4634, 3782),
+  (4218400, 'Treze de Maio', 'SC', -28.5537, -49.1565, 7362),
+  (4218509, 'Treze Tílias', 'SC', -27.0026, -51.4084, 8787),
+  (4218608, 'Trombudo Central', 'SC', -27.3033, -49.793, 7274),
+  (4218707, 'Tubarão', 'SC', -28.4713, -49.0144, 110088),
+  (4218756, 'Tunápolis', 'SC', -26.9681, -53.6417, 4916),
+  (4218806, 'Turvo', 'SC', -28.9272, -49.6831, 13043),
+  (4218855, 'União do Oeste', 'SC', -26.762, -52.8541, 2774),
+  (4218905, 'Urubici', 'SC', -28.0157, -49.5925, 10834),
+  (4218954, 'Urupema', 'SC', -27.9557, -49.8729, 2656),
+  (4219002, 'Urussanga', 'SC', -28.518, -49.3238, 20919),
+  (4219101, 'Vargeão', 'SC', -26.8621, -52.1549, 3634),
+  (4219150, 'Vargem', 'SC', -27.4867, -50.9724, 2627),
+  (4219176, 'Vargem Bonita', 'SC', -27.0055, -51.7402, 4576),
+  (4219200, 'Vidal Ramos', 'SC', -27.3886, -49.3593, 6189),
+  (4219309, 'Videira', 'SC', -27.0086, -51.1543, 55466),
+  (4219358, 'Vitor Meireles', 'SC', -26.8782, -49.8328, 5370),
+  (4219408, 'Witmarsum', 'SC', -26.9275, -49.7947, 4255),
+  (4219507, 'Xanxerê', 'SC', -26.8747, -52.4036, 51607),
+  (4219606, 'Xavantina', 'SC', -27.0667, -52.343, 3653),
+  (4219705, 'Xaxim', 'SC', -26.9596, -52.5374, 31918),
+  (4219853, 'Zortéa', 'SC', -27.4521, -51.552, 3930),
+  (4220000, 'Balneário Rincão', 'SC', -28.8314, -49.2352, 15981),
+  (4300034, 'Aceguá', 'RS', -31.8665, -54.1615, 4170),
+  (4300059, 'Água Santa', 'RS', -28.1672, -52.031, 3912),
+  (4300109, 'Agudo', 'RS', -29.6447, -53.2515, 16041),
+  (4300208, 'Ajuricaba', 'RS', -28.2342, -53.7757, 6720),
+  (4300307, 'Alecrim', 'RS', -27.6579, -54.7649, 6123),
+  (4300406, 'Alegrete', 'RS', -29.7902, -55.7949, 72409),
+  (4300455, 'Alegria', 'RS', -27.8345, -54.0557, 3651),
+  (4300471, 'Almirante Tamandaré do Sul', 'RS', -28.1149, -52.9142, 1969),
+  (4300505, 'Alpestre', 'RS', -27.2502, -53.0341, 7117),
+  (4300554, 'Alto Alegre', 'RS', -28.7769, -52.9893, 1800),
+  (4300570, 'Alto Feliz', 'RS', -29.3919, -51.3123, 3072),
+  (4300604, 'Alvorada', 'RS', -29.9914, -51.0809, 187315),
+  (4300638, 'Amaral Ferrador', 'RS', -30.8756, -52.2509, 5310),
+  (4300646, 'Ametista do Sul', 'RS', -27.3607, -53.183, 7650),
+  (4300661, 'André da Rocha', 'RS', -28.6283, -51.5797, 1135),
+  (4300703, 'Anta Gorda', 'RS', -28.9698, -52.0102, 5957),
+  (4300802, 'Antônio Prado', 'RS', -28.8565, -51.2883, 13045),
+  (4300851, 'Arambaré', 'RS', -30.9092, -51.5046, 4112),
+  (4300877, 'Araricá', 'RS', -29.6168, -50.9291, 8525),
+  (4300901, 'Aratiba', 'RS', -27.3978, -52.2975, 6483),
+  (4301008, 'Arroio do Meio', 'RS', -29.4014, -51.9557, 21958),
+  (4301057, 'Arroio do Sal', 'RS', -29.5439, -49.8895, 11057),
+  (4301073, 'Arroio do Padre', 'RS', -31.4389, -52.4246, 2599),
+  (4301107, 'Arroio dos Ratos', 'RS', -30.0875, -51.7275, 14601),
+  (4301206, 'Arroio do Tigre', 'RS', -29.3348, -53.0966, 12058),
+  (4301305, 'Arroio Grande', 'RS', -32.2327, -53.0862, 17558),
+  (4301404, 'Arvorezinha', 'RS', -28.8737, -52.1781, 10322),
+  (4301503, 'Augusto Pestana', 'RS', -28.5172, -53.9883, 7149),
+  (4301552, 'Áurea', 'RS', -27.6936, -52.0505, 3396),
+  (4301602, 'Bagé', 'RS', -31.3297, -54.0999, 117938),
+  (4301636, 'Balneário Pinhal', 'RS', -30.2419, -50.2337, 14955),
+  (4301651, 'Barão', 'RS', -29.3725, -51.4949, 6461),
+  (4301701, 'Barão de Cotegipe', 'RS', -27.6208, -52.3798, 7144),
+  (4301750, 'Barão do Triunfo', 'RS', -30.3891, -51.7384, 5889),
+  (4301800, 'Barracão', 'RS', -27.6739, -51.4585, 4831),
+  (4301859, 'Barra do Guarita', 'RS', -27.1927, -53.7109, 3161),
+  (4301875, 'Barra do Quaraí', 'RS', -30.2029, -57.5497, 4241),
+  (4301909, 'Barra do Ribeiro', 'RS', -30.2939, -51.3014, 12225),
+  (4301925, 'Barra do Rio Azul', 'RS', -27.4069, -52.4084, 1696),
+  (4301958, 'Barra Funda', 'RS', -27.9205, -53.0391, 2498),
+  (4302006, 'Barros Cassal', 'RS', -29.0947, -52.5836, 9296),
+  (4302055, 'Benjamin Constant do Sul', 'RS', -27.5086, -52.5995, 2082),
+  (4302105, 'Bento Gonçalves', 'RS', -29.1662, -51.5165, 123151),
+  (4302154, 'Boa Vista das Missões', 'RS', -27.6671, -53.3102, 1933),
+  (4302204, 'Boa Vista do Buricá', 'RS', -27.6693, -54.1082, 6966),
+  (4302220, 'Boa Vista do Cadeado', 'RS', -28.5791, -53.8108, 2229),
+  (4302238, 'Boa Vista do Incra', 'RS', -28.8185, -53.391, 2271),
+  (4302253, 'Boa Vista do Sul', 'RS', -29.3544, -51.6687, 2779),
+  (4302303, 'Bom Jesus', 'RS', -28.6697, -50.4295, 11202),
+  (4302352, 'Bom Princípio', 'RS', -29.4856, -51.3548, 13142),
+  (4302378, 'Bom Progresso', 'RS', -27.5399, -53.8716, 2096),
+  (4302402, 'Bom Retiro do Sul', 'RS', -29.6071, -51.9456, 12294),
+  (4302451, 'Boqueirão do Leão', 'RS', -29.3046, -52.4284, 6247),
+  (4302501, 'Bossoroca', 'RS', -28.7291, -54.9035, 5890),
+  (4302584, 'Bozano', 'RS', -28.3659, -53.772, 2151),
+  (4302600, 'Braga', 'RS', -27.6173, -53.7405, 3268),
+  (4302659, 'Brochier', 'RS', -29.5501, -51.5945, 4966),
+  (4302709, 'Butiá', 'RS', -30.1179, -51.9601, 19084),
+  (4302808, 'Caçapava do Sul', 'RS', -30.5144, -53.4827, 32515),
+  (4302907, 'Cacequi', 'RS', -29.8883, -54.822, 11157),
+  (4303004, 'Cachoeira do Sul', 'RS', -30.033, -52.8928, 80070),
+  (4303103, 'Cachoeirinha', 'RS', -29.9472, -51.1016, 136258),
+  (4303202, 'Cacique Doble', 'RS', -27.767, -51.6597, 4603),
+  (4303301, 'Caibaté', 'RS', -28.2905, -54.6454, 4704),
+  (4303400, 'Caiçara', 'RS', -27.2791, -53.4257, 4836),
+  (4303509, 'Camaquã', 'RS', -30.8489, -51.8043, 62200),
+  (4303558, 'Camargo', 'RS', -28.588, -52.2003, 2981),
+  (4303608, 'Cambará do Sul', 'RS', -29.0474, -50.1465, 6361),
+  (4303673, 'Campestre da Serra', 'RS', -28.7926, -51.0941, 3242),
+  (4303707, 'Campina das Missões', 'RS', -27.9888, -54.8416, 5882),
+  (4303806, 'Campinas do Sul', 'RS', -27.7174, -52.6248, 5284),
+  (4303905, 'Campo Bom', 'RS', -29.6747, -51.0606, 62886),
+  (4304002, 'Campo Novo', 'RS', -27.6792, -53.8052, 4975),
+  (4304101, 'Campos Borges', 'RS', -28.8871, -53.0008, 3613),
+  (4304200, 'Candelária', 'RS', -29.6684, -52.7895, 28906),
+  (4304309, 'Cândido Godói', 'RS', -27.9515, -54.7517, 6294),
+  (4304358, 'Candiota', 'RS', -31.5516, -53.6773, 10710),
+  (4304408, 'Canela', 'RS', -29.356, -50.8119, 48946),
+  (4304507, 'Canguçu', 'RS', -31.396, -52.6783, 49680),
+  (4304606, 'Canoas', 'RS', -29.9128, -51.1857, 347657),
+  (4304614, 'Canudos do Vale', 'RS', -29.3271, -52.2374, 1656),
+  (4304622, 'Capão Bonito do Sul', 'RS', -28.1254, -51.3961, 1733),
+  (4304630, 'Capão da Canoa', 'RS', -29.7642, -50.0282, 63594),
+  (4304655, 'Capão do Cipó', 'RS', -28.9312, -54.5558, 3119),
+  (4304663, 'Capão do Leão', 'RS', -31.7565, -52.4889, 26487),
+  (4304671, 'Capivari do Sul', 'RS', -30.1383, -50.5152, 3991),
+  (4304689, 'Capela de Santana', 'RS', -29.6961, -51.328, 11159),
+  (4304697, 'Capitão', 'RS', -29.2674, -51.9853, 2921),
+  (4304705, 'Carazinho', 'RS', -28.2958, -52.7933, 61804),
+  (4304713, 'Caraá', 'RS', -29.7869, -50.4316, 7394),
+  (4304804, 'Carlos Barbosa', 'RS', -29.2969, -51.5028, 30420),
+  (4304853, 'Carlos Gomes', 'RS', -27.7167, -51.9121, 1368),
+  (4304903, 'Casca', 'RS', -28.5605, -51.9815, 9465),
+  (4304952, 'Caseiros', 'RS', -28.2582, -51.6861, 3000),
+  (4305009, 'Catuípe', 'RS', -28.2554, -54.0132, 8674),
+  (4305108, 'Caxias do Sul', 'RS', -29.1629, -51.1792, 463501),
+  (4305116, 'Centenário', 'RS', -27.7615, -51.9984, 2721),
+  (4305124, 'Cerrito', 'RS', -31.8419, -52.8004, 5808),
+  (4305132, 'Cerro Branco', 'RS', -29.657, -52.9406, 3802),
+  (4305157, 'Cerro Grande', 'RS', -27.6106, -53.1672, 2379),
+  (4305173, 'Cerro Grande do Sul', 'RS', -30.5905, -51.7418, 9178),
+  (4305207, 'Cerro Largo', 'RS', -28.1463, -54.7428, 13705),
+  (4305306, 'Chapada', 'RS', -28.0559, -53.0665, 9540),
+  (4305355, 'Charqueadas', 'RS', -29.9625, -51.6289, 35012),
+  (4305371, 'Charrua', 'RS', -27.9493, -52.015, 2768),
+  (4305405, 'Chiapetta', 'RS', -27.923, -53.9419, 3913),
+  (4305439, 'Chuí', 'RS', -33.6866, -53.4594, 6262),
+  (4305447, 'Chuvisca', 'RS', -30.7504, -51.9737, 4597),
+  (4305454, 'Cidreira', 'RS', -30.1604, -50.2337, 17071),
+  (4305504, 'Ciríaco', 'RS', -28.3419, -51.8741, 4149),
+  (4305587, 'Colinas', 'RS', -29.3948, -51.8556, 2423),
+  (4305603, 'Colorado', 'RS', -28.5258, -52.9928, 3258),
+  (4305702, 'Condor', 'RS', -28.2075, -53.4905, 6406),
+  (4305801, 'Constantina', 'RS', -27.732, -52.9938, 10385),
+  (4305835, 'Coqueiro Baixo', 'RS', -29.1802, -52.0942, 1290),
+  (4305850, 'Coqueiros do Sul', 'RS', -28.1194, -52.7842, 2211),
+  (4305871, 'Coronel Barros', 'RS', -28.3921, -54.0686, 2822),
+  (4305900, 'Coronel Bicaco', 'RS', -27.7197, -53.7022, 6144),
+  (4305934, 'Coronel Pilar', 'RS', -29.2695, -51.6847, 1607),
+  (4305959, 'Cotiporã', 'RS', -28.9891, -51.6971, 3846),
+  (4305975, 'Coxilha', 'RS', -28.128, -52.3023, 2667),
+  (4306007, 'Crissiumal', 'RS', -27.4999, -54.0994, 12886),
+  (4306056, 'Cristal', 'RS', -31.0046, -52.0436, 7299),
+  (4306072, 'Cristal do Sul', 'RS', -27.452, -53.2422, 2692),
+  (4306106, 'Cruz Alta', 'RS', -28.645, -53.6048, 58913),
+  (4306130, 'Cruzaltense', 'RS', -27.6672, -52.6522, 1635),
+  (4306205, 'Cruzeiro do Sul', 'RS', -29.5148, -51.9928, 11600),
+  (4306304, 'David Canabarro', 'RS', -28.3849, -51.8482, 4321),
+  (4306320, 'Derrubadas', 'RS', -27.2642, -53.8645, 2751),
+  (4306353, 'Dezesseis de Novembro', 'RS', -28.219, -55.0617, 2507),
+  (4306379, 'Dilermando de Aguiar', 'RS', -29.7054, -54.2122, 2806),
+  (4306403, 'Dois Irmãos', 'RS', -29.5836, -51.0898, 30709),
+  (4306429, 'Dois Irmãos das Missões', 'RS', -27.6621, -53.5304, 2090),
+  (4306452, 'Dois Lajeados', 'RS', -28.983, -51.8396, 3097),
+  (4306502, 'Dom Feliciano', 'RS', -30.7004, -52.1026, 13051),
+  (4306551, 'Dom Pedro de Alcântara', 'RS', -29.3639, -49.853, 2562),
+  (4306601, 'Dom Pedrito', 'RS', -30.9756, -54.6694, 36981),
+  (4306700, 'Dona Francisca', 'RS', -29.6195, -53.3617, 3079),
+  (4306734, 'Doutor Maurício Cardoso', 'RS', -27.5103, -54.3577, 4470),
+  (4306759, 'Doutor Ricardo', 'RS', -29.084, -51.9972, 1888),
+  (4306767, 'Eldorado do Sul', 'RS', -30.0847, -51.6187, 39559),
+  (4306809, 'Encantado', 'RS', -29.2351, -51.8703, 22962),
+  (4306908, 'Encruzilhada do Sul', 'RS', -30.543, -52.5204, 23819),
+  (4306924, 'Engenho Velho', 'RS', -27.706, -52.9145, 1296),
+  (4306932, 'Entre-Ijuís', 'RS', -28.3686, -54.2686, 9158),
+  (4306957, 'Entre Rios do Sul', 'RS', -27.5298, -52.7347, 2685),
+  (4306973, 'Erebango', 'RS', -27.8544, -52.3005, 3054),
+  (4307005, 'Erechim', 'RS', -27.6364, -52.2697, 105705),
+  (4307054, 'Ernestina', 'RS', -28.4977, -52.5836, 3034),
+  (4307104, 'Herval', 'RS', -32.024, -53.3944, 6191),
+  (4307203, 'Erval Grande', 'RS', -27.3926, -52.574, 4930),
+  (4307302, 'Erval Seco', 'RS', -27.5443, -53.5005, 6787),
+  (4307401, 'Esmeralda', 'RS', -28.0518, -51.1933, 3195),
+  (4307450, 'Esperança do Sul', 'RS', -27.3603, -53.9891, 3226),
+  (4307500, 'Espumoso', 'RS', -28.7286, -52.8461, 15173),
+  (4307559, 'Estação', 'RS', -27.9135, -52.2635, 5582),
+  (4307609, 'Estância Velha', 'RS', -29.6535, -51.1843, 47924),
+  (4307708, 'Esteio', 'RS', -29.852, -51.1841, 76137),
+  (4307807, 'Estrela', 'RS', -29.5002, -51.9495, 32183),
+  (4307815, 'Estrela Velha', 'RS', -29.1713, -53.1639, 3070),
+  (4307831, 'Eugênio de Castro', 'RS', -28.5315, -54.1506, 2633),
+  (4307864, 'Fagundes Varela', 'RS', -28.8794, -51.7014, 2566),
+  (4307906, 'Farroupilha', 'RS', -29.2227, -51.3419, 70286),
+  (4308003, 'Faxinal do Soturno', 'RS', -29.5788, -53.4484, 6702),
+  (4308052, 'Faxinalzinho', 'RS', -27.4238, -52.6789, 2520),
+  (4308078, 'Fazenda Vilanova', 'RS', -29.5885, -51.8217, 4291),
+  (4308102, 'Feliz', 'RS', -29.4527, -51.3032, 13764),
+  (4308201, 'Flores da Cunha', 'RS', -29.0261, -51.1875, 30892),
+  (4308250, 'Floriano Peixoto', 'RS', -27.8614, -52.0838, 1668),
+  (4308300, 'Fontoura Xavier', 'RS', -28.9817, -52.3445, 9550),
+  (4308409, 'Formigueiro', 'RS', -30.0035, -53.4959, 6413),
+  (4308433, 'Forquetinha', 'RS', -29.3828, -52.0981, 2393),
+  (4308458, 'Fortaleza dos Valos', 'RS', -28.7986, -53.2249, 4477),
+  (4308508, 'Frederico Westphalen', 'RS', -27.3586, -53.3958, 32627),
+  (4308607, 'Garibaldi', 'RS', -29.259, -51.5352, 34335),
+  (4308656, 'Garruchos', 'RS', -28.1944, -55.6383, 2688),
+  (4308706, 'Gaurama', 'RS', -27.5856, -52.0915, 5665),
+  (4308805, 'General Câmara', 'RS', -29.9032, -51.7612, 7612),
+  (4308854, 'Gentil', 'RS', -28.4316, -52.0337, 1744),
+  (4308904, 'Getúlio Vargas', 'RS', -27.8911, -52.2294, 16602),
+  (4309001, 'Giruá', 'RS', -28.0297, -54.3517, 16013),
+  (4309050, 'Glorinha', 'RS', -29.8798, -50.7734, 7658),
+  (4309100, 'Gramado', 'RS', -29.3734, -50.8762, 40134),
+  (4309126, 'Gramado dos Loureiros', 'RS', -27.4429, -52.9149, 2014),
+  (4309159, 'Gramado Xavier', 'RS', -29.2706, -52.5795, 3304),
+  (4309209, 'Gravataí', 'RS', -29.9413, -50.9869, 265074),
+  (4309258, 'Guabiju', 'RS', -28.5421, -51.6948, 1417),
+  (4309308, 'Guaíba', 'RS', -30.1086, -51.3233, 92924),
+  (4309407, 'Guaporé', 'RS', -28.8399, -51.8895, 25268),
+  (4309506, 'Guarani das Missões', 'RS', -28.1491, -54.5629, 7415),
+  (4309555, 'Harmonia', 'RS', -29.5456, -51.4185, 5378),
+  (4309571, 'Herveiras', 'RS', -29.4552, -52.6553, 2565),
+  (4309605, 'Horizontina', 'RS', -27.6282, -54.3053, 18851),
+  (4309654, 'Hulha Negra', 'RS', -31.4067, -53.8667, 5976),
+  (4309704, 'Humaitá', 'RS', -27.5691, -53.9695, 4681),
+  (4309753, 'Ibarama', 'RS', -29.4203, -53.1295, 3732),
+  (4309803, 'Ibiaçá', 'RS', -28.0566, -51.8599, 4527),
+  (4309902, 'Ibiraiaras', 'RS', -28.3741, -51.6377, 6776),
+  (4309951, 'Ibirapuitã', 'RS', -28.6247, -52.5158, 3723),
+  (4310009, 'Ibirubá', 'RS', -28.6302, -53.0961, 21583),
+  (4310108, 'Igrejinha', 'RS', -29.5693, -50.7919, 32808),
+  (4310207, 'Ijuí', 'RS', -28.388, -53.92, 84780),
+  (4310306, 'Ilópolis', 'RS', -28.9282, -52.1258, 4157),
+  (4310330, 'Imbé', 'RS', -29.9753, -50.1281, 26824),
+  (4310363, 'Imigrante', 'RS', -29.3508, -51.7748, 3080),
+  (4310405, 'Independência', 'RS', -27.8354, -54.1886, 6427),
+  (4310413, 'Inhacorá', 'RS', -27.8752, -54.015, 2014),
+  (4310439, 'Ipê', 'RS', -28.8171, -51.2859, 5399),
+  (4310462, 'Ipiranga do Sul', 'RS', -27.9404, -52.4271, 1720),
+  (4310504, 'Iraí', 'RS', -27.1951, -53.2543, 7482),
+  (4310538, 'Itaara', 'RS', -29.6013, -53.7725, 5572),
+  (4310553, 'Itacurubi', 'RS', -28.7913, -55.2447, 2995),
+  (4310579, 'Itapuca', 'RS', -28.7768, -52.1693, 1937),
+  (4310603, 'Itaqui', 'RS', -29.1311, -56.5515, 35768),
+  (4310652, 'Itati', 'RS', -29.4974, -50.1016, 2638),
+  (4310702, 'Itatiba do Sul', 'RS', -27.3846, -52.4538, 3208),
+  (4310751, 'Ivorá', 'RS', -29.5232, -53.5842, 1929),
+  (4310801, 'Ivoti', 'RS', -29.5995, -51.1533, 22983),
+  (4310850, 'Jaboticaba', 'RS', -27.6347, -53.2762, 3779),
+  (4310876, 'Jacuizinho', 'RS', -29.0401, -53.0657, 2040),
+  (4310900, 'Jacutinga', 'RS', -27.7291, -52.5372, 3338),
+  (4311007, 'Jaguarão', 'RS', -32.5604, -53.377, 26603),
+  (4311106, 'Jaguari', 'RS', -29.4936, -54.703, 10579),
+  (4311122, 'Jaquirana', 'RS', -28.8811, -50.3637, 3690),
+  (4311130, 'Jari', 'RS', -29.2922, -54.2237, 3349),
+  (4311155, 'Jóia', 'RS', -28.6435, -54.1141, 7184),
+  (4311205, 'Júlio de Castilhos', 'RS', -29.2299, -53.6772, 18226),
+  (4311239, 'Lagoa Bonita do Sul', 'RS', -29.4939, -53.017, 2251),
+  (4311254, 'Lagoão', 'RS', -29.2348, -52.7997, 5341),
+  (4311270, 'Lagoa dos Três Cantos', 'RS', -28.5676, -52.8618, 1738),
+  (4311304, 'Lagoa Vermelha', 'RS', -28.2093, -51.5248, 27659),
+  (4311403, 'Lajeado', 'RS', -29.4591, -51.9644, 93646),
+  (4311429, 'Lajeado do Bugre', 'RS', -27.6913, -53.1818, 2601),
+  (4311502, 'Lavras do Sul', 'RS', -30.8071, -53.8931, 7157),
+  (4311601, 'Liberato Salzano', 'RS', -27.601, -53.0753, 4781),
+  (4311627, 'Lindolfo Collor', 'RS', -29.5859, -51.2141, 6248),
+  (4311643, 'Linha Nova', 'RS', -29.4679, -51.2003, 1683),
+  (4311700, 'Machadinho', 'RS', -27.5667, -51.6668, 5735),
+  (4311718, 'Maçambará', 'RS', -29.1445, -56.0674, 4425),
+  (4311734, 'Mampituba', 'RS', -29.2136, -49.9311, 3131),
+  (4311759, 'Manoel Viana', 'RS', -29.5859, -55.4841, 6801),
+  (4311775, 'Maquiné', 'RS', -29.6798, -50.2079, 7418),
+  (4311791, 'Maratá', 'RS', -29.5457, -51.5573, 2470),
+  (4311809, 'Marau', 'RS', -28.4498, -52.1986, 45124),
+  (4311908, 'Marcelino Ramos', 'RS', -27.4676, -51.9095, 4320),
+  (4311981, 'Mariana Pimentel', 'RS', -30.353, -51.5803, 3916),
+  (4312005, 'Mariano Moro', 'RS', -27.3568, -52.1467, 1858),
+  (4312054, 'Marques de Souza', 'RS', -29.3311, -52.0973, 3969),
+  (4312104, 'Mata', 'RS', -29.5649, -54.4641, 4698),
+  (4312138, 'Mato Castelhano', 'RS', -28.28, -52.1932, 2553),
+  (4312153, 'Mato Leitão', 'RS', -29.5285, -52.1278, 4859),
+  (4312179, 'Mato Queimado', 'RS', -28.252, -54.6159, 1795),
+  (4312203, 'Maximiliano de Almeida', 'RS', -27.6325, -51.802, 4191),
+  (4312252, 'Minas do Leão', 'RS', -30.1346, -52.0423, 7505),
+  (4312302, 'Miraguaí', 'RS', -27.497, -53.6891, 4427),
+  (4312351, 'Montauri', 'RS', -28.6462, -52.0767, 1499),
+  (4312377, 'Monte Alegre dos Campos', 'RS', -28.6805, -50.7834, 3180),
+  (4312385, 'Monte Belo do Sul', 'RS', -29.1607, -51.6333, 2557),
+  (4312401, 'Montenegro', 'RS', -29.6824, -51.4679, 64322),
+  (4312427, 'Mormaço', 'RS', -28.6968, -52.6999, 2756),
+  (4312443, 'Morrinhos do Sul', 'RS', -29.3578, -49.9328, 3071),
+  (4312450, 'Morro Redondo', 'RS', -31.5887, -52.6261, 6046),
+  (4312476, 'Morro Reuter', 'RS', -29.5379, -51.0811, 6029),
+  (4312500, 'Mostardas', 'RS', -31.1054, -50.9167, 12090),
+  (4312609, 'Muçum', 'RS', -29.163, -51.8714, 4601),
+  (4312617, 'Muitos Capões', 'RS', -28.3132, -51.1836, 2879),
+  (4312625, 'Muliterno', 'RS', -28.3253, -51.7697, 1721),
+  (4312658, 'Não-Me-Toque', 'RS', -28.4548, -52.8182, 17898),
+  (4312674, 'Nicolau Vergueiro', 'RS', -28.5298, -52.4676, 1932),
+  (4312708, 'Nonoai', 'RS', -27.3689, -52.7756, 13719),
+  (4312757, 'Nova Alvorada', 'RS', -28.6822, -52.1631, 3163),
+  (4312807, 'Nova Araçá', 'RS', -28.6537, -51.7458, 4954),
+  (4312906, 'Nova Bassano', 'RS', -28.7291, -51.7072, 9649),
+  (4312955, 'Nova Boa Vista', 'RS', -27.9926, -52.9784, 2042),
+  (4313003, 'Nova Bréscia', 'RS', -29.2182, -52.0319, 3044),
+  (4313011, 'Nova Candelária', 'RS', -27.6137, -54.1074, 3061),
+  (4313037, 'Nova Esperança do Sul', 'RS', -29.4066, -54.8293, 4865),
+  (4313060, 'Nova Hartz', 'RS', -29.5808, -50.9051, 20088),
+  (4313086, 'Nova Pádua', 'RS', -29.0275, -51.3098, 2343),
+  (4313102, 'Nova Palma', 'RS', -29.471, -53.4689, 5586),
+  (4313201, 'Nova Petrópolis', 'RS', -29.3741, -51.1136, 23300),
+  (4313300, 'Nova Prata', 'RS', -28.7799, -51.6113, 25692),
+  (4313334, 'Nova Ramada', 'RS', -28.0667, -53.6992, 2163),
+  (4313359, 'Nova Roma do Sul', 'RS', -28.9882, -51.4095, 3466),
+  (4313375, 'Nova Santa Rita', 'RS', -29.8525, -51.2837, 29024),
+  (4313391, 'Novo Cabrais', 'RS', -29.7338, -52.9489, 3568),
+  (4313409, 'Novo Hamburgo', 'RS', -29.6875, -51.1328, 227646),
+  (4313425, 'Novo Machado', 'RS', -27.5765, -54.5036, 3198),
+  (4313441, 'Novo Tiradentes', 'RS', -27.5649, -53.1837, 2146),
+  (4313466, 'Novo Xingu', 'RS', -27.749, -53.0639, 1646),
+  (4313490, 'Novo Barreiro', 'RS', -27.9077, -53.1103, 4272),
+  (4313508, 'Osório', 'RS', -29.8881, -50.2667, 47396),
+  (4313607, 'Paim Filho', 'RS', -27.7075, -51.763, 3629),
+  (4313656, 'Palmares do Sul', 'RS', -30.2535, -50.5103, 12844),
+  (4313706, 'Palmeira das Missões', 'RS', -27.9007, -53.3134, 33216),
+  (4313805, 'Palmitinho', 'RS', -27.3596, -53.558, 7839),
+  (4313904, 'Panambi', 'RS', -28.2833, -53.5023, 43515),
+  (4313953, 'Pantano Grande', 'RS', -30.1902, -52.3729, 10212),
+  (4314001, 'Paraí', 'RS', -28.5964, -51.7896, 7194),
+  (4314027, 'Paraíso do Sul', 'RS', -29.6717, -53.144, 6519),
+  (4314035, 'Pareci Novo', 'RS', -29.6365, -51.3974, 4319),
+  (4314050, 'Parobé', 'RS', -29.6243, -50.8312, 52058),
+  (4314068, 'Passa Sete', 'RS', -29.4577, -52.9599, 3983),
+  (4314076, 'Passo do Sobrado', 'RS', -29.748, -52.2748, 6025),
+  (4314100, 'Passo Fundo', 'RS', -28.2576, -52.4091, 206215),
+  (4314134, 'Paulo Bento', 'RS', -27.7051, -52.4169, 2144),
+  (4314159, 'Paverama', 'RS', -29.5486, -51.7339, 7978),
+  (4314175, 'Pedras Altas', 'RS', -31.7365, -53.5814, 2061),
+  (4314209, 'Pedro Osório', 'RS', -31.8642, -52.8184, 7484),
+  (4314308, 'Pejuçara', 'RS', -28.4283, -53.6579, 3745),
+  (4314407, 'Pelotas', 'RS', -31.7649, -52.3371, 325685),
+  (4314423, 'Picada Café', 'RS', -29.4464, -51.1367, 5351),
+  (4314456, 'Pinhal', 'RS', -27.508, -53.2082, 2959),
+  (4314464, 'Pinhal da Serra', 'RS', -27.8751, -51.1673, 2248),
+  (4314472, 'Pinhal Grande', 'RS', -29.345, -53.3206, 3805),
+  (4314498, 'Pinheirinho do Vale', 'RS', -27.2109, -53.608, 4540),
+  (4314506, 'Pinheiro Machado', 'RS', -31.5794, -53.3798, 11214),
+  (4314548, 'Pinto Bandeira', 'RS', -29.0975, -51.4503, 2723),
+  (4314555, 'Pirapó', 'RS', -28.0439, -55.2001, 2260),
+  (4314605, 'Piratini', 'RS', -31.4473, -53.0973, 17504),
+  (4314704, 'Planalto', 'RS', -27.3297, -53.0575, 10406),
+  (4314753, 'Poço das Antas', 'RS', -29.4481, -51.6719, 2171),
+  (4314779, 'Pontão', 'RS', -28.0585, -52.6791, 3296),
+  (4314787, 'Ponte Preta', 'RS', -27.6587, -52.4848, 1575),
+  (4314803, 'Portão', 'RS', -29.7015, -51.2429, 34071),
+  (4314902, 'Porto Alegre', 'RS', -30.0318, -51.2065, 1332845),
+  (4315008, 'Porto Lucena', 'RS', -27.8569, -55.01, 4360),
+  (4315057, 'Porto Mauá', 'RS', -27.5796, -54.6657, 2142),
+  (4315073, 'Porto Vera Cruz', 'RS', -27.7405, -54.8994, 1560),
+  (4315107, 'Porto Xavier', 'RS', -27.9082, -55.1379, 9938),
+  (4315131, 'Pouso Novo', 'RS', -29.1738, -52.2136, 1739),
+  (4315149, 'Presidente Lucena', 'RS', -29.5175, -51.1798, 3077),
+  (4315156, 'Progresso', 'RS', -29.2441, -52.3197, 5340),
+  (4315172, 'Protásio Alves', 'RS', -28.7572, -51.4757, 2025),
+  (4315206, 'Putinga', 'RS', -29.0045, -52.1569, 3747),
+  (4315305, 'Quaraí', 'RS', -30.384, -56.4483, 23500),
+  (4315313, 'Quatro Irmãos', 'RS', -27.8257, -52.4424, 1552),
+  (4315321, 'Quevedos', 'RS', -29.3504, -54.0789, 2507),
+  (4315354, 'Quinze de Novembro', 'RS', -28.7466, -53.1011, 3910),
+  (4315404, 'Redentora', 'RS', -27.664, -53.6407, 9738),
+  (4315453, 'Relvado', 'RS', -29.1164, -52.0778, 1796),
+  (4315503, 'Restinga Sêca', 'RS', -29.8188, -53.3807, 14939),
+  (4315552, 'Rio dos Índios', 'RS', -27.2973, -52.8417, 2835),
+  (4315602, 'Rio Grande', 'RS', -32.0349, -52.1071, 191900),
+  (4315701, 'Rio Pardo', 'RS', -29.988, -52.3711, 34654),
+  (4315750, 'Riozinho', 'RS', -29.639, -50.4488, 4473),
+  (4315800, 'Roca Sales', 'RS', -29.2884, -51.8658, 10418),
+  (4315909, 'Rodeio Bonito', 'RS', -27.4742, -53.1706, 6654),
+  (4315958, 'Rolador', 'RS', -28.2566, -54.8186, 2291),
+  (4316006, 'Rolante', 'RS', -29.6462, -50.5819, 21253),
+  (4316105, 'Ronda Alta', 'RS', -27.7758, -52.8056, 9777),
+  (4316204, 'Rondinha', 'RS', -27.8315, -52.9081, 4991),
+  (4316303, 'Roque Gonzales', 'RS', -28.1297, -55.0266, 6576),
+  (4316402, 'Rosário do Sul', 'RS', -30.2515, -54.9221, 36630),
+  (4316428, 'Sagrada Família', 'RS', -27.7085, -53.1351, 2480),
+  (4316436, 'Saldanha Marinho', 'RS', -28.3941, -53.097, 2575),
+  (4316451, 'Salto do Jacuí', 'RS', -29.0951, -53.2133, 10203),
+  (4316477, 'Salvador das Missões', 'RS', -28.1233, -54.8373, 2877),
+  (4316501, 'Salvador do Sul', 'RS', -29.4386, -51.5077, 6879),
+  (4316600, 'Sananduva', 'RS', -27.947, -51.8079, 16399),
+  (4316709, 'Santa Bárbara do Sul', 'RS', -28.3653, -53.251, 8122),
+  (4316733, 'Santa Cecília do Sul', 'RS', -28.1609, -51.9279, 1674),
+  (4316758, 'Santa Clara do Sul', 'RS', -29.4747, -52.0843, 6887),
+  (4316808, 'Santa Cruz do Sul', 'RS', -29.722, -52.4343, 133230),
+  (4316907, 'Santa Maria', 'RS', -29.6868, -53.8149, 271735),
+  (4316956, 'Santa Maria do Herval', 'RS', -29.4902, -50.9919, 6340),
+  (4316972, 'Santa Margarida do Sul', 'RS', -30.3393, -54.0817, 2596),
+  (4317004, 'Santana da Boa Vista', 'RS', -30.8697, -53.11, 7024),
+  (4317103, 'Sant''Ana do Livramento', 'RS', -30.8773, -55.5392, 84421),
+  (4317202, 'Santa Rosa', 'RS', -27.8702, -54.4796, 76963),
+  (4317251, 'Santa Tereza', 'RS', -29.1655, -51.7351, 1505),
+  (4317301, 'Santa Vitória do Palmar', 'RS', -33.525, -53.3717, 30983),
+  (4317400, 'Santiago', 'RS', -29.1897, -54.8666, 48938),
+  (4317509, 'Santo Ângelo', 'RS', -28.3001, -54.2668, 76917),
+  (4317558, 'Santo Antônio do Palma', 'RS', -28.4956, -52.0267, 2091),
+  (4317608, 'Santo Antônio da Patrulha', 'RS', -29.8268, -50.5175, 42947),
+  (4317707, 'Santo Antônio das Missões', 'RS', -28.514, -55.2251, 10300),
+  (4317756, 'Santo Antônio do Planalto', 'RS', -28.403, -52.6992, 2089),
+  (4317806, 'Santo Augusto', 'RS', -27.8526, -53.7776, 13902),
+  (4317905, 'Santo Cristo', 'RS', -27.8263, -54.662, 15320),
+  (4317954, 'Santo Expedito do Sul', 'RS', -27.9074, -51.6434, 2349),
+  (4318002, 'São Borja', 'RS', -28.6578, -56.0036, 59676),
+  (4318051, 'São Domingos do Sul', 'RS', -28.5312, -51.886, 2754),
+  (4318101, 'São Francisco de Assis', 'RS', -29.5547, -55.1253, 17618),
+  (4318200, 'São Francisco de Paula', 'RS', -29.4404, -50.5828, 21893),
+  (4318309, 'São Gabriel', 'RS', -30.3337, -54.3217, 58487),
+  (4318408, 'São Jerônimo', 'RS', -29.9716, -51.7251, 21028),
+  (4318424, 'São João da Urtiga', 'RS', -27.8195, -51.8257, 4461),
+  (4318432, 'São João do Polêsine', 'RS', -29.6194, -53.4439, 2649),
+  (4318440, 'São Jorge', 'RS', -28.4984, -51.7064, 2912),
+  (4318457, 'São José das Missões', 'RS', -27.7789, -53.1226, 2362),
+  (4318465, 'São José do Herval', 'RS', -29.052, -52.295, 1902),
+  (4318481, 'São José do Hortêncio', 'RS', -29.528, -51.245, 4447),
+  (4318499, 'São José do Inhacorá', 'RS', -27.7251, -54.1275, 2406);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (4318507, 'São José do Norte', 'RS', -32.0151, -52.0331, 25443),
+  (4318606, 'São José do Ouro', 'RS', -27.7707, -51.5966, 6834),
+  (4318614, 'São José do Sul', 'RS', -29.5448, -51.4821, 2380),
+  (4318622, 'São José dos Ausentes', 'RS', -28.7476, -50.0677, 4172),
+  (4318705, 'São Leopoldo', 'RS', -29.7545, -51.1498, 217409),
+  (4318804, 'São Lourenço do Sul', 'RS', -31.3564, -51.9715, 41989),
+  (4318903, 'São Luiz Gonzaga', 'RS', -28.412, -54.9559, 34752),
+  (4319000, 'São Marcos', 'RS', -28.9677, -51.0696, 21084),
+  (4319109, 'São Martinho', 'RS', -27.7112, -53.9699, 5481),
+  (4319125, 'São Martinho da Serra', 'RS', -29.5397, -53.859, 2860),
+  (4319158, 'São Miguel das Missões', 'RS', -28.556, -54.5559, 7056),
+  (4319208, 'São Nicolau', 'RS', -28.1834, -55.2654, 5118),
+  (4319307, 'São Paulo das Missões', 'RS', -28.0195, -54.9404, 5846),
+  (4319356, 'São Pedro da Serra', 'RS', -29.4193, -51.5134, 3548),
+  (4319364, 'São Pedro das Missões', 'RS', -27.7706, -53.2513, 1757),
+  (4319372, 'São Pedro do Butiá', 'RS', -28.1243, -54.8926, 3070),
+  (4319406, 'São Pedro do Sul', 'RS', -29.6202, -54.1855, 15577),
+  (4319505, 'São Sebastião do Caí', 'RS', -29.5885, -51.3749, 24428),
+  (4319604, 'São Sepé', 'RS', -30.1643, -53.5603, 21219),
+  (4319703, 'São Valentim', 'RS', -27.5583, -52.5237, 3264),
+  (4319711, 'São Valentim do Sul', 'RS', -29.0451, -51.7684, 2207),
+  (4319737, 'São Valério do Sul', 'RS', -27.7906, -53.9368, 2543),
+  (4319752, 'São Vendelino', 'RS', -29.3729, -51.3675, 2251),
+  (4319802, 'São Vicente do Sul', 'RS', -29.6882, -54.6826, 8097),
+  (4319901, 'Sapiranga', 'RS', -29.6349, -51.0064, 75648),
+  (4320008, 'Sapucaia do Sul', 'RS', -29.8276, -51.145, 132107),
+  (4320107, 'Sarandi', 'RS', -27.942, -52.9231, 22851),
+  (4320206, 'Seberi', 'RS', -27.4829, -53.4026, 11950),
+  (4320230, 'Sede Nova', 'RS', -27.6367, -53.9493, 2704),
+  (4320263, 'Segredo', 'RS', -29.3523, -52.9767, 6009),
+  (4320305, 'Selbach', 'RS', -28.6294, -52.9498, 5107),
+  (4320321, 'Senador Salgado Filho', 'RS', -28.025, -54.5507, 2673),
+  (4320354, 'Sentinela do Sul', 'RS', -30.6107, -51.5862, 5306),
+  (4320404, 'Serafina Corrêa', 'RS', -28.7126, -51.9352, 16961),
+  (4320453, 'Sério', 'RS', -29.3904, -52.2685, 1941),
+  (4320503, 'Sertão', 'RS', -27.9798, -52.2588, 5541),
+  (4320552, 'Sertão Santana', 'RS', -30.4562, -51.6017, 5863),
+  (4320578, 'Sete de Setembro', 'RS', -28.1362, -54.4637, 1830),
+  (4320602, 'Severiano de Almeida', 'RS', -27.4362, -52.1217, 3406),
+  (4320651, 'Silveira Martins', 'RS', -29.6467, -53.591, 2028),
+  (4320677, 'Sinimbu', 'RS', -29.5357, -52.5304, 8578),
+  (4320701, 'Sobradinho', 'RS', -29.4194, -53.0326, 14226),
+  (4320800, 'Soledade', 'RS', -28.8306, -52.5131, 29991),
+  (4320859, 'Tabaí', 'RS', -29.643, -51.6823, 4461),
+  (4320909, 'Tapejara', 'RS', -28.0652, -52.0097, 24557),
+  (4321006, 'Tapera', 'RS', -28.6277, -52.8613, 10592),
+  (4321105, 'Tapes', 'RS', -30.6683, -51.3991, 14695),
+  (4321204, 'Taquara', 'RS', -29.6505, -50.7753, 53242),
+  (4321303, 'Taquari', 'RS', -29.7943, -51.8653, 25198),
+  (4321329, 'Taquaruçu do Sul', 'RS', -27.4005, -53.4702, 3119),
+  (4321352, 'Tavares', 'RS', -31.2843, -51.088, 5212),
+  (4321402, 'Tenente Portela', 'RS', -27.3711, -53.7585, 14497),
+  (4321436, 'Terra de Areia', 'RS', -29.5782, -50.0644, 10334),
+  (4321451, 'Teutônia', 'RS', -29.4482, -51.8044, 32797),
+  (4321469, 'Tio Hugo', 'RS', -28.5712, -52.5955, 3267),
+  (4321477, 'Tiradentes do Sul', 'RS', -27.4022, -54.0814, 5129),
+  (4321493, 'Toropi', 'RS', -29.4782, -54.2244, 2554),
+  (4321501, 'Torres', 'RS', -29.3334, -49.7333, 41751),
+  (4321600, 'Tramandaí', 'RS', -29.9841, -50.1322, 54387),
+  (4321626, 'Travesseiro', 'RS', -29.2977, -52.0532, 2152),
+  (4321634, 'Três Arroios', 'RS', -27.5003, -52.1448, 2591),
+  (4321667, 'Três Cachoeiras', 'RS', -29.4487, -49.9275, 10962),
+  (4321709, 'Três Coroas', 'RS', -29.5137, -50.7739, 24425),
+  (4321808, 'Três de Maio', 'RS', -27.78, -54.2357, 24916),
+  (4321832, 'Três Forquilhas', 'RS', -29.5384, -50.0708, 2760),
+  (4321857, 'Três Palmeiras', 'RS', -27.6139, -52.8437, 4716),
+  (4321907, 'Três Passos', 'RS', -27.4555, -53.9296, 25436),
+  (4321956, 'Trindade do Sul', 'RS', -27.5239, -52.8956, 7556),
+  (4322004, 'Triunfo', 'RS', -29.9291, -51.7075, 27498),
+  (4322103, 'Tucunduva', 'RS', -27.6573, -54.4439, 5542),
+  (4322152, 'Tunas', 'RS', -29.1039, -52.9538, 3681),
+  (4322186, 'Tupanci do Sul', 'RS', -27.9241, -51.5383, 1374),
+  (4322202, 'Tupanciretã', 'RS', -29.0858, -53.8445, 20005),
+  (4322251, 'Tupandi', 'RS', -29.4772, -51.4174, 5029),
+  (4322301, 'Tuparendi', 'RS', -27.7598, -54.4814, 8363),
+  (4322327, 'Turuçu', 'RS', -31.4173, -52.1706, 3419),
+  (4322343, 'Ubiretama', 'RS', -28.0404, -54.686, 1994),
+  (4322350, 'União da Serra', 'RS', -28.7833, -52.0238, 1170),
+  (4322376, 'Unistalda', 'RS', -29.04, -55.1517, 1995),
+  (4322400, 'Uruguaiana', 'RS', -29.7614, -57.0853, 117210),
+  (4322509, 'Vacaria', 'RS', -28.5079, -50.9418, 64197),
+  (4322525, 'Vale Verde', 'RS', -29.7864, -52.1857, 3150),
+  (4322533, 'Vale do Sol', 'RS', -29.5967, -52.6839, 9897),
+  (4322541, 'Vale Real', 'RS', -29.3919, -51.2559, 6058),
+  (4322558, 'Vanini', 'RS', -28.4758, -51.8447, 2004),
+  (4322608, 'Venâncio Aires', 'RS', -29.6143, -52.1932, 68763),
+  (4322707, 'Vera Cruz', 'RS', -29.7184, -52.5152, 26710),
+  (4322806, 'Veranópolis', 'RS', -28.9312, -51.5516, 24021),
+  (4322855, 'Vespasiano Corrêa', 'RS', -29.0655, -51.8625, 1818),
+  (4322905, 'Viadutos', 'RS', -27.5716, -52.0211, 4769),
+  (4323002, 'Viamão', 'RS', -30.0819, -51.0194, 224112),
+  (4323101, 'Vicente Dutra', 'RS', -27.1607, -53.4022, 4665),
+  (4323200, 'Victor Graeff', 'RS', -28.5632, -52.7495, 2780),
+  (4323309, 'Vila Flores', 'RS', -28.8598, -51.5504, 3646),
+  (4323358, 'Vila Lângaro', 'RS', -28.1062, -52.1438, 2079),
+  (4323408, 'Vila Maria', 'RS', -28.5359, -52.1486, 4413),
+  (4323457, 'Vila Nova do Sul', 'RS', -30.3461, -53.876, 3863),
+  (4323507, 'Vista Alegre', 'RS', -27.3686, -53.4919, 2660),
+  (4323606, 'Vista Alegre do Prata', 'RS', -28.8052, -51.7947, 1590),
+  (4323705, 'Vista Gaúcha', 'RS', -27.2902, -53.6974, 2783),
+  (4323754, 'Vitória das Missões', 'RS', -28.3516, -54.504, 3260),
+  (4323770, 'Westfália', 'RS', -29.4263, -51.7645, 3098),
+  (4323804, 'Xangri-lá', 'RS', -29.8065, -50.0519, 16463),
+  (5000203, 'Água Clara', 'MS', -20.4452, -52.879, 16741),
+  (5000252, 'Alcinópolis', 'MS', -18.3255, -53.7042, 4537),
+  (5000609, 'Amambai', 'MS', -23.1058, -55.2253, 39325),
+  (5000708, 'Anastácio', 'MS', -20.4823, -55.8104, 24114),
+  (5000807, 'Anaurilândia', 'MS', -22.1852, -52.7191, 7653),
+  (5000856, 'Angélica', 'MS', -22.1527, -53.7708, 10729),
+  (5000906, 'Antônio João', 'MS', -22.1927, -55.9517, 9303),
+  (5001003, 'Aparecida do Taboado', 'MS', -20.0873, -51.0961, 27674),
+  (5001102, 'Aquidauana', 'MS', -20.4666, -55.7868, 46803),
+  (5001243, 'Aral Moreira', 'MS', -22.9385, -55.6334, 10748),
+  (5001508, 'Bandeirantes', 'MS', -19.9275, -54.3585, 7940),
+  (5001904, 'Bataguassu', 'MS', -21.7159, -52.4221, 23031),
+  (5002001, 'Batayporã', 'MS', -22.2944, -53.2705, 10712),
+  (5002100, 'Bela Vista', 'MS', -22.1073, -56.5263, 21613),
+  (5002159, 'Bodoquena', 'MS', -20.537, -56.7127, 8567),
+  (5002209, 'Bonito', 'MS', -21.1261, -56.4836, 23659),
+  (5002308, 'Brasilândia', 'MS', -21.2544, -52.0365, 11579),
+  (5002407, 'Caarapó', 'MS', -22.6368, -54.8209, 30612),
+  (5002605, 'Camapuã', 'MS', -19.5347, -54.0431, 13583),
+  (5002704, 'Campo Grande', 'MS', -20.4486, -54.6295, 898100),
+  (5002803, 'Caracol', 'MS', -22.011, -57.0277, 5036),
+  (5002902, 'Cassilândia', 'MS', -19.1179, -51.7313, 20988),
+  (5002951, 'Chapadão do Sul', 'MS', -18.788, -52.6263, 30993),
+  (5003108, 'Corguinho', 'MS', -19.8243, -54.8281, 4783),
+  (5003157, 'Coronel Sapucaia', 'MS', -23.2724, -55.5278, 14289),
+  (5003207, 'Corumbá', 'MS', -19.0077, -57.651, 96268),
+  (5003256, 'Costa Rica', 'MS', -18.5432, -53.1287, 26037),
+  (5003306, 'Coxim', 'MS', -18.5013, -54.751, 32151),
+  (5003454, 'Deodápolis', 'MS', -22.2763, -54.1682, 13663),
+  (5003488, 'Dois Irmãos do Buriti', 'MS', -20.6848, -55.2915, 11100),
+  (5003504, 'Douradina', 'MS', -22.0405, -54.6158, 5578),
+  (5003702, 'Dourados', 'MS', -22.2231, -54.812, 243367),
+  (5003751, 'Eldorado', 'MS', -23.7868, -54.2838, 11386),
+  (5003801, 'Fátima do Sul', 'MS', -22.3789, -54.5131, 20609),
+  (5003900, 'Figueirão', 'MS', -18.6782, -53.638, 3539),
+  (5004007, 'Glória de Dourados', 'MS', -22.4136, -54.2335, 10444),
+  (5004106, 'Guia Lopes da Laguna', 'MS', -21.4583, -56.1117, 9940),
+  (5004304, 'Iguatemi', 'MS', -23.6736, -54.5637, 13808),
+  (5004403, 'Inocência', 'MS', -19.7277, -51.9281, 8404),
+  (5004502, 'Itaporã', 'MS', -22.08, -54.7934, 24137),
+  (5004601, 'Itaquiraí', 'MS', -23.4779, -54.187, 19423),
+  (5004700, 'Ivinhema', 'MS', -22.3046, -53.8184, 27821),
+  (5004809, 'Japorã', 'MS', -23.8903, -54.4059, 8148),
+  (5004908, 'Jaraguari', 'MS', -20.1386, -54.3996, 7139),
+  (5005004, 'Jardim', 'MS', -21.4799, -56.1489, 23981),
+  (5005103, 'Jateí', 'MS', -22.4806, -54.3079, 3586),
+  (5005152, 'Juti', 'MS', -22.8596, -54.6061, 6729),
+  (5005202, 'Ladário', 'MS', -19.0089, -57.5973, 21522),
+  (5005251, 'Laguna Carapã', 'MS', -22.5448, -55.1502, 6799),
+  (5005400, 'Maracaju', 'MS', -21.6105, -55.1678, 45047),
+  (5005608, 'Miranda', 'MS', -20.2355, -56.3746, 25536),
+  (5005681, 'Mundo Novo', 'MS', -23.9355, -54.281, 19193),
+  (5005707, 'Naviraí', 'MS', -23.0618, -54.1995, 50457),
+  (5005806, 'Nioaque', 'MS', -21.1419, -55.8296, 13220),
+  (5006002, 'Nova Alvorada do Sul', 'MS', -21.4657, -54.3825, 21822),
+  (5006200, 'Nova Andradina', 'MS', -22.238, -53.3437, 48563),
+  (5006259, 'Novo Horizonte do Sul', 'MS', -22.6693, -53.8601, 4721),
+  (5006275, 'Paraíso das Águas', 'MS', -19.0216, -53.0116, 5510),
+  (5006309, 'Paranaíba', 'MS', -19.6746, -51.1909, 40957),
+  (5006358, 'Paranhos', 'MS', -23.8911, -55.429, 12921),
+  (5006408, 'Pedro Gomes', 'MS', -18.0996, -54.5507, 6941),
+  (5006606, 'Ponta Porã', 'MS', -22.5296, -55.7203, 92017),
+  (5006903, 'Porto Murtinho', 'MS', -21.6981, -57.8836, 12859),
+  (5007109, 'Ribas do Rio Pardo', 'MS', -20.4445, -53.7588, 23150),
+  (5007208, 'Rio Brilhante', 'MS', -21.8033, -54.5427, 37601),
+  (5007307, 'Rio Negro', 'MS', -19.447, -54.9859, 4841),
+  (5007406, 'Rio Verde de Mato Grosso', 'MS', -18.9249, -54.8434, 19818),
+  (5007505, 'Rochedo', 'MS', -19.9565, -54.8848, 5199),
+  (5007554, 'Santa Rita do Pardo', 'MS', -21.3016, -52.8333, 7027),
+  (5007695, 'São Gabriel do Oeste', 'MS', -19.3889, -54.5507, 29579),
+  (5007703, 'Sete Quedas', 'MS', -23.9705, -55.0398, 10994),
+  (5007802, 'Selvíria', 'MS', -20.3637, -51.4192, 8142),
+  (5007901, 'Sidrolândia', 'MS', -20.9302, -54.9692, 47118),
+  (5007935, 'Sonora', 'MS', -17.5698, -54.7551, 14516),
+  (5007950, 'Tacuru', 'MS', -23.636, -55.0141, 10808),
+  (5007976, 'Taquarussu', 'MS', -22.4898, -53.3519, 3625),
+  (5008008, 'Terenos', 'MS', -20.4378, -54.8647, 17652),
+  (5008305, 'Três Lagoas', 'MS', -20.7849, -51.7007, 132152),
+  (5008404, 'Vicentina', 'MS', -22.4098, -54.4415, 6336),
+  (5100102, 'Acorizal', 'MT', -15.194, -56.3632, 5014),
+  (5100201, 'Água Boa', 'MT', -14.051, -52.1601, 29219),
+  (5100250, 'Alta Floresta', 'MT', -9.8667, -56.0867, 58613),
+  (5100300, 'Alto Araguaia', 'MT', -17.3153, -53.2181, 17193),
+  (5100359, 'Alto Boa Vista', 'MT', -11.6732, -51.3883, 5715),
+  (5100409, 'Alto Garças', 'MT', -16.9462, -53.5272, 13052),
+  (5100508, 'Alto Paraguai', 'MT', -14.5137, -56.4776, 8009),
+  (5100607, 'Alto Taquari', 'MT', -17.8241, -53.2792, 10904),
+  (5100805, 'Apiacás', 'MT', -9.5398, -57.4587, 8590),
+  (5101001, 'Araguaiana', 'MT', -15.7291, -51.8341, 3795),
+  (5101209, 'Araguainha', 'MT', -16.857, -53.0318, 1010),
+  (5101258, 'Araputanga', 'MT', -15.4641, -58.3425, 14786),
+  (5101308, 'Arenápolis', 'MT', -14.4472, -56.8437, 10576),
+  (5101407, 'Aripuanã', 'MT', -10.1723, -59.4568, 24626),
+  (5101605, 'Barão de Melgaço', 'MT', -16.2067, -55.9623, 7253),
+  (5101704, 'Barra do Bugres', 'MT', -15.0702, -57.1878, 29403),
+  (5101803, 'Barra do Garças', 'MT', -15.8804, -52.264, 69210),
+  (5101837, 'Boa Esperança do Norte', 'MT', -13.5067, -55.1486, 5877),
+  (5101852, 'Bom Jesus do Araguaia', 'MT', -12.1706, -51.5032, 7280),
+  (5101902, 'Brasnorte', 'MT', -12.1474, -57.9833, 17004),
+  (5102504, 'Cáceres', 'MT', -16.0764, -57.6818, 89681),
+  (5102603, 'Campinápolis', 'MT', -14.5162, -52.893, 15347),
+  (5102637, 'Campo Novo do Parecis', 'MT', -13.6587, -57.8907, 45899),
+  (5102678, 'Campo Verde', 'MT', -15.545, -55.1626, 44585),
+  (5102686, 'Campos de Júlio', 'MT', -13.7242, -59.2858, 8822),
+  (5102694, 'Canabrava do Norte', 'MT', -11.0556, -51.8209, 4485),
+  (5102702, 'Canarana', 'MT', -13.5515, -52.2705, 25858),
+  (5102793, 'Carlinda', 'MT', -9.9491, -55.8417, 10332),
+  (5102850, 'Castanheira', 'MT', -11.1251, -58.6081, 7506),
+  (5103007, 'Chapada dos Guimarães', 'MT', -15.4643, -55.7499, 18990),
+  (5103056, 'Cláudia', 'MT', -11.5075, -54.8835, 9593),
+  (5103106, 'Cocalinho', 'MT', -14.3903, -51.0001, 6220),
+  (5103205, 'Colíder', 'MT', -10.8135, -55.461, 31370),
+  (5103254, 'Colniza', 'MT', -9.4612, -59.2252, 25766),
+  (5103304, 'Comodoro', 'MT', -13.6614, -59.7848, 18238),
+  (5103353, 'Confresa', 'MT', -10.6437, -51.5699, 35075),
+  (5103361, 'Conquista D''Oeste', 'MT', -14.5381, -59.5444, 3760),
+  (5103379, 'Cotriguaçu', 'MT', -9.8566, -58.4192, 11011),
+  (5103403, 'Cuiabá', 'MT', -15.601, -56.0974, 650877),
+  (5103437, 'Curvelândia', 'MT', -15.6084, -57.9133, 4903),
+  (5103452, 'Denise', 'MT', -14.7324, -57.0583, 7014),
+  (5103502, 'Diamantino', 'MT', -14.4037, -56.4366, 21941),
+  (5103601, 'Dom Aquino', 'MT', -15.8099, -54.9223, 7872),
+  (5103700, 'Feliz Natal', 'MT', -12.385, -54.9227, 10521),
+  (5103809, 'Figueirópolis D''Oeste', 'MT', -15.4439, -58.7391, 3187),
+  (5103858, 'Gaúcha do Norte', 'MT', -13.2443, -53.0809, 8642),
+  (5103908, 'General Carneiro', 'MT', -15.7094, -52.7574, 6037),
+  (5103957, 'Glória D''Oeste', 'MT', -15.768, -58.3108, 2905),
+  (5104104, 'Guarantã do Norte', 'MT', -9.9622, -54.9121, 31024),
+  (5104203, 'Guiratinga', 'MT', -16.346, -53.7575, 10966),
+  (5104500, 'Indiavaí', 'MT', -15.4921, -58.5802, 2213),
+  (5104526, 'Ipiranga do Norte', 'MT', -12.2408, -56.1531, 7815),
+  (5104542, 'Itanhangá', 'MT', -12.2259, -56.6463, 7539),
+  (5104559, 'Itaúba', 'MT', -11.0614, -55.2766, 5020),
+  (5104609, 'Itiquira', 'MT', -17.2147, -54.1422, 12236),
+  (5104807, 'Jaciara', 'MT', -15.9548, -54.9733, 28569),
+  (5104906, 'Jangada', 'MT', -15.235, -56.4917, 7426),
+  (5105002, 'Jauru', 'MT', -15.3342, -58.8723, 8367),
+  (5105101, 'Juara', 'MT', -11.2639, -57.5244, 34906),
+  (5105150, 'Juína', 'MT', -11.3728, -58.7483, 45869),
+  (5105176, 'Juruena', 'MT', -10.3178, -58.3592, 10213),
+  (5105200, 'Juscimeira', 'MT', -16.0633, -54.8859, 11480),
+  (5105234, 'Lambari D''Oeste', 'MT', -15.3188, -58.0046, 4790),
+  (5105259, 'Lucas do Rio Verde', 'MT', -13.0588, -55.9042, 83798),
+  (5105309, 'Luciara', 'MT', -11.2219, -50.6676, 2509),
+  (5105507, 'Vila Bela da Santíssima Trindade', 'MT', -15.0068, -59.9504, 16774),
+  (5105580, 'Marcelândia', 'MT', -11.0463, -54.4377, 11396),
+  (5105606, 'Matupá', 'MT', -10.1821, -54.9467, 20091),
+  (5105622, 'Mirassol d''Oeste', 'MT', -15.6759, -58.0951, 26785),
+  (5105903, 'Nobres', 'MT', -14.7192, -56.3284, 15492),
+  (5106000, 'Nortelândia', 'MT', -14.454, -56.7945, 5956),
+  (5106109, 'Nossa Senhora do Livramento', 'MT', -15.772, -56.3432, 12940),
+  (5106158, 'Nova Bandeirantes', 'MT', -9.8498, -57.8139, 13635),
+  (5106174, 'Nova Nazaré', 'MT', -13.9486, -51.8002, 4200),
+  (5106182, 'Nova Lacerda', 'MT', -14.4727, -59.6001, 6670),
+  (5106190, 'Nova Santa Helena', 'MT', -10.8651, -55.1872, 4239),
+  (5106208, 'Nova Brasilândia', 'MT', -14.9612, -54.9685, 3932),
+  (5106216, 'Nova Canaã do Norte', 'MT', -10.558, -55.953, 11707),
+  (5106224, 'Nova Mutum', 'MT', -13.8374, -56.0743, 55839),
+  (5106232, 'Nova Olímpia', 'MT', -14.7889, -57.2886, 16352),
+  (5106240, 'Nova Ubiratã', 'MT', -12.9834, -55.2556, 11530),
+  (5106257, 'Nova Xavantina', 'MT', -14.6771, -52.3502, 24345),
+  (5106265, 'Novo Mundo', 'MT', -9.9562, -55.2029, 6520),
+  (5106273, 'Novo Horizonte do Norte', 'MT', -11.4089, -57.3488, 3349),
+  (5106281, 'Novo São Joaquim', 'MT', -14.9054, -53.0194, 6919),
+  (5106299, 'Paranaíta', 'MT', -9.6584, -56.4786, 11671),
+  (5106307, 'Paranatinga', 'MT', -14.4265, -54.0524, 26423),
+  (5106315, 'Novo Santo Antônio', 'MT', -12.2875, -50.9686, 2015),
+  (5106372, 'Pedra Preta', 'MT', -16.6245, -54.4722, 18066),
+  (5106422, 'Peixoto de Azevedo', 'MT', -10.2262, -54.9794, 32714),
+  (5106455, 'Planalto da Serra', 'MT', -14.6518, -54.7819, 3166),
+  (5106505, 'Poconé', 'MT', -16.266, -56.6261, 31217),
+  (5106653, 'Pontal do Araguaia', 'MT', -15.9274, -52.3273, 6932),
+  (5106703, 'Ponte Branca', 'MT', -16.7584, -52.8369, 2008),
+  (5106752, 'Pontes e Lacerda', 'MT', -15.2219, -59.3435, 52018),
+  (5106778, 'Porto Alegre do Norte', 'MT', -10.8761, -51.6357, 12127),
+  (5106802, 'Porto dos Gaúchos', 'MT', -11.533, -57.4132, 5593),
+  (5106828, 'Porto Esperidião', 'MT', -15.857, -58.4619, 10204),
+  (5106851, 'Porto Estrela', 'MT', -15.3235, -57.2204, 3224),
+  (5107008, 'Poxoréu', 'MT', -15.8299, -54.4208, 23283),
+  (5107040, 'Primavera do Leste', 'MT', -15.544, -54.2811, 85146),
+  (5107065, 'Querência', 'MT', -12.6093, -52.1821, 26769),
+  (5107107, 'São José dos Quatro Marcos', 'MT', -15.6276, -58.1772, 17849),
+  (5107156, 'Reserva do Cabaçal', 'MT', -15.0743, -58.4585, 2122),
+  (5107180, 'Ribeirão Cascalheira', 'MT', -12.9367, -51.8244, 10089),
+  (5107198, 'Ribeirãozinho', 'MT', -16.4856, -52.6924, 2593),
+  (5107206, 'Rio Branco', 'MT', -15.2483, -58.1259, 4535),
+  (5107248, 'Santa Carmem', 'MT', -11.9125, -55.2263, 5374),
+  (5107263, 'Santo Afonso', 'MT', -14.4945, -57.0091, 2519),
+  (5107297, 'São José do Povo', 'MT', -16.4549, -54.2487, 2875),
+  (5107305, 'São José do Rio Claro', 'MT', -13.4398, -56.7218, 14911),
+  (5107354, 'São José do Xingu', 'MT', -10.7982, -52.7486, 5964),
+  (5107404, 'São Pedro da Cipa', 'MT', -16.0109, -54.9176, 4191),
+  (5107578, 'Rondolândia', 'MT', -10.8376, -61.4697, 3505),
+  (5107602, 'Rondonópolis', 'MT', -16.4673, -54.6372, 244911),
+  (5107701, 'Rosário Oeste', 'MT', -14.8259, -56.4236, 15453),
+  (5107743, 'Santa Cruz do Xingu', 'MT', -10.1532, -52.3953, 2661),
+  (5107750, 'Salto do Céu', 'MT', -15.1303, -58.1317, 3679),
+  (5107768, 'Santa Rita do Trivelato', 'MT', -13.8146, -55.2706, 3276),
+  (5107776, 'Santa Terezinha', 'MT', -10.4704, -50.514, 7596),
+  (5107792, 'Santo Antônio do Leste', 'MT', -14.805, -53.6075, 4099),
+  (5107800, 'Santo Antônio de Leverger', 'MT', -15.8632, -56.0788, 15246),
+  (5107859, 'São Félix do Araguaia', 'MT', -11.615, -50.6706, 13621),
+  (5107875, 'Sapezal', 'MT', -12.9892, -58.7645, 28944),
+  (5107883, 'Serra Nova Dourada', 'MT', -12.0896, -51.4025, 1800),
+  (5107909, 'Sinop', 'MT', -11.8604, -55.5091, 196312),
+  (5107925, 'Sorriso', 'MT', -12.5425, -55.7211, 110635),
+  (5107941, 'Tabaporã', 'MT', -11.3007, -56.8312, 9818),
+  (5107958, 'Tangará da Serra', 'MT', -14.6229, -57.4933, 106434),
+  (5108006, 'Tapurah', 'MT', -12.695, -56.5178, 14370),
+  (5108055, 'Terra Nova do Norte', 'MT', -10.517, -55.231, 10616),
+  (5108105, 'Tesouro', 'MT', -16.0809, -53.559, 3025),
+  (5108204, 'Torixoréu', 'MT', -16.2006, -52.5571, 4164),
+  (5108303, 'União do Sul', 'MT', -11.5308, -54.3616, 3838),
+  (5108352, 'Vale de São Domingos', 'MT', -15.286, -59.0683, 2904),
+  (5108402, 'Várzea Grande', 'MT', -15.6458, -56.1322, 300078),
+  (5108501, 'Vera', 'MT', -12.3017, -55.3045, 12800),
+  (5108600, 'Vila Rica', 'MT', -10.0137, -51.1186, 19888),
+  (5108808, 'Nova Guarita', 'MT', -10.312, -55.4061, 4590),
+  (5108857, 'Nova Marilândia', 'MT', -14.3568, -56.9696, 3529),
+  (5108907, 'Nova Maringá', 'MT', -13.0136, -57.0908, 5846),
+  (5108956, 'Nova Monte Verde', 'MT', -10.0, -57.5261, 8313),
+  (5200050, 'Abadia de Goiás', 'GO', -16.7573, -49.4412, 19128),
+  (5200100, 'Abadiânia', 'GO', -16.197, -48.7057, 17232),
+  (5200134, 'Acreúna', 'GO', -17.396, -50.3749, 21568),
+  (5200159, 'Adelândia', 'GO', -16.4127, -50.1657, 2297),
+  (5200175, 'Água Fria de Goiás', 'GO', -14.9778, -47.7823, 4954),
+  (5200209, 'Água Limpa', 'GO', -18.0771, -48.7603, 1858),
+  (5200258, 'Águas Lindas de Goiás', 'GO', -15.7617, -48.2816, 225693),
+  (5200308, 'Alexânia', 'GO', -16.0834, -48.5076, 27008),
+  (5200506, 'Aloândia', 'GO', -17.7292, -49.4769, 1973),
+  (5200555, 'Alto Horizonte', 'GO', -14.1978, -49.3378, 6072),
+  (5200605, 'Alto Paraíso de Goiás', 'GO', -14.1305, -47.51, 10306),
+  (5200803, 'Alvorada do Norte', 'GO', -14.4797, -46.491, 8446),
+  (5200829, 'Amaralina', 'GO', -13.9236, -49.2962, 3268),
+  (5200852, 'Americano do Brasil', 'GO', -16.2514, -49.9831, 5259),
+  (5200902, 'Amorinópolis', 'GO', -16.6151, -51.0919, 3007),
+  (5201108, 'Anápolis', 'GO', -16.3281, -48.953, 398869),
+  (5201207, 'Anhanguera', 'GO', -18.3339, -48.2204, 924),
+  (5201306, 'Anicuns', 'GO', -16.4642, -49.9617, 18503),
+  (5201405, 'Aparecida de Goiânia', 'GO', -16.8198, -49.2469, 527796),
+  (5201454, 'Aparecida do Rio Doce', 'GO', -18.2941, -51.1516, 2907),
+  (5201504, 'Aporé', 'GO', -18.9607, -51.9232, 4325),
+  (5201603, 'Araçu', 'GO', -16.3563, -49.6804, 3799),
+  (5201702, 'Aragarças', 'GO', -15.8955, -52.2372, 18390),
+  (5201801, 'Aragoiânia', 'GO', -16.9087, -49.4476, 11890),
+  (5202155, 'Araguapaz', 'GO', -15.0909, -50.6315, 7153),
+  (5202353, 'Arenópolis', 'GO', -16.3837, -51.5563, 2946),
+  (5202502, 'Aruanã', 'GO', -14.9166, -51.075, 8300),
+  (5202601, 'Aurilândia', 'GO', -16.6773, -50.4641, 3284),
+  (5202809, 'Avelinópolis', 'GO', -16.4672, -49.7579, 2868),
+  (5203104, 'Baliza', 'GO', -16.1966, -52.5393, 3351),
+  (5203203, 'Barro Alto', 'GO', -14.9658, -48.9086, 10371),
+  (5203302, 'Bela Vista de Goiás', 'GO', -16.9693, -48.9513, 34445),
+  (5203401, 'Bom Jardim de Goiás', 'GO', -16.2063, -52.1728, 7826),
+  (5203500, 'Bom Jesus de Goiás', 'GO', -18.2173, -49.74, 23958),
+  (5203559, 'Bonfinópolis', 'GO', -16.6173, -48.9616, 10296),
+  (5203575, 'Bonópolis', 'GO', -13.6329, -49.8106, 3299),
+  (5203609, 'Brazabrantes', 'GO', -16.4281, -49.3863, 3992),
+  (5203807, 'Britânia', 'GO', -15.2428, -51.1602, 5695),
+  (5203906, 'Buriti Alegre', 'GO', -18.1378, -49.0404, 10495),
+  (5203939, 'Buriti de Goiás', 'GO', -16.1792, -50.4302, 2732),
+  (5203962, 'Buritinópolis', 'GO', -14.4772, -46.4076, 3145),
+  (5204003, 'Cabeceiras', 'GO', -15.7995, -46.9265, 7560),
+  (5204102, 'Cachoeira Alta', 'GO', -18.7618, -50.9432, 11513),
+  (5204201, 'Cachoeira de Goiás', 'GO', -16.6635, -50.646, 1405),
+  (5204250, 'Cachoeira Dourada', 'GO', -18.4859, -49.4766, 7782),
+  (5204300, 'Caçu', 'GO', -18.5594, -51.1328, 13774),
+  (5204409, 'Caiapônia', 'GO', -16.9539, -51.8091, 16513),
+  (5204508, 'Caldas Novas', 'GO', -17.7441, -48.6246, 98622),
+  (5204557, 'Caldazinha', 'GO', -16.7117, -49.0013, 4507),
+  (5204607, 'Campestre de Goiás', 'GO', -16.7624, -49.695, 3755),
+  (5204656, 'Campinaçu', 'GO', -13.787, -48.5704, 3708),
+  (5204706, 'Campinorte', 'GO', -14.3137, -49.1511, 12510),
+  (5204805, 'Campo Alegre de Goiás', 'GO', -17.6363, -47.7768, 7422),
+  (5204854, 'Campo Limpo de Goiás', 'GO', -16.2971, -49.0895, 8081),
+  (5204904, 'Campos Belos', 'GO', -13.035, -46.7681, 18108),
+  (5204953, 'Campos Verdes', 'GO', -14.2442, -49.6528, 4005),
+  (5205000, 'Carmo do Rio Verde', 'GO', -15.3549, -49.708, 9710),
+  (5205059, 'Castelândia', 'GO', -18.0921, -50.203, 2985),
+  (5205109, 'Catalão', 'GO', -18.1656, -47.944, 114427),
+  (5205208, 'Caturaí', 'GO', -16.4447, -49.4936, 5184),
+  (5205307, 'Cavalcante', 'GO', -13.7976, -47.4566, 9583),
+  (5205406, 'Ceres', 'GO', -15.3061, -49.6, 22046),
+  (5205455, 'Cezarina', 'GO', -16.9718, -49.7758, 8090),
+  (5205471, 'Chapadão do Céu', 'GO', -18.4073, -52.549, 12870),
+  (5205497, 'Cidade Ocidental', 'GO', -16.0765, -47.9252, 91767),
+  (5205513, 'Cocalzinho de Goiás', 'GO', -15.7914, -48.7747, 25016),
+  (5205521, 'Colinas do Sul', 'GO', -14.1528, -48.076, 4030),
+  (5205703, 'Córrego do Ouro', 'GO', -16.2918, -50.5503, 2454),
+  (5205802, 'Corumbá de Goiás', 'GO', -15.9245, -48.8117, 10562),
+  (5205901, 'Corumbaíba', 'GO', -18.1415, -48.5626, 9164),
+  (5206206, 'Cristalina', 'GO', -16.7676, -47.6131, 62337),
+  (5206305, 'Cristianópolis', 'GO', -17.1987, -48.7034, 3504),
+  (5206404, 'Crixás', 'GO', -14.5412, -49.974, 17065),
+  (5206503, 'Cromínia', 'GO', -17.2883, -49.3798, 3883),
+  (5206602, 'Cumari', 'GO', -18.2644, -48.1511, 2927),
+  (5206701, 'Damianópolis', 'GO', -14.5604, -46.178, 3770),
+  (5206800, 'Damolândia', 'GO', -16.2544, -49.3631, 2724),
+  (5206909, 'Davinópolis', 'GO', -18.1501, -47.5568, 1902),
+  (5207105, 'Diorama', 'GO', -16.2329, -51.2543, 2062),
+  (5207253, 'Doverlândia', 'GO', -16.7188, -52.3189, 6956),
+  (5207352, 'Edealina', 'GO', -17.4239, -49.6644, 4001),
+  (5207402, 'Edéia', 'GO', -17.3406, -49.9295, 11747),
+  (5207501, 'Estrela do Norte', 'GO', -13.8665, -49.0716, 3205),
+  (5207535, 'Faina', 'GO', -15.4473, -50.3622, 7070),
+  (5207600, 'Fazenda Nova', 'GO', -16.1834, -50.7781, 5877),
+  (5207808, 'Firminópolis', 'GO', -16.5778, -50.304, 10419),
+  (5207907, 'Flores de Goiás', 'GO', -14.4451, -47.0417, 13744),
+  (5208004, 'Formosa', 'GO', -15.54, -47.337, 115901),
+  (5208103, 'Formoso', 'GO', -13.6499, -48.8775, 4660),
+  (5208152, 'Gameleira de Goiás', 'GO', -16.4854, -48.6454, 3456),
+  (5208301, 'Divinópolis de Goiás', 'GO', -13.2853, -46.3999, 4457),
+  (5208400, 'Goianápolis', 'GO', -16.5098, -49.0234, 13967),
+  (5208509, 'Goiandira', 'GO', -18.1352, -48.0875, 4973),
+  (5208608, 'Goianésia', 'GO', -15.3118, -49.1162, 73707),
+  (5208707, 'Goiânia', 'GO', -16.6864, -49.2643, 1437366),
+  (5208806, 'Goianira', 'GO', -16.4947, -49.427, 71916),
+  (5208905, 'Goiás', 'GO', -15.9333, -50.14, 24071),
+  (5209101, 'Goiatuba', 'GO', -18.0105, -49.3658, 35664),
+  (5209150, 'Gouvelândia', 'GO', -18.6238, -50.0805, 4390),
+  (5209200, 'Guapó', 'GO', -16.8297, -49.5345, 19545),
+  (5209291, 'Guaraíta', 'GO', -15.6121, -50.0265, 2188),
+  (5209408, 'Guarani de Goiás', 'GO', -13.9421, -46.4868, 4085),
+  (5209457, 'Guarinos', 'GO', -14.7292, -49.7006, 2161),
+  (5209606, 'Heitoraí', 'GO', -15.719, -49.8268, 3354),
+  (5209705, 'Hidrolândia', 'GO', -16.9626, -49.2265, 27742),
+  (5209804, 'Hidrolina', 'GO', -14.7261, -49.4634, 3545),
+  (5209903, 'Iaciara', 'GO', -14.1011, -46.6335, 10584),
+  (5209937, 'Inaciolândia', 'GO', -18.4869, -49.9888, 5954),
+  (5209952, 'Indiara', 'GO', -17.1387, -49.9862, 17061),
+  (5210000, 'Inhumas', 'GO', -16.3611, -49.5001, 52204),
+  (5210109, 'Ipameri', 'GO', -17.7215, -48.1581, 25548),
+  (5210158, 'Ipiranga de Goiás', 'GO', -15.1689, -49.6695, 2919),
+  (5210208, 'Iporá', 'GO', -16.4398, -51.118, 35684),
+  (5210307, 'Israelândia', 'GO', -16.3144, -50.9087, 2560),
+  (5210406, 'Itaberaí', 'GO', -16.0206, -49.806, 44734),
+  (5210562, 'Itaguari', 'GO', -15.918, -49.6071, 4963),
+  (5210604, 'Itaguaru', 'GO', -15.7565, -49.6354, 4904),
+  (5210802, 'Itajá', 'GO', -19.0673, -51.5495, 4380),
+  (5210901, 'Itapaci', 'GO', -14.9522, -49.5511, 21087),
+  (5211008, 'Itapirapuã', 'GO', -15.8205, -50.6094, 8007),
+  (5211206, 'Itapuranga', 'GO', -15.5606, -49.949, 26113),
+  (5211305, 'Itarumã', 'GO', -18.7646, -51.3485, 6101),
+  (5211404, 'Itauçu', 'GO', -16.2029, -49.6109, 7736),
+  (5211503, 'Itumbiara', 'GO', -18.4093, -49.2158, 107970),
+  (5211602, 'Ivolândia', 'GO', -16.5995, -50.7921, 2693),
+  (5211701, 'Jandaia', 'GO', -17.0481, -50.1453, 6272),
+  (5211800, 'Jaraguá', 'GO', -15.7529, -49.3344, 45223),
+  (5211909, 'Jataí', 'GO', -17.8784, -51.7204, 105729),
+  (5212006, 'Jaupaci', 'GO', -16.1773, -50.9508, 2924),
+  (5212055, 'Jesúpolis', 'GO', -15.9484, -49.3739, 2123),
+  (5212105, 'Joviânia', 'GO', -17.802, -49.6197, 7159),
+  (5212204, 'Jussara', 'GO', -15.8659, -50.8668, 19620),
+  (5212253, 'Lagoa Santa', 'GO', -19.1832, -51.3998, 1390),
+  (5212303, 'Leopoldo de Bulhões', 'GO', -16.619, -48.7428, 8745),
+  (5212501, 'Luziânia', 'GO', -16.253, -47.95, 209129),
+  (5212600, 'Mairipotaba', 'GO', -17.2975, -49.4898, 2561),
+  (5212709, 'Mambaí', 'GO', -14.4823, -46.1165, 8124),
+  (5212808, 'Mara Rosa', 'GO', -14.0148, -49.1777, 10700),
+  (5212907, 'Marzagão', 'GO', -17.983, -48.6415, 2758),
+  (5212956, 'Matrinchã', 'GO', -15.4342, -50.7456, 4042),
+  (5213004, 'Maurilândia', 'GO', -17.9719, -50.3388, 10304),
+  (5213053, 'Mimoso de Goiás', 'GO', -15.0515, -48.1611, 2614),
+  (5213087, 'Minaçu', 'GO', -13.5304, -48.2206, 27075),
+  (5213103, 'Mineiros', 'GO', -17.5654, -52.5537, 70081),
+  (5213400, 'Moiporá', 'GO', -16.5434, -50.739, 1685),
+  (5213509, 'Monte Alegre de Goiás', 'GO', -13.2552, -46.8928, 6692),
+  (5213707, 'Montes Claros de Goiás', 'GO', -16.0059, -51.3979, 8756),
+  (5213756, 'Montividiu', 'GO', -17.4439, -51.1728, 12521),
+  (5213772, 'Montividiu do Norte', 'GO', -13.3485, -48.6853, 3779),
+  (5213806, 'Morrinhos', 'GO', -17.7334, -49.1059, 51351),
+  (5213855, 'Morro Agudo de Goiás', 'GO', -15.3184, -50.0553, 2456),
+  (5213905, 'Mossâmedes', 'GO', -16.124, -50.2136, 4654),
+  (5214002, 'Mozarlândia', 'GO', -14.7457, -50.5713, 14750),
+  (5214051, 'Mundo Novo', 'GO', -13.7729, -50.2814, 6189),
+  (5214101, 'Mutunópolis', 'GO', -13.7303, -49.2745, 3564),
+  (5214408, 'Nazário', 'GO', -16.5808, -49.8817, 8189),
+  (5214507, 'Nerópolis', 'GO', -16.4047, -49.2227, 31932),
+  (5214606, 'Niquelândia', 'GO', -14.4662, -48.4599, 34964),
+  (5214705, 'Nova América', 'GO', -15.0206, -49.8953, 2337),
+  (5214804, 'Nova Aurora', 'GO', -18.0597, -48.2552, 2101),
+  (5214838, 'Nova Crixás', 'GO', -14.0957, -50.33, 12815),
+  (5214861, 'Nova Glória', 'GO', -15.145, -49.5737, 8310),
+  (5214879, 'Nova Iguaçu de Goiás', 'GO', -14.2868, -49.3872, 3010),
+  (5214903, 'Nova Roma', 'GO', -13.7388, -46.8734, 3076),
+  (5215009, 'Nova Veneza', 'GO', -16.3695, -49.3168, 9481),
+  (5215207, 'Novo Brasil', 'GO', -16.0313, -50.7113, 3527),
+  (5215231, 'Novo Gama', 'GO', -16.0592, -48.0417, 103804),
+  (5215256, 'Novo Planalto', 'GO', -13.2424, -49.506, 3716),
+  (5215306, 'Orizona', 'GO', -17.0334, -48.2964, 16399),
+  (5215405, 'Ouro Verde de Goiás', 'GO', -16.2181, -49.1942, 4057),
+  (5215504, 'Ouvidor', 'GO', -18.2277, -47.8355, 7200),
+  (5215603, 'Padre Bernardo', 'GO', -15.1605, -48.2833, 34967),
+  (5215652, 'Palestina de Goiás', 'GO', -16.7392, -51.5309, 3132),
+  (5215702, 'Palmeiras de Goiás', 'GO', -16.8044, -49.924, 31858),
+  (5215801, 'Palmelo', 'GO', -17.3258, -48.426, 2259),
+  (5215900, 'Palminópolis', 'GO', -16.7924, -50.1652, 3851);
+
+INSERT INTO public.br_cities (id, name, state, latitude, longitude, population) VALUES
+  (5216007, 'Panamá', 'GO', -18.1783, -49.355, 2455),
+  (5216304, 'Paranaiguara', 'GO', -18.9141, -50.6539, 7607),
+  (5216403, 'Paraúna', 'GO', -16.9463, -50.4484, 10659),
+  (5216452, 'Perolândia', 'GO', -17.5258, -52.065, 2964),
+  (5216809, 'Petrolina de Goiás', 'GO', -16.0968, -49.3364, 9573),
+  (5216908, 'Pilar de Goiás', 'GO', -14.7608, -49.5784, 2328),
+  (5217104, 'Piracanjuba', 'GO', -17.302, -49.017, 24883),
+  (5217203, 'Piranhas', 'GO', -16.4258, -51.8235, 11712),
+  (5217302, 'Pirenópolis', 'GO', -15.8507, -48.9584, 26690),
+  (5217401, 'Pires do Rio', 'GO', -17.3019, -48.2768, 32373),
+  (5217609, 'Planaltina', 'GO', -15.452, -47.6089, 105031),
+  (5217708, 'Pontalina', 'GO', -17.5225, -49.4489, 18309),
+  (5218003, 'Porangatu', 'GO', -13.4391, -49.1503, 44317),
+  (5218052, 'Porteirão', 'GO', -17.8143, -50.1653, 4070),
+  (5218102, 'Portelândia', 'GO', -17.3554, -52.6799, 3280),
+  (5218300, 'Posse', 'GO', -14.0859, -46.3704, 34914),
+  (5218391, 'Professor Jamil', 'GO', -17.2497, -49.244, 3649),
+  (5218508, 'Quirinópolis', 'GO', -18.4472, -50.4547, 48447),
+  (5218607, 'Rialma', 'GO', -15.3145, -49.5814, 12165),
+  (5218706, 'Rianápolis', 'GO', -15.4456, -49.5114, 3980),
+  (5218789, 'Rio Quente', 'GO', -17.774, -48.7725, 3864),
+  (5218805, 'Rio Verde', 'GO', -17.7923, -50.9192, 225696),
+  (5218904, 'Rubiataba', 'GO', -15.1617, -49.8048, 19788),
+  (5219001, 'Sanclerlândia', 'GO', -16.197, -50.3124, 7918),
+  (5219100, 'Santa Bárbara de Goiás', 'GO', -16.5714, -49.6954, 6149),
+  (5219209, 'Santa Cruz de Goiás', 'GO', -17.3155, -48.4809, 3002),
+  (5219258, 'Santa Fé de Goiás', 'GO', -15.7664, -51.1037, 4951),
+  (5219308, 'Santa Helena de Goiás', 'GO', -17.8115, -50.5977, 38492),
+  (5219357, 'Santa Isabel', 'GO', -15.2958, -49.4259, 3538),
+  (5219407, 'Santa Rita do Araguaia', 'GO', -17.3269, -53.2012, 5924),
+  (5219456, 'Santa Rita do Novo Destino', 'GO', -15.1351, -49.1203, 2689),
+  (5219506, 'Santa Rosa de Goiás', 'GO', -16.084, -49.4953, 2820),
+  (5219605, 'Santa Tereza de Goiás', 'GO', -13.7138, -49.0144, 3293),
+  (5219704, 'Santa Terezinha de Goiás', 'GO', -14.4326, -49.7091, 10645),
+  (5219712, 'Santo Antônio da Barra', 'GO', -17.5585, -50.6345, 4267),
+  (5219738, 'Santo Antônio de Goiás', 'GO', -16.4815, -49.3096, 7386),
+  (5219753, 'Santo Antônio do Descoberto', 'GO', -15.9412, -48.2578, 72127),
+  (5219803, 'São Domingos', 'GO', -13.621, -46.7415, 9711),
+  (5219902, 'São Francisco de Goiás', 'GO', -15.9256, -49.2605, 6378),
+  (5220009, 'São João d''Aliança', 'GO', -14.7048, -47.5228, 14041),
+  (5220058, 'São João da Paraúna', 'GO', -16.8126, -50.4092, 1774),
+  (5220108, 'São Luís de Montes Belos', 'GO', -16.5211, -50.3726, 33852),
+  (5220157, 'São Luiz do Norte', 'GO', -14.8608, -49.3285, 4837),
+  (5220207, 'São Miguel do Araguaia', 'GO', -13.2731, -50.1634, 21900),
+  (5220264, 'São Miguel do Passa Quatro', 'GO', -17.0582, -48.662, 4464),
+  (5220280, 'São Patrício', 'GO', -15.35, -49.818, 2143),
+  (5220405, 'São Simão', 'GO', -18.996, -50.547, 17020),
+  (5220454, 'Senador Canedo', 'GO', -16.7084, -49.0914, 155635),
+  (5220504, 'Serranópolis', 'GO', -18.3067, -51.9586, 8027),
+  (5220603, 'Silvânia', 'GO', -16.66, -48.6083, 22245),
+  (5220686, 'Simolândia', 'GO', -14.4644, -46.4847, 5742),
+  (5220702, 'Sítio d''Abadia', 'GO', -14.7992, -46.2506, 2927),
+  (5221007, 'Taquaral de Goiás', 'GO', -16.0521, -49.6039, 4026),
+  (5221080, 'Teresina de Goiás', 'GO', -13.7801, -47.2659, 2701),
+  (5221197, 'Terezópolis de Goiás', 'GO', -16.3945, -49.0797, 7944),
+  (5221304, 'Três Ranchos', 'GO', -18.3539, -47.776, 2921),
+  (5221403, 'Trindade', 'GO', -16.6517, -49.4927, 142431),
+  (5221452, 'Trombas', 'GO', -13.5079, -48.7417, 3120),
+  (5221502, 'Turvânia', 'GO', -16.6125, -50.1369, 4480),
+  (5221551, 'Turvelândia', 'GO', -17.8502, -50.3024, 4985),
+  (5221577, 'Uirapuru', 'GO', -14.2835, -49.9201, 2798),
+  (5221601, 'Uruaçu', 'GO', -14.5238, -49.1396, 42546),
+  (5221700, 'Uruana', 'GO', -15.4993, -49.6861, 13729),
+  (5221809, 'Urutaí', 'GO', -17.4651, -48.2015, 3553),
+  (5221858, 'Valparaíso de Goiás', 'GO', -16.0651, -47.9757, 198861),
+  (5221908, 'Varjão', 'GO', -17.0471, -49.6312, 3716),
+  (5222005, 'Vianópolis', 'GO', -16.7405, -48.5159, 14956),
+  (5222054, 'Vicentinópolis', 'GO', -17.7322, -49.8047, 8768),
+  (5222203, 'Vila Boa', 'GO', -15.0387, -47.052, 4215),
+  (5222302, 'Vila Propício', 'GO', -15.4542, -48.8819, 5815),
+  (5300108, 'Brasília', 'DF', -15.7795, -47.9297, 2817381);
+
+-- Lowercase, accent-free name for prefix search ("sao" finds "São Paulo")
+UPDATE public.br_cities SET search_name = lower(public.unaccent(name));
+ALTER TABLE public.br_cities ALTER COLUMN search_name SET NOT NULL;
+
+CREATE INDEX idx_br_cities_search_name ON public.br_cities USING gin (search_name gin_trgm_ops);
+CREATE INDEX idx_br_cities_population ON public.br_cities(population DESC);
@@ -0,0 +1,265 @@
+-- Artists can state the fee they usually start at, compared against organizer budgets
+ALTER TABLE public.artist_profiles
+  ADD COLUMN base_fee NUMERIC(10, 2) CHECK (base_fee >= 0);
+
+-- Compatibility between an organizer and an artist, 0-100, with the 0-1 value of each
+-- factor so the client can explain it:
+--   branch        share of the organizer's preferred branches the artist works in
+--   location      1 inside the artist's travel radius (or 50 km), fading out over 500 km
+--   budget        1 when the artist's base fee fits the organizer's budget range
+--   availability  share of the next 30 days the artist isn't blocked or booked
+-- Factors without enough data are null and count as 0.5 in the score.
+CREATE OR REPLACE FUNCTION public.match_score(_organizer_id uuid, _artist_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organizer public.organizer_profiles;
+  _artist public.artist_profiles;
+  _distance double precision;
+  _budget_max numeric;
+  _branch numeric;
+  _location numeric;
+  _budget numeric;
+  _availability numeric;
+BEGIN
+  SELECT * INTO _organizer FROM public.organizer_profiles WHERE profile_id = _organizer_id;
+  SELECT * INTO _artist FROM public.artist_profiles WHERE profile_id = _artist_id;
+
+  IF _organizer IS NULL OR _artist IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF cardinality(_organizer.preferred_branches) > 0 THEN
+    _branch := (
+      SELECT COUNT(*) FROM unnest(_organizer.preferred_branches) AS b
+      WHERE b = ANY (_artist.artistic_branches)
+    )::numeric / cardinality(_organizer.preferred_branches);
+  END IF;
+
+  SELECT public.distance_km(a.latitude, a.longitude, o.latitude, o.longitude)
+  INTO _distance
+  FROM public.br_cities a, public.br_cities o
+  WHERE a.id = _artist.city_id AND o.id = _organizer.city_id;
+
+  IF _distance IS NOT NULL THEN
+    _location := GREATEST(
+      0,
+      1 - GREATEST(0, _distance - COALESCE(_artist.travel_radius_km, 50)) / 500
+    );
+  END IF;
+
+  _budget_max := CASE _organizer.budget_range
+    WHEN 'up_to_1k' THEN 1000
+    WHEN '1k_5k' THEN 5000
+    WHEN '5k_10k' THEN 10000
+    WHEN '10k_25k' THEN 25000
+    WHEN '25k_50k' THEN 50000
+    WHEN 'above_50k' THEN 'Infinity'::numeric
+  END;
+
+  IF _budget_max IS NOT NULL AND _artist.base_fee IS NOT NULL THEN
+    _budget := CASE
+      WHEN _artist.base_fee <= _budget_max THEN 1
+      ELSE GREATEST(0, 1 - (_artist.base_fee - _budget_max) / _budget_max)
+    END;
+  END IF;
+
+  _availability := (
+    SELECT COUNT(*) FILTER (
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.artist_availability aa
+        WHERE aa.artist_id = _artist_id
+          AND aa.status = 'blocked'
+          AND day::date BETWEEN aa.start_date AND aa.end_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings bk
+        WHERE bk.artist_id = _artist_id
+          AND bk.status = 'confirmed'
+          AND bk.event_date = day::date
+      )
+    )::numeric / 30
+    FROM generate_series(CURRENT_DATE, CURRENT_DATE + 29, interval '1 day') AS day
+  );
+
+  RETURN jsonb_build_object(
+    'score', ROUND(100 * (
+      0.4 * COALESCE(_branch, 0.5)
+      + 0.25 * COALESCE(_location, 0.5)
+      + 0.2 * COALESCE(_budget, 0.5)
+      + 0.15 * _availability
+    ))::integer,
+    'branch', ROUND(_branch, 2),
+    'location', ROUND(_location, 2),
+    'distance_km', ROUND(_distance::numeric, 1),
+    'budget', ROUND(_budget, 2),
+    'availability', ROUND(_availability, 2)
+  );
+END;
+$$;
+
+-- search_profiles returns the match score for each result and sorts by it by default
+DROP FUNCTION IF EXISTS public.search_profiles(
+  text, integer, integer, public.artistic_branch, boolean, date, numeric, text, integer, numeric, timestamptz, uuid
+);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _near_city_id integer DEFAULT NULL,
+  _radius_km integer DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _sort text DEFAULT 'match',
+  _limit integer DEFAULT 20,
+  _cursor_sort_key numeric DEFAULT NULL,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  distance_km numeric,
+  match_score integer,
+  match_breakdown jsonb,
+  average_rating numeric,
+  review_count bigint,
+  created_at timestamptz,
+  sort_key numeric,
+  headline text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT id, user_type FROM public.profiles WHERE id = auth.uid()
+  ),
+  search_query AS (
+    SELECT websearch_to_tsquery('public.portuguese_unaccent', _search) AS tsq
+  ),
+  near_city AS (
+    SELECT latitude, longitude FROM public.br_cities WHERE id = _near_city_id
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      p.user_type,
+      p.created_at,
+      ap.skills,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1) AS distance_km,
+      ap.travel_radius_km,
+      (ms.breakdown->>'score')::integer AS match_score,
+      ms.breakdown AS match_breakdown,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count,
+      CASE
+        WHEN _sort = 'rating' THEN COALESCE(r.average_rating, 0)
+        WHEN _sort = 'match' THEN COALESCE((ms.breakdown->>'score')::numeric, 0)
+        WHEN _sort = 'distance' AND _near_city_id IS NOT NULL THEN -COALESCE(
+          ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1),
+          100000
+        )
+        WHEN _search IS NOT NULL THEN ROUND(
+          (ts_rank_cd(p.search_document, search_query.tsq) + similarity(p.full_name, _search))::numeric, 4
+        )
+        ELSE 0
+      END AS sort_key
+    FROM public.profiles p
+    CROSS JOIN me
+    CROSS JOIN search_query
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.br_cities city ON city.id = COALESCE(ap.city_id, op.city_id)
+    LEFT JOIN near_city near ON true
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT CASE me.user_type
+        WHEN 'organizer' THEN public.match_score(me.id, p.id)
+        ELSE public.match_score(p.id, me.id)
+      END AS breakdown
+    ) ms
+    WHERE p.id <> me.id
+      AND p.user_type = CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+      AND (
+        _search IS NULL
+        OR p.search_document @@ search_query.tsq
+        OR p.full_name ILIKE '%' || _search || '%'
+      )
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+  ),
+  -- Within the radius of the chosen city, or an artist willing to travel that far
+  in_range AS (
+    SELECT * FROM matches m
+    WHERE _near_city_id IS NULL
+      OR m.distance_km <= GREATEST(COALESCE(_radius_km, 0), COALESCE(m.travel_radius_km, 0))
+  ),
+  page AS (
+    SELECT ir.*, COUNT(*) OVER () AS total_count
+    FROM in_range ir
+  ),
+  limited AS (
+    SELECT * FROM page pg
+    WHERE _cursor_id IS NULL
+      OR (pg.sort_key, pg.created_at, pg.id) < (_cursor_sort_key, _cursor_created_at, _cursor_id)
+    ORDER BY pg.sort_key DESC, pg.created_at DESC, pg.id DESC
+    LIMIT _limit
+  )
+  -- Headlines are only built for the rows being returned
+  SELECT
+    l.id,
+    l.full_name,
+    l.bio,
+    l.avatar_url,
+    l.user_type,
+    l.artistic_branches,
+    l.preferred_branches,
+    l.company_name,
+    l.location,
+    l.distance_km,
+    l.match_score,
+    l.match_breakdown,
+    l.average_rating,
+    l.review_count,
+    l.created_at,
+    l.sort_key,
+    CASE WHEN _search IS NOT NULL THEN ts_headline(
+      'public.portuguese_unaccent',
+      concat_ws(' · ', l.bio, array_to_string(l.skills, ', '), l.company_name),
+      search_query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+    ) END AS headline,
+    l.total_count
+  FROM limited l
+  CROSS JOIN search_query
+  ORDER BY l.sort_key DESC, l.created_at DESC, l.id DESC
+$$;
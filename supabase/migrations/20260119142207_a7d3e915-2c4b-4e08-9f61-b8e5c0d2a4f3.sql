@@ -0,0 +1,184 @@
+-- Saved Feed searches with alerts for new matching profiles
+CREATE TYPE public.saved_search_alert AS ENUM ('off', 'instant', 'daily');
+
+-- filters uses the Feed's URL parameter names (q, city, radius, branch, rating)
+CREATE TABLE public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  filters JSONB NOT NULL DEFAULT '{}',
+  alert public.saved_search_alert NOT NULL DEFAULT 'instant',
+  last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their saved searches"
+  ON public.saved_searches FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their saved searches"
+  ON public.saved_searches FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their saved searches"
+  ON public.saved_searches FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their saved searches"
+  ON public.saved_searches FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- last_checked_at is maintained by the evaluation job
+REVOKE UPDATE ON public.saved_searches FROM authenticated;
+GRANT UPDATE (name, filters, alert) ON public.saved_searches TO authenticated;
+
+CREATE TRIGGER set_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Turning alerts back on (or changing the filters) starts from now instead of
+-- flooding the user with every profile created in the meantime
+CREATE OR REPLACE FUNCTION public.reset_saved_search_checkpoint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (OLD.alert = 'off' AND NEW.alert <> 'off') OR NEW.filters IS DISTINCT FROM OLD.filters THEN
+    NEW.last_checked_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_saved_searches_checkpoint
+  BEFORE UPDATE OF alert, filters ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_saved_search_checkpoint();
+
+CREATE INDEX idx_saved_searches_user ON public.saved_searches(user_id);
+CREATE INDEX idx_saved_searches_alert ON public.saved_searches(alert) WHERE alert <> 'off';
+
+-- Profiles found by the evaluation job; seen_at is set once the user has looked at them
+CREATE TABLE public.saved_search_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  seen_at TIMESTAMPTZ,
+  UNIQUE (saved_search_id, profile_id)
+);
+
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view matches of their saved searches"
+  ON public.saved_search_matches FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_searches s
+      WHERE s.id = saved_search_id AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can mark matches of their saved searches as seen"
+  ON public.saved_search_matches FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_searches s
+      WHERE s.id = saved_search_id AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can dismiss matches of their saved searches"
+  ON public.saved_search_matches FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_searches s
+      WHERE s.id = saved_search_id AND s.user_id = auth.uid()
+    )
+  );
+
+REVOKE UPDATE ON public.saved_search_matches FROM authenticated;
+GRANT UPDATE (seen_at) ON public.saved_search_matches TO authenticated;
+
+CREATE INDEX idx_saved_search_matches_unseen
+  ON public.saved_search_matches(saved_search_id)
+  WHERE seen_at IS NULL;
+
+-- Runs every saved search with the given alert frequency and records the profiles
+-- created since its last check. search_profiles filters relative to auth.uid(), so
+-- each search is evaluated with the JWT claims of its owner for the transaction.
+CREATE OR REPLACE FUNCTION public.evaluate_saved_searches(_alert public.saved_search_alert)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _saved public.saved_searches;
+  _checked_at timestamptz := NOW();
+  _inserted integer;
+  _total integer := 0;
+BEGIN
+  FOR _saved IN SELECT * FROM public.saved_searches WHERE alert = _alert AND _alert <> 'off' LOOP
+    PERFORM set_config(
+      'request.jwt.claims',
+      json_build_object('sub', _saved.user_id, 'role', 'authenticated')::text,
+      true
+    );
+
+    INSERT INTO public.saved_search_matches (saved_search_id, profile_id)
+    SELECT _saved.id, sp.id
+    FROM public.search_profiles(
+      _search => NULLIF(_saved.filters->>'q', ''),
+      _near_city_id => (_saved.filters->>'city')::integer,
+      _radius_km => COALESCE((_saved.filters->>'radius')::integer, 50),
+      _branch => NULLIF(_saved.filters->>'branch', 'all')::public.artistic_branch,
+      _min_rating => NULLIF(_saved.filters->>'rating', 'any')::numeric,
+      _sort => 'relevance',
+      _limit => 1000
+    ) sp
+    WHERE sp.created_at > _saved.last_checked_at
+    ON CONFLICT (saved_search_id, profile_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _total := _total + _inserted;
+
+    UPDATE public.saved_searches SET last_checked_at = _checked_at WHERE id = _saved.id;
+  END LOOP;
+
+  PERFORM set_config('request.jwt.claims', '', true);
+
+  RETURN _total;
+END;
+$$;
+
+-- Only the scheduler may impersonate users
+REVOKE EXECUTE ON FUNCTION public.evaluate_saved_searches(public.saved_search_alert) FROM PUBLIC, anon, authenticated;
+
+-- Instant alerts are checked hourly; daily digests arrive at 08:00 in São Paulo
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'evaluate-saved-searches-instant',
+  '0 * * * *',
+  $$SELECT public.evaluate_saved_searches('instant')$$
+);
+
+SELECT cron.schedule(
+  'evaluate-saved-searches-daily',
+  '0 11 * * *',
+  $$SELECT public.evaluate_saved_searches('daily')$$
+);
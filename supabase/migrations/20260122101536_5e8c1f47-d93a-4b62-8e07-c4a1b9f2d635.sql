@@ -0,0 +1,101 @@
+-- Private notes and tags on each favorite
+ALTER TABLE public.favorites
+  ADD COLUMN notes TEXT CHECK (char_length(notes) <= 2000),
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE POLICY "Users can update their own favorites"
+  ON public.favorites FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.favorites FROM authenticated;
+GRANT UPDATE (notes, tags) ON public.favorites TO authenticated;
+
+CREATE INDEX idx_favorites_tags ON public.favorites USING gin (tags);
+
+-- Named shortlists ("Casamento Ana - junho"); a favorite can be in any number of them
+CREATE TABLE public.favorite_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.favorite_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their favorite lists"
+  ON public.favorite_lists FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their favorite lists"
+  ON public.favorite_lists FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their favorite lists"
+  ON public.favorite_lists FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their favorite lists"
+  ON public.favorite_lists FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_favorite_lists_updated_at
+  BEFORE UPDATE ON public.favorite_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_favorite_lists_user ON public.favorite_lists(user_id);
+
+-- Removing a favorite also takes it out of every list
+CREATE TABLE public.favorite_list_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES public.favorite_lists(id) ON DELETE CASCADE,
+  favorite_id UUID NOT NULL REFERENCES public.favorites(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (list_id, favorite_id)
+);
+
+ALTER TABLE public.favorite_list_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view entries of their lists"
+  ON public.favorite_list_entries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.favorite_lists l
+      WHERE l.id = list_id AND l.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add their favorites to their lists"
+  ON public.favorite_list_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.favorite_lists l
+      WHERE l.id = list_id AND l.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.favorites f
+      WHERE f.id = favorite_id AND f.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove entries from their lists"
+  ON public.favorite_list_entries FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.favorite_lists l
+      WHERE l.id = list_id AND l.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_favorite_list_entries_favorite ON public.favorite_list_entries(favorite_id);
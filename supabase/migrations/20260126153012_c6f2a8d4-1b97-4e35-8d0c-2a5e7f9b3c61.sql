@@ -0,0 +1,443 @@
+-- Artist pricing: a rate card (base fee, hourly rate, travel fee rules, currency)
+-- and any number of named packages. Replaces artist_profiles.base_fee.
+CREATE TABLE public.artist_rate_cards (
+  artist_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  currency CHAR(3) NOT NULL DEFAULT 'BRL' CHECK (currency IN ('BRL', 'USD', 'EUR')),
+  base_fee NUMERIC(10, 2) CHECK (base_fee >= 0),
+  hourly_rate NUMERIC(10, 2) CHECK (hourly_rate >= 0),
+  free_travel_km INTEGER CHECK (free_travel_km >= 0),
+  travel_fee_per_km NUMERIC(10, 2) CHECK (travel_fee_per_km >= 0),
+  travel_notes TEXT CHECK (char_length(travel_notes) <= 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.artist_rate_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Rate cards are viewable by authenticated users"
+  ON public.artist_rate_cards FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Artists can create their rate card"
+  ON public.artist_rate_cards FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = artist_id
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'artist')
+  );
+
+CREATE POLICY "Artists can update their rate card"
+  ON public.artist_rate_cards FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = artist_id)
+  WITH CHECK (auth.uid() = artist_id);
+
+CREATE POLICY "Artists can delete their rate card"
+  ON public.artist_rate_cards FOR DELETE
+  TO authenticated
+  USING (auth.uid() = artist_id);
+
+CREATE TRIGGER set_artist_rate_cards_updated_at
+  BEFORE UPDATE ON public.artist_rate_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.artist_rate_cards (artist_id, base_fee)
+SELECT profile_id, base_fee FROM public.artist_profiles WHERE base_fee IS NOT NULL;
+
+CREATE TABLE public.artist_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT CHECK (char_length(description) <= 1000),
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  duration_minutes INTEGER CHECK (duration_minutes > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.artist_packages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Packages are viewable by authenticated users"
+  ON public.artist_packages FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Artists can create their packages"
+  ON public.artist_packages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = artist_id
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND user_type = 'artist')
+  );
+
+CREATE POLICY "Artists can update their packages"
+  ON public.artist_packages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = artist_id)
+  WITH CHECK (auth.uid() = artist_id);
+
+CREATE POLICY "Artists can delete their packages"
+  ON public.artist_packages FOR DELETE
+  TO authenticated
+  USING (auth.uid() = artist_id);
+
+CREATE TRIGGER set_artist_packages_updated_at
+  BEFORE UPDATE ON public.artist_packages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE INDEX idx_artist_packages_artist ON public.artist_packages(artist_id, position);
+
+-- Upper bound of an organizer budget_range (see budgetRanges in src/lib/constants.ts)
+CREATE OR REPLACE FUNCTION public.budget_range_max(_budget_range text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _budget_range
+    WHEN 'up_to_1k' THEN 1000
+    WHEN '1k_5k' THEN 5000
+    WHEN '5k_10k' THEN 10000
+    WHEN '10k_25k' THEN 25000
+    WHEN '25k_50k' THEN 50000
+    WHEN 'above_50k' THEN 'Infinity'::numeric
+  END
+$$;
+
+-- Cheapest way to book an artist: the base fee or the cheapest package. Budgets are
+-- in reais, so rate cards in other currencies have no comparable price.
+CREATE OR REPLACE FUNCTION public.artist_starting_price(_artist_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT LEAST(
+    rc.base_fee,
+    (SELECT MIN(pk.price) FROM public.artist_packages pk WHERE pk.artist_id = _artist_id)
+  )
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.artist_rate_cards rc ON rc.artist_id = _artist_id
+  WHERE COALESCE(rc.currency, 'BRL') = 'BRL'
+$$;
+
+-- The budget factor now uses the starting price from the rate card and packages
+CREATE OR REPLACE FUNCTION public.match_score(_organizer_id uuid, _artist_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organizer public.organizer_profiles;
+  _artist public.artist_profiles;
+  _distance double precision;
+  _budget_max numeric;
+  _starting_price numeric;
+  _branch numeric;
+  _location numeric;
+  _budget numeric;
+  _availability numeric;
+BEGIN
+  SELECT * INTO _organizer FROM public.organizer_profiles WHERE profile_id = _organizer_id;
+  SELECT * INTO _artist FROM public.artist_profiles WHERE profile_id = _artist_id;
+
+  IF _organizer IS NULL OR _artist IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF cardinality(_organizer.preferred_branches) > 0 THEN
+    _branch := (
+      SELECT COUNT(*) FROM unnest(_organizer.preferred_branches) AS b
+      WHERE b = ANY (_artist.artistic_branches)
+    )::numeric / cardinality(_organizer.preferred_branches);
+  END IF;
+
+  SELECT public.distance_km(a.latitude, a.longitude, o.latitude, o.longitude)
+  INTO _distance
+  FROM public.br_cities a, public.br_cities o
+  WHERE a.id = _artist.city_id AND o.id = _organizer.city_id;
+
+  IF _distance IS NOT NULL THEN
+    _location := GREATEST(
+      0,
+      1 - GREATEST(0, _distance - COALESCE(_artist.travel_radius_km, 50)) / 500
+    );
+  END IF;
+
+  _budget_max := public.budget_range_max(_organizer.budget_range);
+  _starting_price := public.artist_starting_price(_artist_id);
+
+  IF _budget_max IS NOT NULL AND _starting_price IS NOT NULL THEN
+    _budget := CASE
+      WHEN _starting_price <= _budget_max THEN 1
+      ELSE GREATEST(0, 1 - (_starting_price - _budget_max) / _budget_max)
+    END;
+  END IF;
+
+  _availability := (
+    SELECT COUNT(*) FILTER (
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.artist_availability aa
+        WHERE aa.artist_id = _artist_id
+          AND aa.status = 'blocked'
+          AND day::date BETWEEN aa.start_date AND aa.end_date
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings bk
+        WHERE bk.artist_id = _artist_id
+          AND bk.status = 'confirmed'
+          AND bk.event_date = day::date
+      )
+    )::numeric / 30
+    FROM generate_series(CURRENT_DATE, CURRENT_DATE + 29, interval '1 day') AS day
+  );
+
+  RETURN jsonb_build_object(
+    'score', ROUND(100 * (
+      0.4 * COALESCE(_branch, 0.5)
+      + 0.25 * COALESCE(_location, 0.5)
+      + 0.2 * COALESCE(_budget, 0.5)
+      + 0.15 * _availability
+    ))::integer,
+    'branch', ROUND(_branch, 2),
+    'location', ROUND(_location, 2),
+    'distance_km', ROUND(_distance::numeric, 1),
+    'budget', ROUND(_budget, 2),
+    'availability', ROUND(_availability, 2)
+  );
+END;
+$$;
+
+
+ALTER TABLE public.artist_profiles DROP COLUMN base_fee;
+
+-- search_profiles can keep only artists whose starting price fits the organizer's
+-- budget range, and returns the starting price for the Feed cards
+DROP FUNCTION IF EXISTS public.search_profiles(
+  text, integer, integer, public.artistic_branch, boolean, date, numeric, text, integer, numeric, timestamptz, uuid
+);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _near_city_id integer DEFAULT NULL,
+  _radius_km integer DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _within_budget boolean DEFAULT false,
+  _sort text DEFAULT 'match',
+  _limit integer DEFAULT 20,
+  _cursor_sort_key numeric DEFAULT NULL,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  distance_km numeric,
+  match_score integer,
+  match_breakdown jsonb,
+  starting_price numeric,
+  currency text,
+  average_rating numeric,
+  review_count bigint,
+  created_at timestamptz,
+  sort_key numeric,
+  headline text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT p.id, p.user_type, public.budget_range_max(op.budget_range) AS budget_max
+    FROM public.profiles p
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    WHERE p.id = auth.uid()
+  ),
+  search_query AS (
+    SELECT websearch_to_tsquery('public.portuguese_unaccent', _search) AS tsq
+  ),
+  near_city AS (
+    SELECT latitude, longitude FROM public.br_cities WHERE id = _near_city_id
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      p.user_type,
+      p.created_at,
+      ap.skills,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1) AS distance_km,
+      ap.travel_radius_km,
+      (ms.breakdown->>'score')::integer AS match_score,
+      ms.breakdown AS match_breakdown,
+      public.artist_starting_price(p.id) AS starting_price,
+      rc.currency,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count,
+      CASE
+        WHEN _sort = 'rating' THEN COALESCE(r.average_rating, 0)
+        WHEN _sort = 'match' THEN COALESCE((ms.breakdown->>'score')::numeric, 0)
+        WHEN _sort = 'distance' AND _near_city_id IS NOT NULL THEN -COALESCE(
+          ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1),
+          100000
+        )
+        WHEN _search IS NOT NULL THEN ROUND(
+          (ts_rank_cd(p.search_document, search_query.tsq) + similarity(p.full_name, _search))::numeric, 4
+        )
+        ELSE 0
+      END AS sort_key
+    FROM public.profiles p
+    CROSS JOIN me
+    CROSS JOIN search_query
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.artist_rate_cards rc ON rc.artist_id = p.id
+    LEFT JOIN public.br_cities city ON city.id = COALESCE(ap.city_id, op.city_id)
+    LEFT JOIN near_city near ON true
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT CASE me.user_type
+        WHEN 'organizer' THEN public.match_score(me.id, p.id)
+        ELSE public.match_score(p.id, me.id)
+      END AS breakdown
+    ) ms
+    WHERE p.id <> me.id
+      AND p.user_type = CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+      AND (
+        _search IS NULL
+        OR p.search_document @@ search_query.tsq
+        OR p.full_name ILIKE '%' || _search || '%'
+      )
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+      AND (
+        NOT _within_budget
+        OR me.budget_max IS NULL
+        OR public.artist_starting_price(p.id) <= me.budget_max
+      )
+  ),
+  -- Within the radius of the chosen city, or an artist willing to travel that far
+  in_range AS (
+    SELECT * FROM matches m
+    WHERE _near_city_id IS NULL
+      OR m.distance_km <= GREATEST(COALESCE(_radius_km, 0), COALESCE(m.travel_radius_km, 0))
+  ),
+  page AS (
+    SELECT ir.*, COUNT(*) OVER () AS total_count
+    FROM in_range ir
+  ),
+  limited AS (
+    SELECT * FROM page pg
+    WHERE _cursor_id IS NULL
+      OR (pg.sort_key, pg.created_at, pg.id) < (_cursor_sort_key, _cursor_created_at, _cursor_id)
+    ORDER BY pg.sort_key DESC, pg.created_at DESC, pg.id DESC
+    LIMIT _limit
+  )
+  -- Headlines are only built for the rows being returned
+  SELECT
+    l.id,
+    l.full_name,
+    l.bio,
+    l.avatar_url,
+    l.user_type,
+    l.artistic_branches,
+    l.preferred_branches,
+    l.company_name,
+    l.location,
+    l.distance_km,
+    l.match_score,
+    l.match_breakdown,
+    l.starting_price,
+    l.currency,
+    l.average_rating,
+    l.review_count,
+    l.created_at,
+    l.sort_key,
+    CASE WHEN _search IS NOT NULL THEN ts_headline(
+      'public.portuguese_unaccent',
+      concat_ws(' · ', l.bio, array_to_string(l.skills, ', '), l.company_name),
+      search_query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+    ) END AS headline,
+    l.total_count
+  FROM limited l
+  CROSS JOIN search_query
+  ORDER BY l.sort_key DESC, l.created_at DESC, l.id DESC
+$$;
+
+-- Saved searches can include the budget filter
+CREATE OR REPLACE FUNCTION public.evaluate_saved_searches(_alert public.saved_search_alert)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _saved public.saved_searches;
+  _checked_at timestamptz := NOW();
+  _inserted integer;
+  _total integer := 0;
+BEGIN
+  FOR _saved IN SELECT * FROM public.saved_searches WHERE alert = _alert AND _alert <> 'off' LOOP
+    PERFORM set_config(
+      'request.jwt.claims',
+      json_build_object('sub', _saved.user_id, 'role', 'authenticated')::text,
+      true
+    );
+
+    INSERT INTO public.saved_search_matches (saved_search_id, profile_id)
+    SELECT _saved.id, sp.id
+    FROM public.search_profiles(
+      _search => NULLIF(_saved.filters->>'q', ''),
+      _near_city_id => (_saved.filters->>'city')::integer,
+      _radius_km => COALESCE((_saved.filters->>'radius')::integer, 50),
+      _branch => NULLIF(_saved.filters->>'branch', 'all')::public.artistic_branch,
+      _min_rating => NULLIF(_saved.filters->>'rating', 'any')::numeric,
+      _within_budget => COALESCE(_saved.filters->>'budget' = '1', false),
+      _sort => 'relevance',
+      _limit => 1000
+    ) sp
+    WHERE sp.created_at > _saved.last_checked_at
+    ON CONFLICT (saved_search_id, profile_id) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+    _total := _total + _inserted;
+
+    UPDATE public.saved_searches SET last_checked_at = _checked_at WHERE id = _saved.id;
+  END LOOP;
+
+  PERFORM set_config('request.jwt.claims', '', true);
+
+  RETURN _total;
+END;
+$$;
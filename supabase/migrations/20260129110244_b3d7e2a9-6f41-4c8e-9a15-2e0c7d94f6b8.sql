@@ -0,0 +1,12 @@
+-- Portfolio items can now be audio and short video clips, not just images.
+-- Items stay {url, type} objects; type is one of image, audio, video or embed
+-- (a YouTube/SoundCloud/Spotify link rendered as a player).
+UPDATE storage.buckets
+SET
+  file_size_limit = 52428800,
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+    'audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/x-wav',
+    'video/mp4', 'video/webm'
+  ]
+WHERE id = 'portfolio';
@@ -0,0 +1,203 @@
+-- Portfolio items gain optional title, description, date, event and a cover flag.
+-- Order is the array order, which the artist can now rearrange.
+-- Only one item can be the cover
+ALTER TABLE public.artist_profiles
+  ADD CONSTRAINT artist_profiles_single_portfolio_cover CHECK (
+    jsonb_array_length(jsonb_path_query_array(portfolio_items, '$[*] ? (@.cover == true)')) <= 1
+  );
+
+-- URL of the image flagged as cover, if any
+CREATE OR REPLACE FUNCTION public.portfolio_cover_url(_items jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT item->>'url'
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_items) = 'array' THEN _items ELSE '[]'::jsonb END) AS item
+  WHERE jsonb_typeof(item) = 'object'
+    AND item->>'type' = 'image'
+    AND (item->>'cover')::boolean IS TRUE
+  LIMIT 1
+$$;
+
+-- Feed cards show the artist's cover image
+DROP FUNCTION IF EXISTS public.search_profiles(
+  text, integer, integer, public.artistic_branch, boolean, date, numeric, boolean, text, integer, numeric, timestamptz, uuid
+);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _near_city_id integer DEFAULT NULL,
+  _radius_km integer DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _within_budget boolean DEFAULT false,
+  _sort text DEFAULT 'match',
+  _limit integer DEFAULT 20,
+  _cursor_sort_key numeric DEFAULT NULL,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  cover_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  distance_km numeric,
+  match_score integer,
+  match_breakdown jsonb,
+  starting_price numeric,
+  currency text,
+  average_rating numeric,
+  review_count bigint,
+  created_at timestamptz,
+  sort_key numeric,
+  headline text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT p.id, p.user_type, public.budget_range_max(op.budget_range) AS budget_max
+    FROM public.profiles p
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    WHERE p.id = auth.uid()
+  ),
+  search_query AS (
+    SELECT websearch_to_tsquery('public.portuguese_unaccent', _search) AS tsq
+  ),
+  near_city AS (
+    SELECT latitude, longitude FROM public.br_cities WHERE id = _near_city_id
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      public.portfolio_cover_url(ap.portfolio_items) AS cover_url,
+      p.user_type,
+      p.created_at,
+      ap.skills,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1) AS distance_km,
+      ap.travel_radius_km,
+      (ms.breakdown->>'score')::integer AS match_score,
+      ms.breakdown AS match_breakdown,
+      public.artist_starting_price(p.id) AS starting_price,
+      rc.currency,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count,
+      CASE
+        WHEN _sort = 'rating' THEN COALESCE(r.average_rating, 0)
+        WHEN _sort = 'match' THEN COALESCE((ms.breakdown->>'score')::numeric, 0)
+        WHEN _sort = 'distance' AND _near_city_id IS NOT NULL THEN -COALESCE(
+          ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1),
+          100000
+        )
+        WHEN _search IS NOT NULL THEN ROUND(
+          (ts_rank_cd(p.search_document, search_query.tsq) + similarity(p.full_name, _search))::numeric, 4
+        )
+        ELSE 0
+      END AS sort_key
+    FROM public.profiles p
+    CROSS JOIN me
+    CROSS JOIN search_query
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.artist_rate_cards rc ON rc.artist_id = p.id
+    LEFT JOIN public.br_cities city ON city.id = COALESCE(ap.city_id, op.city_id)
+    LEFT JOIN near_city near ON true
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    CROSS JOIN LATERAL (
+      SELECT CASE me.user_type
+        WHEN 'organizer' THEN public.match_score(me.id, p.id)
+        ELSE public.match_score(p.id, me.id)
+      END AS breakdown
+    ) ms
+    WHERE p.id <> me.id
+      AND p.user_type = CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+      AND (
+        _search IS NULL
+        OR p.search_document @@ search_query.tsq
+        OR p.full_name ILIKE '%' || _search || '%'
+      )
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+      AND (
+        NOT _within_budget
+        OR me.budget_max IS NULL
+        OR public.artist_starting_price(p.id) <= me.budget_max
+      )
+  ),
+  -- Within the radius of the chosen city, or an artist willing to travel that far
+  in_range AS (
+    SELECT * FROM matches m
+    WHERE _near_city_id IS NULL
+      OR m.distance_km <= GREATEST(COALESCE(_radius_km, 0), COALESCE(m.travel_radius_km, 0))
+  ),
+  page AS (
+    SELECT ir.*, COUNT(*) OVER () AS total_count
+    FROM in_range ir
+  ),
+  limited AS (
+    SELECT * FROM page pg
+    WHERE _cursor_id IS NULL
+      OR (pg.sort_key, pg.created_at, pg.id) < (_cursor_sort_key, _cursor_created_at, _cursor_id)
+    ORDER BY pg.sort_key DESC, pg.created_at DESC, pg.id DESC
+    LIMIT _limit
+  )
+  -- Headlines are only built for the rows being returned
+  SELECT
+    l.id,
+    l.full_name,
+    l.bio,
+    l.avatar_url,
+    l.cover_url,
+    l.user_type,
+    l.artistic_branches,
+    l.preferred_branches,
+    l.company_name,
+    l.location,
+    l.distance_km,
+    l.match_score,
+    l.match_breakdown,
+    l.starting_price,
+    l.currency,
+    l.average_rating,
+    l.review_count,
+    l.created_at,
+    l.sort_key,
+    CASE WHEN _search IS NOT NULL THEN ts_headline(
+      'public.portuguese_unaccent',
+      concat_ws(' · ', l.bio, array_to_string(l.skills, ', '), l.company_name),
+      search_query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+    ) END AS headline,
+    l.total_count
+  FROM limited l
+  CROSS JOIN search_query
+  ORDER BY l.sort_key DESC, l.created_at DESC, l.id DESC
+$$;
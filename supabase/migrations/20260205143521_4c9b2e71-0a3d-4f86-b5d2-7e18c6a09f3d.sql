@@ -0,0 +1,15 @@
+-- Uploaded portfolio images now carry a thumb_url (a small WebP made by the
+-- process-image edge function); Feed cards load that instead of the full image
+CREATE OR REPLACE FUNCTION public.portfolio_cover_url(_items jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(item->>'thumb_url', item->>'url')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_items) = 'array' THEN _items ELSE '[]'::jsonb END) AS item
+  WHERE jsonb_typeof(item) = 'object'
+    AND item->>'type' = 'image'
+    AND (item->>'cover')::boolean IS TRUE
+  LIMIT 1
+$$;
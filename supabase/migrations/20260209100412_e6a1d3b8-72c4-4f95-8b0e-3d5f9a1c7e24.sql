@@ -0,0 +1,63 @@
+-- Opt-in public artist pages at /a/:slug, readable without logging in
+ALTER TABLE public.artist_profiles
+  ADD COLUMN public_slug TEXT CHECK (public_slug ~ '^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$'),
+  ADD COLUMN is_public BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX idx_artist_profiles_public_slug ON public.artist_profiles(public_slug);
+
+-- Anonymous visitors never touch the tables directly: this returns only the
+-- fields that are safe to show off-platform (no email, phone or reviews text),
+-- and nothing at all unless the artist turned public mode on
+CREATE OR REPLACE FUNCTION public.get_public_profile(_slug text)
+RETURNS TABLE (
+  id uuid,
+  public_slug text,
+  full_name text,
+  pronouns text,
+  bio text,
+  avatar_url text,
+  cover_url text,
+  artistic_branches public.artistic_branch[],
+  skills text[],
+  experience_years integer,
+  location text,
+  travel_radius_km integer,
+  portfolio_items jsonb,
+  starting_price numeric,
+  currency text,
+  average_rating numeric,
+  review_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    ap.public_slug,
+    p.full_name,
+    p.pronouns,
+    p.bio,
+    p.avatar_url,
+    public.portfolio_cover_url(ap.portfolio_items),
+    ap.artistic_branches,
+    ap.skills,
+    ap.experience_years,
+    ap.location,
+    ap.travel_radius_km,
+    COALESCE(ap.portfolio_items, '[]'::jsonb),
+    public.artist_starting_price(p.id),
+    rc.currency,
+    r.average_rating,
+    COALESCE(r.review_count, 0)
+  FROM public.artist_profiles ap
+  JOIN public.profiles p ON p.id = ap.profile_id
+  LEFT JOIN public.artist_rate_cards rc ON rc.artist_id = p.id
+  LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+  WHERE ap.public_slug = lower(_slug)
+    AND ap.is_public
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_public_profile(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_public_profile(text) TO anon, authenticated;
@@ -0,0 +1,223 @@
+-- Conversations as stored records: one row per pair of users, plus one participant row
+-- per user with their unread counter and last-read pointer. Both are maintained by
+-- triggers on messages, so clients only ever read them.
+CREATE TABLE public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The pair is stored in a canonical order so each pair maps to a single row
+  user_low UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_high UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (user_low < user_high),
+  UNIQUE (user_low, user_high)
+);
+
+CREATE TABLE public.conversation_participants (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  unread_count INTEGER NOT NULL DEFAULT 0 CHECK (unread_count >= 0),
+  last_read_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  last_read_at TIMESTAMPTZ,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their conversations"
+  ON public.conversations FOR SELECT
+  TO authenticated
+  USING (auth.uid() IN (user_low, user_high));
+
+-- Both sides of a thread are visible, so read pointers can back read receipts
+CREATE POLICY "Users can view participants of their conversations"
+  ON public.conversation_participants FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.conversations c
+      WHERE c.id = conversation_id AND auth.uid() IN (c.user_low, c.user_high)
+    )
+  );
+
+ALTER TABLE public.messages
+  ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+-- Backfill one conversation per pair that has exchanged messages
+INSERT INTO public.conversations (user_low, user_high, created_at)
+SELECT LEAST(sender_id, receiver_id), GREATEST(sender_id, receiver_id), MIN(created_at)
+FROM public.messages
+GROUP BY 1, 2;
+
+UPDATE public.messages m
+SET conversation_id = c.id
+FROM public.conversations c
+WHERE c.user_low = LEAST(m.sender_id, m.receiver_id)
+  AND c.user_high = GREATEST(m.sender_id, m.receiver_id);
+
+UPDATE public.conversations c
+SET last_message_id = latest.id, last_message_at = latest.created_at
+FROM (
+  SELECT DISTINCT ON (conversation_id) conversation_id, id, created_at
+  FROM public.messages
+  ORDER BY conversation_id, created_at DESC, id DESC
+) latest
+WHERE latest.conversation_id = c.id;
+
+-- A participant has read everything up to their own latest message or latest read message
+INSERT INTO public.conversation_participants (conversation_id, user_id, unread_count, last_read_message_id, last_read_at)
+SELECT
+  c.id,
+  p.user_id,
+  (
+    SELECT COUNT(*) FROM public.messages m
+    WHERE m.conversation_id = c.id AND m.receiver_id = p.user_id AND NOT m.read
+  ),
+  seen.id,
+  seen.created_at
+FROM public.conversations c
+CROSS JOIN LATERAL (VALUES (c.user_low), (c.user_high)) AS p(user_id)
+LEFT JOIN LATERAL (
+  SELECT m.id, m.created_at FROM public.messages m
+  WHERE m.conversation_id = c.id AND (m.sender_id = p.user_id OR m.read)
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1
+) seen ON true;
+
+CREATE INDEX idx_messages_conversation ON public.messages(conversation_id, created_at DESC);
+CREATE INDEX idx_conversation_participants_user ON public.conversation_participants(user_id);
+
+-- File every new message under its conversation, creating the conversation on first contact
+CREATE OR REPLACE FUNCTION public.assign_message_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sender_id = NEW.receiver_id THEN
+    RAISE EXCEPTION 'Cannot send a message to yourself';
+  END IF;
+
+  INSERT INTO public.conversations (user_low, user_high)
+  VALUES (LEAST(NEW.sender_id, NEW.receiver_id), GREATEST(NEW.sender_id, NEW.receiver_id))
+  ON CONFLICT (user_low, user_high) DO UPDATE SET user_low = EXCLUDED.user_low
+  RETURNING id INTO NEW.conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (NEW.conversation_id, NEW.sender_id), (NEW.conversation_id, NEW.receiver_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_assign_conversation
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_message_conversation();
+
+CREATE OR REPLACE FUNCTION public.handle_message_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_id = NEW.id, last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET unread_count = unread_count + 1
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.receiver_id;
+
+  -- Replying means the sender has caught up with the thread
+  UPDATE public.conversation_participants
+  SET unread_count = 0, last_read_message_id = NEW.id, last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.sender_id;
+
+  UPDATE public.messages
+  SET read = true
+  WHERE conversation_id = NEW.conversation_id AND receiver_id = NEW.sender_id AND NOT read;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_created
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_message_created();
+
+-- Mark everything the current user received in a conversation as read
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants cp
+  SET unread_count = 0, last_read_message_id = c.last_message_id, last_read_at = NOW()
+  FROM public.conversations c
+  WHERE cp.conversation_id = _conversation_id
+    AND cp.user_id = auth.uid()
+    AND c.id = cp.conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE public.messages
+  SET read = true
+  WHERE conversation_id = _conversation_id AND receiver_id = auth.uid() AND NOT read;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_conversation_read(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(uuid) TO authenticated;
+
+-- The inbox: one row per thread of the current user, most recent first
+CREATE OR REPLACE FUNCTION public.get_conversations()
+RETURNS TABLE (
+  id uuid,
+  other_user_id uuid,
+  other_full_name text,
+  other_avatar_url text,
+  last_message_id uuid,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_at timestamptz,
+  unread_count integer,
+  last_read_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    other.id,
+    other.full_name,
+    other.avatar_url,
+    m.id,
+    m.content,
+    m.message_type,
+    m.sender_id,
+    c.last_message_at,
+    cp.unread_count,
+    cp.last_read_at
+  FROM public.conversation_participants cp
+  JOIN public.conversations c ON c.id = cp.conversation_id
+  JOIN public.profiles other
+    ON other.id = CASE WHEN c.user_low = cp.user_id THEN c.user_high ELSE c.user_low END
+  LEFT JOIN public.messages m ON m.id = c.last_message_id
+  WHERE cp.user_id = auth.uid()
+  ORDER BY c.last_message_at DESC;
+$$;
+
+-- Participant rows change whenever a thread gets a message or is read, which drives the inbox
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
@@ -0,0 +1,86 @@
+-- Private bucket for files sent in messages (contracts, technical riders, stage plots).
+-- Objects live under <conversation_id>/, so access follows conversation membership.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  20971520,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+);
+
+CREATE POLICY "Participants can view message attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'message-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id::text = (storage.foldername(name))[1]
+      AND auth.uid() IN (c.user_low, c.user_high)
+  )
+);
+
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'message-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id::text = (storage.foldername(name))[1]
+      AND auth.uid() IN (c.user_low, c.user_high)
+  )
+);
+
+-- Lets the uploader clean up when the message itself fails to send
+CREATE POLICY "Users can delete their own message attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-attachments' AND
+  owner = auth.uid()
+);
+
+ALTER TABLE public.messages
+  DROP CONSTRAINT messages_message_type_check,
+  ADD CONSTRAINT messages_message_type_check
+    CHECK (message_type IN ('text', 'booking_proposal', 'attachment')),
+  ADD COLUMN attachment_path TEXT,
+  ADD COLUMN attachment_name TEXT CHECK (char_length(attachment_name) BETWEEN 1 AND 255),
+  ADD COLUMN attachment_type TEXT
+    CHECK (attachment_type IN ('image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf')),
+  ADD COLUMN attachment_size INTEGER CHECK (attachment_size BETWEEN 1 AND 20971520),
+  ADD CONSTRAINT messages_attachment_fields CHECK (
+    num_nonnulls(attachment_path, attachment_name, attachment_type, attachment_size)
+      = CASE WHEN message_type = 'attachment' THEN 4 ELSE 0 END
+  );
+
+-- Same as before, plus attachments must sit in their own conversation's folder
+CREATE OR REPLACE FUNCTION public.assign_message_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sender_id = NEW.receiver_id THEN
+    RAISE EXCEPTION 'Cannot send a message to yourself';
+  END IF;
+
+  INSERT INTO public.conversations (user_low, user_high)
+  VALUES (LEAST(NEW.sender_id, NEW.receiver_id), GREATEST(NEW.sender_id, NEW.receiver_id))
+  ON CONFLICT (user_low, user_high) DO UPDATE SET user_low = EXCLUDED.user_low
+  RETURNING id INTO NEW.conversation_id;
+
+  IF NEW.attachment_path IS NOT NULL AND split_part(NEW.attachment_path, '/', 1) <> NEW.conversation_id::text THEN
+    RAISE EXCEPTION 'Attachment does not belong to this conversation';
+  END IF;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (NEW.conversation_id, NEW.sender_id), (NEW.conversation_id, NEW.receiver_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
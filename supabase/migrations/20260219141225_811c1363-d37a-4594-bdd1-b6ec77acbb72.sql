@@ -0,0 +1,57 @@
+-- When a message was read, for read receipts. The read flag stays as the simple check.
+ALTER TABLE public.messages ADD COLUMN read_at TIMESTAMPTZ;
+
+-- The actual time wasn't recorded for older messages
+UPDATE public.messages SET read_at = created_at WHERE read;
+
+CREATE OR REPLACE FUNCTION public.handle_message_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_id = NEW.id, last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET unread_count = unread_count + 1
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.receiver_id;
+
+  -- Replying means the sender has caught up with the thread
+  UPDATE public.conversation_participants
+  SET unread_count = 0, last_read_message_id = NEW.id, last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND user_id = NEW.sender_id;
+
+  UPDATE public.messages
+  SET read = true, read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id AND receiver_id = NEW.sender_id AND NOT read;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants cp
+  SET unread_count = 0, last_read_message_id = c.last_message_id, last_read_at = NOW()
+  FROM public.conversations c
+  WHERE cp.conversation_id = _conversation_id
+    AND cp.user_id = auth.uid()
+    AND c.id = cp.conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE public.messages
+  SET read = true, read_at = NOW()
+  WHERE conversation_id = _conversation_id AND receiver_id = auth.uid() AND NOT read;
+END;
+$$;
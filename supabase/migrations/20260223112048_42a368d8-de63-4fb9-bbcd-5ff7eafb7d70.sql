@@ -0,0 +1,217 @@
+-- In-app notifications, written by triggers (and by admins through send_admin_notice).
+-- Clients only read them and mark them as read.
+CREATE TYPE public.notification_type AS ENUM ('new_message', 'favorited', 'booking_update', 'admin_notice');
+
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type public.notification_type NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  body TEXT CHECK (char_length(body) <= 1000),
+  -- In-app path the notification opens
+  link TEXT CHECK (link LIKE '/%' AND link NOT LIKE '//%'),
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- The conversation or booking the notification is about
+  source_id UUID,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Mark some (or, with no ids, all) of the current user's notifications as read
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY(_ids));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_message_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sender_name text;
+  _link text := '/messages?conversation=' || NEW.conversation_id;
+BEGIN
+  SELECT full_name INTO _sender_name FROM public.profiles WHERE id = NEW.sender_id;
+
+  -- Replying means the sender has seen the thread
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = NEW.sender_id AND source_id = NEW.conversation_id AND read_at IS NULL;
+
+  IF NEW.message_type = 'booking_proposal' THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, actor_id, source_id)
+    VALUES (NEW.receiver_id, 'booking_update', 'Nova proposta de ' || _sender_name, NEW.content, _link, NEW.sender_id, NEW.conversation_id);
+    RETURN NEW;
+  END IF;
+
+  -- One unread notification per conversation, refreshed with the latest message
+  UPDATE public.notifications
+  SET body = left(NEW.content, 200), created_at = NEW.created_at
+  WHERE user_id = NEW.receiver_id
+    AND type = 'new_message'
+    AND source_id = NEW.conversation_id
+    AND read_at IS NULL;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, actor_id, source_id)
+    VALUES (NEW.receiver_id, 'new_message', 'Nova mensagem de ' || _sender_name, left(NEW.content, 200), _link, NEW.sender_id, NEW.conversation_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_notify
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_message_created();
+
+CREATE OR REPLACE FUNCTION public.notify_favorite_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Un-favoriting and favoriting again shouldn't pile up notifications
+  INSERT INTO public.notifications (user_id, type, title, link, actor_id, source_id)
+  SELECT NEW.favorited_user_id, 'favorited', p.full_name || ' favoritou seu perfil', '/profile/' || NEW.user_id, NEW.user_id, NEW.user_id
+  FROM public.profiles p
+  WHERE p.id = NEW.user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = NEW.favorited_user_id
+        AND n.type = 'favorited'
+        AND n.actor_id = NEW.user_id
+        AND n.read_at IS NULL
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_favorite_notify
+  AFTER INSERT ON public.favorites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_favorite_created();
+
+-- Bookings are confirmed when a proposal is accepted and can later be cancelled;
+-- whoever didn't make the change is told about it
+CREATE OR REPLACE FUNCTION public.notify_booking_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, actor_id, source_id)
+  SELECT
+    p.recipient_id,
+    'booking_update',
+    CASE WHEN NEW.status = 'cancelled' THEN 'Contratação cancelada' ELSE 'Contratação confirmada' END,
+    'Show com ' || other.full_name || ' em ' || to_char(NEW.event_date, 'DD/MM/YYYY'),
+    '/bookings',
+    auth.uid(),
+    NEW.id
+  FROM (VALUES (NEW.artist_id, NEW.organizer_id), (NEW.organizer_id, NEW.artist_id)) AS p(recipient_id, other_id)
+  JOIN public.profiles other ON other.id = p.other_id
+  WHERE p.recipient_id IS DISTINCT FROM auth.uid();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_booking_notify
+  AFTER INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_booking_changed();
+
+-- Opening a conversation also clears its notifications
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants cp
+  SET unread_count = 0, last_read_message_id = c.last_message_id, last_read_at = NOW()
+  FROM public.conversations c
+  WHERE cp.conversation_id = _conversation_id
+    AND cp.user_id = auth.uid()
+    AND c.id = cp.conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE public.messages
+  SET read = true, read_at = NOW()
+  WHERE conversation_id = _conversation_id AND receiver_id = auth.uid() AND NOT read;
+
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = auth.uid() AND source_id = _conversation_id AND read_at IS NULL;
+END;
+$$;
+
+-- Admin notices go to one user or, without _user_id, to everyone. Returns how many were sent.
+CREATE OR REPLACE FUNCTION public.send_admin_notice(
+  _title text,
+  _body text DEFAULT NULL,
+  _link text DEFAULT NULL,
+  _user_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sent integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can send notices';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, actor_id)
+  SELECT id, 'admin_notice', trim(_title), NULLIF(trim(_body), ''), NULLIF(trim(_link), ''), auth.uid()
+  FROM public.profiles
+  WHERE _user_id IS NULL OR id = _user_id;
+
+  GET DIAGNOSTICS _sent = ROW_COUNT;
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_admin_notice(text, text, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.send_admin_notice(text, text, text, uuid) TO authenticated;
@@ -0,0 +1,12 @@
+-- Users can update any column of their own profile, including search_document, and a
+-- column-limited trigger never fired for that. Recompute the document on every write.
+DROP TRIGGER set_profiles_search_document ON public.profiles;
+
+CREATE TRIGGER set_profiles_search_document
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_profile_search_document();
+
+-- Undo anything written directly in the meantime
+UPDATE public.profiles
+SET search_document = public.build_profile_search_document(id, full_name, bio);
@@ -0,0 +1,16 @@
+-- Artists write portfolio_items directly, so "cover" can hold any JSON value; casting
+-- it to boolean threw on strings like "yes" and broke search_profiles for everyone.
+-- Compare as JSON instead, which is simply false for anything but true.
+CREATE OR REPLACE FUNCTION public.portfolio_cover_url(_items jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(item->>'thumb_url', item->>'url')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(_items) = 'array' THEN _items ELSE '[]'::jsonb END) AS item
+  WHERE jsonb_typeof(item) = 'object'
+    AND item->>'type' = 'image'
+    AND item->'cover' = 'true'::jsonb
+  LIMIT 1
+$$;
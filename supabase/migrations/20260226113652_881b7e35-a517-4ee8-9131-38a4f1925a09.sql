@@ -0,0 +1,284 @@
+-- Match scores used to be computed one profile at a time, each with a 30-day series of
+-- availability lookups, for every candidate before the filters and LIMIT. match_scores
+-- scores a whole set against the current user, counting busy days in one aggregate.
+CREATE OR REPLACE FUNCTION public.match_scores(_profile_ids uuid[])
+RETURNS TABLE (profile_id uuid, breakdown jsonb)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pairs AS (
+    SELECT
+      other.id AS profile_id,
+      CASE viewer.user_type WHEN 'organizer' THEN viewer.id ELSE other.id END AS organizer_id,
+      CASE viewer.user_type WHEN 'organizer' THEN other.id ELSE viewer.id END AS artist_id
+    FROM public.profiles viewer
+    CROSS JOIN unnest(_profile_ids) AS other(id)
+    WHERE viewer.id = auth.uid()
+  ),
+  -- Days in the next 30 that are blocked or already have a confirmed booking
+  busy_days AS (
+    SELECT busy.artist_id, COUNT(DISTINCT busy.day) AS days
+    FROM (
+      SELECT
+        aa.artist_id,
+        generate_series(
+          GREATEST(aa.start_date, CURRENT_DATE),
+          LEAST(aa.end_date, CURRENT_DATE + 29),
+          interval '1 day'
+        )::date AS day
+      FROM public.artist_availability aa
+      WHERE aa.artist_id IN (SELECT artist_id FROM pairs)
+        AND aa.status = 'blocked'
+        AND aa.start_date <= CURRENT_DATE + 29
+        AND aa.end_date >= CURRENT_DATE
+      UNION ALL
+      SELECT bk.artist_id, bk.event_date
+      FROM public.bookings bk
+      WHERE bk.artist_id IN (SELECT artist_id FROM pairs)
+        AND bk.status = 'confirmed'
+        AND bk.event_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 29
+    ) busy
+    GROUP BY busy.artist_id
+  ),
+  factors AS (
+    SELECT
+      pairs.profile_id,
+      CASE WHEN cardinality(op.preferred_branches) > 0 THEN (
+        SELECT COUNT(*) FROM unnest(op.preferred_branches) AS b
+        WHERE b = ANY (ap.artistic_branches)
+      )::numeric / cardinality(op.preferred_branches) END AS branch,
+      public.distance_km(ac.latitude, ac.longitude, oc.latitude, oc.longitude) AS distance,
+      COALESCE(ap.travel_radius_km, 50) AS travel_radius_km,
+      public.budget_range_max(op.budget_range) AS budget_max,
+      public.artist_starting_price(pairs.artist_id) AS starting_price,
+      1 - COALESCE(bd.days, 0)::numeric / 30 AS availability
+    FROM pairs
+    JOIN public.organizer_profiles op ON op.profile_id = pairs.organizer_id
+    JOIN public.artist_profiles ap ON ap.profile_id = pairs.artist_id
+    LEFT JOIN public.br_cities ac ON ac.id = ap.city_id
+    LEFT JOIN public.br_cities oc ON oc.id = op.city_id
+    LEFT JOIN busy_days bd ON bd.artist_id = pairs.artist_id
+  ),
+  scored AS (
+    SELECT
+      f.profile_id,
+      f.branch,
+      f.distance,
+      f.availability,
+      CASE WHEN f.distance IS NOT NULL THEN
+        GREATEST(0, 1 - GREATEST(0, f.distance - f.travel_radius_km) / 500)::numeric
+      END AS location,
+      CASE
+        WHEN f.budget_max IS NULL OR f.starting_price IS NULL THEN NULL
+        WHEN f.starting_price <= f.budget_max THEN 1
+        ELSE GREATEST(0, 1 - (f.starting_price - f.budget_max) / f.budget_max)
+      END AS budget
+    FROM factors f
+  )
+  SELECT
+    s.profile_id,
+    jsonb_build_object(
+      'score', ROUND(100 * (
+        0.4 * COALESCE(s.branch, 0.5)
+        + 0.25 * COALESCE(s.location, 0.5)
+        + 0.2 * COALESCE(s.budget, 0.5)
+        + 0.15 * s.availability
+      ))::integer,
+      'branch', ROUND(s.branch, 2),
+      'location', ROUND(s.location, 2),
+      'distance_km', ROUND(s.distance::numeric, 1),
+      'budget', ROUND(s.budget, 2),
+      'availability', ROUND(s.availability, 2)
+    )
+  FROM scored s
+$$;
+
+-- Scores are only computed for candidates that passed the filters
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  _search text DEFAULT NULL,
+  _near_city_id integer DEFAULT NULL,
+  _radius_km integer DEFAULT NULL,
+  _branch public.artistic_branch DEFAULT NULL,
+  _favorites_only boolean DEFAULT false,
+  _available_on date DEFAULT NULL,
+  _min_rating numeric DEFAULT NULL,
+  _within_budget boolean DEFAULT false,
+  _sort text DEFAULT 'match',
+  _limit integer DEFAULT 20,
+  _cursor_sort_key numeric DEFAULT NULL,
+  _cursor_created_at timestamptz DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _created_after timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  bio text,
+  avatar_url text,
+  cover_url text,
+  user_type public.user_type,
+  artistic_branches public.artistic_branch[],
+  preferred_branches public.artistic_branch[],
+  company_name text,
+  location text,
+  distance_km numeric,
+  match_score integer,
+  match_breakdown jsonb,
+  starting_price numeric,
+  currency text,
+  average_rating numeric,
+  review_count bigint,
+  created_at timestamptz,
+  sort_key numeric,
+  headline text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT p.id, p.user_type, public.budget_range_max(op.budget_range) AS budget_max
+    FROM public.profiles p
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    WHERE p.id = auth.uid()
+  ),
+  search_query AS (
+    SELECT websearch_to_tsquery('public.portuguese_unaccent', _search) AS tsq
+  ),
+  near_city AS (
+    SELECT latitude, longitude FROM public.br_cities WHERE id = _near_city_id
+  ),
+  matches AS (
+    SELECT
+      p.id,
+      p.full_name,
+      p.bio,
+      p.avatar_url,
+      public.portfolio_cover_url(ap.portfolio_items) AS cover_url,
+      p.user_type,
+      p.created_at,
+      ap.skills,
+      COALESCE(ap.artistic_branches, '{}') AS artistic_branches,
+      COALESCE(op.preferred_branches, '{}') AS preferred_branches,
+      op.company_name,
+      COALESCE(ap.location, op.location) AS location,
+      ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1) AS distance_km,
+      ap.travel_radius_km,
+      public.artist_starting_price(p.id) AS starting_price,
+      rc.currency,
+      r.average_rating,
+      COALESCE(r.review_count, 0) AS review_count,
+      CASE
+        WHEN _sort = 'rating' THEN COALESCE(r.average_rating, 0)
+        WHEN _sort = 'match' THEN NULL
+        WHEN _sort = 'distance' AND _near_city_id IS NOT NULL THEN -COALESCE(
+          ROUND(public.distance_km(city.latitude, city.longitude, near.latitude, near.longitude)::numeric, 1),
+          100000
+        )
+        WHEN _search IS NOT NULL THEN ROUND(
+          (ts_rank_cd(p.search_document, search_query.tsq) + similarity(p.full_name, _search))::numeric, 4
+        )
+        ELSE 0
+      END AS base_sort_key
+    FROM public.profiles p
+    CROSS JOIN me
+    CROSS JOIN search_query
+    LEFT JOIN public.artist_profiles ap ON ap.profile_id = p.id
+    LEFT JOIN public.organizer_profiles op ON op.profile_id = p.id
+    LEFT JOIN public.artist_rate_cards rc ON rc.artist_id = p.id
+    LEFT JOIN public.br_cities city ON city.id = COALESCE(ap.city_id, op.city_id)
+    LEFT JOIN near_city near ON true
+    LEFT JOIN public.profile_ratings r ON r.profile_id = p.id
+    WHERE p.id <> me.id
+      AND p.user_type = CASE me.user_type WHEN 'artist' THEN 'organizer'::public.user_type ELSE 'artist'::public.user_type END
+      AND (
+        _search IS NULL
+        OR p.search_document @@ search_query.tsq
+        OR p.full_name ILIKE '%' || _search || '%'
+      )
+      AND (_branch IS NULL OR ap.artistic_branches @> ARRAY[_branch] OR op.preferred_branches @> ARRAY[_branch])
+      AND (
+        NOT _favorites_only
+        OR EXISTS (
+          SELECT 1 FROM public.favorites f
+          WHERE f.user_id = auth.uid() AND f.favorited_user_id = p.id
+        )
+      )
+      AND (_created_after IS NULL OR p.created_at > _created_after)
+      AND (_available_on IS NULL OR p.id NOT IN (SELECT public.get_unavailable_artists(_available_on)))
+      AND (_min_rating IS NULL OR r.average_rating >= _min_rating)
+      AND (
+        NOT _within_budget
+        OR me.budget_max IS NULL
+        OR public.artist_starting_price(p.id) <= me.budget_max
+      )
+  ),
+  -- Within the radius of the chosen city, or an artist willing to travel that far
+  in_range AS (
+    SELECT * FROM matches m
+    WHERE _near_city_id IS NULL
+      OR m.distance_km <= GREATEST(COALESCE(_radius_km, 0), COALESCE(m.travel_radius_km, 0))
+  ),
+  -- Sorting by match needs a score for every candidate in range; any other sort only
+  -- scores the rows being returned, below
+  ranked AS (
+    SELECT
+      ir.*,
+      ms.breakdown AS match_breakdown,
+      COALESCE(ir.base_sort_key, (ms.breakdown->>'score')::numeric, 0) AS sort_key
+    FROM in_range ir
+    LEFT JOIN public.match_scores(
+      CASE WHEN _sort = 'match' THEN ARRAY(SELECT id FROM in_range) END
+    ) ms ON ms.profile_id = ir.id
+  ),
+  page AS (
+    SELECT rk.*, COUNT(*) OVER () AS total_count
+    FROM ranked rk
+  ),
+  limited AS (
+    SELECT * FROM page pg
+    WHERE _cursor_id IS NULL
+      OR (pg.sort_key, pg.created_at, pg.id) < (_cursor_sort_key, _cursor_created_at, _cursor_id)
+    ORDER BY pg.sort_key DESC, pg.created_at DESC, pg.id DESC
+    LIMIT _limit
+  )
+  -- Headlines are only built for the rows being returned
+  SELECT
+    l.id,
+    l.full_name,
+    l.bio,
+    l.avatar_url,
+    l.cover_url,
+    l.user_type,
+    l.artistic_branches,
+    l.preferred_branches,
+    l.company_name,
+    l.location,
+    l.distance_km,
+    (COALESCE(l.match_breakdown, ps.breakdown)->>'score')::integer AS match_score,
+    COALESCE(l.match_breakdown, ps.breakdown) AS match_breakdown,
+    l.starting_price,
+    l.currency,
+    l.average_rating,
+    l.review_count,
+    l.created_at,
+    l.sort_key,
+    CASE WHEN _search IS NOT NULL THEN ts_headline(
+      'public.portuguese_unaccent',
+      concat_ws(' · ', l.bio, array_to_string(l.skills, ', '), l.company_name),
+      search_query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+    ) END AS headline,
+    l.total_count
+  FROM limited l
+  CROSS JOIN search_query
+  LEFT JOIN public.match_scores(
+    CASE WHEN _sort IS DISTINCT FROM 'match' THEN ARRAY(SELECT id FROM limited) END
+  ) ps ON ps.profile_id = l.id
+  ORDER BY l.sort_key DESC, l.created_at DESC, l.id DESC
+$$;
+
+DROP FUNCTION public.match_score(uuid, uuid);
@@ -0,0 +1,5 @@
+-- Read receipts go through mark_conversation_read only. The original policy let a
+-- receiver rewrite any column of a message they received, content included.
+DROP POLICY "Users can update read status of received messages" ON public.messages;
+
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
@@ -0,0 +1,46 @@
+-- Applications copy the chosen portfolio items, and the organizer sees them as the
+-- artist's work. Only items from the applicant's own portfolio can be attached.
+CREATE OR REPLACE FUNCTION public.is_own_portfolio_selection(_artist_id uuid, _items jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(_items) = 'array'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_items) AS picked
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM public.artist_profiles ap
+        CROSS JOIN jsonb_array_elements(
+          CASE WHEN jsonb_typeof(ap.portfolio_items) = 'array' THEN ap.portfolio_items ELSE '[]'::jsonb END
+        ) AS own
+        WHERE ap.profile_id = _artist_id
+          -- Older portfolios hold bare image URLs instead of {url, type} objects
+          AND COALESCE(own->>'url', own #>> '{}') = COALESCE(picked->>'url', picked #>> '{}')
+          AND COALESCE(own->>'type', 'image') = COALESCE(picked->>'type', 'image')
+          AND (own->>'thumb_url') IS NOT DISTINCT FROM (picked->>'thumb_url')
+      )
+    )
+$$;
+
+DROP POLICY "Artists can apply to open gigs" ON public.gig_applications;
+
+CREATE POLICY "Artists can apply to open gigs"
+  ON public.gig_applications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    artist_id = auth.uid()
+    AND status = 'applied'
+    AND EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND user_type = 'artist'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.gigs
+      WHERE id = gig_id AND status = 'open'
+    )
+    AND public.is_own_portfolio_selection(auth.uid(), portfolio_items)
+  );
@@ -0,0 +1,22 @@
+-- Cancelling is the only change either side can make, and a cancelled booking can't be
+-- confirmed again by the other party
+DROP POLICY "Participants can cancel their bookings" ON public.bookings;
+
+CREATE POLICY "Participants can cancel their bookings"
+  ON public.bookings FOR UPDATE
+  TO authenticated
+  USING ((auth.uid() = artist_id OR auth.uid() = organizer_id) AND status = 'confirmed')
+  WITH CHECK ((auth.uid() = artist_id OR auth.uid() = organizer_id) AND status = 'cancelled');
+
+-- Proposal cards are only posted by the booking_proposals trigger; users could otherwise
+-- insert a card pointing at any proposal
+DROP POLICY "Users can send messages" ON public.messages;
+
+CREATE POLICY "Users can send messages"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND message_type IN ('text', 'attachment')
+    AND proposal_id IS NULL
+  );
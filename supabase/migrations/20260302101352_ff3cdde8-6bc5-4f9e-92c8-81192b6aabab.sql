@@ -0,0 +1,25 @@
+-- Portfolio URLs are rendered as links and media sources on public pages, so only
+-- http(s) URLs are accepted. Bare strings are image URLs from older portfolios.
+CREATE OR REPLACE FUNCTION public.portfolio_urls_valid(_items jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(_items) = 'array'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_items) AS item
+      WHERE CASE jsonb_typeof(item)
+        WHEN 'string' THEN (item #>> '{}') !~* '^https?://'
+        WHEN 'object' THEN COALESCE(item->>'url', '') !~* '^https?://'
+          OR (item ? 'thumb_url' AND COALESCE(item->>'thumb_url', '') !~* '^https?://')
+        ELSE true
+      END
+    )
+$$;
+
+-- Existing rows are left alone; the app drops bad items the next time they are saved
+ALTER TABLE public.artist_profiles
+  ADD CONSTRAINT artist_profiles_portfolio_urls_valid
+  CHECK (public.portfolio_urls_valid(portfolio_items)) NOT VALID;
@@ -0,0 +1,93 @@
+-- Names have no length limit, but notification titles and bodies do. A long name made
+-- these triggers raise and took the message, favorite or booking change down with them.
+CREATE OR REPLACE FUNCTION public.notify_message_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sender_name text;
+  _link text := '/messages?conversation=' || NEW.conversation_id;
+BEGIN
+  SELECT full_name INTO _sender_name FROM public.profiles WHERE id = NEW.sender_id;
+
+  -- Replying means the sender has seen the thread
+  UPDATE public.notifications
+  SET read_at = NOW()
+  WHERE user_id = NEW.sender_id AND source_id = NEW.conversation_id AND read_at IS NULL;
+
+  IF NEW.message_type = 'booking_proposal' THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, actor_id, source_id)
+    VALUES (NEW.receiver_id, 'booking_update', left('Nova proposta de ' || _sender_name, 200), NEW.content, _link, NEW.sender_id, NEW.conversation_id);
+    RETURN NEW;
+  END IF;
+
+  -- One unread notification per conversation, refreshed with the latest message
+  UPDATE public.notifications
+  SET body = left(NEW.content, 200), created_at = NEW.created_at
+  WHERE user_id = NEW.receiver_id
+    AND type = 'new_message'
+    AND source_id = NEW.conversation_id
+    AND read_at IS NULL;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, actor_id, source_id)
+    VALUES (NEW.receiver_id, 'new_message', left('Nova mensagem de ' || _sender_name, 200), left(NEW.content, 200), _link, NEW.sender_id, NEW.conversation_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_favorite_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Un-favoriting and favoriting again shouldn't pile up notifications
+  INSERT INTO public.notifications (user_id, type, title, link, actor_id, source_id)
+  SELECT NEW.favorited_user_id, 'favorited', left(p.full_name || ' favoritou seu perfil', 200), '/profile/' || NEW.user_id, NEW.user_id, NEW.user_id
+  FROM public.profiles p
+  WHERE p.id = NEW.user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = NEW.favorited_user_id
+        AND n.type = 'favorited'
+        AND n.actor_id = NEW.user_id
+        AND n.read_at IS NULL
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_booking_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, actor_id, source_id)
+  SELECT
+    p.recipient_id,
+    'booking_update',
+    CASE WHEN NEW.status = 'cancelled' THEN 'Contratação cancelada' ELSE 'Contratação confirmada' END,
+    left('Show com ' || other.full_name, 980) || ' em ' || to_char(NEW.event_date, 'DD/MM/YYYY'),
+    '/bookings',
+    auth.uid(),
+    NEW.id
+  FROM (VALUES (NEW.artist_id, NEW.organizer_id), (NEW.organizer_id, NEW.artist_id)) AS p(recipient_id, other_id)
+  JOIN public.profiles other ON other.id = p.other_id
+  WHERE p.recipient_id IS DISTINCT FROM auth.uid();
+
+  RETURN NEW;
+END;
+$$;